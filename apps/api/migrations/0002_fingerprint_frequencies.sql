@@ -0,0 +1,26 @@
+-- BrowserLeaks.io D1 Database Migration
+-- Population frequency store for fingerprint entropy
+
+-- ============================================
+-- FINGERPRINT COMPONENT VALUES TABLE
+-- ============================================
+-- One row per distinct component value; seen_count is the number of
+-- distinct fingerprints (shared_fingerprints.hash) that reported it.
+CREATE TABLE IF NOT EXISTS fingerprint_component_values (
+  component TEXT NOT NULL,
+  value_hash TEXT NOT NULL,
+  seen_count INTEGER NOT NULL DEFAULT 0,
+  first_seen_at TEXT DEFAULT (datetime('now')),
+  last_seen_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (component, value_hash)
+);
+
+-- ============================================
+-- FINGERPRINT COMPONENT TOTALS TABLE
+-- ============================================
+-- Sample size per component, plus a '_all' row counting every fingerprint.
+CREATE TABLE IF NOT EXISTS fingerprint_component_totals (
+  component TEXT PRIMARY KEY,
+  sample_size INTEGER NOT NULL DEFAULT 0,
+  updated_at TEXT DEFAULT (datetime('now'))
+);
@@ -0,0 +1,18 @@
+-- BrowserLeaks.io D1 Database Migration
+-- Per-visitor fingerprint snapshots for drift analysis
+
+-- ============================================
+-- FINGERPRINT SNAPSHOTS TABLE
+-- ============================================
+-- component_hashes holds a JSON object of component name -> value hash,
+-- fingerprint holds the submitted CompleteFingerprint.
+CREATE TABLE IF NOT EXISTS fingerprint_snapshots (
+  id TEXT PRIMARY KEY,
+  visitor_id TEXT NOT NULL,
+  fingerprint_id TEXT,
+  component_hashes TEXT NOT NULL DEFAULT '{}',
+  fingerprint TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_fingerprint_snapshots_visitor_id ON fingerprint_snapshots(visitor_id, created_at);
@@ -0,0 +1,8 @@
+-- BrowserLeaks.io D1 Database Migration
+-- Component hashes on shared fingerprints for similarity matching
+
+-- JSON object of component name -> value hash, as recorded by the entropy store
+ALTER TABLE shared_fingerprints ADD COLUMN component_hashes TEXT NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_shared_fingerprints_audio_hash ON shared_fingerprints(audio_hash);
+CREATE INDEX IF NOT EXISTS idx_shared_fingerprints_font_hash ON shared_fingerprints(font_hash);
@@ -0,0 +1,30 @@
+-- BrowserLeaks.io D1 Database Migration
+-- First-party DNS leak tests and the resolvers seen by our authoritative nameserver
+
+-- ============================================
+-- DNS LEAK TESTS TABLE
+-- ============================================
+-- client_ip is the address the test was started from; resolver ASNs are compared against it.
+CREATE TABLE IF NOT EXISTS dns_leak_tests (
+  id TEXT PRIMARY KEY,
+  client_ip TEXT NOT NULL,
+  probe_count INTEGER NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+  expires_at TEXT NOT NULL
+);
+
+-- ============================================
+-- DNS RESOLVER OBSERVATIONS TABLE
+-- ============================================
+-- One row per query for a probe hostname (<probe>.<test id>.<zone>), written by the
+-- dns-beacon worker or the local DNS responder.
+CREATE TABLE IF NOT EXISTS dns_resolver_observations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  test_id TEXT NOT NULL,
+  probe TEXT NOT NULL,
+  resolver_ip TEXT NOT NULL,
+  observed_at TEXT DEFAULT (datetime('now')),
+  FOREIGN KEY (test_id) REFERENCES dns_leak_tests(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_dns_resolver_observations_test_id ON dns_resolver_observations(test_id);
@@ -0,0 +1,32 @@
+-- BrowserLeaks.io D1 Database Migration
+-- API keys with tiered, per-endpoint-group daily quotas
+
+-- ============================================
+-- API KEYS TABLE
+-- ============================================
+-- key_hash is the SHA-256 of the full key; the key itself is never stored.
+-- Rotation replaces key_hash/key_prefix in place so usage history is kept.
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  tier TEXT NOT NULL DEFAULT 'free',
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT UNIQUE NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+  last_used_at TEXT,
+  rotated_at TEXT,
+  revoked_at TEXT
+);
+
+-- ============================================
+-- API KEY USAGE TABLE
+-- ============================================
+-- One counter per key, UTC day and endpoint group
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  key_id TEXT NOT NULL,
+  period TEXT NOT NULL,
+  endpoint_group TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key_id, period, endpoint_group),
+  FOREIGN KEY (key_id) REFERENCES api_keys(id) ON DELETE CASCADE
+);
@@ -0,0 +1,26 @@
+-- BrowserLeaks.io D1 Database Migration
+-- Dual-stack IPv6 leak tests and the address each probe endpoint saw
+
+-- ============================================
+-- IPV6 LEAK TESTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS ipv6_leak_tests (
+  id TEXT PRIMARY KEY,
+  created_at TEXT DEFAULT (datetime('now')),
+  expires_at TEXT NOT NULL
+);
+
+-- ============================================
+-- IPV6 PROBE OBSERVATIONS TABLE
+-- ============================================
+-- One row per probe request; endpoint is ipv4 (A record only), ipv6 (AAAA only) or dual.
+CREATE TABLE IF NOT EXISTS ipv6_probe_observations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  test_id TEXT NOT NULL,
+  endpoint TEXT NOT NULL,
+  ip TEXT NOT NULL,
+  observed_at TEXT DEFAULT (datetime('now')),
+  FOREIGN KEY (test_id) REFERENCES ipv6_leak_tests(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_ipv6_probe_observations_test_id ON ipv6_probe_observations(test_id);
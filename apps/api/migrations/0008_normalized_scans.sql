@@ -0,0 +1,76 @@
+-- BrowserLeaks.io D1 Database Migration
+-- Scan history moves from JSON blobs in scan_history into the scans, fingerprints,
+-- ip_leaks, dns_leaks and webrtc_leaks tables; existing history rows are backfilled
+
+-- ============================================
+-- SCANS TABLE
+-- ============================================
+-- Policy and normalized sections let scores recorded under different policies be compared
+ALTER TABLE scans ADD COLUMN score_policy_name TEXT;
+ALTER TABLE scans ADD COLUMN score_policy_version TEXT;
+ALTER TABLE scans ADD COLUMN score_normalized TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_ip_leaks_asn_number ON ip_leaks(asn_number);
+CREATE INDEX IF NOT EXISTS idx_dns_leaks_leak_type ON dns_leaks(leak_type);
+
+-- ============================================
+-- BACKFILL FROM SCAN HISTORY
+-- ============================================
+-- History rows only carried the summary fields the /history route accepted.
+-- scan_history is left in place but is no longer written.
+INSERT OR IGNORE INTO scans (
+  id, visitor_id, session_id, user_agent, ip, total_score, risk_level,
+  score_policy_name, score_policy_version, score_normalized, created_at, updated_at
+)
+SELECT
+  id,
+  visitor_id,
+  '',
+  '',
+  json_extract(scan_data, '$.ip.address'),
+  privacy_score,
+  risk_level,
+  json_extract(scan_data, '$.privacyScore.policy.name'),
+  json_extract(scan_data, '$.privacyScore.policy.version'),
+  json_extract(scan_data, '$.privacyScore.normalized'),
+  strftime('%Y-%m-%dT%H:%M:%fZ', created_at),
+  strftime('%Y-%m-%dT%H:%M:%fZ', created_at)
+FROM scan_history;
+
+INSERT OR IGNORE INTO fingerprints (id, scan_id, combined_hash, uniqueness_score)
+SELECT
+  lower(hex(randomblob(16))),
+  id,
+  json_extract(scan_data, '$.fingerprint.combinedHash'),
+  json_extract(scan_data, '$.fingerprint.uniquenessScore')
+FROM scan_history
+WHERE json_type(scan_data, '$.fingerprint') = 'object';
+
+INSERT OR IGNORE INTO ip_leaks (id, scan_id, ip, is_vpn, is_proxy, is_tor)
+SELECT
+  lower(hex(randomblob(16))),
+  id,
+  json_extract(scan_data, '$.ip.address'),
+  json_extract(scan_data, '$.ip.privacy.isVpn'),
+  json_extract(scan_data, '$.ip.privacy.isProxy'),
+  json_extract(scan_data, '$.ip.privacy.isTor')
+FROM scan_history
+WHERE json_extract(scan_data, '$.ip.address') IS NOT NULL;
+
+INSERT OR IGNORE INTO dns_leaks (id, scan_id, test_id, is_leak, leak_type)
+SELECT
+  lower(hex(randomblob(16))),
+  id,
+  '',
+  COALESCE(json_extract(scan_data, '$.dns.isLeak'), 0),
+  COALESCE(json_extract(scan_data, '$.dns.leakType'), 'none')
+FROM scan_history
+WHERE json_type(scan_data, '$.dns') = 'object';
+
+INSERT OR IGNORE INTO webrtc_leaks (id, scan_id, is_leak)
+SELECT
+  lower(hex(randomblob(16))),
+  id,
+  COALESCE(json_extract(scan_data, '$.webrtc.isLeak'), 0)
+FROM scan_history
+WHERE json_type(scan_data, '$.webrtc') = 'object';
@@ -0,0 +1,24 @@
+-- BrowserLeaks.io D1 Database Migration
+-- Leak snapshots behind the live telemetry feed (mirrors cloudflare/d1/schema.sql)
+
+-- ============================================
+-- LEAK LOGS TABLE
+-- ============================================
+-- One row per captured detection; full_report_blob holds the LeakReportSnapshot JSON.
+CREATE TABLE IF NOT EXISTS leak_logs (
+  id TEXT PRIMARY KEY,
+  created_at TEXT NOT NULL,
+  privacy_score INTEGER DEFAULT 0,
+  entropy_score REAL DEFAULT 0,
+  leaks_webrtc INTEGER DEFAULT 0,
+  leaks_dns TEXT DEFAULT 'none',
+  leaks_battery INTEGER DEFAULT 0,
+  leaks_motion INTEGER DEFAULT 0,
+  resolver_ip TEXT,
+  resolver_country TEXT,
+  colo TEXT,
+  api_surface TEXT,
+  full_report_blob TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_leak_logs_created_at ON leak_logs(created_at);
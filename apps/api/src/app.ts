@@ -1,4 +1,4 @@
-import express from 'express';
+import express, { type Express } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import { config } from './config';
@@ -6,127 +6,173 @@ import {
   requestLogger,
   errorHandler,
   notFoundHandler,
-  standardLimiter,
   logger,
 } from './middleware';
-import ipRoutes from './routes/ip';
-import dnsRoutes from './routes/dns';
-import webrtcRoutes from './routes/webrtc';
-import privacyScoreRoutes from './routes/privacy-score';
-import networkRoutes from './routes/network';
-import eventsRoutes from './routes/events';
-import fingerprintRoutes from './routes/fingerprint';
-import historyRoutes from './routes/history';
-import shareRoutes from './routes/share';
-
-const app = express();
-
-// Trust proxy for correct IP detection behind reverse proxy
-app.set('trust proxy', 1);
-
-// Security middleware
-app.use(helmet({
-  contentSecurityPolicy: {
-    directives: {
-      defaultSrc: ["'self'"],
-      scriptSrc: ["'self'", "'unsafe-inline'"],
-      styleSrc: ["'self'", "'unsafe-inline'"],
-      imgSrc: ["'self'", 'data:', 'https:'],
-      connectSrc: ["'self'", 'https://api.ipify.org', 'https://ipinfo.io'],
-    },
-  },
-  crossOriginEmbedderPolicy: false,
-}));
-
-// CORS - allow multiple origins in development
-const allowedOrigins = config.NODE_ENV === 'production'
-  ? ['https://browserleaks.io', 'https://www.browserleaks.io']
-  : ['http://localhost:3000', 'http://localhost:3001', 'http://127.0.0.1:3000'];
-
-app.use(
-  cors({
-    origin: (origin, callback) => {
-      // Allow requests with no origin (mobile apps, curl, etc)
-      if (!origin || allowedOrigins.includes(origin)) {
-        callback(null, true);
-      } else {
-        callback(new Error('Not allowed by CORS'));
-      }
+import { createIPRoutes } from './routes/ip';
+import { createDNSRoutes } from './routes/dns';
+import { createIPv6LeakRoutes } from './routes/ipv6-leak';
+import { createWebRTCRoutes } from './routes/webrtc';
+import { createPrivacyScoreRoutes } from './routes/privacy-score';
+import { createNetworkRoutes } from './routes/network';
+import { createHttpHeadersRoutes } from './routes/http-headers';
+import { createTLSRoutes } from './routes/tls';
+import { createEventsRoutes } from './routes/events';
+import { createFingerprintRoutes } from './routes/fingerprint';
+import { createFingerprintDriftRoutes } from './routes/fingerprint-drift';
+import { createHistoryRoutes } from './routes/history';
+import { createShareRoutes } from './routes/share';
+import { createAutomationRoutes } from './routes/automation';
+import { createKeyRoutes } from './routes/keys';
+import { createExpressAccess } from './core/express';
+import type { CoreDeps } from './core/deps';
+import { getNodeCoreDeps } from './core/nodeDeps';
+
+/**
+ * Build the Express app over the given core deps; tests pass their own stores
+ */
+export function createApp(deps: CoreDeps): Express {
+  const app = express();
+
+  // Trust only the configured reverse proxies for the client address
+  app.set('trust proxy', config.TRUSTED_PROXIES || false);
+
+  // Security middleware
+  app.use(helmet({
+    contentSecurityPolicy: {
+      directives: {
+        defaultSrc: ["'self'"],
+        scriptSrc: ["'self'", "'unsafe-inline'"],
+        styleSrc: ["'self'", "'unsafe-inline'"],
+        imgSrc: ["'self'", 'data:', 'https:'],
+        connectSrc: ["'self'", 'https://api.ipify.org', 'https://ipinfo.io'],
+      },
     },
-    credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID', 'X-API-Key'],
-    exposedHeaders: ['X-Request-ID', 'X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset'],
-  })
-);
-
-// Request logging (add request ID and log all requests)
-app.use(requestLogger);
-
-// Rate limiting
-app.use('/v1', standardLimiter);
-
-// Body parsing
-app.use(express.json({ limit: '1mb' }));
-app.use(express.urlencoded({ extended: true, limit: '1mb' }));
-
-// Health check
-app.get('/health', (req, res) => {
-  res.json({
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-    env: config.NODE_ENV,
+    crossOriginEmbedderPolicy: false,
+  }));
+
+  // CORS - allow multiple origins in development
+  const allowedOrigins = config.NODE_ENV === 'production'
+    ? ['https://browserleaks.io', 'https://www.browserleaks.io']
+    : ['http://localhost:3000', 'http://localhost:3001', 'http://127.0.0.1:3000'];
+
+  app.use(
+    cors({
+      origin: (origin, callback) => {
+        // Allow requests with no origin (mobile apps, curl, etc)
+        if (!origin || allowedOrigins.includes(origin)) {
+          callback(null, true);
+        } else {
+          callback(new Error('Not allowed by CORS'));
+        }
+      },
+      credentials: true,
+      methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID', 'X-API-Key'],
+      exposedHeaders: [
+        'X-Request-ID',
+        'X-RateLimit-Limit',
+        'X-RateLimit-Remaining',
+        'X-RateLimit-Reset',
+        'X-RateLimit-Cost',
+        'Retry-After',
+      ],
+    })
+  );
+
+  // Request logging (add request ID and log all requests)
+  app.use(requestLogger);
+
+  // API key quotas, falling back to per-IP rate limiting
+  app.use('/v1', createExpressAccess(deps));
+
+  // Body parsing
+  app.use(express.json({ limit: '1mb' }));
+  app.use(express.urlencoded({ extended: true, limit: '1mb' }));
+
+  // Health check
+  app.get('/health', (req, res) => {
+    res.json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      env: config.NODE_ENV,
+    });
   });
-});
-
-// API routes
-app.use('/v1', ipRoutes);
-app.use('/v1', dnsRoutes);
-app.use('/v1', webrtcRoutes);
-app.use('/v1', privacyScoreRoutes);
-app.use('/v1', networkRoutes);
-app.use('/v1', eventsRoutes);
-app.use('/v1/fingerprint', fingerprintRoutes);
-app.use('/v1/history', historyRoutes);
-app.use('/v1/share', shareRoutes);
-
-// API info
-app.get('/v1', (req, res) => {
-  res.json({
-    name: 'BrowserLeaks API',
-    version: '1.0.0',
-    endpoints: [
-      'POST /v1/detect/ip',
-      'GET /v1/detect/ip/:ip',
-      'POST /v1/detect/dns-leak',
-      'POST /v1/detect/webrtc-leak',
-      'POST /v1/fingerprint',
-      'POST /v1/fingerprint/scan',
-      'GET /v1/fingerprint/:hash',
-      'POST /v1/privacy-score',
-      'GET /v1/history',
-      'POST /v1/history',
-      'POST /v1/history/compare',
-      'GET /v1/history/:scanId',
-      'DELETE /v1/history/:scanId',
-      'POST /v1/share',
-      'GET /v1/share/:code',
-      'DELETE /v1/share/:code',
-      'GET /v1/share/:code/stats',
-    ],
+
+  // API routes
+  app.use('/v1', createIPRoutes(deps));
+  app.use('/v1', createDNSRoutes(deps));
+  app.use('/v1', createIPv6LeakRoutes(deps));
+  app.use('/v1', createWebRTCRoutes(deps));
+  app.use('/v1', createPrivacyScoreRoutes(deps));
+  app.use('/v1', createNetworkRoutes(deps));
+  app.use('/v1', createHttpHeadersRoutes(deps));
+  app.use('/v1', createTLSRoutes(deps));
+  app.use('/v1', createEventsRoutes(deps));
+  app.use('/v1', createAutomationRoutes(deps));
+  app.use('/v1/fingerprint', createFingerprintRoutes(deps));
+  app.use('/v1/fingerprint', createFingerprintDriftRoutes(deps));
+  app.use('/v1/history', createHistoryRoutes(deps));
+  app.use('/v1/share', createShareRoutes(deps));
+  app.use('/v1', createKeyRoutes(deps));
+
+  // API info
+  app.get('/v1', (req, res) => {
+    res.json({
+      name: 'BrowserLeaks API',
+      version: '1.0.0',
+      endpoints: [
+        'POST /v1/detect/ip',
+        'GET /v1/detect/ip/:ip',
+        'POST /v1/dns-leak/tests',
+        'POST /v1/detect/dns-leak',
+        'POST /v1/ipv6-leak/tests',
+        'GET /v1/ipv6-leak/tests/:testId/:endpoint',
+        'POST /v1/detect/ipv6-leak',
+        'POST /v1/detect/webrtc-leak',
+        'POST /v1/detect/automation',
+        'POST /v1/fingerprint',
+        'POST /v1/fingerprint/scan',
+        'POST /v1/fingerprint/match',
+        'GET /v1/fingerprint/:hash',
+        'POST /v1/fingerprint/snapshots',
+        'GET /v1/fingerprint/drift/:visitorId',
+        'POST /v1/privacy-score',
+        'GET /v1/privacy-score/policies',
+        'GET /v1/http-headers',
+        'GET /v1/tls/fingerprint',
+        'GET /v1/history',
+        'POST /v1/history',
+        'POST /v1/history/compare',
+        'GET /v1/history/:scanId',
+        'DELETE /v1/history/:scanId',
+        'POST /v1/share',
+        'GET /v1/share/:code',
+        'DELETE /v1/share/:code',
+        'GET /v1/share/:code/stats',
+        'GET /v1/events/stream',
+        'POST /v1/events/log',
+        'POST /v1/keys',
+        'GET /v1/keys',
+        'POST /v1/keys/:id/rotate',
+        'DELETE /v1/keys/:id',
+        'GET /v1/quota',
+      ],
+    });
   });
-});
 
-// 404 handler
-app.use(notFoundHandler);
+  // 404 handler
+  app.use(notFoundHandler);
+
+  // Global error handler
+  app.use(errorHandler);
 
-// Global error handler
-app.use(errorHandler);
+  // Log startup info
+  logger.info('Express app initialized', {
+    env: config.NODE_ENV,
+    corsOrigins: allowedOrigins,
+  });
 
-// Log startup info
-logger.info('Express app initialized', {
-  env: config.NODE_ENV,
-  corsOrigins: allowedOrigins,
-});
+  return app;
+}
 
-export default app;
+export default createApp(getNodeCoreDeps());
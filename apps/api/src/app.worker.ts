@@ -0,0 +1,242 @@
+/**
+ * BrowserLeaks.io API Worker app
+ *
+ * Built over a resolver for the core deps, so the contract tests can run the
+ * same middleware and routes over their own stores.
+ */
+
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { secureHeaders } from 'hono/secure-headers';
+import { logger } from 'hono/logger';
+import { PrismaClient } from '@prisma/client';
+import { PrismaD1 } from '@prisma/adapter-d1';
+import type { Env, AppContext } from './types/env';
+import type { CoreDeps } from './core/deps';
+import { createHonoAccess } from './core/hono.worker';
+
+// Route imports
+import { createIPRoutes } from './routes/ip.worker';
+import { createDNSRoutes } from './routes/dns.worker';
+import { createIPv6LeakRoutes } from './routes/ipv6-leak.worker';
+import { createWebRTCRoutes } from './routes/webrtc.worker';
+import { createFingerprintRoutes } from './routes/fingerprint.worker';
+import { createFingerprintDriftRoutes } from './routes/fingerprint-drift.worker';
+import { createPrivacyScoreRoutes } from './routes/privacy-score.worker';
+import { createShareRoutes } from './routes/share.worker';
+import { createHistoryRoutes } from './routes/history.worker';
+import { createAutomationRoutes } from './routes/automation.worker';
+import { createEventsRoutes } from './routes/events.worker';
+import { createNetworkRoutes } from './routes/network.worker';
+import { createHttpHeadersRoutes } from './routes/http-headers.worker';
+import { createTLSRoutes } from './routes/tls.worker';
+import { createAIChatRoutes } from './routes/ai.worker';
+import { createKeyRoutes } from './routes/keys.worker';
+
+// Middleware imports
+import { errorHandler } from './middleware/errorHandler.worker';
+
+/**
+ * Create the Hono app with typed environment
+ */
+export function createApp(resolveDeps: (env: Env) => CoreDeps): Hono<AppContext> {
+  const app = new Hono<AppContext>();
+
+  /**
+   * Global middleware
+   */
+
+  // Request ID and timing
+  app.use('*', async (c, next) => {
+    const requestId = c.req.header('x-request-id') || crypto.randomUUID();
+    const clientIP =
+      c.req.header('cf-connecting-ip') ||
+      c.req.header('x-forwarded-for')?.split(',')[0]?.trim() ||
+      '0.0.0.0';
+
+    c.set('requestId', requestId);
+    c.set('clientIP', clientIP);
+    c.set('startTime', Date.now());
+
+    // Set response headers
+    c.header('X-Request-ID', requestId);
+
+    await next();
+
+    // Log request duration
+    const duration = Date.now() - c.get('startTime');
+    console.log(`${c.req.method} ${c.req.path} - ${c.res.status} (${duration}ms)`);
+  });
+
+  // Secure headers (similar to Helmet)
+  app.use(
+    '*',
+    secureHeaders({
+      contentSecurityPolicy: {
+        defaultSrc: ["'self'"],
+        scriptSrc: ["'self'"],
+        styleSrc: ["'self'"],
+        imgSrc: ["'self'", 'data:', 'https:'],
+        connectSrc: ["'self'", 'https://api.ipify.org', 'https://ipinfo.io'],
+      },
+      crossOriginEmbedderPolicy: false,
+    })
+  );
+
+  // CORS
+  app.use(
+    '*',
+    cors({
+      origin: (origin, c) => {
+        const env = c.env as Env;
+        const corsOrigin = env.CORS_ORIGIN || 'https://browserleaks.io';
+        const allowedOrigins =
+          env.NODE_ENV === 'production'
+            ? ['https://browserleaks.io', 'https://www.browserleaks.io']
+            : ['http://localhost:3000', 'http://localhost:3001', 'http://127.0.0.1:3000'];
+
+        // Allow requests with no origin (mobile apps, curl)
+        if (!origin) return corsOrigin;
+
+        return allowedOrigins.includes(origin) ? origin : corsOrigin;
+      },
+      credentials: true,
+      allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+      allowHeaders: ['Content-Type', 'Authorization', 'X-Request-ID', 'X-API-Key'],
+      exposeHeaders: [
+        'X-Request-ID',
+        'X-RateLimit-Limit',
+        'X-RateLimit-Remaining',
+        'X-RateLimit-Reset',
+        'X-RateLimit-Cost',
+        'Retry-After',
+      ],
+    })
+  );
+
+  // Logging in development
+  app.use('*', logger());
+
+  /**
+   * Health check endpoint
+   */
+  app.get('/health', async (c) => {
+    const env = c.env as Env;
+
+    // Test D1 connection
+    let dbStatus = 'unknown';
+    try {
+      const adapter = new PrismaD1(env.DB);
+      const prisma = new PrismaClient({ adapter });
+      await prisma.$queryRaw`SELECT 1`;
+      dbStatus = 'connected';
+    } catch (error) {
+      dbStatus = 'error';
+      console.error('D1 health check failed:', error);
+    }
+
+    return c.json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      env: env.NODE_ENV,
+      database: dbStatus,
+    });
+  });
+
+  /**
+   * API Info endpoint
+   */
+  app.get('/v1', (c) => {
+    return c.json({
+      name: 'BrowserLeaks API',
+      version: '2.0.0',
+      runtime: 'Cloudflare Workers',
+      endpoints: [
+        'POST /v1/detect/ip',
+        'GET /v1/detect/ip/:ip',
+        'POST /v1/dns-leak/tests',
+        'POST /v1/detect/dns-leak',
+        'POST /v1/ipv6-leak/tests',
+        'GET /v1/ipv6-leak/tests/:testId/:endpoint',
+        'POST /v1/detect/ipv6-leak',
+        'POST /v1/detect/webrtc-leak',
+        'POST /v1/detect/automation',
+        'POST /v1/fingerprint',
+        'POST /v1/fingerprint/scan',
+        'POST /v1/fingerprint/match',
+        'GET /v1/fingerprint/:hash',
+        'POST /v1/fingerprint/snapshots',
+        'GET /v1/fingerprint/drift/:visitorId',
+        'POST /v1/privacy-score',
+        'GET /v1/privacy-score/policies',
+        'GET /v1/http-headers',
+        'GET /v1/tls/fingerprint',
+        'GET /v1/history',
+        'POST /v1/history',
+        'POST /v1/history/compare',
+        'GET /v1/history/:scanId',
+        'DELETE /v1/history/:scanId',
+        'POST /v1/share',
+        'GET /v1/share/:code',
+        'DELETE /v1/share/:code',
+        'GET /v1/share/:code/stats',
+        'GET /v1/events/stream',
+        'POST /v1/events/log',
+        'POST /v1/keys',
+        'GET /v1/keys',
+        'POST /v1/keys/:id/rotate',
+        'DELETE /v1/keys/:id',
+        'GET /v1/quota',
+      ],
+    });
+  });
+
+  /**
+   * API key quotas for /v1 routes, falling back to per-IP rate limiting
+   */
+  app.use('/v1/*', createHonoAccess(resolveDeps));
+
+  /**
+   * Mount API routes
+   * Note: Routes resolve their deps per request, from the bindings on the context
+   */
+  app.route('/v1', createIPRoutes(resolveDeps));
+  app.route('/v1', createDNSRoutes(resolveDeps));
+  app.route('/v1', createIPv6LeakRoutes(resolveDeps));
+  app.route('/v1', createWebRTCRoutes(resolveDeps));
+  app.route('/v1/fingerprint', createFingerprintRoutes(resolveDeps));
+  app.route('/v1/fingerprint', createFingerprintDriftRoutes(resolveDeps));
+  app.route('/v1', createPrivacyScoreRoutes(resolveDeps));
+  app.route('/v1/share', createShareRoutes(resolveDeps));
+  app.route('/v1/history', createHistoryRoutes(resolveDeps));
+  app.route('/v1', createEventsRoutes(resolveDeps));
+  app.route('/v1', createAutomationRoutes(resolveDeps));
+  app.route('/v1', createNetworkRoutes(resolveDeps));
+  app.route('/v1', createHttpHeadersRoutes(resolveDeps));
+  app.route('/v1', createTLSRoutes(resolveDeps));
+  app.route('/v1', createAIChatRoutes());
+  app.route('/v1', createKeyRoutes(resolveDeps));
+
+  /**
+   * 404 handler
+   */
+  app.notFound((c) => {
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: `Route ${c.req.method} ${c.req.path} not found`,
+        },
+      },
+      404
+    );
+  });
+
+  /**
+   * Global error handler
+   */
+  app.onError(errorHandler);
+
+  return app;
+}
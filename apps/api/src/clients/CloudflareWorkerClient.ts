@@ -1,6 +1,3 @@
-import { config } from '../config';
-import { log } from '../middleware/logger';
-
 interface JA3Response {
   ja3_hash: string;
   user_agent: string;
@@ -8,14 +5,22 @@ interface JA3Response {
   ciphers?: string;
 }
 
+export interface CloudflareWorkerClientOptions {
+  ja3Url?: string; // JA3 hashing Worker
+  dnsBeaconUrl?: string; // DNS beacon Worker
+  onError?: (message: string, error: unknown) => void; // failures fall back, so only logged
+}
+
 export class CloudflareWorkerClient {
+  constructor(private options: CloudflareWorkerClientOptions = {}) {}
+
   async fetchJA3(): Promise<JA3Response> {
-    if (!config.CF_WORKER_JA3_URL) {
+    if (!this.options.ja3Url) {
       return this.getFallbackJA3();
     }
 
     try {
-      const response = await fetch(config.CF_WORKER_JA3_URL, {
+      const response = await fetch(this.options.ja3Url, {
         headers: {
           'cache-control': 'no-store',
         },
@@ -37,17 +42,17 @@ export class CloudflareWorkerClient {
 
       return this.getFallbackJA3();
     } catch (error) {
-      log.warn('JA3 worker lookup failed, using fallback', { error });
+      this.options.onError?.('JA3 worker lookup failed, using fallback', error);
       return this.getFallbackJA3();
     }
   }
 
   async beaconDNS(scanId: string) {
-    if (!config.CF_WORKER_DNS_BEACON_URL) {
+    if (!this.options.dnsBeaconUrl) {
       return null;
     }
 
-    const url = new URL(config.CF_WORKER_DNS_BEACON_URL);
+    const url = new URL(this.options.dnsBeaconUrl);
     url.searchParams.set('scan_id', scanId);
 
     try {
@@ -56,7 +61,7 @@ export class CloudflareWorkerClient {
         return await response.json();
       }
     } catch (error) {
-      log.warn('DNS beacon call failed', { error, scanId });
+      this.options.onError?.(`DNS beacon call failed (${scanId})`, error);
       return null;
     }
 
@@ -0,0 +1,105 @@
+import type { IPRangeCategory } from '@browserleaks/types';
+import { CIDRTrie } from '../lib/cidrTrie';
+import type { MMDBReader } from '../utils/mmdb';
+import { IP_PROVIDER_WEIGHTS, type IPProvider, type IPProviderRecord } from './IPProviderClients';
+
+/**
+ * A named set of ranges, e.g. a cloud provider's published CIDRs or a Tor exit snapshot
+ */
+export interface IPRangeList {
+  name: string;
+  category: IPRangeCategory;
+  cidrs: string[];
+}
+
+/**
+ * Shape of the optional local range file
+ */
+export interface IPRangeFile {
+  updatedAt?: string; // ISO 8601
+  lists: IPRangeList[];
+}
+
+export interface GeoLiteDatabases {
+  city?: MMDBReader; // GeoLite2-City or GeoIP2-City
+  asn?: MMDBReader; // GeoLite2-ASN
+  ranges?: IPRangeFile;
+}
+
+type LocalizedNames = Record<string, string>;
+
+// The parts of a GeoLite2 City record we read
+interface GeoLiteCityRecord {
+  city?: { names?: LocalizedNames };
+  country?: { iso_code?: string; names?: LocalizedNames };
+  location?: { latitude?: number; longitude?: number; time_zone?: string };
+  postal?: { code?: string };
+  subdivisions?: Array<{ iso_code?: string; names?: LocalizedNames }>;
+  traits?: { is_anonymous_proxy?: boolean };
+}
+
+interface GeoLiteASNRecord {
+  autonomous_system_number?: number;
+  autonomous_system_organization?: string;
+}
+
+const RANGE_FLAGS: Record<IPRangeCategory, keyof IPProviderRecord> = {
+  tor: 'isTor',
+  vpn: 'isVPN',
+  datacenter: 'isDatacenter',
+  proxy: 'isProxy',
+};
+
+/**
+ * Offline provider backed by MaxMind-format databases and local range lists, for
+ * self-hosted deployments without API quotas or network access
+ */
+export class GeoLiteProvider implements IPProvider {
+  readonly name = 'geolite2';
+  readonly weight = IP_PROVIDER_WEIGHTS.geolite2;
+  private ranges = new Map<IPRangeCategory, CIDRTrie<string>>();
+
+  constructor(private databases: GeoLiteDatabases) {
+    for (const list of databases.ranges?.lists ?? []) {
+      const trie = this.ranges.get(list.category) ?? new CIDRTrie<string>();
+      list.cidrs.forEach((cidr) => trie.insert(cidr, list.name));
+      this.ranges.set(list.category, trie);
+    }
+  }
+
+  async lookup(ip: string): Promise<IPProviderRecord> {
+    const city = this.databases.city?.get<GeoLiteCityRecord>(ip) ?? null;
+    const asn = this.databases.asn?.get<GeoLiteASNRecord>(ip) ?? null;
+    if (!city && !asn && this.ranges.size === 0) {
+      throw new Error(`no record for ${ip}`);
+    }
+
+    const record: IPProviderRecord = {};
+    if (city) {
+      Object.assign(record, {
+        country: city.country?.names?.en,
+        countryCode: city.country?.iso_code,
+        region: city.subdivisions?.[0]?.names?.en,
+        city: city.city?.names?.en,
+        latitude: city.location?.latitude,
+        longitude: city.location?.longitude,
+        timezone: city.location?.time_zone,
+        postalCode: city.postal?.code,
+      });
+      if (city.traits?.is_anonymous_proxy !== undefined) {
+        record.isProxy = city.traits.is_anonymous_proxy;
+      }
+    }
+    if (asn?.autonomous_system_number !== undefined) {
+      record.asn = `AS${asn.autonomous_system_number}`;
+      record.organization = asn.autonomous_system_organization;
+    }
+
+    // A category with a list votes either way; categories without one abstain
+    for (const [category, trie] of this.ranges) {
+      Object.assign(record, { [RANGE_FLAGS[category]]: trie.lookup(ip) !== null });
+    }
+
+    return record;
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * IP intelligence providers, normalised to a common record so their answers
+ * can be reconciled (see IPReconciliationService). Uses only fetch, so every
+ * adapter runs in both Node and Workers.
+ */
+
+/**
+ * What one provider says about an address; fields it does not know are left out
+ */
+export interface IPProviderRecord {
+  country?: string;
+  countryCode?: string;
+  region?: string;
+  city?: string;
+  latitude?: number;
+  longitude?: number;
+  timezone?: string;
+  postalCode?: string;
+  asn?: string; // e.g. AS13335
+  organization?: string;
+  isProxy?: boolean;
+  isVPN?: boolean;
+  isDatacenter?: boolean;
+  isTor?: boolean;
+  isRelay?: boolean;
+}
+
+export interface IPProvider {
+  name: string;
+  weight: number; // voting weight when providers disagree
+  lookup(ip: string): Promise<IPProviderRecord>;
+}
+
+export interface IPProviderOptions {
+  timeoutMs?: number;
+  fetcher?: typeof fetch;
+}
+
+export type IPProviderName = 'ipinfo' | 'my-ip-data' | 'cloudflare-radar' | 'geolite2';
+
+// Voting weights; my-ip-data is the most trusted online source
+export const IP_PROVIDER_WEIGHTS: Record<IPProviderName, number> = {
+  'my-ip-data': 0.5,
+  geolite2: 0.4, // local databases, possibly weeks old
+  ipinfo: 0.3,
+  'cloudflare-radar': 0.2,
+};
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+async function getJSON<T>(url: string, init: RequestInit, options: IPProviderOptions): Promise<T> {
+  const fetcher = options.fetcher ?? fetch;
+  const response = await fetcher(url, {
+    ...init,
+    headers: { 'User-Agent': 'BrowserLeaks/2.0', Accept: 'application/json', ...init.headers },
+    signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`responded with ${response.status}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+function normalizeASN(asn: string | number | undefined): string | undefined {
+  if (asn === undefined || asn === '') return undefined;
+  const digits = String(asn).replace(/^AS/i, '');
+  return /^\d+$/.test(digits) ? `AS${digits}` : undefined;
+}
+
+interface IPInfoResponse {
+  ip: string;
+  city?: string;
+  region?: string;
+  country?: string;
+  loc?: string;
+  timezone?: string;
+  postal?: string;
+  org?: string;
+  privacy?: {
+    proxy?: boolean;
+    vpn?: boolean;
+    hosting?: boolean;
+    tor?: boolean;
+    relay?: boolean;
+  };
+  company?: {
+    type?: string;
+  };
+}
+
+/**
+ * ipinfo.io; privacy flags are only returned on paid plans and are left out otherwise
+ */
+export class IPInfoProvider implements IPProvider {
+  readonly name = 'ipinfo';
+  readonly weight = IP_PROVIDER_WEIGHTS.ipinfo;
+
+  constructor(
+    private token: string,
+    private options: IPProviderOptions = {}
+  ) {}
+
+  async lookup(ip: string): Promise<IPProviderRecord> {
+    const data = await getJSON<IPInfoResponse>(
+      `https://ipinfo.io/${ip}/json?token=${encodeURIComponent(this.token)}`,
+      {},
+      this.options
+    );
+    const [latitude, longitude] = data.loc ? data.loc.split(',').map(Number) : [];
+    const org = data.org?.match(/^(AS\d+)\s+(.+)$/);
+
+    return {
+      countryCode: data.country,
+      region: data.region,
+      city: data.city,
+      latitude,
+      longitude,
+      timezone: data.timezone,
+      postalCode: data.postal,
+      asn: normalizeASN(org?.[1]),
+      organization: org?.[2] ?? data.org,
+      isProxy: data.privacy?.proxy,
+      isVPN: data.privacy?.vpn,
+      isDatacenter:
+        data.privacy || data.company
+          ? Boolean(data.privacy?.hosting) || data.company?.type === 'hosting'
+          : undefined,
+      isTor: data.privacy?.tor,
+      isRelay: data.privacy?.relay,
+    };
+  }
+}
+
+interface MyIPDataResponse {
+  success: boolean;
+  data: {
+    ip: string;
+    country: string;
+    country_code: string;
+    region: string;
+    city: string;
+    latitude: number;
+    longitude: number;
+    timezone: string;
+    asn: number;
+    asn_name: string;
+    asn_org: string;
+    is_proxy: boolean;
+    is_vpn: boolean;
+    is_tor: boolean;
+    is_datacenter: boolean;
+  };
+}
+
+/**
+ * my-ip-data, the primary online source
+ */
+export class MyIPDataProvider implements IPProvider {
+  readonly name = 'my-ip-data';
+  readonly weight = IP_PROVIDER_WEIGHTS['my-ip-data'];
+
+  constructor(
+    private baseUrl = 'https://data.ipaddress.cv',
+    private options: IPProviderOptions = {}
+  ) {}
+
+  async lookup(ip: string): Promise<IPProviderRecord> {
+    const { success, data } = await getJSON<MyIPDataResponse>(
+      new URL(`/v1/ip/${ip}`, this.baseUrl).toString(),
+      {},
+      this.options
+    );
+    if (!success) {
+      throw new Error('lookup was not successful');
+    }
+
+    return {
+      country: data.country,
+      countryCode: data.country_code,
+      region: data.region,
+      city: data.city,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      timezone: data.timezone,
+      asn: normalizeASN(data.asn),
+      organization: data.asn_org || data.asn_name,
+      isProxy: data.is_proxy,
+      isVPN: data.is_vpn,
+      isDatacenter: data.is_datacenter,
+      isTor: data.is_tor,
+    };
+  }
+}
+
+interface CloudflareRadarIPResponse {
+  success: boolean;
+  result: {
+    ip: {
+      ip: string;
+      location?: string;
+      locationName?: string;
+      asn?: string;
+      asnName?: string;
+      asnOrgName?: string;
+    };
+  };
+}
+
+/**
+ * Cloudflare Radar; knows the country and ASN, nothing finer
+ */
+export class CloudflareRadarProvider implements IPProvider {
+  readonly name = 'cloudflare-radar';
+  readonly weight = IP_PROVIDER_WEIGHTS['cloudflare-radar'];
+
+  constructor(
+    private token: string,
+    private options: IPProviderOptions = {}
+  ) {}
+
+  async lookup(ip: string): Promise<IPProviderRecord> {
+    const { success, result } = await getJSON<CloudflareRadarIPResponse>(
+      `https://api.cloudflare.com/client/v4/radar/entities/ip?ip=${encodeURIComponent(ip)}`,
+      { headers: { Authorization: `Bearer ${this.token}` } },
+      this.options
+    );
+    if (!success) {
+      throw new Error('lookup was not successful');
+    }
+
+    return {
+      country: result.ip.locationName,
+      countryCode: result.ip.location,
+      asn: normalizeASN(result.ip.asn),
+      organization: result.ip.asnOrgName || result.ip.asnName,
+    };
+  }
+}
+
+/**
+ * Stands in for any provider with canned records, for local development and tests.
+ * Addresses without a record fail the way a real provider would.
+ */
+export class MockIPProvider implements IPProvider {
+  lookups = 0;
+
+  constructor(
+    readonly name: string,
+    readonly weight: number,
+    private records: Record<string, IPProviderRecord>
+  ) {}
+
+  async lookup(ip: string): Promise<IPProviderRecord> {
+    this.lookups++;
+    const record = this.records[ip];
+    if (!record) {
+      throw new Error(`no record for ${ip}`);
+    }
+    return record;
+  }
+}
+
+/**
+ * A mock for each real provider that has fixtures, with the same name and weight
+ */
+export function createMockIPProviders(
+  fixtures: Partial<Record<IPProviderName, Record<string, IPProviderRecord>>>
+): MockIPProvider[] {
+  return (Object.keys(fixtures) as IPProviderName[]).map(
+    (name) => new MockIPProvider(name, IP_PROVIDER_WEIGHTS[name], fixtures[name] ?? {})
+  );
+}
@@ -0,0 +1,37 @@
+import type { TracerouteProtocol } from '@browserleaks/types';
+import type { AgentTraceroute, TracerouteProbe } from '../services/TracerouteService';
+
+export interface TracerouteAgentClientOptions {
+  url: string; // base URL of the agent, e.g. https://probe-fra.example.net
+  token: string;
+  timeoutMs?: number;
+}
+
+// The agent may wait up to 30s for the trace itself
+const DEFAULT_TIMEOUT_MS = 35_000;
+
+/**
+ * Calls a remote probe agent (lib/tracerouteAgent) over HTTP; uses only fetch so
+ * it runs in both Node and Workers
+ */
+export class TracerouteAgentClient implements TracerouteProbe {
+  constructor(private options: TracerouteAgentClientOptions) {}
+
+  async trace(target: string, protocol: TracerouteProtocol): Promise<AgentTraceroute> {
+    const response = await fetch(new URL('/traceroute', this.options.url), {
+      method: 'POST',
+      headers: {
+        authorization: `Bearer ${this.options.token}`,
+        'content-type': 'application/json',
+      },
+      body: JSON.stringify({ target, protocol }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`agent responded with ${response.status}`);
+    }
+
+    return (await response.json()) as AgentTraceroute;
+  }
+}
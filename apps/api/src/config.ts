@@ -13,16 +13,28 @@ const envSchema = z.object({
   IPINFO_TOKEN: z.string().optional(),
   CLOUDFLARE_ACCOUNT_ID: z.string().optional(),
   CLOUDFLARE_RADAR_TOKEN: z.string().optional(),
-  CLOUDFLARE_D1_DATABASE_ID: z.string().optional(),
-  CLOUDFLARE_API_TOKEN: z.string().optional(),
+
+  // Offline IP intelligence (MaxMind-format databases and a JSON range list)
+  GEOIP_CITY_DB_PATH: z.string().optional(), // e.g. GeoLite2-City.mmdb
+  GEOIP_ASN_DB_PATH: z.string().optional(), // e.g. GeoLite2-ASN.mmdb
+  IP_RANGES_PATH: z.string().optional(), // VPN / datacenter / Tor exit CIDRs
 
   // Database
   DATABASE_URL: z.string().optional(),
+  SQLITE_DATABASE_PATH: z.string().optional(), // history, share links, leak tests and telemetry; in memory when unset
   REDIS_URL: z.string().optional(),
 
+  // Base URL of share links handed out by /v1/share
+  FRONTEND_URL: z.string().url().default('https://browserleaks.io'),
+
+  // Reverse proxies whose X-Forwarded-For is believed, in Express 'trust proxy' syntax
+  // (e.g. loopback or 10.0.0.0/8); unset, the connecting address is the client
+  TRUSTED_PROXIES: z.string().optional(),
+
   // Security
   JWT_SECRET: z.string().default('change-this-secret-in-production'),
   API_TOKEN_PREFIX: z.string().default('bl'),
+  API_ADMIN_TOKEN: z.string().optional(), // accepted in X-Admin-Token to manage API keys (/v1/keys)
 
   // Rate Limiting
   RATE_LIMIT_FREE: z.string().default('100'),
@@ -35,10 +47,31 @@ const envSchema = z.object({
   // Logging
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
 
-  // Cloudflare Workers / D1
-  CF_D1_ENDPOINT: z.string().optional(),
+  // Cloudflare Workers
   CF_WORKER_DNS_BEACON_URL: z.string().optional(),
   CF_WORKER_JA3_URL: z.string().optional(),
+
+  // TLS fingerprinting
+  TLS_CAPTURE_PORT: z.string().default('4443'),
+  TLS_CERT_PATH: z.string().optional(),
+  TLS_KEY_PATH: z.string().optional(),
+  TLS_CLIENT_HELLO_HEADER: z.string().optional(), // base64 ClientHello forwarded by a trusted TLS proxy
+
+  // DNS leak testing
+  DNS_LEAK_ZONE: z.string().default('dnsleak.test'),
+  DNS_RESPONDER_PORT: z.string().optional(), // starts the local stand-in authoritative nameserver
+  DNS_RESPONDER_ANSWER_IP: z.string().default('127.0.0.1'),
+
+  // IPv6 leak testing: origins reachable over IPv4 only, IPv6 only, and both
+  IPV4_PROBE_ORIGIN: z.string().url().default('http://127.0.0.1:4000'),
+  IPV6_PROBE_ORIGIN: z.string().url().default('http://[::1]:4000'),
+  DUAL_STACK_PROBE_ORIGIN: z.string().url().default('http://localhost:4000'),
+
+  // Traceroute
+  TRACEROUTE_AGENT_URL: z.string().url().optional(), // probe agent the API asks for traceroutes
+  TRACEROUTE_AGENT_TOKEN: z.string().optional(),
+  TRACEROUTE_AGENT_PORT: z.string().optional(), // runs a probe agent inside this process
+  TRACEROUTE_AGENT_NAME: z.string().optional(),
 });
 
 // Parse and validate环境变量
@@ -62,10 +95,12 @@ export const config = parseEnv();
 export const hasIPinfoToken = () => Boolean(config.IPINFO_TOKEN);
 export const hasCloudflareRadarToken = () =>
   Boolean(config.CLOUDFLARE_ACCOUNT_ID && config.CLOUDFLARE_RADAR_TOKEN);
+export const hasLocalGeoIP = () =>
+  Boolean(config.GEOIP_CITY_DB_PATH || config.GEOIP_ASN_DB_PATH || config.IP_RANGES_PATH);
 
 // Require at least one IP data provider
-if (!hasIPinfoToken() && !hasCloudflareRadarToken()) {
+if (!hasIPinfoToken() && !hasCloudflareRadarToken() && !hasLocalGeoIP()) {
   throw new Error(
-    'At least one IP data provider is required: IPINFO_TOKEN or CLOUDFLARE_RADAR_TOKEN'
+    'At least one IP data provider is required: IPINFO_TOKEN, CLOUDFLARE_RADAR_TOKEN or GEOIP_CITY_DB_PATH'
   );
 }
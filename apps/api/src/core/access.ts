@@ -0,0 +1,181 @@
+/**
+ * API key authentication, quotas and rate limits for both runtimes
+ *
+ * Requests carrying an API key (X-API-Key, or Authorization: Bearer bl_...) are
+ * metered against the key's tier quota for the endpoint group, after passing
+ * the tier's token buckets so route costs still apply. Requests without a key
+ * fall back to the anonymous token buckets of their connecting address.
+ */
+
+import type { QuotaUsage } from '@browserleaks/types';
+import type { ApiKeyRecord } from '../db/ApiKeyRepository';
+import { API_KEY_PREFIX, getEndpointGroup } from '../services/ApiKeyService';
+import { ANONYMOUS_POLICIES, RateLimitService, TIER_POLICIES } from '../services/RateLimitService';
+import type { TokenBucketDecision, TokenBucketPolicy } from '../lib/tokenBucket';
+import { fail, type CoreRequest, type CoreResponse } from './http';
+import type { CoreDeps } from './deps';
+
+const IP_PREFIX = 'ip:';
+const KEY_PREFIX = 'key:';
+
+export interface AccessRequest {
+  method: string;
+  path: string; // including the /v1 prefix
+  remoteAddress: string; // anonymous limits follow the connecting address, not a header
+  header(name: string): string | undefined;
+}
+
+export interface AccessResult {
+  apiKey?: ApiKeyRecord; // the authenticated key, for the routes to see
+  headers: Record<string, string>; // rate limit headers, sent either way
+  denied?: CoreResponse; // sent instead of running the route
+}
+
+/**
+ * Key presented with the request, if any
+ */
+export function getRequestApiKey(request: Pick<CoreRequest, 'header'>): string | undefined {
+  const header = request.header('x-api-key');
+  if (header) return header.trim();
+
+  const authorization = request.header('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer?.startsWith(API_KEY_PREFIX) ? bearer : undefined;
+}
+
+/**
+ * Authenticate the request's key and charge the request to its buckets and quota.
+ * A failing limiter is reported through onError and lets the request through.
+ */
+export async function authorize(
+  request: AccessRequest,
+  deps: CoreDeps,
+  onError: (message: string, error: unknown) => void
+): Promise<AccessResult> {
+  const headers: Record<string, string> = {};
+  const key = getRequestApiKey(request);
+  const group = getEndpointGroup(request.path);
+
+  if (!key) {
+    if (!group) return { headers };
+
+    const address = `${IP_PREFIX}${request.remoteAddress}`;
+    const decision = await takeTokens(deps, address, ANONYMOUS_POLICIES, request, onError);
+    if (!decision) return { headers };
+
+    headers['X-RateLimit-Limit'] = decision.limit.toString();
+    headers['X-RateLimit-Remaining'] = decision.remaining.toString();
+    headers['X-RateLimit-Reset'] = Math.ceil(decision.resetAt / 1000).toString();
+    headers['X-RateLimit-Cost'] = decision.cost.toString();
+
+    return decision.allowed ? { headers } : { headers, denied: rateLimitExceeded(decision) };
+  }
+
+  const apiKey = await deps.apiKeys.authenticate(key);
+  if (!apiKey) {
+    return {
+      headers,
+      denied: fail(401, 'INVALID_API_KEY', 'API key is invalid or has been revoked'),
+    };
+  }
+
+  if (!group) return { apiKey, headers };
+
+  // Checked first, so a throttled request does not use up the daily quota
+  const policies = TIER_POLICIES[apiKey.tier];
+  const decision = policies
+    ? await takeTokens(deps, `${KEY_PREFIX}${apiKey.id}`, policies, request, onError)
+    : null;
+  if (decision) {
+    headers['X-RateLimit-Cost'] = decision.cost.toString();
+    if (!decision.allowed) return { apiKey, headers, denied: rateLimitExceeded(decision) };
+  }
+
+  const { allowed, usage } = await deps.apiKeys.consume(apiKey, group);
+  const resetSeconds = Math.floor(Date.parse(usage.resetAt) / 1000);
+
+  if (usage.limit !== null) {
+    headers['X-RateLimit-Limit'] = usage.limit.toString();
+    headers['X-RateLimit-Remaining'] = String(usage.remaining);
+    headers['X-RateLimit-Reset'] = resetSeconds.toString();
+  }
+
+  if (!allowed) {
+    const retryAfter = Math.max(1, resetSeconds - Math.floor(Date.now() / 1000));
+    return {
+      apiKey,
+      headers,
+      denied: tooManyRequests(
+        'QUOTA_EXCEEDED',
+        `Daily ${group} quota of the ${apiKey.tier} tier exhausted`,
+        retryAfter
+      ),
+    };
+  }
+
+  return { apiKey, headers };
+}
+
+/**
+ * Tokens left in the anonymous daily bucket of an address, without charging a request
+ */
+export async function getAnonymousQuota(deps: CoreDeps, address: string): Promise<QuotaUsage> {
+  const daily = ANONYMOUS_POLICIES.filter((policy) => policy.name === 'daily');
+  const now = Date.now();
+  const decision = deps.rateLimits
+    ? await new RateLimitService(deps.rateLimits, daily).peek(`${IP_PREFIX}${address}`, now)
+    : null;
+
+  const limit = daily[0].burst;
+  const remaining = decision?.remaining ?? limit;
+
+  return {
+    group: 'all',
+    limit,
+    used: limit - remaining,
+    remaining,
+    resetAt: new Date(decision?.resetAt ?? now).toISOString(),
+  };
+}
+
+/**
+ * Charge the request to the client's buckets; null when limiting is unavailable
+ */
+async function takeTokens(
+  deps: CoreDeps,
+  client: string,
+  policies: TokenBucketPolicy[],
+  request: AccessRequest,
+  onError: (message: string, error: unknown) => void
+): Promise<TokenBucketDecision | null> {
+  if (!deps.rateLimits) return null;
+
+  try {
+    return await new RateLimitService(deps.rateLimits, policies).check(
+      client,
+      request.method,
+      request.path
+    );
+  } catch (error) {
+    // Fail open: an unavailable limiter should not take the API down with it
+    onError('Rate limiter error', error);
+    return null;
+  }
+}
+
+function rateLimitExceeded(decision: TokenBucketDecision): CoreResponse {
+  return tooManyRequests(
+    'RATE_LIMIT_EXCEEDED',
+    'Too many requests, please try again later',
+    Math.max(1, Math.ceil(decision.retryAfterMs / 1000))
+  );
+}
+
+function tooManyRequests(code: string, message: string, retryAfter: number): CoreResponse {
+  const error = { code, message, retryAfter };
+  return {
+    status: 429,
+    body: { success: false, error },
+    headers: { 'Retry-After': retryAfter.toString() },
+  };
+}
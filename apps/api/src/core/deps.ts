@@ -0,0 +1,179 @@
+/**
+ * Storage and services shared by both runtimes
+ *
+ * Handlers only see these interfaces; each runtime decides which store backs
+ * them: D1 in the Worker, a SQLite file or memory under Node. What cannot be
+ * shared, like the IP provider stack, is passed in through CoreOptions.
+ */
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { IPLeakResult, IPRangeVerdict, IPv6ProbeEndpoint } from '@browserleaks/types';
+import {
+  D1ApiKeyRepository,
+  InMemoryApiKeyRepository,
+  type ApiKeyStore,
+} from '../db/ApiKeyRepository';
+import {
+  D1DNSLeakRepository,
+  InMemoryDNSLeakRepository,
+  type DNSLeakStore,
+} from '../db/DNSLeakRepository';
+import {
+  D1FingerprintFrequencyRepository,
+  InMemoryFingerprintFrequencyRepository,
+  type FingerprintFrequencyStore,
+} from '../db/FingerprintFrequencyRepository';
+import {
+  D1FingerprintSnapshotRepository,
+  InMemoryFingerprintSnapshotRepository,
+  type FingerprintSnapshotStore,
+} from '../db/FingerprintSnapshotRepository';
+import {
+  D1IPv6LeakRepository,
+  InMemoryIPv6LeakRepository,
+  type IPv6LeakStore,
+} from '../db/IPv6LeakRepository';
+import { InMemoryRateLimitRepository, type RateLimitStore } from '../db/RateLimitRepository';
+import { D1ScanRepository, InMemoryScanRepository, type ScanStore } from '../db/ScanRepository';
+import {
+  D1ShareLinkRepository,
+  InMemoryShareLinkRepository,
+  type ShareLinkStore,
+} from '../db/ShareLinkRepository';
+import {
+  D1TelemetryRepository,
+  InMemoryTelemetryRepository,
+  type TelemetryStore,
+} from '../db/TelemetryRepository';
+import { ApiKeyService } from '../services/ApiKeyService';
+import { AutomationDetectionService } from '../services/AutomationDetectionService';
+import { DNSLeakService } from '../services/DNSLeakService';
+import { FingerprintDriftService } from '../services/FingerprintDriftService';
+import { FingerprintEntropyService } from '../services/FingerprintEntropyService';
+import { FingerprintMatchService } from '../services/FingerprintMatchService';
+import { HttpHeadersService } from '../services/HttpHeadersService';
+import { IPv6LeakService } from '../services/IPv6LeakService';
+import {
+  NetworkInsightsService,
+  type NetworkInsightsOptions,
+} from '../services/NetworkInsightsService';
+import { ScanHistoryService } from '../services/ScanHistoryService';
+import { ShareLinkService } from '../services/ShareLinkService';
+import { TelemetryService, type TelemetryOptions } from '../services/TelemetryService';
+import { TLSFingerprintService } from '../services/TLSFingerprintService';
+import { WebRTCLeakService } from '../services/WebRTCLeakService';
+
+/**
+ * IP intelligence of the runtime: GeoLite files under Node, KV-cached
+ * providers and range lists in the Worker
+ */
+export interface IPDetector {
+  detect(ip: string): Promise<IPLeakResult>;
+  checkRanges?(ip: string, asn?: string): Promise<IPRangeVerdict | undefined>; // Worker only
+}
+
+export interface CoreStores {
+  scans: ScanStore;
+  shareLinks: ShareLinkStore;
+  telemetry: TelemetryStore;
+  dnsLeaks: DNSLeakStore;
+  ipv6Leaks: IPv6LeakStore;
+  fingerprints: FingerprintFrequencyStore;
+  fingerprintSnapshots: FingerprintSnapshotStore;
+  apiKeys: ApiKeyStore;
+  rateLimits?: RateLimitStore; // without one, requests are not rate limited
+}
+
+export interface CoreDeps {
+  history: ScanHistoryService;
+  shareLinks: ShareLinkService;
+  automation: AutomationDetectionService;
+  telemetry: TelemetryService;
+  ip: IPDetector;
+  dnsLeaks: DNSLeakService;
+  ipv6Leaks: IPv6LeakService;
+  webrtc: WebRTCLeakService;
+  httpHeaders: HttpHeadersService;
+  tls: TLSFingerprintService;
+  network: NetworkInsightsService;
+  entropy: FingerprintEntropyService;
+  fingerprintMatches: FingerprintMatchService;
+  drift: FingerprintDriftService;
+  apiKeys: ApiKeyService;
+  rateLimits?: RateLimitStore;
+  frontendUrl: string; // base of the share URLs handed out
+  tlsClientHelloHeader?: string;
+  adminToken?: string; // accepted in X-Admin-Token to manage API keys
+}
+
+export interface CoreOptions {
+  frontendUrl: string;
+  ip: IPDetector;
+  dnsLeakZone: string;
+  ipv6ProbeOrigins: Record<IPv6ProbeEndpoint, string>;
+  tlsClientHelloHeader?: string; // base64 ClientHello forwarded by a trusted TLS proxy
+  network?: Omit<NetworkInsightsOptions, 'lookup'>;
+  telemetry?: TelemetryOptions;
+  adminToken?: string; // lets operators manage API keys before an internal key exists
+}
+
+/**
+ * D1 stores; also used for SQLite files through the D1-compatible adapter in db/sqlite.
+ * Token buckets live elsewhere: in a Durable Object in the Worker, in memory under Node.
+ */
+export function createD1Stores(db: D1Database, rateLimits?: RateLimitStore): CoreStores {
+  return {
+    scans: new D1ScanRepository(db),
+    shareLinks: new D1ShareLinkRepository(db),
+    telemetry: new D1TelemetryRepository(db),
+    dnsLeaks: new D1DNSLeakRepository(db),
+    ipv6Leaks: new D1IPv6LeakRepository(db),
+    fingerprints: new D1FingerprintFrequencyRepository(db),
+    fingerprintSnapshots: new D1FingerprintSnapshotRepository(db),
+    apiKeys: new D1ApiKeyRepository(db),
+    rateLimits,
+  };
+}
+
+export function createInMemoryStores(): CoreStores {
+  return {
+    scans: new InMemoryScanRepository(),
+    shareLinks: new InMemoryShareLinkRepository(),
+    telemetry: new InMemoryTelemetryRepository(),
+    dnsLeaks: new InMemoryDNSLeakRepository(),
+    ipv6Leaks: new InMemoryIPv6LeakRepository(),
+    fingerprints: new InMemoryFingerprintFrequencyRepository(),
+    fingerprintSnapshots: new InMemoryFingerprintSnapshotRepository(),
+    apiKeys: new InMemoryApiKeyRepository(),
+    rateLimits: new InMemoryRateLimitRepository(),
+  };
+}
+
+export function createCoreDeps(stores: CoreStores, options: CoreOptions): CoreDeps {
+  const lookup = (ip: string) => options.ip.detect(ip);
+
+  return {
+    history: new ScanHistoryService(stores.scans),
+    shareLinks: new ShareLinkService(stores.shareLinks),
+    automation: new AutomationDetectionService(),
+    telemetry: new TelemetryService(stores.telemetry, options.telemetry),
+    ip: options.ip,
+    dnsLeaks: new DNSLeakService(stores.dnsLeaks, { zone: options.dnsLeakZone, lookup }),
+    ipv6Leaks: new IPv6LeakService(stores.ipv6Leaks, {
+      origins: options.ipv6ProbeOrigins,
+      lookup,
+    }),
+    webrtc: new WebRTCLeakService(),
+    httpHeaders: new HttpHeadersService(),
+    tls: new TLSFingerprintService(),
+    network: new NetworkInsightsService({ ...options.network, lookup }),
+    entropy: new FingerprintEntropyService(stores.fingerprints),
+    fingerprintMatches: new FingerprintMatchService(stores.fingerprints),
+    drift: new FingerprintDriftService(stores.fingerprintSnapshots),
+    apiKeys: new ApiKeyService(stores.apiKeys),
+    rateLimits: stores.rateLimits,
+    frontendUrl: options.frontendUrl,
+    tlsClientHelloHeader: options.tlsClientHelloHeader,
+    adminToken: options.adminToken,
+  };
+}
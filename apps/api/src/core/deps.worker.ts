@@ -0,0 +1,37 @@
+/**
+ * Core dependencies for the Worker, backed by D1
+ */
+
+import type { Env } from '../types/env';
+import { DurableObjectRateLimitRepository } from '../db/RateLimitRepository';
+import { IPService } from '../services/IPService.worker';
+import { log } from '../middleware/logger.worker';
+import { createCoreDeps, createD1Stores, type CoreDeps } from './deps';
+
+export function createWorkerCoreDeps(env: Env): CoreDeps {
+  const rateLimits = env.RATE_LIMITER
+    ? new DurableObjectRateLimitRepository(env.RATE_LIMITER)
+    : undefined;
+
+  return createCoreDeps(createD1Stores(env.DB, rateLimits), {
+    frontendUrl: env.CORS_ORIGIN || 'https://browserleaks.io',
+    ip: new IPService(env),
+    dnsLeakZone: env.DNS_LEAK_ZONE,
+    ipv6ProbeOrigins: {
+      ipv4: env.IPV4_PROBE_ORIGIN,
+      ipv6: env.IPV6_PROBE_ORIGIN,
+      dual: env.DUAL_STACK_PROBE_ORIGIN,
+    },
+    tlsClientHelloHeader: env.TLS_CLIENT_HELLO_HEADER,
+    adminToken: env.API_ADMIN_TOKEN,
+    network: {
+      tracerouteAgent:
+        env.TRACEROUTE_AGENT_URL && env.TRACEROUTE_AGENT_TOKEN
+          ? { url: env.TRACEROUTE_AGENT_URL, token: env.TRACEROUTE_AGENT_TOKEN }
+          : undefined,
+      ja3Url: env.CF_WORKER_JA3_URL,
+      dnsBeaconUrl: env.CF_WORKER_DNS_BEACON_URL,
+      onError: (message, error) => log.warn(message, { error }),
+    },
+  });
+}
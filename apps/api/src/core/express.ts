@@ -0,0 +1,135 @@
+/**
+ * Express adapter for core routes
+ */
+
+import { Readable } from 'node:stream';
+import type { TLSSocket } from 'node:tls';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { Router, type Request, type RequestHandler, type Response } from 'express';
+import type { HttpHeader } from '@browserleaks/types';
+import type { ApiKeyRecord } from '../db/ApiKeyRepository';
+import { authorize } from './access';
+import type { CoreDeps } from './deps';
+import { dispatch, type CoreConnection, type CoreRequest, type CoreRoute } from './http';
+import { IPService } from '../services/IPService';
+import { getCapturedClientHello } from '../lib/tlsCapture';
+import { log } from '../middleware/logger';
+
+const ipService = new IPService();
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKeyRecord; // set by the access middleware for a valid API key
+    }
+  }
+}
+
+/**
+ * Mount core routes on an Express router
+ */
+export function createExpressRouter<D>(routes: CoreRoute<D>[], deps: D): Router {
+  const router = Router();
+
+  for (const route of routes) {
+    router[route.method](route.path, async (req: Request, res: Response) => {
+      const { status, body, headers } = await dispatch(
+        route,
+        toCoreRequest(req, route),
+        deps,
+        (message, error) => log.error(message, { error, requestId: req.requestId })
+      );
+
+      if (body instanceof ReadableStream) {
+        const stream = Readable.fromWeb(body as NodeReadableStream<Uint8Array>);
+        res.writeHead(status, headers);
+        res.on('close', () => stream.destroy());
+        stream.pipe(res);
+        return;
+      }
+
+      if (headers) res.set(headers);
+      res.status(status).json(body);
+    });
+  }
+
+  return router;
+}
+
+/**
+ * Authenticate API keys and apply quotas and rate limits to the routes mounted after it
+ */
+export function createExpressAccess(deps: CoreDeps): RequestHandler {
+  return (req, res, next) => {
+    const request = {
+      method: req.method,
+      path: req.baseUrl + req.path,
+      remoteAddress: getRemoteAddress(req),
+      header: (name: string) => req.get(name),
+    };
+    const onError = (message: string, error: unknown) =>
+      log.warn(message, { error, requestId: req.requestId });
+
+    authorize(request, deps, onError).then(({ apiKey, headers, denied }) => {
+      req.apiKey = apiKey;
+      res.set(headers);
+      if (!denied) return next();
+
+      if (denied.headers) res.set(denied.headers);
+      res.status(denied.status).json(denied.body);
+    }, next);
+  };
+}
+
+function toCoreRequest<D>(req: Request, route: CoreRoute<D>): CoreRequest {
+  return {
+    params: req.params,
+    query: Object.fromEntries(
+      Object.entries(req.query).map(([key, value]) => [
+        key,
+        typeof value === 'string' ? value : undefined,
+      ])
+    ),
+    body: req.body,
+    clientIP: ipService.getClientIP(req),
+    connection: toCoreConnection(req),
+    apiKey: req.apiKey,
+    header: (name) => req.get(name),
+    waitUntil: (task) => {
+      task.catch((error) =>
+        log.warn(`${route.method.toUpperCase()} ${route.path} background task failed`, {
+          error,
+          requestId: req.requestId,
+        })
+      );
+    },
+  };
+}
+
+function toCoreConnection(req: Request): CoreConnection {
+  // rawHeaders keeps the received order and casing as alternating name/value entries
+  const headers: HttpHeader[] = [];
+  for (let i = 0; i < req.rawHeaders.length; i += 2) {
+    headers.push({ name: req.rawHeaders[i], value: req.rawHeaders[i + 1] });
+  }
+
+  const socket = req.socket as Partial<TLSSocket>;
+  const encrypted = socket.encrypted === true;
+
+  return {
+    headers,
+    orderPreserved: true,
+    remoteAddress: getRemoteAddress(req),
+    info: {
+      httpProtocol: `HTTP/${req.httpVersion}`,
+      tlsVersion: encrypted ? (socket.getProtocol?.() ?? null) : null,
+      tlsCipher: encrypted ? (socket.getCipher?.().name ?? null) : null,
+    },
+    clientHello: getCapturedClientHello(req.socket),
+  };
+}
+
+// req.ip follows X-Forwarded-For only through the proxies 'trust proxy' names
+function getRemoteAddress(req: Request): string {
+  return (req.ip ?? req.socket.remoteAddress ?? 'unknown').replace(/^::ffff:(?=\d)/, '');
+}
@@ -0,0 +1,130 @@
+/**
+ * Hono adapter for core routes
+ */
+
+import { Hono, type Context, type MiddlewareHandler } from 'hono';
+import type { HttpHeader } from '@browserleaks/types';
+import type { AppContext, Env } from '../types/env';
+import { log } from '../middleware/logger.worker';
+import { authorize } from './access';
+import type { CoreDeps } from './deps';
+import { dispatch, type CoreConnection, type CoreRequest, type CoreRoute } from './http';
+
+interface RequestConnectionProperties {
+  httpProtocol?: string;
+  tlsVersion?: string;
+  tlsCipher?: string;
+  botManagement?: { ja3Hash?: string; ja4?: string };
+}
+
+/**
+ * Mount core routes on a Hono router; deps are resolved per request from the bindings
+ */
+export function createHonoRouter<D>(
+  routes: CoreRoute<D>[],
+  resolveDeps: (env: Env) => D
+): Hono<AppContext> {
+  const router = new Hono<AppContext>();
+
+  for (const route of routes) {
+    router.on(route.method.toUpperCase(), route.path, async (c) => {
+      const { status, body, headers } = await dispatch(
+        route,
+        await toCoreRequest(c, route),
+        resolveDeps(c.env as Env),
+        (message, error) => log.error(message, { error, requestId: c.get('requestId') })
+      );
+
+      if (body instanceof ReadableStream) {
+        return new Response(body, { status, headers });
+      }
+
+      return c.json(body, status as 200, headers);
+    });
+  }
+
+  return router;
+}
+
+/**
+ * Authenticate API keys and apply quotas and rate limits to the routes mounted after it
+ */
+export function createHonoAccess(
+  resolveDeps: (env: Env) => CoreDeps
+): MiddlewareHandler<AppContext> {
+  return async (c, next) => {
+    const request = {
+      method: c.req.method,
+      path: c.req.path,
+      remoteAddress: getRemoteAddress(c),
+      header: (name: string) => c.req.header(name),
+    };
+    const onError = (message: string, error: unknown) =>
+      log.warn(message, { error, requestId: c.get('requestId') });
+
+    const { apiKey, headers, denied } = await authorize(request, resolveDeps(c.env), onError);
+    if (apiKey) c.set('apiKey', apiKey);
+    for (const [name, value] of Object.entries(headers)) c.header(name, value);
+    if (!denied) return next();
+
+    for (const [name, value] of Object.entries(denied.headers ?? {})) c.header(name, value);
+    return c.json(denied.body, denied.status as 401);
+  };
+}
+
+async function toCoreRequest<D>(c: Context<AppContext>, route: CoreRoute<D>): Promise<CoreRequest> {
+  const hasBody = c.req.method !== 'GET' && c.req.method !== 'DELETE';
+
+  return {
+    params: c.req.param() as Record<string, string>,
+    query: c.req.query(),
+    body: hasBody ? await c.req.json().catch(() => undefined) : undefined,
+    clientIP: c.get('clientIP') || c.req.header('cf-connecting-ip') || 'unknown',
+    connection: toCoreConnection(c),
+    apiKey: c.get('apiKey'),
+    header: (name) => c.req.header(name),
+    waitUntil: (task) => {
+      const settled = task.catch((error) =>
+        log.warn(`${route.method.toUpperCase()} ${route.path} background task failed`, {
+          error,
+          requestId: c.get('requestId'),
+        })
+      );
+      try {
+        c.executionCtx.waitUntil(settled);
+      } catch {
+        // No execution context outside the Workers runtime; the task just runs on
+      }
+    },
+  };
+}
+
+/**
+ * Workers expose headers through the Fetch Headers API, which iterates in
+ * sorted order, and never see the raw ClientHello
+ */
+function toCoreConnection(c: Context<AppContext>): CoreConnection {
+  const headers: HttpHeader[] = [];
+  c.req.raw.headers.forEach((value, name) => {
+    headers.push({ name, value });
+  });
+
+  const { cf } = c.req.raw as { cf?: RequestConnectionProperties };
+
+  return {
+    headers,
+    orderPreserved: false,
+    remoteAddress: getRemoteAddress(c),
+    info: {
+      httpProtocol: cf?.httpProtocol,
+      tlsVersion: cf?.tlsVersion,
+      tlsCipher: cf?.tlsCipher,
+    },
+    edgeTLS: cf?.botManagement,
+  };
+}
+
+// Set by the edge, which overwrites whatever the client sent
+function getRemoteAddress(c: Context<AppContext>): string {
+  return c.req.header('cf-connecting-ip') || 'unknown';
+}
@@ -0,0 +1,166 @@
+/**
+ * Runtime-agnostic route definitions
+ *
+ * Handlers, validation and error responses live here once; the Express and
+ * Hono adapters only translate requests and responses for their runtime.
+ */
+
+import type { ZodError, ZodTypeAny, z } from 'zod';
+import type { APIResponse, HttpConnectionInfo, HttpHeader } from '@browserleaks/types';
+import type { ApiKeyRecord } from '../db/ApiKeyRepository';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+/**
+ * What the runtime can tell about the connection beneath the request
+ */
+export interface CoreConnection {
+  headers: HttpHeader[]; // in the order the runtime exposes them
+  orderPreserved: boolean; // false where the Fetch Headers API sorts them
+  info: Partial<HttpConnectionInfo>;
+  remoteAddress: string; // the peer, or the client a trusted proxy names; never a header the client sets
+  clientHello?: Uint8Array; // captured on this connection by the TLS capture server
+  edgeTLS?: { ja3Hash?: string; ja4?: string }; // computed by Cloudflare Bot Management
+}
+
+export interface CoreRequest {
+  params: Record<string, string>;
+  query: Record<string, string | undefined>;
+  body: unknown;
+  clientIP: string;
+  connection: CoreConnection;
+  apiKey?: ApiKeyRecord; // authenticated by the access middleware
+  header(name: string): string | undefined;
+  waitUntil(task: Promise<unknown>): void; // work finishing after the response, like telemetry
+}
+
+export interface CoreResponse {
+  status: number;
+  body: APIResponse<unknown> | ReadableStream<Uint8Array>; // JSON, or a stream sent as is
+  headers?: Record<string, string>;
+}
+
+export interface CoreInput<P, Q, B> {
+  params: P;
+  query: Q;
+  body: B;
+  request: CoreRequest;
+}
+
+export interface CoreRoute<D> {
+  method: HttpMethod;
+  path: string; // relative to the mount point, Express/Hono style (`/:code/stats`)
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+  errorCode: string; // reported with status 500 when the handler throws
+  errorMessage: string;
+  handle(input: CoreInput<unknown, unknown, unknown>, deps: D): Promise<CoreResponse>;
+}
+
+type Infer<S> = S extends ZodTypeAny ? z.infer<S> : Record<string, string | undefined>;
+type InferBody<S> = S extends ZodTypeAny ? z.infer<S> : unknown;
+
+/**
+ * Define a route; the handler input is typed from its schemas
+ */
+export function defineRoute<
+  D,
+  P extends ZodTypeAny | undefined = undefined,
+  Q extends ZodTypeAny | undefined = undefined,
+  B extends ZodTypeAny | undefined = undefined,
+>(route: {
+  method: HttpMethod;
+  path: string;
+  params?: P;
+  query?: Q;
+  body?: B;
+  errorCode: string;
+  errorMessage: string;
+  handle(input: CoreInput<Infer<P>, Infer<Q>, InferBody<B>>, deps: D): Promise<CoreResponse>;
+}): CoreRoute<D> {
+  const { handle, ...definition } = route;
+
+  return {
+    ...definition,
+    // dispatch only passes input that the route's own schemas produced
+    handle: (input, deps) => handle(input as CoreInput<Infer<P>, Infer<Q>, InferBody<B>>, deps),
+  };
+}
+
+export function ok<T>(data: T, status = 200): CoreResponse {
+  return { status, body: { success: true, data } };
+}
+
+export function eventStream(stream: ReadableStream<Uint8Array>): CoreResponse {
+  return {
+    status: 200,
+    body: stream,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no', // proxies would hold events back otherwise
+    },
+  };
+}
+
+export function fail(status: number, code: string, message: string): CoreResponse {
+  return { status, body: { success: false, error: { code, message } } };
+}
+
+/**
+ * Validate a request against a route's schemas and run its handler.
+ * Never throws: validation failures become 400 and handler errors 500.
+ */
+export async function dispatch<D>(
+  route: CoreRoute<D>,
+  request: CoreRequest,
+  deps: D,
+  onError: (message: string, error: unknown) => void
+): Promise<CoreResponse> {
+  const params = route.params ? route.params.safeParse(request.params) : null;
+  const query = route.query ? route.query.safeParse(request.query) : null;
+  const body = route.body ? route.body.safeParse(request.body) : null;
+
+  for (const result of [params, query, body]) {
+    if (result && !result.success) {
+      return {
+        status: 400,
+        body: {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: { fields: formatZodErrors(result.error) },
+          },
+        },
+      };
+    }
+  }
+
+  try {
+    return await route.handle(
+      {
+        params: params ? params.data : request.params,
+        query: query ? query.data : request.query,
+        body: body ? body.data : request.body,
+        request,
+      },
+      deps
+    );
+  } catch (error) {
+    onError(`${route.method.toUpperCase()} ${route.path} failed`, error);
+    return fail(500, route.errorCode, error instanceof Error ? error.message : route.errorMessage);
+  }
+}
+
+function formatZodErrors(error: ZodError): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+
+  for (const issue of error.issues) {
+    const key = issue.path.join('.') || '_root';
+    (errors[key] ??= []).push(issue.message);
+  }
+
+  return errors;
+}
@@ -0,0 +1,61 @@
+/**
+ * Core dependencies for the Node server
+ */
+
+import path from 'node:path';
+import { config } from '../config';
+import { log } from '../middleware/logger';
+import { IPService } from '../services/IPService';
+import { InMemoryRateLimitRepository } from '../db/RateLimitRepository';
+import { applyMigrations, asD1Database, openSQLiteDatabase } from '../db/sqlite';
+import {
+  createCoreDeps,
+  createD1Stores,
+  createInMemoryStores,
+  type CoreDeps,
+  type CoreStores,
+} from './deps';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../migrations');
+
+let deps: CoreDeps | null = null;
+
+/**
+ * Shared by every Express router and the local DNS responder, so all of them see the same stores
+ */
+export function getNodeCoreDeps(): CoreDeps {
+  if (!deps) {
+    deps = createCoreDeps(createNodeStores(), {
+      frontendUrl: config.FRONTEND_URL,
+      ip: new IPService(),
+      dnsLeakZone: config.DNS_LEAK_ZONE,
+      ipv6ProbeOrigins: {
+        ipv4: config.IPV4_PROBE_ORIGIN,
+        ipv6: config.IPV6_PROBE_ORIGIN,
+        dual: config.DUAL_STACK_PROBE_ORIGIN,
+      },
+      tlsClientHelloHeader: config.TLS_CLIENT_HELLO_HEADER,
+      adminToken: config.API_ADMIN_TOKEN,
+      network: {
+        tracerouteAgent:
+          config.TRACEROUTE_AGENT_URL && config.TRACEROUTE_AGENT_TOKEN
+            ? { url: config.TRACEROUTE_AGENT_URL, token: config.TRACEROUTE_AGENT_TOKEN }
+            : undefined,
+        ja3Url: config.CF_WORKER_JA3_URL,
+        dnsBeaconUrl: config.CF_WORKER_DNS_BEACON_URL,
+        onError: (message, error) => log.warn(message, { error }),
+      },
+    });
+  }
+  return deps;
+}
+
+function createNodeStores(): CoreStores {
+  if (!config.SQLITE_DATABASE_PATH) return createInMemoryStores();
+
+  const connection = openSQLiteDatabase(config.SQLITE_DATABASE_PATH);
+  const applied = applyMigrations(connection, MIGRATIONS_DIR);
+  log.info('SQLite storage ready', { path: config.SQLITE_DATABASE_PATH, migrations: applied });
+
+  return createD1Stores(asD1Database(connection), new InMemoryRateLimitRepository());
+}
@@ -0,0 +1,50 @@
+/**
+ * Automation Detection Routes
+ *
+ * POST /v1/detect/automation - Score automation signals collected in the browser
+ */
+
+import { z } from 'zod';
+import type { AutomationReport } from '@browserleaks/types';
+import { defineRoute, ok, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+
+// Unknown signal names are ignored by the service, so only their size is bounded
+const signalListSchema = z.array(z.string().max(100)).max(50);
+
+const automationSignalsSchema = z.object({
+  webdriver: z.boolean().nullable(),
+  cdpRuntime: z.boolean(),
+  headlessTraits: signalListSchema,
+  stealthLeftovers: signalListSchema,
+  automationGlobals: signalListSchema,
+  workerMismatches: signalListSchema,
+});
+
+/**
+ * POST /detect/automation
+ * Weigh browser signals and the request headers into a bot likelihood
+ */
+const detectAutomation = defineRoute<
+  CoreDeps,
+  undefined,
+  undefined,
+  typeof automationSignalsSchema
+>({
+  method: 'post',
+  path: '/detect/automation',
+  body: automationSignalsSchema,
+  errorCode: 'AUTOMATION_DETECTION_ERROR',
+  errorMessage: 'Failed to analyze automation signals',
+  async handle({ body, request }, deps) {
+    return ok<AutomationReport>(
+      deps.automation.analyze(body, {
+        userAgent: request.header('user-agent'),
+        clientHints: request.header('sec-ch-ua'),
+        acceptLanguage: request.header('accept-language'),
+      })
+    );
+  },
+});
+
+export const automationRoutes: CoreRoute<CoreDeps>[] = [detectAutomation];
@@ -0,0 +1,105 @@
+/**
+ * DNS Leak Detection Routes
+ *
+ * POST /v1/dns-leak/tests - Start a DNS leak test
+ * POST /v1/detect/dns-leak - Collect resolvers for a test and detect DNS leaks
+ */
+
+import { z } from 'zod';
+import type { DNSLeakResult, DNSLeakTest } from '@browserleaks/types';
+import { defineRoute, fail, ok, type CoreRequest, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+
+// Validation schema
+const dnsRequestSchema = z.object({
+  testId: z.string().regex(/^[a-f0-9]{32}$/),
+  userIp: z
+    .string()
+    .ip({ version: 'v4' })
+    .or(z.string().ip({ version: 'v6' }))
+    .optional(),
+});
+
+/**
+ * Report the test to the live telemetry feed once the response is out
+ */
+function captureLeak(request: CoreRequest, deps: CoreDeps, testId: string, result: DNSLeakResult) {
+  const severity =
+    result.leakType === 'full' ? 'high' : result.leakType === 'partial' ? 'medium' : 'low';
+  const exposurePenalty = result.leakType === 'full' ? 45 : result.leakType === 'partial' ? 25 : 5;
+
+  request.waitUntil(
+    deps.telemetry.capture({
+      type: 'dns-leak',
+      source: 'dns-service',
+      severity,
+      summary: `${result.leakType.toUpperCase()} · ${result.servers[0]?.isp || 'unknown'}`,
+      payload: result,
+      snapshot: {
+        privacyScore: Math.max(0, 100 - exposurePenalty),
+        entropyScore: result.servers.length * 8,
+        leaks: {
+          webrtc: false,
+          dns: result.leakType,
+          battery: false,
+          motion: false,
+        },
+        apiSurface: {
+          resolver: result.servers[0]?.isp || 'unknown',
+        },
+        report: deps.telemetry.buildReportSnapshot({
+          meta: { scanId: testId, time: Date.now() },
+          privacyIndex: {
+            score: Math.max(0, 100 - exposurePenalty),
+            exposureLevel: severity,
+            leakedBits: result.servers.length * 12,
+          },
+          networkLeaks: {
+            dns: result.leakType,
+            ip: result.clientIp,
+          },
+        }),
+      },
+    })
+  );
+}
+
+/**
+ * POST /dns-leak/tests
+ * Start a DNS leak test and get the hostnames the client should resolve
+ */
+const createTest = defineRoute<CoreDeps>({
+  method: 'post',
+  path: '/dns-leak/tests',
+  errorCode: 'DNS_LEAK_TEST_ERROR',
+  errorMessage: 'Failed to start DNS leak test',
+  async handle({ request }, deps) {
+    const test = await deps.dnsLeaks.createTest(request.clientIP);
+
+    return ok<DNSLeakTest>(test, 201);
+  },
+});
+
+/**
+ * POST /detect/dns-leak
+ * Collect the resolvers seen for a test and classify the leak
+ */
+const detectLeak = defineRoute<CoreDeps, undefined, undefined, typeof dnsRequestSchema>({
+  method: 'post',
+  path: '/detect/dns-leak',
+  body: dnsRequestSchema,
+  errorCode: 'DNS_LEAK_DETECTION_ERROR',
+  errorMessage: 'Failed to detect DNS leak',
+  async handle({ body, request }, deps) {
+    const result = await deps.dnsLeaks.collect(body.testId, body.userIp);
+
+    if (!result) {
+      return fail(404, 'DNS_LEAK_TEST_NOT_FOUND', 'DNS leak test not found');
+    }
+
+    captureLeak(request, deps, body.testId, result);
+    return ok<DNSLeakResult>(result);
+  },
+});
+
+export const dnsRoutes: CoreRoute<CoreDeps>[] = [createTest, detectLeak];
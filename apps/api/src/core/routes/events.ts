@@ -0,0 +1,57 @@
+/**
+ * Events Routes
+ *
+ * Live telemetry feed and client event logging.
+ *
+ * GET /v1/events/stream - Server-sent telemetry stream
+ * POST /v1/events/log - Log a telemetry event
+ */
+
+import { z } from 'zod';
+import { defineRoute, eventStream, ok, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+
+// Validation schemas
+const logEventSchema = z.object({
+  type: z.string().max(64).optional(),
+  visitorId: z.string().max(64).optional(),
+  sessionId: z.string().max(64).optional(),
+  data: z.record(z.unknown()).optional(),
+});
+
+/**
+ * GET /events/stream
+ * Recent leak logs as `seed` events, then live `telemetry` events
+ */
+const streamEvents = defineRoute<CoreDeps>({
+  method: 'get',
+  path: '/events/stream',
+  errorCode: 'TELEMETRY_STREAM_ERROR',
+  errorMessage: 'Failed to open telemetry stream',
+  async handle(_input, deps) {
+    return eventStream(deps.telemetry.stream());
+  },
+});
+
+/**
+ * POST /events/log
+ * Log a telemetry event
+ */
+const logEvent = defineRoute<CoreDeps, undefined, undefined, typeof logEventSchema>({
+  method: 'post',
+  path: '/events/log',
+  body: logEventSchema,
+  errorCode: 'TELEMETRY_LOG_ERROR',
+  errorMessage: 'Failed to log telemetry event',
+  async handle({ body, request }, deps) {
+    const id = await deps.telemetry.log({
+      ...body,
+      userAgent: request.header('user-agent'),
+      ip: request.clientIP,
+    });
+
+    return ok({ id, message: 'Event logged successfully' });
+  },
+});
+
+export const eventsRoutes: CoreRoute<CoreDeps>[] = [streamEvents, logEvent];
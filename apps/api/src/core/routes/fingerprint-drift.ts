@@ -0,0 +1,85 @@
+/**
+ * Fingerprint Drift Routes
+ *
+ * Stores complete fingerprints per visitor and reports which components
+ * change between visits and how volatile each one is.
+ *
+ * POST /v1/fingerprint/snapshots - Store a fingerprint snapshot
+ * GET /v1/fingerprint/drift/:visitorId - Get drift report for a visitor
+ */
+
+import { z } from 'zod';
+import type { FingerprintDriftEvent, FingerprintDriftReport } from '@browserleaks/types';
+import { defineRoute, fail, ok, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+
+// Validation schemas
+const visitorIdSchema = z.string().min(16).max(64);
+
+const collectorResultSchema = z.object({
+  status: z.enum(['success', 'error', 'unsupported', 'timeout', 'skipped']),
+  value: z.unknown().optional(),
+  error: z.string().optional(),
+  duration: z.number(),
+});
+
+const snapshotSchema = z.object({
+  visitorId: visitorIdSchema,
+  fingerprint: z.object({
+    visitorId: z.string(),
+    confidence: z.number(),
+    timestamp: z.number(),
+    components: z.record(collectorResultSchema.optional()),
+  }),
+});
+
+const driftParamsSchema = z.object({
+  visitorId: visitorIdSchema,
+});
+
+/**
+ * POST /fingerprint/snapshots
+ * Store a CompleteFingerprint and return the changes since the previous visit
+ */
+const saveSnapshot = defineRoute<CoreDeps, undefined, undefined, typeof snapshotSchema>({
+  method: 'post',
+  path: '/snapshots',
+  body: snapshotSchema,
+  errorCode: 'SNAPSHOT_SAVE_ERROR',
+  errorMessage: 'Failed to save fingerprint snapshot',
+  async handle({ body }, deps) {
+    const { snapshot, drift } = await deps.drift.record(body.visitorId, body.fingerprint);
+
+    return ok<{ snapshotId: string; timestamp: string; drift: FingerprintDriftEvent | null }>(
+      {
+        snapshotId: snapshot.id,
+        timestamp: snapshot.createdAt,
+        drift,
+      },
+      201
+    );
+  },
+});
+
+/**
+ * GET /fingerprint/drift/:visitorId
+ * Get the drift report for a visitor
+ */
+const getDriftReport = defineRoute<CoreDeps, typeof driftParamsSchema>({
+  method: 'get',
+  path: '/drift/:visitorId',
+  params: driftParamsSchema,
+  errorCode: 'DRIFT_REPORT_ERROR',
+  errorMessage: 'Failed to build drift report',
+  async handle({ params }, deps) {
+    const report = await deps.drift.getReport(params.visitorId);
+
+    if (report.snapshotCount === 0) {
+      return fail(404, 'SNAPSHOTS_NOT_FOUND', 'No fingerprint snapshots found for this visitor');
+    }
+
+    return ok<FingerprintDriftReport>(report);
+  },
+});
+
+export const fingerprintDriftRoutes: CoreRoute<CoreDeps>[] = [saveSnapshot, getDriftReport];
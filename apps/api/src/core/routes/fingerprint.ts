@@ -0,0 +1,830 @@
+/**
+ * Fingerprint Analysis Routes
+ *
+ * Endpoints for analyzing browser fingerprints and calculating uniqueness.
+ *
+ * POST /v1/fingerprint - Analyze fingerprint
+ * POST /v1/fingerprint/scan - Full privacy scan, saved to the visitor's history
+ * POST /v1/fingerprint/match - Find similar previously-seen fingerprints
+ * GET /v1/fingerprint/:hash - Get fingerprint statistics
+ */
+
+import { z } from 'zod';
+import type {
+  DNSLeakResult,
+  FingerprintMatchResult,
+  IPLeakResult,
+  PrivacyScore,
+  RiskLevel,
+  WebRTCLeakResult,
+} from '@browserleaks/types';
+import { defineRoute, ok, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+import type { ScanFingerprintRecord } from '../../db/ScanRepository';
+import { ConsistencyService } from '../../services/ConsistencyService';
+import { FingerprintEntropyService } from '../../services/FingerprintEntropyService';
+import { PrivacyScoreService } from '../../services/PrivacyScoreService';
+import { sha256 } from '../../utils/hash';
+
+// Validation schemas
+const fingerprintSchema = z.object({
+  canvas: z
+    .object({
+      hash: z.string(),
+      winding: z.boolean(),
+      geometry: z.string().optional(),
+      text: z.string().optional(),
+    })
+    .optional(),
+
+  webgl: z
+    .object({
+      hash: z.string(),
+      vendor: z.string(),
+      renderer: z.string(),
+      version: z.string().optional(),
+      shadingLanguageVersion: z.string().optional(),
+      extensions: z.array(z.string()).optional(),
+      parameters: z.record(z.unknown()).optional(),
+    })
+    .optional(),
+
+  audio: z
+    .object({
+      hash: z.string(),
+      value: z.number(),
+      sampleRate: z.number().optional(),
+      channelCount: z.number().optional(),
+    })
+    .optional(),
+
+  fonts: z
+    .object({
+      hash: z.string(),
+      count: z.number(),
+      list: z.array(z.string()),
+    })
+    .optional(),
+
+  timezone: z
+    .object({
+      name: z.string(),
+      offset: z.number(),
+      hasDST: z.boolean().optional(),
+    })
+    .optional(),
+
+  screen: z
+    .object({
+      width: z.number(),
+      height: z.number(),
+      colorDepth: z.number(),
+      pixelRatio: z.number(),
+      availWidth: z.number().optional(),
+      availHeight: z.number().optional(),
+      orientation: z.string().optional(),
+    })
+    .optional(),
+
+  navigator: z
+    .object({
+      platform: z.string(),
+      language: z.string(),
+      languages: z.array(z.string()),
+      hardwareConcurrency: z.number(),
+      deviceMemory: z.number().optional(),
+      maxTouchPoints: z.number(),
+      userAgent: z.string().optional(),
+      cookieEnabled: z.boolean().optional(),
+      doNotTrack: z.string().nullable().optional(),
+    })
+    .optional(),
+
+  browser: z
+    .object({
+      engine: z.string(),
+      isMobile: z.boolean(),
+      isChromium: z.boolean(),
+      isGecko: z.boolean(),
+      isWebKit: z.boolean(),
+    })
+    .optional(),
+
+  storage: z
+    .object({
+      localStorage: z.boolean(),
+      sessionStorage: z.boolean(),
+      indexedDB: z.boolean(),
+    })
+    .optional(),
+
+  visitorId: z.string().optional(),
+  sessionId: z.string().optional(),
+});
+
+const scanSchema = z.object({
+  fingerprint: fingerprintSchema,
+  ipLeak: z
+    .object({
+      ip: z.string(),
+      version: z.string().optional(),
+    })
+    .optional(),
+  dnsLeak: z
+    .object({
+      testId: z.string().optional(),
+      isLeak: z.boolean(),
+      leakType: z.enum(['none', 'partial', 'full']),
+      servers: z.array(
+        z.object({
+          ip: z.string(),
+          hostname: z.string().optional(),
+          isp: z.string().optional(),
+          country: z.string().optional(),
+        })
+      ),
+    })
+    .optional(),
+  webrtcLeak: z
+    .object({
+      isLeak: z.boolean(),
+      localIPs: z.array(z.string()),
+      publicIP: z.string().optional(),
+      ipv6: z.string().optional(),
+    })
+    .optional(),
+});
+
+const scanQuerySchema = z.object({
+  mock: z.string().optional(),
+});
+
+const matchQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(20).default(5),
+  minSimilarity: z.coerce.number().min(0).max(1).default(0.5),
+});
+
+const hashParamsSchema = z.object({
+  hash: z.string().min(1),
+});
+
+type FingerprintData = z.infer<typeof fingerprintSchema>;
+
+/**
+ * POST /fingerprint
+ * Analyze a browser fingerprint and return uniqueness score
+ */
+const analyzeFingerprint = defineRoute<CoreDeps, undefined, undefined, typeof fingerprintSchema>({
+  method: 'post',
+  path: '/',
+  body: fingerprintSchema,
+  errorCode: 'FINGERPRINT_ANALYSIS_ERROR',
+  errorMessage: 'Failed to analyze fingerprint',
+  async handle({ body: data }, deps) {
+    const combinedHash = await generateCombinedHash(data);
+
+    // Record the fingerprint and measure it against the population
+    const entropy = await deps.entropy.analyze(combinedHash, getComponentValues(data));
+    const componentScores = FingerprintEntropyService.toComponentScores(entropy);
+    const uniquenessScore = calculateUniquenessScore(componentScores);
+
+    return ok({
+      combinedHash,
+      uniquenessScore,
+      uniquenessPercentage: Math.round(uniquenessScore * 100),
+      componentScores,
+      entropy,
+      components: {
+        canvas: data.canvas
+          ? {
+              detected: true,
+              hash: data.canvas.hash,
+              winding: data.canvas.winding,
+            }
+          : { detected: false },
+        webgl: data.webgl
+          ? {
+              detected: true,
+              hash: data.webgl.hash,
+              vendor: data.webgl.vendor,
+              renderer: data.webgl.renderer,
+              extensionCount: data.webgl.extensions?.length || 0,
+            }
+          : { detected: false },
+        audio: data.audio
+          ? {
+              detected: true,
+              hash: data.audio.hash,
+              value: data.audio.value,
+            }
+          : { detected: false },
+        fonts: data.fonts
+          ? {
+              detected: true,
+              hash: data.fonts.hash,
+              count: data.fonts.count,
+            }
+          : { detected: false },
+        timezone: data.timezone
+          ? {
+              detected: true,
+              name: data.timezone.name,
+              offset: data.timezone.offset,
+            }
+          : { detected: false },
+        screen: data.screen
+          ? {
+              detected: true,
+              resolution: `${data.screen.width}x${data.screen.height}`,
+              colorDepth: data.screen.colorDepth,
+              pixelRatio: data.screen.pixelRatio,
+            }
+          : { detected: false },
+        navigator: data.navigator
+          ? {
+              detected: true,
+              platform: data.navigator.platform,
+              language: data.navigator.language,
+              hardwareConcurrency: data.navigator.hardwareConcurrency,
+              deviceMemory: data.navigator.deviceMemory,
+            }
+          : { detected: false },
+        browser: data.browser
+          ? {
+              detected: true,
+              engine: data.browser.engine,
+              isMobile: data.browser.isMobile,
+            }
+          : { detected: false },
+      },
+      riskAssessment: {
+        level: uniquenessRisk(uniquenessScore),
+        trackable: uniquenessScore > 0.7,
+        recommendations: generateRecommendations(uniquenessScore, componentScores),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  },
+});
+
+/**
+ * POST /fingerprint/scan
+ * Full privacy scan including fingerprint, IP, DNS, and WebRTC
+ */
+const scan = defineRoute<CoreDeps, undefined, typeof scanQuerySchema, typeof scanSchema>({
+  method: 'post',
+  path: '/scan',
+  query: scanQuerySchema,
+  body: scanSchema,
+  errorCode: 'SCAN_ERROR',
+  errorMessage: 'Failed to perform privacy scan',
+  async handle({ body, query, request }, deps) {
+    if (query.mock === 'true') return ok(buildMockScanResult());
+
+    const { fingerprint, dnsLeak, webrtcLeak } = body;
+    const actualIP = body.ipLeak?.ip || request.clientIP;
+    const ipLeak: IPLeakResult = { ...(await deps.ip.detect(actualIP)), ip: actualIP };
+
+    // Generate visitor ID if not provided
+    const visitorId = fingerprint.visitorId || (await generateVisitorId(fingerprint, actualIP));
+    const sessionId = fingerprint.sessionId || generateSessionId();
+
+    // Analyze fingerprint
+    const combinedHash = await generateCombinedHash(fingerprint);
+    const entropy = await deps.entropy.analyze(combinedHash, getComponentValues(fingerprint));
+    const componentScores = FingerprintEntropyService.toComponentScores(entropy);
+    const uniquenessScore = calculateUniquenessScore(componentScores);
+
+    const dnsLeakResult: DNSLeakResult | undefined = dnsLeak
+      ? {
+          testId: dnsLeak.testId || `dns-${generateScanId()}`,
+          isLeak: dnsLeak.isLeak,
+          leakType: dnsLeak.leakType,
+          clientIp: actualIP,
+          clientAsn: ipLeak.network.asn || 'Unknown',
+          probeCount: 0,
+          probesResolved: 0,
+          servers: dnsLeak.servers.map((server, idx) => ({
+            ip: server.ip,
+            country: server.country || 'Unknown',
+            countryCode: (server.country || 'XX').slice(0, 2).toUpperCase(),
+            isp: server.isp || 'Unknown',
+            asn: 'Unknown',
+            isISP: !!server.isp || idx === 0,
+            queryCount: 1,
+          })),
+          dohEnabled: false,
+          dotEnabled: false,
+          risks: [],
+          recommendations: [],
+        }
+      : undefined;
+
+    const webrtcLeakResult: WebRTCLeakResult | undefined = webrtcLeak
+      ? {
+          isLeak: webrtcLeak.isLeak,
+          localIPs: webrtcLeak.localIPs,
+          publicIPs: webrtcLeak.publicIP ? [webrtcLeak.publicIP] : [],
+          natType: 'unknown',
+          mdnsLeak: false,
+          ipv6Leak: Boolean(webrtcLeak.ipv6),
+          stunResults: [],
+          riskLevel: webrtcLeak.isLeak ? 'critical' : 'low',
+          risks: webrtcLeak.isLeak
+            ? [
+                {
+                  severity: 'high',
+                  title: 'WebRTC exposure',
+                  description: 'WebRTC reported IP addresses',
+                },
+              ]
+            : [],
+          recommendations: webrtcLeak.isLeak ? ['Disable WebRTC or restrict ICE servers'] : [],
+        }
+      : undefined;
+
+    // Cross-check network signals against what the browser reports
+    const consistency = new ConsistencyService().analyze({
+      ipLeak,
+      timezone: fingerprint.timezone
+        ? { value: fingerprint.timezone.name, intlTimezone: fingerprint.timezone.name }
+        : undefined,
+      languages: fingerprint.navigator?.languages,
+      webrtcCandidates: webrtcLeak?.publicIP ? [{ ip: webrtcLeak.publicIP, type: 'srflx' }] : [],
+      acceptLanguage: request.header('accept-language'),
+      requestIp: actualIP,
+      userAgent: fingerprint.navigator?.userAgent || request.header('user-agent'),
+      clientHints: {
+        platform: request.header('sec-ch-ua-platform'),
+        mobile: request.header('sec-ch-ua-mobile'),
+      },
+    });
+
+    const privacyScore = await new PrivacyScoreService().calculate({
+      ipLeak,
+      dnsLeak: dnsLeakResult,
+      webrtcLeak: webrtcLeakResult,
+      fingerprintResult: {
+        uniquenessScore: uniquenessScore * 100,
+      },
+      consistency,
+    });
+
+    const scanId = generateScanId();
+
+    // Persist into the normalized scan tables without holding up the response
+    request.waitUntil(
+      deps.history.record({
+        scanId,
+        visitorId,
+        sessionId,
+        userAgent: fingerprint.navigator?.userAgent || request.header('user-agent') || '',
+        privacyScore,
+        fingerprint: toFingerprintRecord(fingerprint, combinedHash, uniquenessScore),
+        ipLeak,
+        dnsLeak: dnsLeakResult,
+        webrtcLeak: webrtcLeakResult && { ...webrtcLeakResult, ipv6: webrtcLeak?.ipv6 },
+      })
+    );
+
+    return ok({
+      scanId,
+      visitorId,
+      sessionId,
+      timestamp: new Date().toISOString(),
+
+      privacyScore: {
+        total: privacyScore.totalScore,
+        riskLevel: privacyScore.riskLevel,
+        breakdown: privacyScore.breakdown,
+        vulnerabilities: privacyScore.vulnerabilities,
+        consistency,
+      },
+
+      fingerprint: {
+        combinedHash,
+        uniquenessScore,
+        uniquenessPercentage: Math.round(uniquenessScore * 100),
+        componentScores,
+        entropy: {
+          totalBits: entropy.totalBits,
+          oneIn: entropy.oneIn,
+          sampleSize: entropy.sampleSize,
+        },
+        riskLevel: uniquenessRisk(uniquenessScore),
+      },
+
+      ip: {
+        address: actualIP,
+        version: ipLeak.version,
+        geolocation: {
+          country: ipLeak.geo.country,
+          countryCode: ipLeak.geo.countryCode,
+          city: ipLeak.geo.city,
+          region: ipLeak.geo.region,
+          latitude: ipLeak.geo.latitude,
+          longitude: ipLeak.geo.longitude,
+          timezone: ipLeak.geo.timezone,
+        },
+        network: {
+          asn: ipLeak.network.asn,
+          asnName: ipLeak.network.organization,
+          organization: ipLeak.network.organization,
+        },
+        privacy: {
+          isVpn: ipLeak.privacy.isVPN,
+          isProxy: ipLeak.privacy.isProxy,
+          isTor: ipLeak.privacy.isTor,
+          isDatacenter: ipLeak.privacy.isDatacenter,
+          isRelay: ipLeak.privacy.isRelay,
+        },
+        reputation: {
+          score: ipLeak.reputation.score,
+          isBlacklisted: ipLeak.reputation.isBlacklisted,
+        },
+        sources: ipLeak.sources,
+      },
+
+      dns: dnsLeak
+        ? {
+            isLeak: dnsLeak.isLeak,
+            leakType: dnsLeak.leakType,
+            serverCount: dnsLeak.servers.length,
+            servers: dnsLeak.servers,
+          }
+        : null,
+
+      webrtc: webrtcLeak
+        ? {
+            isLeak: webrtcLeak.isLeak,
+            localIPs: webrtcLeak.localIPs,
+            publicIP: webrtcLeak.publicIP,
+            ipv6: webrtcLeak.ipv6,
+          }
+        : null,
+
+      recommendations: generateComprehensiveRecommendations(privacyScore, uniquenessScore, ipLeak),
+    });
+  },
+});
+
+/**
+ * POST /fingerprint/match
+ * Find previously-seen fingerprints similar to the submitted one
+ */
+const matchFingerprint = defineRoute<
+  CoreDeps,
+  undefined,
+  typeof matchQuerySchema,
+  typeof fingerprintSchema
+>({
+  method: 'post',
+  path: '/match',
+  query: matchQuerySchema,
+  body: fingerprintSchema,
+  errorCode: 'FINGERPRINT_MATCH_ERROR',
+  errorMessage: 'Failed to match fingerprint',
+  async handle({ body, query }, deps) {
+    const combinedHash = await generateCombinedHash(body);
+    const result = await deps.fingerprintMatches.findMatches(
+      combinedHash,
+      getComponentValues(body),
+      query
+    );
+
+    return ok<FingerprintMatchResult & { combinedHash: string }>({ combinedHash, ...result });
+  },
+});
+
+/**
+ * GET /fingerprint/:hash
+ * Get fingerprint statistics by hash
+ */
+const getStats = defineRoute<CoreDeps, typeof hashParamsSchema>({
+  method: 'get',
+  path: '/:hash',
+  params: hashParamsSchema,
+  errorCode: 'FINGERPRINT_LOOKUP_ERROR',
+  errorMessage: 'Failed to lookup fingerprint',
+  async handle({ params }, deps) {
+    const known = await deps.fingerprintMatches.get(params.hash);
+
+    // A fingerprint nobody submitted yet would be unique on its first visit
+    if (!known) {
+      const now = new Date().toISOString();
+      return ok({
+        hash: params.hash,
+        seenCount: 1,
+        firstSeen: now,
+        lastSeen: now,
+        uniqueness: 0.95,
+        similarFingerprints: 0,
+      });
+    }
+
+    return ok({
+      hash: known.hash,
+      seenCount: known.seenCount,
+      firstSeen: known.firstSeen,
+      lastSeen: known.lastSeen,
+      uniqueness: Math.max(0.7, 1 - known.seenCount / 1000),
+      similarFingerprints: Math.min(known.seenCount, 10),
+    });
+  },
+});
+
+export const fingerprintRoutes: CoreRoute<CoreDeps>[] = [
+  analyzeFingerprint,
+  scan,
+  matchFingerprint,
+  getStats,
+];
+
+// Helper functions
+
+async function generateCombinedHash(data: FingerprintData): Promise<string> {
+  const parts = [
+    data.canvas?.hash || '',
+    data.webgl?.hash || '',
+    data.audio?.hash || '',
+    data.fonts?.hash || '',
+    data.timezone?.name || '',
+    data.screen ? `${data.screen.width}x${data.screen.height}` : '',
+    data.navigator?.platform || '',
+    data.navigator?.language || '',
+  ].join('|');
+
+  return sha256(parts);
+}
+
+/**
+ * Canonical value per fingerprint component, used as the frequency store key
+ */
+function getComponentValues(data: FingerprintData): Record<string, string | undefined> {
+  return {
+    canvas: data.canvas?.hash,
+    webgl: data.webgl?.hash,
+    audio: data.audio?.hash,
+    fonts: data.fonts?.hash,
+    timezone: data.timezone ? `${data.timezone.name}|${data.timezone.offset}` : undefined,
+    screen: data.screen
+      ? `${data.screen.width}x${data.screen.height}|${data.screen.colorDepth}|${data.screen.pixelRatio}`
+      : undefined,
+    navigator: data.navigator
+      ? [
+          data.navigator.platform,
+          data.navigator.languages.join(','),
+          data.navigator.hardwareConcurrency,
+          data.navigator.deviceMemory ?? '',
+          data.navigator.maxTouchPoints,
+        ].join('|')
+      : undefined,
+    userAgent: data.navigator?.userAgent,
+  };
+}
+
+function toFingerprintRecord(
+  data: FingerprintData,
+  combinedHash: string,
+  uniquenessScore: number
+): ScanFingerprintRecord {
+  return {
+    canvasHash: data.canvas?.hash,
+    canvasWinding: data.canvas?.winding,
+    webglHash: data.webgl?.hash,
+    webglVendor: data.webgl?.vendor,
+    webglRenderer: data.webgl?.renderer,
+    audioHash: data.audio?.hash,
+    audioValue: data.audio?.value,
+    fontHash: data.fonts?.hash,
+    fontCount: data.fonts?.count,
+    fonts: data.fonts?.list ?? [],
+    timezone: data.timezone?.name,
+    timezoneOffset: data.timezone?.offset,
+    screenWidth: data.screen?.width,
+    screenHeight: data.screen?.height,
+    colorDepth: data.screen?.colorDepth,
+    devicePixelRatio: data.screen?.pixelRatio,
+    platform: data.navigator?.platform,
+    language: data.navigator?.language,
+    languages: data.navigator?.languages ?? [],
+    hardwareConcurrency: data.navigator?.hardwareConcurrency,
+    deviceMemory: data.navigator?.deviceMemory,
+    maxTouchPoints: data.navigator?.maxTouchPoints,
+    browserEngine: data.browser?.engine,
+    isMobile: data.browser?.isMobile,
+    isChromium: data.browser?.isChromium,
+    isGecko: data.browser?.isGecko,
+    isWebKit: data.browser?.isWebKit,
+    combinedHash,
+    uniquenessScore,
+  };
+}
+
+function calculateUniquenessScore(componentScores: Record<string, number>): number {
+  const values = Object.values(componentScores);
+  if (values.length === 0) return 0.5;
+
+  const weights: Record<string, number> = {
+    canvas: 0.25,
+    webgl: 0.2,
+    audio: 0.15,
+    fonts: 0.15,
+    timezone: 0.05,
+    screen: 0.1,
+    navigator: 0.1,
+  };
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const [key, score] of Object.entries(componentScores)) {
+    const weight = weights[key] || 0.1;
+    weightedSum += score * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? weightedSum / totalWeight : 0.5;
+}
+
+function uniquenessRisk(uniqueness: number): RiskLevel {
+  if (uniqueness > 0.9) return 'critical';
+  if (uniqueness > 0.7) return 'high';
+  if (uniqueness > 0.5) return 'medium';
+  return 'low';
+}
+
+function generateRecommendations(
+  uniqueness: number,
+  componentScores: Record<string, number>
+): string[] {
+  const recommendations: string[] = [];
+
+  if (uniqueness > 0.8) {
+    recommendations.push(
+      'Use a privacy-focused browser like Firefox with Enhanced Tracking Protection.'
+    );
+  }
+
+  if (componentScores.canvas && componentScores.canvas > 0.8) {
+    recommendations.push('Enable canvas fingerprint protection (e.g., CanvasBlocker extension).');
+  }
+
+  if (componentScores.webgl && componentScores.webgl > 0.8) {
+    recommendations.push('Consider disabling WebGL or using WebGL fingerprint protection.');
+  }
+
+  if (componentScores.fonts && componentScores.fonts > 0.6) {
+    recommendations.push(
+      'Reduce installed fonts or use a font fingerprinting protection extension.'
+    );
+  }
+
+  if (recommendations.length === 0) {
+    recommendations.push(
+      'Your browser fingerprint has moderate uniqueness. Good privacy practices.'
+    );
+  }
+
+  return recommendations;
+}
+
+function generateComprehensiveRecommendations(
+  privacyScore: PrivacyScore,
+  uniqueness: number,
+  ipLeak: IPLeakResult
+): string[] {
+  const recommendations: string[] = [];
+
+  if (!ipLeak.privacy.isVPN && !ipLeak.privacy.isTor) {
+    recommendations.push('Use a reputable VPN service to hide your real IP address.');
+  }
+
+  if (privacyScore.breakdown.dnsPrivacy < 10) {
+    recommendations.push('Enable DNS-over-HTTPS (DoH) in your browser settings.');
+  }
+
+  if (privacyScore.breakdown.webrtcPrivacy < 10) {
+    recommendations.push('Disable WebRTC or use a browser extension to prevent IP leaks.');
+  }
+
+  if (uniqueness > 0.8) {
+    recommendations.push('Use a privacy browser with fingerprint protection (Firefox, Brave).');
+  }
+
+  if (privacyScore.totalScore < 60) {
+    recommendations.push('Consider using Tor Browser for maximum privacy protection.');
+  }
+
+  return recommendations.slice(0, 5);
+}
+
+async function generateVisitorId(data: FingerprintData, ip: string): Promise<string> {
+  const parts = [
+    data.canvas?.hash || '',
+    data.webgl?.hash || '',
+    data.navigator?.platform || '',
+    ip,
+  ].join('|');
+  const hash = await sha256(parts);
+  return hash.substring(0, 24);
+}
+
+function generateSessionId(): string {
+  return randomHex(8);
+}
+
+function generateScanId(): string {
+  return randomHex(10);
+}
+
+function randomHex(bytes: number): string {
+  const randomBytes = new Uint8Array(bytes);
+  crypto.getRandomValues(randomBytes);
+  return Array.from(randomBytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function buildMockScanResult() {
+  return {
+    scanId: 'mock-scan',
+    visitorId: 'visitor-mock',
+    sessionId: 'session-mock',
+    timestamp: new Date().toISOString(),
+    privacyScore: {
+      total: 72,
+      riskLevel: 'medium',
+      breakdown: {
+        ipPrivacy: 15,
+        dnsPrivacy: 12,
+        webrtcPrivacy: 13,
+        fingerprintResistance: 22,
+        browserConfig: 10,
+      },
+      vulnerabilities: [
+        {
+          category: 'IP Privacy',
+          severity: 'medium',
+          title: 'No VPN/Proxy Detected',
+          description: 'Your IP is exposed without VPN/proxy shielding.',
+          recommendation: 'Enable a reputable VPN before testing again.',
+        },
+      ],
+    },
+    fingerprint: {
+      combinedHash: 'mock-hash',
+      uniquenessScore: 0.74,
+      uniquenessPercentage: 74,
+      componentScores: {
+        canvas: 0.8,
+        webgl: 0.7,
+        audio: 0.6,
+      },
+      riskLevel: 'high',
+    },
+    ip: {
+      address: '203.0.113.42',
+      version: 'ipv4',
+      geolocation: {
+        country: 'United States',
+        countryCode: 'US',
+        city: 'Los Angeles',
+        region: 'California',
+        latitude: 34.05,
+        longitude: -118.25,
+        timezone: 'America/Los_Angeles',
+      },
+      network: {
+        asn: 13335,
+        asnName: 'Cloudflare',
+        organization: 'Cloudflare Inc.',
+      },
+      privacy: {
+        isVpn: false,
+        isProxy: false,
+        isTor: false,
+        isDatacenter: false,
+        isRelay: false,
+      },
+      reputation: {
+        score: 20,
+        isBlacklisted: false,
+      },
+      sources: ['mock'],
+    },
+    dns: {
+      isLeak: false,
+      leakType: 'none',
+      serverCount: 1,
+      servers: [{ ip: '1.1.1.1', country: 'US', isp: 'Cloudflare' }],
+    },
+    webrtc: {
+      isLeak: false,
+      localIPs: ['192.168.0.5'],
+      publicIP: '203.0.113.42',
+      ipv6: false,
+    },
+    recommendations: ['Enable WebRTC leak protection', 'Harden browser fingerprint defenses'],
+  };
+}
@@ -0,0 +1,329 @@
+/**
+ * History Routes
+ *
+ * Endpoints for scan history and comparison features.
+ *
+ * GET /v1/history - Get scan history for a visitor
+ * POST /v1/history - Save a scan to history
+ * POST /v1/history/compare - Compare multiple scans
+ * GET /v1/history/:scanId - Get a specific scan
+ * DELETE /v1/history/:scanId - Delete a scan
+ * DELETE /v1/history - Clear all history
+ */
+
+import { z } from 'zod';
+import type { ScoringPolicyRef } from '@browserleaks/types';
+import { defineRoute, fail, ok, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+import { toComparableScores } from '../../services/ScoringPolicy';
+import type { StoredScan } from '../../services/ScanHistoryService';
+
+// Validation schemas
+const getHistoryQuerySchema = z.object({
+  visitorId: z.string().min(16).max(64),
+  limit: z.coerce.number().min(1).max(100).default(10),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+const saveScanSchema = z.object({
+  visitorId: z.string().min(16).max(64),
+  scan: z.object({
+    privacyScore: z
+      .object({
+        total: z.number().optional(),
+        riskLevel: z.string().optional(),
+        policy: z.object({ name: z.string(), version: z.string() }).optional(),
+        normalized: z.record(z.number().min(0).max(1)).optional(),
+      })
+      .optional(),
+    fingerprint: z
+      .object({
+        uniquenessScore: z.number().optional(),
+        combinedHash: z.string().optional(),
+      })
+      .optional(),
+    ip: z
+      .object({
+        address: z.string().optional(),
+        privacy: z
+          .object({
+            isVpn: z.boolean().optional(),
+            isProxy: z.boolean().optional(),
+            isTor: z.boolean().optional(),
+          })
+          .optional(),
+      })
+      .optional(),
+    dns: z
+      .object({
+        isLeak: z.boolean().optional(),
+        leakType: z.string().optional(),
+      })
+      .optional(),
+    webrtc: z
+      .object({
+        isLeak: z.boolean().optional(),
+      })
+      .optional(),
+  }),
+});
+
+const compareSchema = z.object({
+  scanIds: z.array(z.string()).min(2).max(5),
+});
+
+const scanParamsSchema = z.object({
+  scanId: z.string().min(1),
+});
+
+interface ComparisonResult {
+  scans: Array<{ id: string; timestamp: string; privacyScore?: number; riskLevel?: string }>;
+  changes: string[];
+  trends: {
+    privacyScore?: {
+      direction: 'improved' | 'declined' | 'stable';
+      change: number;
+      firstScore: number;
+      lastScore: number;
+      policy: ScoringPolicyRef;
+      comparable: boolean; // false when the scores came from different policy versions
+    };
+  };
+}
+
+/**
+ * GET /history
+ * Get scan history for a visitor
+ */
+const listHistory = defineRoute<CoreDeps, undefined, typeof getHistoryQuerySchema>({
+  method: 'get',
+  path: '/',
+  query: getHistoryQuerySchema,
+  errorCode: 'HISTORY_FETCH_ERROR',
+  errorMessage: 'Failed to fetch history',
+  async handle({ query }, deps) {
+    const { visitorId, limit, offset } = query;
+    const { scans, total } = await deps.history.list(visitorId, limit, offset);
+
+    return ok({
+      scans,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+    });
+  },
+});
+
+/**
+ * POST /history
+ * Save a scan to history
+ */
+const saveScan = defineRoute<CoreDeps, undefined, undefined, typeof saveScanSchema>({
+  method: 'post',
+  path: '/',
+  body: saveScanSchema,
+  errorCode: 'HISTORY_SAVE_ERROR',
+  errorMessage: 'Failed to save to history',
+  async handle({ body }, deps) {
+    // Older scans beyond the per-visitor limit are pruned on save
+    const scanId = await deps.history.save(body.visitorId, body.scan);
+
+    return ok({ scanId, message: 'Scan saved to history' }, 201);
+  },
+});
+
+/**
+ * POST /history/compare
+ * Compare multiple scans
+ */
+const compareScans = defineRoute<CoreDeps, undefined, undefined, typeof compareSchema>({
+  method: 'post',
+  path: '/compare',
+  body: compareSchema,
+  errorCode: 'COMPARISON_ERROR',
+  errorMessage: 'Failed to compare scans',
+  async handle({ body }, deps) {
+    const scans = await deps.history.getMany(body.scanIds);
+
+    if (scans.length < 2) {
+      return fail(404, 'SCANS_NOT_FOUND', 'Could not find enough scans to compare');
+    }
+
+    return ok(generateComparison(scans));
+  },
+});
+
+/**
+ * GET /history/:scanId
+ * Get a specific scan by ID
+ */
+const getScan = defineRoute<CoreDeps, typeof scanParamsSchema>({
+  method: 'get',
+  path: '/:scanId',
+  params: scanParamsSchema,
+  errorCode: 'SCAN_FETCH_ERROR',
+  errorMessage: 'Failed to fetch scan',
+  async handle({ params }, deps) {
+    const scan = await deps.history.get(params.scanId);
+
+    if (!scan) {
+      return fail(404, 'SCAN_NOT_FOUND', 'Scan not found');
+    }
+
+    return ok(scan);
+  },
+});
+
+/**
+ * DELETE /history/:scanId
+ * Delete a scan from history
+ */
+const deleteScan = defineRoute<CoreDeps, typeof scanParamsSchema>({
+  method: 'delete',
+  path: '/:scanId',
+  params: scanParamsSchema,
+  errorCode: 'SCAN_DELETE_ERROR',
+  errorMessage: 'Failed to delete scan',
+  async handle({ params, query }, deps) {
+    if (!query.visitorId) {
+      return fail(400, 'INVALID_REQUEST', 'visitorId is required');
+    }
+
+    // Only deletes when the scan belongs to the visitor
+    if (!(await deps.history.delete(params.scanId, query.visitorId))) {
+      return fail(404, 'SCAN_NOT_FOUND', 'Scan not found or does not belong to this visitor');
+    }
+
+    return ok({ message: 'Scan deleted from history' });
+  },
+});
+
+/**
+ * DELETE /history
+ * Clear all history for a visitor
+ */
+const clearHistory = defineRoute<CoreDeps>({
+  method: 'delete',
+  path: '/',
+  errorCode: 'HISTORY_CLEAR_ERROR',
+  errorMessage: 'Failed to clear history',
+  async handle({ query }, deps) {
+    if (!query.visitorId) {
+      return fail(400, 'INVALID_REQUEST', 'visitorId is required');
+    }
+
+    await deps.history.clear(query.visitorId);
+
+    return ok({ message: 'History cleared' });
+  },
+});
+
+export const historyRoutes: CoreRoute<CoreDeps>[] = [
+  listHistory,
+  saveScan,
+  compareScans,
+  getScan,
+  deleteScan,
+  clearHistory,
+];
+
+// Helper functions
+
+function generateComparison(scans: StoredScan[]): ComparisonResult {
+  // Sort by timestamp
+  const sortedScans = [...scans].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  const comparison: ComparisonResult = {
+    scans: sortedScans.map((scan) => ({
+      id: scan.id,
+      timestamp: scan.timestamp,
+      privacyScore: scan.privacyScore?.total,
+      riskLevel: scan.privacyScore?.riskLevel,
+    })),
+    changes: [],
+    trends: {},
+  };
+
+  // Compare privacy scores
+  if (sortedScans.length >= 2) {
+    const first = sortedScans[0];
+    const last = sortedScans[sortedScans.length - 1];
+
+    // Re-weight both scans with one policy so policy changes do not show up as trends
+    const { firstScore, lastScore, policy, comparable } = toComparableScores(
+      first.privacyScore ?? {},
+      last.privacyScore ?? {}
+    );
+    const scoreDiff = lastScore - firstScore;
+
+    comparison.trends.privacyScore = {
+      direction: scoreDiff > 0 ? 'improved' : scoreDiff < 0 ? 'declined' : 'stable',
+      change: scoreDiff,
+      firstScore,
+      lastScore,
+      policy,
+      comparable,
+    };
+
+    // Detect specific changes
+    const changes: string[] = [];
+
+    // IP changes
+    if (first.ip?.address !== last.ip?.address) {
+      changes.push(
+        `IP changed from ${first.ip?.address || 'unknown'} to ${last.ip?.address || 'unknown'}`
+      );
+    }
+
+    // VPN status changes
+    if (first.ip?.privacy?.isVpn !== last.ip?.privacy?.isVpn) {
+      if (last.ip?.privacy?.isVpn) {
+        changes.push('VPN enabled');
+      } else {
+        changes.push('VPN disabled');
+      }
+    }
+
+    // Fingerprint uniqueness changes
+    const firstUniqueness = first.fingerprint?.uniquenessScore || 0;
+    const lastUniqueness = last.fingerprint?.uniquenessScore || 0;
+    const uniquenessDiff = lastUniqueness - firstUniqueness;
+
+    if (Math.abs(uniquenessDiff) > 0.1) {
+      if (uniquenessDiff > 0) {
+        changes.push(`Fingerprint uniqueness increased by ${Math.round(uniquenessDiff * 100)}%`);
+      } else {
+        changes.push(
+          `Fingerprint uniqueness decreased by ${Math.round(Math.abs(uniquenessDiff) * 100)}%`
+        );
+      }
+    }
+
+    // DNS leak changes
+    if (first.dns?.isLeak !== last.dns?.isLeak) {
+      if (last.dns?.isLeak) {
+        changes.push('DNS leak detected');
+      } else {
+        changes.push('DNS leak fixed');
+      }
+    }
+
+    // WebRTC leak changes
+    if (first.webrtc?.isLeak !== last.webrtc?.isLeak) {
+      if (last.webrtc?.isLeak) {
+        changes.push('WebRTC leak detected');
+      } else {
+        changes.push('WebRTC leak fixed');
+      }
+    }
+
+    comparison.changes = changes;
+  }
+
+  return comparison;
+}
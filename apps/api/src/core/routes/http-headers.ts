@@ -0,0 +1,29 @@
+/**
+ * HTTP Headers Routes
+ *
+ * GET /v1/http-headers - Echo request headers with client hint analysis
+ */
+
+import type { HttpHeadersResult } from '@browserleaks/types';
+import { defineRoute, ok, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+
+/**
+ * GET /http-headers
+ * Echo request headers, in wire order where the runtime keeps it
+ */
+const echoHeaders = defineRoute<CoreDeps>({
+  method: 'get',
+  path: '/http-headers',
+  errorCode: 'HTTP_HEADERS_ERROR',
+  errorMessage: 'Failed to analyze HTTP headers',
+  async handle({ request }, deps) {
+    const { headers, orderPreserved, info } = request.connection;
+
+    const data = await deps.httpHeaders.analyze({ headers, orderPreserved, connection: info });
+
+    return ok<HttpHeadersResult>(data);
+  },
+});
+
+export const httpHeadersRoutes: CoreRoute<CoreDeps>[] = [echoHeaders];
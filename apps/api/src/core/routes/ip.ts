@@ -0,0 +1,105 @@
+/**
+ * IP Detection Routes
+ *
+ * POST /v1/detect/ip - Detect client or specified IP
+ * GET /v1/detect/ip/:ip - Lookup specific IP
+ */
+
+import { z } from 'zod';
+import type { IPLeakResult } from '@browserleaks/types';
+import { defineRoute, ok, type CoreRequest, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+
+// Validation schemas
+const ipSchema = z
+  .string()
+  .ip({ version: 'v4' })
+  .or(z.string().ip({ version: 'v6' }));
+
+const ipRequestSchema = z.object({
+  ip: ipSchema.optional(),
+});
+
+const ipParamsSchema = z.object({
+  ip: ipSchema,
+});
+
+/**
+ * Report the lookup to the live telemetry feed once the response is out
+ */
+function captureDetection(request: CoreRequest, deps: CoreDeps, result: IPLeakResult) {
+  const score = Math.max(0, 100 - result.reputation.score);
+
+  request.waitUntil(
+    deps.telemetry.capture({
+      type: 'ip-detect',
+      source: 'ip-service',
+      severity: result.privacy.isProxy || result.privacy.isDatacenter ? 'medium' : 'low',
+      summary: `${result.ip} · ${result.geo.countryCode}`,
+      payload: result,
+      snapshot: {
+        privacyScore: score,
+        entropyScore: result.reputation.score,
+        leaks: {
+          webrtc: false,
+          dns: 'none',
+          battery: false,
+          motion: false,
+        },
+        apiSurface: {
+          isp: result.network.isp,
+          asn: result.network.asn,
+        },
+        report: deps.telemetry.buildReportSnapshot({
+          meta: { scanId: `ip-${result.ip}`, time: Date.now() },
+          privacyIndex: {
+            score,
+            exposureLevel: result.privacy.isProxy ? 'medium' : 'low',
+            leakedBits: result.privacy.isProxy ? 32 : 8,
+          },
+          networkLeaks: {
+            ip: result.ip,
+          },
+        }),
+      },
+    })
+  );
+}
+
+/**
+ * POST /detect/ip
+ * Detect IP information for client or specified IP
+ */
+const detectIP = defineRoute<CoreDeps, undefined, undefined, typeof ipRequestSchema>({
+  method: 'post',
+  path: '/detect/ip',
+  body: ipRequestSchema,
+  errorCode: 'IP_DETECTION_ERROR',
+  errorMessage: 'Failed to detect IP',
+  async handle({ body, request }, deps) {
+    const result = await deps.ip.detect(body.ip || request.clientIP);
+
+    captureDetection(request, deps, result);
+    return ok<IPLeakResult>(result);
+  },
+});
+
+/**
+ * GET /detect/ip/:ip
+ * Lookup specific IP information
+ */
+const lookupIP = defineRoute<CoreDeps, typeof ipParamsSchema>({
+  method: 'get',
+  path: '/detect/ip/:ip',
+  params: ipParamsSchema,
+  errorCode: 'IP_DETECTION_ERROR',
+  errorMessage: 'Failed to detect IP',
+  async handle({ params, request }, deps) {
+    const result = await deps.ip.detect(params.ip);
+
+    captureDetection(request, deps, result);
+    return ok<IPLeakResult>(result);
+  },
+});
+
+export const ipRoutes: CoreRoute<CoreDeps>[] = [detectIP, lookupIP];
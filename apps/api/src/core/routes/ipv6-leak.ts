@@ -0,0 +1,85 @@
+/**
+ * IPv6 Leak Detection Routes
+ *
+ * POST /v1/ipv6-leak/tests - Start a dual-stack leak test
+ * GET /v1/ipv6-leak/tests/:testId/:endpoint - Probe request from one endpoint
+ * POST /v1/detect/ipv6-leak - Correlate the probes of a test
+ */
+
+import { z } from 'zod';
+import type { IPv6LeakResult, IPv6LeakTest, IPv6ProbeEndpoint } from '@browserleaks/types';
+import { defineRoute, fail, ok, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+
+// Validation schemas
+const testIdSchema = z.string().regex(/^[a-f0-9]{32}$/);
+
+const probeParamsSchema = z.object({
+  testId: testIdSchema,
+  endpoint: z.enum(['ipv4', 'ipv6', 'dual']),
+});
+
+const ipv6LeakRequestSchema = z.object({
+  testId: testIdSchema,
+});
+
+/**
+ * POST /ipv6-leak/tests
+ * Start a dual-stack leak test and get the probe URLs the client should fetch
+ */
+const createTest = defineRoute<CoreDeps>({
+  method: 'post',
+  path: '/ipv6-leak/tests',
+  errorCode: 'IPV6_LEAK_TEST_ERROR',
+  errorMessage: 'Failed to start IPv6 leak test',
+  async handle(_input, deps) {
+    const test = await deps.ipv6Leaks.createTest();
+
+    return ok<IPv6LeakTest>(test, 201);
+  },
+});
+
+/**
+ * GET /ipv6-leak/tests/:testId/:endpoint
+ * Probe request; records the address it arrived from
+ */
+const recordProbe = defineRoute<CoreDeps, typeof probeParamsSchema>({
+  method: 'get',
+  path: '/ipv6-leak/tests/:testId/:endpoint',
+  params: probeParamsSchema,
+  errorCode: 'IPV6_LEAK_PROBE_ERROR',
+  errorMessage: 'Failed to record IPv6 leak probe',
+  async handle({ params, request }, deps) {
+    const ip = request.clientIP;
+    const recorded = await deps.ipv6Leaks.recordProbe(params.testId, params.endpoint, ip);
+
+    if (!recorded) {
+      return fail(404, 'IPV6_LEAK_TEST_NOT_FOUND', 'IPv6 leak test not found or expired');
+    }
+
+    return ok<{ endpoint: IPv6ProbeEndpoint; ip: string }>({ endpoint: params.endpoint, ip });
+  },
+});
+
+/**
+ * POST /detect/ipv6-leak
+ * Correlate the probes of a test and report whether IPv6 bypasses the tunnel
+ */
+const detectLeak = defineRoute<CoreDeps, undefined, undefined, typeof ipv6LeakRequestSchema>({
+  method: 'post',
+  path: '/detect/ipv6-leak',
+  body: ipv6LeakRequestSchema,
+  errorCode: 'IPV6_LEAK_DETECTION_ERROR',
+  errorMessage: 'Failed to detect IPv6 leak',
+  async handle({ body }, deps) {
+    const result = await deps.ipv6Leaks.collect(body.testId);
+
+    if (!result) {
+      return fail(404, 'IPV6_LEAK_TEST_NOT_FOUND', 'IPv6 leak test not found');
+    }
+
+    return ok<IPv6LeakResult>(result);
+  },
+});
+
+export const ipv6LeakRoutes: CoreRoute<CoreDeps>[] = [createTest, recordProbe, detectLeak];
@@ -0,0 +1,150 @@
+/**
+ * API Key Routes
+ *
+ * POST /v1/keys - Issue a key (admin)
+ * GET /v1/keys - List keys (admin)
+ * POST /v1/keys/:id/rotate - Replace a key's secret (admin or the key itself)
+ * DELETE /v1/keys/:id - Revoke a key (admin or the key itself)
+ * GET /v1/quota - Remaining quota of the calling key, or of the anonymous IP
+ *
+ * Admins are internal-tier keys, or callers presenting the admin token in
+ * X-Admin-Token (used to issue the first internal key).
+ */
+
+import { z } from 'zod';
+import type { ApiKeyInfo, IssuedApiKey, QuotaStatus } from '@browserleaks/types';
+import { defineRoute, fail, ok, type CoreRequest, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+import { getAnonymousQuota } from '../access';
+
+// Validation schemas
+const createKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  tier: z.enum(['free', 'pro', 'internal']).default('free'),
+});
+
+const keyParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+function isAdmin(request: CoreRequest, deps: CoreDeps): boolean {
+  if (request.apiKey?.tier === 'internal') return true;
+
+  const token = request.header('x-admin-token');
+  return Boolean(deps.adminToken && token && timingSafeEqual(token, deps.adminToken));
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+const forbidden = () =>
+  fail(403, 'FORBIDDEN', 'This operation requires an admin token or an internal API key');
+
+const notFound = () => fail(404, 'API_KEY_NOT_FOUND', 'API key not found');
+
+/**
+ * POST /keys
+ * Issue a key; the plain key is only returned in this response
+ */
+const issueKey = defineRoute<CoreDeps, undefined, undefined, typeof createKeySchema>({
+  method: 'post',
+  path: '/keys',
+  body: createKeySchema,
+  errorCode: 'API_KEY_ERROR',
+  errorMessage: 'Failed to create API key',
+  async handle({ body, request }, deps) {
+    if (!isAdmin(request, deps)) return forbidden();
+
+    return ok<IssuedApiKey>(await deps.apiKeys.issue(body.name, body.tier), 201);
+  },
+});
+
+/**
+ * GET /keys
+ * List all keys without their secrets
+ */
+const listKeys = defineRoute<CoreDeps>({
+  method: 'get',
+  path: '/keys',
+  errorCode: 'API_KEY_ERROR',
+  errorMessage: 'Failed to list API keys',
+  async handle({ request }, deps) {
+    if (!isAdmin(request, deps)) return forbidden();
+
+    return ok<ApiKeyInfo[]>(await deps.apiKeys.list());
+  },
+});
+
+/**
+ * POST /keys/:id/rotate
+ * Replace the secret of a key; the old secret stops working immediately
+ */
+const rotateKey = defineRoute<CoreDeps, typeof keyParamSchema>({
+  method: 'post',
+  path: '/keys/:id/rotate',
+  params: keyParamSchema,
+  errorCode: 'API_KEY_ERROR',
+  errorMessage: 'Failed to rotate API key',
+  async handle({ params, request }, deps) {
+    if (!isAdmin(request, deps) && request.apiKey?.id !== params.id) return forbidden();
+
+    const issued = await deps.apiKeys.rotate(params.id);
+    return issued ? ok<IssuedApiKey>(issued) : notFound();
+  },
+});
+
+/**
+ * DELETE /keys/:id
+ * Revoke a key
+ */
+const revokeKey = defineRoute<CoreDeps, typeof keyParamSchema>({
+  method: 'delete',
+  path: '/keys/:id',
+  params: keyParamSchema,
+  errorCode: 'API_KEY_ERROR',
+  errorMessage: 'Failed to revoke API key',
+  async handle({ params, request }, deps) {
+    if (!isAdmin(request, deps) && request.apiKey?.id !== params.id) return forbidden();
+
+    const revoked = await deps.apiKeys.revoke(params.id);
+    return revoked ? ok<ApiKeyInfo>(revoked) : notFound();
+  },
+});
+
+/**
+ * GET /quota
+ * Per-group quota of the calling key, or the per-IP limit for anonymous callers
+ */
+const getQuota = defineRoute<CoreDeps>({
+  method: 'get',
+  path: '/quota',
+  errorCode: 'QUOTA_ERROR',
+  errorMessage: 'Failed to read quota',
+  async handle({ request }, deps) {
+    const { apiKey } = request;
+
+    const status: QuotaStatus = apiKey
+      ? await deps.apiKeys.getQuotaStatus(apiKey)
+      : {
+          tier: 'anonymous',
+          keyId: null,
+          quotas: [await getAnonymousQuota(deps, request.connection.remoteAddress)],
+        };
+
+    return ok<QuotaStatus>(status);
+  },
+});
+
+export const keyRoutes: CoreRoute<CoreDeps>[] = [
+  issueKey,
+  listKeys,
+  rotateKey,
+  revokeKey,
+  getQuota,
+];
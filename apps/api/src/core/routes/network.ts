@@ -0,0 +1,44 @@
+/**
+ * Network Routes
+ *
+ * Endpoints for network insights including traceroute, JA3 fingerprint, etc.
+ *
+ * GET /v1/network/insights - Get network insights
+ *   ?protocol=icmp|udp|tcp - traceroute probe type (default icmp)
+ *   ?mock=true - canned response
+ */
+
+import { z } from 'zod';
+import { defineRoute, ok, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+import type { NetworkInsightsPayload } from '../../services/NetworkInsightsService';
+
+// Validation schema; an unknown protocol falls back to the default
+const insightsQuerySchema = z.object({
+  protocol: z.enum(['icmp', 'udp', 'tcp']).optional().catch(undefined),
+  mock: z.string().optional(),
+});
+
+/**
+ * GET /network/insights
+ * Get network insights including a traceroute towards the client and JA3 fingerprint.
+ * The traceroute is an active probe, so it targets the connecting address rather
+ * than the spoofable clientIP.
+ */
+const getInsights = defineRoute<CoreDeps, undefined, typeof insightsQuerySchema>({
+  method: 'get',
+  path: '/network/insights',
+  query: insightsQuerySchema,
+  errorCode: 'NETWORK_INSIGHTS_ERROR',
+  errorMessage: 'Failed to load network insights',
+  async handle({ query, request }, deps) {
+    const data =
+      query.mock === 'true'
+        ? deps.network.getMockInsights()
+        : await deps.network.getInsights(request.connection.remoteAddress, query.protocol);
+
+    return ok<NetworkInsightsPayload>(data);
+  },
+});
+
+export const networkRoutes: CoreRoute<CoreDeps>[] = [getInsights];
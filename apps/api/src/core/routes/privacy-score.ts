@@ -0,0 +1,280 @@
+/**
+ * Privacy Score Routes
+ *
+ * POST /v1/privacy-score - Calculate comprehensive privacy score
+ * GET /v1/privacy-score/policies - List available scoring policies
+ */
+
+import { z } from 'zod';
+import type {
+  DNSLeakResult,
+  IPLeakResult,
+  PrivacyScore,
+  ScoringPolicy,
+  WebRTCLeakResult,
+} from '@browserleaks/types';
+import { defineRoute, fail, ok, type CoreRequest, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+import { PrivacyScoreService } from '../../services/PrivacyScoreService';
+import { SCORING_POLICIES, getScoringPolicy } from '../../services/ScoringPolicy';
+import { ConsistencyService } from '../../services/ConsistencyService';
+
+// Validation schemas; the leak results are the ones the detection endpoints
+// returned, so fields the scorer does not check are passed through untouched
+const ipLeakSchema = z
+  .object({
+    ip: z.string().optional(),
+    version: z.enum(['ipv4', 'ipv6']).optional(),
+    geo: z
+      .object({
+        country: z.string().optional(),
+        countryCode: z.string().optional(),
+        city: z.string().optional(),
+        region: z.string().optional(),
+        timezone: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    network: z
+      .object({
+        isp: z.string().optional(),
+        asn: z.string().optional(),
+        organization: z.string().optional(),
+      })
+      .optional(),
+    privacy: z.object({
+      isProxy: z.boolean().optional(),
+      isVPN: z.boolean().optional(),
+      isDatacenter: z.boolean().optional(),
+      isTor: z.boolean().optional(),
+      isRelay: z.boolean().optional(),
+    }),
+    reputation: z.object({
+      score: z.number().optional(),
+      isBlacklisted: z.boolean().optional(),
+      categories: z.array(z.string()).optional(),
+    }),
+  })
+  .passthrough()
+  .nullish();
+
+const dnsLeakSchema = z
+  .object({
+    testId: z.string().optional(),
+    isLeak: z.boolean().optional(),
+    leakType: z.enum(['none', 'partial', 'full']).optional(),
+    servers: z.array(z.unknown()).optional(),
+    dohEnabled: z.boolean().optional(),
+    dotEnabled: z.boolean().optional(),
+  })
+  .passthrough()
+  .nullish();
+
+const webrtcLeakSchema = z
+  .object({
+    isLeak: z.boolean().optional(),
+    localIPs: z.array(z.string()).default([]),
+    publicIPs: z.array(z.string()).default([]),
+    natType: z.enum(['host', 'srflx', 'prflx', 'relay', 'unknown']).optional(),
+    mdnsLeak: z.boolean().optional(),
+    ipv6Leak: z.boolean().optional(),
+    candidates: z
+      .array(
+        z.object({
+          ip: z.string(),
+          type: z.string(),
+        })
+      )
+      .optional(),
+  })
+  .passthrough()
+  .nullish();
+
+const fingerprintSchema = z
+  .object({
+    canvasHash: z.string().optional(),
+    webglHash: z.string().optional(),
+    audioHash: z.string().optional(),
+    fontHash: z.string().optional(),
+    uniquenessScore: z.number().optional(),
+  })
+  .nullish();
+
+const browserConfigSchema = z
+  .object({
+    doNotTrack: z.boolean().optional(),
+    globalPrivacyControl: z.boolean().optional(),
+    cookiesEnabled: z.boolean().optional(),
+    thirdPartyCookiesBlocked: z.boolean().optional(),
+    adBlockEnabled: z.boolean().optional(),
+    storagePartitioned: z.boolean().optional(),
+    webrtcPolicy: z
+      .enum([
+        'default',
+        'default_public_and_private_interfaces',
+        'default_public_interface_only',
+        'disable_non_proxied_udp',
+        'disabled',
+      ])
+      .optional(),
+    permissions: z.record(z.enum(['granted', 'denied', 'prompt'])).optional(),
+    languages: z.array(z.string()).optional(),
+  })
+  .optional();
+
+const timezoneSchema = z
+  .object({
+    value: z.string().optional(),
+    intlTimezone: z.string().optional(),
+    offset: z.number().optional(),
+  })
+  .optional();
+
+const privacyScoreRequestSchema = z.object({
+  ipLeak: ipLeakSchema,
+  dnsLeak: dnsLeakSchema,
+  webrtcLeak: webrtcLeakSchema,
+  fingerprint: fingerprintSchema,
+  browserConfig: browserConfigSchema,
+  timezone: timezoneSchema,
+  policy: z.string().optional(),
+});
+
+// Adapters report 'unknown' (Node) or '0.0.0.0' (Worker) when the client address is missing
+const clientIPSchema = z
+  .string()
+  .ip({ version: 'v4' })
+  .or(z.string().ip({ version: 'v6' }));
+
+/**
+ * Report the score to the live telemetry feed once the response is out
+ */
+function captureScore(
+  request: CoreRequest,
+  deps: CoreDeps,
+  data: { ipLeak?: IPLeakResult; dnsLeak?: DNSLeakResult; webrtcLeak?: WebRTCLeakResult },
+  policy: ScoringPolicy,
+  result: PrivacyScore
+) {
+  const { ipLeak, dnsLeak, webrtcLeak } = data;
+
+  request.waitUntil(
+    deps.telemetry.capture({
+      type: 'privacy-score',
+      source: 'privacy-service',
+      severity: result.riskLevel,
+      summary: `Score ${result.totalScore}/100 (${policy.name}@${policy.version})`,
+      payload: result,
+      snapshot: {
+        privacyScore: result.totalScore,
+        entropyScore: result.breakdown.fingerprintResistance,
+        leaks: {
+          webrtc: Boolean(webrtcLeak?.isLeak),
+          dns: dnsLeak?.leakType || 'none',
+          battery: false,
+          motion: false,
+        },
+        apiSurface: {
+          ip: ipLeak?.ip || 'unknown',
+        },
+        report: deps.telemetry.buildReportSnapshot({
+          privacyIndex: {
+            score: result.totalScore,
+            exposureLevel: result.riskLevel,
+            leakedBits: result.breakdown.webrtcPrivacy + result.breakdown.dnsPrivacy,
+          },
+          networkLeaks: {
+            ip: ipLeak?.ip,
+            dns: dnsLeak?.leakType,
+            webrtc: webrtcLeak?.isLeak ? 'leak' : 'sealed',
+          },
+        }),
+      },
+    })
+  );
+}
+
+/**
+ * GET /privacy-score/policies
+ * List available scoring policies
+ */
+const listPolicies = defineRoute<CoreDeps>({
+  method: 'get',
+  path: '/privacy-score/policies',
+  errorCode: 'PRIVACY_SCORE_ERROR',
+  errorMessage: 'Failed to list scoring policies',
+  async handle() {
+    return ok<ScoringPolicy[]>(Object.values(SCORING_POLICIES));
+  },
+});
+
+/**
+ * POST /privacy-score
+ * Calculate comprehensive privacy score
+ */
+const calculateScore = defineRoute<
+  CoreDeps,
+  undefined,
+  undefined,
+  typeof privacyScoreRequestSchema
+>({
+  method: 'post',
+  path: '/privacy-score',
+  body: privacyScoreRequestSchema,
+  errorCode: 'PRIVACY_SCORE_ERROR',
+  errorMessage: 'Failed to calculate privacy score',
+  async handle({ body, request }, deps) {
+    const policy = getScoringPolicy(body.policy);
+    if (!policy) {
+      return fail(
+        400,
+        'UNKNOWN_POLICY',
+        `Unknown scoring policy. Available: ${Object.keys(SCORING_POLICIES).join(', ')}`
+      );
+    }
+
+    const ipLeak = (body.ipLeak ?? undefined) as IPLeakResult | undefined;
+    const dnsLeak = (body.dnsLeak ?? undefined) as DNSLeakResult | undefined;
+    const webrtcLeak = (body.webrtcLeak ?? undefined) as WebRTCLeakResult | undefined;
+    const requestIp = clientIPSchema.safeParse(request.clientIP).success
+      ? request.clientIP
+      : undefined;
+
+    // Cross-check network signals against what the browser reports
+    const consistency = new ConsistencyService().analyze({
+      ipLeak,
+      timezone: body.timezone,
+      languages: body.browserConfig?.languages,
+      webrtcCandidates: body.webrtcLeak?.candidates,
+      acceptLanguage: request.header('accept-language'),
+      requestIp,
+      userAgent: request.header('user-agent'),
+      clientHints: {
+        platform: request.header('sec-ch-ua-platform'),
+        mobile: request.header('sec-ch-ua-mobile'),
+      },
+    });
+
+    // Check the scored address against the Tor exit / VPN / hosting lists;
+    // the ASN only belongs to the reported address, not the connecting one
+    const rangeIP = ipLeak?.ip ?? requestIp;
+    const rangeASN = ipLeak?.ip ? ipLeak.network?.asn : undefined;
+    const ipRanges =
+      rangeIP && deps.ip.checkRanges ? await deps.ip.checkRanges(rangeIP, rangeASN) : undefined;
+
+    const result = await new PrivacyScoreService(policy).calculate({
+      ipLeak,
+      dnsLeak,
+      webrtcLeak,
+      consistency,
+      fingerprintResult: body.fingerprint ?? undefined,
+      browserConfig: body.browserConfig,
+      ipRanges,
+    });
+
+    captureScore(request, deps, { ipLeak, dnsLeak, webrtcLeak }, policy, result);
+    return ok<PrivacyScore>(result);
+  },
+});
+
+export const privacyScoreRoutes: CoreRoute<CoreDeps>[] = [listPolicies, calculateScore];
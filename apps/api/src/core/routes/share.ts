@@ -0,0 +1,200 @@
+/**
+ * Share Link Routes
+ *
+ * Endpoints for creating and accessing shared scan reports.
+ *
+ * POST /v1/share - Create a share link
+ * GET /v1/share/:code - Get shared scan by code
+ * DELETE /v1/share/:code - Delete a share link
+ * GET /v1/share/:code/stats - Get share link statistics
+ */
+
+import { z } from 'zod';
+import type { SharedScan, SharedScanResponse, ShareLinkResponse } from '@browserleaks/types';
+import { defineRoute, fail, ok, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+import { hasReachedMaxViews, isExpired } from '../../services/ShareLinkService';
+
+// Validation schemas
+const privacyScoreSchema = z.object({
+  total: z.number().min(0).max(100),
+  riskLevel: z.enum(['low', 'medium', 'high', 'critical']),
+  breakdown: z.object({
+    ipPrivacy: z.number().min(0).max(20),
+    dnsPrivacy: z.number().min(0).max(20),
+    webrtcPrivacy: z.number().min(0).max(20),
+    fingerprintResistance: z.number().min(0).max(30),
+    browserConfig: z.number().min(0).max(20),
+  }),
+});
+
+const shareScanSchema = z.object({
+  id: z.string(),
+  timestamp: z.string(),
+  privacyScore: privacyScoreSchema,
+  fingerprint: z
+    .object({
+      combinedHash: z.string(),
+      uniquenessScore: z.number().min(0).max(1),
+    })
+    .optional(),
+  ip: z
+    .object({
+      address: z.string().optional(),
+      country: z.string().optional(),
+      city: z.string().optional(),
+      privacy: z
+        .object({
+          isVpn: z.boolean().optional(),
+          isProxy: z.boolean().optional(),
+          isTor: z.boolean().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+  dns: z
+    .object({
+      isLeak: z.boolean(),
+      leakType: z.string(),
+    })
+    .optional(),
+  webrtc: z
+    .object({
+      isLeak: z.boolean(),
+    })
+    .optional(),
+  recommendations: z.array(z.string()).optional(),
+});
+
+const shareOptionsSchema = z.object({
+  expiresIn: z.number().int().min(3600).max(2_592_000).optional(), // 1 hour to 30 days
+  maxViews: z.number().int().min(1).max(1000).optional(),
+  hideIP: z.boolean().optional(),
+});
+
+const createShareSchema = z.object({
+  scan: shareScanSchema,
+  options: shareOptionsSchema.optional(),
+});
+
+const codeParamsSchema = z.object({
+  code: z.string().min(1),
+});
+
+/**
+ * POST /share
+ * Create a share link for a scan
+ */
+const createShare = defineRoute<CoreDeps, undefined, undefined, typeof createShareSchema>({
+  method: 'post',
+  path: '/',
+  body: createShareSchema,
+  errorCode: 'SHARE_CREATE_ERROR',
+  errorMessage: 'Failed to create share link',
+  async handle({ body }, deps) {
+    const link = await deps.shareLinks.create(body.scan as SharedScan, body.options);
+
+    return ok<ShareLinkResponse>(
+      {
+        code: link.code,
+        url: `${deps.frontendUrl}/share/${link.code}`,
+        expiresAt: link.expiresAt,
+        maxViews: link.maxViews,
+      },
+      201
+    );
+  },
+});
+
+/**
+ * GET /share/:code
+ * Get shared scan by code
+ */
+const getShare = defineRoute<CoreDeps, typeof codeParamsSchema>({
+  method: 'get',
+  path: '/:code',
+  params: codeParamsSchema,
+  errorCode: 'SHARE_FETCH_ERROR',
+  errorMessage: 'Failed to fetch shared scan',
+  async handle({ params }, deps) {
+    const view = await deps.shareLinks.view(params.code);
+
+    switch (view.status) {
+      case 'not_found':
+        return fail(404, 'SHARE_NOT_FOUND', 'Share link not found or has been deleted');
+      case 'expired':
+        return fail(410, 'SHARE_EXPIRED', 'This share link has expired');
+      case 'max_views':
+        return fail(
+          410,
+          'SHARE_MAX_VIEWS',
+          'This share link has reached its maximum number of views'
+        );
+    }
+
+    const { link } = view;
+
+    return ok<SharedScanResponse>({
+      scan: link.scan,
+      createdAt: link.createdAt,
+      viewCount: link.viewCount,
+      remainingViews: link.maxViews ? link.maxViews - link.viewCount : null,
+      expiresAt: link.expiresAt,
+    });
+  },
+});
+
+/**
+ * DELETE /share/:code
+ * Delete a share link
+ */
+const deleteShare = defineRoute<CoreDeps, typeof codeParamsSchema>({
+  method: 'delete',
+  path: '/:code',
+  params: codeParamsSchema,
+  errorCode: 'SHARE_DELETE_ERROR',
+  errorMessage: 'Failed to delete share link',
+  async handle({ params }, deps) {
+    if (!(await deps.shareLinks.delete(params.code))) {
+      return fail(404, 'SHARE_NOT_FOUND', 'Share link not found');
+    }
+
+    return ok({ message: 'Share link deleted' });
+  },
+});
+
+/**
+ * GET /share/:code/stats
+ * Get share link statistics
+ */
+const getShareStats = defineRoute<CoreDeps, typeof codeParamsSchema>({
+  method: 'get',
+  path: '/:code/stats',
+  params: codeParamsSchema,
+  errorCode: 'SHARE_STATS_ERROR',
+  errorMessage: 'Failed to get share statistics',
+  async handle({ params }, deps) {
+    const link = await deps.shareLinks.get(params.code);
+
+    if (!link) {
+      return fail(404, 'SHARE_NOT_FOUND', 'Share link not found');
+    }
+
+    return ok({
+      code: link.code,
+      createdAt: link.createdAt,
+      expiresAt: link.expiresAt,
+      viewCount: link.viewCount,
+      maxViews: link.maxViews,
+      isExpired: isExpired(link),
+      isMaxViews: hasReachedMaxViews(link),
+    });
+  },
+});
+
+export const shareRoutes: CoreRoute<CoreDeps>[] = [
+  createShare,
+  getShare,
+  deleteShare,
+  getShareStats,
+];
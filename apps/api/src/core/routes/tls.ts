@@ -0,0 +1,63 @@
+/**
+ * TLS Fingerprint Routes
+ *
+ * GET /v1/tls/fingerprint - JA3 / JA3N / JA4 of the requesting client
+ */
+
+import type { TLSFingerprintResult } from '@browserleaks/types';
+import { defineRoute, fail, ok, type CoreRequest, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+
+/**
+ * ClientHello captured on this connection, or forwarded by a trusted TLS proxy
+ */
+function findClientHello(request: CoreRequest, deps: CoreDeps): Uint8Array | undefined {
+  if (request.connection.clientHello) return request.connection.clientHello;
+
+  const forwarded = deps.tlsClientHelloHeader
+    ? request.header(deps.tlsClientHelloHeader)
+    : undefined;
+  return forwarded ? Uint8Array.from(atob(forwarded), (char) => char.charCodeAt(0)) : undefined;
+}
+
+/**
+ * GET /tls/fingerprint
+ * Fingerprints the raw ClientHello where one is available; otherwise falls
+ * back to the hashes Cloudflare Bot Management computes at the edge
+ */
+const fingerprintTLS = defineRoute<CoreDeps>({
+  method: 'get',
+  path: '/tls/fingerprint',
+  errorCode: 'TLS_FINGERPRINT_ERROR',
+  errorMessage: 'Failed to fingerprint TLS',
+  async handle({ request }, deps) {
+    const userAgent = request.header('user-agent');
+
+    try {
+      const clientHello = findClientHello(request, deps);
+      if (clientHello) {
+        return ok<TLSFingerprintResult>(deps.tls.fromClientHello(clientHello, userAgent));
+      }
+    } catch (error) {
+      // A malformed or truncated ClientHello, or a forwarded header that is not base64
+      return fail(
+        400,
+        'INVALID_CLIENT_HELLO',
+        error instanceof Error ? error.message : 'Failed to parse ClientHello'
+      );
+    }
+
+    const { ja3Hash, ja4 } = request.connection.edgeTLS ?? {};
+    if (!ja3Hash && !ja4) {
+      return fail(
+        503,
+        'TLS_CAPTURE_UNAVAILABLE',
+        'No ClientHello or edge TLS fingerprint is available for this request'
+      );
+    }
+
+    return ok<TLSFingerprintResult>(deps.tls.fromEdgeMetadata({ ja3Hash, ja4 }, userAgent));
+  },
+});
+
+export const tlsRoutes: CoreRoute<CoreDeps>[] = [fingerprintTLS];
@@ -0,0 +1,110 @@
+/**
+ * WebRTC Leak Detection Routes
+ *
+ * POST /v1/detect/webrtc-leak - Analyze WebRTC leak test results
+ */
+
+import { z } from 'zod';
+import type { WebRTCLeakResult } from '@browserleaks/types';
+import { defineRoute, ok, type CoreRequest, type CoreRoute } from '../http';
+import type { CoreDeps } from '../deps';
+
+// An IP, or the mDNS hostname (<uuid>.local) browsers put in place of a local IP
+const candidateAddressSchema = z.string().min(1).max(255);
+
+// Validation schema
+const webrtcRequestSchema = z.object({
+  publicIp: z
+    .string()
+    .ip({ version: 'v4' })
+    .or(z.string().ip({ version: 'v6' }))
+    .optional(),
+  localIPs: z.array(candidateAddressSchema).default([]),
+  candidates: z
+    .array(
+      z.object({
+        ip: candidateAddressSchema,
+        type: z.string(),
+        server: z.string().optional(),
+        country: z.string().optional(),
+        countryCode: z.string().optional(),
+      })
+    )
+    .default([]),
+});
+
+/**
+ * Report the analysis to the live telemetry feed once the response is out
+ */
+function captureLeak(
+  request: CoreRequest,
+  deps: CoreDeps,
+  targetIP: string,
+  result: WebRTCLeakResult
+) {
+  const severity = result.isLeak ? 'high' : 'low';
+  const penalty = result.isLeak ? 55 : 10;
+
+  request.waitUntil(
+    deps.telemetry.capture({
+      type: 'webrtc-leak',
+      source: 'webrtc-service',
+      severity,
+      summary: result.isLeak
+        ? `Leak via ${result.localIPs[0] || 'local interface'}`
+        : 'No local leak detected',
+      payload: result,
+      snapshot: {
+        privacyScore: Math.max(0, 100 - penalty),
+        entropyScore: result.stunResults.length * 12,
+        leaks: {
+          webrtc: result.isLeak,
+          dns: 'none',
+          battery: false,
+          motion: false,
+        },
+        apiSurface: {
+          WebRTC: result.isLeak ? 'leaking' : 'sealed',
+        },
+        report: deps.telemetry.buildReportSnapshot({
+          meta: { scanId: `webrtc-${targetIP}`, time: Date.now() },
+          privacyIndex: {
+            score: Math.max(0, 100 - penalty),
+            exposureLevel: severity,
+            leakedBits: result.isLeak ? 64 : 4,
+          },
+          networkLeaks: {
+            webrtc: result.isLeak ? result.localIPs.join(', ') : 'sealed',
+            ip: targetIP,
+          },
+        }),
+      },
+    })
+  );
+}
+
+/**
+ * POST /detect/webrtc-leak
+ * Analyze WebRTC leak test results
+ */
+const detectLeak = defineRoute<CoreDeps, undefined, undefined, typeof webrtcRequestSchema>({
+  method: 'post',
+  path: '/detect/webrtc-leak',
+  body: webrtcRequestSchema,
+  errorCode: 'WEBRTC_LEAK_DETECTION_ERROR',
+  errorMessage: 'Failed to analyze WebRTC leak',
+  async handle({ body, request }, deps) {
+    const targetIP = body.publicIp || request.clientIP;
+    const candidates = body.candidates.map((candidate) => ({
+      ...candidate,
+      server: candidate.server || 'unknown',
+    }));
+
+    const result = await deps.webrtc.analyze(targetIP, body.localIPs, candidates);
+
+    captureLeak(request, deps, targetIP, result);
+    return ok<WebRTCLeakResult>(result);
+  },
+});
+
+export const webrtcRoutes: CoreRoute<CoreDeps>[] = [detectLeak];
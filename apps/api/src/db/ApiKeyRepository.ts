@@ -0,0 +1,192 @@
+import type { D1Database } from '@cloudflare/workers-types';
+import type { ApiKeyInfo, ApiKeyTier, EndpointGroup } from '@browserleaks/types';
+
+export interface ApiKeyRecord extends ApiKeyInfo {
+  keyHash: string;
+}
+
+export interface ApiKeyStore {
+  create(record: ApiKeyRecord): Promise<void>;
+  findById(id: string): Promise<ApiKeyRecord | null>;
+  findByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+  list(): Promise<ApiKeyRecord[]>;
+  replaceKey(id: string, keyHash: string, prefix: string, rotatedAt: string): Promise<void>;
+  revoke(id: string, revokedAt: string): Promise<void>;
+  touch(id: string, usedAt: string): Promise<void>;
+  /**
+   * Add one request to the counter and return the new count
+   */
+  incrementUsage(keyId: string, period: string, group: EndpointGroup): Promise<number>;
+  getUsage(keyId: string, period: string): Promise<Partial<Record<EndpointGroup, number>>>;
+}
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  tier: ApiKeyTier;
+  key_prefix: string;
+  key_hash: string;
+  created_at: string;
+  last_used_at: string | null;
+  rotated_at: string | null;
+  revoked_at: string | null;
+}
+
+const API_KEY_COLUMNS =
+  'id, name, tier, key_prefix, key_hash, created_at, last_used_at, rotated_at, revoked_at';
+
+function toRecord(row: ApiKeyRow): ApiKeyRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    tier: row.tier,
+    prefix: row.key_prefix,
+    keyHash: row.key_hash,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    rotatedAt: row.rotated_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+export class D1ApiKeyRepository implements ApiKeyStore {
+  constructor(private db: D1Database) {}
+
+  async create(record: ApiKeyRecord): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO api_keys (id, name, tier, key_prefix, key_hash, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .bind(record.id, record.name, record.tier, record.prefix, record.keyHash, record.createdAt)
+      .run();
+  }
+
+  async findById(id: string): Promise<ApiKeyRecord | null> {
+    const row = await this.db
+      .prepare(`SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = ?`)
+      .bind(id)
+      .first<ApiKeyRow>();
+    return row ? toRecord(row) : null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const row = await this.db
+      .prepare(`SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE key_hash = ?`)
+      .bind(keyHash)
+      .first<ApiKeyRow>();
+    return row ? toRecord(row) : null;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    const result = await this.db
+      .prepare(`SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY created_at`)
+      .all<ApiKeyRow>();
+    return (result.results || []).map(toRecord);
+  }
+
+  async replaceKey(id: string, keyHash: string, prefix: string, rotatedAt: string): Promise<void> {
+    await this.db
+      .prepare('UPDATE api_keys SET key_hash = ?, key_prefix = ?, rotated_at = ? WHERE id = ?')
+      .bind(keyHash, prefix, rotatedAt, id)
+      .run();
+  }
+
+  async revoke(id: string, revokedAt: string): Promise<void> {
+    await this.db
+      .prepare('UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+      .bind(revokedAt, id)
+      .run();
+  }
+
+  async touch(id: string, usedAt: string): Promise<void> {
+    await this.db
+      .prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?')
+      .bind(usedAt, id)
+      .run();
+  }
+
+  async incrementUsage(keyId: string, period: string, group: EndpointGroup): Promise<number> {
+    const row = await this.db
+      .prepare(
+        `INSERT INTO api_key_usage (key_id, period, endpoint_group, count)
+         VALUES (?, ?, ?, 1)
+         ON CONFLICT (key_id, period, endpoint_group) DO UPDATE SET count = count + 1
+         RETURNING count`
+      )
+      .bind(keyId, period, group)
+      .first<{ count: number }>();
+    return row?.count ?? 1;
+  }
+
+  async getUsage(keyId: string, period: string): Promise<Partial<Record<EndpointGroup, number>>> {
+    const result = await this.db
+      .prepare(
+        `SELECT endpoint_group, count FROM api_key_usage
+         WHERE key_id = ? AND period = ?`
+      )
+      .bind(keyId, period)
+      .all<{ endpoint_group: EndpointGroup; count: number }>();
+
+    return Object.fromEntries(
+      (result.results || []).map((row) => [row.endpoint_group, row.count])
+    ) as Partial<Record<EndpointGroup, number>>;
+  }
+}
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryApiKeyRepository implements ApiKeyStore {
+  private keys = new Map<string, ApiKeyRecord>();
+  private usage = new Map<string, number>();
+
+  async create(record: ApiKeyRecord): Promise<void> {
+    this.keys.set(record.id, { ...record });
+  }
+
+  async findById(id: string): Promise<ApiKeyRecord | null> {
+    const record = this.keys.get(id);
+    return record ? { ...record } : null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const record = [...this.keys.values()].find((key) => key.keyHash === keyHash);
+    return record ? { ...record } : null;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    return [...this.keys.values()].map((record) => ({ ...record }));
+  }
+
+  async replaceKey(id: string, keyHash: string, prefix: string, rotatedAt: string): Promise<void> {
+    const record = this.keys.get(id);
+    if (record) Object.assign(record, { keyHash, prefix, rotatedAt });
+  }
+
+  async revoke(id: string, revokedAt: string): Promise<void> {
+    const record = this.keys.get(id);
+    if (record && !record.revokedAt) record.revokedAt = revokedAt;
+  }
+
+  async touch(id: string, usedAt: string): Promise<void> {
+    const record = this.keys.get(id);
+    if (record) record.lastUsedAt = usedAt;
+  }
+
+  async incrementUsage(keyId: string, period: string, group: EndpointGroup): Promise<number> {
+    const counter = `${keyId}:${period}:${group}`;
+    const count = (this.usage.get(counter) ?? 0) + 1;
+    this.usage.set(counter, count);
+    return count;
+  }
+
+  async getUsage(keyId: string, period: string): Promise<Partial<Record<EndpointGroup, number>>> {
+    const prefix = `${keyId}:${period}:`;
+    return Object.fromEntries(
+      [...this.usage]
+        .filter(([counter]) => counter.startsWith(prefix))
+        .map(([counter, count]) => [counter.slice(prefix.length), count])
+    ) as Partial<Record<EndpointGroup, number>>;
+  }
+}
@@ -0,0 +1,131 @@
+import type { D1Database } from '@cloudflare/workers-types';
+
+export interface DNSLeakTestRecord {
+  id: string;
+  clientIp: string;
+  probeCount: number;
+  createdAt: string; // ISO 8601
+  expiresAt: string; // ISO 8601
+}
+
+/**
+ * One query for a probe hostname as seen by the authoritative nameserver
+ */
+export interface ResolverObservation {
+  testId: string;
+  probe: string;
+  resolverIp: string;
+  observedAt: string; // ISO 8601
+}
+
+export interface DNSLeakStore {
+  createTest(test: DNSLeakTestRecord): Promise<void>;
+  getTest(testId: string): Promise<DNSLeakTestRecord | null>;
+  recordObservation(observation: ResolverObservation): Promise<void>;
+  listObservations(testId: string): Promise<ResolverObservation[]>;
+}
+
+interface DNSLeakTestRow {
+  id: string;
+  client_ip: string;
+  probe_count: number;
+  created_at: string;
+  expires_at: string;
+}
+
+interface ResolverObservationRow {
+  test_id: string;
+  probe: string;
+  resolver_ip: string;
+  observed_at: string;
+}
+
+export class D1DNSLeakRepository implements DNSLeakStore {
+  constructor(private db: D1Database) {}
+
+  async createTest(test: DNSLeakTestRecord): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO dns_leak_tests (id, client_ip, probe_count, created_at, expires_at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .bind(test.id, test.clientIp, test.probeCount, test.createdAt, test.expiresAt)
+      .run();
+  }
+
+  async getTest(testId: string): Promise<DNSLeakTestRecord | null> {
+    const row = await this.db
+      .prepare(
+        `SELECT id, client_ip, probe_count, created_at, expires_at
+         FROM dns_leak_tests
+         WHERE id = ?`
+      )
+      .bind(testId)
+      .first<DNSLeakTestRow>();
+
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      clientIp: row.client_ip,
+      probeCount: row.probe_count,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+    };
+  }
+
+  async recordObservation(observation: ResolverObservation): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO dns_resolver_observations (test_id, probe, resolver_ip, observed_at)
+         VALUES (?, ?, ?, ?)`
+      )
+      .bind(observation.testId, observation.probe, observation.resolverIp, observation.observedAt)
+      .run();
+  }
+
+  async listObservations(testId: string): Promise<ResolverObservation[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT test_id, probe, resolver_ip, observed_at
+         FROM dns_resolver_observations
+         WHERE test_id = ?
+         ORDER BY observed_at`
+      )
+      .bind(testId)
+      .all<ResolverObservationRow>();
+
+    return (result.results || []).map((row) => ({
+      testId: row.test_id,
+      probe: row.probe,
+      resolverIp: row.resolver_ip,
+      observedAt: row.observed_at,
+    }));
+  }
+}
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryDNSLeakRepository implements DNSLeakStore {
+  private tests = new Map<string, DNSLeakTestRecord>();
+  private observations = new Map<string, ResolverObservation[]>();
+
+  async createTest(test: DNSLeakTestRecord): Promise<void> {
+    this.tests.set(test.id, test);
+  }
+
+  async getTest(testId: string): Promise<DNSLeakTestRecord | null> {
+    return this.tests.get(testId) ?? null;
+  }
+
+  async recordObservation(observation: ResolverObservation): Promise<void> {
+    const existing = this.observations.get(observation.testId) ?? [];
+    existing.push(observation);
+    this.observations.set(observation.testId, existing);
+  }
+
+  async listObservations(testId: string): Promise<ResolverObservation[]> {
+    return [...(this.observations.get(testId) ?? [])];
+  }
+}
@@ -0,0 +1,281 @@
+import type { D1Database } from '@cloudflare/workers-types';
+
+/**
+ * Row key under which the number of distinct fingerprints is tracked
+ */
+export const ALL_COMPONENTS = '_all';
+
+export interface ComponentObservation {
+  component: string;
+  valueHash: string;
+}
+
+export interface ComponentFrequency extends ComponentObservation {
+  count: number;
+  sampleSize: number;
+}
+
+/**
+ * High-entropy components used to pre-select match candidates
+ */
+export const BLOCKING_COMPONENTS = ['canvas', 'webgl', 'audio', 'fonts'] as const;
+
+export interface KnownFingerprint {
+  hash: string;
+  componentHashes: Record<string, string>;
+  seenCount: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+/**
+ * Population store backing fingerprint entropy.
+ * A fingerprint only contributes to the counts the first time its combined hash is seen,
+ * so repeated submissions of the same browser do not skew the frequencies.
+ */
+export interface FingerprintFrequencyStore {
+  /**
+   * Record a fingerprint; resolves to false when the combined hash was already known
+   */
+  recordFingerprint(combinedHash: string, observations: ComponentObservation[]): Promise<boolean>;
+  getFrequencies(observations: ComponentObservation[]): Promise<ComponentFrequency[]>;
+  getSampleSize(): Promise<number>;
+  /**
+   * Previously seen fingerprints sharing at least one blocking component value
+   */
+  findCandidates(observations: ComponentObservation[], limit: number): Promise<KnownFingerprint[]>;
+  getFingerprint(combinedHash: string): Promise<KnownFingerprint | null>;
+}
+
+interface SharedFingerprintRow {
+  hash: string;
+  component_hashes: string | null;
+  seen_count: number;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+export class D1FingerprintFrequencyRepository implements FingerprintFrequencyStore {
+  constructor(private db: D1Database) {}
+
+  async recordFingerprint(
+    combinedHash: string,
+    observations: ComponentObservation[]
+  ): Promise<boolean> {
+    const valueOf = (component: string) =>
+      observations.find((o) => o.component === component)?.valueHash ?? null;
+
+    // The batch runs as one transaction, so only the submission that inserted the
+    // row sees seen_count = 1; concurrent repeats just bump seen_count
+    const insertedHere = 'WHERE (SELECT seen_count FROM shared_fingerprints WHERE hash = ?) = 1';
+
+    const statements = [
+      this.db
+        .prepare(
+          `INSERT INTO shared_fingerprints (id, hash, canvas_hash, webgl_hash, audio_hash, font_hash, component_hashes)
+           VALUES (?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(hash)
+           DO UPDATE SET seen_count = seen_count + 1, last_seen_at = datetime('now')
+           RETURNING seen_count`
+        )
+        .bind(
+          crypto.randomUUID(),
+          combinedHash,
+          valueOf('canvas'),
+          valueOf('webgl'),
+          valueOf('audio'),
+          valueOf('fonts'),
+          JSON.stringify(toComponentHashes(observations))
+        ),
+      ...observations.map(({ component, valueHash }) =>
+        this.db
+          .prepare(
+            `INSERT INTO fingerprint_component_values (component, value_hash, seen_count)
+             SELECT ?, ?, 1 ${insertedHere}
+             ON CONFLICT(component, value_hash)
+             DO UPDATE SET seen_count = seen_count + 1, last_seen_at = datetime('now')`
+          )
+          .bind(component, valueHash, combinedHash)
+      ),
+      ...[ALL_COMPONENTS, ...observations.map((o) => o.component)].map((component) =>
+        this.db
+          .prepare(
+            `INSERT INTO fingerprint_component_totals (component, sample_size)
+             SELECT ?, 1 ${insertedHere}
+             ON CONFLICT(component)
+             DO UPDATE SET sample_size = sample_size + 1, updated_at = datetime('now')`
+          )
+          .bind(component, combinedHash)
+      ),
+    ];
+
+    const [recorded] = await this.db.batch<{ seen_count: number }>(statements);
+    return recorded?.results?.[0]?.seen_count === 1;
+  }
+
+  async getFrequencies(observations: ComponentObservation[]): Promise<ComponentFrequency[]> {
+    if (observations.length === 0) return [];
+
+    const results = await this.db.batch<{ seen_count: number | null; sample_size: number | null }>(
+      observations.map(({ component, valueHash }) =>
+        this.db
+          .prepare(
+            `SELECT
+               (SELECT seen_count FROM fingerprint_component_values WHERE component = ?1 AND value_hash = ?2) AS seen_count,
+               (SELECT sample_size FROM fingerprint_component_totals WHERE component = ?1) AS sample_size`
+          )
+          .bind(component, valueHash)
+      )
+    );
+
+    return observations.map((observation, idx) => {
+      const row = results[idx]?.results?.[0];
+      return {
+        ...observation,
+        count: row?.seen_count ?? 0,
+        sampleSize: row?.sample_size ?? 0,
+      };
+    });
+  }
+
+  async getSampleSize(): Promise<number> {
+    const row = await this.db
+      .prepare('SELECT sample_size FROM fingerprint_component_totals WHERE component = ?')
+      .bind(ALL_COMPONENTS)
+      .first<{ sample_size: number }>();
+
+    return row?.sample_size ?? 0;
+  }
+
+  async findCandidates(
+    observations: ComponentObservation[],
+    limit: number
+  ): Promise<KnownFingerprint[]> {
+    const columns: Record<(typeof BLOCKING_COMPONENTS)[number], string> = {
+      canvas: 'canvas_hash',
+      webgl: 'webgl_hash',
+      audio: 'audio_hash',
+      fonts: 'font_hash',
+    };
+
+    const conditions = BLOCKING_COMPONENTS.flatMap((component) => {
+      const observation = observations.find((o) => o.component === component);
+      return observation ? [{ column: columns[component], valueHash: observation.valueHash }] : [];
+    });
+
+    if (conditions.length === 0) return [];
+
+    const result = await this.db
+      .prepare(
+        `SELECT hash, component_hashes, seen_count, first_seen_at, last_seen_at
+         FROM shared_fingerprints
+         WHERE ${conditions.map(({ column }) => `${column} = ?`).join(' OR ')}
+         ORDER BY last_seen_at DESC
+         LIMIT ?`
+      )
+      .bind(...conditions.map(({ valueHash }) => valueHash), limit)
+      .all<SharedFingerprintRow>();
+
+    return (result.results || []).map(toKnownFingerprint);
+  }
+
+  async getFingerprint(combinedHash: string): Promise<KnownFingerprint | null> {
+    const row = await this.db
+      .prepare(
+        `SELECT hash, component_hashes, seen_count, first_seen_at, last_seen_at
+         FROM shared_fingerprints WHERE hash = ?`
+      )
+      .bind(combinedHash)
+      .first<SharedFingerprintRow>();
+
+    return row ? toKnownFingerprint(row) : null;
+  }
+}
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryFingerprintFrequencyRepository implements FingerprintFrequencyStore {
+  private fingerprints = new Map<string, KnownFingerprint>();
+  private values = new Map<string, number>();
+  private totals = new Map<string, number>();
+
+  async recordFingerprint(
+    combinedHash: string,
+    observations: ComponentObservation[]
+  ): Promise<boolean> {
+    const now = new Date().toISOString();
+    const existing = this.fingerprints.get(combinedHash);
+
+    if (existing) {
+      existing.seenCount += 1;
+      existing.lastSeen = now;
+      return false;
+    }
+
+    this.fingerprints.set(combinedHash, {
+      hash: combinedHash,
+      componentHashes: toComponentHashes(observations),
+      seenCount: 1,
+      firstSeen: now,
+      lastSeen: now,
+    });
+    this.increment(this.totals, ALL_COMPONENTS);
+    for (const { component, valueHash } of observations) {
+      this.increment(this.values, `${component}:${valueHash}`);
+      this.increment(this.totals, component);
+    }
+
+    return true;
+  }
+
+  async getFrequencies(observations: ComponentObservation[]): Promise<ComponentFrequency[]> {
+    return observations.map((observation) => ({
+      ...observation,
+      count: this.values.get(`${observation.component}:${observation.valueHash}`) ?? 0,
+      sampleSize: this.totals.get(observation.component) ?? 0,
+    }));
+  }
+
+  async getSampleSize(): Promise<number> {
+    return this.totals.get(ALL_COMPONENTS) ?? 0;
+  }
+
+  async findCandidates(
+    observations: ComponentObservation[],
+    limit: number
+  ): Promise<KnownFingerprint[]> {
+    const blocking = observations.filter((o) =>
+      (BLOCKING_COMPONENTS as readonly string[]).includes(o.component)
+    );
+
+    return Array.from(this.fingerprints.values())
+      .filter((known) => blocking.some((o) => known.componentHashes[o.component] === o.valueHash))
+      .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen))
+      .slice(0, limit)
+      .map((known) => ({ ...known }));
+  }
+
+  async getFingerprint(combinedHash: string): Promise<KnownFingerprint | null> {
+    const known = this.fingerprints.get(combinedHash);
+    return known ? { ...known } : null;
+  }
+
+  private increment(map: Map<string, number>, key: string) {
+    map.set(key, (map.get(key) ?? 0) + 1);
+  }
+}
+
+function toComponentHashes(observations: ComponentObservation[]): Record<string, string> {
+  return Object.fromEntries(observations.map(({ component, valueHash }) => [component, valueHash]));
+}
+
+function toKnownFingerprint(row: SharedFingerprintRow): KnownFingerprint {
+  return {
+    hash: row.hash,
+    componentHashes: JSON.parse(row.component_hashes || '{}') as Record<string, string>,
+    seenCount: row.seen_count,
+    firstSeen: row.first_seen_at,
+    lastSeen: row.last_seen_at,
+  };
+}
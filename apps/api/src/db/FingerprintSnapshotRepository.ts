@@ -0,0 +1,110 @@
+import type { D1Database } from '@cloudflare/workers-types';
+
+/**
+ * Snapshots kept per visitor; older ones are pruned on save
+ */
+export const MAX_SNAPSHOTS_PER_VISITOR = 50;
+
+export interface FingerprintSnapshot {
+  id: string;
+  visitorId: string;
+  fingerprintId: string | null;
+  componentHashes: Record<string, string>;
+  createdAt: string; // ISO 8601
+}
+
+export interface FingerprintSnapshotStore {
+  save(snapshot: FingerprintSnapshot, fingerprint: unknown): Promise<void>;
+  /**
+   * Most recent snapshots for a visitor, ordered oldest first
+   */
+  listByVisitor(visitorId: string, limit?: number): Promise<FingerprintSnapshot[]>;
+}
+
+interface FingerprintSnapshotRow {
+  id: string;
+  visitor_id: string;
+  fingerprint_id: string | null;
+  component_hashes: string;
+  created_at: string;
+}
+
+export class D1FingerprintSnapshotRepository implements FingerprintSnapshotStore {
+  constructor(private db: D1Database) {}
+
+  async save(snapshot: FingerprintSnapshot, fingerprint: unknown): Promise<void> {
+    await this.db.batch([
+      this.db
+        .prepare(
+          `INSERT INTO fingerprint_snapshots (id, visitor_id, fingerprint_id, component_hashes, fingerprint, created_at)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          snapshot.id,
+          snapshot.visitorId,
+          snapshot.fingerprintId,
+          JSON.stringify(snapshot.componentHashes),
+          JSON.stringify(fingerprint),
+          snapshot.createdAt
+        ),
+      this.db
+        .prepare(
+          `DELETE FROM fingerprint_snapshots
+           WHERE visitor_id = ? AND id NOT IN (
+             SELECT id FROM fingerprint_snapshots
+             WHERE visitor_id = ?
+             ORDER BY created_at DESC
+             LIMIT ?
+           )`
+        )
+        .bind(snapshot.visitorId, snapshot.visitorId, MAX_SNAPSHOTS_PER_VISITOR),
+    ]);
+  }
+
+  async listByVisitor(
+    visitorId: string,
+    limit = MAX_SNAPSHOTS_PER_VISITOR
+  ): Promise<FingerprintSnapshot[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT id, visitor_id, fingerprint_id, component_hashes, created_at
+         FROM fingerprint_snapshots
+         WHERE visitor_id = ?
+         ORDER BY created_at DESC
+         LIMIT ?`
+      )
+      .bind(visitorId, limit)
+      .all<FingerprintSnapshotRow>();
+
+    return (result.results || [])
+      .map((row) => ({
+        id: row.id,
+        visitorId: row.visitor_id,
+        fingerprintId: row.fingerprint_id,
+        componentHashes: JSON.parse(row.component_hashes) as Record<string, string>,
+        createdAt: row.created_at,
+      }))
+      .reverse();
+  }
+}
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryFingerprintSnapshotRepository implements FingerprintSnapshotStore {
+  private snapshots = new Map<string, FingerprintSnapshot[]>();
+
+  async save(snapshot: FingerprintSnapshot): Promise<void> {
+    const existing = this.snapshots.get(snapshot.visitorId) ?? [];
+    existing.push(snapshot);
+    existing.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    this.snapshots.set(snapshot.visitorId, existing.slice(-MAX_SNAPSHOTS_PER_VISITOR));
+  }
+
+  async listByVisitor(
+    visitorId: string,
+    limit = MAX_SNAPSHOTS_PER_VISITOR
+  ): Promise<FingerprintSnapshot[]> {
+    return (this.snapshots.get(visitorId) ?? []).slice(-limit);
+  }
+}
@@ -0,0 +1,44 @@
+import type { KVNamespace } from '@cloudflare/workers-types';
+import type { IPLeakResult } from '@browserleaks/types';
+
+export interface IPCacheStore {
+  get(ip: string): Promise<IPLeakResult | null>;
+  put(ip: string, result: IPLeakResult, ttlSeconds: number): Promise<void>;
+}
+
+// Versioned so results cached before reconciliation carried provenance are never served
+const keyFor = (ip: string) => `ip:v2:${ip}`;
+
+export class KVIPCacheRepository implements IPCacheStore {
+  constructor(private kv: KVNamespace) {}
+
+  async get(ip: string): Promise<IPLeakResult | null> {
+    return this.kv.get<IPLeakResult>(keyFor(ip), { type: 'json' });
+  }
+
+  async put(ip: string, result: IPLeakResult, ttlSeconds: number): Promise<void> {
+    await this.kv.put(keyFor(ip), JSON.stringify(result), { expirationTtl: ttlSeconds });
+  }
+}
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryIPCacheRepository implements IPCacheStore {
+  private entries = new Map<string, { result: IPLeakResult; expiresAt: number }>();
+
+  async get(ip: string): Promise<IPLeakResult | null> {
+    const entry = this.entries.get(keyFor(ip));
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(keyFor(ip));
+      return null;
+    }
+    return entry.result;
+  }
+
+  async put(ip: string, result: IPLeakResult, ttlSeconds: number): Promise<void> {
+    this.entries.set(keyFor(ip), { result, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+}
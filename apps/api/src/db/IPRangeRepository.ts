@@ -0,0 +1,52 @@
+import type { KVNamespace } from '@cloudflare/workers-types';
+import type { IPRangeCategory } from '@browserleaks/types';
+
+/**
+ * One detection list as last fetched by the refresh job
+ */
+export interface StoredIPRangeList {
+  name: string;
+  category: IPRangeCategory;
+  source: string; // URL the CIDRs came from, or "static" for ASN-only lists
+  cidrs: string[];
+  asns: string[]; // e.g. AS24940
+  updatedAt: string; // ISO 8601
+}
+
+export interface IPRangeStore {
+  listAll(): Promise<StoredIPRangeList[]>;
+  put(list: StoredIPRangeList): Promise<void>;
+}
+
+const KEY_PREFIX = 'ip-ranges:';
+
+export class KVIPRangeRepository implements IPRangeStore {
+  constructor(private kv: KVNamespace) {}
+
+  async listAll(): Promise<StoredIPRangeList[]> {
+    const { keys } = await this.kv.list({ prefix: KEY_PREFIX });
+    const lists = await Promise.all(
+      keys.map((key) => this.kv.get<StoredIPRangeList>(key.name, { type: 'json' }))
+    );
+    return lists.filter((list): list is StoredIPRangeList => list !== null);
+  }
+
+  async put(list: StoredIPRangeList): Promise<void> {
+    await this.kv.put(`${KEY_PREFIX}${list.name}`, JSON.stringify(list));
+  }
+}
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryIPRangeRepository implements IPRangeStore {
+  private lists = new Map<string, StoredIPRangeList>();
+
+  async listAll(): Promise<StoredIPRangeList[]> {
+    return [...this.lists.values()];
+  }
+
+  async put(list: StoredIPRangeList): Promise<void> {
+    this.lists.set(list.name, list);
+  }
+}
@@ -0,0 +1,115 @@
+import type { D1Database } from '@cloudflare/workers-types';
+import type { IPv6ProbeEndpoint } from '@browserleaks/types';
+
+export interface IPv6LeakTestRecord {
+  id: string;
+  createdAt: string; // ISO 8601
+  expiresAt: string; // ISO 8601
+}
+
+/**
+ * The client address one probe endpoint saw for a test
+ */
+export interface IPv6ProbeObservation {
+  testId: string;
+  endpoint: IPv6ProbeEndpoint;
+  ip: string;
+  observedAt: string; // ISO 8601
+}
+
+export interface IPv6LeakStore {
+  createTest(test: IPv6LeakTestRecord): Promise<void>;
+  getTest(testId: string): Promise<IPv6LeakTestRecord | null>;
+  recordObservation(observation: IPv6ProbeObservation): Promise<void>;
+  listObservations(testId: string): Promise<IPv6ProbeObservation[]>;
+}
+
+interface IPv6LeakTestRow {
+  id: string;
+  created_at: string;
+  expires_at: string;
+}
+
+interface IPv6ProbeObservationRow {
+  test_id: string;
+  endpoint: IPv6ProbeEndpoint;
+  ip: string;
+  observed_at: string;
+}
+
+export class D1IPv6LeakRepository implements IPv6LeakStore {
+  constructor(private db: D1Database) {}
+
+  async createTest(test: IPv6LeakTestRecord): Promise<void> {
+    await this.db
+      .prepare(`INSERT INTO ipv6_leak_tests (id, created_at, expires_at) VALUES (?, ?, ?)`)
+      .bind(test.id, test.createdAt, test.expiresAt)
+      .run();
+  }
+
+  async getTest(testId: string): Promise<IPv6LeakTestRecord | null> {
+    const row = await this.db
+      .prepare(`SELECT id, created_at, expires_at FROM ipv6_leak_tests WHERE id = ?`)
+      .bind(testId)
+      .first<IPv6LeakTestRow>();
+
+    if (!row) return null;
+
+    return { id: row.id, createdAt: row.created_at, expiresAt: row.expires_at };
+  }
+
+  async recordObservation(observation: IPv6ProbeObservation): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO ipv6_probe_observations (test_id, endpoint, ip, observed_at)
+         VALUES (?, ?, ?, ?)`
+      )
+      .bind(observation.testId, observation.endpoint, observation.ip, observation.observedAt)
+      .run();
+  }
+
+  async listObservations(testId: string): Promise<IPv6ProbeObservation[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT test_id, endpoint, ip, observed_at
+         FROM ipv6_probe_observations
+         WHERE test_id = ?
+         ORDER BY observed_at`
+      )
+      .bind(testId)
+      .all<IPv6ProbeObservationRow>();
+
+    return (result.results || []).map((row) => ({
+      testId: row.test_id,
+      endpoint: row.endpoint,
+      ip: row.ip,
+      observedAt: row.observed_at,
+    }));
+  }
+}
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryIPv6LeakRepository implements IPv6LeakStore {
+  private tests = new Map<string, IPv6LeakTestRecord>();
+  private observations = new Map<string, IPv6ProbeObservation[]>();
+
+  async createTest(test: IPv6LeakTestRecord): Promise<void> {
+    this.tests.set(test.id, test);
+  }
+
+  async getTest(testId: string): Promise<IPv6LeakTestRecord | null> {
+    return this.tests.get(testId) ?? null;
+  }
+
+  async recordObservation(observation: IPv6ProbeObservation): Promise<void> {
+    const existing = this.observations.get(observation.testId) ?? [];
+    existing.push(observation);
+    this.observations.set(observation.testId, existing);
+  }
+
+  async listObservations(testId: string): Promise<IPv6ProbeObservation[]> {
+    return [...(this.observations.get(testId) ?? [])];
+  }
+}
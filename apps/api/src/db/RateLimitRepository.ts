@@ -0,0 +1,64 @@
+import type { DurableObjectNamespace } from '@cloudflare/workers-types';
+import {
+  takeTokens,
+  type BucketMap,
+  type TokenBucketDecision,
+  type TokenBucketPolicy,
+} from '../lib/tokenBucket';
+
+export interface RateLimitStore {
+  /**
+   * Atomically take `cost` tokens from the client's buckets; a cost of 0 only reads them
+   */
+  take(
+    key: string,
+    policies: TokenBucketPolicy[],
+    cost: number,
+    now: number
+  ): Promise<TokenBucketDecision>;
+}
+
+/**
+ * Routes every client key to its own RateLimiterObject, which applies requests one at a
+ * time, so concurrent Worker instances cannot both spend the same tokens
+ */
+export class DurableObjectRateLimitRepository implements RateLimitStore {
+  constructor(private namespace: DurableObjectNamespace) {}
+
+  async take(
+    key: string,
+    policies: TokenBucketPolicy[],
+    cost: number,
+    now: number
+  ): Promise<TokenBucketDecision> {
+    const stub = this.namespace.get(this.namespace.idFromName(key));
+    const response = await stub.fetch('https://rate-limiter/take', {
+      method: 'POST',
+      body: JSON.stringify({ policies, cost, now }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Rate limiter object responded with ${response.status}`);
+    }
+
+    return response.json<TokenBucketDecision>();
+  }
+}
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryRateLimitRepository implements RateLimitStore {
+  private buckets = new Map<string, BucketMap>();
+
+  async take(
+    key: string,
+    policies: TokenBucketPolicy[],
+    cost: number,
+    now: number
+  ): Promise<TokenBucketDecision> {
+    const result = takeTokens(this.buckets.get(key) ?? {}, policies, cost, now);
+    if (cost > 0 && result.decision.allowed) this.buckets.set(key, result.buckets);
+    return result.decision;
+  }
+}
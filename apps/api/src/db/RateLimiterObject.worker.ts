@@ -0,0 +1,46 @@
+/**
+ * Rate Limiter Durable Object
+ *
+ * One instance per client key holds that client's token buckets. The runtime
+ * delivers requests to an instance one at a time and its storage calls are
+ * input-gated, so the read-modify-write below cannot interleave.
+ */
+
+import type { DurableObject, DurableObjectState } from '@cloudflare/workers-types';
+import {
+  getIdleExpiryMs,
+  takeTokens,
+  type BucketMap,
+  type TokenBucketPolicy,
+} from '../lib/tokenBucket';
+
+const BUCKETS_KEY = 'buckets';
+
+interface TakeRequest {
+  policies: TokenBucketPolicy[];
+  cost: number;
+  now: number;
+}
+
+export class RateLimiterObject implements DurableObject {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { policies, cost, now } = (await request.json()) as TakeRequest;
+
+    const buckets = (await this.state.storage.get<BucketMap>(BUCKETS_KEY)) ?? {};
+    const result = takeTokens(buckets, policies, cost, now);
+
+    if (cost > 0 && result.decision.allowed) {
+      await this.state.storage.put(BUCKETS_KEY, result.buckets);
+      // Full buckets are the same as no state, so drop it once the client goes idle
+      await this.state.storage.setAlarm(now + getIdleExpiryMs(policies));
+    }
+
+    return Response.json(result.decision);
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
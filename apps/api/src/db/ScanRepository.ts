@@ -0,0 +1,753 @@
+import type { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import type {
+  DNSLeakResult,
+  DNSLeakServer,
+  PrivacyScoreSection,
+  ScoringPolicyRef,
+} from '@browserleaks/types';
+
+/**
+ * Scans kept per visitor; older ones are pruned on save
+ */
+export const MAX_SCANS_PER_VISITOR = 100;
+
+export interface ScanFingerprintRecord {
+  canvasHash?: string;
+  canvasWinding?: boolean;
+  webglHash?: string;
+  webglVendor?: string;
+  webglRenderer?: string;
+  audioHash?: string;
+  audioValue?: number;
+  fontHash?: string;
+  fontCount?: number;
+  fonts: string[];
+  timezone?: string;
+  timezoneOffset?: number;
+  screenWidth?: number;
+  screenHeight?: number;
+  colorDepth?: number;
+  devicePixelRatio?: number;
+  platform?: string;
+  language?: string;
+  languages: string[];
+  hardwareConcurrency?: number;
+  deviceMemory?: number;
+  maxTouchPoints?: number;
+  browserEngine?: string;
+  isMobile?: boolean;
+  isChromium?: boolean;
+  isGecko?: boolean;
+  isWebKit?: boolean;
+  combinedHash?: string;
+  uniquenessScore?: number;
+}
+
+export interface ScanIPLeakRecord {
+  ip: string;
+  version?: string;
+  country?: string;
+  countryCode?: string;
+  city?: string;
+  region?: string;
+  timezone?: string;
+  latitude?: number;
+  longitude?: number;
+  asnNumber?: number;
+  asnName?: string;
+  asnOrganization?: string;
+  isProxy?: boolean;
+  isVpn?: boolean;
+  isTor?: boolean;
+  isDatacenter?: boolean;
+  isRelay?: boolean;
+  reputationScore?: number;
+  isBlacklisted?: boolean;
+  dataSource?: string;
+}
+
+type ScanRisk = DNSLeakResult['risks'][number];
+
+export interface ScanDNSLeakRecord {
+  testId: string;
+  isLeak: boolean;
+  leakType: string; // none, partial or full
+  servers: Array<Partial<DNSLeakServer> & { ip: string }>;
+  dohEnabled?: boolean;
+  dotEnabled?: boolean;
+  usingIspDns?: boolean;
+  risks: ScanRisk[];
+  recommendations: string[];
+}
+
+export interface ScanWebRTCLeakRecord {
+  isLeak: boolean;
+  localIPs: string[];
+  publicIP?: string;
+  ipv6?: string;
+  localIPLeak?: boolean;
+  publicIPLeak?: boolean;
+  mdnsLeak?: boolean;
+  ipv6Leak?: boolean;
+  natType?: string;
+  risks: ScanRisk[];
+  recommendations: string[];
+}
+
+/**
+ * A scan and its per-test results, stored across the scans, fingerprints,
+ * ip_leaks, dns_leaks and webrtc_leaks tables
+ */
+export interface ScanRecord {
+  id: string;
+  visitorId: string;
+  sessionId: string;
+  userAgent: string;
+  totalScore?: number;
+  riskLevel?: string;
+  scorePolicy?: ScoringPolicyRef;
+  scoreNormalized?: Partial<Record<PrivacyScoreSection, number>>;
+  createdAt: string; // ISO 8601
+  fingerprint?: ScanFingerprintRecord;
+  ipLeak?: ScanIPLeakRecord;
+  dnsLeak?: ScanDNSLeakRecord;
+  webrtcLeak?: ScanWebRTCLeakRecord;
+}
+
+/**
+ * Cross-visitor filter over the per-test results; unset fields match everything
+ */
+export interface ScanFilter {
+  dnsLeakType?: string;
+  asnNumber?: number;
+  isVpn?: boolean;
+  webrtcLeak?: boolean;
+  limit?: number;
+}
+
+export interface ScanStore {
+  /**
+   * Save a scan and prune the visitor's oldest beyond MAX_SCANS_PER_VISITOR
+   */
+  save(scan: ScanRecord): Promise<void>;
+  get(scanId: string): Promise<ScanRecord | null>;
+  getMany(scanIds: string[]): Promise<ScanRecord[]>;
+  /**
+   * A page of a visitor's scans, newest first, and the visitor's total
+   */
+  listByVisitor(
+    visitorId: string,
+    limit: number,
+    offset: number
+  ): Promise<{ scans: ScanRecord[]; total: number }>;
+  /**
+   * Returns false when the scan does not exist or belongs to another visitor
+   */
+  delete(scanId: string, visitorId: string): Promise<boolean>;
+  deleteByVisitor(visitorId: string): Promise<void>;
+  find(filter: ScanFilter): Promise<ScanRecord[]>;
+}
+
+interface ScanRow {
+  id: string;
+  visitor_id: string;
+  session_id: string;
+  user_agent: string;
+  total_score: number | null;
+  risk_level: string | null;
+  score_policy_name: string | null;
+  score_policy_version: string | null;
+  score_normalized: string | null;
+  created_at: string;
+}
+
+interface FingerprintRow {
+  scan_id: string;
+  canvas_hash: string | null;
+  canvas_winding: number | null;
+  webgl_hash: string | null;
+  webgl_vendor: string | null;
+  webgl_renderer: string | null;
+  audio_hash: string | null;
+  audio_value: number | null;
+  font_hash: string | null;
+  font_count: number | null;
+  fonts: string | null;
+  timezone: string | null;
+  timezone_offset: number | null;
+  screen_width: number | null;
+  screen_height: number | null;
+  color_depth: number | null;
+  device_pixel_ratio: number | null;
+  platform: string | null;
+  language: string | null;
+  languages: string | null;
+  hardware_concurrency: number | null;
+  device_memory: number | null;
+  max_touch_points: number | null;
+  browser_engine: string | null;
+  is_mobile: number | null;
+  is_chromium: number | null;
+  is_gecko: number | null;
+  is_webkit: number | null;
+  combined_hash: string | null;
+  uniqueness_score: number | null;
+}
+
+interface IPLeakRow {
+  scan_id: string;
+  ip: string;
+  version: string | null;
+  country: string | null;
+  country_code: string | null;
+  city: string | null;
+  region: string | null;
+  timezone: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  asn_number: number | null;
+  asn_name: string | null;
+  asn_organization: string | null;
+  is_proxy: number | null;
+  is_vpn: number | null;
+  is_tor: number | null;
+  is_datacenter: number | null;
+  is_relay: number | null;
+  reputation_score: number | null;
+  is_blacklisted: number | null;
+  data_source: string | null;
+}
+
+interface DNSLeakRow {
+  scan_id: string;
+  test_id: string;
+  is_leak: number;
+  leak_type: string;
+  servers: string | null;
+  doh_enabled: number | null;
+  dot_enabled: number | null;
+  using_isp_dns: number | null;
+  risks: string | null;
+  recommendations: string | null;
+}
+
+interface WebRTCLeakRow {
+  scan_id: string;
+  is_leak: number;
+  local_ips: string | null;
+  public_ip: string | null;
+  ipv6: string | null;
+  local_ip_leak: number | null;
+  public_ip_leak: number | null;
+  mdns_leak: number | null;
+  ipv6_leak: number | null;
+  nat_type: string | null;
+  risks: string | null;
+  recommendations: string | null;
+}
+
+const SCAN_COLUMNS = [
+  'id',
+  'visitor_id',
+  'session_id',
+  'user_agent',
+  'total_score',
+  'risk_level',
+  'score_policy_name',
+  'score_policy_version',
+  'score_normalized',
+  'created_at',
+];
+
+export class D1ScanRepository implements ScanStore {
+  constructor(private db: D1Database) {}
+
+  async save(scan: ScanRecord): Promise<void> {
+    const statements: D1PreparedStatement[] = [
+      this.db
+        .prepare(
+          `INSERT INTO scans (id, visitor_id, session_id, user_agent, ip, country, city, total_score,
+             risk_level, score_policy_name, score_policy_version, score_normalized, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          scan.id,
+          scan.visitorId,
+          scan.sessionId,
+          scan.userAgent,
+          scan.ipLeak?.ip ?? null,
+          scan.ipLeak?.country ?? null,
+          scan.ipLeak?.city ?? null,
+          scan.totalScore ?? null,
+          scan.riskLevel ?? null,
+          scan.scorePolicy?.name ?? null,
+          scan.scorePolicy?.version ?? null,
+          scan.scoreNormalized ? JSON.stringify(scan.scoreNormalized) : null,
+          scan.createdAt,
+          scan.createdAt
+        ),
+    ];
+
+    if (scan.fingerprint) statements.push(this.insertFingerprint(scan.id, scan.fingerprint));
+    if (scan.ipLeak) statements.push(this.insertIPLeak(scan.id, scan.ipLeak));
+    if (scan.dnsLeak) statements.push(this.insertDNSLeak(scan.id, scan.dnsLeak));
+    if (scan.webrtcLeak) statements.push(this.insertWebRTCLeak(scan.id, scan.webrtcLeak));
+
+    // Result rows of pruned scans go with them through ON DELETE CASCADE
+    statements.push(
+      this.db
+        .prepare(
+          `DELETE FROM scans
+           WHERE visitor_id = ? AND id NOT IN (
+             SELECT id FROM scans
+             WHERE visitor_id = ?
+             ORDER BY created_at DESC
+             LIMIT ?
+           )`
+        )
+        .bind(scan.visitorId, scan.visitorId, MAX_SCANS_PER_VISITOR)
+    );
+
+    await this.db.batch(statements);
+  }
+
+  async get(scanId: string): Promise<ScanRecord | null> {
+    const [scan] = await this.getMany([scanId]);
+    return scan ?? null;
+  }
+
+  async getMany(scanIds: string[]): Promise<ScanRecord[]> {
+    if (scanIds.length === 0) return [];
+
+    const result = await this.db
+      .prepare(
+        `SELECT ${SCAN_COLUMNS.join(', ')} FROM scans WHERE id IN (${placeholders(scanIds)})`
+      )
+      .bind(...scanIds)
+      .all<ScanRow>();
+
+    return this.hydrate(result.results || []);
+  }
+
+  async listByVisitor(
+    visitorId: string,
+    limit: number,
+    offset: number
+  ): Promise<{ scans: ScanRecord[]; total: number }> {
+    const [page, count] = await this.db.batch<ScanRow | { count: number }>([
+      this.db
+        .prepare(
+          `SELECT ${SCAN_COLUMNS.join(', ')} FROM scans
+           WHERE visitor_id = ?
+           ORDER BY created_at DESC
+           LIMIT ? OFFSET ?`
+        )
+        .bind(visitorId, limit, offset),
+      this.db.prepare(`SELECT COUNT(*) AS count FROM scans WHERE visitor_id = ?`).bind(visitorId),
+    ]);
+
+    return {
+      scans: await this.hydrate((page.results || []) as ScanRow[]),
+      total: ((count.results || [])[0] as { count: number } | undefined)?.count ?? 0,
+    };
+  }
+
+  async delete(scanId: string, visitorId: string): Promise<boolean> {
+    const result = await this.db
+      .prepare(`DELETE FROM scans WHERE id = ? AND visitor_id = ?`)
+      .bind(scanId, visitorId)
+      .run();
+
+    return (result.meta.changes ?? 0) > 0;
+  }
+
+  async deleteByVisitor(visitorId: string): Promise<void> {
+    await this.db.prepare(`DELETE FROM scans WHERE visitor_id = ?`).bind(visitorId).run();
+  }
+
+  async find(filter: ScanFilter): Promise<ScanRecord[]> {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (filter.dnsLeakType !== undefined) {
+      conditions.push('d.leak_type = ?');
+      params.push(filter.dnsLeakType);
+    }
+    if (filter.asnNumber !== undefined) {
+      conditions.push('i.asn_number = ?');
+      params.push(filter.asnNumber);
+    }
+    if (filter.isVpn !== undefined) {
+      conditions.push('i.is_vpn = ?');
+      params.push(filter.isVpn ? 1 : 0);
+    }
+    if (filter.webrtcLeak !== undefined) {
+      conditions.push('w.is_leak = ?');
+      params.push(filter.webrtcLeak ? 1 : 0);
+    }
+
+    const result = await this.db
+      .prepare(
+        `SELECT ${SCAN_COLUMNS.map((column) => `s.${column}`).join(', ')}
+         FROM scans s
+         LEFT JOIN ip_leaks i ON i.scan_id = s.id
+         LEFT JOIN dns_leaks d ON d.scan_id = s.id
+         LEFT JOIN webrtc_leaks w ON w.scan_id = s.id
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY s.created_at DESC
+         LIMIT ?`
+      )
+      .bind(...params, filter.limit ?? 100)
+      .all<ScanRow>();
+
+    return this.hydrate(result.results || []);
+  }
+
+  /**
+   * Load the result rows of each scan and assemble the records, keeping row order
+   */
+  private async hydrate(rows: ScanRow[]): Promise<ScanRecord[]> {
+    if (rows.length === 0) return [];
+
+    const ids = rows.map((row) => row.id);
+    const select = (table: string) =>
+      this.db
+        .prepare(`SELECT * FROM ${table} WHERE scan_id IN (${placeholders(ids)})`)
+        .bind(...ids);
+
+    const [fingerprints, ipLeaks, dnsLeaks, webrtcLeaks] = await this.db.batch([
+      select('fingerprints'),
+      select('ip_leaks'),
+      select('dns_leaks'),
+      select('webrtc_leaks'),
+    ]);
+
+    const byScan = <T extends { scan_id: string }>(results: unknown[] | undefined) =>
+      new Map(((results || []) as T[]).map((row) => [row.scan_id, row]));
+    const fingerprintRows = byScan<FingerprintRow>(fingerprints.results);
+    const ipLeakRows = byScan<IPLeakRow>(ipLeaks.results);
+    const dnsLeakRows = byScan<DNSLeakRow>(dnsLeaks.results);
+    const webrtcLeakRows = byScan<WebRTCLeakRow>(webrtcLeaks.results);
+
+    return rows.map((row) => {
+      const fingerprint = fingerprintRows.get(row.id);
+      const ipLeak = ipLeakRows.get(row.id);
+      const dnsLeak = dnsLeakRows.get(row.id);
+      const webrtcLeak = webrtcLeakRows.get(row.id);
+
+      return {
+        id: row.id,
+        visitorId: row.visitor_id,
+        sessionId: row.session_id,
+        userAgent: row.user_agent,
+        totalScore: row.total_score ?? undefined,
+        riskLevel: row.risk_level ?? undefined,
+        scorePolicy:
+          row.score_policy_name && row.score_policy_version
+            ? { name: row.score_policy_name, version: row.score_policy_version }
+            : undefined,
+        scoreNormalized: row.score_normalized ? JSON.parse(row.score_normalized) : undefined,
+        createdAt: row.created_at,
+        fingerprint: fingerprint ? toFingerprintRecord(fingerprint) : undefined,
+        ipLeak: ipLeak ? toIPLeakRecord(ipLeak) : undefined,
+        dnsLeak: dnsLeak ? toDNSLeakRecord(dnsLeak) : undefined,
+        webrtcLeak: webrtcLeak ? toWebRTCLeakRecord(webrtcLeak) : undefined,
+      };
+    });
+  }
+
+  private insertFingerprint(scanId: string, fp: ScanFingerprintRecord): D1PreparedStatement {
+    return this.db
+      .prepare(
+        `INSERT INTO fingerprints (id, scan_id, canvas_hash, canvas_winding, webgl_hash, webgl_vendor,
+           webgl_renderer, audio_hash, audio_value, font_hash, font_count, fonts, timezone,
+           timezone_offset, screen_width, screen_height, color_depth, device_pixel_ratio, platform,
+           language, languages, hardware_concurrency, device_memory, max_touch_points, browser_engine,
+           is_mobile, is_chromium, is_gecko, is_webkit, combined_hash, uniqueness_score)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        crypto.randomUUID(),
+        scanId,
+        fp.canvasHash ?? null,
+        toFlag(fp.canvasWinding),
+        fp.webglHash ?? null,
+        fp.webglVendor ?? null,
+        fp.webglRenderer ?? null,
+        fp.audioHash ?? null,
+        fp.audioValue ?? null,
+        fp.fontHash ?? null,
+        fp.fontCount ?? null,
+        JSON.stringify(fp.fonts),
+        fp.timezone ?? null,
+        fp.timezoneOffset ?? null,
+        fp.screenWidth ?? null,
+        fp.screenHeight ?? null,
+        fp.colorDepth ?? null,
+        fp.devicePixelRatio ?? null,
+        fp.platform ?? null,
+        fp.language ?? null,
+        JSON.stringify(fp.languages),
+        fp.hardwareConcurrency ?? null,
+        fp.deviceMemory ?? null,
+        fp.maxTouchPoints ?? null,
+        fp.browserEngine ?? null,
+        toFlag(fp.isMobile),
+        toFlag(fp.isChromium),
+        toFlag(fp.isGecko),
+        toFlag(fp.isWebKit),
+        fp.combinedHash ?? null,
+        fp.uniquenessScore ?? null
+      );
+  }
+
+  private insertIPLeak(scanId: string, ip: ScanIPLeakRecord): D1PreparedStatement {
+    return this.db
+      .prepare(
+        `INSERT INTO ip_leaks (id, scan_id, ip, version, country, country_code, city, region, timezone,
+           latitude, longitude, asn_number, asn_name, asn_organization, is_proxy, is_vpn, is_tor,
+           is_datacenter, is_relay, reputation_score, is_blacklisted, data_source)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        crypto.randomUUID(),
+        scanId,
+        ip.ip,
+        ip.version ?? null,
+        ip.country ?? null,
+        ip.countryCode ?? null,
+        ip.city ?? null,
+        ip.region ?? null,
+        ip.timezone ?? null,
+        ip.latitude ?? null,
+        ip.longitude ?? null,
+        ip.asnNumber ?? null,
+        ip.asnName ?? null,
+        ip.asnOrganization ?? null,
+        toFlag(ip.isProxy),
+        toFlag(ip.isVpn),
+        toFlag(ip.isTor),
+        toFlag(ip.isDatacenter),
+        toFlag(ip.isRelay),
+        ip.reputationScore ?? null,
+        toFlag(ip.isBlacklisted),
+        ip.dataSource ?? null
+      );
+  }
+
+  private insertDNSLeak(scanId: string, dns: ScanDNSLeakRecord): D1PreparedStatement {
+    return this.db
+      .prepare(
+        `INSERT INTO dns_leaks (id, scan_id, test_id, is_leak, leak_type, servers, server_count,
+           doh_enabled, dot_enabled, using_isp_dns, risks, recommendations)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        crypto.randomUUID(),
+        scanId,
+        dns.testId,
+        dns.isLeak ? 1 : 0,
+        dns.leakType,
+        JSON.stringify(dns.servers),
+        dns.servers.length,
+        toFlag(dns.dohEnabled),
+        toFlag(dns.dotEnabled),
+        toFlag(dns.usingIspDns),
+        JSON.stringify(dns.risks),
+        JSON.stringify(dns.recommendations)
+      );
+  }
+
+  private insertWebRTCLeak(scanId: string, webrtc: ScanWebRTCLeakRecord): D1PreparedStatement {
+    return this.db
+      .prepare(
+        `INSERT INTO webrtc_leaks (id, scan_id, is_leak, local_ips, public_ip, ipv6, local_ip_leak,
+           public_ip_leak, mdns_leak, ipv6_leak, nat_type, risks, recommendations)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        crypto.randomUUID(),
+        scanId,
+        webrtc.isLeak ? 1 : 0,
+        JSON.stringify(webrtc.localIPs),
+        webrtc.publicIP ?? null,
+        webrtc.ipv6 ?? null,
+        toFlag(webrtc.localIPLeak),
+        toFlag(webrtc.publicIPLeak),
+        toFlag(webrtc.mdnsLeak),
+        toFlag(webrtc.ipv6Leak),
+        webrtc.natType ?? null,
+        JSON.stringify(webrtc.risks),
+        JSON.stringify(webrtc.recommendations)
+      );
+  }
+}
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryScanRepository implements ScanStore {
+  private scans = new Map<string, ScanRecord>();
+
+  async save(scan: ScanRecord): Promise<void> {
+    this.scans.set(scan.id, scan);
+
+    const stale = this.byVisitor(scan.visitorId).slice(MAX_SCANS_PER_VISITOR);
+    for (const old of stale) {
+      this.scans.delete(old.id);
+    }
+  }
+
+  async get(scanId: string): Promise<ScanRecord | null> {
+    return this.scans.get(scanId) ?? null;
+  }
+
+  async getMany(scanIds: string[]): Promise<ScanRecord[]> {
+    return scanIds.flatMap((id) => this.scans.get(id) ?? []);
+  }
+
+  async listByVisitor(
+    visitorId: string,
+    limit: number,
+    offset: number
+  ): Promise<{ scans: ScanRecord[]; total: number }> {
+    const scans = this.byVisitor(visitorId);
+    return { scans: scans.slice(offset, offset + limit), total: scans.length };
+  }
+
+  async delete(scanId: string, visitorId: string): Promise<boolean> {
+    if (this.scans.get(scanId)?.visitorId !== visitorId) return false;
+    return this.scans.delete(scanId);
+  }
+
+  async deleteByVisitor(visitorId: string): Promise<void> {
+    for (const scan of this.byVisitor(visitorId)) {
+      this.scans.delete(scan.id);
+    }
+  }
+
+  async find(filter: ScanFilter): Promise<ScanRecord[]> {
+    return newestFirst([...this.scans.values()])
+      .filter(
+        (scan) =>
+          (filter.dnsLeakType === undefined || scan.dnsLeak?.leakType === filter.dnsLeakType) &&
+          (filter.asnNumber === undefined || scan.ipLeak?.asnNumber === filter.asnNumber) &&
+          (filter.isVpn === undefined || scan.ipLeak?.isVpn === filter.isVpn) &&
+          (filter.webrtcLeak === undefined || scan.webrtcLeak?.isLeak === filter.webrtcLeak)
+      )
+      .slice(0, filter.limit ?? 100);
+  }
+
+  private byVisitor(visitorId: string): ScanRecord[] {
+    return newestFirst([...this.scans.values()].filter((scan) => scan.visitorId === visitorId));
+  }
+}
+
+function newestFirst(scans: ScanRecord[]): ScanRecord[] {
+  return scans.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+function toFlag(value: boolean | undefined): number | null {
+  return value === undefined ? null : value ? 1 : 0;
+}
+
+function fromFlag(value: number | null): boolean | undefined {
+  return value === null ? undefined : value === 1;
+}
+
+function parseList<T>(value: string | null): T[] {
+  return value ? (JSON.parse(value) as T[]) : [];
+}
+
+function toFingerprintRecord(row: FingerprintRow): ScanFingerprintRecord {
+  return {
+    canvasHash: row.canvas_hash ?? undefined,
+    canvasWinding: fromFlag(row.canvas_winding),
+    webglHash: row.webgl_hash ?? undefined,
+    webglVendor: row.webgl_vendor ?? undefined,
+    webglRenderer: row.webgl_renderer ?? undefined,
+    audioHash: row.audio_hash ?? undefined,
+    audioValue: row.audio_value ?? undefined,
+    fontHash: row.font_hash ?? undefined,
+    fontCount: row.font_count ?? undefined,
+    fonts: parseList(row.fonts),
+    timezone: row.timezone ?? undefined,
+    timezoneOffset: row.timezone_offset ?? undefined,
+    screenWidth: row.screen_width ?? undefined,
+    screenHeight: row.screen_height ?? undefined,
+    colorDepth: row.color_depth ?? undefined,
+    devicePixelRatio: row.device_pixel_ratio ?? undefined,
+    platform: row.platform ?? undefined,
+    language: row.language ?? undefined,
+    languages: parseList(row.languages),
+    hardwareConcurrency: row.hardware_concurrency ?? undefined,
+    deviceMemory: row.device_memory ?? undefined,
+    maxTouchPoints: row.max_touch_points ?? undefined,
+    browserEngine: row.browser_engine ?? undefined,
+    isMobile: fromFlag(row.is_mobile),
+    isChromium: fromFlag(row.is_chromium),
+    isGecko: fromFlag(row.is_gecko),
+    isWebKit: fromFlag(row.is_webkit),
+    combinedHash: row.combined_hash ?? undefined,
+    uniquenessScore: row.uniqueness_score ?? undefined,
+  };
+}
+
+function toIPLeakRecord(row: IPLeakRow): ScanIPLeakRecord {
+  return {
+    ip: row.ip,
+    version: row.version ?? undefined,
+    country: row.country ?? undefined,
+    countryCode: row.country_code ?? undefined,
+    city: row.city ?? undefined,
+    region: row.region ?? undefined,
+    timezone: row.timezone ?? undefined,
+    latitude: row.latitude ?? undefined,
+    longitude: row.longitude ?? undefined,
+    asnNumber: row.asn_number ?? undefined,
+    asnName: row.asn_name ?? undefined,
+    asnOrganization: row.asn_organization ?? undefined,
+    isProxy: fromFlag(row.is_proxy),
+    isVpn: fromFlag(row.is_vpn),
+    isTor: fromFlag(row.is_tor),
+    isDatacenter: fromFlag(row.is_datacenter),
+    isRelay: fromFlag(row.is_relay),
+    reputationScore: row.reputation_score ?? undefined,
+    isBlacklisted: fromFlag(row.is_blacklisted),
+    dataSource: row.data_source ?? undefined,
+  };
+}
+
+function toDNSLeakRecord(row: DNSLeakRow): ScanDNSLeakRecord {
+  return {
+    testId: row.test_id,
+    isLeak: row.is_leak === 1,
+    leakType: row.leak_type,
+    servers: parseList(row.servers),
+    dohEnabled: fromFlag(row.doh_enabled),
+    dotEnabled: fromFlag(row.dot_enabled),
+    usingIspDns: fromFlag(row.using_isp_dns),
+    risks: parseList(row.risks),
+    recommendations: parseList(row.recommendations),
+  };
+}
+
+function toWebRTCLeakRecord(row: WebRTCLeakRow): ScanWebRTCLeakRecord {
+  return {
+    isLeak: row.is_leak === 1,
+    localIPs: parseList(row.local_ips),
+    publicIP: row.public_ip ?? undefined,
+    ipv6: row.ipv6 ?? undefined,
+    localIPLeak: fromFlag(row.local_ip_leak),
+    publicIPLeak: fromFlag(row.public_ip_leak),
+    mdnsLeak: fromFlag(row.mdns_leak),
+    ipv6Leak: fromFlag(row.ipv6_leak),
+    natType: row.nat_type ?? undefined,
+    risks: parseList(row.risks),
+    recommendations: parseList(row.recommendations),
+  };
+}
@@ -0,0 +1,124 @@
+import type { D1Database } from '@cloudflare/workers-types';
+import type { SharedScan } from '@browserleaks/types';
+
+export interface ShareLinkRecord {
+  id: string;
+  code: string;
+  scan: SharedScan;
+  createdAt: string; // ISO 8601
+  expiresAt: string | null; // ISO 8601
+  viewCount: number;
+  maxViews: number | null;
+}
+
+export interface ShareLinkStore {
+  create(link: ShareLinkRecord): Promise<void>;
+  get(code: string): Promise<ShareLinkRecord | null>;
+  /**
+   * Count a view and return the new total, or null when the link does not exist.
+   * Views beyond maxViews are not counted.
+   */
+  incrementViews(code: string): Promise<number | null>;
+  delete(code: string): Promise<boolean>;
+}
+
+interface ShareLinkRow {
+  id: string;
+  code: string;
+  scan_data: string; // JSON string
+  expires_at: string | null;
+  view_count: number;
+  max_views: number | null;
+  created_at: string;
+}
+
+export class D1ShareLinkRepository implements ShareLinkStore {
+  constructor(private db: D1Database) {}
+
+  async create(link: ShareLinkRecord): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO share_links (id, code, scan_data, expires_at, view_count, max_views, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        link.id,
+        link.code,
+        JSON.stringify(link.scan),
+        link.expiresAt,
+        link.viewCount,
+        link.maxViews,
+        link.createdAt
+      )
+      .run();
+  }
+
+  async get(code: string): Promise<ShareLinkRecord | null> {
+    const row = await this.db
+      .prepare(
+        `SELECT id, code, scan_data, expires_at, view_count, max_views, created_at
+         FROM share_links WHERE code = ?`
+      )
+      .bind(code)
+      .first<ShareLinkRow>();
+
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      code: row.code,
+      scan: JSON.parse(row.scan_data) as SharedScan,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      viewCount: row.view_count ?? 0,
+      maxViews: row.max_views,
+    };
+  }
+
+  async incrementViews(code: string): Promise<number | null> {
+    // Single statement so concurrent views cannot both pass the limit
+    const row = await this.db
+      .prepare(
+        `UPDATE share_links SET view_count = view_count + 1
+         WHERE code = ? AND (max_views IS NULL OR view_count < max_views)
+         RETURNING view_count`
+      )
+      .bind(code)
+      .first<{ view_count: number }>();
+
+    return row ? row.view_count : null;
+  }
+
+  async delete(code: string): Promise<boolean> {
+    const result = await this.db.prepare('DELETE FROM share_links WHERE code = ?').bind(code).run();
+    return (result.meta.changes ?? 0) > 0;
+  }
+}
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryShareLinkRepository implements ShareLinkStore {
+  private links = new Map<string, ShareLinkRecord>();
+
+  async create(link: ShareLinkRecord): Promise<void> {
+    this.links.set(link.code, { ...link });
+  }
+
+  async get(code: string): Promise<ShareLinkRecord | null> {
+    const link = this.links.get(code);
+    return link ? { ...link } : null;
+  }
+
+  async incrementViews(code: string): Promise<number | null> {
+    const link = this.links.get(code);
+    if (!link || (link.maxViews !== null && link.viewCount >= link.maxViews)) return null;
+
+    link.viewCount++;
+    return link.viewCount;
+  }
+
+  async delete(code: string): Promise<boolean> {
+    return this.links.delete(code);
+  }
+}
@@ -0,0 +1,130 @@
+import type { D1Database } from '@cloudflare/workers-types';
+import type { LeakLogEntry, LeakType } from '@browserleaks/types';
+
+// Leak logs kept by the in-memory store; older entries are dropped
+export const MAX_LEAK_LOGS = 200;
+
+/**
+ * Event reported by a client through POST /v1/events/log
+ */
+export interface LoggedTelemetryEvent {
+  id: string;
+  type: string;
+  visitorId: string | null;
+  sessionId: string | null;
+  data: unknown;
+  userAgent: string | null;
+  ip: string | null;
+}
+
+/**
+ * Leak snapshots that seed the live feed, and events logged by clients
+ */
+export interface TelemetryStore {
+  saveLeakLog(entry: LeakLogEntry): Promise<void>;
+  getRecentLeakLogs(limit: number): Promise<LeakLogEntry[]>; // newest first
+  logEvent(event: LoggedTelemetryEvent): Promise<void>;
+}
+
+interface LeakLogRow {
+  id: string;
+  created_at: string;
+  privacy_score: number;
+  entropy_score: number;
+  leaks_webrtc: number;
+  leaks_dns: string;
+  leaks_battery: number;
+  leaks_motion: number;
+  api_surface: string | null; // JSON string
+  full_report_blob: string; // JSON string
+}
+
+export class D1TelemetryRepository implements TelemetryStore {
+  constructor(private db: D1Database) {}
+
+  async saveLeakLog(entry: LeakLogEntry): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO leak_logs (id, created_at, privacy_score, entropy_score, leaks_webrtc, leaks_dns, leaks_battery, leaks_motion, api_surface, full_report_blob)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        entry.id,
+        new Date(entry.createdAt).toISOString(),
+        entry.privacyScore,
+        entry.entropyScore,
+        entry.leaks.webrtc ? 1 : 0,
+        entry.leaks.dns,
+        entry.leaks.battery ? 1 : 0,
+        entry.leaks.motion ? 1 : 0,
+        JSON.stringify(entry.apiSurface),
+        JSON.stringify(entry.report)
+      )
+      .run();
+  }
+
+  async getRecentLeakLogs(limit: number): Promise<LeakLogEntry[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT id, created_at, privacy_score, entropy_score, leaks_webrtc, leaks_dns, leaks_battery, leaks_motion, api_surface, full_report_blob
+         FROM leak_logs
+         ORDER BY created_at DESC
+         LIMIT ?`
+      )
+      .bind(limit)
+      .all<LeakLogRow>();
+
+    return (result.results || []).map((row) => ({
+      id: row.id,
+      createdAt: Date.parse(row.created_at),
+      privacyScore: row.privacy_score,
+      entropyScore: row.entropy_score,
+      leaks: {
+        webrtc: row.leaks_webrtc === 1,
+        dns: row.leaks_dns as LeakType,
+        battery: row.leaks_battery === 1,
+        motion: row.leaks_motion === 1,
+      },
+      apiSurface: JSON.parse(row.api_surface || '{}') as Record<string, string>,
+      report: JSON.parse(row.full_report_blob),
+    }));
+  }
+
+  async logEvent(event: LoggedTelemetryEvent): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO telemetry_events (id, event_type, visitor_id, session_id, data, user_agent, ip, country, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, NULL, datetime('now'))`
+      )
+      .bind(
+        event.id,
+        event.type,
+        event.visitorId,
+        event.sessionId,
+        JSON.stringify(event.data ?? {}),
+        event.userAgent,
+        event.ip
+      )
+      .run();
+  }
+}
+
+/**
+ * In-memory store for local development and tests
+ */
+export class InMemoryTelemetryRepository implements TelemetryStore {
+  private leakLogs: LeakLogEntry[] = [];
+  readonly events: LoggedTelemetryEvent[] = [];
+
+  async saveLeakLog(entry: LeakLogEntry): Promise<void> {
+    this.leakLogs = [entry, ...this.leakLogs].slice(0, MAX_LEAK_LOGS);
+  }
+
+  async getRecentLeakLogs(limit: number): Promise<LeakLogEntry[]> {
+    return this.leakLogs.slice(0, limit);
+  }
+
+  async logEvent(event: LoggedTelemetryEvent): Promise<void> {
+    this.events.push(event);
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * SQLite file storage for the Node server
+ *
+ * Wraps a synchronous SQLite connection (node:sqlite or better-sqlite3) in the
+ * subset of the D1 API the repositories use, so the D1 repositories and the D1
+ * migrations also work against a local database file.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { D1Database } from '@cloudflare/workers-types';
+import { getErrorMessage } from '../utils/errors';
+
+type SQLiteValue = string | number | bigint | Uint8Array | null;
+
+export interface SQLiteStatement {
+  all(...params: SQLiteValue[]): unknown[];
+  get(...params: SQLiteValue[]): unknown;
+  run(...params: SQLiteValue[]): { changes: number | bigint; lastInsertRowid: number | bigint };
+}
+
+/**
+ * Synchronous connection, as exposed by node:sqlite's DatabaseSync and better-sqlite3
+ */
+export interface SQLiteConnection {
+  prepare(sql: string): SQLiteStatement;
+  exec(sql: string): void;
+}
+
+// Statements that return rows are run with all(); everything else with run()
+const READER = /^\s*(SELECT|WITH|PRAGMA|VALUES)\b|\bRETURNING\b/i;
+
+class SQLitePreparedStatement {
+  private params: SQLiteValue[] = [];
+
+  constructor(
+    private connection: SQLiteConnection,
+    readonly sql: string
+  ) {}
+
+  bind(...values: unknown[]): SQLitePreparedStatement {
+    const statement = new SQLitePreparedStatement(this.connection, this.sql);
+    statement.params = values.map(toSQLiteValue);
+    return statement;
+  }
+
+  async first<T = Record<string, unknown>>(column?: string): Promise<T | null> {
+    const row = this.connection.prepare(this.sql).get(...this.params) as
+      | Record<string, unknown>
+      | undefined;
+
+    if (!row) return null;
+    return (column ? row[column] : row) as T;
+  }
+
+  async all<T = Record<string, unknown>>() {
+    return this.execute<T>();
+  }
+
+  async run<T = Record<string, unknown>>() {
+    return this.execute<T>();
+  }
+
+  execute<T>() {
+    const statement = this.connection.prepare(this.sql);
+
+    if (READER.test(this.sql)) {
+      const results = statement.all(...this.params) as T[];
+      return { success: true, results, meta: { changes: 0, rows_read: results.length } };
+    }
+
+    const { changes, lastInsertRowid } = statement.run(...this.params);
+    return {
+      success: true,
+      results: [] as T[],
+      meta: { changes: Number(changes), last_row_id: Number(lastInsertRowid) },
+    };
+  }
+}
+
+class SQLiteD1Database {
+  constructor(private connection: SQLiteConnection) {}
+
+  prepare(sql: string): SQLitePreparedStatement {
+    return new SQLitePreparedStatement(this.connection, sql);
+  }
+
+  /**
+   * Run statements in one transaction, like D1 batches
+   */
+  async batch(statements: SQLitePreparedStatement[]) {
+    this.connection.exec('BEGIN');
+
+    try {
+      const results = statements.map((statement) => statement.execute());
+      this.connection.exec('COMMIT');
+      return results;
+    } catch (error) {
+      this.connection.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async exec(sql: string) {
+    this.connection.exec(sql);
+    return { count: 1, duration: 0 };
+  }
+}
+
+/**
+ * Expose a SQLite connection through the D1 interface the repositories expect
+ */
+export function asD1Database(connection: SQLiteConnection): D1Database {
+  return new SQLiteD1Database(connection) as unknown as D1Database;
+}
+
+/**
+ * Open (or create) a database file with node:sqlite, available without a flag from
+ * Node.js 22.13; the rest of the server runs on Node.js 20
+ */
+export function openSQLiteDatabase(filename: string): SQLiteConnection {
+  let sqlite: { DatabaseSync: new (filename: string) => SQLiteConnection };
+
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    sqlite = require('node:sqlite');
+  } catch {
+    throw new Error(
+      `SQLite storage needs node:sqlite (Node.js 22.13 or newer); running ${process.version}`
+    );
+  }
+
+  const connection = new sqlite.DatabaseSync(filename);
+  connection.exec('PRAGMA foreign_keys = ON');
+  return connection;
+}
+
+/**
+ * Apply the D1 migrations that have not run yet, tracked like wrangler does
+ * in d1_migrations
+ */
+export function applyMigrations(connection: SQLiteConnection, directory: string): string[] {
+  connection.exec(
+    `CREATE TABLE IF NOT EXISTS d1_migrations (
+       id INTEGER PRIMARY KEY AUTOINCREMENT,
+       name TEXT UNIQUE,
+       applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+     )`
+  );
+
+  const applied = new Set(
+    (connection.prepare('SELECT name FROM d1_migrations').all() as Array<{ name: string }>).map(
+      (row) => row.name
+    )
+  );
+  const pending = fs
+    .readdirSync(directory)
+    .filter((file) => file.endsWith('.sql') && !applied.has(file))
+    .sort();
+
+  for (const file of pending) {
+    connection.exec('BEGIN');
+    try {
+      connection.exec(fs.readFileSync(path.join(directory, file), 'utf8'));
+      connection.prepare('INSERT INTO d1_migrations (name) VALUES (?)').run(file);
+      connection.exec('COMMIT');
+    } catch (error) {
+      connection.exec('ROLLBACK');
+      throw new Error(`Migration ${file} failed: ${getErrorMessage(error)}`);
+    }
+  }
+
+  return pending;
+}
+
+function toSQLiteValue(value: unknown): SQLiteValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'bigint' ||
+    value instanceof Uint8Array
+  ) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,79 @@
+import { parseIPAddress, unmapIPv4 } from '../utils/ip';
+
+interface TrieNode<T> {
+  zero?: TrieNode<T>;
+  one?: TrieNode<T>;
+  value?: T;
+}
+
+export interface ParsedCIDR {
+  bytes: Uint8Array;
+  prefix: number;
+}
+
+/**
+ * Parse "a.b.c.d/n" or "v6::/n"; a bare address is a host route
+ */
+export function parseCIDR(cidr: string): ParsedCIDR | null {
+  const [address, length, extra] = cidr.trim().split('/');
+  if (extra !== undefined) return null;
+
+  const bytes = parseIPAddress(address);
+  if (!bytes) return null;
+
+  const bits = bytes.length * 8;
+  const prefix = length === undefined ? bits : Number(length);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits || length === '') return null;
+
+  return { bytes, prefix };
+}
+
+const bitAt = (bytes: Uint8Array, index: number) => (bytes[index >> 3] >> (7 - (index & 7))) & 1;
+
+/**
+ * Binary trie over address bits; lookups return the value of the longest
+ * matching prefix, IPv4 and IPv6 kept apart
+ */
+export class CIDRTrie<T> {
+  private roots: Record<number, TrieNode<T>> = { 4: {}, 16: {} };
+  private count = 0;
+
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Returns false, leaving the trie untouched, when the CIDR is malformed
+   */
+  insert(cidr: string, value: T): boolean {
+    const parsed = parseCIDR(cidr);
+    if (!parsed) return false;
+
+    let node = this.roots[parsed.bytes.length];
+    for (let index = 0; index < parsed.prefix; index++) {
+      const key = bitAt(parsed.bytes, index) ? 'one' : 'zero';
+      node = node[key] ??= {};
+    }
+
+    if (node.value === undefined) this.count++;
+    node.value = value;
+    return true;
+  }
+
+  lookup(ip: string): T | null {
+    const parsed = parseIPAddress(ip);
+    if (!parsed) return null;
+
+    const bytes = unmapIPv4(parsed); // ::ffff:a.b.c.d is looked up as a.b.c.d
+    let node: TrieNode<T> | undefined = this.roots[bytes.length];
+    let match: T | null = null;
+
+    for (let index = 0; node; index++) {
+      if (node.value !== undefined) match = node.value;
+      if (index === bytes.length * 8) break;
+      node = bitAt(bytes, index) ? node.one : node.zero;
+    }
+
+    return match;
+  }
+}
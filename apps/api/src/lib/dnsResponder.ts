@@ -0,0 +1,145 @@
+import dgram from 'node:dgram';
+import net from 'node:net';
+import { log } from '../middleware/logger';
+
+export interface DNSResponderOptions {
+  zone: string;
+  answerIp: string; // IPv4 address returned for every A query inside the zone
+  onQuery: (hostname: string, resolverIp: string) => Promise<unknown>;
+}
+
+const HEADER_LENGTH = 12;
+const TYPE_A = 1;
+const CLASS_IN = 1;
+const FLAG_QR = 0x8000;
+const FLAG_AA = 0x0400;
+const FLAG_RD = 0x0100;
+const OPCODE_MASK = 0x7800;
+const RCODE_FORMERR = 1;
+const RCODE_NOTIMP = 4;
+const RCODE_REFUSED = 5;
+
+interface DNSQuestion {
+  name: string;
+  type: number;
+  qclass: number;
+  end: number; // offset just past the question section
+}
+
+/**
+ * Minimal UDP authoritative nameserver standing in for the production one during
+ * local development. It answers A queries inside the zone with a fixed address
+ * (TTL 0, so every probe reaches us) and reports each query with the address of
+ * the resolver that sent it. Point a resolver at it, or query it directly with
+ * `dig @127.0.0.1 -p <port> p1.<test id>.<zone>`.
+ */
+export function createDNSResponder(options: DNSResponderOptions): dgram.Socket {
+  if (!net.isIPv4(options.answerIp)) {
+    throw new Error(`DNS responder answer address must be IPv4: ${options.answerIp}`);
+  }
+
+  const zone = options.zone.toLowerCase().replace(/\.$/, '');
+  const answer = Uint8Array.from(options.answerIp.split('.').map(Number));
+  const socket = dgram.createSocket('udp4');
+
+  socket.on('message', (message, remote) => {
+    const response = respond(message, zone, answer, (hostname) => {
+      options.onQuery(hostname, remote.address).catch((error) => {
+        log.warn('DNS responder failed to record query', { error, hostname });
+      });
+    });
+
+    if (response) socket.send(response, remote.port, remote.address);
+  });
+
+  socket.on('error', (error) => {
+    log.error('DNS responder error', { error });
+  });
+
+  return socket;
+}
+
+function respond(
+  message: Buffer,
+  zone: string,
+  answer: Uint8Array,
+  onQuery: (hostname: string) => void
+): Buffer | null {
+  if (message.length < HEADER_LENGTH) return null;
+
+  const flags = message.readUInt16BE(2);
+  if (flags & FLAG_QR) return null; // never answer responses
+
+  const questionCount = message.readUInt16BE(4);
+  const question = questionCount === 1 ? readQuestion(message) : null;
+  if (!question) return buildResponse(message, flags, RCODE_FORMERR);
+  if ((flags & OPCODE_MASK) !== 0) return buildResponse(message, flags, RCODE_NOTIMP, question);
+
+  const name = question.name.toLowerCase();
+  if (name !== zone && !name.endsWith(`.${zone}`)) {
+    return buildResponse(message, flags, RCODE_REFUSED, question);
+  }
+
+  onQuery(name);
+
+  const isAddressQuery = question.type === TYPE_A && question.qclass === CLASS_IN;
+  return buildResponse(message, flags, 0, question, isAddressQuery ? answer : undefined);
+}
+
+function readQuestion(message: Buffer): DNSQuestion | null {
+  const labels: string[] = [];
+  let offset = HEADER_LENGTH;
+
+  while (offset < message.length) {
+    const length = message[offset];
+    offset += 1;
+
+    if (length === 0) {
+      if (offset + 4 > message.length) return null;
+      return {
+        name: labels.join('.'),
+        type: message.readUInt16BE(offset),
+        qclass: message.readUInt16BE(offset + 2),
+        end: offset + 4,
+      };
+    }
+
+    // Compression pointers are not valid in the question of a query
+    if (length > 63 || offset + length > message.length) return null;
+    labels.push(message.toString('latin1', offset, offset + length));
+    offset += length;
+  }
+
+  return null;
+}
+
+function buildResponse(
+  query: Buffer,
+  queryFlags: number,
+  rcode: number,
+  question?: DNSQuestion,
+  address?: Uint8Array
+): Buffer {
+  const questionBytes = question ? query.subarray(HEADER_LENGTH, question.end) : Buffer.alloc(0);
+  const answerBytes = address ? Buffer.alloc(16) : Buffer.alloc(0);
+
+  if (address) {
+    answerBytes.writeUInt16BE(0xc000 | HEADER_LENGTH, 0); // pointer to the question name
+    answerBytes.writeUInt16BE(TYPE_A, 2);
+    answerBytes.writeUInt16BE(CLASS_IN, 4);
+    answerBytes.writeUInt32BE(0, 6); // TTL
+    answerBytes.writeUInt16BE(4, 10);
+    answerBytes.set(address, 12);
+  }
+
+  const header = Buffer.alloc(HEADER_LENGTH);
+  header.writeUInt16BE(query.readUInt16BE(0), 0);
+  header.writeUInt16BE(
+    FLAG_QR | (queryFlags & OPCODE_MASK) | FLAG_AA | (queryFlags & FLAG_RD) | rcode,
+    2
+  );
+  header.writeUInt16BE(question ? 1 : 0, 4);
+  header.writeUInt16BE(address ? 1 : 0, 6);
+
+  return Buffer.concat([header, questionBytes, answerBytes]);
+}
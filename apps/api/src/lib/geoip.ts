@@ -0,0 +1,24 @@
+import { readFileSync } from 'node:fs';
+import { MMDBReader } from '../utils/mmdb';
+import { GeoLiteProvider, type IPRangeFile } from '../clients/GeoLiteProvider';
+
+export interface GeoLitePaths {
+  cityPath?: string;
+  asnPath?: string;
+  rangesPath?: string; // JSON IPRangeFile
+}
+
+/**
+ * Load the local databases into memory; the files are read once, at startup
+ */
+export function loadGeoLiteProvider(paths: GeoLitePaths): GeoLiteProvider {
+  const open = (path?: string) => (path ? new MMDBReader(readFileSync(path)) : undefined);
+
+  return new GeoLiteProvider({
+    city: open(paths.cityPath),
+    asn: open(paths.asnPath),
+    ranges: paths.rangesPath
+      ? (JSON.parse(readFileSync(paths.rangesPath, 'utf8')) as IPRangeFile)
+      : undefined,
+  });
+}
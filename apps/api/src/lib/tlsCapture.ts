@@ -0,0 +1,120 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import http, { type RequestListener } from 'node:http';
+import { Duplex } from 'node:stream';
+import { readClientHelloMessage } from '../utils/clientHello';
+import { log } from '../middleware/logger';
+
+export interface TLSCaptureServerOptions {
+  key: string | Buffer;
+  cert: string | Buffer;
+  app: RequestListener;
+}
+
+// Largest ClientHello we are willing to buffer (post-quantum key shares push hellos past 1.5KB)
+const MAX_CLIENT_HELLO_BYTES = 16 * 1024;
+const CLIENT_HELLO_TIMEOUT_MS = 5000;
+
+const capturedHellos = new WeakMap<object, Uint8Array>();
+
+/**
+ * TLS-terminating server for self-hosted deployments that records each
+ * connection's raw ClientHello before completing the handshake.
+ * Node's TLS stack does not expose the ClientHello, so the bytes are read off
+ * the TCP stream first and replayed into a TLSSocket through a stream wrapper
+ * (unshifting onto the raw socket would be bypassed by the native TLS binding).
+ */
+export function createTLSCaptureServer(options: TLSCaptureServerOptions): net.Server {
+  const secureContext = tls.createSecureContext({ key: options.key, cert: options.cert });
+  const httpServer = http.createServer(options.app);
+
+  return net.createServer((socket) => {
+    let buffered = Buffer.alloc(0);
+
+    socket.setTimeout(CLIENT_HELLO_TIMEOUT_MS, () => socket.destroy());
+    socket.on('error', () => socket.destroy());
+
+    const onData = (chunk: Buffer) => {
+      buffered = Buffer.concat([buffered, chunk]);
+
+      let hello: Uint8Array | null;
+      try {
+        hello = readClientHelloMessage(buffered);
+      } catch (error) {
+        log.debug('Rejected non-TLS connection', { error });
+        socket.destroy();
+        return;
+      }
+
+      if (!hello) {
+        if (buffered.length > MAX_CLIENT_HELLO_BYTES) socket.destroy();
+        return;
+      }
+
+      socket.off('data', onData);
+      socket.setTimeout(0);
+
+      const tlsSocket = new tls.TLSSocket(replay(socket, buffered), {
+        isServer: true,
+        secureContext,
+        ALPNProtocols: ['http/1.1'],
+      });
+      forwardPeerAddress(tlsSocket, socket);
+      capturedHellos.set(tlsSocket, Uint8Array.from(hello));
+
+      tlsSocket.on('error', () => tlsSocket.destroy());
+      tlsSocket.once('secure', () => httpServer.emit('connection', tlsSocket));
+    };
+
+    socket.on('data', onData);
+  });
+}
+
+/**
+ * ClientHello captured for the connection a request arrived on
+ */
+export function getCapturedClientHello(socket: object): Uint8Array | undefined {
+  return capturedHellos.get(socket);
+}
+
+/**
+ * Duplex over the raw socket that first re-emits the bytes already consumed
+ */
+function replay(socket: net.Socket, consumed: Buffer): Duplex {
+  const stream = new Duplex({
+    read() {
+      socket.resume();
+    },
+    write(chunk, encoding, callback) {
+      socket.write(chunk, encoding, callback);
+    },
+    final(callback) {
+      socket.end(callback);
+    },
+    destroy(error, callback) {
+      socket.destroy(error ?? undefined);
+      callback(error);
+    },
+  });
+
+  stream.push(consumed);
+  socket.on('data', (chunk) => {
+    if (!stream.push(chunk)) socket.pause();
+  });
+  socket.on('end', () => stream.push(null));
+  socket.on('close', () => stream.destroy());
+
+  return stream;
+}
+
+/**
+ * A TLSSocket over a plain stream has no peer address; expose the raw socket's
+ * so request logging and IP lookups keep working
+ */
+function forwardPeerAddress(tlsSocket: tls.TLSSocket, socket: net.Socket): void {
+  Object.defineProperties(tlsSocket, {
+    remoteAddress: { get: () => socket.remoteAddress },
+    remotePort: { get: () => socket.remotePort },
+    remoteFamily: { get: () => socket.remoteFamily },
+  });
+}
@@ -0,0 +1,102 @@
+/**
+ * Token bucket arithmetic shared by the rate limit stores.
+ *
+ * Buckets refill continuously at `limit / windowMs` tokens per millisecond and
+ * hold at most `burst` tokens, so a client can spend `burst` at once and then
+ * `limit` per window. Unlike a fixed window there is no reset boundary to game.
+ */
+
+export interface TokenBucketPolicy {
+  name: string; // distinguishes the bucket in storage
+  limit: number; // tokens refilled per window
+  windowMs: number;
+  burst: number; // bucket capacity
+}
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export type BucketMap = Record<string, BucketState>;
+
+export interface TokenBucketDecision {
+  allowed: boolean;
+  cost: number;
+  policy: string; // the most constraining bucket, which the other fields describe
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch ms at which the bucket is full again
+  retryAfterMs: number; // 0 when allowed
+}
+
+function msPerToken(policy: TokenBucketPolicy): number {
+  return policy.windowMs / policy.limit;
+}
+
+function refill(state: BucketState | undefined, policy: TokenBucketPolicy, now: number): number {
+  if (!state) return policy.burst;
+  const elapsed = Math.max(0, now - state.updatedAt);
+  return Math.min(policy.burst, state.tokens + elapsed / msPerToken(policy));
+}
+
+/**
+ * Take `cost` tokens from every policy's bucket, or from none of them.
+ * A cost above a bucket's capacity is capped so the request can pass once the bucket is full.
+ * Returns the updated buckets; they are unchanged when the request is denied.
+ */
+export function takeTokens(
+  buckets: BucketMap,
+  policies: TokenBucketPolicy[],
+  cost: number,
+  now: number
+): { decision: TokenBucketDecision; buckets: BucketMap } {
+  const levels = policies.map((policy) => ({
+    policy,
+    tokens: refill(buckets[policy.name], policy, now),
+    cost: Math.min(cost, policy.burst),
+  }));
+
+  const denied = levels.filter((level) => level.tokens < level.cost);
+  const allowed = denied.length === 0;
+
+  let next = buckets;
+  if (allowed) {
+    next = { ...buckets };
+    for (const level of levels) {
+      level.tokens -= level.cost;
+      next[level.policy.name] = { tokens: level.tokens, updatedAt: now };
+    }
+  }
+
+  const waitFor = (level: (typeof levels)[number]) =>
+    Math.ceil((level.cost - level.tokens) * msPerToken(level.policy));
+
+  // Denied: report the bucket that takes longest to afford the request.
+  // Allowed: report the emptiest bucket relative to its capacity.
+  const constraining = allowed
+    ? levels.reduce((a, b) => (b.tokens / b.policy.burst < a.tokens / a.policy.burst ? b : a))
+    : denied.reduce((a, b) => (waitFor(b) > waitFor(a) ? b : a));
+
+  const { policy, tokens } = constraining;
+
+  return {
+    decision: {
+      allowed,
+      cost,
+      policy: policy.name,
+      limit: policy.burst,
+      remaining: Math.floor(tokens),
+      resetAt: now + Math.ceil((policy.burst - tokens) * msPerToken(policy)),
+      retryAfterMs: allowed ? 0 : waitFor(constraining),
+    },
+    buckets: next,
+  };
+}
+
+/**
+ * Time after the last request by which every bucket is full, i.e. the state can be dropped
+ */
+export function getIdleExpiryMs(policies: TokenBucketPolicy[]): number {
+  return Math.max(...policies.map((policy) => Math.ceil(policy.burst * msPerToken(policy))));
+}
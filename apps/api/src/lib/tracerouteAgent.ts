@@ -0,0 +1,148 @@
+import http from 'node:http';
+import net from 'node:net';
+import os from 'node:os';
+import { timingSafeEqual } from 'node:crypto';
+import { execFile } from 'node:child_process';
+import type { TracerouteProtocol } from '@browserleaks/types';
+import type { AgentHop, AgentTraceroute } from '../services/TracerouteService';
+import { isPrivateAddress } from '../utils/ip';
+import { log } from '../middleware/logger';
+
+export type TracerouteRunner = (target: string, protocol: TracerouteProtocol) => Promise<string>;
+
+export interface TracerouteAgentOptions {
+  token: string; // expected as `Authorization: Bearer <token>`
+  name?: string; // reported with every trace, defaults to the hostname
+  run?: TracerouteRunner;
+}
+
+const PROTOCOLS: TracerouteProtocol[] = ['icmp', 'udp', 'tcp'];
+const MAX_HOPS = 20;
+const TRACE_TIMEOUT_MS = 30_000;
+const MAX_CONCURRENT_TRACES = 4;
+const MAX_BODY_BYTES = 1024;
+
+// ICMP and TCP SYN probes need root or CAP_NET_RAW; UDP works unprivileged
+const PROTOCOL_FLAGS: Record<TracerouteProtocol, string[]> = {
+  icmp: ['-I'],
+  udp: ['-U'],
+  tcp: ['-T', '-p', '443'],
+};
+
+/**
+ * Run the system traceroute (Linux iputils/modern traceroute) and return its raw output
+ */
+export const runTraceroute: TracerouteRunner = (target, protocol) =>
+  new Promise((resolve, reject) => {
+    const args = [...PROTOCOL_FLAGS[protocol], '-n', '-q', '3', '-w', '2', '-m', String(MAX_HOPS)];
+    execFile('traceroute', [...args, target], { timeout: TRACE_TIMEOUT_MS }, (error, stdout) => {
+      if (error && !stdout) reject(error);
+      else resolve(stdout);
+    });
+  });
+
+/**
+ * Parse `traceroute -n` output. A hop line holds the TTL followed by addresses,
+ * `<rtt> ms` pairs, `*` for lost probes and `!X` style annotations; when probes of
+ * one hop were answered by different routers the first address is kept.
+ */
+export function parseTracerouteOutput(output: string): AgentHop[] {
+  const hops: AgentHop[] = [];
+
+  for (const line of output.split('\n')) {
+    const match = line.match(/^\s*(\d+)\s+(.*)$/);
+    if (!match) continue;
+
+    const tokens = match[2].trim().split(/\s+/);
+    let ip: string | null = null;
+    const rtts: number[] = [];
+
+    tokens.forEach((token, index) => {
+      if (ip === null && net.isIP(token)) ip = token;
+      if (tokens[index + 1] === 'ms' && !Number.isNaN(Number(token))) rtts.push(Number(token));
+    });
+
+    hops.push({ hop: Number(match[1]), ip, rtts });
+  }
+
+  return hops;
+}
+
+function isAuthorized(header: string | undefined, token: string): boolean {
+  const presented = Buffer.from(header ?? '');
+  const expected = Buffer.from(`Bearer ${token}`);
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+/**
+ * Self-hostable probe agent: an HTTP endpoint that traceroutes towards a public
+ * address from the machine it runs on. The API calls it through
+ * TracerouteAgentClient; run it next to the API server for local development.
+ *
+ * POST /traceroute {"target": "<ip>", "protocol": "icmp" | "udp" | "tcp"}
+ */
+export function createTracerouteAgent(options: TracerouteAgentOptions): http.Server {
+  const name = options.name || os.hostname();
+  const run = options.run ?? runTraceroute;
+  let running = 0;
+
+  return http.createServer((req, res) => {
+    const reply = (status: number, body: unknown) => {
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== 'POST' || req.url !== '/traceroute') {
+      return reply(404, { error: 'Not found' });
+    }
+    if (!isAuthorized(req.headers.authorization, options.token)) {
+      return reply(401, { error: 'Unauthorized' });
+    }
+
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) req.destroy();
+    });
+
+    req.on('end', async () => {
+      let target: unknown;
+      let protocol: unknown;
+      try {
+        ({ target, protocol = 'icmp' } = JSON.parse(body));
+      } catch {
+        return reply(400, { error: 'Body must be JSON' });
+      }
+
+      // Only public IP literals: the agent must not be usable to map its own network
+      if (typeof target !== 'string' || !net.isIP(target) || isPrivateAddress(target)) {
+        return reply(400, { error: 'target must be a public IP address' });
+      }
+      if (!PROTOCOLS.includes(protocol as TracerouteProtocol)) {
+        return reply(400, { error: `protocol must be one of ${PROTOCOLS.join(', ')}` });
+      }
+      if (running >= MAX_CONCURRENT_TRACES) {
+        return reply(503, { error: 'Too many traces in progress' });
+      }
+
+      running++;
+      try {
+        const hops = parseTracerouteOutput(await run(target, protocol as TracerouteProtocol));
+        const result: AgentTraceroute = {
+          agent: name,
+          protocol: protocol as TracerouteProtocol,
+          target,
+          reachedTarget: hops.some((hop) => hop.ip === target),
+          hops,
+        };
+        reply(200, result);
+      } catch (error) {
+        log.error('Traceroute agent error', { error, target, protocol });
+        reply(500, { error: 'Traceroute failed' });
+      } finally {
+        running--;
+      }
+    });
+  });
+}
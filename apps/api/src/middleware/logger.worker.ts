@@ -0,0 +1,16 @@
+/**
+ * Logger for the Worker
+ *
+ * Workers Logs collects console output, so this is the one place Worker code
+ * writes to the console; it mirrors the `log` helpers of the Node logger.
+ */
+
+/* eslint-disable no-console */
+
+type Meta = Record<string, unknown>;
+
+export const log = {
+  error: (message: string, meta?: Meta) => console.error(message, ...(meta ? [meta] : [])),
+  warn: (message: string, meta?: Meta) => console.warn(message, ...(meta ? [meta] : [])),
+  info: (message: string, meta?: Meta) => console.info(message, ...(meta ? [meta] : [])),
+};
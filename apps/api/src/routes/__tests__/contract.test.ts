@@ -0,0 +1,843 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'node:path';
+import request from 'supertest';
+import type {
+  ApiKeyInfo,
+  IPLeakResult,
+  IPRangeVerdict,
+  IssuedApiKey,
+  LeakLogEntry,
+  SharedScan,
+} from '@browserleaks/types';
+import { createApp } from '../../app';
+import { createApp as createWorkerApp } from '../../app.worker';
+import {
+  createCoreDeps,
+  createD1Stores,
+  createInMemoryStores,
+  type CoreDeps,
+  type CoreOptions,
+  type CoreStores,
+} from '../../core/deps';
+import type { Env } from '../../types/env';
+import { InMemoryRateLimitRepository } from '../../db/RateLimitRepository';
+import { applyMigrations, asD1Database, openSQLiteDatabase } from '../../db/sqlite';
+
+/**
+ * The same expectations run against the Express app (app.ts) and the Worker app
+ * (app.worker.ts), middleware included, each over every store, so the two
+ * runtimes cannot drift apart again.
+ */
+
+// Parsed JSON, typed loosely enough for expectations to reach into it
+interface ResponseJson {
+  [key: string]: ResponseJson;
+}
+
+interface TestResponse {
+  status: number;
+  headers: Record<string, string>; // lower-case names
+  body: ResponseJson;
+  text: string;
+}
+
+type Client = (
+  method: 'get' | 'post' | 'delete',
+  url: string,
+  body?: unknown,
+  headers?: Record<string, string>
+) => Promise<TestResponse>;
+
+// Sent by every test request; both apps trust it as the client address, and
+// Express, like the edge, vouches for it as the connecting address too
+const CLIENT_IP = '203.0.113.10';
+
+const APPS: Array<[string, (deps: CoreDeps) => Client]> = [
+  [
+    'express',
+    (deps) => {
+      const app = createApp(deps);
+      app.set('trust proxy', 'loopback'); // supertest connects as the reverse proxy would
+
+      return async (method, url, body, headers = {}) => {
+        const agent = request(app);
+        const res = await agent[method](url)
+          .set({ 'CF-Connecting-IP': CLIENT_IP, 'X-Forwarded-For': CLIENT_IP, ...headers })
+          .send(body as object);
+        return { status: res.status, headers: res.headers, body: res.body, text: res.text };
+      };
+    },
+  ],
+  [
+    'worker',
+    (deps) => {
+      const app = createWorkerApp(() => deps);
+
+      return async (method, url, body, headers = {}) => {
+        const res = await app.request(
+          url,
+          {
+            method: method.toUpperCase(),
+            headers: {
+              'Content-Type': 'application/json',
+              'CF-Connecting-IP': CLIENT_IP,
+              ...headers,
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+          },
+          WORKER_ENV
+        );
+        const text = await res.text();
+        const isJson = res.headers.get('Content-Type')?.includes('application/json');
+        const resHeaders = Object.fromEntries(res.headers);
+        return {
+          status: res.status,
+          headers: resHeaders,
+          body: isJson ? JSON.parse(text) : {},
+          text,
+        };
+      };
+    },
+  ],
+];
+
+// Bindings the Worker app reads itself; the routes get their deps from the test
+const WORKER_ENV = { NODE_ENV: 'test' } as Env;
+
+// node:sqlite needs Node.js 22.13+, which CI pins; older runtimes run in memory only
+const hasNodeSQLite = (() => {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    require('node:sqlite');
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+const STORES: Array<[string, () => CoreStores]> = [
+  ['in-memory', createInMemoryStores],
+  ...(hasNodeSQLite
+    ? ([
+        [
+          'sqlite',
+          () => {
+            const connection = openSQLiteDatabase(':memory:');
+            applyMigrations(connection, path.resolve(__dirname, '../../../migrations'));
+            return createD1Stores(asD1Database(connection), new InMemoryRateLimitRepository());
+          },
+        ],
+      ] as Array<[string, () => CoreStores]>)
+    : []),
+];
+
+const VISITOR_ID = 'visitor-0123456789';
+const ADMIN_TOKEN = 'admin-token-demo';
+
+const SCAN: SharedScan = {
+  id: 'scan-demo',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  privacyScore: {
+    total: 68,
+    riskLevel: 'medium',
+    breakdown: {
+      ipPrivacy: 14,
+      dnsPrivacy: 12,
+      webrtcPrivacy: 12,
+      fingerprintResistance: 18,
+      browserConfig: 12,
+    },
+  },
+  ip: { address: '198.51.100.10', privacy: { isVpn: true } },
+};
+
+// Stands in for the runtime's provider stack
+const IP_INFO: Record<string, Pick<IPLeakResult['network'], 'asn' | 'isp'>> = {
+  [CLIENT_IP]: { asn: 'AS64500', isp: 'Example VPN' },
+  '203.0.113.53': { asn: 'AS64500', isp: 'Example VPN' },
+  '198.51.100.53': { asn: 'AS64511', isp: 'Home ISP' },
+};
+
+// Addresses on the Tor exit / VPN / hosting lists, with the ASN they were checked with
+const RANGE_CHECKS: Array<[string, string | undefined]> = [];
+const VPN_EXIT = '198.51.100.66';
+
+const ipDetector = {
+  async checkRanges(ip: string, asn?: string): Promise<IPRangeVerdict | undefined> {
+    RANGE_CHECKS.push([ip, asn]);
+    if (ip !== VPN_EXIT) return undefined;
+    return {
+      ip,
+      isTor: false,
+      isVPN: true,
+      isDatacenter: false,
+      isProxy: false,
+      matches: [
+        {
+          category: 'vpn',
+          list: 'vpn-exits',
+          matched: '198.51.100.0/24',
+          updatedAt: '2026-01-01T00:00:00.000Z',
+          ageSeconds: 0,
+          stale: false,
+        },
+      ],
+      checkedAt: '2026-01-01T00:00:00.000Z',
+    };
+  },
+  async detect(ip: string): Promise<IPLeakResult> {
+    const network = IP_INFO[ip] ?? { asn: 'AS0', isp: 'Unknown' };
+    return {
+      ip,
+      version: ip.includes(':') ? 'ipv6' : 'ipv4',
+      geo: {
+        country: 'United States',
+        countryCode: 'US',
+        city: '',
+        region: '',
+        latitude: 0,
+        longitude: 0,
+        timezone: '',
+      },
+      network: { ...network, organization: network.isp },
+      privacy: { isProxy: false, isVPN: false, isDatacenter: false, isTor: false, isRelay: false },
+      reputation: { score: 20, isBlacklisted: false, categories: [] },
+    };
+  },
+};
+
+// Smallest ClientHello the parser accepts: TLS 1.2, one cipher suite, no extensions
+const CLIENT_HELLO = (() => {
+  const body = [0x03, 0x03, ...new Array(32).fill(7), 0, 0, 2, 0x13, 0x01, 1, 0, 0, 0];
+  const handshake = [0x01, 0, body.length >> 8, body.length & 0xff, ...body];
+  return Buffer.from([0x16, 0x03, 0x01, 0, handshake.length, ...handshake]).toString('base64');
+})();
+
+const FINGERPRINT = {
+  canvas: { hash: 'canvas-a', winding: true },
+  webgl: { hash: 'webgl-a', vendor: 'Example', renderer: 'Example GPU' },
+  timezone: { name: 'America/New_York', offset: 300 },
+  screen: { width: 1920, height: 1080, colorDepth: 24, pixelRatio: 1 },
+};
+
+const LEAK_SNAPSHOT: Omit<LeakLogEntry, 'id' | 'createdAt'> = {
+  privacyScore: 72,
+  entropyScore: 28,
+  leaks: { webrtc: false, dns: 'none', battery: false, motion: false },
+  apiSurface: { isp: 'Example ISP' },
+  report: {
+    meta: { scanId: 'scan-demo', time: 0 },
+    privacyIndex: { score: 72, exposureLevel: 'low', leakedBits: 8 },
+    hardwareLeaks: {},
+    networkLeaks: {},
+    apiSurface: {},
+  },
+};
+
+const OPTIONS: CoreOptions = {
+  frontendUrl: 'https://browserleaks.test',
+  ip: ipDetector,
+  dnsLeakZone: 'dnsleak.test',
+  ipv6ProbeOrigins: {
+    ipv4: 'https://ipv4.browserleaks.test',
+    ipv6: 'https://ipv6.browserleaks.test',
+    dual: 'https://api.browserleaks.test',
+  },
+  tlsClientHelloHeader: 'X-Client-Hello',
+  telemetry: { heartbeatMs: 20, maxStreamMs: 50 },
+  adminToken: ADMIN_TOKEN,
+};
+
+describe.each(APPS)('%s app', (_app, createClient) => {
+  describe.each(STORES)('with %s storage', (_store, createStores) => {
+    let stores: CoreStores;
+    let deps: CoreDeps;
+    let client: Client;
+
+    beforeEach(() => {
+      stores = createStores();
+      deps = createCoreDeps(stores, OPTIONS);
+      client = createClient(deps);
+    });
+
+    afterEach(() => {
+      RANGE_CHECKS.length = 0;
+      vi.useRealTimers();
+    });
+
+    describe('share', () => {
+      it('creates a link and counts views', async () => {
+        const create = await client('post', '/v1/share', {
+          scan: SCAN,
+          options: { maxViews: 2, hideIP: true },
+        });
+
+        expect(create.status).toBe(201);
+        const { code } = create.body.data;
+        expect(create.body.data).toEqual({
+          code,
+          url: `https://browserleaks.test/share/${code}`,
+          expiresAt: null,
+          maxViews: 2,
+        });
+
+        const first = await client('get', `/v1/share/${code}`);
+        expect(first.status).toBe(200);
+        expect(first.body.data).toMatchObject({ viewCount: 1, remainingViews: 1 });
+        expect(first.body.data.scan.ip.address).toBe('198.51.*.*');
+        expect(first.body.data.scan.shared.isShared).toBe(true);
+
+        await client('get', `/v1/share/${code}`);
+        const limited = await client('get', `/v1/share/${code}`);
+        expect(limited.status).toBe(410);
+        expect(limited.body.error.code).toBe('SHARE_MAX_VIEWS');
+
+        const stats = await client('get', `/v1/share/${code}/stats`);
+        expect(stats.body.data).toMatchObject({
+          viewCount: 2,
+          maxViews: 2,
+          isExpired: false,
+          isMaxViews: true,
+        });
+      });
+
+      it('expires links and deletes them on access', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        const create = await client('post', '/v1/share', {
+          scan: SCAN,
+          options: { expiresIn: 3600 },
+        });
+        const { code } = create.body.data;
+
+        vi.setSystemTime(Date.now() + 3601 * 1000);
+
+        const expired = await client('get', `/v1/share/${code}`);
+        expect(expired.status).toBe(410);
+        expect(expired.body.error.code).toBe('SHARE_EXPIRED');
+        expect((await client('get', `/v1/share/${code}/stats`)).status).toBe(404);
+      });
+
+      it('rejects invalid options with a validation error', async () => {
+        const res = await client('post', '/v1/share', { scan: SCAN, options: { expiresIn: 60 } });
+
+        expect(res.status).toBe(400);
+        expect(res.body.error.code).toBe('VALIDATION_ERROR');
+        expect(res.body.error.details.fields['options.expiresIn']).toBeDefined();
+      });
+
+      it('deletes links', async () => {
+        const { code } = (await client('post', '/v1/share', { scan: SCAN })).body.data;
+
+        expect((await client('delete', `/v1/share/${code}`)).status).toBe(200);
+        expect((await client('delete', `/v1/share/${code}`)).body.error.code).toBe(
+          'SHARE_NOT_FOUND'
+        );
+        expect((await client('get', `/v1/share/${code}`)).status).toBe(404);
+      });
+    });
+
+    describe('history', () => {
+      const save = (scan: object) => client('post', '/v1/history', { visitorId: VISITOR_ID, scan });
+
+      it('saves, lists and fetches scans', async () => {
+        const saved = await save({ privacyScore: { total: 40, riskLevel: 'high' } });
+
+        expect(saved.status).toBe(201);
+        const { scanId } = saved.body.data;
+
+        const list = await client('get', `/v1/history?visitorId=${VISITOR_ID}&limit=5`);
+        expect(list.status).toBe(200);
+        expect(list.body.data.pagination).toEqual({
+          total: 1,
+          limit: 5,
+          offset: 0,
+          hasMore: false,
+        });
+        expect(list.body.data.scans[0].id).toBe(scanId);
+
+        const scan = await client('get', `/v1/history/${scanId}`);
+        expect(scan.body.data.privacyScore).toMatchObject({ total: 40, riskLevel: 'high' });
+      });
+
+      it('compares scans', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+        const first = await save({ ip: { address: '203.0.113.1', privacy: { isVpn: false } } });
+        vi.setSystemTime(new Date('2026-01-02T00:00:00Z'));
+        const second = await save({ ip: { address: '203.0.113.2', privacy: { isVpn: true } } });
+
+        const res = await client('post', '/v1/history/compare', {
+          scanIds: [first.body.data.scanId, second.body.data.scanId],
+        });
+
+        expect(res.status).toBe(200);
+        expect(res.body.data.changes).toEqual([
+          'IP changed from 203.0.113.1 to 203.0.113.2',
+          'VPN enabled',
+        ]);
+      });
+
+      it('only deletes scans of the given visitor', async () => {
+        const { scanId } = (await save({})).body.data;
+
+        const missingVisitor = await client('delete', `/v1/history/${scanId}`);
+        expect(missingVisitor.status).toBe(400);
+        expect(missingVisitor.body.error.code).toBe('INVALID_REQUEST');
+
+        const otherVisitor = await client('delete', `/v1/history/${scanId}?visitorId=someone-else`);
+        expect(otherVisitor.status).toBe(404);
+
+        expect(
+          (await client('delete', `/v1/history/${scanId}?visitorId=${VISITOR_ID}`)).status
+        ).toBe(200);
+        expect((await client('get', `/v1/history/${scanId}`)).status).toBe(404);
+      });
+
+      it('rejects a short visitor ID', async () => {
+        const res = await client('get', '/v1/history?visitorId=short');
+
+        expect(res.status).toBe(400);
+        expect(res.body.error.code).toBe('VALIDATION_ERROR');
+      });
+    });
+
+    describe('automation', () => {
+      it('scores browser signals', async () => {
+        const res = await client('post', '/v1/detect/automation', {
+          webdriver: true,
+          cdpRuntime: false,
+          headlessTraits: [],
+          stealthLeftovers: [],
+          automationGlobals: [],
+          workerMismatches: [],
+        });
+
+        expect(res.status).toBe(200);
+        expect(res.body.data.likelihood).toBe('likely-bot');
+        expect(res.body.data.evidence[0]).toMatchObject({ check: 'webdriver', weight: 60 });
+      });
+
+      it('rejects incomplete signals', async () => {
+        const res = await client('post', '/v1/detect/automation', { webdriver: true });
+
+        expect(res.status).toBe(400);
+        expect(res.body.error.details.fields.cdpRuntime).toBeDefined();
+      });
+    });
+
+    describe('events', () => {
+      const capture = (summary: string) =>
+        deps.telemetry.capture({
+          type: 'ip-detect',
+          source: 'ip',
+          severity: 'medium',
+          summary,
+          snapshot: LEAK_SNAPSHOT,
+        });
+
+      it('seeds the stream with recent leaks, then sends live events', async () => {
+        await capture('Earlier scan');
+        // Captured once the stream has read its seed and is listening
+        const readSeed = stores.telemetry.getRecentLeakLogs.bind(stores.telemetry);
+        vi.spyOn(stores.telemetry, 'getRecentLeakLogs').mockImplementation(async (limit) => {
+          setTimeout(() => void capture('Live scan'), 0);
+          return readSeed(limit);
+        });
+
+        const res = await client('get', '/v1/events/stream');
+
+        expect(res.status).toBe(200);
+        const events = res.text
+          .trim()
+          .split('\n\n')
+          .map((message) => {
+            const [, event, data] = message.match(/^event: (\w+)\ndata: (.*)$/) ?? [];
+            return { event, data: JSON.parse(data) };
+          });
+        expect(events[0].event).toBe('seed');
+        expect(events[0].data).toMatchObject({ privacyScore: 72, leaks: { dns: 'none' } });
+        expect(events[1].event).toBe('telemetry');
+        expect(events[1].data).toMatchObject({ summary: 'Live scan', severity: 'medium' });
+        expect(events.slice(2).map(({ event }) => event)).toContain('heartbeat');
+      });
+
+      it('logs client events', async () => {
+        const res = await client('post', '/v1/events/log', {
+          type: 'scan',
+          visitorId: VISITOR_ID,
+          data: { score: 40 },
+        });
+
+        expect(res.status).toBe(200);
+        expect(res.body.data).toEqual({
+          id: expect.any(String),
+          message: 'Event logged successfully',
+        });
+      });
+
+      it('rejects events that are not objects', async () => {
+        const res = await client('post', '/v1/events/log', { data: 'scan' });
+
+        expect(res.status).toBe(400);
+        expect(res.body.error.details.fields.data).toBeDefined();
+      });
+    });
+
+    describe('ip', () => {
+      it('detects the client address and reports it to telemetry', async () => {
+        const res = await client('post', '/v1/detect/ip', {});
+
+        expect(res.status).toBe(200);
+        expect(res.body.data).toMatchObject({ ip: CLIENT_IP, network: { asn: 'AS64500' } });
+        await vi.waitFor(async () => {
+          const [entry] = await stores.telemetry.getRecentLeakLogs(1);
+          expect(entry).toMatchObject({ privacyScore: 80, apiSurface: { asn: 'AS64500' } });
+        });
+      });
+
+      it('looks up a given address', async () => {
+        const res = await client('get', '/v1/detect/ip/198.51.100.53');
+
+        expect(res.status).toBe(200);
+        expect(res.body.data.network.isp).toBe('Home ISP');
+      });
+
+      it('rejects an address that is not an IP', async () => {
+        const res = await client('get', '/v1/detect/ip/not-an-ip');
+
+        expect(res.status).toBe(400);
+        expect(res.body.error.details.fields.ip).toBeDefined();
+      });
+    });
+
+    describe('dns leak', () => {
+      it('classifies the resolvers recorded for a test', async () => {
+        const created = await client('post', '/v1/dns-leak/tests');
+
+        expect(created.status).toBe(201);
+        const { testId, probes } = created.body.data;
+        await deps.dnsLeaks.recordQuery(String(probes[0]), '203.0.113.53');
+        await deps.dnsLeaks.recordQuery(String(probes[1]), '198.51.100.53');
+
+        const res = await client('post', '/v1/detect/dns-leak', { testId });
+
+        expect(res.status).toBe(200);
+        expect(res.body.data).toMatchObject({
+          clientIp: CLIENT_IP,
+          leakType: 'partial',
+          probesResolved: 2,
+        });
+      });
+
+      it('reports an unknown test', async () => {
+        const res = await client('post', '/v1/detect/dns-leak', { testId: 'a'.repeat(32) });
+
+        expect(res.status).toBe(404);
+        expect(res.body.error.code).toBe('DNS_LEAK_TEST_NOT_FOUND');
+      });
+    });
+
+    describe('ipv6 leak', () => {
+      it('records probes and correlates them', async () => {
+        const created = await client('post', '/v1/ipv6-leak/tests');
+
+        expect(created.status).toBe(201);
+        const { testId } = created.body.data;
+
+        const probe = await client('get', `/v1/ipv6-leak/tests/${testId}/ipv4`);
+        expect(probe.status).toBe(200);
+        expect(probe.body.data).toEqual({ endpoint: 'ipv4', ip: CLIENT_IP });
+
+        const res = await client('post', '/v1/detect/ipv6-leak', { testId });
+        expect(res.status).toBe(200);
+        expect(res.body.data).toMatchObject({ testId, isLeak: false, ipv6Reachable: false });
+      });
+
+      it('rejects probes for unknown tests and endpoints', async () => {
+        const testId = 'b'.repeat(32);
+
+        expect((await client('get', `/v1/ipv6-leak/tests/${testId}/ipv4`)).status).toBe(404);
+        expect((await client('get', `/v1/ipv6-leak/tests/${testId}/ipx`)).status).toBe(400);
+      });
+    });
+
+    describe('webrtc leak', () => {
+      it('accepts mDNS hostnames in place of local IPs', async () => {
+        const res = await client('post', '/v1/detect/webrtc-leak', {
+          localIPs: ['0f2c3e1a-7b9d-4c5e-8f6a-1b2c3d4e5f60.local'],
+          candidates: [{ ip: '198.51.100.53', type: 'srflx' }],
+        });
+
+        expect(res.status).toBe(200);
+        expect(res.body.data).toMatchObject({
+          isLeak: true,
+          mdnsLeak: true,
+          publicIPs: ['198.51.100.53'],
+          natType: 'srflx',
+        });
+        expect(res.body.data.stunResults[0].server).toBe('unknown');
+      });
+    });
+
+    describe('http headers', () => {
+      it('echoes headers and flags contradicting client hints', async () => {
+        const res = await client('get', '/v1/http-headers', undefined, {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/131.0.0.0',
+          'Sec-CH-UA-Platform': '"macOS"',
+        });
+
+        expect(res.status).toBe(200);
+        const { data } = res.body;
+        expect(data.clientHints).toEqual({ 'sec-ch-ua-platform': '"macOS"' });
+        expect(data.inconsistencies[0]).toMatchObject({ check: 'platform', observed: 'Windows' });
+        // Only Node sees the wire order; the Worker must not fingerprint a sorted one
+        expect(data.orderFingerprint === null).toBe(!data.orderPreserved);
+      });
+    });
+
+    describe('tls', () => {
+      it('fingerprints a forwarded ClientHello', async () => {
+        const res = await client('get', '/v1/tls/fingerprint', undefined, {
+          'X-Client-Hello': CLIENT_HELLO,
+        });
+
+        expect(res.status).toBe(200);
+        expect(res.body.data.source).toBe('client-hello');
+        expect(res.body.data.ja4).toMatch(/^t12/);
+      });
+
+      it('rejects a malformed ClientHello', async () => {
+        const res = await client('get', '/v1/tls/fingerprint', undefined, {
+          'X-Client-Hello': 'FgMBAAE=',
+        });
+
+        expect(res.status).toBe(400);
+        expect(res.body.error.code).toBe('INVALID_CLIENT_HELLO');
+      });
+
+      it('reports when nothing was captured', async () => {
+        const res = await client('get', '/v1/tls/fingerprint');
+
+        expect(res.status).toBe(503);
+        expect(res.body.error.code).toBe('TLS_CAPTURE_UNAVAILABLE');
+      });
+    });
+
+    describe('network', () => {
+      it('traces towards the client without a probe agent', async () => {
+        const res = await client('get', '/v1/network/insights?protocol=udp');
+
+        expect(res.status).toBe(200);
+        expect(res.body.data.traceroute).toMatchObject({
+          source: 'synthetic',
+          protocol: 'udp',
+          target: CLIENT_IP,
+        });
+        expect(res.body.data.ja3.hash).toBe('faux-ja3-hash-demo');
+      });
+
+      it('serves canned insights on request', async () => {
+        const res = await client('get', '/v1/network/insights?mock=true');
+
+        expect(res.body.data.ja3.hash).toBe('mocked-ja3-hash');
+      });
+    });
+
+    describe('privacy score', () => {
+      it('scores the reported address against the range lists', async () => {
+        const ipLeak = { ...(await ipDetector.detect(VPN_EXIT)), reputation: { score: 90 } };
+        const res = await client('post', '/v1/privacy-score', { ipLeak, dnsLeak: null });
+
+        expect(res.status).toBe(200);
+        expect(RANGE_CHECKS).toEqual([[VPN_EXIT, 'AS0']]);
+        const titles = Object.values(res.body.data.vulnerabilities).map((v) => String(v.title));
+        expect(titles).not.toContain('No VPN/Proxy Detected');
+        expect(res.body.data.breakdown.ipPrivacy).toBeGreaterThan(0);
+        await vi.waitFor(async () => {
+          const [entry] = await stores.telemetry.getRecentLeakLogs(1);
+          expect(entry).toMatchObject({ apiSurface: { ip: VPN_EXIT } });
+        });
+      });
+
+      it('checks the connecting address, without an ASN, when none is reported', async () => {
+        const res = await client('post', '/v1/privacy-score', {});
+
+        expect(res.status).toBe(200);
+        expect(RANGE_CHECKS).toEqual([[CLIENT_IP, undefined]]);
+        expect(res.body.data.totalScore).toBe(0);
+      });
+
+      it('rejects unknown policies and lists the known ones', async () => {
+        const res = await client('post', '/v1/privacy-score', { policy: 'paranoid' });
+        const policies = await client('get', '/v1/privacy-score/policies');
+
+        expect(res.status).toBe(400);
+        expect(res.body.error.code).toBe('UNKNOWN_POLICY');
+        expect(Object.values(policies.body.data).map((p) => String(p.name))).toContain(
+          'journalist'
+        );
+      });
+    });
+
+    describe('fingerprint', () => {
+      it('measures fingerprints against the ones seen before', async () => {
+        await client('post', '/v1/fingerprint', {
+          ...FINGERPRINT,
+          canvas: { hash: 'canvas-b', winding: true },
+        });
+        const res = await client('post', '/v1/fingerprint', FINGERPRINT);
+
+        expect(res.status).toBe(200);
+        expect(res.body.data.entropy.sampleSize).toBe(2);
+        expect(res.body.data.entropy.components.webgl.matches).toBe(2);
+        expect(res.body.data.entropy.components.canvas.matches).toBe(1);
+
+        const stats = await client('get', `/v1/fingerprint/${res.body.data.combinedHash}`);
+        expect(stats.body.data).toMatchObject({ seenCount: 1, uniqueness: 0.999 });
+      });
+
+      it('finds similar fingerprints', async () => {
+        await client('post', '/v1/fingerprint', {
+          ...FINGERPRINT,
+          canvas: { hash: 'canvas-b', winding: true },
+        });
+
+        const res = await client('post', '/v1/fingerprint/match?limit=1', FINGERPRINT);
+
+        expect(res.status).toBe(200);
+        expect(res.body.data.matches).toHaveLength(1);
+        expect(res.body.data.matches[0].exact).toBe(false);
+      });
+
+      it('saves full scans to the visitor history', async () => {
+        const res = await client('post', '/v1/fingerprint/scan', {
+          fingerprint: { ...FINGERPRINT, visitorId: VISITOR_ID },
+          dnsLeak: { isLeak: false, leakType: 'none', servers: [] },
+        });
+
+        expect(res.status).toBe(200);
+        expect(res.body.data.ip).toMatchObject({ address: CLIENT_IP, network: { asn: 'AS64500' } });
+        await vi.waitFor(async () => {
+          const list = await client('get', `/v1/history?visitorId=${VISITOR_ID}`);
+          expect(list.body.data.scans[0].id).toBe(res.body.data.scanId);
+        });
+      });
+
+      it('reports drift between snapshots', async () => {
+        const snapshot = (value: string) => ({
+          visitorId: VISITOR_ID,
+          fingerprint: {
+            visitorId: 'fp-1',
+            confidence: 0.9,
+            timestamp: 0,
+            components: { canvas: { status: 'success', value, duration: 1 } },
+          },
+        });
+
+        expect((await client('get', `/v1/fingerprint/drift/${VISITOR_ID}`)).status).toBe(404);
+
+        await client('post', '/v1/fingerprint/snapshots', snapshot('a'));
+        const res = await client('post', '/v1/fingerprint/snapshots', snapshot('b'));
+
+        expect(res.status).toBe(201);
+        expect(res.body.data.drift).not.toBeNull();
+        const report = await client('get', `/v1/fingerprint/drift/${VISITOR_ID}`);
+        expect(report.body.data.snapshotCount).toBe(2);
+      });
+    });
+
+    describe('api keys', () => {
+      const issueKey = async (tier = 'free') => {
+        const res = await client(
+          'post',
+          '/v1/keys',
+          { name: 'ci', tier },
+          { 'X-Admin-Token': ADMIN_TOKEN }
+        );
+        return res.body.data as unknown as IssuedApiKey;
+      };
+
+      it('issues keys to admins only', async () => {
+        const denied = await client('post', '/v1/keys', { name: 'ci' });
+        expect(denied.status).toBe(403);
+        expect(denied.body.error.code).toBe('FORBIDDEN');
+
+        const issued = await issueKey('pro');
+        expect(issued.key).toMatch(/^bl_[0-9a-f]{40}$/);
+        expect(issued.apiKey).toMatchObject({ name: 'ci', tier: 'pro', revokedAt: null });
+
+        const internal = await issueKey('internal');
+        const list = await client('get', '/v1/keys', undefined, { 'X-API-Key': internal.key });
+        const keys = list.body.data as unknown as ApiKeyInfo[];
+        expect(keys.map((info) => info.tier)).toEqual(['pro', 'internal']);
+      });
+
+      it('meters keyed requests against the tier quota', async () => {
+        const { key } = await issueKey();
+
+        const res = await client('post', '/v1/detect/automation', {}, { 'X-API-Key': key });
+        expect(res.headers['x-ratelimit-limit']).toBe('1000');
+        expect(res.headers['x-ratelimit-remaining']).toBe('999');
+
+        const quota = await client('get', '/v1/quota', undefined, { 'X-API-Key': key });
+        expect(quota.body.data.tier).toBe('free');
+        expect(quota.body.data.quotas).toContainEqual(
+          expect.objectContaining({ group: 'detect', used: 1, remaining: 999 })
+        );
+      });
+
+      it('lets a key rotate and revoke itself', async () => {
+        const { key, apiKey } = await issueKey();
+
+        const rotated = await client('post', `/v1/keys/${apiKey.id}/rotate`, undefined, {
+          'X-API-Key': key,
+        });
+        expect(rotated.status).toBe(200);
+        const stale = await client('get', '/v1/quota', undefined, { 'X-API-Key': key });
+        expect(stale.status).toBe(401);
+        expect(stale.body.error.code).toBe('INVALID_API_KEY');
+
+        const { key: newKey } = rotated.body.data as unknown as IssuedApiKey;
+        const headers = { 'X-API-Key': newKey };
+        const revoked = await client('delete', `/v1/keys/${apiKey.id}`, undefined, headers);
+        expect(revoked.body.data.revokedAt).toEqual(expect.any(String));
+        expect((await client('get', '/v1/quota', undefined, headers)).status).toBe(401);
+      });
+
+      it('reports the anonymous quota of the address', async () => {
+        await client('get', '/v1/network/insights?mock=true');
+        const res = await client('get', '/v1/quota');
+
+        expect(res.body.data).toMatchObject({ tier: 'anonymous', keyId: null });
+        expect(res.body.data.quotas[0]).toMatchObject({ group: 'all', limit: 100, used: 5 });
+      });
+    });
+
+    describe('rate limits', () => {
+      it('charges anonymous requests by route cost and sends Retry-After', async () => {
+        const insights = () => client('get', '/v1/network/insights?mock=true');
+        for (let i = 0; i < 4; i++) expect((await insights()).status).toBe(200);
+
+        const res = await insights();
+
+        expect(res.status).toBe(429);
+        expect(res.body.error.code).toBe('RATE_LIMIT_EXCEEDED');
+        expect(Number(res.headers['retry-after'])).toBeGreaterThan(0);
+        expect(res.headers['x-ratelimit-cost']).toBe('5');
+      });
+    });
+  });
+});
+
+describe('express app without a trusted proxy', () => {
+  it('traces towards the connecting address, not a forwarded one', async () => {
+    const app = createApp(createCoreDeps(createInMemoryStores(), OPTIONS));
+
+    const res = await request(app)
+      .get('/v1/network/insights')
+      .set({ 'CF-Connecting-IP': VPN_EXIT, 'X-Forwarded-For': VPN_EXIT });
+
+    expect(res.status).toBe(200);
+    expect(['127.0.0.1', '::1']).toContain(res.body.data.traceroute.target);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import app from '../../app';
+
+describe('GET /v1/http-headers', () => {
+  it('should echo headers in the order they were sent', async () => {
+    const response = await request(app)
+      .get('/v1/http-headers')
+      .set('X-First', '1')
+      .set('Sec-CH-UA-Platform', '"Linux"')
+      .set('X-Last', '2')
+      .set('User-Agent', 'Mozilla/5.0 (X11; Linux x86_64) Chrome/131.0.0.0')
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    const { data } = response.body;
+    const names: string[] = data.headers.map((h: { name: string }) => h.name.toLowerCase());
+
+    expect(data.orderPreserved).toBe(true);
+    expect(names.indexOf('x-first')).toBeLessThan(names.indexOf('x-last'));
+    expect(data.headerOrder).toEqual(names);
+    expect(data.clientHints).toEqual({ 'sec-ch-ua-platform': '"Linux"' });
+    expect(data.connection.httpProtocol).toBe('HTTP/1.1');
+    expect(data.inconsistencies).toEqual([]);
+  });
+
+  it('should report user agent and client hint contradictions', async () => {
+    const response = await request(app)
+      .get('/v1/http-headers')
+      .set('User-Agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/131.0.0.0')
+      .set('Sec-CH-UA-Platform', '"macOS"')
+      .expect(200);
+
+    expect(response.body.data.inconsistencies).toEqual([
+      expect.objectContaining({ check: 'platform', expected: 'macOS', observed: 'Windows' }),
+    ]);
+  });
+});
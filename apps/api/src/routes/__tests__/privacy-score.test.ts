@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import request from 'supertest';
 import app from '../../app';
 import type { IPLeakResult, DNSLeakResult, WebRTCLeakResult } from '@browserleaks/types';
@@ -57,6 +57,10 @@ const makeDNSLeak = (overrides: Partial<DNSLeakResult> = {}): DNSLeakResult => {
     testId: 'dns-test',
     isLeak: false,
     leakType: 'none',
+    clientIp: '203.0.113.10',
+    clientAsn: 'AS64500',
+    probeCount: 6,
+    probesResolved: 6,
     servers: [],
     dohEnabled: true,
     dotEnabled: true,
@@ -97,6 +101,17 @@ const makeWebRTCLeak = (overrides: Partial<WebRTCLeakResult> = {}): WebRTCLeakRe
 };
 
 describe('POST /v1/privacy-score', () => {
+  // A minute between tests refills the anonymous burst bucket the whole file shares
+  let clock = Date.now();
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime((clock += 60_000));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
   it('should return privacy score for valid input', async () => {
     const mockInput = {
       ipLeak: makeIPLeak(),
@@ -161,7 +176,7 @@ describe('POST /v1/privacy-score', () => {
       dnsLeak: makeDNSLeak({
         isLeak: true,
         leakType: 'full',
-        servers: [{ ip: '8.8.8.8', country: 'US', countryCode: 'US', isp: 'Google', isISP: true }],
+        servers: [{ ip: '8.8.8.8', country: 'US', countryCode: 'US', isp: 'Google', asn: 'AS64500', isISP: true, queryCount: 1 }],
         dohEnabled: false,
         dotEnabled: false,
         risks: [{ severity: 'high', title: 'DNS queries exposed', description: 'Resolvers outside VPN' }],
@@ -226,6 +241,73 @@ describe('POST /v1/privacy-score', () => {
     expect(response.body.data.breakdown.webrtcPrivacy).toBe(0);
   });
 
+  it('should score with the requested policy', async () => {
+    const response = await request(app)
+      .post('/v1/privacy-score')
+      .send({ ipLeak: makeIPLeak(), policy: 'journalist' })
+      .expect(200);
+
+    expect(response.body.data.policy).toEqual({ name: 'journalist', version: '1.0.0' });
+    expect(response.body.data.breakdown.ipPrivacy).toBe(27);
+    expect(response.body.data.normalized.ipPrivacy).toBe(0.9);
+  });
+
+  it('should score fingerprint resistance from the submitted fingerprint', async () => {
+    const input = { ipLeak: makeIPLeak(), policy: 'anti-fraud-qa' };
+
+    const without = await request(app).post('/v1/privacy-score').send(input).expect(200);
+    const withFingerprint = await request(app)
+      .post('/v1/privacy-score')
+      .send({ ...input, fingerprint: { canvasHash: 'c0ffee', uniquenessScore: 20 } })
+      .expect(200);
+
+    expect(without.body.data.breakdown.fingerprintResistance).toBe(0);
+    expect(withFingerprint.body.data.breakdown.fingerprintResistance).toBeGreaterThan(0);
+    expect(withFingerprint.body.data.totalScore).toBeGreaterThan(without.body.data.totalScore);
+  });
+
+  it('should reject unknown policies', async () => {
+    const response = await request(app)
+      .post('/v1/privacy-score')
+      .send({ policy: 'paranoid' })
+      .expect(400);
+
+    expect(response.body.error.code).toBe('UNKNOWN_POLICY');
+  });
+
+  it('should list scoring policies', async () => {
+    const response = await request(app).get('/v1/privacy-score/policies').expect(200);
+
+    expect(response.body.data.map((p: { name: string }) => p.name)).toEqual([
+      'standard',
+      'journalist',
+      'casual',
+      'anti-fraud-qa',
+    ]);
+  });
+
+  it('should report mismatches between request headers and browser signals', async () => {
+    const response = await request(app)
+      .post('/v1/privacy-score')
+      .set('User-Agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/131.0.0.0')
+      .set('Sec-CH-UA-Platform', '"Linux"')
+      .set('Accept-Language', 'en-US,en;q=0.9')
+      .send({
+        ipLeak: makeIPLeak(),
+        timezone: { intlTimezone: 'Europe/Berlin' },
+        browserConfig: { languages: ['en-US', 'en'] },
+      })
+      .expect(200);
+
+    const checks = response.body.data.consistency.mismatches.map(
+      (m: { check: string }) => m.check
+    );
+    expect(checks).toEqual(['timezone-ip', 'platform-client-hints']);
+    expect(response.body.data.vulnerabilities).toContainEqual(
+      expect.objectContaining({ category: 'Consistency', severity: 'high' })
+    );
+  });
+
   it('should include timeline with current timestamp', async () => {
     const beforeTime = Date.now();
 
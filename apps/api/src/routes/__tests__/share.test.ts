@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
 import request from 'supertest';
 import type { SharedScan } from '@browserleaks/types';
 import app from '../../app';
@@ -59,15 +59,17 @@ const makeScan = (overrides: Partial<SharedScan> = {}): SharedScan => {
   };
 };
 
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
 describe('Share routes', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
   it('creates and fetches a share link', async () => {
     const create = await request(app)
       .post('/v1/share')
       .send({ scan: makeScan(), options: { maxViews: 5 } })
       .expect('Content-Type', /json/)
-      .expect(200);
+      .expect(201);
 
     expect(create.body.success).toBe(true);
     expect(create.body.data.code).toBeDefined();
@@ -97,7 +99,7 @@ describe('Share routes', () => {
     const create = await request(app)
       .post('/v1/share')
       .send({ scan: makeScan({ id: 'max-view' }), options: { maxViews: 1 } })
-      .expect(200);
+      .expect(201);
 
     const code = create.body.data.code as string;
 
@@ -106,13 +108,15 @@ describe('Share routes', () => {
   });
 
   it('expires links after configured TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+
     const create = await request(app)
       .post('/v1/share')
-      .send({ scan: makeScan({ id: 'ttl' }), options: { expiresIn: 1 } })
-      .expect(200);
+      .send({ scan: makeScan({ id: 'ttl' }), options: { expiresIn: 3600 } })
+      .expect(201);
 
     const code = create.body.data.code as string;
-    await sleep(1100);
+    vi.setSystemTime(Date.now() + 3601 * 1000);
 
     const expired = await request(app)
       .get(`/v1/share/${code}`)
@@ -5,8 +5,8 @@
  */
 
 import { Hono } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
 import type { AppContext } from '../types/env';
-import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
 
 const chatRequestSchema = z.object({
@@ -17,15 +17,24 @@ const chatRequestSchema = z.object({
   model: z.string().optional(),
 });
 
+interface ChatCompletion {
+  model: string;
+  choices: { message: { content: string } }[];
+  usage?: unknown;
+}
+
 const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
 const DEFAULT_MODEL = 'google/gemini-2.0-flash-exp:free';
 
 export function createAIChatRoutes() {
   const app = new Hono<AppContext>();
 
-  app.post('/ai/chat', zValidator('json', chatRequestSchema), async (c) => {
+  app.post('/ai/chat', async (c) => {
     const env = c.env;
-    const { messages, model = DEFAULT_MODEL } = c.req.valid('json');
+    // A ZodError is answered as VALIDATION_ERROR by the global error handler
+    const { messages, model = DEFAULT_MODEL } = chatRequestSchema.parse(
+      await c.req.json().catch(() => undefined)
+    );
 
     // Get API key from environment
     const apiKey = env.OPENROUTER_API_KEY;
@@ -92,11 +101,11 @@ Provide actionable recommendations.`,
               details: response.statusText,
             },
           },
-          response.status
+          response.status as ContentfulStatusCode
         );
       }
 
-      const data = await response.json();
+      const data = (await response.json()) as ChatCompletion;
 
       return c.json({
         success: true,
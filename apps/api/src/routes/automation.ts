@@ -0,0 +1,17 @@
+/**
+ * Automation Detection Routes
+ *
+ * Bot likelihood from browser automation signals.
+ * Handlers live in core/routes/automation and are shared with the Worker.
+ */
+
+import { createExpressRouter } from '../core/express';
+import type { CoreDeps } from '../core/deps';
+import { automationRoutes } from '../core/routes/automation';
+
+/**
+ * Create automation detection routes
+ */
+export function createAutomationRoutes(deps: CoreDeps) {
+  return createExpressRouter(automationRoutes, deps);
+}
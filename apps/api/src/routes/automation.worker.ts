@@ -0,0 +1,19 @@
+/**
+ * Automation Detection Routes (Hono Worker)
+ *
+ * Handlers live in core/routes/automation and are shared with the Express server.
+ *
+ * POST /v1/detect/automation - Score automation signals collected in the browser
+ */
+
+import { createHonoRouter } from '../core/hono.worker';
+import type { CoreDeps } from '../core/deps';
+import type { Env } from '../types/env';
+import { automationRoutes } from '../core/routes/automation';
+
+/**
+ * Create automation detection routes
+ */
+export function createAutomationRoutes(resolveDeps: (env: Env) => CoreDeps) {
+  return createHonoRouter(automationRoutes, resolveDeps);
+}
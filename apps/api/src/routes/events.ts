@@ -1,11 +1,17 @@
-import { Router } from 'express';
-import { telemetryService } from '../services/TelemetryService';
+/**
+ * Events Routes
+ *
+ * Live telemetry feed and client event logging.
+ * Handlers live in core/routes/events and are shared with the Worker.
+ */
 
-const router = Router();
+import { createExpressRouter } from '../core/express';
+import type { CoreDeps } from '../core/deps';
+import { eventsRoutes } from '../core/routes/events';
 
-router.get('/events/stream', async (req, res) => {
-  await telemetryService.seed(res);
-  telemetryService.stream(req, res);
-});
-
-export default router;
+/**
+ * Create events routes
+ */
+export function createEventsRoutes(deps: CoreDeps) {
+  return createExpressRouter(eventsRoutes, deps);
+}
@@ -0,0 +1,16 @@
+/**
+ * Fingerprint Drift Routes
+ *
+ * Handlers live in core/routes/fingerprint-drift and are shared with the Worker.
+ */
+
+import { createExpressRouter } from '../core/express';
+import type { CoreDeps } from '../core/deps';
+import { fingerprintDriftRoutes } from '../core/routes/fingerprint-drift';
+
+/**
+ * Create fingerprint drift routes
+ */
+export function createFingerprintDriftRoutes(deps: CoreDeps) {
+  return createExpressRouter(fingerprintDriftRoutes, deps);
+}
@@ -0,0 +1,20 @@
+/**
+ * Fingerprint Drift Routes (Hono Worker)
+ *
+ * Handlers live in core/routes/fingerprint-drift and are shared with the Express server.
+ *
+ * POST /v1/fingerprint/snapshots - Store a fingerprint snapshot
+ * GET /v1/fingerprint/drift/:visitorId - Get drift report for a visitor
+ */
+
+import { createHonoRouter } from '../core/hono.worker';
+import type { CoreDeps } from '../core/deps';
+import type { Env } from '../types/env';
+import { fingerprintDriftRoutes } from '../core/routes/fingerprint-drift';
+
+/**
+ * Create fingerprint drift routes
+ */
+export function createFingerprintDriftRoutes(resolveDeps: (env: Env) => CoreDeps) {
+  return createHonoRouter(fingerprintDriftRoutes, resolveDeps);
+}
@@ -0,0 +1,16 @@
+/**
+ * HTTP Headers Routes
+ *
+ * Handlers live in core/routes/http-headers and are shared with the Worker.
+ */
+
+import { createExpressRouter } from '../core/express';
+import type { CoreDeps } from '../core/deps';
+import { httpHeadersRoutes } from '../core/routes/http-headers';
+
+/**
+ * Create HTTP headers routes
+ */
+export function createHttpHeadersRoutes(deps: CoreDeps) {
+  return createExpressRouter(httpHeadersRoutes, deps);
+}
@@ -0,0 +1,19 @@
+/**
+ * HTTP Headers Routes (Hono Worker)
+ *
+ * Handlers live in core/routes/http-headers and are shared with the Express server.
+ *
+ * GET /v1/http-headers - Echo request headers with client hint analysis
+ */
+
+import { createHonoRouter } from '../core/hono.worker';
+import type { CoreDeps } from '../core/deps';
+import type { Env } from '../types/env';
+import { httpHeadersRoutes } from '../core/routes/http-headers';
+
+/**
+ * Create HTTP headers routes
+ */
+export function createHttpHeadersRoutes(resolveDeps: (env: Env) => CoreDeps) {
+  return createHonoRouter(httpHeadersRoutes, resolveDeps);
+}
@@ -1,158 +1,16 @@
-import { Router } from 'express';
-import { z } from 'zod';
-import { IPService } from '../services/IPService';
-import type { APIResponse, IPLeakResult } from '@browserleaks/types';
-import { telemetryService } from '../services/TelemetryService';
-import { log } from '../middleware/logger';
-import { getErrorMessage } from '../utils/errors';
-import { validate } from '../middleware/validate';
-
-const router = Router();
-const ipService = new IPService();
-
-const ipRequestSchema = z.object({
-  ip: z.string().ip({ version: 'v4' }).or(z.string().ip({ version: 'v6' })).optional(),
-});
-
 /**
- * POST /v1/detect/ip
- * Detect IP information
+ * IP Detection Routes
+ *
+ * Handlers live in core/routes/ip and are shared with the Worker.
  */
-router.post('/detect/ip', validate(ipRequestSchema), async (req, res) => {
-  try {
-    const { ip } = req.body;
-
-    // If no IP provided, detect client IP
-    const targetIP = ip || ipService.getClientIP(req);
-
-    // Detect IP information
-    const result = await ipService.detect(targetIP);
-
-    const response: APIResponse<IPLeakResult> = {
-      success: true,
-      data: result,
-    };
-
-    res.json(response);
-
-    telemetryService
-      .capture({
-        type: 'ip-detect',
-        source: 'ip-service',
-        severity: result.privacy.isProxy || result.privacy.isDatacenter ? 'medium' : 'low',
-        summary: `${result.ip} · ${result.geo.countryCode}`,
-        payload: result,
-        snapshot: {
-          privacyScore: Math.max(0, 100 - result.reputation.score),
-          entropyScore: result.reputation.score,
-          leaks: {
-            webrtc: false,
-            dns: 'none',
-            battery: false,
-            motion: false,
-          },
-          apiSurface: {
-            isp: result.network.isp,
-            asn: result.network.asn,
-          },
-          report: telemetryService.buildReportSnapshot({
-            meta: { scanId: `ip-${result.ip}`, time: Date.now() },
-            privacyIndex: {
-              score: Math.max(0, 100 - result.reputation.score),
-              exposureLevel: result.privacy.isProxy ? 'medium' : 'low',
-              leakedBits: result.privacy.isProxy ? 32 : 8,
-            },
-            networkLeaks: {
-              ip: result.ip,
-            },
-          }),
-        },
-      })
-      .catch((error) => {
-        log.warn('Telemetry capture failed (ip)', { error });
-      });
-  } catch (error: unknown) {
-    log.error('IP detection error', { error });
 
-    const response: APIResponse = {
-      success: false,
-      error: {
-        code: 'IP_DETECTION_ERROR',
-        message: getErrorMessage(error) || 'Failed to detect IP',
-      },
-    };
-
-    res.status(500).json(response);
-  }
-});
+import { createExpressRouter } from '../core/express';
+import type { CoreDeps } from '../core/deps';
+import { ipRoutes } from '../core/routes/ip';
 
 /**
- * GET /v1/detect/ip/:ip
- * Detect specific IP information
+ * Create IP detection routes
  */
-router.get('/detect/ip/:ip', async (req, res) => {
-  try {
-    const { ip } = req.params;
-
-    // Detect IP information
-    const result = await ipService.detect(ip);
-
-    const response: APIResponse<IPLeakResult> = {
-      success: true,
-      data: result,
-    };
-
-    res.json(response);
-
-    telemetryService
-      .capture({
-        type: 'ip-detect',
-        source: 'ip-service',
-        severity: result.privacy.isProxy || result.privacy.isDatacenter ? 'medium' : 'low',
-        summary: `${result.ip} · ${result.geo.countryCode}`,
-        payload: result,
-        snapshot: {
-          privacyScore: Math.max(0, 100 - result.reputation.score),
-          entropyScore: result.reputation.score,
-          leaks: {
-            webrtc: false,
-            dns: 'none',
-            battery: false,
-            motion: false,
-          },
-          apiSurface: {
-            isp: result.network.isp,
-            asn: result.network.asn,
-          },
-          report: telemetryService.buildReportSnapshot({
-            meta: { scanId: `ip-${result.ip}`, time: Date.now() },
-            privacyIndex: {
-              score: Math.max(0, 100 - result.reputation.score),
-              exposureLevel: result.privacy.isProxy ? 'medium' : 'low',
-              leakedBits: result.privacy.isProxy ? 32 : 8,
-            },
-            networkLeaks: {
-              ip: result.ip,
-            },
-          }),
-        },
-      })
-      .catch((error) => {
-        log.warn('Telemetry capture failed (ip-get)', { error });
-      });
-  } catch (error: unknown) {
-    log.error('IP detection error', { error });
-
-    const response: APIResponse = {
-      success: false,
-      error: {
-        code: 'IP_DETECTION_ERROR',
-        message: getErrorMessage(error) || 'Failed to detect IP',
-      },
-    };
-
-    res.status(500).json(response);
-  }
-});
-
-export default router;
+export function createIPRoutes(deps: CoreDeps) {
+  return createExpressRouter(ipRoutes, deps);
+}
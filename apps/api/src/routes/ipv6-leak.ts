@@ -0,0 +1,16 @@
+/**
+ * IPv6 Leak Detection Routes
+ *
+ * Handlers live in core/routes/ipv6-leak and are shared with the Worker.
+ */
+
+import { createExpressRouter } from '../core/express';
+import type { CoreDeps } from '../core/deps';
+import { ipv6LeakRoutes } from '../core/routes/ipv6-leak';
+
+/**
+ * Create IPv6 leak detection routes
+ */
+export function createIPv6LeakRoutes(deps: CoreDeps) {
+  return createExpressRouter(ipv6LeakRoutes, deps);
+}
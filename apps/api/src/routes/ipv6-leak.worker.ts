@@ -0,0 +1,21 @@
+/**
+ * IPv6 Leak Detection Routes (Hono Worker)
+ *
+ * Handlers live in core/routes/ipv6-leak and are shared with the Express server.
+ *
+ * POST /v1/ipv6-leak/tests - Start a dual-stack leak test
+ * GET /v1/ipv6-leak/tests/:testId/:endpoint - Probe request from one endpoint
+ * POST /v1/detect/ipv6-leak - Correlate the probes of a test
+ */
+
+import { createHonoRouter } from '../core/hono.worker';
+import type { CoreDeps } from '../core/deps';
+import type { Env } from '../types/env';
+import { ipv6LeakRoutes } from '../core/routes/ipv6-leak';
+
+/**
+ * Create IPv6 leak detection routes
+ */
+export function createIPv6LeakRoutes(resolveDeps: (env: Env) => CoreDeps) {
+  return createHonoRouter(ipv6LeakRoutes, resolveDeps);
+}
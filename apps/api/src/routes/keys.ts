@@ -0,0 +1,16 @@
+/**
+ * API Key Routes
+ *
+ * Handlers live in core/routes/keys and are shared with the Worker.
+ */
+
+import { createExpressRouter } from '../core/express';
+import type { CoreDeps } from '../core/deps';
+import { keyRoutes } from '../core/routes/keys';
+
+/**
+ * Create API key routes
+ */
+export function createKeyRoutes(deps: CoreDeps) {
+  return createExpressRouter(keyRoutes, deps);
+}
@@ -0,0 +1,23 @@
+/**
+ * API Key Routes (Hono Worker)
+ *
+ * Handlers live in core/routes/keys and are shared with the Express server.
+ *
+ * POST /v1/keys - Issue a key (admin)
+ * GET /v1/keys - List keys (admin)
+ * POST /v1/keys/:id/rotate - Replace a key's secret (admin or the key itself)
+ * DELETE /v1/keys/:id - Revoke a key (admin or the key itself)
+ * GET /v1/quota - Remaining quota of the calling key, or of the anonymous IP
+ */
+
+import { createHonoRouter } from '../core/hono.worker';
+import type { CoreDeps } from '../core/deps';
+import type { Env } from '../types/env';
+import { keyRoutes } from '../core/routes/keys';
+
+/**
+ * Create API key routes
+ */
+export function createKeyRoutes(resolveDeps: (env: Env) => CoreDeps) {
+  return createHonoRouter(keyRoutes, resolveDeps);
+}
@@ -1,82 +1,16 @@
-import { Router } from 'express';
-import { PrivacyScoreService } from '../services/PrivacyScoreService';
-import type { APIResponse, PrivacyScore } from '@browserleaks/types';
-import { telemetryService } from '../services/TelemetryService';
-import { log } from '../middleware/logger';
-import { getErrorMessage } from '../utils/errors';
-
-const router = Router();
-const privacyScoreService = new PrivacyScoreService();
-
 /**
- * POST /v1/privacy-score
- * Calculate comprehensive privacy score
+ * Privacy Score Routes
+ *
+ * Handlers live in core/routes/privacy-score and are shared with the Worker.
  */
-router.post('/privacy-score', async (req, res) => {
-  try {
-    const { ipLeak, dnsLeak, webrtcLeak } = req.body;
-
-    // Calculate privacy score
-    const result = await privacyScoreService.calculate({
-      ipLeak,
-      dnsLeak,
-      webrtcLeak,
-    });
-
-    const response: APIResponse<PrivacyScore> = {
-      success: true,
-      data: result,
-    };
-
-    res.json(response);
 
-    telemetryService
-      .capture({
-        type: 'privacy-score',
-        source: 'privacy-service',
-        severity: result.riskLevel,
-        summary: `Score ${result.totalScore}/100`,
-        payload: result,
-        snapshot: {
-          privacyScore: result.totalScore,
-          entropyScore: result.breakdown.fingerprintResistance,
-          leaks: {
-            webrtc: Boolean(webrtcLeak?.isLeak),
-            dns: dnsLeak?.leakType || 'none',
-            battery: false,
-            motion: false,
-          },
-          apiSurface: {
-            ip: ipLeak?.ip || 'unknown',
-          },
-          report: telemetryService.buildReportSnapshot({
-            privacyIndex: {
-              score: result.totalScore,
-              exposureLevel: result.riskLevel,
-              leakedBits: result.breakdown.webrtcPrivacy + result.breakdown.dnsPrivacy,
-            },
-            networkLeaks: {
-              ip: ipLeak?.ip,
-              dns: dnsLeak?.leakType,
-              webrtc: webrtcLeak?.isLeak ? 'leak' : 'sealed',
-            },
-          }),
-        },
-      })
-      .catch((error) => log.warn('Telemetry capture failed (privacy score)', { error }));
-  } catch (error: unknown) {
-    log.error('Privacy score calculation error', { error });
+import { createExpressRouter } from '../core/express';
+import type { CoreDeps } from '../core/deps';
+import { privacyScoreRoutes } from '../core/routes/privacy-score';
 
-    const response: APIResponse = {
-      success: false,
-      error: {
-        code: 'PRIVACY_SCORE_ERROR',
-        message: getErrorMessage(error) || 'Failed to calculate privacy score',
-      },
-    };
-
-    res.status(500).json(response);
-  }
-});
-
-export default router;
+/**
+ * Create privacy score routes
+ */
+export function createPrivacyScoreRoutes(deps: CoreDeps) {
+  return createExpressRouter(privacyScoreRoutes, deps);
+}
@@ -0,0 +1,16 @@
+/**
+ * TLS Fingerprint Routes
+ *
+ * Handlers live in core/routes/tls and are shared with the Worker.
+ */
+
+import { createExpressRouter } from '../core/express';
+import type { CoreDeps } from '../core/deps';
+import { tlsRoutes } from '../core/routes/tls';
+
+/**
+ * Create TLS fingerprint routes
+ */
+export function createTLSRoutes(deps: CoreDeps) {
+  return createExpressRouter(tlsRoutes, deps);
+}
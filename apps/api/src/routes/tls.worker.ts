@@ -0,0 +1,19 @@
+/**
+ * TLS Fingerprint Routes (Hono Worker)
+ *
+ * Handlers live in core/routes/tls and are shared with the Express server.
+ *
+ * GET /v1/tls/fingerprint - JA3 / JA3N / JA4 of the requesting client
+ */
+
+import { createHonoRouter } from '../core/hono.worker';
+import type { CoreDeps } from '../core/deps';
+import type { Env } from '../types/env';
+import { tlsRoutes } from '../core/routes/tls';
+
+/**
+ * Create TLS fingerprint routes
+ */
+export function createTLSRoutes(resolveDeps: (env: Env) => CoreDeps) {
+  return createHonoRouter(tlsRoutes, resolveDeps);
+}
@@ -1,6 +1,11 @@
+import { readFileSync } from 'node:fs';
 import app from './app';
 import { config } from './config';
 import { log } from './middleware/logger';
+import { createTLSCaptureServer } from './lib/tlsCapture';
+import { createDNSResponder } from './lib/dnsResponder';
+import { createTracerouteAgent } from './lib/tracerouteAgent';
+import { getNodeCoreDeps } from './core/nodeDeps';
 
 const PORT = parseInt(config.API_PORT, 10);
 
@@ -10,9 +15,64 @@ const server = app.listen(PORT, '0.0.0.0', () => {
   log.info('API root ready', { url: `http://localhost:${PORT}/v1` });
 });
 
+// Optional TLS listener that captures ClientHellos for /v1/tls/fingerprint
+const tlsServer =
+  config.TLS_CERT_PATH && config.TLS_KEY_PATH
+    ? createTLSCaptureServer({
+        key: readFileSync(config.TLS_KEY_PATH),
+        cert: readFileSync(config.TLS_CERT_PATH),
+        app,
+      })
+    : null;
+
+if (tlsServer) {
+  const tlsPort = parseInt(config.TLS_CAPTURE_PORT, 10);
+  tlsServer.listen(tlsPort, '0.0.0.0', () => {
+    log.info('TLS capture server started', { port: tlsPort });
+  });
+}
+
+// Optional stand-in authoritative nameserver for the DNS leak test zone; it records
+// into the same store the /v1/detect/dns-leak route reads from
+const { dnsLeaks } = getNodeCoreDeps();
+
+const dnsResponder = config.DNS_RESPONDER_PORT
+  ? createDNSResponder({
+      zone: config.DNS_LEAK_ZONE,
+      answerIp: config.DNS_RESPONDER_ANSWER_IP,
+      onQuery: (hostname, resolverIp) => dnsLeaks.recordQuery(hostname, resolverIp),
+    })
+  : null;
+
+if (dnsResponder) {
+  const dnsPort = Number(config.DNS_RESPONDER_PORT);
+  dnsResponder.bind(dnsPort, '0.0.0.0', () => {
+    log.info('DNS responder started', { port: dnsPort, zone: config.DNS_LEAK_ZONE });
+  });
+}
+
+// Optional traceroute probe agent; point TRACEROUTE_AGENT_URL at it to measure from this host
+const tracerouteAgent =
+  config.TRACEROUTE_AGENT_PORT && config.TRACEROUTE_AGENT_TOKEN
+    ? createTracerouteAgent({
+        token: config.TRACEROUTE_AGENT_TOKEN,
+        name: config.TRACEROUTE_AGENT_NAME,
+      })
+    : null;
+
+if (tracerouteAgent) {
+  const agentPort = Number(config.TRACEROUTE_AGENT_PORT);
+  tracerouteAgent.listen(agentPort, '0.0.0.0', () => {
+    log.info('Traceroute agent started', { port: agentPort });
+  });
+}
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   log.warn('SIGTERM signal received: closing HTTP server');
+  tlsServer?.close();
+  dnsResponder?.close();
+  tracerouteAgent?.close();
   server.close(() => {
     log.info('HTTP server closed');
   });
@@ -20,6 +80,9 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   log.warn('SIGINT signal received: closing HTTP server');
+  tlsServer?.close();
+  dnsResponder?.close();
+  tracerouteAgent?.close();
   server.close(() => {
     log.info('HTTP server closed');
     process.exit(0);
@@ -0,0 +1,194 @@
+import type {
+  ApiKeyInfo,
+  ApiKeyTier,
+  EndpointGroup,
+  IssuedApiKey,
+  QuotaStatus,
+  QuotaUsage,
+} from '@browserleaks/types';
+import type { ApiKeyRecord, ApiKeyStore } from '../db/ApiKeyRepository';
+import { sha256 } from '../utils/hash';
+
+export const API_KEY_PREFIX = 'bl_';
+// Characters of the key kept in plain text so owners can tell keys apart
+const DISPLAY_PREFIX_LENGTH = 10;
+const KEY_RANDOM_BYTES = 20;
+
+/**
+ * Requests per UTC day for each endpoint group; null means unlimited
+ */
+export const TIER_QUOTAS: Record<ApiKeyTier, Record<EndpointGroup, number | null>> = {
+  free: { detect: 1_000, fingerprint: 1_000, scoring: 1_000, data: 500, ai: 50 },
+  pro: { detect: 50_000, fingerprint: 50_000, scoring: 50_000, data: 20_000, ai: 2_000 },
+  internal: { detect: null, fingerprint: null, scoring: null, data: null, ai: null },
+};
+
+const ENDPOINT_GROUPS: Array<[RegExp, EndpointGroup]> = [
+  [/^\/v1\/fingerprint(\/|$)/, 'fingerprint'],
+  [/^\/v1\/privacy-score(\/|$)/, 'scoring'],
+  [/^\/v1\/(history|share|events|network)(\/|$)/, 'data'],
+  [/^\/v1\/ai(\/|$)/, 'ai'],
+];
+
+// Key management and quota lookups are never metered
+const UNMETERED_PATHS = /^\/v1(\/(keys|quota)(\/.*)?)?\/?$/;
+
+/**
+ * Endpoint group a /v1 path is metered under, or null when it is not metered
+ */
+export function getEndpointGroup(path: string): EndpointGroup | null {
+  if (UNMETERED_PATHS.test(path)) return null;
+  return ENDPOINT_GROUPS.find(([pattern]) => pattern.test(path))?.[1] ?? 'detect';
+}
+
+export function hashApiKey(key: string): Promise<string> {
+  return sha256(key);
+}
+
+/**
+ * Issues, rotates and revokes API keys and meters their per-group daily quotas.
+ * Keys are only ever returned at issue time; the store keeps their SHA-256.
+ */
+export class ApiKeyService {
+  constructor(private store: ApiKeyStore) {}
+
+  async issue(name: string, tier: ApiKeyTier): Promise<IssuedApiKey> {
+    const key = generateApiKey();
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      name,
+      tier,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: await hashApiKey(key),
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+      rotatedAt: null,
+      revokedAt: null,
+    };
+
+    await this.store.create(record);
+
+    return { key, apiKey: toApiKeyInfo(record) };
+  }
+
+  async list(): Promise<ApiKeyInfo[]> {
+    return (await this.store.list()).map(toApiKeyInfo);
+  }
+
+  /**
+   * Replace the secret of an active key; the previous secret stops working immediately.
+   * Returns null for unknown or revoked keys.
+   */
+  async rotate(id: string): Promise<IssuedApiKey | null> {
+    const record = await this.store.findById(id);
+    if (!record || record.revokedAt) return null;
+
+    const key = generateApiKey();
+    const prefix = key.slice(0, DISPLAY_PREFIX_LENGTH);
+    const rotatedAt = new Date().toISOString();
+    await this.store.replaceKey(id, await hashApiKey(key), prefix, rotatedAt);
+
+    return { key, apiKey: toApiKeyInfo({ ...record, prefix, rotatedAt }) };
+  }
+
+  /**
+   * Returns null for unknown keys; revoking twice keeps the first revocation time
+   */
+  async revoke(id: string): Promise<ApiKeyInfo | null> {
+    const record = await this.store.findById(id);
+    if (!record) return null;
+
+    const revokedAt = record.revokedAt ?? new Date().toISOString();
+    await this.store.revoke(id, revokedAt);
+
+    return toApiKeyInfo({ ...record, revokedAt });
+  }
+
+  /**
+   * Active key record for a presented key, or null
+   */
+  async authenticate(key: string): Promise<ApiKeyRecord | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+    const record = await this.store.findByHash(await hashApiKey(key));
+    if (!record || record.revokedAt) return null;
+
+    return record;
+  }
+
+  /**
+   * Count one request against the key's quota for the group
+   */
+  async consume(
+    record: ApiKeyRecord,
+    group: EndpointGroup,
+    now = new Date()
+  ): Promise<{ allowed: boolean; usage: QuotaUsage }> {
+    const [used] = await Promise.all([
+      this.store.incrementUsage(record.id, getQuotaPeriod(now), group),
+      this.store.touch(record.id, now.toISOString()),
+    ]);
+
+    const usage = buildUsage(group, TIER_QUOTAS[record.tier][group], used, now);
+    return { allowed: usage.limit === null || used <= usage.limit, usage };
+  }
+
+  async getQuotaStatus(record: ApiKeyRecord, now = new Date()): Promise<QuotaStatus> {
+    const usage = await this.store.getUsage(record.id, getQuotaPeriod(now));
+    const quotas = TIER_QUOTAS[record.tier];
+
+    return {
+      tier: record.tier,
+      keyId: record.id,
+      quotas: (Object.keys(quotas) as EndpointGroup[]).map((group) =>
+        buildUsage(group, quotas[group], usage[group] ?? 0, now)
+      ),
+    };
+  }
+}
+
+export function toApiKeyInfo(record: ApiKeyRecord): ApiKeyInfo {
+  return {
+    id: record.id,
+    name: record.name,
+    tier: record.tier,
+    prefix: record.prefix,
+    createdAt: record.createdAt,
+    lastUsedAt: record.lastUsedAt,
+    rotatedAt: record.rotatedAt,
+    revokedAt: record.revokedAt,
+  };
+}
+
+/**
+ * Quotas reset at midnight UTC
+ */
+export function getQuotaPeriod(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function getQuotaReset(now: Date): string {
+  const reset = new Date(now);
+  reset.setUTCHours(24, 0, 0, 0);
+  return reset.toISOString();
+}
+
+function buildUsage(
+  group: EndpointGroup,
+  limit: number | null,
+  used: number,
+  now: Date
+): QuotaUsage {
+  return {
+    group,
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    resetAt: getQuotaReset(now),
+  };
+}
+
+function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(KEY_RANDOM_BYTES));
+  return API_KEY_PREFIX + Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
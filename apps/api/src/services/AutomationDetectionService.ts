@@ -0,0 +1,230 @@
+import type {
+  AutomationCheck,
+  AutomationEvidence,
+  AutomationReport,
+  AutomationSignals,
+  BotLikelihood,
+} from '@browserleaks/types';
+
+export interface AutomationRequestInfo {
+  userAgent?: string;
+  clientHints?: string; // Sec-CH-UA
+  acceptLanguage?: string;
+}
+
+interface SignalRule {
+  weight: number;
+  title: string;
+  description: string;
+}
+
+type AddEvidence = (
+  check: AutomationCheck,
+  signal: string,
+  source: AutomationEvidence['source'],
+  rule: SignalRule
+) => void;
+
+const HEADLESS_TRAITS: Record<string, SignalRule> = {
+  'headless-user-agent': {
+    weight: 60,
+    title: 'Headless Chrome User-Agent',
+    description: 'navigator.userAgent contains "HeadlessChrome".',
+  },
+  'no-plugins': {
+    weight: 15,
+    title: 'No Browser Plugins',
+    description: 'Desktop Chromium always lists its PDF viewer plugins; headless builds list none.',
+  },
+  'zero-outer-size': {
+    weight: 20,
+    title: 'Zero Window Size',
+    description: 'window.outerWidth and outerHeight are 0, as in a browser without a window.',
+  },
+  'no-chrome-object': {
+    weight: 10,
+    title: 'Missing window.chrome',
+    description: 'Chromium defines window.chrome on every page; older headless builds do not.',
+  },
+  'no-languages': {
+    weight: 15,
+    title: 'No Languages',
+    description: 'navigator.languages is empty, which no configured browser reports.',
+  },
+  'notification-permission': {
+    weight: 15,
+    title: 'Contradictory Notification Permission',
+    description:
+      'Notifications are denied while the Permissions API still reports "prompt", a headless Chrome quirk.',
+  },
+};
+
+// Stealth plugins hide the obvious flags, but the patches themselves are rare in real browsers
+const STEALTH_LEFTOVERS: Record<string, SignalRule> = {
+  'navigator-own-properties': {
+    weight: 25,
+    title: 'Patched Navigator',
+    description: 'navigator has own properties; browsers define them all on Navigator.prototype.',
+  },
+  'webdriver-missing': {
+    weight: 30,
+    title: 'navigator.webdriver Removed',
+    description: 'Chromium has exposed navigator.webdriver since version 89; it was deleted.',
+  },
+  'webdriver-getter': {
+    weight: 30,
+    title: 'Replaced webdriver Getter',
+    description: 'The navigator.webdriver getter is not native code.',
+  },
+  'plugins-type': {
+    weight: 25,
+    title: 'Fake Plugin List',
+    description: 'navigator.plugins is not a PluginArray, so it was replaced by a script.',
+  },
+  'permissions-query': {
+    weight: 20,
+    title: 'Patched Permissions API',
+    description: 'navigator.permissions.query is not the native implementation.',
+  },
+  'iframe-content-window': {
+    weight: 30,
+    title: 'Patched iframe contentWindow',
+    description:
+      'A detached srcdoc iframe returned a window, as with the puppeteer-extra stealth iframe evasion.',
+  },
+};
+
+const WORKER_MISMATCH_WEIGHTS: Record<string, number> = {
+  userAgent: 30, // spoofed in the page, HeadlessChrome in the worker
+};
+const DEFAULT_WORKER_MISMATCH_WEIGHT = 20;
+
+const FRAMEWORK_PATTERNS: Array<[RegExp, string]> = [
+  [/^(__pw|__playwright)/, 'Playwright'],
+  [/^puppeteer_/, 'Puppeteer'],
+  [/selenium|webdriver|fxdriver|driver_|^\$?cdc_|^\$wdc_|^\[driver\]$/i, 'Selenium'],
+  [/phantom/i, 'PhantomJS'],
+  [/^__nightmare$/, 'Nightmare'],
+  [/^Cypress$/, 'Cypress'],
+];
+
+const LIKELIHOOD_THRESHOLDS: Array<[number, BotLikelihood]> = [
+  [80, 'bot'],
+  [50, 'likely-bot'],
+  [20, 'suspicious'],
+];
+
+/**
+ * Weighs the automation signals collected in the browser, together with the
+ * request headers, into a bot likelihood. Every point of the score is backed
+ * by an evidence entry, so hardened setups can see which trace gave them away.
+ */
+export class AutomationDetectionService {
+  analyze(signals: AutomationSignals, request: AutomationRequestInfo = {}): AutomationReport {
+    const evidence: AutomationEvidence[] = [];
+
+    const add: AddEvidence = (check, signal, source, rule) => {
+      evidence.push({ check, signal, source, ...rule });
+    };
+
+    if (signals.webdriver) {
+      add('webdriver', 'navigator.webdriver', 'browser', {
+        weight: 60,
+        title: 'WebDriver Flag Set',
+        description: 'navigator.webdriver is true, which browsers set when driven by automation.',
+      });
+    }
+
+    if (signals.cdpRuntime) {
+      add('cdp-runtime', 'Runtime.enable', 'browser', {
+        weight: 30,
+        title: 'DevTools Protocol Client Attached',
+        description:
+          'Console arguments were serialized by a DevTools protocol client, as Puppeteer and Playwright do. An open DevTools window does the same.',
+      });
+    }
+
+    for (const trait of signals.headlessTraits) {
+      const rule = HEADLESS_TRAITS[trait];
+      if (rule) add('headless', trait, 'browser', rule);
+    }
+
+    for (const leftover of signals.stealthLeftovers) {
+      const rule = STEALTH_LEFTOVERS[leftover];
+      if (rule) add('stealth', leftover, 'browser', rule);
+    }
+
+    const driver = identifyDriver(signals.automationGlobals);
+
+    if (signals.automationGlobals.length > 0) {
+      add('automation-globals', signals.automationGlobals.join(', '), 'browser', {
+        weight: 70,
+        title: `${driver ?? 'Automation'} Globals Present`,
+        description: `The page exposes properties injected by automation drivers: ${signals.automationGlobals.join(', ')}.`,
+      });
+    }
+
+    for (const prop of signals.workerMismatches) {
+      add('worker-mismatch', `navigator.${prop}`, 'browser', {
+        weight: WORKER_MISMATCH_WEIGHTS[prop] ?? DEFAULT_WORKER_MISMATCH_WEIGHT,
+        title: 'Worker Navigator Mismatch',
+        description: `navigator.${prop} differs between the page and a dedicated worker, so a script patched the page.`,
+      });
+    }
+
+    this.checkRequest(request, add);
+
+    evidence.sort((a, b) => b.weight - a.weight);
+
+    const score = Math.min(
+      100,
+      evidence.reduce((sum, entry) => sum + entry.weight, 0)
+    );
+
+    return {
+      score,
+      likelihood: LIKELIHOOD_THRESHOLDS.find(([threshold]) => score >= threshold)?.[1] ?? 'human',
+      // puppeteer-extra is the usual source of stealth patches
+      framework: driver ?? (signals.stealthLeftovers.length > 0 ? 'puppeteer-extra stealth' : null),
+      evidence,
+    };
+  }
+
+  /**
+   * Headers are sent by the network stack, out of reach of page-level patches
+   */
+  private checkRequest(request: AutomationRequestInfo, add: AddEvidence): void {
+    if (request.userAgent?.includes('HeadlessChrome')) {
+      add('request-headers', 'User-Agent', 'request', {
+        weight: 60,
+        title: 'Headless Chrome User-Agent Header',
+        description: 'The User-Agent request header contains "HeadlessChrome".',
+      });
+    }
+
+    if (request.clientHints?.includes('HeadlessChrome')) {
+      add('request-headers', 'Sec-CH-UA', 'request', {
+        weight: 60,
+        title: 'Headless Chrome Client Hint',
+        description:
+          'The Sec-CH-UA header lists the "HeadlessChrome" brand, even if the User-Agent was overridden.',
+      });
+    }
+
+    if (request.userAgent !== undefined && !request.acceptLanguage) {
+      add('request-headers', 'Accept-Language', 'request', {
+        weight: 10,
+        title: 'No Accept-Language Header',
+        description:
+          'Browsers always send Accept-Language; HTTP clients and some headless setups do not.',
+      });
+    }
+  }
+}
+
+function identifyDriver(globals: string[]): string | null {
+  for (const [pattern, name] of FRAMEWORK_PATTERNS) {
+    if (globals.some((global) => pattern.test(global))) return name;
+  }
+  return null;
+}
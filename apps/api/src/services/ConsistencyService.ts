@@ -0,0 +1,335 @@
+import type {
+  ConsistencyCheck,
+  ConsistencyMismatch,
+  ConsistencyReport,
+  IPLeakResult,
+  RiskLevel,
+  TimezoneFingerprint,
+} from '@browserleaks/types';
+
+export interface ConsistencySignals {
+  ipLeak?: Partial<IPLeakResult>;
+  timezone?: Partial<TimezoneFingerprint>;
+  languages?: string[]; // navigator.languages
+  webrtcCandidates?: Array<{ ip: string; type: string }>;
+  acceptLanguage?: string;
+  requestIp?: string; // defaults to ipLeak.ip
+  userAgent?: string;
+  clientHints?: {
+    platform?: string; // Sec-CH-UA-Platform
+    mobile?: string; // Sec-CH-UA-Mobile
+  };
+}
+
+/**
+ * Languages commonly configured in each country (ISO 639-1 by ISO 3166-1 alpha-2)
+ */
+const COUNTRY_LANGUAGES: Record<string, string[]> = {
+  AE: ['ar', 'en'],
+  AR: ['es'],
+  AT: ['de'],
+  AU: ['en'],
+  BE: ['nl', 'fr', 'de'],
+  BG: ['bg'],
+  BR: ['pt'],
+  BY: ['be', 'ru'],
+  CA: ['en', 'fr'],
+  CH: ['de', 'fr', 'it', 'rm'],
+  CL: ['es'],
+  CN: ['zh'],
+  CO: ['es'],
+  CZ: ['cs'],
+  DE: ['de'],
+  DK: ['da'],
+  EE: ['et', 'ru'],
+  EG: ['ar'],
+  ES: ['es', 'ca', 'eu', 'gl'],
+  FI: ['fi', 'sv'],
+  FR: ['fr'],
+  GB: ['en', 'cy'],
+  GR: ['el'],
+  HK: ['zh', 'en'],
+  HR: ['hr'],
+  HU: ['hu'],
+  ID: ['id'],
+  IE: ['en', 'ga'],
+  IL: ['he', 'ar'],
+  IN: ['hi', 'en', 'bn', 'ta', 'te', 'mr'],
+  IR: ['fa'],
+  IS: ['is'],
+  IT: ['it'],
+  JP: ['ja'],
+  KR: ['ko'],
+  KZ: ['kk', 'ru'],
+  LT: ['lt'],
+  LU: ['lb', 'fr', 'de'],
+  LV: ['lv', 'ru'],
+  MX: ['es'],
+  MY: ['ms', 'en'],
+  NG: ['en'],
+  NL: ['nl'],
+  NO: ['nb', 'nn', 'no'],
+  NZ: ['en', 'mi'],
+  PE: ['es'],
+  PH: ['fil', 'tl', 'en'],
+  PK: ['ur', 'en'],
+  PL: ['pl'],
+  PT: ['pt'],
+  RO: ['ro'],
+  RS: ['sr'],
+  RU: ['ru'],
+  SA: ['ar'],
+  SE: ['sv'],
+  SG: ['en', 'zh', 'ms', 'ta'],
+  SI: ['sl'],
+  SK: ['sk'],
+  TH: ['th'],
+  TR: ['tr'],
+  TW: ['zh'],
+  UA: ['uk', 'ru'],
+  US: ['en', 'es'],
+  VE: ['es'],
+  VN: ['vi'],
+  ZA: ['en', 'af', 'zu', 'xh'],
+};
+
+const SEVERITY_ORDER: Record<RiskLevel, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+/**
+ * Cross-checks network-layer signals (IP geolocation, connection IP, headers)
+ * against what the browser reports. Proxy and VPN users are most often
+ * exposed by these contradictions rather than by the IP itself.
+ */
+export class ConsistencyService {
+  analyze(signals: ConsistencySignals, now: Date = new Date()): ConsistencyReport {
+    const checksRun: ConsistencyCheck[] = [];
+    const mismatches: ConsistencyMismatch[] = [];
+
+    // Checks resolve to undefined when their inputs are missing and null when consistent
+    const run = (check: ConsistencyCheck, result: ConsistencyMismatch | null | undefined) => {
+      if (result === undefined) return;
+      checksRun.push(check);
+      if (result) mismatches.push(result);
+    };
+
+    run('timezone-ip', this.checkTimezone(signals, now));
+    run('language-ip', this.checkLanguageCountry(signals));
+    run('language-header', this.checkLanguageHeader(signals));
+    run('webrtc-ip', this.checkWebRTC(signals));
+    run('platform-client-hints', this.checkClientHints(signals));
+
+    mismatches.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+    return {
+      consistent: mismatches.length === 0,
+      checksRun,
+      mismatches,
+    };
+  }
+
+  /**
+   * Browser timezone vs the timezone of the IP geolocation, compared by current UTC offset
+   * so neighbouring zones (Europe/Paris vs Europe/Berlin) do not count
+   */
+  private checkTimezone(
+    signals: ConsistencySignals,
+    now: Date
+  ): ConsistencyMismatch | null | undefined {
+    const browserZone = signals.timezone?.intlTimezone || signals.timezone?.value;
+    const ipZone = signals.ipLeak?.geo?.timezone;
+    if (!browserZone || !ipZone) return undefined;
+
+    const browserOffset = getUtcOffset(browserZone, now);
+    const ipOffset = getUtcOffset(ipZone, now);
+    if (browserOffset === null || ipOffset === null) return undefined;
+    if (browserOffset === ipOffset) return null;
+
+    const difference = Math.abs(browserOffset - ipOffset);
+    const country =
+      signals.ipLeak?.geo?.country || signals.ipLeak?.geo?.countryCode || 'the IP location';
+
+    return {
+      check: 'timezone-ip',
+      severity: difference >= 180 ? 'high' : 'medium',
+      title: 'Timezone Does Not Match IP Location',
+      description: `Your browser timezone (${browserZone}, ${formatOffset(browserOffset)}) differs from ${country} (${ipZone}, ${formatOffset(ipOffset)}) by ${difference / 60} hours.`,
+      expected: ipZone,
+      observed: browserZone,
+    };
+  }
+
+  private checkLanguageCountry(
+    signals: ConsistencySignals
+  ): ConsistencyMismatch | null | undefined {
+    const countryCode = signals.ipLeak?.geo?.countryCode?.toUpperCase();
+    const expected = countryCode ? COUNTRY_LANGUAGES[countryCode] : undefined;
+    const tags = [...(signals.languages || []), ...parseAcceptLanguage(signals.acceptLanguage)];
+    if (!countryCode || !expected || tags.length === 0) return undefined;
+
+    const matches = tags.some((tag) => {
+      const [base, region] = splitLanguageTag(tag);
+      return region === countryCode || expected.includes(base);
+    });
+    if (matches) return null;
+
+    const bases = Array.from(new Set(tags.map((tag) => splitLanguageTag(tag)[0])));
+
+    return {
+      check: 'language-ip',
+      // English is a common default, so it alone is weak evidence
+      severity: bases.every((base) => base === 'en') ? 'low' : 'medium',
+      title: 'Browser Language Does Not Match IP Country',
+      description: `Your browser languages (${bases.join(', ')}) are unusual for ${signals.ipLeak?.geo?.country || countryCode}, where ${expected.join(', ')} would be expected.`,
+      expected: expected.join(', '),
+      observed: bases.join(', '),
+    };
+  }
+
+  private checkLanguageHeader(signals: ConsistencySignals): ConsistencyMismatch | null | undefined {
+    const headerLanguages = parseAcceptLanguage(signals.acceptLanguage);
+    const navigatorLanguages = signals.languages || [];
+    if (headerLanguages.length === 0 || navigatorLanguages.length === 0) return undefined;
+
+    const header = headerLanguages[0].toLowerCase();
+    const browser = navigatorLanguages[0].toLowerCase();
+    if (header === browser) return null;
+
+    return {
+      check: 'language-header',
+      severity: 'medium',
+      title: 'Accept-Language Header Mismatch',
+      description: `Your Accept-Language header prefers ${headerLanguages[0]} while navigator.languages reports ${navigatorLanguages[0]}, which suggests one of them is being rewritten.`,
+      expected: headerLanguages[0],
+      observed: navigatorLanguages[0],
+    };
+  }
+
+  private checkWebRTC(signals: ConsistencySignals): ConsistencyMismatch | null | undefined {
+    const requestIp = signals.requestIp || signals.ipLeak?.ip;
+    const publicIPs = Array.from(
+      new Set(
+        (signals.webrtcCandidates || [])
+          .filter((candidate) => candidate.type === 'srflx' || candidate.type === 'prflx')
+          .map((candidate) => candidate.ip)
+          .filter((ip) => !ip.endsWith('.local'))
+      )
+    );
+    if (!requestIp || publicIPs.length === 0) return undefined;
+
+    const leaked = publicIPs.filter((ip) => ip !== requestIp);
+    if (leaked.length === 0) return null;
+
+    // A different address family can be a plain dual-stack connection
+    const sameFamily = leaked.some((ip) => ip.includes(':') === requestIp.includes(':'));
+
+    return {
+      check: 'webrtc-ip',
+      severity: sameFamily ? 'high' : 'medium',
+      title: 'WebRTC Reveals a Different Public IP',
+      description: `WebRTC discovered ${leaked.join(', ')} while your connection comes from ${requestIp}. Sites can see the address your proxy or VPN is meant to hide.`,
+      expected: requestIp,
+      observed: leaked.join(', '),
+    };
+  }
+
+  private checkClientHints(signals: ConsistencySignals): ConsistencyMismatch | null | undefined {
+    const hintPlatform = unquote(signals.clientHints?.platform);
+    const userAgent = signals.userAgent;
+    if (!userAgent || !hintPlatform) return undefined;
+
+    const uaPlatform = getUserAgentPlatform(userAgent);
+    if (uaPlatform && normalizePlatform(hintPlatform) !== normalizePlatform(uaPlatform)) {
+      return {
+        check: 'platform-client-hints',
+        severity: 'high',
+        title: 'User Agent Contradicts Client Hints',
+        description: `Your User-Agent claims ${uaPlatform} but Sec-CH-UA-Platform reports ${hintPlatform}. User agent spoofing that leaves client hints untouched is easy to detect.`,
+        expected: hintPlatform,
+        observed: uaPlatform,
+      };
+    }
+
+    const hintMobile = signals.clientHints?.mobile;
+    if (hintMobile === '?0' || hintMobile === '?1') {
+      const uaMobile = /Mobile|Android|iPhone|iPod/.test(userAgent);
+      if (uaMobile !== (hintMobile === '?1')) {
+        return {
+          check: 'platform-client-hints',
+          severity: 'medium',
+          title: 'User Agent Contradicts Client Hints',
+          description: `Your User-Agent describes a ${uaMobile ? 'mobile' : 'desktop'} device but Sec-CH-UA-Mobile disagrees.`,
+          expected: hintMobile === '?1' ? 'mobile' : 'desktop',
+          observed: uaMobile ? 'mobile' : 'desktop',
+        };
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Current UTC offset of an IANA timezone in minutes east of UTC, or null when unknown
+ */
+export function getUtcOffset(timeZone: string, at: Date): number | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    }).formatToParts(at);
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find((part) => part.type === type)?.value);
+
+    const local = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+    const utc = Math.floor(at.getTime() / 60000) * 60000;
+
+    return Math.round((local - utc) / 60000);
+  } catch {
+    return null;
+  }
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `UTC${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+}
+
+export function parseAcceptLanguage(header?: string): string[] {
+  if (!header) return [];
+
+  return header
+    .split(',')
+    .map((part) => part.split(';')[0].trim())
+    .filter((tag) => tag && tag !== '*');
+}
+
+function splitLanguageTag(tag: string): [string, string | undefined] {
+  const [base, ...rest] = tag.split(/[-_]/);
+  const region = rest.find((subtag) => /^[a-z]{2}$/i.test(subtag));
+  return [base.toLowerCase(), region?.toUpperCase()];
+}
+
+export function unquote(value?: string): string | undefined {
+  return value?.replace(/^"|"$/g, '').trim() || undefined;
+}
+
+export function getUserAgentPlatform(userAgent: string): string | null {
+  if (/Windows/.test(userAgent)) return 'Windows';
+  if (/Android/.test(userAgent)) return 'Android';
+  if (/iPhone|iPad|iPod/.test(userAgent)) return 'iOS';
+  if (/CrOS/.test(userAgent)) return 'Chrome OS';
+  if (/Macintosh|Mac OS X/.test(userAgent)) return 'macOS';
+  if (/Linux|X11/.test(userAgent)) return 'Linux';
+  return null;
+}
+
+export function normalizePlatform(platform: string): string {
+  const value = platform.toLowerCase();
+  return value === 'chromium os' ? 'chrome os' : value;
+}
@@ -1,224 +1,255 @@
-import axios, { AxiosInstance } from 'axios';
-import type { DNSLeakResult } from '@browserleaks/types';
-import { log } from '../middleware/logger';
-import { getErrorMessage } from '../utils/errors';
+import type {
+  DNSLeakResult,
+  DNSLeakServer,
+  DNSLeakTest,
+  IPLeakResult,
+  LeakType,
+} from '@browserleaks/types';
+import type { DNSLeakStore, ResolverObservation } from '../db/DNSLeakRepository';
+
+/**
+ * Probe hostnames handed to the client per test
+ */
+export const DEFAULT_PROBE_COUNT = 6;
+
+/**
+ * How long a test accepts resolver observations
+ */
+export const DNS_LEAK_TEST_TTL_MS = 10 * 60 * 1000;
+
+const TEST_ID_PATTERN = /^[a-f0-9]{32}$/;
+const PROBE_PATTERN = /^p\d{1,2}$/;
+
+export interface DNSLeakServiceOptions {
+  zone: string; // zone our authoritative nameserver answers for
+  lookup: (ip: string) => Promise<IPLeakResult>;
+  probeCount?: number;
+}
 
+/**
+ * First-party DNS leak test. The client resolves unique hostnames under a zone we
+ * are authoritative for; every resolver that asks for them is recorded against the
+ * test ID and compared with the ASN of the client IP. Resolvers outside the client's
+ * network mean queries bypass the tunnel (or ISP) the client is browsing through.
+ */
 export class DNSLeakService {
-  private client: AxiosInstance;
-
-  constructor() {
-    this.client = axios.create({
-      timeout: 6000,
-      headers: {
-        'User-Agent': 'BrowserLeaks/1.0',
-      },
-    });
+  private zone: string;
+  private probeCount: number;
+
+  constructor(
+    private store: DNSLeakStore,
+    private options: DNSLeakServiceOptions
+  ) {
+    this.zone = normalizeHostname(options.zone);
+    this.probeCount = options.probeCount ?? DEFAULT_PROBE_COUNT;
   }
 
   /**
-   * Generate random string for unique subdomain
+   * Start a test for the given client IP and return the hostnames to resolve
    */
-  private generateRandomString(length: number): string {
-    const chars = '0123456789abcdefghijklmnopqrstuvwxyz';
-    let result = '';
-    for (let i = 0; i < length; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return result;
-  }
+  async createTest(clientIp: string): Promise<DNSLeakTest> {
+    const testId = crypto.randomUUID().replace(/-/g, '');
+    const now = Date.now();
+    const expiresAt = new Date(now + DNS_LEAK_TEST_TTL_MS).toISOString();
+
+    await this.store.createTest({
+      id: testId,
+      clientIp,
+      probeCount: this.probeCount,
+      createdAt: new Date(now).toISOString(),
+      expiresAt,
+    });
 
-  /**
-   * Generate 32-character unique string for ip-api DNS leak test
-   */
-  private generate32DigitString(): string {
-    const unixTime = Date.now().toString();
-    const fixedString = 'browserleaks';
-    const randomString = this.generateRandomString(8);
-    return unixTime + fixedString + randomString;
+    return {
+      testId,
+      probes: Array.from({ length: this.probeCount }, (_, index) =>
+        buildProbeHostname(testId, `p${index + 1}`, this.zone)
+      ),
+      expiresAt,
+    };
   }
 
   /**
-   * Generate 14-character unique string for SurfShark DNS leak test
+   * Record a query seen by the authoritative nameserver.
+   * Returns false for names outside the zone and unknown or expired tests.
    */
-  private generate14DigitString(): string {
-    const fixedString = 'bl32';
-    const randomString = this.generateRandomString(9);
-    return fixedString + randomString;
+  async recordQuery(
+    hostname: string,
+    resolverIp: string,
+    observedAt = new Date()
+  ): Promise<boolean> {
+    const parsed = parseProbeHostname(hostname, this.zone);
+    if (!parsed) return false;
+
+    const test = await this.store.getTest(parsed.testId);
+    if (!test || Date.parse(test.expiresAt) < observedAt.getTime()) return false;
+
+    await this.store.recordObservation({
+      testId: parsed.testId,
+      probe: parsed.probe,
+      resolverIp,
+      observedAt: observedAt.toISOString(),
+    });
+
+    return true;
   }
 
   /**
-   * Test DNS leak using ip-api.com EDNS service
+   * Collect every resolver seen for a test and classify the leak.
+   * Returns null when the test does not exist.
    */
-  private async testIpApi(): Promise<{
-    ip: string;
-    country: string;
-    countryCode: string;
-    isp: string;
-  }> {
-    const urlString = this.generate32DigitString();
-    const url = `https://${urlString}.edns.ip-api.com/json`;
+  async collect(testId: string, clientIp?: string): Promise<DNSLeakResult | null> {
+    const test = await this.store.getTest(testId);
+    if (!test) return null;
 
-    try {
-      const response = await this.client.get(url);
-      const data = response.data;
+    const targetIp = clientIp || test.clientIp;
+    const observations = await this.store.listObservations(testId);
 
-      if (data.dns && data.dns.geo && data.dns.ip) {
-        const geoSplit = data.dns.geo.split(' - ');
-        return {
-          ip: data.dns.ip,
-          country: geoSplit[0] || 'Unknown',
-          countryCode: data.dns.country || 'XX',
-          isp: geoSplit[1] || 'Unknown',
-        };
-      }
+    const [client, servers] = await Promise.all([
+      this.lookup(targetIp),
+      this.enrichResolvers(observations),
+    ]);
 
-      throw new Error('Unexpected response format');
-    } catch (error) {
-      log.warn('IP-API DNS leak test error', { error, url });
-      throw error;
+    for (const server of servers) {
+      server.isISP = isSameNetwork(server, targetIp, client);
     }
-  }
-
-  /**
-   * Test DNS leak using SurfShark DNS service
-   */
-  private async testSurfShark(): Promise<{
-    ip: string;
-    country: string;
-    countryCode: string;
-    isp: string;
-  }> {
-    const urlString = this.generate14DigitString();
-    const url = `https://${urlString}.ipv4.surfsharkdns.com`;
 
-    try {
-      const response = await this.client.get(url);
-      const data = response.data;
+    const leakType = classifyDNSLeak(servers);
+
+    return {
+      testId,
+      isLeak: leakType !== 'none',
+      leakType,
+      clientIp: targetIp,
+      clientAsn: client?.network.asn ?? 'Unknown',
+      probeCount: test.probeCount,
+      probesResolved: new Set(observations.map((observation) => observation.probe)).size,
+      servers,
+      // The transport between client and resolver is not visible from the authoritative side
+      dohEnabled: false,
+      dotEnabled: false,
+      risks: buildRisks(leakType, servers),
+      recommendations: buildRecommendations(leakType, servers),
+    };
+  }
 
-      // Get first key from response
-      const firstKey = Object.keys(data)[0];
-      const entry = data[firstKey];
+  private async enrichResolvers(observations: ResolverObservation[]): Promise<DNSLeakServer[]> {
+    const queryCounts = new Map<string, number>();
+    for (const observation of observations) {
+      queryCounts.set(observation.resolverIp, (queryCounts.get(observation.resolverIp) ?? 0) + 1);
+    }
 
-      if (entry && entry.CountryCode && entry.IP) {
+    return Promise.all(
+      [...queryCounts].map(async ([ip, queryCount]) => {
+        const info = await this.lookup(ip);
         return {
-          ip: entry.IP,
-          country: entry.Country || 'Unknown',
-          countryCode: entry.CountryCode,
-          isp: entry.ISP || 'Unknown',
+          ip,
+          country: info?.geo.country || 'Unknown',
+          countryCode: info?.geo.countryCode || 'XX',
+          isp: info?.network.isp || 'Unknown',
+          asn: info?.network.asn || 'Unknown',
+          isISP: false,
+          queryCount,
         };
-      }
+      })
+    );
+  }
 
-      throw new Error('Unexpected response format');
-    } catch (error) {
-      log.warn('SurfShark DNS leak test error', { error, url });
-      throw error;
+  private async lookup(ip: string): Promise<IPLeakResult | null> {
+    try {
+      return await this.options.lookup(ip);
+    } catch {
+      return null;
     }
   }
+}
 
-  /**
-   * Delay execution
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+export function buildProbeHostname(testId: string, probe: string, zone: string): string {
+  return `${probe}.${testId}.${normalizeHostname(zone)}`;
+}
+
+/**
+ * Split a queried name into probe label and test ID.
+ * Resolvers may randomise letter case (0x20 encoding), so names are compared lowercased.
+ */
+export function parseProbeHostname(
+  hostname: string,
+  zone: string
+): { testId: string; probe: string } | null {
+  const name = normalizeHostname(hostname);
+  const suffix = `.${normalizeHostname(zone)}`;
+  if (!name.endsWith(suffix)) return null;
+
+  const labels = name.slice(0, -suffix.length).split('.');
+  if (labels.length !== 2) return null;
+
+  const [probe, testId] = labels;
+  if (!PROBE_PATTERN.test(probe) || !TEST_ID_PATTERN.test(testId)) return null;
+
+  return { testId, probe };
+}
+
+/**
+ * none: every resolver is in the client's network; full: none is; partial: a mix
+ */
+export function classifyDNSLeak(servers: Pick<DNSLeakServer, 'isISP'>[]): LeakType {
+  const leaked = servers.filter((server) => !server.isISP).length;
+  if (leaked === 0) return 'none';
+  return leaked === servers.length ? 'full' : 'partial';
+}
+
+function normalizeHostname(hostname: string): string {
+  return hostname.toLowerCase().replace(/\.$/, '');
+}
+
+/**
+ * Compare by ASN; fall back to country when either ASN could not be resolved
+ */
+function isSameNetwork(
+  server: DNSLeakServer,
+  clientIp: string,
+  client: IPLeakResult | null
+): boolean {
+  if (server.ip === clientIp) return true;
+  if (!client) return false;
+
+  const clientAsn = client.network.asn;
+  if (server.asn !== 'Unknown' && clientAsn && clientAsn !== 'Unknown') {
+    return server.asn === clientAsn;
   }
 
-  /**
-   * Run comprehensive DNS leak test
-   */
-  async detect(userIp: string, userCountry: string): Promise<DNSLeakResult> {
-    const testId = `test_${Date.now()}_${this.generateRandomString(8)}`;
-    const servers: DNSLeakResult['servers'] = [];
-    const risks: DNSLeakResult['risks'] = [];
-    const recommendations: string[] = [];
+  return server.countryCode !== 'XX' && server.countryCode === client.geo.countryCode;
+}
 
-    try {
-      // Run multiple tests with delays to detect DNS servers
-      const tests = [
-        { name: 'Test 1', fn: () => this.testIpApi(), delay: 100 },
-        { name: 'Test 2', fn: () => this.testIpApi(), delay: 1000 },
-        { name: 'Test 3', fn: () => this.testSurfShark(), delay: 100 },
-        { name: 'Test 4', fn: () => this.testSurfShark(), delay: 1000 },
-      ];
-
-      const results = await Promise.allSettled(
-        tests.map(async (test) => {
-          await this.delay(test.delay);
-          return test.fn();
-        })
-      );
-
-      // Process results
-      const uniqueServers = new Map<string, typeof servers[0]>();
-
-      results.forEach((result) => {
-        if (result.status === 'fulfilled') {
-          const data = result.value;
-          const key = `${data.ip}-${data.countryCode}`;
-
-          if (!uniqueServers.has(key)) {
-            uniqueServers.set(key, {
-              ip: data.ip,
-              country: data.country,
-              countryCode: data.countryCode,
-              isp: data.isp,
-              isISP: true, // Will be determined by comparing with user's ISP
-            });
-          }
-        }
-      });
-
-      servers.push(...uniqueServers.values());
-
-      // Analyze leak status
-      const isLeak = servers.some(
-        (server) => server.countryCode !== userCountry
-      );
-
-      let leakType: DNSLeakResult['leakType'] = 'none';
-      if (isLeak) {
-        const leakedServers = servers.filter(
-          (server) => server.countryCode !== userCountry
-        );
-        leakType = leakedServers.length === servers.length ? 'full' : 'partial';
-      }
-
-      // Add risks if leak detected
-      if (isLeak) {
-        risks.push({
-          severity: leakType === 'full' ? 'critical' : 'high',
-          title: 'DNS Leak Detected',
-          description: `Your DNS queries are being routed through servers in ${servers
-            .filter((s) => s.countryCode !== userCountry)
-            .map((s) => s.country)
-            .join(', ')}, which may expose your browsing activity.`,
-        });
-
-        recommendations.push(
-          'Use a VPN with built-in DNS leak protection',
-          'Configure custom DNS servers (e.g., 1.1.1.1, 8.8.8.8)',
-          'Enable DNS over HTTPS (DoH) or DNS over TLS (DoT) in your browser'
-        );
-      } else if (servers.length === 0) {
-        recommendations.push('Unable to detect DNS servers. Please try again.');
-      } else {
-        recommendations.push(
-          'No DNS leak detected. Your DNS queries are secure.'
-        );
-      }
-
-      return {
-        testId,
-        isLeak,
-        leakType,
-        servers,
-        dohEnabled: false, // TODO: Detect DoH usage
-        dotEnabled: false, // TODO: Detect DoT usage
-        risks,
-        recommendations,
-      };
-    } catch (error) {
-      log.error('DNS leak detection error', { error });
-      throw new Error(getErrorMessage(error));
-    }
+function buildRisks(leakType: LeakType, servers: DNSLeakServer[]): DNSLeakResult['risks'] {
+  if (leakType === 'none') return [];
+
+  const leaked = servers.filter((server) => !server.isISP);
+  const networks = [...new Set(leaked.map((server) => `${server.isp} (${server.asn})`))];
+
+  return [
+    {
+      severity: leakType === 'full' ? 'critical' : 'high',
+      title: 'DNS Leak Detected',
+      description: `Your DNS queries are answered by resolvers outside your network: ${networks.join(
+        ', '
+      )}. These operators can see which sites you visit.`,
+    },
+  ];
+}
+
+function buildRecommendations(leakType: LeakType, servers: DNSLeakServer[]): string[] {
+  if (servers.length === 0) {
+    return ['No resolver queried the test hostnames. Please try again.'];
   }
+
+  if (leakType === 'none') {
+    return ['No DNS leak detected. Your DNS queries stay within your network.'];
+  }
+
+  return [
+    'Use a VPN with built-in DNS leak protection',
+    "Point your system at the VPN's own DNS resolver instead of a public one",
+    'Enable DNS over HTTPS (DoH) in the browser you use through the tunnel',
+  ];
 }
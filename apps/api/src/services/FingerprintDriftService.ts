@@ -0,0 +1,187 @@
+import type {
+  ComponentDrift,
+  DriftClassification,
+  FingerprintDriftEvent,
+  FingerprintDriftReport,
+} from '@browserleaks/types';
+import type {
+  FingerprintSnapshot,
+  FingerprintSnapshotStore,
+} from '../db/FingerprintSnapshotRepository';
+import { sha256 } from '../utils/hash';
+
+/**
+ * Collector result as produced by @browserleaks/core (CollectorResult<T>)
+ */
+export interface SubmittedComponent {
+  status: string;
+  value?: unknown;
+}
+
+/**
+ * Complete fingerprint as produced by collectFingerprint() in @browserleaks/core
+ */
+export interface SubmittedFingerprint {
+  visitorId?: string;
+  components: Record<string, SubmittedComponent | undefined>;
+}
+
+/**
+ * Tracks how fingerprint components change between visits of the same visitor,
+ * so researchers can tell which signals are stable enough to track.
+ */
+export class FingerprintDriftService {
+  constructor(private store: FingerprintSnapshotStore) {}
+
+  /**
+   * Store a snapshot and return what changed since the previous one
+   */
+  async record(
+    visitorId: string,
+    fingerprint: SubmittedFingerprint
+  ): Promise<{ snapshot: FingerprintSnapshot; drift: FingerprintDriftEvent | null }> {
+    const [previous] = await this.store.listByVisitor(visitorId, 1);
+
+    const snapshot: FingerprintSnapshot = {
+      id: crypto.randomUUID(),
+      visitorId,
+      fingerprintId: fingerprint.visitorId ?? null,
+      componentHashes: await hashComponents(fingerprint.components),
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.store.save(snapshot, fingerprint);
+
+    return {
+      snapshot,
+      drift: previous ? diffSnapshots(previous, snapshot) : null,
+    };
+  }
+
+  /**
+   * Build the drift report from the stored snapshots of a visitor
+   */
+  async getReport(visitorId: string): Promise<FingerprintDriftReport> {
+    const snapshots = await this.store.listByVisitor(visitorId);
+    return FingerprintDriftService.analyze(visitorId, snapshots);
+  }
+
+  /**
+   * Analyze snapshots ordered oldest first
+   */
+  static analyze(visitorId: string, snapshots: FingerprintSnapshot[]): FingerprintDriftReport {
+    const stats = new Map<
+      string,
+      {
+        observations: number;
+        changes: number;
+        values: Set<string>;
+        last: string;
+        lastChangedAt: string | null;
+      }
+    >();
+
+    for (const snapshot of snapshots) {
+      for (const [component, valueHash] of Object.entries(snapshot.componentHashes)) {
+        const current = stats.get(component);
+
+        if (!current) {
+          stats.set(component, {
+            observations: 1,
+            changes: 0,
+            values: new Set([valueHash]),
+            last: valueHash,
+            lastChangedAt: null,
+          });
+          continue;
+        }
+
+        current.observations += 1;
+        current.values.add(valueHash);
+        if (current.last !== valueHash) {
+          current.changes += 1;
+          current.lastChangedAt = snapshot.createdAt;
+          current.last = valueHash;
+        }
+      }
+    }
+
+    const components: ComponentDrift[] = Array.from(stats.entries()).map(([component, s]) => {
+      const volatility = s.observations > 1 ? s.changes / (s.observations - 1) : 0;
+      return {
+        component,
+        observations: s.observations,
+        changes: s.changes,
+        distinctValues: s.values.size,
+        volatility: Math.round(volatility * 1000) / 1000,
+        classification: classify(s.observations, volatility),
+        lastChangedAt: s.lastChangedAt,
+      };
+    });
+
+    components.sort(
+      (a, b) =>
+        b.volatility - a.volatility ||
+        b.changes - a.changes ||
+        a.component.localeCompare(b.component)
+    );
+
+    const events: FingerprintDriftEvent[] = [];
+    for (let i = 1; i < snapshots.length; i++) {
+      const event = diffSnapshots(snapshots[i - 1], snapshots[i]);
+      if (event.changed.length || event.added.length || event.removed.length) {
+        events.push(event);
+      }
+    }
+
+    return {
+      visitorId,
+      snapshotCount: snapshots.length,
+      firstSeen: snapshots[0]?.createdAt ?? null,
+      lastSeen: snapshots[snapshots.length - 1]?.createdAt ?? null,
+      components,
+      events,
+    };
+  }
+}
+
+function classify(observations: number, volatility: number): DriftClassification {
+  if (observations < 2) return 'unknown';
+  if (volatility === 0) return 'stable';
+  if (volatility <= 0.25) return 'drifting';
+  return 'volatile';
+}
+
+function diffSnapshots(
+  previous: FingerprintSnapshot,
+  current: FingerprintSnapshot
+): FingerprintDriftEvent {
+  const before = previous.componentHashes;
+  const after = current.componentHashes;
+
+  return {
+    snapshotId: current.id,
+    timestamp: current.createdAt,
+    changed: Object.keys(after).filter((key) => key in before && before[key] !== after[key]),
+    added: Object.keys(after).filter((key) => !(key in before)),
+    removed: Object.keys(before).filter((key) => !(key in after)),
+  };
+}
+
+/**
+ * Hash the value of every successfully collected component
+ */
+async function hashComponents(
+  components: SubmittedFingerprint['components']
+): Promise<Record<string, string>> {
+  const entries = await Promise.all(
+    Object.entries(components)
+      .filter(([, result]) => result?.status === 'success' && result.value !== undefined)
+      .map(
+        async ([component, result]) =>
+          [component, await sha256(JSON.stringify(result?.value))] as const
+      )
+  );
+
+  return Object.fromEntries(entries);
+}
@@ -0,0 +1,97 @@
+import type { ComponentEntropy, FingerprintEntropy } from '@browserleaks/types';
+import type {
+  ComponentObservation,
+  FingerprintFrequencyStore,
+} from '../db/FingerprintFrequencyRepository';
+import { sha256 } from '../utils/hash';
+
+/**
+ * Measures how identifying a fingerprint is against the population of fingerprints
+ * submitted so far. Each component is scored as Shannon surprisal (-log2 of the share
+ * of sampled fingerprints reporting the same value), which is deterministic for a
+ * given input and store state.
+ */
+export class FingerprintEntropyService {
+  constructor(private store: FingerprintFrequencyStore) {}
+
+  /**
+   * Record a fingerprint and calculate its entropy
+   * @param combinedHash - Hash identifying the complete fingerprint
+   * @param values - Canonical string value per component (undefined = not collected)
+   */
+  async analyze(
+    combinedHash: string,
+    values: Record<string, string | undefined>
+  ): Promise<FingerprintEntropy> {
+    const observations = await hashComponentValues(values);
+
+    await this.store.recordFingerprint(combinedHash, observations);
+
+    const [frequencies, sampleSize] = await Promise.all([
+      this.store.getFrequencies(observations),
+      this.store.getSampleSize(),
+    ]);
+
+    const components: Record<string, ComponentEntropy> = {};
+    for (const { component, count, sampleSize: componentSampleSize } of frequencies) {
+      const frequency = componentSampleSize > 0 ? Math.min(1, count / componentSampleSize) : 1;
+      components[component] = {
+        bits: round(frequency > 0 ? Math.log2(1 / frequency) : 0),
+        frequency: round(frequency, 4),
+        matches: count,
+        sampleSize: componentSampleSize,
+      };
+    }
+
+    // Components are treated as independent, so the sum overestimates; a fingerprint
+    // can never be more identifying than being unique in the sample.
+    const summedBits = Object.values(components).reduce((sum, c) => sum + c.bits, 0);
+    const totalBits = round(Math.min(summedBits, sampleSize > 0 ? Math.log2(sampleSize) : 0));
+
+    return {
+      components,
+      totalBits,
+      oneIn: Math.max(1, Math.round(2 ** totalBits)),
+      sampleSize,
+    };
+  }
+
+  /**
+   * Normalize component surprisal to a 0-1 score relative to the maximum
+   * surprisal attainable in the component's sample
+   */
+  static toComponentScores(entropy: FingerprintEntropy): Record<string, number> {
+    const scores: Record<string, number> = {};
+
+    for (const [component, { bits, sampleSize }] of Object.entries(entropy.components)) {
+      const maxBits = sampleSize > 1 ? Math.log2(sampleSize) : 0;
+      scores[component] = maxBits > 0 ? round(Math.min(1, bits / maxBits), 3) : 0;
+    }
+
+    return scores;
+  }
+}
+
+/**
+ * Hash canonical component values into store observations, skipping components
+ * that were not collected
+ */
+export async function hashComponentValues(
+  values: Record<string, string | undefined>
+): Promise<ComponentObservation[]> {
+  const entries = Object.entries(values).filter(
+    (entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].length > 0
+  );
+
+  return Promise.all(
+    entries.map(async ([component, value]) => ({
+      component,
+      valueHash: await sha256(`${component}:${value}`),
+    }))
+  );
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
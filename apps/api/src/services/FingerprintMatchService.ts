@@ -0,0 +1,121 @@
+import type {
+  ComponentMatchStatus,
+  FingerprintMatch,
+  FingerprintMatchResult,
+} from '@browserleaks/types';
+import type {
+  FingerprintFrequencyStore,
+  KnownFingerprint,
+} from '../db/FingerprintFrequencyRepository';
+import { hashComponentValues } from './FingerprintEntropyService';
+
+/**
+ * Relative weight of each component when linking fingerprints.
+ * Stable, high-entropy components dominate; components a user can easily
+ * change (user agent, timezone) weigh little, which is how trackers survive them.
+ */
+export const COMPONENT_WEIGHTS: Record<string, number> = {
+  canvas: 0.2,
+  webgl: 0.15,
+  audio: 0.12,
+  fonts: 0.15,
+  screen: 0.1,
+  navigator: 0.12,
+  timezone: 0.08,
+  userAgent: 0.08,
+};
+
+const DEFAULT_WEIGHT = 0.05;
+const CANDIDATE_LIMIT = 200;
+
+export interface MatchOptions {
+  limit?: number;
+  minSimilarity?: number;
+}
+
+/**
+ * Links a fingerprint to previously seen ones by weighted component similarity
+ */
+export class FingerprintMatchService {
+  constructor(private store: FingerprintFrequencyStore) {}
+
+  async findMatches(
+    combinedHash: string,
+    values: Record<string, string | undefined>,
+    options: MatchOptions = {}
+  ): Promise<FingerprintMatchResult> {
+    const { limit = 5, minSimilarity = 0.5 } = options;
+
+    const observations = await hashComponentValues(values);
+    const componentHashes = Object.fromEntries(
+      observations.map(({ component, valueHash }) => [component, valueHash])
+    );
+
+    const candidates = await this.store.findCandidates(observations, CANDIDATE_LIMIT);
+
+    const matches = candidates
+      .map((candidate) => FingerprintMatchService.compare(combinedHash, componentHashes, candidate))
+      .filter((match) => match.similarity >= minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity || b.lastSeen.localeCompare(a.lastSeen))
+      .slice(0, limit);
+
+    return {
+      matches,
+      candidatesScanned: candidates.length,
+    };
+  }
+
+  /**
+   * A previously seen fingerprint by its combined hash
+   */
+  async get(combinedHash: string): Promise<KnownFingerprint | null> {
+    return this.store.getFingerprint(combinedHash);
+  }
+
+  /**
+   * Compare component hashes of a fingerprint against a known one.
+   * Components reported by only one side count as mismatches; components
+   * absent from both are ignored.
+   */
+  static compare(
+    combinedHash: string,
+    componentHashes: Record<string, string>,
+    known: KnownFingerprint
+  ): FingerprintMatch {
+    const names = Array.from(
+      new Set([...Object.keys(componentHashes), ...Object.keys(known.componentHashes)])
+    ).sort();
+
+    let matchedWeight = 0;
+    let totalWeight = 0;
+
+    const components = names.map((component) => {
+      const weight = COMPONENT_WEIGHTS[component] ?? DEFAULT_WEIGHT;
+      const ours = componentHashes[component];
+      const theirs = known.componentHashes[component];
+
+      let status: ComponentMatchStatus;
+      if (!ours || !theirs) {
+        status = 'missing';
+      } else if (ours === theirs) {
+        status = 'match';
+        matchedWeight += weight;
+      } else {
+        status = 'mismatch';
+      }
+
+      totalWeight += weight;
+      return { component, weight, status };
+    });
+
+    return {
+      hash: known.hash,
+      similarity: totalWeight > 0 ? Math.round((matchedWeight / totalWeight) * 1000) / 1000 : 0,
+      exact: known.hash === combinedHash,
+      seenCount: known.seenCount,
+      firstSeen: known.firstSeen,
+      lastSeen: known.lastSeen,
+      components,
+    };
+  }
+}
@@ -0,0 +1,244 @@
+import type {
+  HeaderInconsistency,
+  HttpConnectionInfo,
+  HttpHeader,
+  HttpHeadersResult,
+  RiskLevel,
+} from '@browserleaks/types';
+import { sha256 } from '../utils/hash';
+import {
+  getUserAgentPlatform,
+  normalizePlatform,
+  parseAcceptLanguage,
+  unquote,
+} from './ConsistencyService';
+
+export interface HttpHeadersInput {
+  headers: HttpHeader[]; // in the order the runtime exposes them
+  orderPreserved: boolean;
+  connection?: Partial<HttpConnectionInfo>;
+}
+
+interface UserAgentBrowser {
+  name: string;
+  major: number;
+  chromium: boolean;
+}
+
+/**
+ * Headers added by CDNs and reverse proxies rather than the browser.
+ * They are echoed back but left out of the order fingerprint.
+ */
+const PROXY_HEADER_PATTERN =
+  /^(cf-|x-forwarded-|x-real-ip$|true-client-ip$|cdn-loop$|via$|forwarded$)/;
+
+// Sec-CH-UA reserves "Not A Brand"-style GREASE entries to keep parsers honest
+const GREASE_BRAND_PATTERN = /not.?a.?brand/i;
+
+// First Chromium release to send Sec-CH-UA by default
+const FIRST_CLIENT_HINTS_VERSION = 89;
+
+const SEVERITY_ORDER: Record<RiskLevel, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+/**
+ * Echoes request headers and checks the User-Agent string against the
+ * Client Hints sent with it. UA spoofing extensions and automation tools often
+ * rewrite one but not the other.
+ */
+export class HttpHeadersService {
+  async analyze(input: HttpHeadersInput): Promise<HttpHeadersResult> {
+    const lookup = new Map<string, string>();
+    for (const { name, value } of input.headers) {
+      const key = name.toLowerCase();
+      if (!lookup.has(key)) lookup.set(key, value);
+    }
+
+    const headerOrder = input.headers
+      .map(({ name }) => name.toLowerCase())
+      .filter((name) => !PROXY_HEADER_PATTERN.test(name));
+
+    return {
+      headers: input.headers,
+      orderPreserved: input.orderPreserved,
+      headerOrder,
+      // A sorted order would give every browser the same fingerprint
+      orderFingerprint: input.orderPreserved ? await sha256(headerOrder.join(',')) : null,
+      clientHints: pickByPrefix(lookup, 'sec-ch-ua'),
+      fetchMetadata: pickByPrefix(lookup, 'sec-fetch-'),
+      acceptLanguage: parseAcceptLanguage(lookup.get('accept-language')),
+      connection: {
+        httpProtocol: input.connection?.httpProtocol ?? null,
+        tlsVersion: input.connection?.tlsVersion ?? null,
+        tlsCipher: input.connection?.tlsCipher ?? null,
+      },
+      inconsistencies: this.findInconsistencies(lookup),
+    };
+  }
+
+  private findInconsistencies(headers: Map<string, string>): HeaderInconsistency[] {
+    const userAgent = headers.get('user-agent');
+    if (!userAgent) return [];
+
+    const inconsistencies = [
+      this.checkBrand(userAgent, headers),
+      this.checkVersion(userAgent, headers),
+      this.checkPlatform(userAgent, headers),
+      this.checkMobile(userAgent, headers),
+      this.checkMissingHints(userAgent, headers),
+    ].filter((result): result is HeaderInconsistency => result !== null);
+
+    return inconsistencies.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  }
+
+  private checkBrand(userAgent: string, headers: Map<string, string>): HeaderInconsistency | null {
+    const brands = parseBrands(headers.get('sec-ch-ua'));
+    const browser = getUserAgentBrowser(userAgent);
+    if (!brands.length || !browser) return null;
+
+    const brandNames = brands.map((brand) => brand.name).join(', ');
+
+    if (!browser.chromium) {
+      return {
+        check: 'brand',
+        severity: 'high',
+        title: 'Client Hints From a Non-Chromium Browser',
+        description: `Your User-Agent claims ${browser.name}, which never sends Sec-CH-UA, yet the request carried client hints for ${brandNames}.`,
+        expected: brandNames,
+        observed: browser.name,
+      };
+    }
+
+    // Chrome-branded UAs are shared by Brave, Vivaldi and others; only vendor-specific tokens are checked
+    if (browser.name !== 'Chrome' && !brands.some((brand) => brand.name.includes(browser.name))) {
+      return {
+        check: 'brand',
+        severity: 'medium',
+        title: 'User Agent Brand Missing From Client Hints',
+        description: `Your User-Agent claims ${browser.name} but Sec-CH-UA only lists ${brandNames}.`,
+        expected: brandNames,
+        observed: browser.name,
+      };
+    }
+
+    return null;
+  }
+
+  private checkVersion(
+    userAgent: string,
+    headers: Map<string, string>
+  ): HeaderInconsistency | null {
+    const chromium = parseBrands(headers.get('sec-ch-ua')).find(
+      (brand) => brand.name === 'Chromium'
+    );
+    const uaVersion = userAgent.match(/Chrome\/(\d+)/)?.[1];
+    if (!chromium || !uaVersion) return null;
+
+    const hintVersion = chromium.version.split('.')[0];
+    if (hintVersion === uaVersion) return null;
+
+    return {
+      check: 'version',
+      severity: 'high',
+      title: 'User Agent Version Contradicts Client Hints',
+      description: `Your User-Agent claims Chrome ${uaVersion} but Sec-CH-UA reports Chromium ${hintVersion}. Rewriting the UA string without the hints is a common spoofing tell.`,
+      expected: hintVersion,
+      observed: uaVersion,
+    };
+  }
+
+  private checkPlatform(
+    userAgent: string,
+    headers: Map<string, string>
+  ): HeaderInconsistency | null {
+    const hintPlatform = unquote(headers.get('sec-ch-ua-platform'));
+    const uaPlatform = getUserAgentPlatform(userAgent);
+    if (!hintPlatform || !uaPlatform) return null;
+    if (normalizePlatform(hintPlatform) === normalizePlatform(uaPlatform)) return null;
+
+    return {
+      check: 'platform',
+      severity: 'high',
+      title: 'User Agent Platform Contradicts Client Hints',
+      description: `Your User-Agent claims ${uaPlatform} but Sec-CH-UA-Platform reports ${hintPlatform}.`,
+      expected: hintPlatform,
+      observed: uaPlatform,
+    };
+  }
+
+  private checkMobile(userAgent: string, headers: Map<string, string>): HeaderInconsistency | null {
+    const hintMobile = headers.get('sec-ch-ua-mobile');
+    if (hintMobile !== '?0' && hintMobile !== '?1') return null;
+
+    const uaMobile = /Mobile|Android|iPhone|iPod/.test(userAgent);
+    if (uaMobile === (hintMobile === '?1')) return null;
+
+    return {
+      check: 'mobile',
+      severity: 'medium',
+      title: 'User Agent Device Type Contradicts Client Hints',
+      description: `Your User-Agent describes a ${uaMobile ? 'mobile' : 'desktop'} device but Sec-CH-UA-Mobile disagrees.`,
+      expected: hintMobile === '?1' ? 'mobile' : 'desktop',
+      observed: uaMobile ? 'mobile' : 'desktop',
+    };
+  }
+
+  /**
+   * Modern Chromium sends Sec-CH-UA on every secure request; Sec-Fetch-* proves the
+   * request came from a secure context, so their absence points at a rewritten UA
+   * or a client that only imitates a browser.
+   */
+  private checkMissingHints(
+    userAgent: string,
+    headers: Map<string, string>
+  ): HeaderInconsistency | null {
+    const browser = getUserAgentBrowser(userAgent);
+    if (!browser?.chromium || browser.major < FIRST_CLIENT_HINTS_VERSION) return null;
+    if (headers.has('sec-ch-ua') || !headers.has('sec-fetch-site')) return null;
+
+    return {
+      check: 'missing-client-hints',
+      severity: 'low',
+      title: 'Client Hints Missing',
+      description: `Your User-Agent claims ${browser.name} ${browser.major}, which sends Sec-CH-UA by default, but none were received.`,
+      expected: 'Sec-CH-UA',
+      observed: 'none',
+    };
+  }
+}
+
+function pickByPrefix(headers: Map<string, string>, prefix: string): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const [name, value] of headers) {
+    if (name.startsWith(prefix)) picked[name] = value;
+  }
+  return picked;
+}
+
+/**
+ * Parse a Sec-CH-UA brand list (`"Chromium";v="131", "Not_A Brand";v="24"`), dropping GREASE entries
+ */
+export function parseBrands(header?: string): Array<{ name: string; version: string }> {
+  if (!header) return [];
+
+  return Array.from(header.matchAll(/"([^"]+)"\s*;\s*v="([^"]*)"/g))
+    .map(([, name, version]) => ({ name, version }))
+    .filter((brand) => !GREASE_BRAND_PATTERN.test(brand.name));
+}
+
+function getUserAgentBrowser(userAgent: string): UserAgentBrowser | null {
+  const match = (pattern: RegExp) => Number(userAgent.match(pattern)?.[1]);
+
+  if (/Edg\/\d+/.test(userAgent))
+    return { name: 'Microsoft Edge', major: match(/Edg\/(\d+)/), chromium: true };
+  if (/OPR\/\d+/.test(userAgent))
+    return { name: 'Opera', major: match(/OPR\/(\d+)/), chromium: true };
+  if (/Firefox\/\d+/.test(userAgent))
+    return { name: 'Firefox', major: match(/Firefox\/(\d+)/), chromium: false };
+  if (/CriOS|FxiOS|EdgiOS/.test(userAgent))
+    return { name: 'iOS WebKit', major: match(/OS (\d+)_/), chromium: false };
+  if (/Chrome\/\d+/.test(userAgent))
+    return { name: 'Chrome', major: match(/Chrome\/(\d+)/), chromium: true };
+  if (/Version\/\d+.*Safari/.test(userAgent))
+    return { name: 'Safari', major: match(/Version\/(\d+)/), chromium: false };
+  return null;
+}
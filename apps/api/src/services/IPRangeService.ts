@@ -0,0 +1,269 @@
+import type {
+  IPLeakResult,
+  IPRangeCategory,
+  IPRangeMatch,
+  IPRangeVerdict,
+} from '@browserleaks/types';
+import { CIDRTrie, parseCIDR } from '../lib/cidrTrie';
+import type { IPRangeStore, StoredIPRangeList } from '../db/IPRangeRepository';
+
+export type IPRangeFormat = 'lines' | 'aws' | 'gcp';
+
+/**
+ * Where a detection list comes from: a URL refreshed on schedule, a fixed set of
+ * ASNs, or both
+ */
+export interface IPRangeSource {
+  name: string;
+  category: IPRangeCategory;
+  url?: string;
+  format?: IPRangeFormat; // defaults to lines
+  asns?: string[];
+}
+
+export interface IPRangeRefreshReport {
+  updated: Array<{ name: string; cidrs: number; asns: number }>;
+  failed: Array<{ name: string; error: string }>;
+}
+
+export interface IPRangeServiceOptions {
+  sources?: IPRangeSource[];
+  fetcher?: typeof fetch;
+  maxAgeMs?: number;
+  indexTtlMs?: number;
+}
+
+export const DEFAULT_IP_RANGE_SOURCES: IPRangeSource[] = [
+  {
+    name: 'tor-exits',
+    category: 'tor',
+    url: 'https://check.torproject.org/torbulkexitlist',
+  },
+  {
+    name: 'x4bnet-vpn',
+    category: 'vpn',
+    url: 'https://raw.githubusercontent.com/X4BNet/lists_vpn/main/output/vpn/ipv4.txt',
+  },
+  {
+    name: 'aws',
+    category: 'datacenter',
+    url: 'https://ip-ranges.amazonaws.com/ip-ranges.json',
+    format: 'aws',
+    asns: ['AS16509', 'AS14618'],
+  },
+  {
+    name: 'gcp',
+    category: 'datacenter',
+    url: 'https://www.gstatic.com/ipranges/cloud.json',
+    format: 'gcp',
+    asns: ['AS396982'],
+  },
+  // Azure publishes its ranges behind a download page that changes weekly, so match its ASN
+  { name: 'azure', category: 'datacenter', asns: ['AS8075'] },
+  { name: 'ovh', category: 'datacenter', asns: ['AS16276'] },
+  { name: 'hetzner', category: 'datacenter', asns: ['AS24940', 'AS213230'] },
+];
+
+// The cron runs hourly; a list that missed a day of refreshes is reported as stale
+export const IP_RANGE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const INDEX_TTL_MS = 5 * 60 * 1000;
+
+const FLAGS: Record<IPRangeCategory, 'isTor' | 'isVPN' | 'isDatacenter' | 'isProxy'> = {
+  tor: 'isTor',
+  vpn: 'isVPN',
+  datacenter: 'isDatacenter',
+  proxy: 'isProxy',
+};
+
+/**
+ * Extract the CIDRs from a downloaded list; malformed entries are dropped
+ */
+export function parseRangeSource(format: IPRangeFormat, body: string): string[] {
+  let entries: string[];
+
+  switch (format) {
+    case 'aws': {
+      const data = JSON.parse(body) as {
+        prefixes?: Array<{ ip_prefix?: string }>;
+        ipv6_prefixes?: Array<{ ipv6_prefix?: string }>;
+      };
+      entries = [
+        ...(data.prefixes ?? []).map((prefix) => prefix.ip_prefix ?? ''),
+        ...(data.ipv6_prefixes ?? []).map((prefix) => prefix.ipv6_prefix ?? ''),
+      ];
+      break;
+    }
+    case 'gcp': {
+      const data = JSON.parse(body) as {
+        prefixes?: Array<{ ipv4Prefix?: string; ipv6Prefix?: string }>;
+      };
+      entries = (data.prefixes ?? []).map((prefix) => prefix.ipv4Prefix ?? prefix.ipv6Prefix ?? '');
+      break;
+    }
+    default:
+      entries = body.split('\n').map((line) => line.split('#')[0].trim());
+  }
+
+  return [...new Set(entries.filter((entry) => entry !== '' && parseCIDR(entry) !== null))];
+}
+
+/**
+ * Lookup structure over the stored lists: a CIDR trie and an ASN set per list
+ */
+export class IPRangeIndex {
+  private lists: Array<{ list: StoredIPRangeList; trie: CIDRTrie<string>; asns: Set<string> }>;
+
+  constructor(
+    lists: StoredIPRangeList[],
+    private maxAgeMs = IP_RANGE_MAX_AGE_MS
+  ) {
+    this.lists = lists.map((list) => {
+      const trie = new CIDRTrie<string>();
+      list.cidrs.forEach((cidr) => trie.insert(cidr, cidr));
+      return { list, trie, asns: new Set(list.asns.map((asn) => asn.toUpperCase())) };
+    });
+  }
+
+  check(ip: string, asn?: string, now = new Date()): IPRangeVerdict {
+    const matches: IPRangeMatch[] = [];
+
+    for (const { list, trie, asns } of this.lists) {
+      const cidr = trie.lookup(ip);
+      const matched = cidr ?? (asn && asns.has(asn.toUpperCase()) ? asn.toUpperCase() : null);
+      if (!matched) continue;
+
+      const ageMs = Math.max(0, now.getTime() - Date.parse(list.updatedAt));
+      matches.push({
+        category: list.category,
+        list: list.name,
+        matched,
+        updatedAt: list.updatedAt,
+        ageSeconds: Math.round(ageMs / 1000),
+        stale: ageMs > this.maxAgeMs,
+      });
+    }
+
+    const has = (category: IPRangeCategory) => matches.some((match) => match.category === category);
+
+    return {
+      ip,
+      isTor: has('tor'),
+      isVPN: has('vpn'),
+      isDatacenter: has('datacenter'),
+      isProxy: has('proxy'),
+      matches,
+      checkedAt: now.toISOString(),
+    };
+  }
+}
+
+/**
+ * Keeps the Tor exit, VPN and hosting lists up to date in a store and answers
+ * whether an address (or its ASN) is on any of them
+ */
+export class IPRangeService {
+  private sources: IPRangeSource[];
+  private index: { value: IPRangeIndex; loadedAt: number } | null = null;
+
+  constructor(
+    private store: IPRangeStore,
+    private options: IPRangeServiceOptions = {}
+  ) {
+    this.sources = options.sources ?? DEFAULT_IP_RANGE_SOURCES;
+  }
+
+  /**
+   * Fetch every source; a source that fails keeps its previous list
+   */
+  async refresh(now = new Date()): Promise<IPRangeRefreshReport> {
+    const fetcher = this.options.fetcher ?? fetch;
+    const report: IPRangeRefreshReport = { updated: [], failed: [] };
+
+    const outcomes = await Promise.allSettled(
+      this.sources.map(async (source) => {
+        let cidrs: string[] = [];
+        if (source.url) {
+          const response = await fetcher(source.url, {
+            headers: { 'User-Agent': 'BrowserLeaks/2.0' },
+          });
+          if (!response.ok) {
+            throw new Error(`responded with ${response.status}`);
+          }
+          cidrs = parseRangeSource(source.format ?? 'lines', await response.text());
+          if (cidrs.length === 0) {
+            throw new Error('no ranges in response');
+          }
+        }
+
+        const asns = source.asns ?? [];
+        await this.store.put({
+          name: source.name,
+          category: source.category,
+          source: source.url ?? 'static',
+          cidrs,
+          asns,
+          updatedAt: now.toISOString(),
+        });
+        return { name: source.name, cidrs: cidrs.length, asns: asns.length };
+      })
+    );
+
+    // Reported in source order, whatever order the fetches finished in
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        report.updated.push(outcome.value);
+      } else {
+        report.failed.push({
+          name: this.sources[index].name,
+          error: outcome.reason instanceof Error ? outcome.reason.message : 'refresh failed',
+        });
+      }
+    });
+
+    this.index = null;
+    return report;
+  }
+
+  async check(ip: string, asn?: string, now = new Date()): Promise<IPRangeVerdict> {
+    const index = await this.getIndex(now.getTime());
+    return index.check(ip, asn, now);
+  }
+
+  private async getIndex(now: number): Promise<IPRangeIndex> {
+    const ttl = this.options.indexTtlMs ?? INDEX_TTL_MS;
+    if (!this.index || now - this.index.loadedAt > ttl) {
+      const lists = await this.store.listAll();
+      this.index = { value: new IPRangeIndex(lists, this.options.maxAgeMs), loadedAt: now };
+    }
+    return this.index.value;
+  }
+}
+
+/**
+ * Fold a verdict into a detection result. A list match is positive evidence and
+ * sets the flag; absence from every list proves nothing, so it never clears one.
+ */
+export function applyRangeVerdict(result: IPLeakResult, verdict: IPRangeVerdict): IPLeakResult {
+  const privacy = { ...result.privacy };
+  const provenance = result.provenance ? { ...result.provenance } : undefined;
+
+  for (const [category, flag] of Object.entries(FLAGS) as Array<
+    [IPRangeCategory, (typeof FLAGS)[IPRangeCategory]]
+  >) {
+    const lists = verdict.matches
+      .filter((match) => match.category === category)
+      .map((match) => `list:${match.list}`);
+    if (lists.length === 0) continue;
+
+    if (provenance) {
+      const previous = provenance[flag];
+      provenance[flag] =
+        privacy[flag] && previous
+          ? { ...previous, sources: [...previous.sources, ...lists] }
+          : { sources: lists, dissent: previous?.sources ?? [], confidence: 1 };
+    }
+    privacy[flag] = true;
+  }
+
+  return { ...result, privacy, ...(provenance ? { provenance } : {}), ranges: verdict };
+}
@@ -0,0 +1,237 @@
+import type { IPFieldProvenance, IPLeakResult, IPProvenanceField } from '@browserleaks/types';
+import type { IPProvider, IPProviderRecord } from '../clients/IPProviderClients';
+import type { IPCacheStore } from '../db/IPCacheRepository';
+
+/**
+ * One provider's answer for an address
+ */
+export interface ProviderAnswer {
+  name: string;
+  weight: number;
+  record: IPProviderRecord;
+}
+
+export interface IPReconciliationOptions {
+  cache?: IPCacheStore;
+  cacheTtlSeconds?: number;
+}
+
+interface Tally<T> {
+  value: T;
+  voters: ProviderAnswer[];
+  provenance: IPFieldProvenance;
+}
+
+export const IP_CACHE_TTL_SECONDS = 300; // 5 minutes
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Weighted vote over the answers that report a field. Ties go to the side of the
+ * heaviest provider; confidence is the winning weight over the weight of every
+ * provider that answered, so a field only one light provider knows stays uncertain.
+ */
+function tally<T>(
+  answers: ProviderAnswer[],
+  pick: (record: IPProviderRecord) => T | undefined,
+  agrees: (a: T, b: T) => boolean,
+  totalWeight: number
+): Tally<T> | null {
+  const groups: Array<{ value: T; weight: number; voters: ProviderAnswer[] }> = [];
+
+  for (const answer of answers) {
+    const value = pick(answer.record);
+    if (value === undefined || value === '') continue;
+
+    const group = groups.find((candidate) => agrees(candidate.value, value));
+    if (group) {
+      group.weight += answer.weight;
+      group.voters.push(answer);
+    } else {
+      groups.push({ value, weight: answer.weight, voters: [answer] });
+    }
+  }
+
+  let winner: (typeof groups)[number] | null = null;
+  // answers are sorted heaviest first, so the first group to reach a weight wins ties
+  for (const group of groups) {
+    if (!winner || group.weight > winner.weight) winner = group;
+  }
+  if (!winner) return null;
+
+  const sources = winner.voters.map((voter) => voter.name);
+  const dissent = groups
+    .filter((group) => group !== winner)
+    .flatMap((group) => group.voters.map((voter) => voter.name));
+
+  return {
+    value: winner.value,
+    voters: winner.voters,
+    provenance: { sources, dissent, confidence: round2(winner.weight / totalWeight) },
+  };
+}
+
+/**
+ * Merge several providers' answers into one result, field by field
+ */
+export function reconcileIPRecords(ip: string, answers: ProviderAnswer[]): IPLeakResult {
+  const sorted = [...answers].sort((a, b) => b.weight - a.weight);
+  const total = sorted.reduce((sum, answer) => sum + answer.weight, 0);
+  const provenance: Partial<Record<IPProvenanceField, IPFieldProvenance>> = {};
+
+  const text = (
+    field: IPProvenanceField,
+    pick: (record: IPProviderRecord) => string | undefined
+  ) => {
+    const result = tally(sorted, pick, sameText, total);
+    if (result) provenance[field] = result.provenance;
+    return result;
+  };
+  const flag = (
+    field: IPProvenanceField,
+    pick: (record: IPProviderRecord) => boolean | undefined
+  ) => {
+    const result = tally(sorted, pick, (a, b) => a === b, total);
+    if (result) provenance[field] = result.provenance;
+    return result?.value ?? false;
+  };
+
+  const country = text('country', (record) => record.countryCode?.toUpperCase());
+  const region = text('region', (record) => record.region);
+  const city = text('city', (record) => record.city);
+  const timezone = text('timezone', (record) => record.timezone);
+  const asn = text('asn', (record) => record.asn);
+
+  // Coordinates never match exactly; providers agree when they are within about 100 km
+  const location = tally(
+    sorted,
+    (record) =>
+      record.latitude !== undefined && record.longitude !== undefined
+        ? ([record.latitude, record.longitude] as const)
+        : undefined,
+    (a, b) => Math.abs(a[0] - b[0]) <= 1 && Math.abs(a[1] - b[1]) <= 1,
+    total
+  );
+  if (location) provenance.location = location.provenance;
+
+  // Spellings of the same network differ between providers, so the name follows the ASN vote
+  const organizationVoters = asn?.voters ?? sorted;
+  const organization = organizationVoters.find((voter) => voter.record.organization);
+  if (organization) {
+    provenance.organization = asn?.provenance ?? {
+      sources: [organization.name],
+      dissent: [],
+      confidence: round2(organization.weight / total),
+    };
+  }
+
+  const privacy = {
+    isProxy: flag('isProxy', (record) => record.isProxy),
+    isVPN: flag('isVPN', (record) => record.isVPN),
+    isDatacenter: flag('isDatacenter', (record) => record.isDatacenter),
+    isTor: flag('isTor', (record) => record.isTor),
+    isRelay: flag('isRelay', (record) => record.isRelay),
+  };
+
+  const locationWeight = location?.voters.reduce((sum, voter) => sum + voter.weight, 0) ?? 0;
+  const average = (pick: (record: IPProviderRecord) => number | undefined) =>
+    location
+      ? location.voters.reduce((sum, voter) => sum + (pick(voter.record) ?? 0) * voter.weight, 0) /
+        locationWeight
+      : 0;
+
+  const fieldConfidences = Object.values(provenance).map((field) => field.confidence);
+
+  return {
+    ip,
+    version: ip.includes(':') ? 'ipv6' : 'ipv4',
+    geo: {
+      country:
+        country?.voters.find((voter) => voter.record.country)?.record.country ??
+        country?.value ??
+        'Unknown',
+      countryCode: country?.value ?? 'XX',
+      city: city?.value ?? 'Unknown',
+      region: region?.value ?? 'Unknown',
+      latitude: average((record) => record.latitude),
+      longitude: average((record) => record.longitude),
+      timezone: timezone?.value ?? 'UTC',
+      postalCode: city?.voters.find((voter) => voter.record.postalCode)?.record.postalCode,
+    },
+    network: {
+      isp: organization?.record.organization ?? 'Unknown',
+      asn: asn?.value ?? 'Unknown',
+      organization: organization?.record.organization ?? 'Unknown',
+    },
+    privacy,
+    reputation: {
+      score: calculateReputationScore(privacy),
+      isBlacklisted: false,
+      categories: [],
+    },
+    sources: sorted.map((answer) => answer.name),
+    confidence:
+      fieldConfidences.length > 0
+        ? round2(fieldConfidences.reduce((sum, value) => sum + value, 0) / fieldConfidences.length)
+        : 0,
+    provenance,
+  };
+}
+
+function calculateReputationScore(privacy: IPLeakResult['privacy']): number {
+  let score = 100;
+
+  if (privacy.isProxy) score -= 20;
+  if (privacy.isTor) score -= 30;
+  if (privacy.isDatacenter) score -= 15;
+
+  return Math.max(0, Math.min(100, score));
+}
+
+/**
+ * Looks an address up with every provider in parallel and reconciles the answers;
+ * results are cached, and a provider failing only removes its vote
+ */
+export class IPReconciliationService {
+  constructor(
+    private providers: IPProvider[],
+    private options: IPReconciliationOptions = {}
+  ) {}
+
+  async detect(ip: string): Promise<IPLeakResult> {
+    // Caching is best-effort: a cache outage must not fail the lookup
+    const cached = await this.options.cache?.get(ip).catch(() => null);
+    if (cached) return cached;
+
+    if (this.providers.length === 0) {
+      throw new Error('No IP intelligence providers are configured');
+    }
+
+    const settled = await Promise.allSettled(this.providers.map((provider) => provider.lookup(ip)));
+
+    const answers: ProviderAnswer[] = [];
+    const failures: string[] = [];
+    settled.forEach((outcome, index) => {
+      const { name, weight } = this.providers[index];
+      if (outcome.status === 'fulfilled') {
+        answers.push({ name, weight, record: outcome.value });
+      } else {
+        const reason = outcome.reason instanceof Error ? outcome.reason.message : 'failed';
+        failures.push(`${name}: ${reason}`);
+      }
+    });
+
+    if (answers.length === 0) {
+      throw new Error(`All IP intelligence providers failed (${failures.join('; ')})`);
+    }
+
+    const result = reconcileIPRecords(ip, answers);
+    await this.options.cache
+      ?.put(ip, result, this.options.cacheTtlSeconds ?? IP_CACHE_TTL_SECONDS)
+      .catch(() => undefined);
+
+    return result;
+  }
+}
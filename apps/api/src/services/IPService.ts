@@ -1,26 +1,50 @@
-import { IPInfoClient } from '../clients/IPInfoClient';
 import type { IPLeakResult } from '@browserleaks/types';
 import type { Request } from 'express';
+import { config, hasCloudflareRadarToken, hasLocalGeoIP } from '../config';
+import {
+  CloudflareRadarProvider,
+  IPInfoProvider,
+  type IPProvider,
+} from '../clients/IPProviderClients';
+import { InMemoryIPCacheRepository } from '../db/IPCacheRepository';
+import { loadGeoLiteProvider } from '../lib/geoip';
 import { log } from '../middleware/logger';
+import { IPReconciliationService } from './IPReconciliationService';
 
-export class IPService {
-  private ipinfoClient: IPInfoClient;
+// Shared by every IPService so local databases are read once and lookups are cached
+let reconciler: IPReconciliationService | null = null;
 
-  constructor() {
-    this.ipinfoClient = new IPInfoClient();
-  }
+function getReconciler(): IPReconciliationService {
+  if (!reconciler) {
+    const providers: IPProvider[] = [];
 
-  async detect(ip?: string): Promise<IPLeakResult> {
-    try {
-      // Get IP information from IPInfo
-      const result = await this.ipinfoClient.lookup(ip);
+    if (hasLocalGeoIP()) {
+      providers.push(
+        loadGeoLiteProvider({
+          cityPath: config.GEOIP_CITY_DB_PATH,
+          asnPath: config.GEOIP_ASN_DB_PATH,
+          rangesPath: config.IP_RANGES_PATH,
+        })
+      );
+    }
+    if (config.IPINFO_TOKEN) providers.push(new IPInfoProvider(config.IPINFO_TOKEN));
+    if (hasCloudflareRadarToken() && config.CLOUDFLARE_RADAR_TOKEN) {
+      providers.push(new CloudflareRadarProvider(config.CLOUDFLARE_RADAR_TOKEN));
+    }
 
-      // Additional processing can be added here
-      // - Check against blacklists
-      // - Enhance with additional data sources
-      // - Cache results
+    reconciler = new IPReconciliationService(providers, {
+      cache: new InMemoryIPCacheRepository(),
+      cacheTtlSeconds: parseInt(config.CACHE_TTL_IP, 10),
+    });
+  }
+  return reconciler;
+}
 
-      return result;
+export class IPService {
+  async detect(ip: string): Promise<IPLeakResult> {
+    try {
+      // Local databases, IPInfo and Cloudflare Radar, whichever are configured
+      return await getReconciler().detect(ip);
     } catch (error) {
       log.error('IP detection error', { error });
       throw error;
@@ -1,183 +1,94 @@
 /**
  * IP Service (Worker Version)
  *
- * Handles IP detection using IPInfo API.
- * Uses fetch API instead of axios for Worker compatibility.
- * Integrates with KV for caching.
+ * Queries every configured IP intelligence provider in parallel and reconciles
+ * their answers (see IPReconciliationService), with per-field provenance, then
+ * checks the address against our Tor exit / VPN / hosting lists.
+ * Uses fetch only for Worker compatibility and caches results in KV.
  */
 
-import type { IPLeakResult } from '@browserleaks/types';
+import type { IPLeakResult, IPRangeVerdict } from '@browserleaks/types';
 import type { Env } from '../types/env';
+import {
+  CloudflareRadarProvider,
+  IPInfoProvider,
+  MyIPDataProvider,
+  type IPProvider,
+} from '../clients/IPProviderClients';
+import { KVIPCacheRepository } from '../db/IPCacheRepository';
+import { KVIPRangeRepository } from '../db/IPRangeRepository';
+import { IPReconciliationService } from './IPReconciliationService';
+import { IPRangeService, applyRangeVerdict, type IPRangeSource } from './IPRangeService';
+import { log } from '../middleware/logger.worker';
+
+// One per isolate, so the list index is built once rather than on every request
+let rangeService: IPRangeService | null = null;
 
-interface IPInfoPrivacy {
-  proxy?: boolean;
-  vpn?: boolean;
-  hosting?: boolean;
-  tor?: boolean;
-  relay?: boolean;
-}
+/**
+ * The list engine, backed by the CACHE namespace; null when KV is not bound.
+ * IP_RANGE_SOURCES may replace the default sources with a JSON array of IPRangeSource.
+ */
+export function createIPRangeService(env: Env): IPRangeService | null {
+  if (!env.CACHE) return null;
 
-interface IPInfoCompany {
-  type?: string;
+  if (!rangeService) {
+    let sources: IPRangeSource[] | undefined;
+    try {
+      sources = env.IP_RANGE_SOURCES ? JSON.parse(env.IP_RANGE_SOURCES) : undefined;
+    } catch (error) {
+      log.error('Invalid IP_RANGE_SOURCES, using the defaults', { error });
+    }
+    rangeService = new IPRangeService(new KVIPRangeRepository(env.CACHE), { sources });
+  }
+  return rangeService;
 }
 
-interface IPInfoAbuse {
-  score?: number;
-}
+/**
+ * Providers enabled by the Worker's secrets; my-ip-data needs no key
+ */
+export function createIPProviders(env: Env): IPProvider[] {
+  const providers: IPProvider[] = [new MyIPDataProvider(env.MY_IP_DATA_URL)];
 
-interface IPInfoResponse {
-  ip: string;
-  city?: string;
-  region?: string;
-  country?: string;
-  loc?: string;
-  timezone?: string;
-  postal?: string;
-  org?: string;
-  privacy?: IPInfoPrivacy;
-  company?: IPInfoCompany;
-  abuse?: IPInfoAbuse;
-}
+  if (env.IPINFO_TOKEN) providers.push(new IPInfoProvider(env.IPINFO_TOKEN));
+  if (env.CLOUDFLARE_RADAR_TOKEN) {
+    providers.push(new CloudflareRadarProvider(env.CLOUDFLARE_RADAR_TOKEN));
+  }
 
-const CACHE_TTL = 300; // 5 minutes
+  return providers;
+}
 
 export class IPService {
-  private env: Env;
+  private reconciler: IPReconciliationService;
+  private ranges: IPRangeService | null;
 
-  constructor(env: Env) {
-    this.env = env;
+  constructor(env: Env, providers: IPProvider[] = createIPProviders(env)) {
+    this.reconciler = new IPReconciliationService(providers, {
+      cache: env.CACHE ? new KVIPCacheRepository(env.CACHE) : undefined,
+    });
+    this.ranges = createIPRangeService(env);
   }
 
   /**
    * Detect IP information with caching
    */
   async detect(ip: string): Promise<IPLeakResult> {
-    // Try cache first
-    const cached = await this.getCached(ip);
-    if (cached) {
-      return cached;
-    }
-
-    // Fetch from IPInfo
-    const result = await this.fetchFromIPInfo(ip);
-
-    // Cache the result
-    await this.setCache(ip, result);
-
-    return result;
-  }
-
-  /**
-   * Fetch IP info from IPInfo.io
-   */
-  private async fetchFromIPInfo(ip?: string): Promise<IPLeakResult> {
-    const token = this.env.IPINFO_TOKEN;
-    if (!token) {
-      throw new Error('IPINFO_TOKEN not configured');
-    }
-
-    const url = ip
-      ? `https://ipinfo.io/${ip}/json?token=${token}`
-      : `https://ipinfo.io/json?token=${token}`;
+    const result = await this.reconciler.detect(ip);
+    const verdict = await this.checkRanges(ip, result.network.asn);
 
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'BrowserLeaks/2.0',
-        Accept: 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`IPInfo API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data: IPInfoResponse = await response.json();
-    return this.transformResponse(data);
-  }
-
-  /**
-   * Transform IPInfo response to our format
-   */
-  private transformResponse(data: IPInfoResponse): IPLeakResult {
-    // Parse location
-    const [latitude, longitude] = (data.loc || '0,0').split(',').map(Number);
-
-    return {
-      ip: data.ip,
-      version: data.ip.includes(':') ? 'ipv6' : 'ipv4',
-      geo: {
-        country: data.country || 'Unknown',
-        countryCode: data.country || 'XX',
-        city: data.city || 'Unknown',
-        region: data.region || 'Unknown',
-        latitude,
-        longitude,
-        timezone: data.timezone || 'UTC',
-        postalCode: data.postal,
-      },
-      network: {
-        isp: data.org || 'Unknown',
-        asn: data.org?.match(/AS\d+/)?.[0] || 'Unknown',
-        organization: data.org || 'Unknown',
-      },
-      privacy: {
-        isProxy: Boolean(data.privacy?.proxy),
-        isVPN: Boolean(data.privacy?.vpn),
-        isDatacenter: data.company?.type === 'hosting' || Boolean(data.privacy?.hosting),
-        isTor: Boolean(data.privacy?.tor),
-        isRelay: Boolean(data.privacy?.relay),
-      },
-      reputation: {
-        score: this.calculateReputationScore(data),
-        isBlacklisted: false,
-        categories: [],
-      },
-    };
-  }
-
-  /**
-   * Calculate reputation score based on privacy flags
-   */
-  private calculateReputationScore(data: IPInfoResponse): number {
-    let score = 100;
-
-    if (data.privacy?.proxy) score -= 20;
-    if (data.privacy?.tor) score -= 30;
-    if (data.privacy?.hosting) score -= 15;
-    if (data.abuse?.score) score -= data.abuse.score * 10;
-
-    return Math.max(0, Math.min(100, score));
-  }
-
-  /**
-   * Get cached IP result from KV
-   */
-  private async getCached(ip: string): Promise<IPLeakResult | null> {
-    if (!this.env.CACHE) return null;
-
-    try {
-      const key = `ip:${ip}`;
-      const cached = await this.env.CACHE.get(key, { type: 'json' });
-      return cached as IPLeakResult | null;
-    } catch (error) {
-      console.error('Cache get error:', error);
-      return null;
-    }
+    return verdict ? applyRangeVerdict(result, verdict) : result;
   }
 
   /**
-   * Cache IP result in KV
+   * Tor exit / VPN / hosting list verdict; undefined without KV or when the lists fail to load
    */
-  private async setCache(ip: string, result: IPLeakResult): Promise<void> {
-    if (!this.env.CACHE) return;
+  async checkRanges(ip: string, asn?: string): Promise<IPRangeVerdict | undefined> {
+    if (!this.ranges) return undefined;
 
     try {
-      const key = `ip:${ip}`;
-      await this.env.CACHE.put(key, JSON.stringify(result), {
-        expirationTtl: CACHE_TTL,
-      });
+      return await this.ranges.check(ip, asn);
     } catch (error) {
-      console.error('Cache set error:', error);
+      log.error('IP range check error', { error });
+      return undefined;
     }
   }
 }
@@ -0,0 +1,311 @@
+import type {
+  IPLeakResult,
+  IPv6AddressAnalysis,
+  IPv6InterfaceIdType,
+  IPv6LeakResult,
+  IPv6LeakTest,
+  IPv6ProbeEndpoint,
+  IPv6ProbeResult,
+} from '@browserleaks/types';
+import type { IPv6LeakStore, IPv6ProbeObservation } from '../db/IPv6LeakRepository';
+import { parseIPAddress, unmapIPv4 } from '../utils/ip';
+
+/**
+ * How long a test accepts probe requests
+ */
+export const IPV6_LEAK_TEST_TTL_MS = 10 * 60 * 1000;
+
+export const IPV6_PROBE_ENDPOINTS: IPv6ProbeEndpoint[] = ['ipv4', 'ipv6', 'dual'];
+
+export interface IPv6LeakServiceOptions {
+  // Origin serving the probe route for each endpoint, e.g. https://ipv6.example.com
+  origins: Record<IPv6ProbeEndpoint, string>;
+  lookup: (ip: string) => Promise<IPLeakResult>;
+}
+
+type NetworkInfo = Pick<IPv6ProbeResult, 'asn' | 'isp' | 'countryCode'>;
+
+/**
+ * Dual-stack leak test. The client fetches the same test ID from a hostname with
+ * only an A record, one with only an AAAA record and one with both; each request
+ * records the address it arrived from. A VPN that tunnels only IPv4 shows up as
+ * IPv6 arriving from a different network than IPv4.
+ */
+export class IPv6LeakService {
+  constructor(
+    private store: IPv6LeakStore,
+    private options: IPv6LeakServiceOptions
+  ) {}
+
+  /**
+   * Start a test and return the probe URL for each endpoint
+   */
+  async createTest(): Promise<IPv6LeakTest> {
+    const testId = crypto.randomUUID().replace(/-/g, '');
+    const now = Date.now();
+    const expiresAt = new Date(now + IPV6_LEAK_TEST_TTL_MS).toISOString();
+
+    await this.store.createTest({
+      id: testId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt,
+    });
+
+    const probes = Object.fromEntries(
+      IPV6_PROBE_ENDPOINTS.map((endpoint) => [
+        endpoint,
+        buildProbeUrl(this.options.origins[endpoint], testId, endpoint),
+      ])
+    ) as Record<IPv6ProbeEndpoint, string>;
+
+    return { testId, probes, expiresAt };
+  }
+
+  /**
+   * Record the address a probe request came from.
+   * Returns false for unknown or expired tests and malformed addresses.
+   */
+  async recordProbe(
+    testId: string,
+    endpoint: IPv6ProbeEndpoint,
+    clientIp: string,
+    observedAt = new Date()
+  ): Promise<boolean> {
+    const ip = normalizeAddress(clientIp);
+    if (!ip) return false;
+
+    const test = await this.store.getTest(testId);
+    if (!test || Date.parse(test.expiresAt) < observedAt.getTime()) return false;
+
+    await this.store.recordObservation({
+      testId,
+      endpoint,
+      ip,
+      observedAt: observedAt.toISOString(),
+    });
+
+    return true;
+  }
+
+  /**
+   * Correlate the probes of a test. Returns null when the test does not exist.
+   */
+  async collect(testId: string): Promise<IPv6LeakResult | null> {
+    const test = await this.store.getTest(testId);
+    if (!test) return null;
+
+    const observations = await this.store.listObservations(testId);
+    const latest = new Map<IPv6ProbeEndpoint, IPv6ProbeObservation>();
+    for (const observation of observations) {
+      latest.set(observation.endpoint, observation);
+    }
+
+    const networks = new Map<string, NetworkInfo>();
+    await Promise.all(
+      [...new Set([...latest.values()].map((observation) => observation.ip))].map(async (ip) => {
+        networks.set(ip, await this.lookup(ip));
+      })
+    );
+
+    const probes: IPv6ProbeResult[] = IPV6_PROBE_ENDPOINTS.map((endpoint) => {
+      const observation = latest.get(endpoint);
+      if (!observation) return { endpoint, reached: false };
+      return {
+        endpoint,
+        reached: true,
+        ip: observation.ip,
+        version: addressFamily(observation.ip),
+        ...networks.get(observation.ip),
+      };
+    });
+
+    const ipv4 = probes.find((probe) => probe.version === 'ipv4');
+    const ipv6 = probes.find((probe) => probe.version === 'ipv6');
+    const isLeak = Boolean(ipv4 && ipv6 && !isSameNetwork(ipv4, ipv6));
+
+    const v6Addresses = observations
+      .map((observation) => observation.ip)
+      .filter((ip) => addressFamily(ip) === 'ipv6');
+    const analysis = ipv6?.ip ? analyzeIPv6Address(ipv6.ip, ipv6, v6Addresses) : undefined;
+
+    return {
+      testId,
+      isLeak,
+      ipv6Reachable: Boolean(ipv6),
+      preferredFamily: probes.find((probe) => probe.endpoint === 'dual')?.version ?? null,
+      probes,
+      ...(analysis ? { ipv6: analysis } : {}),
+      risks: buildRisks(isLeak, ipv4, ipv6, analysis),
+      recommendations: buildRecommendations(isLeak, ipv4, ipv6, analysis),
+    };
+  }
+
+  private async lookup(ip: string): Promise<NetworkInfo> {
+    try {
+      const info = await this.options.lookup(ip);
+      return {
+        asn: info.network.asn || 'Unknown',
+        isp: info.network.isp || 'Unknown',
+        countryCode: info.geo.countryCode || 'XX',
+      };
+    } catch {
+      return { asn: 'Unknown', isp: 'Unknown', countryCode: 'XX' };
+    }
+  }
+}
+
+export function buildProbeUrl(origin: string, testId: string, endpoint: IPv6ProbeEndpoint): string {
+  return `${origin.replace(/\/+$/, '')}/v1/ipv6-leak/tests/${testId}/${endpoint}`;
+}
+
+/**
+ * Classify the interface ID (low 64 bits) of an IPv6 address
+ */
+export function classifyInterfaceId(ip: string): {
+  type: IPv6InterfaceIdType;
+  macAddress?: string;
+} | null {
+  const bytes = parseIPAddress(ip);
+  if (!bytes || bytes.length !== 16) return null;
+
+  const iid = bytes.subarray(8);
+
+  // EUI-64 inserts ff:fe in the middle of the MAC and flips the universal/local bit
+  if (iid[3] === 0xff && iid[4] === 0xfe) {
+    const mac = [iid[0] ^ 0x02, iid[1], iid[2], iid[5], iid[6], iid[7]];
+    return {
+      type: 'eui64',
+      macAddress: mac.map((byte) => byte.toString(16).padStart(2, '0')).join(':'),
+    };
+  }
+
+  // ::1, ::10, ::cafe and similar are assigned by hand or by a sequential DHCPv6 pool
+  if (iid.subarray(0, 6).every((byte) => byte === 0)) {
+    return { type: 'low-entropy' };
+  }
+
+  return { type: 'randomized' };
+}
+
+export function formatIPv6Prefix(ip: string): string | null {
+  const bytes = parseIPAddress(ip);
+  if (!bytes || bytes.length !== 16) return null;
+
+  const groups = [0, 2, 4, 6].map((offset) =>
+    ((bytes[offset] << 8) | bytes[offset + 1]).toString(16)
+  );
+  return `${groups.join(':').replace(/(:0)+$/, '')}::/64`;
+}
+
+function analyzeIPv6Address(
+  address: string,
+  network: NetworkInfo,
+  seen: string[]
+): IPv6AddressAnalysis | undefined {
+  const interfaceId = classifyInterfaceId(address);
+  const prefix = formatIPv6Prefix(address);
+  if (!interfaceId || !prefix) return undefined;
+
+  // Temporary addresses rotate; two in the same /64 within one test show it happening
+  const rotated = new Set(seen.filter((ip) => formatIPv6Prefix(ip) === prefix)).size > 1;
+
+  return {
+    address,
+    prefix,
+    asn: network.asn ?? 'Unknown',
+    isp: network.isp ?? 'Unknown',
+    countryCode: network.countryCode ?? 'XX',
+    interfaceId: interfaceId.type,
+    privacyExtensions: interfaceId.type === 'randomized',
+    ...(interfaceId.macAddress ? { macAddress: interfaceId.macAddress } : {}),
+    rotated,
+  };
+}
+
+/**
+ * Canonical form of a client address: IPv4-mapped IPv6 becomes dotted IPv4
+ */
+function normalizeAddress(ip: string): string | null {
+  const bytes = parseIPAddress(ip.trim());
+  if (!bytes) return null;
+
+  const unmapped = unmapIPv4(bytes);
+  return unmapped.length === 4 ? unmapped.join('.') : ip.trim().toLowerCase();
+}
+
+function addressFamily(ip: string): 'ipv4' | 'ipv6' {
+  return ip.includes(':') ? 'ipv6' : 'ipv4';
+}
+
+/**
+ * Compare by ASN; fall back to country when either ASN could not be resolved
+ */
+function isSameNetwork(a: NetworkInfo, b: NetworkInfo): boolean {
+  if (a.asn && a.asn !== 'Unknown' && b.asn && b.asn !== 'Unknown') {
+    return a.asn === b.asn;
+  }
+  return a.countryCode !== 'XX' && a.countryCode === b.countryCode;
+}
+
+function buildRisks(
+  isLeak: boolean,
+  ipv4: IPv6ProbeResult | undefined,
+  ipv6: IPv6ProbeResult | undefined,
+  analysis: IPv6AddressAnalysis | undefined
+): IPv6LeakResult['risks'] {
+  const risks: IPv6LeakResult['risks'] = [];
+
+  if (isLeak && ipv4 && ipv6) {
+    risks.push({
+      severity: 'critical',
+      title: 'IPv6 Leak Detected',
+      description: `IPv4 traffic leaves through ${ipv4.isp} (${ipv4.asn}) but IPv6 traffic goes around it through ${ipv6.isp} (${ipv6.asn}). Sites reachable over IPv6 see ${ipv6.ip}.`,
+    });
+  }
+
+  if (analysis?.macAddress) {
+    risks.push({
+      severity: 'high',
+      title: 'Hardware Address in IPv6 Address',
+      description: `Your IPv6 address is derived from your network adapter's MAC address (${analysis.macAddress}), which identifies this device on every network it joins.`,
+    });
+  }
+
+  return risks;
+}
+
+function buildRecommendations(
+  isLeak: boolean,
+  ipv4: IPv6ProbeResult | undefined,
+  ipv6: IPv6ProbeResult | undefined,
+  analysis: IPv6AddressAnalysis | undefined
+): string[] {
+  if (!ipv4 && !ipv6) {
+    return ['None of the probe endpoints was reached. Please try again.'];
+  }
+
+  const recommendations: string[] = [];
+
+  if (isLeak) {
+    recommendations.push(
+      'Use a VPN that tunnels IPv6, or enable its IPv6 leak protection',
+      'Disable IPv6 on this network interface if your VPN only supports IPv4'
+    );
+  }
+
+  if (analysis?.interfaceId === 'eui64') {
+    recommendations.push(
+      'Enable IPv6 privacy extensions (temporary addresses) in your operating system'
+    );
+  }
+
+  if (recommendations.length === 0) {
+    recommendations.push(
+      ipv6
+        ? 'No IPv6 leak detected. IPv4 and IPv6 traffic leave through the same network.'
+        : 'No IPv6 leak detected. IPv6 is not reachable from this connection.'
+    );
+  }
+
+  return recommendations;
+}
@@ -1,43 +1,50 @@
-import crypto from 'node:crypto';
-import { CloudflareWorkerClient } from '../clients/CloudflareWorkerClient';
-
-export interface TracerouteHop {
-  hop: number;
-  ip: string;
-  location: string;
-  rtt: number;
-}
-
-export interface LanHost {
-  ip: string;
-  device: string;
-  status: 'open' | 'filtered' | 'closed';
-  service: string;
-}
+import type { IPLeakResult, TracerouteProtocol, TracerouteResult } from '@browserleaks/types';
+import {
+  CloudflareWorkerClient,
+  type CloudflareWorkerClientOptions,
+} from '../clients/CloudflareWorkerClient';
+import { TracerouteAgentClient } from '../clients/TracerouteAgentClient';
+import { TracerouteService, buildSyntheticTraceroute } from './TracerouteService';
 
 export interface NetworkInsightsPayload {
-  traceroute: TracerouteHop[];
+  traceroute: TracerouteResult;
   ja3: {
     hash: string;
     userAgent: string;
     ciphers: string[];
   };
-  lanHosts: LanHost[];
   dnsBeacon?: unknown;
 }
 
+export interface NetworkInsightsOptions extends CloudflareWorkerClientOptions {
+  lookup: (ip: string) => Promise<IPLeakResult>;
+  tracerouteAgent?: { url: string; token: string }; // without it traceroutes are synthetic
+}
+
 export class NetworkInsightsService {
-  private workerClient = new CloudflareWorkerClient();
+  private workerClient: CloudflareWorkerClient;
+  private tracerouteService: TracerouteService;
 
-  async getInsights(): Promise<NetworkInsightsPayload> {
-    const traceroute = this.buildTraceroute();
-    const lanHosts = this.buildLanHosts();
-    const ja3 = await this.workerClient.fetchJA3();
-    const beacon = await this.workerClient.beaconDNS(traceroute[traceroute.length - 1]?.ip || crypto.randomUUID());
+  constructor({ lookup, tracerouteAgent, ...workerOptions }: NetworkInsightsOptions) {
+    this.workerClient = new CloudflareWorkerClient(workerOptions);
+    this.tracerouteService = new TracerouteService(
+      tracerouteAgent ? new TracerouteAgentClient(tracerouteAgent) : null,
+      { lookup }
+    );
+  }
+
+  async getInsights(
+    clientIp: string,
+    protocol?: TracerouteProtocol
+  ): Promise<NetworkInsightsPayload> {
+    const [traceroute, ja3, beacon] = await Promise.all([
+      this.tracerouteService.trace(clientIp, protocol),
+      this.workerClient.fetchJA3(),
+      this.workerClient.beaconDNS(crypto.randomUUID()),
+    ]);
 
     return {
       traceroute,
-      lanHosts,
       dnsBeacon: beacon,
       ja3: {
         hash: ja3.ja3_hash,
@@ -49,42 +56,13 @@ export class NetworkInsightsService {
 
   getMockInsights(): NetworkInsightsPayload {
     return {
-      traceroute: [
-        { hop: 1, ip: '192.168.0.1', location: 'LAN Gateway', rtt: 2 },
-        { hop: 2, ip: '10.0.0.1', location: 'ISP Edge', rtt: 9 },
-        { hop: 3, ip: '104.16.0.10', location: 'Cloudflare PoP', rtt: 18 },
-      ],
+      traceroute: buildSyntheticTraceroute('192.0.2.10', 'icmp', 'Mock data requested'),
       ja3: {
         hash: 'mocked-ja3-hash',
         userAgent: 'MockBrowser/1.0',
         ciphers: ['4865', '4866', '4867'],
       },
-      lanHosts: this.buildLanHosts(),
       dnsBeacon: { status: 'mocked', scan_id: 'mock-scan' },
     };
   }
-
-  private buildTraceroute(): TracerouteHop[] {
-    const backbone = [
-      { hop: 1, ip: '192.168.0.1', location: 'LAN Gateway' },
-      { hop: 2, ip: '10.12.0.1', location: 'ISP Edge' },
-      { hop: 3, ip: '89.23.14.1', location: 'Regional POP' },
-      { hop: 4, ip: '104.16.132.229', location: 'Cloudflare PoP' },
-      { hop: 5, ip: '172.67.0.22', location: 'BrowserLeaks Edge' },
-    ];
-
-    return backbone.map((hop) => ({
-      ...hop,
-      rtt: Number((Math.random() * 40 + hop.hop * 3).toFixed(2)),
-    }));
-  }
-
-  private buildLanHosts(): LanHost[] {
-    return [
-      { ip: '192.168.0.1', device: 'Gateway', status: 'open', service: 'HTTPS (TLS)' },
-      { ip: '192.168.0.12', device: 'Workstation', status: 'filtered', service: 'RDP' },
-      { ip: '192.168.0.24', device: 'IoT Camera', status: 'open', service: 'RTSP' },
-      { ip: '192.168.0.35', device: 'NAS', status: 'closed', service: 'SMB' },
-    ];
-  }
 }
@@ -1,6 +1,65 @@
-import type { PrivacyScore, IPLeakResult, DNSLeakResult, WebRTCLeakResult } from '@browserleaks/types';
+import type {
+  PrivacyScore,
+  IPLeakResult,
+  IPRangeVerdict,
+  DNSLeakResult,
+  WebRTCLeakResult,
+  ConsistencyCheck,
+  ConsistencyReport,
+  BrowserConfigSignals,
+  PrivacyScoreSection,
+  RiskLevel,
+  ScoringPolicy,
+} from '@browserleaks/types';
+import { DEFAULT_SCORING_POLICY, SCORE_SECTIONS, applyScoringPolicy } from './ScoringPolicy';
+import { applyRangeVerdict } from './IPRangeService';
+
+/**
+ * Points each section calculator awards at most; policies re-weight the resulting ratios
+ */
+const SECTION_SCALES: Record<PrivacyScoreSection, number> = {
+  ipPrivacy: 20,
+  dnsPrivacy: 15,
+  webrtcPrivacy: 15,
+  fingerprintResistance: 30,
+  browserConfig: 20,
+};
+
+/**
+ * IP privacy points lost per cross-layer mismatch: a contradiction between
+ * network and browser signals exposes the proxy or VPN as such.
+ */
+const CONSISTENCY_PENALTIES: Record<RiskLevel, number> = {
+  critical: 10,
+  high: 6,
+  medium: 3,
+  low: 1,
+};
+
+const CONSISTENCY_RECOMMENDATIONS: Record<ConsistencyCheck, string> = {
+  'timezone-ip': 'Set your system timezone to match your VPN exit location, or use a browser that reports UTC.',
+  'language-ip': 'Choose a VPN exit country that matches your browser language, or adjust your language settings.',
+  'language-header': 'Remove extensions or proxies that rewrite the Accept-Language header independently of the browser.',
+  'webrtc-ip': 'Enable WebRTC leak protection or disable non-proxied UDP in your browser.',
+  'platform-client-hints': 'Avoid user agent spoofing extensions, or use one that also rewrites client hints.',
+};
+
+/**
+ * Permissions that hand a site identifying data or device access once granted
+ */
+const SENSITIVE_PERMISSIONS = [
+  'geolocation',
+  'camera',
+  'microphone',
+  'notifications',
+  'clipboard-read',
+  'local-fonts',
+  'midi',
+];
 
 export class PrivacyScoreService {
+  constructor(private policy: ScoringPolicy = DEFAULT_SCORING_POLICY) {}
+
   /**
    * Calculate comprehensive privacy score
    */
@@ -9,24 +68,40 @@ export class PrivacyScoreService {
     dnsLeak?: DNSLeakResult;
     webrtcLeak?: WebRTCLeakResult;
     fingerprintResult?: { uniquenessScore?: number };
+    consistency?: ConsistencyReport;
+    browserConfig?: BrowserConfigSignals;
+    ipRanges?: IPRangeVerdict; // Tor exit / VPN / hosting list verdict for the client IP
   }): Promise<PrivacyScore> {
-    const breakdown = {
-      ipPrivacy: this.calculateIPPrivacy(data.ipLeak),
+    const ipRanges = data.ipRanges ?? data.ipLeak?.ranges;
+    const points: Record<PrivacyScoreSection, number> = {
+      ipPrivacy: this.calculateIPPrivacy(data.ipLeak, data.consistency, ipRanges),
       dnsPrivacy: this.calculateDNSPrivacy(data.dnsLeak),
       webrtcPrivacy: this.calculateWebRTCPrivacy(data.webrtcLeak),
       fingerprintResistance: this.calculateFingerprintResistance(data.fingerprintResult),
-      browserConfig: this.calculateBrowserConfig(), // Basic implementation
+      browserConfig: this.calculateBrowserConfig(data.browserConfig),
     };
 
-    const totalScore = Object.values(breakdown).reduce((sum, score) => sum + score, 0);
-    const riskLevel = this.determineRiskLevel(totalScore);
+    // Normalized sections keep scores comparable across policies and policy versions
+    const normalized = Object.fromEntries(
+      SCORE_SECTIONS.map((section) => [
+        section,
+        Math.round((points[section] / SECTION_SCALES[section]) * 10000) / 10000,
+      ])
+    ) as Record<PrivacyScoreSection, number>;
+
+    const { breakdown, totalScore, riskLevel } = applyScoringPolicy(normalized, this.policy);
 
-    const vulnerabilities = this.collectVulnerabilities(data);
+    const vulnerabilities = this.collectVulnerabilities({
+      ...data,
+      ipLeak: data.ipLeak && ipRanges ? applyRangeVerdict(data.ipLeak, ipRanges) : data.ipLeak,
+    });
 
-    return {
+    const result: PrivacyScore = {
       totalScore,
       riskLevel,
       breakdown,
+      normalized,
+      policy: { name: this.policy.name, version: this.policy.version },
       vulnerabilities,
       timeline: [
         {
@@ -35,13 +110,26 @@ export class PrivacyScoreService {
         },
       ],
     };
+
+    if (data.consistency) {
+      result.consistency = data.consistency;
+    }
+
+    return result;
   }
 
   /**
-   * Calculate IP privacy score (0-20)
+   * Calculate IP privacy score (0-20). List matches count on top of the
+   * provider flags: an address on the Tor exit list is Tor whatever IPInfo says.
    */
-  private calculateIPPrivacy(ipLeak?: IPLeakResult): number {
-    if (!ipLeak) return 0;
+  private calculateIPPrivacy(
+    detected?: IPLeakResult,
+    consistency?: ConsistencyReport,
+    ranges?: IPRangeVerdict
+  ): number {
+    if (!detected) return 0;
+
+    const ipLeak = ranges ? applyRangeVerdict(detected, ranges) : detected;
 
     let score = 20;
 
@@ -74,6 +162,11 @@ export class PrivacyScoreService {
       score -= 10;
     }
 
+    // Mismatches between network and browser signals reveal the real location behind the IP
+    for (const mismatch of consistency?.mismatches ?? []) {
+      score -= CONSISTENCY_PENALTIES[mismatch.severity];
+    }
+
     return Math.max(0, score);
   }
 
@@ -159,19 +252,60 @@ export class PrivacyScoreService {
   /**
    * Calculate Browser Config score (0-20)
    */
-  private calculateBrowserConfig(): number {
-    // Browser configuration is assessed client-side; API scoring treats it as unknown.
-    return 0;
+  private calculateBrowserConfig(browserConfig?: BrowserConfigSignals): number {
+    if (!browserConfig) return 0;
+
+    let score = 0;
+
+    // Tracking preference signals (3): GPC is legally binding in some regions, DNT is advisory
+    if (browserConfig.globalPrivacyControl) {
+      score += 3;
+    } else if (browserConfig.doNotTrack) {
+      score += 1;
+    }
+
+    // Third-party cookie blocking (5)
+    if (browserConfig.thirdPartyCookiesBlocked || browserConfig.cookiesEnabled === false) {
+      score += 5;
+    }
+
+    // Content blocker (4)
+    if (browserConfig.adBlockEnabled) score += 4;
+
+    // Storage partitioning (3)
+    if (browserConfig.storagePartitioned) score += 3;
+
+    // WebRTC IP handling policy (3)
+    switch (browserConfig.webrtcPolicy) {
+      case 'disabled':
+      case 'disable_non_proxied_udp':
+        score += 3;
+        break;
+      case 'default_public_interface_only':
+        score += 2;
+        break;
+      case 'default_public_and_private_interfaces':
+        score += 1;
+        break;
+    }
+
+    // Sensitive permissions (2)
+    if (browserConfig.permissions) {
+      const granted = this.getGrantedSensitivePermissions(browserConfig);
+      if (granted.length === 0) {
+        score += 2;
+      } else if (granted.length === 1) {
+        score += 1;
+      }
+    }
+
+    return Math.min(20, score);
   }
 
-  /**
-   * Determine overall risk level
-   */
-  private determineRiskLevel(totalScore: number): PrivacyScore['riskLevel'] {
-    if (totalScore >= 80) return 'low';
-    if (totalScore >= 60) return 'medium';
-    if (totalScore >= 40) return 'high';
-    return 'critical';
+  private getGrantedSensitivePermissions(browserConfig: BrowserConfigSignals): string[] {
+    return SENSITIVE_PERMISSIONS.filter(
+      (permission) => browserConfig.permissions?.[permission] === 'granted'
+    );
   }
 
   /**
@@ -181,6 +315,8 @@ export class PrivacyScoreService {
     ipLeak?: IPLeakResult;
     dnsLeak?: DNSLeakResult;
     webrtcLeak?: WebRTCLeakResult;
+    consistency?: ConsistencyReport;
+    browserConfig?: BrowserConfigSignals;
   }): PrivacyScore['vulnerabilities'] {
     const vulnerabilities: PrivacyScore['vulnerabilities'] = [];
 
@@ -214,7 +350,7 @@ export class PrivacyScoreService {
         severity: data.dnsLeak.leakType === 'full' ? 'critical' : 'high',
         title: 'DNS Leak Detected',
         description: `Your DNS queries are leaking (${data.dnsLeak.leakType} leak).`,
-        recommendation: 'Use VPN with DNS leak protection or configure custom DNS servers.',
+        recommendation: "Use VPN with DNS leak protection and the VPN's own DNS resolver.",
       });
     }
 
@@ -241,6 +377,82 @@ export class PrivacyScoreService {
       }
     }
 
+    // Browser configuration vulnerabilities (only for signals the client reported)
+    const browserConfig = data.browserConfig;
+    if (browserConfig) {
+      if (browserConfig.thirdPartyCookiesBlocked === false && browserConfig.cookiesEnabled !== false) {
+        vulnerabilities.push({
+          category: 'Browser Config',
+          severity: 'medium',
+          title: 'Third-Party Cookies Allowed',
+          description: 'Your browser accepts third-party cookies, which lets ad networks track you across sites.',
+          recommendation: 'Block third-party cookies in your browser privacy settings.',
+        });
+      }
+
+      if (browserConfig.adBlockEnabled === false) {
+        vulnerabilities.push({
+          category: 'Browser Config',
+          severity: 'medium',
+          title: 'No Content Blocker',
+          description: 'No ad or tracker blocker was detected, so tracking scripts load on every page.',
+          recommendation: 'Install a content blocker such as uBlock Origin.',
+        });
+      }
+
+      if (browserConfig.storagePartitioned === false) {
+        vulnerabilities.push({
+          category: 'Browser Config',
+          severity: 'low',
+          title: 'Storage Not Partitioned',
+          description: 'Embedded third parties share storage across the sites they appear on.',
+          recommendation: 'Use a browser with state partitioning such as Firefox, Safari or Brave.',
+        });
+      }
+
+      if (browserConfig.webrtcPolicy === 'default') {
+        vulnerabilities.push({
+          category: 'Browser Config',
+          severity: 'low',
+          title: 'Unrestricted WebRTC Policy',
+          description: 'WebRTC may use every network interface, including ones outside your VPN.',
+          recommendation: 'Restrict WebRTC to proxied connections or disable non-proxied UDP.',
+        });
+      }
+
+      if (browserConfig.globalPrivacyControl === false && !browserConfig.doNotTrack) {
+        vulnerabilities.push({
+          category: 'Browser Config',
+          severity: 'low',
+          title: 'No Opt-Out Signal',
+          description: 'Your browser sends neither Global Privacy Control nor Do Not Track.',
+          recommendation: 'Enable Global Privacy Control to opt out of the sale of your data.',
+        });
+      }
+
+      const granted = this.getGrantedSensitivePermissions(browserConfig);
+      if (granted.length > 0) {
+        vulnerabilities.push({
+          category: 'Browser Config',
+          severity: granted.length > 1 ? 'medium' : 'low',
+          title: 'Sensitive Permissions Granted',
+          description: `This site already has access to: ${granted.join(', ')}.`,
+          recommendation: 'Review site permissions and revoke access you do not need.',
+        });
+      }
+    }
+
+    // Cross-layer consistency vulnerabilities
+    for (const mismatch of data.consistency?.mismatches ?? []) {
+      vulnerabilities.push({
+        category: 'Consistency',
+        severity: mismatch.severity,
+        title: mismatch.title,
+        description: mismatch.description,
+        recommendation: CONSISTENCY_RECOMMENDATIONS[mismatch.check],
+      });
+    }
+
     return vulnerabilities;
   }
 }
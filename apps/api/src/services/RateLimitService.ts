@@ -0,0 +1,76 @@
+import type { ApiKeyTier } from '@browserleaks/types';
+import type { RateLimitStore } from '../db/RateLimitRepository';
+import type { TokenBucketDecision, TokenBucketPolicy } from '../lib/tokenBucket';
+
+const SECOND_MS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Anonymous clients may spend 100 tokens at once and earn 500 a day back,
+ * with a short-term bucket on top against request floods
+ */
+export const ANONYMOUS_POLICIES: TokenBucketPolicy[] = [
+  { name: 'daily', limit: 500, windowMs: DAY_MS, burst: 100 },
+  { name: 'burst', limit: 10, windowMs: SECOND_MS, burst: 20 },
+];
+
+/**
+ * Short-term buckets for requests made with an API key, keyed by the key's id.
+ * Daily volume is metered by the tier quotas instead; null means unlimited.
+ */
+export const TIER_POLICIES: Record<ApiKeyTier, TokenBucketPolicy[] | null> = {
+  free: [{ name: 'burst', limit: 20, windowMs: SECOND_MS, burst: 40 }],
+  pro: [{ name: 'burst', limit: 100, windowMs: SECOND_MS, burst: 200 }],
+  internal: null,
+};
+
+export const DEFAULT_ROUTE_COST = 1;
+
+/**
+ * Token cost of routes that do more work than a single lookup; first match wins
+ */
+export const ROUTE_COSTS: Array<{ method: string; pattern: RegExp; cost: number }> = [
+  // IP intelligence + DNS + WebRTC analysis in one call
+  { method: 'POST', pattern: /^\/v1\/fingerprint\/scan\/?$/, cost: 10 },
+  { method: 'POST', pattern: /^\/v1\/ai(\/|$)/, cost: 10 },
+  { method: 'POST', pattern: /^\/v1\/fingerprint\/?$/, cost: 5 },
+  // Traceroute plus a lookup per hop
+  { method: 'GET', pattern: /^\/v1\/network\/insights\/?$/, cost: 5 },
+  // Upstream IP intelligence lookups
+  { method: '*', pattern: /^\/v1\/detect\/ip(\/|$)/, cost: 3 },
+  { method: 'POST', pattern: /^\/v1\/detect\/dns-leak\/?$/, cost: 3 },
+  { method: 'POST', pattern: /^\/v1\/detect\/ipv6-leak\/?$/, cost: 3 },
+  { method: 'POST', pattern: /^\/v1\/history\/compare\/?$/, cost: 2 },
+  { method: 'POST', pattern: /^\/v1\/privacy-score\/?$/, cost: 2 },
+];
+
+export function getRouteCost(method: string, path: string): number {
+  const route = ROUTE_COSTS.find(
+    (entry) => (entry.method === '*' || entry.method === method) && entry.pattern.test(path)
+  );
+  return route?.cost ?? DEFAULT_ROUTE_COST;
+}
+
+/**
+ * Weighted token-bucket rate limiting keyed by client
+ */
+export class RateLimitService {
+  constructor(
+    private store: RateLimitStore,
+    private policies: TokenBucketPolicy[] = ANONYMOUS_POLICIES
+  ) {}
+
+  /**
+   * Charge a request to the client's buckets
+   */
+  check(key: string, method: string, path: string, now = Date.now()): Promise<TokenBucketDecision> {
+    return this.store.take(key, this.policies, getRouteCost(method, path), now);
+  }
+
+  /**
+   * Current state of the client's buckets, without charging anything
+   */
+  peek(key: string, now = Date.now()): Promise<TokenBucketDecision> {
+    return this.store.take(key, this.policies, 0, now);
+  }
+}
@@ -0,0 +1,252 @@
+import type {
+  DNSLeakResult,
+  IPLeakResult,
+  PrivacyScore,
+  WebRTCLeakResult,
+} from '@browserleaks/types';
+import type {
+  ScanFingerprintRecord,
+  ScanIPLeakRecord,
+  ScanRecord,
+  ScanStore,
+} from '../db/ScanRepository';
+import type { RecordedScore } from './ScoringPolicy';
+
+/**
+ * Summary of a scan as the history endpoints accept and return it
+ */
+export interface HistoryScan {
+  privacyScore?: RecordedScore & { riskLevel?: string };
+  fingerprint?: { uniquenessScore?: number; combinedHash?: string };
+  ip?: { address?: string; privacy?: { isVpn?: boolean; isProxy?: boolean; isTor?: boolean } };
+  dns?: { isLeak?: boolean; leakType?: string };
+  webrtc?: { isLeak?: boolean };
+}
+
+export interface StoredScan extends HistoryScan {
+  id: string;
+  timestamp: string;
+}
+
+/**
+ * Everything a full privacy scan produced
+ */
+export interface FullScanInput {
+  scanId: string;
+  visitorId: string;
+  sessionId: string;
+  userAgent: string;
+  privacyScore: PrivacyScore;
+  fingerprint: ScanFingerprintRecord;
+  ipLeak?: IPLeakResult;
+  dnsLeak?: DNSLeakResult;
+  webrtcLeak?: WebRTCLeakResult & { ipv6?: string };
+}
+
+/**
+ * Scan history on top of the normalized scan tables. Scans saved through the
+ * history endpoints and full scans land in the same store, so both show up in
+ * a visitor's history.
+ */
+export class ScanHistoryService {
+  constructor(private store: ScanStore) {}
+
+  /**
+   * Save a scan summary and return its ID
+   */
+  async save(visitorId: string, scan: HistoryScan, createdAt = new Date()): Promise<string> {
+    const scanId = `scan_${createdAt.getTime()}_${Math.random().toString(36).substring(2, 11)}`;
+
+    await this.store.save({
+      id: scanId,
+      visitorId,
+      sessionId: '',
+      userAgent: '',
+      totalScore: scan.privacyScore?.total,
+      riskLevel: scan.privacyScore?.riskLevel,
+      scorePolicy: scan.privacyScore?.policy,
+      scoreNormalized: scan.privacyScore?.normalized,
+      createdAt: createdAt.toISOString(),
+      fingerprint: scan.fingerprint
+        ? {
+            combinedHash: scan.fingerprint.combinedHash,
+            uniquenessScore: scan.fingerprint.uniquenessScore,
+            fonts: [],
+            languages: [],
+          }
+        : undefined,
+      ipLeak: scan.ip?.address
+        ? {
+            ip: scan.ip.address,
+            isVpn: scan.ip.privacy?.isVpn,
+            isProxy: scan.ip.privacy?.isProxy,
+            isTor: scan.ip.privacy?.isTor,
+          }
+        : undefined,
+      dnsLeak: scan.dns
+        ? {
+            testId: '',
+            isLeak: scan.dns.isLeak ?? false,
+            leakType: scan.dns.leakType ?? 'none',
+            servers: [],
+            risks: [],
+            recommendations: [],
+          }
+        : undefined,
+      webrtcLeak: scan.webrtc
+        ? {
+            isLeak: scan.webrtc.isLeak ?? false,
+            localIPs: [],
+            risks: [],
+            recommendations: [],
+          }
+        : undefined,
+    });
+
+    return scanId;
+  }
+
+  /**
+   * Persist the full result of a privacy scan
+   */
+  async record(input: FullScanInput, createdAt = new Date()): Promise<void> {
+    const { privacyScore, ipLeak, dnsLeak, webrtcLeak } = input;
+
+    await this.store.save({
+      id: input.scanId,
+      visitorId: input.visitorId,
+      sessionId: input.sessionId,
+      userAgent: input.userAgent,
+      totalScore: privacyScore.totalScore,
+      riskLevel: privacyScore.riskLevel,
+      scorePolicy: privacyScore.policy,
+      scoreNormalized: privacyScore.normalized,
+      createdAt: createdAt.toISOString(),
+      fingerprint: input.fingerprint,
+      ipLeak: ipLeak ? toIPLeakRecord(ipLeak) : undefined,
+      dnsLeak: dnsLeak
+        ? {
+            testId: dnsLeak.testId,
+            isLeak: dnsLeak.isLeak,
+            leakType: dnsLeak.leakType,
+            servers: dnsLeak.servers,
+            dohEnabled: dnsLeak.dohEnabled,
+            dotEnabled: dnsLeak.dotEnabled,
+            usingIspDns: dnsLeak.servers.some((server) => server.isISP),
+            risks: dnsLeak.risks,
+            recommendations: dnsLeak.recommendations,
+          }
+        : undefined,
+      webrtcLeak: webrtcLeak
+        ? {
+            isLeak: webrtcLeak.isLeak,
+            localIPs: webrtcLeak.localIPs,
+            publicIP: webrtcLeak.publicIPs[0],
+            ipv6: webrtcLeak.ipv6,
+            localIPLeak: webrtcLeak.localIPs.length > 0,
+            publicIPLeak: webrtcLeak.publicIPs.length > 0,
+            mdnsLeak: webrtcLeak.mdnsLeak,
+            ipv6Leak: webrtcLeak.ipv6Leak,
+            natType: webrtcLeak.natType,
+            risks: webrtcLeak.risks,
+            recommendations: webrtcLeak.recommendations,
+          }
+        : undefined,
+    });
+  }
+
+  async list(
+    visitorId: string,
+    limit: number,
+    offset: number
+  ): Promise<{ scans: StoredScan[]; total: number }> {
+    const { scans, total } = await this.store.listByVisitor(visitorId, limit, offset);
+    return { scans: scans.map(toStoredScan), total };
+  }
+
+  async get(scanId: string): Promise<StoredScan | null> {
+    const scan = await this.store.get(scanId);
+    return scan ? toStoredScan(scan) : null;
+  }
+
+  async getMany(scanIds: string[]): Promise<StoredScan[]> {
+    return (await this.store.getMany(scanIds)).map(toStoredScan);
+  }
+
+  async delete(scanId: string, visitorId: string): Promise<boolean> {
+    return this.store.delete(scanId, visitorId);
+  }
+
+  async clear(visitorId: string): Promise<void> {
+    await this.store.deleteByVisitor(visitorId);
+  }
+}
+
+/**
+ * ASN as stored in ip_leaks.asn_number: "AS13335" and "13335" both become 13335
+ */
+export function parseASNumber(asn: string | undefined): number | undefined {
+  const digits = asn?.replace(/^AS/i, '');
+  return digits && /^\d+$/.test(digits) ? Number(digits) : undefined;
+}
+
+function toIPLeakRecord(ip: IPLeakResult): ScanIPLeakRecord {
+  return {
+    ip: ip.ip,
+    version: ip.version,
+    country: ip.geo.country,
+    countryCode: ip.geo.countryCode,
+    city: ip.geo.city,
+    region: ip.geo.region,
+    timezone: ip.geo.timezone,
+    latitude: ip.geo.latitude,
+    longitude: ip.geo.longitude,
+    asnNumber: parseASNumber(ip.network.asn),
+    asnName: ip.network.isp,
+    asnOrganization: ip.network.organization,
+    isProxy: ip.privacy.isProxy,
+    isVpn: ip.privacy.isVPN,
+    isTor: ip.privacy.isTor,
+    isDatacenter: ip.privacy.isDatacenter,
+    isRelay: ip.privacy.isRelay,
+    reputationScore: ip.reputation.score,
+    isBlacklisted: ip.reputation.isBlacklisted,
+    dataSource: ip.sources?.join(','),
+  };
+}
+
+function toStoredScan(scan: ScanRecord): StoredScan {
+  return {
+    id: scan.id,
+    timestamp: scan.createdAt,
+    privacyScore:
+      scan.totalScore !== undefined || scan.riskLevel || scan.scorePolicy || scan.scoreNormalized
+        ? {
+            total: scan.totalScore,
+            riskLevel: scan.riskLevel,
+            policy: scan.scorePolicy,
+            normalized: scan.scoreNormalized,
+          }
+        : undefined,
+    fingerprint: scan.fingerprint
+      ? {
+          uniquenessScore: scan.fingerprint.uniquenessScore,
+          combinedHash: scan.fingerprint.combinedHash,
+        }
+      : undefined,
+    ip: scan.ipLeak
+      ? {
+          address: scan.ipLeak.ip,
+          privacy: {
+            isVpn: scan.ipLeak.isVpn,
+            isProxy: scan.ipLeak.isProxy,
+            isTor: scan.ipLeak.isTor,
+          },
+        }
+      : undefined,
+    dns: scan.dnsLeak
+      ? { isLeak: scan.dnsLeak.isLeak, leakType: scan.dnsLeak.leakType }
+      : undefined,
+    webrtc: scan.webrtcLeak ? { isLeak: scan.webrtcLeak.isLeak } : undefined,
+  };
+}
@@ -0,0 +1,156 @@
+import type {
+  PrivacyScoreSection,
+  RiskLevel,
+  ScoringPolicy,
+  ScoringPolicyRef,
+} from '@browserleaks/types';
+
+export const SCORE_SECTIONS: PrivacyScoreSection[] = [
+  'ipPrivacy',
+  'dnsPrivacy',
+  'webrtcPrivacy',
+  'fingerprintResistance',
+  'browserConfig',
+];
+
+/**
+ * Scoring policies by name. Bump a policy's version whenever its weights or
+ * thresholds change so recorded scores can be traced back to the policy that produced them.
+ */
+export const SCORING_POLICIES: Record<string, ScoringPolicy> = {
+  standard: {
+    name: 'standard',
+    version: '1.0.0',
+    description: 'Balanced weighting for general privacy audits',
+    weights: {
+      ipPrivacy: 20,
+      dnsPrivacy: 15,
+      webrtcPrivacy: 15,
+      fingerprintResistance: 30,
+      browserConfig: 20,
+    },
+    riskThresholds: { low: 80, medium: 60, high: 40 },
+  },
+  journalist: {
+    name: 'journalist',
+    version: '1.0.0',
+    description: 'Network anonymity first: any leak of the real IP or resolver is severe',
+    weights: {
+      ipPrivacy: 30,
+      dnsPrivacy: 20,
+      webrtcPrivacy: 20,
+      fingerprintResistance: 20,
+      browserConfig: 10,
+    },
+    riskThresholds: { low: 90, medium: 75, high: 50 },
+  },
+  casual: {
+    name: 'casual',
+    version: '1.0.0',
+    description: 'Everyday browsing: cross-site tracking matters more than hiding the IP',
+    weights: {
+      ipPrivacy: 10,
+      dnsPrivacy: 10,
+      webrtcPrivacy: 10,
+      fingerprintResistance: 30,
+      browserConfig: 40,
+    },
+    riskThresholds: { low: 70, medium: 50, high: 30 },
+  },
+  'anti-fraud-qa': {
+    name: 'anti-fraud-qa',
+    version: '1.0.0',
+    description: 'How linkable and detectable a browser profile is to anti-fraud systems',
+    weights: {
+      ipPrivacy: 25,
+      dnsPrivacy: 10,
+      webrtcPrivacy: 15,
+      fingerprintResistance: 40,
+      browserConfig: 10,
+    },
+    riskThresholds: { low: 80, medium: 60, high: 40 },
+  },
+};
+
+export const DEFAULT_SCORING_POLICY = SCORING_POLICIES.standard;
+
+/**
+ * Policy that produced scores recorded before policies were versioned
+ */
+export const LEGACY_SCORING_POLICY: ScoringPolicyRef = { name: 'standard', version: '1.0.0' };
+
+export function getScoringPolicy(name?: string): ScoringPolicy | undefined {
+  if (!name) return DEFAULT_SCORING_POLICY;
+  return Object.prototype.hasOwnProperty.call(SCORING_POLICIES, name)
+    ? SCORING_POLICIES[name]
+    : undefined;
+}
+
+/**
+ * Weight normalized (0-1) section scores by a policy
+ */
+export function applyScoringPolicy(
+  normalized: Record<PrivacyScoreSection, number>,
+  policy: ScoringPolicy
+): { breakdown: Record<PrivacyScoreSection, number>; totalScore: number; riskLevel: RiskLevel } {
+  const breakdown = Object.fromEntries(
+    SCORE_SECTIONS.map((section) => [
+      section,
+      Math.round(Math.min(1, Math.max(0, normalized[section] ?? 0)) * policy.weights[section]),
+    ])
+  ) as Record<PrivacyScoreSection, number>;
+
+  const totalScore = SCORE_SECTIONS.reduce((sum, section) => sum + breakdown[section], 0);
+
+  return { breakdown, totalScore, riskLevel: determineRiskLevel(totalScore, policy) };
+}
+
+export function determineRiskLevel(totalScore: number, policy: ScoringPolicy): RiskLevel {
+  if (totalScore >= policy.riskThresholds.low) return 'low';
+  if (totalScore >= policy.riskThresholds.medium) return 'medium';
+  if (totalScore >= policy.riskThresholds.high) return 'high';
+  return 'critical';
+}
+
+export interface RecordedScore {
+  total?: number;
+  policy?: ScoringPolicyRef;
+  normalized?: Partial<Record<PrivacyScoreSection, number>>;
+}
+
+/**
+ * Put two recorded scores on the same scale.
+ * Scores carrying normalized sections are re-weighted with the current version of the
+ * later score's policy; otherwise totals are only comparable when the same policy version
+ * produced both.
+ */
+export function toComparableScores(
+  first: RecordedScore,
+  last: RecordedScore
+): { firstScore: number; lastScore: number; policy: ScoringPolicyRef; comparable: boolean } {
+  const firstPolicy = first.policy ?? LEGACY_SCORING_POLICY;
+  const lastPolicy = last.policy ?? LEGACY_SCORING_POLICY;
+  const target = getScoringPolicy(lastPolicy.name);
+
+  if (target && isComplete(first.normalized) && isComplete(last.normalized)) {
+    return {
+      firstScore: applyScoringPolicy(first.normalized, target).totalScore,
+      lastScore: applyScoringPolicy(last.normalized, target).totalScore,
+      policy: { name: target.name, version: target.version },
+      comparable: true,
+    };
+  }
+
+  return {
+    firstScore: first.total || 0,
+    lastScore: last.total || 0,
+    policy: lastPolicy,
+    comparable: firstPolicy.name === lastPolicy.name && firstPolicy.version === lastPolicy.version,
+  };
+}
+
+function isComplete(
+  normalized?: Partial<Record<PrivacyScoreSection, number>>
+): normalized is Record<PrivacyScoreSection, number> {
+  return !!normalized && SCORE_SECTIONS.every((section) => typeof normalized[section] === 'number');
+}
@@ -0,0 +1,110 @@
+import type { SharedScan, ShareLinkOptions } from '@browserleaks/types';
+import type { ShareLinkRecord, ShareLinkStore } from '../db/ShareLinkRepository';
+
+export type ShareLinkView =
+  | { status: 'ok'; link: ShareLinkRecord }
+  | { status: 'not_found' | 'expired' | 'max_views' };
+
+/**
+ * Share links for scan reports: expiry, view limits and IP masking
+ */
+export class ShareLinkService {
+  constructor(private store: ShareLinkStore) {}
+
+  async create(scan: SharedScan, options: ShareLinkOptions = {}): Promise<ShareLinkRecord> {
+    const now = new Date();
+    const link: ShareLinkRecord = {
+      id: `sl_${now.getTime().toString(36)}_${Math.random().toString(36).substring(2, 10)}`,
+      code: generateShareCode(),
+      scan: prepareScanForSharing(scan, options.hideIP),
+      createdAt: now.toISOString(),
+      expiresAt: options.expiresIn
+        ? new Date(now.getTime() + options.expiresIn * 1000).toISOString()
+        : null,
+      viewCount: 0,
+      maxViews: options.maxViews || null,
+    };
+
+    await this.store.create(link);
+    return link;
+  }
+
+  /**
+   * Fetch a link for viewing and count the view. Expired links are deleted.
+   */
+  async view(code: string): Promise<ShareLinkView> {
+    const link = await this.store.get(code);
+    if (!link) return { status: 'not_found' };
+
+    if (isExpired(link)) {
+      await this.store.delete(code);
+      return { status: 'expired' };
+    }
+
+    const viewCount = await this.store.incrementViews(code);
+    if (viewCount === null) return { status: 'max_views' };
+
+    return { status: 'ok', link: { ...link, viewCount } };
+  }
+
+  async get(code: string): Promise<ShareLinkRecord | null> {
+    return this.store.get(code);
+  }
+
+  async delete(code: string): Promise<boolean> {
+    return this.store.delete(code);
+  }
+}
+
+export function isExpired(link: ShareLinkRecord, now = new Date()): boolean {
+  return link.expiresAt !== null && new Date(link.expiresAt) < now;
+}
+
+export function hasReachedMaxViews(link: ShareLinkRecord): boolean {
+  return link.maxViews !== null && link.viewCount >= link.maxViews;
+}
+
+function generateShareCode(): string {
+  // Generate a URL-safe, unique code
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 10);
+  return `${timestamp}-${random}`;
+}
+
+function prepareScanForSharing(scan: SharedScan, hideIP = false): SharedScan {
+  const shareScan: SharedScan = { ...scan };
+
+  // Hide sensitive IP information if requested
+  if (hideIP && shareScan.ip) {
+    shareScan.ip = {
+      ...shareScan.ip,
+      address: maskIP(shareScan.ip.address || ''),
+    };
+  }
+
+  // Add share metadata
+  shareScan.shared = {
+    createdAt: new Date().toISOString(),
+    isShared: true,
+  };
+
+  return shareScan;
+}
+
+function maskIP(ip: string): string {
+  if (!ip) return 'hidden';
+
+  // IPv4
+  if (ip.includes('.')) {
+    const parts = ip.split('.');
+    return `${parts[0]}.${parts[1]}.*.*`;
+  }
+
+  // IPv6
+  if (ip.includes(':')) {
+    const parts = ip.split(':');
+    return `${parts[0]}:${parts[1]}:****:****`;
+  }
+
+  return 'hidden';
+}
@@ -0,0 +1,247 @@
+import { createHash } from 'node:crypto';
+import type {
+  KnownTLSClient,
+  TLSClientHelloSummary,
+  TLSClientMatch,
+  TLSFingerprintResult,
+} from '@browserleaks/types';
+import { type ClientHello, isGrease, parseClientHello } from '../utils/clientHello';
+import knownFingerprints from '../data/tls-fingerprints.json';
+
+export interface TLSFingerprintDatabase {
+  version: string;
+  clients: KnownTLSClient[];
+}
+
+export interface EdgeTLSMetadata {
+  ja3Hash?: string;
+  ja4?: string;
+}
+
+const TLS_VERSIONS: Record<number, { ja4: string; label: string }> = {
+  0x0304: { ja4: '13', label: 'TLS 1.3' },
+  0x0303: { ja4: '12', label: 'TLS 1.2' },
+  0x0302: { ja4: '11', label: 'TLS 1.1' },
+  0x0301: { ja4: '10', label: 'TLS 1.0' },
+  0x0300: { ja4: 's3', label: 'SSL 3.0' },
+};
+
+const EXT_SERVER_NAME = 0x0000;
+const EXT_ALPN = 0x0010;
+const EMPTY_JA4_HASH = '000000000000';
+
+export const BUNDLED_TLS_DATABASE = knownFingerprints as TLSFingerprintDatabase;
+
+/**
+ * Computes JA3, JA3N and JA4 fingerprints and matches them against a bundled
+ * database of known browsers and HTTP libraries.
+ */
+export class TLSFingerprintService {
+  constructor(private database: TLSFingerprintDatabase = BUNDLED_TLS_DATABASE) {}
+
+  /**
+   * Fingerprint a raw ClientHello captured by a TLS-terminating proxy or the capture server
+   */
+  fromClientHello(data: Uint8Array, userAgent?: string): TLSFingerprintResult {
+    const hello = parseClientHello(data);
+    const ja3 = computeJA3(hello);
+    const ja4 = computeJA4(hello);
+
+    return this.buildResult(
+      'client-hello',
+      { ...ja3, ja4 },
+      summarizeClientHello(hello),
+      userAgent
+    );
+  }
+
+  /**
+   * Fingerprint from hashes computed by the edge (e.g. Cloudflare Bot Management)
+   */
+  fromEdgeMetadata(metadata: EdgeTLSMetadata, userAgent?: string): TLSFingerprintResult {
+    return this.buildResult(
+      'edge-metadata',
+      {
+        ja3: null,
+        ja3Hash: metadata.ja3Hash ?? null,
+        ja3n: null,
+        ja3nHash: null,
+        ja4: metadata.ja4 ?? null,
+      },
+      null,
+      userAgent
+    );
+  }
+
+  match(fingerprints: { ja4?: string | null; ja3nHash?: string | null }): TLSClientMatch | null {
+    const { ja4, ja3nHash } = fingerprints;
+
+    const byJA4 = ja4 ? this.database.clients.find((client) => client.ja4 === ja4) : undefined;
+    if (byJA4) return toMatch(byJA4, 'ja4');
+
+    const byJA3N = ja3nHash
+      ? this.database.clients.find((client) => client.ja3n === ja3nHash)
+      : undefined;
+    if (byJA3N) return toMatch(byJA3N, 'ja3n');
+
+    return null;
+  }
+
+  private buildResult(
+    source: TLSFingerprintResult['source'],
+    fingerprints: Pick<TLSFingerprintResult, 'ja3' | 'ja3Hash' | 'ja3n' | 'ja3nHash' | 'ja4'>,
+    clientHello: TLSClientHelloSummary | null,
+    userAgent?: string
+  ): TLSFingerprintResult {
+    const match = this.match(fingerprints);
+
+    return {
+      source,
+      ...fingerprints,
+      clientHello,
+      match,
+      automation: detectAutomation(match, userAgent),
+      databaseVersion: this.database.version,
+    };
+  }
+}
+
+/**
+ * JA3: SSLVersion,Ciphers,Extensions,EllipticCurves,EllipticCurvePointFormats (decimal, GREASE removed).
+ * JA3N sorts the extensions so Chrome's per-connection extension shuffling yields a stable value.
+ */
+export function computeJA3(hello: ClientHello) {
+  const ciphers = hello.cipherSuites.filter((value) => !isGrease(value));
+  const extensions = hello.extensions.filter((value) => !isGrease(value));
+  const groups = hello.supportedGroups.filter((value) => !isGrease(value));
+
+  const build = (exts: number[]) =>
+    [
+      hello.legacyVersion,
+      ciphers.join('-'),
+      exts.join('-'),
+      groups.join('-'),
+      hello.pointFormats.join('-'),
+    ].join(',');
+
+  const ja3 = build(extensions);
+  const ja3n = build([...extensions].sort((a, b) => a - b));
+
+  return { ja3, ja3Hash: md5(ja3), ja3n, ja3nHash: md5(ja3n) };
+}
+
+/**
+ * JA4 (FoxIO): `t13d1516h2_<sorted cipher hash>_<sorted extension + signature algorithm hash>`
+ */
+export function computeJA4(hello: ClientHello): string {
+  const ciphers = hello.cipherSuites.filter((value) => !isGrease(value));
+  const extensions = hello.extensions.filter((value) => !isGrease(value));
+  const signatureAlgorithms = hello.signatureAlgorithms.filter((value) => !isGrease(value));
+
+  const prefix = [
+    't',
+    TLS_VERSIONS[getHighestVersion(hello)]?.ja4 ?? '00',
+    hello.extensions.includes(EXT_SERVER_NAME) ? 'd' : 'i',
+    twoDigits(ciphers.length),
+    twoDigits(extensions.length),
+    alpnCode(hello.alpnProtocols[0]),
+  ].join('');
+
+  const cipherHash = ciphers.length
+    ? truncatedSha256(ciphers.map(toHex).sort().join(','))
+    : EMPTY_JA4_HASH;
+
+  const hashedExtensions = extensions
+    .filter((value) => value !== EXT_SERVER_NAME && value !== EXT_ALPN)
+    .map(toHex)
+    .sort()
+    .join(',');
+  const extensionInput = signatureAlgorithms.length
+    ? `${hashedExtensions}_${signatureAlgorithms.map(toHex).join(',')}`
+    : hashedExtensions;
+  const extensionHash = extensions.length ? truncatedSha256(extensionInput) : EMPTY_JA4_HASH;
+
+  return `${prefix}_${cipherHash}_${extensionHash}`;
+}
+
+export function summarizeClientHello(hello: ClientHello): TLSClientHelloSummary {
+  const hexList = (values: number[]) => values.filter((value) => !isGrease(value)).map(toHex);
+
+  return {
+    tlsVersion: TLS_VERSIONS[getHighestVersion(hello)]?.label ?? 'Unknown',
+    cipherSuites: hexList(hello.cipherSuites),
+    extensions: hexList(hello.extensions),
+    supportedGroups: hexList(hello.supportedGroups),
+    pointFormats: hello.pointFormats.map((value) => value.toString(16).padStart(2, '0')),
+    signatureAlgorithms: hexList(hello.signatureAlgorithms),
+    alpnProtocols: hello.alpnProtocols,
+    serverName: hello.serverName,
+  };
+}
+
+/**
+ * TLS fingerprints identify the TLS stack, not the browser that claims it in the
+ * User-Agent, so automation is flagged when a known library shows up or when the
+ * UA contradicts the matched stack.
+ */
+function detectAutomation(
+  match: TLSClientMatch | null,
+  userAgent?: string
+): TLSFingerprintResult['automation'] {
+  const reasons: string[] = [];
+
+  if (match && match.category !== 'browser') {
+    reasons.push(`TLS handshake matches ${match.client}`);
+  }
+
+  if (userAgent && /HeadlessChrome/.test(userAgent)) {
+    reasons.push('User-Agent identifies headless Chrome');
+  }
+
+  if (match && match.category !== 'browser' && userAgent && /Mozilla\/5\.0/.test(userAgent)) {
+    reasons.push(`User-Agent claims a browser but the TLS stack is ${match.client}`);
+  }
+
+  return { detected: reasons.length > 0, reasons };
+}
+
+function toMatch(client: KnownTLSClient, matchedOn: TLSClientMatch['matchedOn']): TLSClientMatch {
+  return { client: client.name, category: client.category, matchedOn };
+}
+
+function getHighestVersion(hello: ClientHello): number {
+  const offered = hello.supportedVersions.filter((value) => !isGrease(value));
+  return offered.length ? Math.max(...offered) : hello.legacyVersion;
+}
+
+/**
+ * First and last character of the first ALPN value, or of its hex form when not alphanumeric
+ */
+function alpnCode(protocol?: string): string {
+  if (!protocol) return '00';
+
+  const first = protocol[0];
+  const last = protocol[protocol.length - 1];
+  if (/^[a-z0-9]$/i.test(first) && /^[a-z0-9]$/i.test(last)) return `${first}${last}`;
+
+  const hex = Array.from(new TextEncoder().encode(protocol))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return `${hex[0]}${hex[hex.length - 1]}`;
+}
+
+function twoDigits(count: number): string {
+  return String(Math.min(count, 99)).padStart(2, '0');
+}
+
+function toHex(value: number): string {
+  return value.toString(16).padStart(4, '0');
+}
+
+function md5(input: string): string {
+  return createHash('md5').update(input).digest('hex');
+}
+
+function truncatedSha256(input: string): string {
+  return createHash('sha256').update(input).digest('hex').slice(0, 12);
+}
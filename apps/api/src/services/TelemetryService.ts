@@ -1,8 +1,5 @@
-import { EventEmitter } from 'node:events';
-import crypto from 'node:crypto';
 import type { LeakLogEntry, LeakReportSnapshot, RiskLevel } from '@browserleaks/types';
-import { LeakLogRepository } from '../db/LeakLogRepository';
-import type { Request, Response } from 'express';
+import type { TelemetryStore } from '../db/TelemetryRepository';
 
 export interface TelemetryEvent {
   id: string;
@@ -14,7 +11,7 @@ export interface TelemetryEvent {
   payload?: unknown;
 }
 
-interface CaptureOptions {
+export interface CaptureOptions {
   type: string;
   source: string;
   severity: RiskLevel;
@@ -23,15 +20,43 @@ interface CaptureOptions {
   snapshot: Omit<LeakLogEntry, 'id' | 'createdAt'>;
 }
 
-export class TelemetryService {
-  private emitter = new EventEmitter();
-  private repository = new LeakLogRepository();
+export interface LogEventInput {
+  type?: string;
+  visitorId?: string;
+  sessionId?: string;
+  data?: unknown;
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface TelemetryOptions {
+  heartbeatMs?: number;
+  maxStreamMs?: number; // clients reconnect after this
+}
+
+const SEED_SIZE = 15;
+const DEFAULT_HEARTBEAT_MS = 15_000;
+const DEFAULT_MAX_STREAM_MS = 15 * 60_000;
+
+type TelemetryListener = (event: TelemetryEvent) => void;
 
-  constructor() {
-    this.emitter.setMaxListeners(50);
+// Open streams of this process (this isolate, in the Worker); services are
+// created per request there, so the listeners cannot live on an instance
+const listeners = new Set<TelemetryListener>();
+
+export class TelemetryService {
+  private heartbeatMs: number;
+  private maxStreamMs: number;
+
+  constructor(
+    private store: TelemetryStore,
+    options: TelemetryOptions = {}
+  ) {
+    this.heartbeatMs = options.heartbeatMs ?? DEFAULT_HEARTBEAT_MS;
+    this.maxStreamMs = options.maxStreamMs ?? DEFAULT_MAX_STREAM_MS;
   }
 
-  async capture(options: CaptureOptions) {
+  async capture(options: CaptureOptions): Promise<TelemetryEvent> {
     const id = crypto.randomUUID();
     const timestamp = Date.now();
 
@@ -45,50 +70,73 @@ export class TelemetryService {
       payload: options.payload,
     };
 
-    const snapshot: LeakLogEntry = {
-      id,
-      createdAt: timestamp,
-      privacyScore: options.snapshot.privacyScore,
-      entropyScore: options.snapshot.entropyScore,
-      leaks: options.snapshot.leaks,
-      apiSurface: options.snapshot.apiSurface,
-      report: options.snapshot.report,
-    };
-
-    await this.repository.save(snapshot);
-    this.emitter.emit('telemetry', event);
+    await this.store.saveLeakLog({ id, createdAt: timestamp, ...options.snapshot });
+    listeners.forEach((listener) => listener(event));
     return event;
   }
 
-  async seed(res: Response) {
-    const recent = await this.repository.getRecent(15);
-    recent.forEach((entry) => {
-      res.write(`event: seed\ndata: ${JSON.stringify(entry)}\n\n`);
-    });
-  }
+  async log(input: LogEventInput): Promise<string> {
+    const id = crypto.randomUUID();
 
-  stream(req: Request, res: Response) {
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache, no-transform',
-      Connection: 'keep-alive',
-      'X-Accel-Buffering': 'no',
-      'Access-Control-Allow-Origin': '*',
+    await this.store.logEvent({
+      id,
+      type: input.type || 'scan',
+      visitorId: input.visitorId || null,
+      sessionId: input.sessionId || null,
+      data: input.data,
+      userAgent: input.userAgent || null,
+      ip: input.ip || null,
     });
+    return id;
+  }
 
-    const heartbeat = setInterval(() => {
-      res.write('event: heartbeat\ndata: {}\n\n');
-    }, 15000);
-
-    const listener = (event: TelemetryEvent) => {
-      res.write(`event: telemetry\ndata: ${JSON.stringify(event)}\n\n`);
-    };
-
-    this.emitter.on('telemetry', listener);
-
-    req.on('close', () => {
-      clearInterval(heartbeat);
-      this.emitter.off('telemetry', listener);
+  /**
+   * Server-sent events: recent leak logs as `seed`, then every captured
+   * event as `telemetry`, with a `heartbeat` in between
+   */
+  stream(): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let stop = () => {};
+    let cancelled = false;
+
+    return new ReadableStream<Uint8Array>({
+      start: async (controller) => {
+        const send = (event: string, data: unknown) =>
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+        const recent = await this.store.getRecentLeakLogs(SEED_SIZE);
+        if (cancelled) return;
+        recent.forEach((entry) => send('seed', entry));
+
+        // A write fails once the stream is gone, or when another request owns it
+        const trySend = (event: string, data: unknown) => {
+          try {
+            send(event, data);
+          } catch {
+            stop();
+          }
+        };
+        const listener: TelemetryListener = (event) => trySend('telemetry', event);
+        const heartbeat = setInterval(
+          () => trySend('heartbeat', { timestamp: Date.now() }),
+          this.heartbeatMs
+        );
+        const expiry = setTimeout(() => {
+          stop();
+          controller.close();
+        }, this.maxStreamMs);
+
+        stop = () => {
+          listeners.delete(listener);
+          clearInterval(heartbeat);
+          clearTimeout(expiry);
+        };
+        listeners.add(listener);
+      },
+      cancel: () => {
+        cancelled = true;
+        stop();
+      },
     });
   }
 
@@ -106,5 +154,3 @@ export class TelemetryService {
     };
   }
 }
-
-export const telemetryService = new TelemetryService();
@@ -0,0 +1,153 @@
+import type {
+  IPLeakResult,
+  TracerouteHop,
+  TracerouteProtocol,
+  TracerouteResult,
+} from '@browserleaks/types';
+import { isPrivateAddress } from '../utils/ip';
+
+/**
+ * Hop as reported by a probe agent, before enrichment
+ */
+export interface AgentHop {
+  hop: number;
+  ip: string | null;
+  rtts: number[];
+}
+
+export interface AgentTraceroute {
+  agent: string;
+  protocol: TracerouteProtocol;
+  target: string;
+  reachedTarget: boolean;
+  hops: AgentHop[];
+}
+
+/**
+ * Something that can run a traceroute from our side of the path, normally a
+ * remote probe agent (see lib/tracerouteAgent)
+ */
+export interface TracerouteProbe {
+  trace(target: string, protocol: TracerouteProtocol): Promise<AgentTraceroute>;
+}
+
+export interface TracerouteServiceOptions {
+  lookup: (ip: string) => Promise<IPLeakResult>;
+}
+
+// Shown when nothing was measured; documentation addresses only, so it cannot be mistaken for a path
+const SAMPLE_PATH: Array<Pick<TracerouteHop, 'ip' | 'rtt' | 'isPrivate' | 'location'>> = [
+  { ip: '192.168.0.1', rtt: 1.2, isPrivate: true, location: 'Home gateway' },
+  { ip: '100.64.0.1', rtt: 8.4, isPrivate: true, location: 'ISP carrier-grade NAT' },
+  { ip: '198.51.100.1', rtt: 11.7, isPrivate: false, location: 'ISP edge' },
+  { ip: '203.0.113.9', rtt: 19.3, isPrivate: false, location: 'Transit provider' },
+  { ip: '192.0.2.10', rtt: 24.8, isPrivate: false, location: 'BrowserLeaks edge' },
+];
+
+/**
+ * Runs traceroutes towards clients through a probe agent and enriches every
+ * public hop with ASN and geo data. Falls back to a fixed synthetic sample,
+ * marked as such, when no agent is configured or the trace cannot run.
+ */
+export class TracerouteService {
+  constructor(
+    private probe: TracerouteProbe | null,
+    private options: TracerouteServiceOptions
+  ) {}
+
+  async trace(target: string, protocol: TracerouteProtocol = 'icmp'): Promise<TracerouteResult> {
+    if (!this.probe) {
+      return buildSyntheticTraceroute(target, protocol, 'No traceroute agent is configured');
+    }
+    if (isPrivateAddress(target)) {
+      return buildSyntheticTraceroute(target, protocol, 'Client address is not publicly routable');
+    }
+
+    let measured: AgentTraceroute;
+    try {
+      measured = await this.probe.trace(target, protocol);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'unknown error';
+      return buildSyntheticTraceroute(target, protocol, `Traceroute agent failed: ${message}`);
+    }
+
+    const publicIps = [
+      ...new Set(
+        measured.hops
+          .map((hop) => hop.ip)
+          .filter((ip): ip is string => ip !== null && !isPrivateAddress(ip))
+      ),
+    ];
+    const details = new Map(
+      await Promise.all(
+        publicIps.map(async (ip) => [ip, await this.options.lookup(ip).catch(() => null)] as const)
+      )
+    );
+
+    return {
+      source: 'measured',
+      protocol: measured.protocol,
+      target: measured.target,
+      agent: measured.agent,
+      measuredAt: new Date().toISOString(),
+      reachedTarget: measured.reachedTarget,
+      hops: measured.hops.map((hop) => enrichHop(hop, hop.ip ? details.get(hop.ip) : null)),
+    };
+  }
+}
+
+function enrichHop(hop: AgentHop, info: IPLeakResult | null | undefined): TracerouteHop {
+  const isPrivate = hop.ip !== null && isPrivateAddress(hop.ip);
+  const base = {
+    hop: hop.hop,
+    ip: hop.ip,
+    rtt: hop.rtts.length > 0 ? Math.min(...hop.rtts) : null,
+    rtts: hop.rtts,
+    isPrivate,
+  };
+
+  if (!info) {
+    return {
+      ...base,
+      asn: null,
+      organization: null,
+      city: null,
+      countryCode: null,
+      location: hop.ip === null ? 'No reply' : isPrivate ? 'Private network' : 'Unknown',
+    };
+  }
+
+  return {
+    ...base,
+    asn: info.network.asn || null,
+    organization: info.network.organization || info.network.isp || null,
+    city: info.geo.city || null,
+    countryCode: info.geo.countryCode || null,
+    location: [info.geo.city, info.geo.countryCode].filter(Boolean).join(', ') || 'Unknown',
+  };
+}
+
+export function buildSyntheticTraceroute(
+  target: string,
+  protocol: TracerouteProtocol,
+  reason: string
+): TracerouteResult {
+  return {
+    source: 'synthetic',
+    reason,
+    protocol,
+    target,
+    agent: null,
+    measuredAt: new Date().toISOString(),
+    reachedTarget: false,
+    hops: SAMPLE_PATH.map((hop, index) => ({
+      ...hop,
+      hop: index + 1,
+      rtts: hop.rtt === null ? [] : [hop.rtt],
+      asn: null,
+      organization: null,
+      city: null,
+      countryCode: null,
+    })),
+  };
+}
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ApiKeyService,
+  TIER_QUOTAS,
+  getEndpointGroup,
+  getQuotaPeriod,
+  hashApiKey,
+} from '../ApiKeyService';
+import { InMemoryApiKeyRepository } from '../../db/ApiKeyRepository';
+
+describe('ApiKeyService', () => {
+  let store: InMemoryApiKeyRepository;
+  let service: ApiKeyService;
+
+  beforeEach(() => {
+    store = new InMemoryApiKeyRepository();
+    service = new ApiKeyService(store);
+  });
+
+  describe('issue', () => {
+    it('should return the key once and store only its hash', async () => {
+      const { key, apiKey } = await service.issue('ci', 'pro');
+
+      expect(key).toMatch(/^bl_[a-f0-9]{40}$/);
+      expect(apiKey).toMatchObject({ name: 'ci', tier: 'pro', prefix: key.slice(0, 10) });
+      expect(apiKey).not.toHaveProperty('keyHash');
+
+      const stored = await store.findById(apiKey.id);
+      expect(stored?.keyHash).toBe(await hashApiKey(key));
+      expect(JSON.stringify(stored)).not.toContain(key);
+    });
+
+    it('should authenticate issued keys', async () => {
+      const { key, apiKey } = await service.issue('ci', 'free');
+
+      expect((await service.authenticate(key))?.id).toBe(apiKey.id);
+      expect(await service.authenticate('bl_unknown')).toBeNull();
+      expect(await service.authenticate('not-a-key')).toBeNull();
+    });
+  });
+
+  describe('rotate', () => {
+    it('should replace the secret and keep the key id', async () => {
+      const { key: oldKey, apiKey } = await service.issue('ci', 'free');
+
+      const rotated = await service.rotate(apiKey.id);
+
+      expect(rotated?.apiKey.id).toBe(apiKey.id);
+      expect(rotated?.apiKey.rotatedAt).not.toBeNull();
+      expect(rotated?.key).not.toBe(oldKey);
+      expect(await service.authenticate(oldKey)).toBeNull();
+      expect((await service.authenticate(rotated!.key))?.id).toBe(apiKey.id);
+    });
+
+    it('should not rotate revoked or unknown keys', async () => {
+      const { apiKey } = await service.issue('ci', 'free');
+      await service.revoke(apiKey.id);
+
+      expect(await service.rotate(apiKey.id)).toBeNull();
+      expect(await service.rotate(crypto.randomUUID())).toBeNull();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should stop the key from authenticating', async () => {
+      const { key, apiKey } = await service.issue('ci', 'free');
+
+      const revoked = await service.revoke(apiKey.id);
+
+      expect(revoked?.revokedAt).not.toBeNull();
+      expect(await service.authenticate(key)).toBeNull();
+    });
+
+    it('should keep the first revocation time', async () => {
+      const { apiKey } = await service.issue('ci', 'free');
+
+      const first = await service.revoke(apiKey.id);
+      const second = await service.revoke(apiKey.id);
+
+      expect(second?.revokedAt).toBe(first?.revokedAt);
+    });
+  });
+
+  describe('consume', () => {
+    const now = new Date('2026-03-14T15:00:00.000Z');
+
+    it('should count usage per endpoint group and reset at midnight UTC', async () => {
+      const { apiKey } = await service.issue('ci', 'free');
+      const record = (await store.findById(apiKey.id))!;
+
+      await service.consume(record, 'detect', now);
+      const { allowed, usage } = await service.consume(record, 'detect', now);
+      await service.consume(record, 'ai', now);
+
+      expect(allowed).toBe(true);
+      expect(usage).toEqual({
+        group: 'detect',
+        limit: TIER_QUOTAS.free.detect,
+        used: 2,
+        remaining: TIER_QUOTAS.free.detect! - 2,
+        resetAt: '2026-03-15T00:00:00.000Z',
+      });
+      expect((await store.findById(apiKey.id))?.lastUsedAt).toBe(now.toISOString());
+    });
+
+    it('should reject requests beyond the tier quota', async () => {
+      const { apiKey } = await service.issue('ci', 'free');
+      const record = (await store.findById(apiKey.id))!;
+      const limit = TIER_QUOTAS.free.ai!;
+
+      for (let i = 0; i < limit; i++) {
+        await store.incrementUsage(record.id, getQuotaPeriod(now), 'ai');
+      }
+
+      const { allowed, usage } = await service.consume(record, 'ai', now);
+
+      expect(allowed).toBe(false);
+      expect(usage.remaining).toBe(0);
+      expect((await service.consume(record, 'detect', now)).allowed).toBe(true);
+    });
+
+    it('should not limit internal keys', async () => {
+      const { apiKey } = await service.issue('ops', 'internal');
+      const record = (await store.findById(apiKey.id))!;
+
+      const { allowed, usage } = await service.consume(record, 'ai', now);
+
+      expect(allowed).toBe(true);
+      expect(usage).toMatchObject({ limit: null, remaining: null, used: 1 });
+    });
+  });
+
+  describe('getQuotaStatus', () => {
+    it('should report every endpoint group of the tier', async () => {
+      const now = new Date('2026-03-14T15:00:00.000Z');
+      const { apiKey } = await service.issue('ci', 'pro');
+      const record = (await store.findById(apiKey.id))!;
+      await service.consume(record, 'fingerprint', now);
+
+      const status = await service.getQuotaStatus(record, now);
+
+      expect(status.tier).toBe('pro');
+      expect(status.keyId).toBe(apiKey.id);
+      expect(status.quotas.map((quota) => quota.group)).toEqual(Object.keys(TIER_QUOTAS.pro));
+      expect(status.quotas.find((quota) => quota.group === 'fingerprint')).toMatchObject({
+        used: 1,
+        remaining: TIER_QUOTAS.pro.fingerprint! - 1,
+      });
+    });
+  });
+});
+
+describe('getEndpointGroup', () => {
+  it('should map routes to endpoint groups', () => {
+    expect(getEndpointGroup('/v1/detect/ip')).toBe('detect');
+    expect(getEndpointGroup('/v1/tls/fingerprint')).toBe('detect');
+    expect(getEndpointGroup('/v1/fingerprint/scan')).toBe('fingerprint');
+    expect(getEndpointGroup('/v1/privacy-score/policies')).toBe('scoring');
+    expect(getEndpointGroup('/v1/history/abc')).toBe('data');
+    expect(getEndpointGroup('/v1/ai/chat')).toBe('ai');
+  });
+
+  it('should not meter key management and quota lookups', () => {
+    expect(getEndpointGroup('/v1')).toBeNull();
+    expect(getEndpointGroup('/v1/quota')).toBeNull();
+    expect(getEndpointGroup('/v1/keys')).toBeNull();
+    expect(getEndpointGroup('/v1/keys/0b6c/rotate')).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import type { AutomationSignals } from '@browserleaks/types';
+import { AutomationDetectionService } from '../AutomationDetectionService';
+
+const CLEAN: AutomationSignals = {
+  webdriver: false,
+  cdpRuntime: false,
+  headlessTraits: [],
+  stealthLeftovers: [],
+  automationGlobals: [],
+  workerMismatches: [],
+};
+
+const CHROME_REQUEST = {
+  userAgent:
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+  clientHints: '"Google Chrome";v="131", "Chromium";v="131", "Not_A Brand";v="24"',
+  acceptLanguage: 'en-US,en;q=0.9',
+};
+
+describe('AutomationDetectionService', () => {
+  const service = new AutomationDetectionService();
+
+  it('should report a regular browser as human', () => {
+    expect(service.analyze(CLEAN, CHROME_REQUEST)).toEqual({
+      score: 0,
+      likelihood: 'human',
+      framework: null,
+      evidence: [],
+    });
+  });
+
+  it('should identify a default Playwright browser', () => {
+    const report = service.analyze(
+      {
+        ...CLEAN,
+        webdriver: true,
+        cdpRuntime: true,
+        headlessTraits: ['headless-user-agent'],
+        automationGlobals: ['__playwright__binding__', '__pwInitScripts'],
+      },
+      {
+        ...CHROME_REQUEST,
+        userAgent: CHROME_REQUEST.userAgent.replace('Chrome/', 'HeadlessChrome/'),
+      }
+    );
+
+    expect(report.score).toBe(100);
+    expect(report.likelihood).toBe('bot');
+    expect(report.framework).toBe('Playwright');
+    expect(report.evidence[0]).toMatchObject({ check: 'automation-globals', weight: 70 });
+    expect(report.evidence.map((entry) => entry.check)).toEqual(
+      expect.arrayContaining(['webdriver', 'cdp-runtime', 'headless', 'request-headers'])
+    );
+  });
+
+  it('should catch stealth setups through their patches and the worker', () => {
+    const report = service.analyze(
+      {
+        ...CLEAN,
+        stealthLeftovers: ['iframe-content-window'],
+        workerMismatches: ['userAgent'],
+      },
+      CHROME_REQUEST
+    );
+
+    expect(report.score).toBe(60);
+    expect(report.likelihood).toBe('likely-bot');
+    expect(report.framework).toBe('puppeteer-extra stealth');
+    expect(report.evidence.map((entry) => entry.signal)).toEqual([
+      'iframe-content-window',
+      'navigator.userAgent',
+    ]);
+  });
+
+  it('should name Selenium from chromedriver leftovers', () => {
+    const report = service.analyze({
+      ...CLEAN,
+      automationGlobals: ['$cdc_asdjflasutopfhvcZLmcfl_'],
+    });
+
+    expect(report.framework).toBe('Selenium');
+    expect(report.evidence[0].title).toBe('Selenium Globals Present');
+  });
+
+  it('should treat an open DevTools window as suspicious only', () => {
+    const report = service.analyze({ ...CLEAN, cdpRuntime: true }, CHROME_REQUEST);
+
+    expect(report.score).toBe(30);
+    expect(report.likelihood).toBe('suspicious');
+  });
+
+  it('should see the headless brand in client hints behind a spoofed User-Agent', () => {
+    const report = service.analyze(CLEAN, {
+      ...CHROME_REQUEST,
+      clientHints: '"HeadlessChrome";v="131", "Chromium";v="131"',
+    });
+
+    expect(report.evidence).toEqual([
+      expect.objectContaining({ check: 'request-headers', signal: 'Sec-CH-UA', source: 'request' }),
+    ]);
+  });
+
+  it('should ignore unknown signal names', () => {
+    const report = service.analyze({ ...CLEAN, headlessTraits: ['made-up'] }, CHROME_REQUEST);
+
+    expect(report.evidence).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { ConsistencyService, getUtcOffset } from '../ConsistencyService';
+
+const NOW = new Date('2025-01-15T12:00:00.000Z');
+
+const ipLeak = {
+  ip: '203.0.113.10',
+  geo: {
+    country: 'Germany',
+    countryCode: 'DE',
+    city: 'Berlin',
+    region: 'Berlin',
+    latitude: 52.52,
+    longitude: 13.405,
+    timezone: 'Europe/Berlin',
+  },
+};
+
+describe('ConsistencyService', () => {
+  const service = new ConsistencyService();
+
+  it('should report a consistent browser', () => {
+    const report = service.analyze(
+      {
+        ipLeak,
+        timezone: { intlTimezone: 'Europe/Paris' },
+        languages: ['de-DE', 'en-US'],
+        acceptLanguage: 'de-DE,de;q=0.9,en-US;q=0.8',
+        webrtcCandidates: [{ ip: '203.0.113.10', type: 'srflx' }],
+        userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/131.0.0.0',
+        clientHints: { platform: '"Windows"', mobile: '?0' },
+      },
+      NOW
+    );
+
+    expect(report.consistent).toBe(true);
+    expect(report.checksRun).toEqual([
+      'timezone-ip',
+      'language-ip',
+      'language-header',
+      'webrtc-ip',
+      'platform-client-hints',
+    ]);
+  });
+
+  it('should skip checks without inputs', () => {
+    const report = service.analyze({}, NOW);
+
+    expect(report).toEqual({ consistent: true, checksRun: [], mismatches: [] });
+  });
+
+  it('should flag a timezone far from the IP location', () => {
+    const report = service.analyze(
+      { ipLeak, timezone: { value: 'America/New_York' } },
+      NOW
+    );
+
+    expect(report.mismatches).toEqual([
+      expect.objectContaining({
+        check: 'timezone-ip',
+        severity: 'high',
+        expected: 'Europe/Berlin',
+        observed: 'America/New_York',
+      }),
+    ]);
+  });
+
+  it('should flag languages unusual for the IP country', () => {
+    const report = service.analyze({ ipLeak, languages: ['ru-RU', 'ru'] }, NOW);
+
+    expect(report.mismatches[0]).toMatchObject({ check: 'language-ip', severity: 'medium' });
+  });
+
+  it('should treat English-only browsers as weak evidence', () => {
+    const report = service.analyze({ ipLeak, languages: ['en-US'] }, NOW);
+
+    expect(report.mismatches[0]).toMatchObject({ check: 'language-ip', severity: 'low' });
+  });
+
+  it('should flag an Accept-Language header that disagrees with navigator.languages', () => {
+    const report = service.analyze(
+      { languages: ['en-US'], acceptLanguage: 'fr-FR,fr;q=0.9' },
+      NOW
+    );
+
+    expect(report.mismatches).toEqual([
+      expect.objectContaining({ check: 'language-header', expected: 'fr-FR', observed: 'en-US' }),
+    ]);
+  });
+
+  it('should flag a WebRTC public IP different from the request IP', () => {
+    const report = service.analyze(
+      {
+        requestIp: '203.0.113.10',
+        webrtcCandidates: [
+          { ip: '192.168.1.20', type: 'host' },
+          { ip: '198.51.100.7', type: 'srflx' },
+          { ip: '2001:db8::1', type: 'srflx' },
+        ],
+      },
+      NOW
+    );
+
+    expect(report.mismatches[0]).toMatchObject({
+      check: 'webrtc-ip',
+      severity: 'high',
+      observed: '198.51.100.7, 2001:db8::1',
+    });
+  });
+
+  it('should rate a different address family as medium', () => {
+    const report = service.analyze(
+      { requestIp: '203.0.113.10', webrtcCandidates: [{ ip: '2001:db8::1', type: 'srflx' }] },
+      NOW
+    );
+
+    expect(report.mismatches[0]).toMatchObject({ check: 'webrtc-ip', severity: 'medium' });
+  });
+
+  it('should flag a user agent that contradicts client hints', () => {
+    const report = service.analyze(
+      {
+        userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) Chrome/131.0.0.0',
+        clientHints: { platform: '"Windows"' },
+      },
+      NOW
+    );
+
+    expect(report.mismatches[0]).toMatchObject({
+      check: 'platform-client-hints',
+      severity: 'high',
+      expected: 'Windows',
+      observed: 'macOS',
+    });
+  });
+
+  it('should sort mismatches by severity', () => {
+    const report = service.analyze(
+      {
+        ipLeak,
+        languages: ['en-US'],
+        timezone: { value: 'Asia/Tokyo' },
+        webrtcCandidates: [{ ip: '198.51.100.7', type: 'srflx' }],
+      },
+      NOW
+    );
+
+    expect(report.mismatches.map((m) => m.severity)).toEqual(['high', 'high', 'low']);
+  });
+});
+
+describe('getUtcOffset', () => {
+  it('should follow daylight saving time', () => {
+    expect(getUtcOffset('Europe/Berlin', NOW)).toBe(60);
+    expect(getUtcOffset('Europe/Berlin', new Date('2025-07-15T12:00:00.000Z'))).toBe(120);
+    expect(getUtcOffset('Asia/Kolkata', NOW)).toBe(330);
+  });
+
+  it('should return null for unknown timezones', () => {
+    expect(getUtcOffset('Mars/Olympus_Mons', NOW)).toBeNull();
+  });
+});
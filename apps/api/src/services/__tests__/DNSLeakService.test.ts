@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { IPLeakResult } from '@browserleaks/types';
+import {
+  DNSLeakService,
+  DNS_LEAK_TEST_TTL_MS,
+  classifyDNSLeak,
+  parseProbeHostname,
+} from '../DNSLeakService';
+import { InMemoryDNSLeakRepository } from '../../db/DNSLeakRepository';
+
+const ZONE = 'dnsleak.test';
+const CLIENT_IP = '203.0.113.10';
+
+const makeIPInfo = (ip: string, asn: string, isp: string, countryCode = 'US'): IPLeakResult => ({
+  ip,
+  version: 'ipv4',
+  geo: {
+    country: countryCode === 'US' ? 'United States' : 'Germany',
+    countryCode,
+    city: '',
+    region: '',
+    latitude: 0,
+    longitude: 0,
+    timezone: '',
+  },
+  network: { isp, asn, organization: isp },
+  privacy: { isProxy: false, isVPN: false, isDatacenter: false, isTor: false, isRelay: false },
+  reputation: { score: 0, isBlacklisted: false, categories: [] },
+});
+
+const IP_INFO: Record<string, IPLeakResult> = {
+  [CLIENT_IP]: makeIPInfo(CLIENT_IP, 'AS64500', 'Example VPN'),
+  '203.0.113.53': makeIPInfo('203.0.113.53', 'AS64500', 'Example VPN'),
+  '198.51.100.53': makeIPInfo('198.51.100.53', 'AS64511', 'Home ISP', 'DE'),
+};
+
+const lookup = async (ip: string) => {
+  const info = IP_INFO[ip];
+  if (!info) throw new Error(`No IP data for ${ip}`);
+  return info;
+};
+
+describe('DNSLeakService', () => {
+  let service: DNSLeakService;
+
+  beforeEach(() => {
+    service = new DNSLeakService(new InMemoryDNSLeakRepository(), {
+      zone: ZONE,
+      lookup,
+      probeCount: 3,
+    });
+  });
+
+  it('should hand out unique probe hostnames under the zone', async () => {
+    const test = await service.createTest(CLIENT_IP);
+
+    expect(test.testId).toMatch(/^[a-f0-9]{32}$/);
+    expect(test.probes).toEqual([
+      `p1.${test.testId}.${ZONE}`,
+      `p2.${test.testId}.${ZONE}`,
+      `p3.${test.testId}.${ZONE}`,
+    ]);
+  });
+
+  it('should return null for unknown tests', async () => {
+    expect(await service.collect('0'.repeat(32))).toBeNull();
+  });
+
+  it('should report no leak when every resolver is in the client ASN', async () => {
+    const { testId, probes } = await service.createTest(CLIENT_IP);
+    for (const probe of probes) {
+      await service.recordQuery(probe, '203.0.113.53');
+    }
+
+    const result = await service.collect(testId);
+
+    expect(result?.leakType).toBe('none');
+    expect(result?.isLeak).toBe(false);
+    expect(result?.clientAsn).toBe('AS64500');
+    expect(result?.probesResolved).toBe(3);
+    expect(result?.servers).toEqual([
+      expect.objectContaining({ ip: '203.0.113.53', asn: 'AS64500', isISP: true, queryCount: 3 }),
+    ]);
+    expect(result?.risks).toEqual([]);
+  });
+
+  it('should report a partial leak when some resolvers are outside the client ASN', async () => {
+    const { testId, probes } = await service.createTest(CLIENT_IP);
+    await service.recordQuery(probes[0], '203.0.113.53');
+    await service.recordQuery(probes[1].toUpperCase(), '198.51.100.53');
+
+    const result = await service.collect(testId);
+
+    expect(result?.leakType).toBe('partial');
+    expect(result?.probesResolved).toBe(2);
+    expect(result?.risks[0]).toMatchObject({ severity: 'high' });
+    expect(result?.risks[0].description).toContain('Home ISP (AS64511)');
+  });
+
+  it('should report a full leak when no resolver is in the client ASN', async () => {
+    const { testId, probes } = await service.createTest(CLIENT_IP);
+    await service.recordQuery(probes[0], '198.51.100.53');
+
+    const result = await service.collect(testId);
+
+    expect(result?.leakType).toBe('full');
+    expect(result?.risks[0]).toMatchObject({ severity: 'critical' });
+  });
+
+  it('should compare against the IP supplied by the client', async () => {
+    const { testId, probes } = await service.createTest('192.0.2.1');
+    await service.recordQuery(probes[0], '203.0.113.53');
+
+    const result = await service.collect(testId, CLIENT_IP);
+
+    expect(result?.clientIp).toBe(CLIENT_IP);
+    expect(result?.leakType).toBe('none');
+  });
+
+  it('should keep resolvers that cannot be enriched', async () => {
+    const { testId, probes } = await service.createTest(CLIENT_IP);
+    await service.recordQuery(probes[0], '192.0.2.53');
+
+    const result = await service.collect(testId);
+
+    expect(result?.servers[0]).toMatchObject({ ip: '192.0.2.53', asn: 'Unknown', isISP: false });
+    expect(result?.leakType).toBe('full');
+  });
+
+  it('should ignore queries outside the zone and for expired tests', async () => {
+    const { testId, probes } = await service.createTest(CLIENT_IP);
+    const expired = new Date(Date.now() + DNS_LEAK_TEST_TTL_MS + 1000);
+
+    expect(await service.recordQuery(`p1.${testId}.example.com`, '203.0.113.53')).toBe(false);
+    expect(await service.recordQuery(probes[0], '203.0.113.53', expired)).toBe(false);
+
+    const result = await service.collect(testId);
+    expect(result?.servers).toEqual([]);
+    expect(result?.isLeak).toBe(false);
+  });
+});
+
+describe('parseProbeHostname', () => {
+  const testId = 'a'.repeat(32);
+
+  it('should accept fully qualified and mixed-case names', () => {
+    expect(parseProbeHostname(`P4.${testId.toUpperCase()}.DNSLeak.Test.`, ZONE)).toEqual({
+      testId,
+      probe: 'p4',
+    });
+  });
+
+  it('should reject names that are not probes', () => {
+    expect(parseProbeHostname(ZONE, ZONE)).toBeNull();
+    expect(parseProbeHostname(`${testId}.${ZONE}`, ZONE)).toBeNull();
+    expect(parseProbeHostname(`x.p1.${testId}.${ZONE}`, ZONE)).toBeNull();
+    expect(parseProbeHostname(`p1.not-a-test.${ZONE}`, ZONE)).toBeNull();
+  });
+});
+
+describe('classifyDNSLeak', () => {
+  it('should classify by the share of resolvers outside the client network', () => {
+    expect(classifyDNSLeak([])).toBe('none');
+    expect(classifyDNSLeak([{ isISP: true }])).toBe('none');
+    expect(classifyDNSLeak([{ isISP: true }, { isISP: false }])).toBe('partial');
+    expect(classifyDNSLeak([{ isISP: false }])).toBe('full');
+  });
+});
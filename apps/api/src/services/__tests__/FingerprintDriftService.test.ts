@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FingerprintDriftService, type SubmittedFingerprint } from '../FingerprintDriftService';
+import {
+  InMemoryFingerprintSnapshotRepository,
+  type FingerprintSnapshot,
+} from '../../db/FingerprintSnapshotRepository';
+
+const VISITOR_ID = 'visitor-0123456789abcdef';
+
+const makeFingerprint = (values: Record<string, unknown>): SubmittedFingerprint => ({
+  visitorId: 'core-visitor-id',
+  components: Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, { status: 'success', value }])
+  ),
+});
+
+const makeSnapshot = (id: string, day: number, componentHashes: Record<string, string>): FingerprintSnapshot => ({
+  id,
+  visitorId: VISITOR_ID,
+  fingerprintId: null,
+  componentHashes,
+  createdAt: `2025-01-${String(day).padStart(2, '0')}T00:00:00.000Z`,
+});
+
+describe('FingerprintDriftService', () => {
+  describe('record', () => {
+    let service: FingerprintDriftService;
+
+    beforeEach(() => {
+      service = new FingerprintDriftService(new InMemoryFingerprintSnapshotRepository());
+    });
+
+    it('should return no drift for the first snapshot', async () => {
+      const { drift } = await service.record(VISITOR_ID, makeFingerprint({ canvas: { hash: 'a' } }));
+
+      expect(drift).toBeNull();
+    });
+
+    it('should report changed, added and removed components', async () => {
+      await service.record(VISITOR_ID, makeFingerprint({ canvas: { hash: 'a' }, fonts: ['Arial'] }));
+      const { drift } = await service.record(
+        VISITOR_ID,
+        makeFingerprint({ canvas: { hash: 'b' }, webgl: { hash: 'w' } })
+      );
+
+      expect(drift?.changed).toEqual(['canvas']);
+      expect(drift?.added).toEqual(['webgl']);
+      expect(drift?.removed).toEqual(['fonts']);
+    });
+
+    it('should ignore components that failed to collect', async () => {
+      await service.record(VISITOR_ID, makeFingerprint({ canvas: { hash: 'a' } }));
+      const { drift } = await service.record(VISITOR_ID, {
+        components: {
+          canvas: { status: 'success', value: { hash: 'a' } },
+          audio: { status: 'timeout' },
+        },
+      });
+
+      expect(drift).toEqual(expect.objectContaining({ changed: [], added: [], removed: [] }));
+    });
+  });
+
+  describe('analyze', () => {
+    it('should classify components by volatility', () => {
+      const report = FingerprintDriftService.analyze(VISITOR_ID, [
+        makeSnapshot('s1', 1, { canvas: 'c1', fonts: 'f1', timezone: 't1' }),
+        makeSnapshot('s2', 2, { canvas: 'c2', fonts: 'f1', timezone: 't1' }),
+        makeSnapshot('s3', 3, { canvas: 'c1', fonts: 'f1', timezone: 't1' }),
+        makeSnapshot('s4', 4, { canvas: 'c3', fonts: 'f1', timezone: 't1' }),
+        makeSnapshot('s5', 5, { canvas: 'c3', fonts: 'f2', timezone: 't1' }),
+      ]);
+
+      const byName = Object.fromEntries(report.components.map((c) => [c.component, c]));
+
+      expect(report.snapshotCount).toBe(5);
+      expect(report.firstSeen).toBe('2025-01-01T00:00:00.000Z');
+      expect(report.lastSeen).toBe('2025-01-05T00:00:00.000Z');
+      expect(report.components[0].component).toBe('canvas');
+
+      expect(byName.canvas).toMatchObject({
+        changes: 3,
+        distinctValues: 3,
+        volatility: 0.75,
+        classification: 'volatile',
+        lastChangedAt: '2025-01-04T00:00:00.000Z',
+      });
+      expect(byName.fonts).toMatchObject({ changes: 1, volatility: 0.25, classification: 'drifting' });
+      expect(byName.timezone).toMatchObject({ changes: 0, classification: 'stable', lastChangedAt: null });
+      expect(report.events.map((e) => e.snapshotId)).toEqual(['s2', 's3', 's4', 's5']);
+    });
+
+    it('should not count a missing component as a change', () => {
+      const report = FingerprintDriftService.analyze(VISITOR_ID, [
+        makeSnapshot('s1', 1, { audio: 'a1' }),
+        makeSnapshot('s2', 2, {}),
+        makeSnapshot('s3', 3, { audio: 'a1' }),
+      ]);
+
+      expect(report.components).toEqual([
+        expect.objectContaining({ component: 'audio', observations: 2, changes: 0 }),
+      ]);
+      expect(report.events).toHaveLength(2);
+    });
+
+    it('should mark single observations as unknown', () => {
+      const report = FingerprintDriftService.analyze(VISITOR_ID, [makeSnapshot('s1', 1, { canvas: 'c1' })]);
+
+      expect(report.components[0].classification).toBe('unknown');
+      expect(report.events).toEqual([]);
+    });
+  });
+});
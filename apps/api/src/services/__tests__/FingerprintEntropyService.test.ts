@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FingerprintEntropyService } from '../FingerprintEntropyService';
+import { InMemoryFingerprintFrequencyRepository } from '../../db/FingerprintFrequencyRepository';
+
+const makeValues = (overrides: Record<string, string | undefined> = {}) => ({
+  canvas: 'canvas-a',
+  webgl: 'webgl-a',
+  timezone: 'Europe/Berlin|-60',
+  ...overrides,
+});
+
+describe('FingerprintEntropyService', () => {
+  let store: InMemoryFingerprintFrequencyRepository;
+  let service: FingerprintEntropyService;
+
+  beforeEach(() => {
+    store = new InMemoryFingerprintFrequencyRepository();
+    service = new FingerprintEntropyService(store);
+  });
+
+  it('should report zero bits for the first fingerprint', async () => {
+    const result = await service.analyze('fp-1', makeValues());
+
+    expect(result.sampleSize).toBe(1);
+    expect(result.totalBits).toBe(0);
+    expect(result.oneIn).toBe(1);
+    expect(result.components.canvas).toEqual({ bits: 0, frequency: 1, matches: 1, sampleSize: 1 });
+  });
+
+  it('should compute surprisal from observed frequencies', async () => {
+    await service.analyze('fp-1', makeValues());
+    await service.analyze('fp-2', makeValues({ canvas: 'canvas-b' }));
+    await service.analyze('fp-3', makeValues({ canvas: 'canvas-c' }));
+    const result = await service.analyze('fp-4', makeValues({ canvas: 'canvas-d', webgl: 'webgl-b' }));
+
+    expect(result.sampleSize).toBe(4);
+    // 1 of 4 fingerprints share this canvas => 2 bits
+    expect(result.components.canvas.bits).toBe(2);
+    expect(result.components.webgl.bits).toBe(2);
+    // 4 of 4 share the timezone => 0 bits
+    expect(result.components.timezone.bits).toBe(0);
+    // Capped at log2(sampleSize)
+    expect(result.totalBits).toBe(2);
+    expect(result.oneIn).toBe(4);
+  });
+
+  it('should be deterministic for identical input', async () => {
+    await service.analyze('fp-1', makeValues());
+    await service.analyze('fp-2', makeValues({ canvas: 'canvas-b' }));
+
+    const first = await service.analyze('fp-2', makeValues({ canvas: 'canvas-b' }));
+    const second = await service.analyze('fp-2', makeValues({ canvas: 'canvas-b' }));
+
+    expect(second).toEqual(first);
+    expect(second.sampleSize).toBe(2);
+  });
+
+  it('should ignore components that were not collected', async () => {
+    const result = await service.analyze('fp-1', makeValues({ webgl: undefined, audio: '' }));
+
+    expect(Object.keys(result.components).sort()).toEqual(['canvas', 'timezone']);
+  });
+
+  it('should normalize component scores against the sample', async () => {
+    await service.analyze('fp-1', makeValues());
+    const result = await service.analyze('fp-2', makeValues({ canvas: 'canvas-b' }));
+
+    expect(FingerprintEntropyService.toComponentScores(result)).toEqual({
+      canvas: 1,
+      webgl: 0,
+      timezone: 0,
+    });
+  });
+});
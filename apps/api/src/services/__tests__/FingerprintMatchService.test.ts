@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FingerprintMatchService } from '../FingerprintMatchService';
+import { FingerprintEntropyService } from '../FingerprintEntropyService';
+import { InMemoryFingerprintFrequencyRepository } from '../../db/FingerprintFrequencyRepository';
+
+const makeValues = (overrides: Record<string, string | undefined> = {}) => ({
+  canvas: 'canvas-a',
+  webgl: 'webgl-a',
+  audio: 'audio-a',
+  fonts: 'fonts-a',
+  screen: '1920x1080|24|1',
+  timezone: 'Europe/Berlin|-60',
+  navigator: 'Win32|en-US|8|8|0',
+  userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/131.0.0.0',
+  ...overrides,
+});
+
+describe('FingerprintMatchService', () => {
+  let store: InMemoryFingerprintFrequencyRepository;
+  let service: FingerprintMatchService;
+
+  beforeEach(async () => {
+    store = new InMemoryFingerprintFrequencyRepository();
+    service = new FingerprintMatchService(store);
+
+    const entropy = new FingerprintEntropyService(store);
+    await entropy.analyze('known-1', makeValues());
+    await entropy.analyze(
+      'known-2',
+      makeValues({ canvas: 'canvas-b', webgl: 'webgl-b', audio: 'audio-b', screen: '1366x768|24|1' })
+    );
+    await entropy.analyze('unrelated', makeValues({ canvas: 'x', webgl: 'y', audio: 'z', fonts: 'w' }));
+  });
+
+  it('should link a fingerprint after a user agent change', async () => {
+    const result = await service.findMatches(
+      'new-hash',
+      makeValues({ userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Firefox/133.0' })
+    );
+
+    expect(result.matches[0].hash).toBe('known-1');
+    expect(result.matches[0].exact).toBe(false);
+    expect(result.matches[0].similarity).toBe(0.92);
+    expect(result.matches[0].components).toContainEqual({
+      component: 'userAgent',
+      weight: 0.08,
+      status: 'mismatch',
+    });
+    expect(result.matches[0].components).toContainEqual({
+      component: 'canvas',
+      weight: 0.2,
+      status: 'match',
+    });
+  });
+
+  it('should rank matches by similarity and apply the threshold', async () => {
+    const result = await service.findMatches('new-hash', makeValues(), { minSimilarity: 0.3 });
+
+    expect(result.matches.map((m) => m.hash)).toEqual(['known-1', 'known-2']);
+    expect(result.candidatesScanned).toBe(2);
+  });
+
+  it('should flag exact matches', async () => {
+    const result = await service.findMatches('known-1', makeValues());
+
+    expect(result.matches[0]).toMatchObject({ hash: 'known-1', exact: true, similarity: 1 });
+  });
+
+  it('should treat components reported by one side as missing', () => {
+    const match = FingerprintMatchService.compare(
+      'new-hash',
+      { canvas: 'c1' },
+      {
+        hash: 'known',
+        componentHashes: { canvas: 'c1', audio: 'a1' },
+        seenCount: 1,
+        firstSeen: '2025-01-01T00:00:00.000Z',
+        lastSeen: '2025-01-01T00:00:00.000Z',
+      }
+    );
+
+    expect(match.components).toEqual([
+      { component: 'audio', weight: 0.12, status: 'missing' },
+      { component: 'canvas', weight: 0.2, status: 'match' },
+    ]);
+    expect(match.similarity).toBe(0.625);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MMDBReader } from '../../utils/mmdb';
+import { GeoLiteProvider, type IPRangeFile } from '../../clients/GeoLiteProvider';
+import { loadGeoLiteProvider } from '../../lib/geoip';
+import { IPReconciliationService } from '../IPReconciliationService';
+import { buildMMDB } from './mockData/mmdb';
+
+const berlin = {
+  city: { geoname_id: 2950159, names: { en: 'Berlin', de: 'Berlin' } },
+  country: { iso_code: 'DE', names: { en: 'Germany', de: 'Deutschland' } },
+  location: { latitude: 52.5244, longitude: 13.4105, time_zone: 'Europe/Berlin' },
+  postal: { code: '10115' },
+  subdivisions: [{ iso_code: 'BE', names: { en: 'Land Berlin' } }],
+};
+
+const cityDB = buildMMDB([
+  { cidr: '198.51.100.0/24', record: berlin },
+  {
+    cidr: '203.0.113.0/25',
+    record: {
+      country: { iso_code: 'NL', names: { en: 'Netherlands' } },
+      location: { latitude: 52.3824, longitude: 4.8995, time_zone: 'Europe/Amsterdam' },
+    },
+  },
+  { cidr: '2001:db8:1::/48', record: berlin },
+]);
+
+const asnDB = buildMMDB(
+  [
+    {
+      cidr: '198.51.100.0/24',
+      record: {
+        autonomous_system_number: 64500,
+        autonomous_system_organization: 'Example Hosting',
+      },
+    },
+    {
+      cidr: '203.0.113.0/24',
+      record: { autonomous_system_number: 64511, autonomous_system_organization: 'Example VPN' },
+    },
+  ],
+  { databaseType: 'GeoLite2-ASN' }
+);
+
+const ranges: IPRangeFile = {
+  updatedAt: '2026-10-01T00:00:00Z',
+  lists: [
+    { name: 'tor-exits', category: 'tor', cidrs: ['203.0.113.66/32'] },
+    { name: 'example-vpn', category: 'vpn', cidrs: ['203.0.113.0/24'] },
+    { name: 'example-cloud', category: 'datacenter', cidrs: ['198.51.100.0/24', '2001:db8::/32'] },
+  ],
+};
+
+describe('MMDBReader', () => {
+  it('should read metadata and look up IPv4 and IPv6 addresses', () => {
+    const reader = new MMDBReader(cityDB);
+
+    expect(reader.metadata).toMatchObject({
+      database_type: 'GeoLite2-City',
+      ip_version: 6,
+      record_size: 24,
+    });
+    expect(reader.get('198.51.100.23')).toEqual(berlin);
+    expect(reader.get('::ffff:198.51.100.23')).toEqual(berlin);
+    expect(reader.get('2001:db8:1:2::1')).toEqual(berlin);
+  });
+
+  it('should return null for addresses without data', () => {
+    const reader = new MMDBReader(cityDB);
+
+    expect(reader.get('192.0.2.1')).toBeNull();
+    expect(reader.get('203.0.113.200')).toBeNull();
+    expect(reader.get('not-an-ip')).toBeNull();
+  });
+
+  it('should reject files that are not MaxMind databases', () => {
+    expect(() => new MMDBReader(new Uint8Array(64))).toThrow('metadata marker not found');
+  });
+});
+
+describe('GeoLiteProvider', () => {
+  const provider = new GeoLiteProvider({
+    city: new MMDBReader(cityDB),
+    asn: new MMDBReader(asnDB),
+    ranges,
+  });
+
+  it('should combine the City and ASN databases', async () => {
+    expect(await provider.lookup('198.51.100.23')).toMatchObject({
+      country: 'Germany',
+      countryCode: 'DE',
+      region: 'Land Berlin',
+      city: 'Berlin',
+      latitude: 52.5244,
+      timezone: 'Europe/Berlin',
+      postalCode: '10115',
+      asn: 'AS64500',
+      organization: 'Example Hosting',
+    });
+  });
+
+  it('should flag addresses found in the range lists', async () => {
+    expect(await provider.lookup('198.51.100.23')).toMatchObject({
+      isDatacenter: true,
+      isVPN: false,
+      isTor: false,
+    });
+    expect(await provider.lookup('203.0.113.66')).toMatchObject({
+      isDatacenter: false,
+      isVPN: true,
+      isTor: true,
+    });
+    expect(await provider.lookup('2001:db8:1::1')).toMatchObject({ isDatacenter: true });
+  });
+
+  it('should leave out categories without a list', async () => {
+    const record = await provider.lookup('198.51.100.23');
+
+    expect(record).not.toHaveProperty('isProxy');
+    expect(record).not.toHaveProperty('isRelay');
+  });
+
+  it('should fail for addresses no database knows', async () => {
+    const databasesOnly = new GeoLiteProvider({ city: new MMDBReader(cityDB) });
+
+    await expect(databasesOnly.lookup('192.0.2.1')).rejects.toThrow('no record for 192.0.2.1');
+  });
+
+  it('should answer detect on its own, without network access', async () => {
+    const result = await new IPReconciliationService([provider]).detect('203.0.113.66');
+
+    expect(result.geo.countryCode).toBe('NL');
+    expect(result.network).toEqual({
+      isp: 'Example VPN',
+      asn: 'AS64511',
+      organization: 'Example VPN',
+    });
+    expect(result.privacy.isTor).toBe(true);
+    expect(result.sources).toEqual(['geolite2']);
+    expect(result.confidence).toBe(1);
+  });
+});
+
+describe('loadGeoLiteProvider', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'geolite-'));
+    writeFileSync(join(dir, 'GeoLite2-City.mmdb'), cityDB);
+    writeFileSync(join(dir, 'GeoLite2-ASN.mmdb'), asnDB);
+    writeFileSync(join(dir, 'ranges.json'), JSON.stringify(ranges));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read the databases from disk', async () => {
+    const provider = loadGeoLiteProvider({
+      cityPath: join(dir, 'GeoLite2-City.mmdb'),
+      asnPath: join(dir, 'GeoLite2-ASN.mmdb'),
+      rangesPath: join(dir, 'ranges.json'),
+    });
+
+    expect(await provider.lookup('198.51.100.23')).toMatchObject({
+      city: 'Berlin',
+      asn: 'AS64500',
+      isDatacenter: true,
+    });
+  });
+});
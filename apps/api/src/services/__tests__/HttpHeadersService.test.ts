@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { HttpHeadersService, parseBrands } from '../HttpHeadersService';
+
+const CHROME_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
+const CHROME_BRANDS = '"Google Chrome";v="131", "Chromium";v="131", "Not_A Brand";v="24"';
+
+const toHeaders = (entries: Array<[string, string]>) =>
+  entries.map(([name, value]) => ({ name, value }));
+
+describe('HttpHeadersService', () => {
+  const service = new HttpHeadersService();
+
+  it('should echo headers and group client hints and fetch metadata', async () => {
+    const result = await service.analyze({
+      headers: toHeaders([
+        ['Host', 'api.browserleaks.io'],
+        ['sec-ch-ua', CHROME_BRANDS],
+        ['sec-ch-ua-mobile', '?0'],
+        ['sec-ch-ua-platform', '"Windows"'],
+        ['User-Agent', CHROME_UA],
+        ['Sec-Fetch-Site', 'same-site'],
+        ['Sec-Fetch-Mode', 'cors'],
+        ['Accept-Language', 'en-US,en;q=0.9'],
+      ]),
+      orderPreserved: true,
+      connection: { httpProtocol: 'HTTP/2', tlsVersion: 'TLSv1.3' },
+    });
+
+    expect(result.headers[0]).toEqual({ name: 'Host', value: 'api.browserleaks.io' });
+    expect(result.clientHints).toEqual({
+      'sec-ch-ua': CHROME_BRANDS,
+      'sec-ch-ua-mobile': '?0',
+      'sec-ch-ua-platform': '"Windows"',
+    });
+    expect(result.fetchMetadata).toEqual({
+      'sec-fetch-site': 'same-site',
+      'sec-fetch-mode': 'cors',
+    });
+    expect(result.acceptLanguage).toEqual(['en-US', 'en']);
+    expect(result.connection).toEqual({
+      httpProtocol: 'HTTP/2',
+      tlsVersion: 'TLSv1.3',
+      tlsCipher: null,
+    });
+    expect(result.inconsistencies).toEqual([]);
+  });
+
+  it('should fingerprint header order without proxy headers', async () => {
+    const browser = toHeaders([
+      ['Host', 'example.com'],
+      ['User-Agent', CHROME_UA],
+      ['Accept', '*/*'],
+    ]);
+    const proxied = [
+      ...browser.slice(0, 1),
+      { name: 'CF-Connecting-IP', value: '203.0.113.10' },
+      ...browser.slice(1),
+      { name: 'X-Forwarded-For', value: '203.0.113.10' },
+    ];
+
+    const direct = await service.analyze({ headers: browser, orderPreserved: true });
+    const viaProxy = await service.analyze({ headers: proxied, orderPreserved: true });
+    const reordered = await service.analyze({
+      headers: [browser[0], browser[2], browser[1]],
+      orderPreserved: true,
+    });
+
+    expect(direct.headerOrder).toEqual(['host', 'user-agent', 'accept']);
+    expect(direct.orderFingerprint).toMatch(/^[0-9a-f]{64}$/);
+    expect(viaProxy.orderFingerprint).toBe(direct.orderFingerprint);
+    expect(reordered.orderFingerprint).not.toBe(direct.orderFingerprint);
+  });
+
+  it('should not fingerprint an order the runtime sorted', async () => {
+    const result = await service.analyze({
+      headers: toHeaders([
+        ['accept', '*/*'],
+        ['host', 'api.example.com'],
+      ]),
+      orderPreserved: false,
+    });
+
+    expect(result.headerOrder).toEqual(['accept', 'host']);
+    expect(result.orderFingerprint).toBeNull();
+  });
+
+  it('should flag a spoofed platform and version', async () => {
+    const result = await service.analyze({
+      headers: toHeaders([
+        ['user-agent', 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) Chrome/120.0.0.0'],
+        ['sec-ch-ua', CHROME_BRANDS],
+        ['sec-ch-ua-mobile', '?1'],
+        ['sec-ch-ua-platform', '"Windows"'],
+      ]),
+      orderPreserved: true,
+    });
+
+    expect(result.inconsistencies.map((i) => i.check)).toEqual(['version', 'platform', 'mobile']);
+    expect(result.inconsistencies[0]).toMatchObject({ expected: '131', observed: '120' });
+  });
+
+  it('should flag client hints sent with a non-Chromium user agent', async () => {
+    const result = await service.analyze({
+      headers: toHeaders([
+        [
+          'user-agent',
+          'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:133.0) Gecko/20100101 Firefox/133.0',
+        ],
+        ['sec-ch-ua', CHROME_BRANDS],
+      ]),
+      orderPreserved: true,
+    });
+
+    expect(result.inconsistencies[0]).toMatchObject({
+      check: 'brand',
+      severity: 'high',
+      expected: 'Google Chrome, Chromium',
+      observed: 'Firefox',
+    });
+  });
+
+  it('should flag a vendor missing from the brand list', async () => {
+    const result = await service.analyze({
+      headers: toHeaders([
+        ['user-agent', `${CHROME_UA} Edg/131.0.0.0`],
+        ['sec-ch-ua', CHROME_BRANDS],
+      ]),
+      orderPreserved: true,
+    });
+
+    expect(result.inconsistencies).toEqual([
+      expect.objectContaining({ check: 'brand', severity: 'medium', observed: 'Microsoft Edge' }),
+    ]);
+  });
+
+  it('should flag missing client hints only in secure contexts', async () => {
+    const secure = await service.analyze({
+      headers: toHeaders([
+        ['user-agent', CHROME_UA],
+        ['sec-fetch-site', 'cross-site'],
+      ]),
+      orderPreserved: true,
+    });
+    const insecure = await service.analyze({
+      headers: toHeaders([['user-agent', CHROME_UA]]),
+      orderPreserved: true,
+    });
+
+    expect(secure.inconsistencies).toEqual([
+      expect.objectContaining({ check: 'missing-client-hints', severity: 'low' }),
+    ]);
+    expect(insecure.inconsistencies).toEqual([]);
+  });
+});
+
+describe('parseBrands', () => {
+  it('should drop GREASE brands', () => {
+    expect(parseBrands(CHROME_BRANDS)).toEqual([
+      { name: 'Google Chrome', version: '131' },
+      { name: 'Chromium', version: '131' },
+    ]);
+    expect(parseBrands('"Chromium";v="120", " Not A;Brand";v="99"')).toEqual([
+      { name: 'Chromium', version: '120' },
+    ]);
+  });
+});
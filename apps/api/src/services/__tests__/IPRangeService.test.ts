@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest';
+import type { IPLeakResult, IPRangeVerdict } from '@browserleaks/types';
+import { InMemoryIPRangeRepository } from '../../db/IPRangeRepository';
+import {
+  IPRangeService,
+  applyRangeVerdict,
+  parseRangeSource,
+  type IPRangeSource,
+} from '../IPRangeService';
+
+const sources: IPRangeSource[] = [
+  { name: 'tor-exits', category: 'tor', url: 'https://lists.test/tor' },
+  { name: 'aws', category: 'datacenter', url: 'https://lists.test/aws', format: 'aws' },
+  { name: 'hetzner', category: 'datacenter', asns: ['AS24940'] },
+];
+
+const bodies: Record<string, string> = {
+  'https://lists.test/tor': '# exit nodes\n203.0.113.66\n203.0.113.67\n',
+  'https://lists.test/aws': JSON.stringify({
+    prefixes: [{ ip_prefix: '198.51.100.0/24' }],
+    ipv6_prefixes: [{ ipv6_prefix: '2001:db8::/32' }],
+  }),
+};
+
+const fakeFetch = (overrides: Record<string, Response> = {}) =>
+  (async (input: string | URL | Request) => {
+    const url = String(input);
+    return overrides[url] ?? new Response(bodies[url], { status: 200 });
+  }) as typeof fetch;
+
+const refreshedAt = new Date('2026-10-01T00:00:00Z');
+const hoursLater = (hours: number) => new Date(refreshedAt.getTime() + hours * 60 * 60 * 1000);
+
+const makeResult = (privacy: Partial<IPLeakResult['privacy']> = {}): IPLeakResult => ({
+  ip: '203.0.113.66',
+  version: 'ipv4',
+  geo: {
+    country: 'Netherlands',
+    countryCode: 'NL',
+    city: 'Amsterdam',
+    region: 'North Holland',
+    latitude: 52.37,
+    longitude: 4.89,
+    timezone: 'Europe/Amsterdam',
+  },
+  network: { isp: 'Example', asn: 'AS64511', organization: 'Example' },
+  privacy: {
+    isProxy: false,
+    isVPN: false,
+    isTor: false,
+    isDatacenter: false,
+    isRelay: false,
+    ...privacy,
+  },
+  reputation: { score: 100, isBlacklisted: false, categories: [] },
+  provenance: {
+    isTor: { sources: ['my-ip-data', 'ipinfo'], dissent: [], confidence: 1 },
+  },
+});
+
+describe('parseRangeSource', () => {
+  it('should read plain lists, skipping comments and bad entries', () => {
+    expect(
+      parseRangeSource(
+        'lines',
+        '# header\n192.0.2.1\n\n198.51.100.0/24 # cloud\nnot-an-ip\n192.0.2.1\n'
+      )
+    ).toEqual(['192.0.2.1', '198.51.100.0/24']);
+  });
+
+  it('should read the AWS and GCP range files', () => {
+    expect(parseRangeSource('aws', bodies['https://lists.test/aws'])).toEqual([
+      '198.51.100.0/24',
+      '2001:db8::/32',
+    ]);
+    expect(
+      parseRangeSource(
+        'gcp',
+        JSON.stringify({
+          prefixes: [{ ipv4Prefix: '192.0.2.0/24' }, { ipv6Prefix: '2001:db8:1::/48' }],
+        })
+      )
+    ).toEqual(['192.0.2.0/24', '2001:db8:1::/48']);
+  });
+});
+
+describe('IPRangeService', () => {
+  it('should store every source on refresh', async () => {
+    const store = new InMemoryIPRangeRepository();
+    const service = new IPRangeService(store, { sources, fetcher: fakeFetch() });
+
+    const report = await service.refresh(refreshedAt);
+
+    expect(report.failed).toEqual([]);
+    expect(report.updated).toEqual([
+      { name: 'tor-exits', cidrs: 2, asns: 0 },
+      { name: 'aws', cidrs: 2, asns: 0 },
+      { name: 'hetzner', cidrs: 0, asns: 1 },
+    ]);
+    expect(await store.listAll()).toHaveLength(3);
+  });
+
+  it('should keep the previous list when a source fails', async () => {
+    const store = new InMemoryIPRangeRepository();
+    await new IPRangeService(store, { sources, fetcher: fakeFetch() }).refresh(refreshedAt);
+
+    const failing = new IPRangeService(store, {
+      sources,
+      fetcher: fakeFetch({ 'https://lists.test/tor': new Response('', { status: 503 }) }),
+    });
+    const report = await failing.refresh(hoursLater(1));
+
+    expect(report.failed).toEqual([{ name: 'tor-exits', error: 'responded with 503' }]);
+    const tor = (await store.listAll()).find((list) => list.name === 'tor-exits');
+    expect(tor).toMatchObject({ cidrs: ['203.0.113.66', '203.0.113.67'] });
+    expect(tor?.updatedAt).toBe(refreshedAt.toISOString());
+  });
+
+  it('should report the matched list and its age', async () => {
+    const service = new IPRangeService(new InMemoryIPRangeRepository(), {
+      sources,
+      fetcher: fakeFetch(),
+    });
+    await service.refresh(refreshedAt);
+
+    const verdict = await service.check('203.0.113.66', undefined, hoursLater(2));
+
+    expect(verdict).toMatchObject({ isTor: true, isVPN: false, isDatacenter: false });
+    expect(verdict.matches).toEqual([
+      {
+        category: 'tor',
+        list: 'tor-exits',
+        matched: '203.0.113.66',
+        updatedAt: refreshedAt.toISOString(),
+        ageSeconds: 7200,
+        stale: false,
+      },
+    ]);
+  });
+
+  it('should match hosting providers by CIDR or ASN', async () => {
+    const service = new IPRangeService(new InMemoryIPRangeRepository(), {
+      sources,
+      fetcher: fakeFetch(),
+    });
+    await service.refresh(refreshedAt);
+
+    const byCIDR = await service.check('2001:db8:5::1', undefined, hoursLater(1));
+    const byASN = await service.check('192.0.2.10', 'as24940', hoursLater(1));
+    const clean = await service.check('192.0.2.10', 'AS64500', hoursLater(1));
+
+    expect(byCIDR.matches.map((match) => [match.list, match.matched])).toEqual([
+      ['aws', '2001:db8::/32'],
+    ]);
+    expect(byASN.matches.map((match) => [match.list, match.matched])).toEqual([
+      ['hetzner', 'AS24940'],
+    ]);
+    expect(clean).toMatchObject({ isDatacenter: false, matches: [] });
+  });
+
+  it('should flag lists that missed a day of refreshes as stale', async () => {
+    const service = new IPRangeService(new InMemoryIPRangeRepository(), {
+      sources,
+      fetcher: fakeFetch(),
+    });
+    await service.refresh(refreshedAt);
+
+    const verdict = await service.check('198.51.100.7', undefined, hoursLater(30));
+
+    expect(verdict.matches[0]).toMatchObject({ list: 'aws', stale: true, ageSeconds: 108000 });
+  });
+});
+
+describe('applyRangeVerdict', () => {
+  const verdict = (matches: IPRangeVerdict['matches']): IPRangeVerdict => ({
+    ip: '203.0.113.66',
+    isTor: matches.some((match) => match.category === 'tor'),
+    isVPN: matches.some((match) => match.category === 'vpn'),
+    isDatacenter: matches.some((match) => match.category === 'datacenter'),
+    isProxy: false,
+    matches,
+    checkedAt: refreshedAt.toISOString(),
+  });
+  const torMatch = {
+    category: 'tor' as const,
+    list: 'tor-exits',
+    matched: '203.0.113.66',
+    updatedAt: refreshedAt.toISOString(),
+    ageSeconds: 0,
+    stale: false,
+  };
+
+  it('should set flags from list matches and record the list as a source', () => {
+    const result = applyRangeVerdict(makeResult(), verdict([torMatch]));
+
+    expect(result.privacy.isTor).toBe(true);
+    expect(result.provenance?.isTor).toEqual({
+      sources: ['list:tor-exits'],
+      dissent: ['my-ip-data', 'ipinfo'],
+      confidence: 1,
+    });
+    expect(result.ranges?.matches).toHaveLength(1);
+  });
+
+  it('should add the list to providers that already agreed', () => {
+    const result = applyRangeVerdict(makeResult({ isTor: true }), verdict([torMatch]));
+
+    expect(result.provenance?.isTor?.sources).toEqual(['my-ip-data', 'ipinfo', 'list:tor-exits']);
+  });
+
+  it('should never clear a flag when nothing matched', () => {
+    const result = applyRangeVerdict(makeResult({ isVPN: true }), verdict([]));
+
+    expect(result.privacy.isVPN).toBe(true);
+    expect(result.privacy.isTor).toBe(false);
+  });
+});
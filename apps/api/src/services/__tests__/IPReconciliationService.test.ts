@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IPReconciliationService, reconcileIPRecords } from '../IPReconciliationService';
+import {
+  IPInfoProvider,
+  createMockIPProviders,
+  type IPProviderRecord,
+} from '../../clients/IPProviderClients';
+import { InMemoryIPCacheRepository } from '../../db/IPCacheRepository';
+
+const IP = '203.0.113.7';
+
+const berlin: IPProviderRecord = {
+  country: 'Germany',
+  countryCode: 'DE',
+  region: 'Berlin',
+  city: 'Berlin',
+  latitude: 52.52,
+  longitude: 13.4,
+  timezone: 'Europe/Berlin',
+  asn: 'AS64500',
+  organization: 'Example Hosting GmbH',
+  isProxy: false,
+  isVPN: true,
+  isDatacenter: true,
+  isTor: false,
+};
+
+describe('reconcileIPRecords', () => {
+  it('should pick the weighted majority and record who agreed', () => {
+    const result = reconcileIPRecords(IP, [
+      { name: 'my-ip-data', weight: 0.5, record: berlin },
+      {
+        name: 'ipinfo',
+        weight: 0.3,
+        record: {
+          ...berlin,
+          city: 'Frankfurt am Main',
+          latitude: 50.11,
+          longitude: 8.68,
+          isVPN: false,
+        },
+      },
+      { name: 'cloudflare-radar', weight: 0.2, record: { countryCode: 'de', asn: 'AS64500' } },
+    ]);
+
+    expect(result.geo.countryCode).toBe('DE');
+    expect(result.geo.country).toBe('Germany');
+    expect(result.provenance?.country).toEqual({
+      sources: ['my-ip-data', 'ipinfo', 'cloudflare-radar'],
+      dissent: [],
+      confidence: 1,
+    });
+
+    expect(result.geo.city).toBe('Berlin');
+    expect(result.provenance?.city).toEqual({
+      sources: ['my-ip-data'],
+      dissent: ['ipinfo'],
+      confidence: 0.5,
+    });
+    expect(result.geo.latitude).toBeCloseTo(52.52);
+
+    expect(result.privacy.isVPN).toBe(true);
+    expect(result.provenance?.isVPN?.dissent).toEqual(['ipinfo']);
+    expect(result.network.asn).toBe('AS64500');
+    expect(result.sources).toEqual(['my-ip-data', 'ipinfo', 'cloudflare-radar']);
+  });
+
+  it('should let lighter providers outvote a heavier one', () => {
+    const result = reconcileIPRecords(IP, [
+      { name: 'my-ip-data', weight: 0.5, record: { isTor: false } },
+      { name: 'ipinfo', weight: 0.3, record: { isTor: true } },
+      { name: 'cloudflare-radar', weight: 0.3, record: { isTor: true } },
+    ]);
+
+    expect(result.privacy.isTor).toBe(true);
+    expect(result.provenance?.isTor).toEqual({
+      sources: ['ipinfo', 'cloudflare-radar'],
+      dissent: ['my-ip-data'],
+      confidence: 0.55,
+    });
+  });
+
+  it('should average coordinates of providers in the same area', () => {
+    const result = reconcileIPRecords(IP, [
+      { name: 'my-ip-data', weight: 0.5, record: { latitude: 52.5, longitude: 13.4 } },
+      { name: 'ipinfo', weight: 0.5, record: { latitude: 52.3, longitude: 13.2 } },
+    ]);
+
+    expect(result.geo.latitude).toBeCloseTo(52.4);
+    expect(result.geo.longitude).toBeCloseTo(13.3);
+    expect(result.provenance?.location?.confidence).toBe(1);
+  });
+
+  it('should discount fields only some providers know', () => {
+    const result = reconcileIPRecords(IP, [
+      { name: 'my-ip-data', weight: 0.5, record: { countryCode: 'DE' } },
+      { name: 'cloudflare-radar', weight: 0.2, record: { countryCode: 'DE', asn: 'AS64500' } },
+    ]);
+
+    expect(result.provenance?.country?.confidence).toBe(1);
+    expect(result.provenance?.asn?.confidence).toBe(0.29);
+    expect(result.confidence).toBe(0.65);
+    expect(result.geo.city).toBe('Unknown');
+    expect(result.privacy.isVPN).toBe(false);
+    expect(result.provenance?.isVPN).toBeUndefined();
+  });
+});
+
+describe('IPReconciliationService', () => {
+  let cache: InMemoryIPCacheRepository;
+
+  beforeEach(() => {
+    cache = new InMemoryIPCacheRepository();
+  });
+
+  it('should query every provider and cache the reconciled result', async () => {
+    const providers = createMockIPProviders({
+      'my-ip-data': { [IP]: berlin },
+      ipinfo: { [IP]: berlin },
+      'cloudflare-radar': { [IP]: { countryCode: 'DE', asn: 'AS64500' } },
+    });
+    const service = new IPReconciliationService(providers, { cache });
+
+    const first = await service.detect(IP);
+    const second = await service.detect(IP);
+
+    expect(second).toEqual(first);
+    expect(providers.map((provider) => provider.lookups)).toEqual([1, 1, 1]);
+    expect(first.sources).toHaveLength(3);
+  });
+
+  it('should reconcile whatever answered when a provider fails', async () => {
+    const providers = createMockIPProviders({
+      'my-ip-data': {},
+      ipinfo: { [IP]: berlin },
+    });
+
+    const result = await new IPReconciliationService(providers).detect(IP);
+
+    expect(result.sources).toEqual(['ipinfo']);
+    expect(result.provenance?.city?.confidence).toBe(1);
+  });
+
+  it('should fail when no provider answers', async () => {
+    const service = new IPReconciliationService(createMockIPProviders({ ipinfo: {} }), { cache });
+
+    await expect(service.detect(IP)).rejects.toThrow(
+      'All IP intelligence providers failed (ipinfo: no record for 203.0.113.7)'
+    );
+    expect(await cache.get(IP)).toBeNull();
+  });
+
+  it('should still answer when the cache is unavailable', async () => {
+    const broken = {
+      get: vi.fn().mockRejectedValue(new Error('KV unavailable')),
+      put: vi.fn().mockRejectedValue(new Error('KV unavailable')),
+    };
+    const service = new IPReconciliationService(
+      createMockIPProviders({ 'my-ip-data': { [IP]: berlin } }),
+      { cache: broken }
+    );
+
+    expect((await service.detect(IP)).geo.city).toBe('Berlin');
+  });
+});
+
+describe('IPInfoProvider', () => {
+  it('should leave out privacy flags the plan does not return', async () => {
+    const fetcher = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          ip: IP,
+          city: 'Berlin',
+          country: 'DE',
+          loc: '52.5200,13.4050',
+          org: 'AS64500 Example Hosting GmbH',
+          timezone: 'Europe/Berlin',
+        })
+      )
+    );
+
+    const record = await new IPInfoProvider('token', { fetcher }).lookup(IP);
+
+    expect(fetcher.mock.calls[0][0]).toBe(`https://ipinfo.io/${IP}/json?token=token`);
+    expect(record).toMatchObject({
+      countryCode: 'DE',
+      latitude: 52.52,
+      asn: 'AS64500',
+      organization: 'Example Hosting GmbH',
+    });
+    expect(record.isVPN).toBeUndefined();
+    expect(record.isDatacenter).toBeUndefined();
+  });
+});
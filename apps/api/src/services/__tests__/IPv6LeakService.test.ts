@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { IPLeakResult } from '@browserleaks/types';
+import {
+  IPv6LeakService,
+  IPV6_LEAK_TEST_TTL_MS,
+  classifyInterfaceId,
+  formatIPv6Prefix,
+} from '../IPv6LeakService';
+import { InMemoryIPv6LeakRepository } from '../../db/IPv6LeakRepository';
+
+const ORIGINS = {
+  ipv4: 'https://ipv4.leak.test',
+  ipv6: 'https://ipv6.leak.test/',
+  dual: 'https://api.leak.test',
+};
+
+const VPN_V4 = '203.0.113.10';
+const VPN_V6 = '2001:db8:64::10';
+const HOME_V6 = '2001:db8:1:2:3c4d:9a2b:71e6:5f08';
+const HOME_V6_EUI64 = '2001:db8:1:2:0211:22ff:fe33:4455';
+
+const makeIPInfo = (ip: string, asn: string, isp: string, countryCode = 'US'): IPLeakResult => ({
+  ip,
+  version: ip.includes(':') ? 'ipv6' : 'ipv4',
+  geo: {
+    country: '',
+    countryCode,
+    city: '',
+    region: '',
+    latitude: 0,
+    longitude: 0,
+    timezone: '',
+  },
+  network: { isp, asn, organization: isp },
+  privacy: { isProxy: false, isVPN: false, isDatacenter: false, isTor: false, isRelay: false },
+  reputation: { score: 0, isBlacklisted: false, categories: [] },
+});
+
+const IP_INFO: Record<string, IPLeakResult> = {
+  [VPN_V4]: makeIPInfo(VPN_V4, 'AS64500', 'Example VPN'),
+  [VPN_V6]: makeIPInfo(VPN_V6, 'AS64500', 'Example VPN'),
+  [HOME_V6]: makeIPInfo(HOME_V6, 'AS64511', 'Home ISP', 'DE'),
+  [HOME_V6_EUI64]: makeIPInfo(HOME_V6_EUI64, 'AS64511', 'Home ISP', 'DE'),
+};
+
+const lookup = async (ip: string) => {
+  const info = IP_INFO[ip];
+  if (!info) throw new Error(`No IP data for ${ip}`);
+  return info;
+};
+
+describe('IPv6LeakService', () => {
+  let service: IPv6LeakService;
+
+  beforeEach(() => {
+    service = new IPv6LeakService(new InMemoryIPv6LeakRepository(), { origins: ORIGINS, lookup });
+  });
+
+  it('should hand out one probe URL per endpoint', async () => {
+    const test = await service.createTest();
+
+    expect(test.testId).toMatch(/^[a-f0-9]{32}$/);
+    expect(test.probes).toEqual({
+      ipv4: `https://ipv4.leak.test/v1/ipv6-leak/tests/${test.testId}/ipv4`,
+      ipv6: `https://ipv6.leak.test/v1/ipv6-leak/tests/${test.testId}/ipv6`,
+      dual: `https://api.leak.test/v1/ipv6-leak/tests/${test.testId}/dual`,
+    });
+  });
+
+  it('should return null for unknown tests', async () => {
+    expect(await service.collect('0'.repeat(32))).toBeNull();
+  });
+
+  it('should report no leak when both families leave through the VPN', async () => {
+    const { testId } = await service.createTest();
+    await service.recordProbe(testId, 'ipv4', VPN_V4);
+    await service.recordProbe(testId, 'ipv6', VPN_V6);
+    await service.recordProbe(testId, 'dual', VPN_V6);
+
+    const result = await service.collect(testId);
+
+    expect(result).toMatchObject({ isLeak: false, ipv6Reachable: true, preferredFamily: 'ipv6' });
+    expect(result?.ipv6).toMatchObject({
+      prefix: '2001:db8:64::/64',
+      asn: 'AS64500',
+      interfaceId: 'low-entropy',
+      privacyExtensions: false,
+    });
+    expect(result?.risks).toEqual([]);
+  });
+
+  it('should report a leak when IPv6 goes around the tunnel', async () => {
+    const { testId } = await service.createTest();
+    await service.recordProbe(testId, 'ipv4', VPN_V4);
+    await service.recordProbe(testId, 'ipv6', HOME_V6);
+    await service.recordProbe(testId, 'dual', HOME_V6);
+
+    const result = await service.collect(testId);
+
+    expect(result?.isLeak).toBe(true);
+    expect(result?.probes).toEqual([
+      expect.objectContaining({ endpoint: 'ipv4', ip: VPN_V4, asn: 'AS64500' }),
+      expect.objectContaining({ endpoint: 'ipv6', ip: HOME_V6, asn: 'AS64511', isp: 'Home ISP' }),
+      expect.objectContaining({ endpoint: 'dual', version: 'ipv6' }),
+    ]);
+    expect(result?.ipv6).toMatchObject({
+      prefix: '2001:db8:1:2::/64',
+      interfaceId: 'randomized',
+      privacyExtensions: true,
+      rotated: false,
+    });
+    expect(result?.risks[0]).toMatchObject({ severity: 'critical', title: 'IPv6 Leak Detected' });
+    expect(result?.risks[0].description).toContain('Home ISP (AS64511)');
+  });
+
+  it('should recover the MAC address from an EUI-64 interface ID', async () => {
+    const { testId } = await service.createTest();
+    await service.recordProbe(testId, 'ipv4', VPN_V4);
+    await service.recordProbe(testId, 'ipv6', HOME_V6_EUI64);
+
+    const result = await service.collect(testId);
+
+    expect(result?.ipv6).toMatchObject({
+      interfaceId: 'eui64',
+      privacyExtensions: false,
+      macAddress: '00:11:22:33:44:55',
+    });
+    expect(result?.risks.map((risk) => risk.title)).toContain('Hardware Address in IPv6 Address');
+  });
+
+  it('should notice temporary addresses rotating within the test', async () => {
+    const { testId } = await service.createTest();
+    await service.recordProbe(testId, 'ipv6', HOME_V6);
+    await service.recordProbe(testId, 'dual', HOME_V6_EUI64);
+
+    const result = await service.collect(testId);
+
+    expect(result?.ipv6?.rotated).toBe(true);
+  });
+
+  it('should report IPv6 as unreachable when only IPv4 probes arrive', async () => {
+    const { testId } = await service.createTest();
+    await service.recordProbe(testId, 'ipv4', VPN_V4);
+    await service.recordProbe(testId, 'dual', `::ffff:${VPN_V4}`);
+
+    const result = await service.collect(testId);
+
+    expect(result).toMatchObject({ isLeak: false, ipv6Reachable: false, preferredFamily: 'ipv4' });
+    expect(result?.probes[1]).toEqual({ endpoint: 'ipv6', reached: false });
+    expect(result?.probes[2]).toMatchObject({ ip: VPN_V4, version: 'ipv4' });
+    expect(result?.ipv6).toBeUndefined();
+  });
+
+  it('should ignore probes for expired tests and malformed addresses', async () => {
+    const { testId } = await service.createTest();
+    const expired = new Date(Date.now() + IPV6_LEAK_TEST_TTL_MS + 1000);
+
+    expect(await service.recordProbe(testId, 'ipv4', VPN_V4, expired)).toBe(false);
+    expect(await service.recordProbe(testId, 'ipv4', 'unknown')).toBe(false);
+    expect(await service.recordProbe('0'.repeat(32), 'ipv4', VPN_V4)).toBe(false);
+
+    const result = await service.collect(testId);
+    expect(result?.probes.every((probe) => !probe.reached)).toBe(true);
+  });
+});
+
+describe('classifyInterfaceId', () => {
+  it('should tell EUI-64, randomized and hand-assigned interface IDs apart', () => {
+    expect(classifyInterfaceId('fe80::a8bb:ccff:fedd:eeff')).toEqual({
+      type: 'eui64',
+      macAddress: 'aa:bb:cc:dd:ee:ff',
+    });
+    expect(classifyInterfaceId(HOME_V6)).toEqual({ type: 'randomized' });
+    expect(classifyInterfaceId('2001:db8::1')).toEqual({ type: 'low-entropy' });
+    expect(classifyInterfaceId(VPN_V4)).toBeNull();
+  });
+});
+
+describe('formatIPv6Prefix', () => {
+  it('should return the /64 an address sits in', () => {
+    expect(formatIPv6Prefix('2001:DB8:a:b:1:2:3:4')).toBe('2001:db8:a:b::/64');
+    expect(formatIPv6Prefix('not-an-ip')).toBeNull();
+  });
+});
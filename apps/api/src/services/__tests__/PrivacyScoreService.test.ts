@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { PrivacyScoreService } from '../PrivacyScoreService';
+import { SCORING_POLICIES } from '../ScoringPolicy';
 import type { IPLeakResult, DNSLeakResult, WebRTCLeakResult } from '@browserleaks/types';
 
 type PartialIPLeak = Partial<Omit<IPLeakResult, 'geo' | 'network' | 'privacy' | 'reputation'>> & {
@@ -56,6 +57,10 @@ const makeDNSLeak = (overrides: Partial<DNSLeakResult> = {}): DNSLeakResult => {
     testId: 'dns-test',
     isLeak: false,
     leakType: 'none',
+    clientIp: '203.0.113.10',
+    clientAsn: 'AS64500',
+    probeCount: 6,
+    probesResolved: 6,
     servers: [],
     dohEnabled: true,
     dotEnabled: true,
@@ -194,6 +199,36 @@ describe('PrivacyScoreService', () => {
       expect(result.vulnerabilities.some((v) => v.severity === 'critical')).toBe(true);
       expect(result.vulnerabilities.some((v) => v.title === 'IP Blacklisted')).toBe(true);
     });
+
+    it('should count VPN list matches the providers missed', async () => {
+      const mockIPLeak = makeIPLeak({ privacy: { isVPN: false } });
+
+      const result = await service.calculate({
+        ipLeak: mockIPLeak,
+        ipRanges: {
+          ip: mockIPLeak.ip,
+          isTor: false,
+          isVPN: true,
+          isDatacenter: false,
+          isProxy: false,
+          matches: [
+            {
+              category: 'vpn',
+              list: 'x4bnet-vpn',
+              matched: mockIPLeak.ip,
+              updatedAt: '2026-10-01T00:00:00.000Z',
+              ageSeconds: 600,
+              stale: false,
+            },
+          ],
+          checkedAt: '2026-10-01T00:10:00.000Z',
+        },
+      });
+
+      // Same as a provider-detected VPN: 20 - 2 = 18
+      expect(result.breakdown.ipPrivacy).toBe(18);
+      expect(result.vulnerabilities.some((v) => v.title === 'No VPN/Proxy Detected')).toBe(false);
+    });
   });
 
   describe('DNS Privacy Scoring', () => {
@@ -210,7 +245,7 @@ describe('PrivacyScoreService', () => {
       const mockDNSLeak = makeDNSLeak({
         isLeak: true,
         leakType: 'full',
-        servers: [{ ip: '8.8.8.8', country: 'US', countryCode: 'US', isp: 'Google', isISP: true }],
+        servers: [{ ip: '8.8.8.8', country: 'US', countryCode: 'US', isp: 'Google', asn: 'AS64500', isISP: true, queryCount: 1 }],
         dohEnabled: false,
         dotEnabled: false,
         risks: [{ severity: 'high', title: 'DNS queries exposed', description: 'Resolvers outside VPN' }],
@@ -228,7 +263,7 @@ describe('PrivacyScoreService', () => {
       const mockDNSLeak = makeDNSLeak({
         isLeak: true,
         leakType: 'partial',
-        servers: [{ ip: '1.1.1.1', country: 'US', countryCode: 'US', isp: 'Cloudflare', isISP: true }],
+        servers: [{ ip: '1.1.1.1', country: 'US', countryCode: 'US', isp: 'Cloudflare', asn: 'AS64500', isISP: true, queryCount: 1 }],
         dohEnabled: false,
         dotEnabled: false,
         risks: [{ severity: 'high', title: 'Some DNS queries exposed', description: 'Resolver outside VPN' }],
@@ -355,7 +390,7 @@ describe('PrivacyScoreService', () => {
         dnsLeak: makeDNSLeak({
           isLeak: true,
           leakType: 'full',
-          servers: [{ ip: '8.8.8.8', country: 'US', countryCode: 'US', isp: 'Google', isISP: true }],
+          servers: [{ ip: '8.8.8.8', country: 'US', countryCode: 'US', isp: 'Google', asn: 'AS64500', isISP: true, queryCount: 1 }],
           dohEnabled: false,
           dotEnabled: false,
           risks: [{ severity: 'high', title: 'DNS exposed', description: 'Resolvers outside VPN' }],
@@ -391,6 +426,152 @@ describe('PrivacyScoreService', () => {
     });
   });
 
+  describe('Scoring Policies', () => {
+    it('should record the standard policy by default', async () => {
+      const result = await service.calculate({ ipLeak: makeIPLeak() });
+
+      expect(result.policy).toEqual({ name: 'standard', version: '1.0.0' });
+      expect(result.normalized.ipPrivacy).toBe(0.9);
+    });
+
+    it('should weight sections by the selected policy', async () => {
+      const journalist = new PrivacyScoreService(SCORING_POLICIES.journalist);
+      const data = { ipLeak: makeIPLeak(), dnsLeak: makeDNSLeak() };
+
+      const standardResult = await service.calculate(data);
+      const journalistResult = await journalist.calculate(data);
+
+      expect(standardResult.breakdown.ipPrivacy).toBe(18);
+      expect(journalistResult.breakdown.ipPrivacy).toBe(27);
+      expect(journalistResult.breakdown.dnsPrivacy).toBe(20);
+      expect(journalistResult.totalScore).toBe(47);
+      expect(journalistResult.riskLevel).toBe('critical');
+      expect(journalistResult.normalized).toEqual(standardResult.normalized);
+      expect(journalistResult.policy).toEqual({ name: 'journalist', version: '1.0.0' });
+    });
+  });
+
+  describe('Browser Config Scoring', () => {
+    it('should give full score for a hardened browser', async () => {
+      const result = await service.calculate({
+        browserConfig: {
+          globalPrivacyControl: true,
+          doNotTrack: true,
+          thirdPartyCookiesBlocked: true,
+          adBlockEnabled: true,
+          storagePartitioned: true,
+          webrtcPolicy: 'disable_non_proxied_udp',
+          permissions: { geolocation: 'denied', camera: 'prompt' },
+        },
+      });
+
+      expect(result.breakdown.browserConfig).toBe(20);
+      expect(result.vulnerabilities).toHaveLength(0);
+    });
+
+    it('should score only the signals that were reported', async () => {
+      const result = await service.calculate({
+        browserConfig: { doNotTrack: true, adBlockEnabled: true },
+      });
+
+      expect(result.breakdown.browserConfig).toBe(5); // DNT 1 + content blocker 4
+      expect(result.vulnerabilities).toHaveLength(0);
+    });
+
+    it('should report vulnerabilities for a default browser', async () => {
+      const result = await service.calculate({
+        browserConfig: {
+          globalPrivacyControl: false,
+          doNotTrack: false,
+          thirdPartyCookiesBlocked: false,
+          adBlockEnabled: false,
+          storagePartitioned: false,
+          webrtcPolicy: 'default',
+          permissions: { geolocation: 'granted', notifications: 'granted', camera: 'denied' },
+        },
+      });
+
+      expect(result.breakdown.browserConfig).toBe(0);
+      expect(result.vulnerabilities.map((v) => v.title)).toEqual([
+        'Third-Party Cookies Allowed',
+        'No Content Blocker',
+        'Storage Not Partitioned',
+        'Unrestricted WebRTC Policy',
+        'No Opt-Out Signal',
+        'Sensitive Permissions Granted',
+      ]);
+      expect(result.vulnerabilities.every((v) => v.category === 'Browser Config')).toBe(true);
+      expect(result.vulnerabilities[5]).toMatchObject({
+        severity: 'medium',
+        description: 'This site already has access to: geolocation, notifications.',
+      });
+    });
+
+    it('should give partial credit for restricted WebRTC and a single permission', async () => {
+      const result = await service.calculate({
+        browserConfig: {
+          webrtcPolicy: 'default_public_interface_only',
+          permissions: { microphone: 'granted' },
+        },
+      });
+
+      expect(result.breakdown.browserConfig).toBe(3);
+    });
+  });
+
+  describe('Consistency Scoring', () => {
+    const consistency = {
+      consistent: false,
+      checksRun: ['timezone-ip' as const, 'webrtc-ip' as const],
+      mismatches: [
+        {
+          check: 'timezone-ip' as const,
+          severity: 'high' as const,
+          title: 'Timezone Does Not Match IP Location',
+          description: 'Browser timezone differs from the IP location.',
+          expected: 'America/Los_Angeles',
+          observed: 'Europe/Berlin',
+        },
+        {
+          check: 'webrtc-ip' as const,
+          severity: 'medium' as const,
+          title: 'WebRTC Reveals a Different Public IP',
+          description: 'WebRTC discovered another address.',
+          expected: '1.1.1.1',
+          observed: '2001:db8::1',
+        },
+      ],
+    };
+
+    it('should deduct IP privacy points for mismatches', async () => {
+      const result = await service.calculate({ ipLeak: makeIPLeak(), consistency });
+
+      expect(result.breakdown.ipPrivacy).toBe(9); // 18 - 6 (high) - 3 (medium)
+      expect(result.consistency).toEqual(consistency);
+    });
+
+    it('should report mismatches as vulnerabilities', async () => {
+      const result = await service.calculate({ ipLeak: makeIPLeak(), consistency });
+
+      const consistencyVulns = result.vulnerabilities.filter((v) => v.category === 'Consistency');
+      expect(consistencyVulns).toHaveLength(2);
+      expect(consistencyVulns[0]).toMatchObject({
+        severity: 'high',
+        title: 'Timezone Does Not Match IP Location',
+      });
+      expect(consistencyVulns[0].recommendation).toBeTruthy();
+    });
+
+    it('should leave the score unchanged when consistent', async () => {
+      const result = await service.calculate({
+        ipLeak: makeIPLeak(),
+        consistency: { consistent: true, checksRun: ['timezone-ip'], mismatches: [] },
+      });
+
+      expect(result.breakdown.ipPrivacy).toBe(18);
+    });
+  });
+
   describe('Timeline Tracking', () => {
     it('should include timeline with current timestamp', async () => {
       const beforeTime = Date.now();
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  RateLimitService,
+  getRouteCost,
+  DEFAULT_ROUTE_COST,
+  TIER_POLICIES,
+} from '../RateLimitService';
+import { InMemoryRateLimitRepository } from '../../db/RateLimitRepository';
+import type { TokenBucketPolicy } from '../../lib/tokenBucket';
+
+const policies: TokenBucketPolicy[] = [
+  { name: 'minute', limit: 60, windowMs: 60_000, burst: 10 },
+  { name: 'second', limit: 5, windowMs: 1_000, burst: 5 },
+];
+
+describe('RateLimitService', () => {
+  let service: RateLimitService;
+  const now = 1_700_000_000_000;
+
+  beforeEach(() => {
+    service = new RateLimitService(new InMemoryRateLimitRepository(), policies);
+  });
+
+  it('should allow a burst up to the bucket capacity', async () => {
+    const first = await service.check('ip:1', 'GET', '/v1/share/abc', now);
+
+    expect(first).toMatchObject({ allowed: true, cost: 1, policy: 'second', remaining: 4 });
+
+    for (let i = 0; i < 4; i++) {
+      await service.check('ip:1', 'GET', '/v1/share/abc', now);
+    }
+    const denied = await service.check('ip:1', 'GET', '/v1/share/abc', now);
+
+    expect(denied.allowed).toBe(false);
+    expect(denied.policy).toBe('second');
+    expect(denied.retryAfterMs).toBe(200);
+  });
+
+  it('should refill tokens continuously', async () => {
+    for (let i = 0; i < 5; i++) {
+      await service.check('ip:1', 'GET', '/v1/share/abc', now);
+    }
+
+    expect((await service.check('ip:1', 'GET', '/v1/share/abc', now + 100)).allowed).toBe(false);
+    expect((await service.check('ip:1', 'GET', '/v1/share/abc', now + 200)).allowed).toBe(true);
+  });
+
+  it('should charge expensive routes more', async () => {
+    const decision = await service.check('ip:1', 'POST', '/v1/detect/ip', now);
+
+    expect(decision.cost).toBe(3);
+    expect(decision.remaining).toBe(2);
+  });
+
+  it('should cap costs at the bucket capacity', async () => {
+    const decision = await service.check('ip:1', 'POST', '/v1/fingerprint/scan', now);
+
+    expect(decision.allowed).toBe(true);
+    expect(decision.remaining).toBe(0);
+  });
+
+  it('should not charge any bucket when one of them denies', async () => {
+    await service.check('ip:1', 'POST', '/v1/fingerprint', now);
+    await service.check('ip:1', 'POST', '/v1/fingerprint', now + 1_000);
+    // minute bucket is now empty apart from refill; second bucket is full again
+    const denied = await service.check('ip:1', 'POST', '/v1/fingerprint', now + 2_000);
+    const after = await service.peek('ip:1', now + 2_000);
+
+    expect(denied).toMatchObject({ allowed: false, policy: 'minute' });
+    expect(denied.retryAfterMs).toBe(3_000);
+    expect(after.remaining).toBe(2);
+  });
+
+  it('should keep clients apart', async () => {
+    for (let i = 0; i < 5; i++) {
+      await service.check('ip:1', 'GET', '/v1/share/abc', now);
+    }
+
+    expect((await service.check('ip:2', 'GET', '/v1/share/abc', now)).allowed).toBe(true);
+  });
+
+  it('should report full buckets without charging when peeking', async () => {
+    const peeked = await service.peek('ip:1', now);
+    const charged = await service.check('ip:1', 'GET', '/v1/share/abc', now);
+
+    expect(peeked).toMatchObject({ allowed: true, cost: 0, remaining: 10, resetAt: now });
+    expect(charged.remaining).toBe(4);
+  });
+});
+
+describe('TIER_POLICIES', () => {
+  it('should charge route costs to keyed clients too', async () => {
+    const service = new RateLimitService(new InMemoryRateLimitRepository(), TIER_POLICIES.free!);
+    const now = 1_700_000_000_000;
+
+    for (let i = 0; i < 4; i++) {
+      const decision = await service.check('key:a', 'POST', '/v1/fingerprint/scan', now);
+      expect(decision.allowed).toBe(true);
+    }
+
+    expect((await service.check('key:a', 'POST', '/v1/fingerprint/scan', now)).allowed).toBe(false);
+    expect((await service.check('key:b', 'POST', '/v1/fingerprint/scan', now)).allowed).toBe(true);
+  });
+
+  it('should leave internal keys unlimited', () => {
+    expect(TIER_POLICIES.internal).toBeNull();
+  });
+});
+
+describe('getRouteCost', () => {
+  it('should weigh routes by the work they do', () => {
+    expect(getRouteCost('GET', '/v1/share/abc')).toBe(DEFAULT_ROUTE_COST);
+    expect(getRouteCost('POST', '/v1/fingerprint/scan')).toBe(10);
+    expect(getRouteCost('GET', '/v1/detect/ip/8.8.8.8')).toBe(3);
+    expect(getRouteCost('GET', '/v1/privacy-score/policies')).toBe(DEFAULT_ROUTE_COST);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { DNSLeakResult, IPLeakResult, PrivacyScore } from '@browserleaks/types';
+import { ScanHistoryService, parseASNumber, type FullScanInput } from '../ScanHistoryService';
+import { InMemoryScanRepository, MAX_SCANS_PER_VISITOR } from '../../db/ScanRepository';
+
+const VISITOR_ID = 'visitor-0123456789';
+
+const IP_LEAK: IPLeakResult = {
+  ip: '203.0.113.10',
+  version: 'ipv4',
+  geo: {
+    country: 'Germany',
+    countryCode: 'DE',
+    city: 'Berlin',
+    region: 'Berlin',
+    latitude: 52.52,
+    longitude: 13.405,
+    timezone: 'Europe/Berlin',
+  },
+  network: { isp: 'Example VPN', asn: 'AS64500', organization: 'Example VPN GmbH' },
+  privacy: { isProxy: false, isVPN: true, isDatacenter: true, isTor: false, isRelay: false },
+  reputation: { score: 80, isBlacklisted: false, categories: [] },
+  sources: ['ipinfo', 'geolite'],
+};
+
+const DNS_LEAK: DNSLeakResult = {
+  testId: 'dns-test',
+  isLeak: true,
+  leakType: 'full',
+  clientIp: IP_LEAK.ip,
+  clientAsn: 'AS64500',
+  probeCount: 3,
+  probesResolved: 3,
+  servers: [
+    {
+      ip: '198.51.100.53',
+      country: 'Germany',
+      countryCode: 'DE',
+      isp: 'Home ISP',
+      asn: 'AS64511',
+      isISP: true,
+      queryCount: 3,
+    },
+  ],
+  dohEnabled: false,
+  dotEnabled: false,
+  risks: [],
+  recommendations: [],
+};
+
+const PRIVACY_SCORE: PrivacyScore = {
+  totalScore: 55,
+  riskLevel: 'medium',
+  breakdown: {
+    ipPrivacy: 15,
+    dnsPrivacy: 0,
+    webrtcPrivacy: 15,
+    fingerprintResistance: 10,
+    browserConfig: 15,
+  },
+  normalized: {
+    ipPrivacy: 0.75,
+    dnsPrivacy: 0,
+    webrtcPrivacy: 1,
+    fingerprintResistance: 0.3333,
+    browserConfig: 0.75,
+  },
+  policy: { name: 'standard', version: '2' },
+  vulnerabilities: [],
+  timeline: [],
+};
+
+const makeFullScan = (overrides: Partial<FullScanInput> = {}): FullScanInput => ({
+  scanId: 'full-scan',
+  visitorId: VISITOR_ID,
+  sessionId: 'session',
+  userAgent: 'Mozilla/5.0',
+  privacyScore: PRIVACY_SCORE,
+  fingerprint: { combinedHash: 'abc123', uniquenessScore: 0.8, fonts: [], languages: ['de'] },
+  ipLeak: IP_LEAK,
+  dnsLeak: DNS_LEAK,
+  ...overrides,
+});
+
+describe('ScanHistoryService', () => {
+  let store: InMemoryScanRepository;
+  let service: ScanHistoryService;
+
+  beforeEach(() => {
+    store = new InMemoryScanRepository();
+    service = new ScanHistoryService(store);
+  });
+
+  it('should return a saved summary in the shape it was saved', async () => {
+    const scan = {
+      privacyScore: { total: 70, riskLevel: 'low', policy: { name: 'standard', version: '2' } },
+      fingerprint: { uniquenessScore: 0.6, combinedHash: 'abc123' },
+      ip: { address: '203.0.113.10', privacy: { isVpn: true, isProxy: false, isTor: false } },
+      dns: { isLeak: false, leakType: 'none' },
+      webrtc: { isLeak: false },
+    };
+
+    const scanId = await service.save(VISITOR_ID, scan, new Date('2026-01-01T00:00:00Z'));
+
+    expect(scanId).toMatch(/^scan_\d+_[a-z0-9]+$/);
+    expect(await service.get(scanId)).toEqual({
+      id: scanId,
+      timestamp: '2026-01-01T00:00:00.000Z',
+      ...scan,
+      privacyScore: { ...scan.privacyScore, normalized: undefined },
+    });
+  });
+
+  it('should store a full scan in the normalized records', async () => {
+    await service.record(makeFullScan());
+
+    const [stored] = await store.getMany(['full-scan']);
+    expect(stored.ipLeak).toMatchObject({
+      asnNumber: 64500,
+      asnName: 'Example VPN',
+      isVpn: true,
+      dataSource: 'ipinfo,geolite',
+    });
+    expect(stored.dnsLeak).toMatchObject({ leakType: 'full', usingIspDns: true });
+    expect(stored.scoreNormalized).toEqual(PRIVACY_SCORE.normalized);
+
+    const { scans, total } = await service.list(VISITOR_ID, 10, 0);
+    expect(total).toBe(1);
+    expect(scans[0]).toMatchObject({
+      id: 'full-scan',
+      privacyScore: { total: 55, riskLevel: 'medium', policy: PRIVACY_SCORE.policy },
+      ip: { address: IP_LEAK.ip, privacy: { isVpn: true } },
+      dns: { isLeak: true, leakType: 'full' },
+    });
+  });
+
+  it('should find scans across visitors by leak type and ASN', async () => {
+    await service.record(makeFullScan());
+    await service.record(
+      makeFullScan({
+        scanId: 'other-asn',
+        visitorId: 'visitor-9876543210',
+        ipLeak: { ...IP_LEAK, network: { ...IP_LEAK.network, asn: 'AS64501' } },
+      })
+    );
+    await service.record(
+      makeFullScan({ scanId: 'no-leak', dnsLeak: { ...DNS_LEAK, isLeak: false, leakType: 'none' } })
+    );
+
+    const matches = await store.find({ dnsLeakType: 'full', asnNumber: 64500 });
+
+    expect(matches.map((scan) => scan.id)).toEqual(['full-scan']);
+  });
+
+  it('should keep only the newest scans per visitor', async () => {
+    for (let i = 0; i <= MAX_SCANS_PER_VISITOR; i++) {
+      await service.save(VISITOR_ID, {}, new Date(Date.UTC(2026, 0, 1, 0, 0, i)));
+    }
+
+    const { scans, total } = await service.list(VISITOR_ID, 1, MAX_SCANS_PER_VISITOR - 1);
+
+    expect(total).toBe(MAX_SCANS_PER_VISITOR);
+    expect(scans[0].timestamp).toBe('2026-01-01T00:00:01.000Z');
+  });
+
+  it('should only delete scans belonging to the visitor', async () => {
+    const scanId = await service.save(VISITOR_ID, {});
+
+    expect(await service.delete(scanId, 'visitor-9876543210')).toBe(false);
+    expect(await service.delete(scanId, VISITOR_ID)).toBe(true);
+    expect(await service.get(scanId)).toBeNull();
+  });
+});
+
+describe('parseASNumber', () => {
+  it('should accept ASNs with and without the AS prefix', () => {
+    expect(parseASNumber('AS13335')).toBe(13335);
+    expect(parseASNumber('13335')).toBe(13335);
+    expect(parseASNumber('Unknown')).toBeUndefined();
+    expect(parseASNumber(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SCORING_POLICIES,
+  SCORE_SECTIONS,
+  applyScoringPolicy,
+  getScoringPolicy,
+  toComparableScores,
+} from '../ScoringPolicy';
+
+const normalized = {
+  ipPrivacy: 1,
+  dnsPrivacy: 0,
+  webrtcPrivacy: 1,
+  fingerprintResistance: 0.5,
+  browserConfig: 0.25,
+};
+
+describe('ScoringPolicy', () => {
+  it('should declare weights summing to 100 for every policy', () => {
+    for (const policy of Object.values(SCORING_POLICIES)) {
+      const total = SCORE_SECTIONS.reduce((sum, section) => sum + policy.weights[section], 0);
+      expect(total, policy.name).toBe(100);
+      expect(policy.version).toMatch(/^\d+\.\d+\.\d+$/);
+    }
+  });
+
+  it('should resolve policies by name', () => {
+    expect(getScoringPolicy()?.name).toBe('standard');
+    expect(getScoringPolicy('journalist')?.name).toBe('journalist');
+    expect(getScoringPolicy('toString')).toBeUndefined();
+    expect(getScoringPolicy('unknown')).toBeUndefined();
+  });
+
+  it('should weight normalized sections by the policy', () => {
+    expect(applyScoringPolicy(normalized, SCORING_POLICIES.standard)).toEqual({
+      breakdown: {
+        ipPrivacy: 20,
+        dnsPrivacy: 0,
+        webrtcPrivacy: 15,
+        fingerprintResistance: 15,
+        browserConfig: 5,
+      },
+      totalScore: 55,
+      riskLevel: 'high',
+    });
+
+    expect(applyScoringPolicy(normalized, SCORING_POLICIES.casual)).toMatchObject({
+      totalScore: 45,
+      riskLevel: 'high',
+    });
+    expect(applyScoringPolicy(normalized, SCORING_POLICIES.journalist)).toMatchObject({
+      totalScore: 63,
+      riskLevel: 'high',
+    });
+  });
+
+  describe('toComparableScores', () => {
+    it('should re-weight normalized scores with the latest policy', () => {
+      const result = toComparableScores(
+        { total: 55, policy: { name: 'standard', version: '1.0.0' }, normalized },
+        {
+          total: 80,
+          policy: { name: 'journalist', version: '1.0.0' },
+          normalized: { ...normalized, dnsPrivacy: 1 },
+        }
+      );
+
+      expect(result).toEqual({
+        firstScore: 63,
+        lastScore: 83,
+        policy: { name: 'journalist', version: '1.0.0' },
+        comparable: true,
+      });
+    });
+
+    it('should treat unversioned scores as the standard policy', () => {
+      const result = toComparableScores(
+        { total: 40 },
+        { total: 60, policy: { name: 'standard', version: '1.0.0' } }
+      );
+
+      expect(result).toMatchObject({ firstScore: 40, lastScore: 60, comparable: true });
+    });
+
+    it('should flag totals from different policy versions as not comparable', () => {
+      const result = toComparableScores(
+        { total: 40, policy: { name: 'standard', version: '1.0.0' } },
+        { total: 60, policy: { name: 'casual', version: '1.0.0' } }
+      );
+
+      expect(result.comparable).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import { TLSFingerprintService, computeJA3, computeJA4 } from '../TLSFingerprintService';
+import { parseClientHello, readClientHelloMessage } from '../../utils/clientHello';
+
+const u16 = (value: number) => [value >> 8, value & 0xff];
+const u16List = (values: number[]) => values.flatMap(u16);
+const withU16Length = (bytes: number[]) => [...u16(bytes.length), ...bytes];
+const withU8Length = (bytes: number[]) => [bytes.length, ...bytes];
+const ascii = (value: string) => Array.from(value, (char) => char.charCodeAt(0));
+
+interface HelloSpec {
+  ciphers: number[];
+  extensions: Array<[number, number[]]>;
+}
+
+function buildClientHello({ ciphers, extensions }: HelloSpec): Uint8Array {
+  const body = [
+    ...u16(0x0303),
+    ...new Array(32).fill(7), // random
+    ...withU8Length(new Array(32).fill(1)), // session id
+    ...withU16Length(u16List(ciphers)),
+    ...withU8Length([0]), // null compression
+    ...withU16Length(extensions.flatMap(([type, data]) => [...u16(type), ...withU16Length(data)])),
+  ];
+  const handshake = [0x01, 0, ...u16(body.length), ...body];
+  return Uint8Array.from([0x16, 0x03, 0x01, ...u16(handshake.length), ...handshake]);
+}
+
+const sni = (host: string) => withU16Length([0, ...withU16Length(ascii(host))]);
+const alpn = (...protocols: string[]) =>
+  withU16Length(protocols.flatMap((protocol) => withU8Length(ascii(protocol))));
+
+// Chrome's ClientHello layout, including GREASE values and the 0x44cd ALPS extension
+const CHROME_HELLO: HelloSpec = {
+  ciphers: [
+    0x4a4a, 0x1301, 0x1302, 0x1303, 0xc02b, 0xc02f, 0xc02c, 0xc030, 0xcca9, 0xcca8, 0xc013, 0xc014,
+    0x009c, 0x009d, 0x002f, 0x0035,
+  ],
+  extensions: [
+    [0x2a2a, []],
+    [0x0033, []],
+    [0x0000, sni('browserleaks.io')],
+    [0x0017, []],
+    [0x002b, withU8Length(u16List([0x7a7a, 0x0304, 0x0303]))],
+    [
+      0x000d,
+      withU16Length(u16List([0x0403, 0x0804, 0x0401, 0x0503, 0x0805, 0x0501, 0x0806, 0x0601])),
+    ],
+    [0x0010, alpn('h2', 'http/1.1')],
+    [0xff01, [0]],
+    [0x000a, withU16Length(u16List([0x7a7a, 0x11ec, 0x001d, 0x0017, 0x0018]))],
+    [0x000b, withU8Length([0])],
+    [0x0023, []],
+    [0x0005, []],
+    [0x0012, []],
+    [0x002d, []],
+    [0x001b, []],
+    [0x44cd, []],
+    [0xfe0d, []],
+    [0x3a3a, [0]],
+  ],
+};
+
+// curl 7.88 / OpenSSL 3.0, as captured
+const CURL_HELLO: HelloSpec = {
+  ciphers: [
+    0x1302, 0x1303, 0x1301, 0xc02c, 0xc030, 0x009f, 0xcca9, 0xcca8, 0xccaa, 0xc02b, 0xc02f, 0x009e,
+    0xc024, 0xc028, 0x006b, 0xc023, 0xc027, 0x0067, 0xc00a, 0xc014, 0x0039, 0xc009, 0xc013, 0x0033,
+    0x009d, 0x009c, 0x003d, 0x003c, 0x0035, 0x002f, 0x00ff,
+  ],
+  extensions: [
+    [0x0000, sni('browserleaks.io')],
+    [0x000b, withU8Length([0, 1, 2])],
+    [
+      0x000a,
+      withU16Length(
+        u16List([0x001d, 0x0017, 0x001e, 0x0019, 0x0018, 0x0100, 0x0101, 0x0102, 0x0103, 0x0104])
+      ),
+    ],
+    [0x0010, alpn('h2', 'http/1.1')],
+    [0x0016, []],
+    [0x0017, []],
+    [0x0031, []],
+    [
+      0x000d,
+      withU16Length(
+        u16List([
+          0x0403, 0x0503, 0x0603, 0x0807, 0x0808, 0x0809, 0x080a, 0x080b, 0x0804, 0x0805, 0x0806,
+          0x0401, 0x0501, 0x0601, 0x0303, 0x0301, 0x0302, 0x0402, 0x0502, 0x0602,
+        ])
+      ),
+    ],
+    [0x002b, withU8Length(u16List([0x0304, 0x0303]))],
+    [0x002d, withU8Length([1])],
+    [0x0033, []],
+    [0x0015, new Array(16).fill(0)],
+  ],
+};
+
+describe('parseClientHello', () => {
+  it('should read ClientHello fields', () => {
+    const hello = parseClientHello(buildClientHello(CHROME_HELLO));
+
+    expect(hello.legacyVersion).toBe(0x0303);
+    expect(hello.serverName).toBe('browserleaks.io');
+    expect(hello.alpnProtocols).toEqual(['h2', 'http/1.1']);
+    expect(hello.supportedVersions).toEqual([0x7a7a, 0x0304, 0x0303]);
+    expect(hello.extensions).toHaveLength(18);
+  });
+
+  it('should wait for a complete record and reject other protocols', () => {
+    const record = buildClientHello(CURL_HELLO);
+
+    expect(readClientHelloMessage(record.subarray(0, 100))).toBeNull();
+    expect(readClientHelloMessage(record)).not.toBeNull();
+    expect(() => readClientHelloMessage(new TextEncoder().encode('GET / HTTP/1.1'))).toThrow();
+  });
+});
+
+describe('TLS fingerprints', () => {
+  it('should compute the published Chrome JA4', () => {
+    expect(computeJA4(parseClientHello(buildClientHello(CHROME_HELLO)))).toBe(
+      't13d1516h2_8daaf6152771_d8a2da3f94cd'
+    );
+  });
+
+  it('should keep JA3N stable when extensions are shuffled', () => {
+    const shuffled = { ...CHROME_HELLO, extensions: [...CHROME_HELLO.extensions].reverse() };
+
+    const a = computeJA3(parseClientHello(buildClientHello(CHROME_HELLO)));
+    const b = computeJA3(parseClientHello(buildClientHello(shuffled)));
+
+    expect(a.ja3Hash).not.toBe(b.ja3Hash);
+    expect(a.ja3nHash).toBe(b.ja3nHash);
+    expect(a.ja3.split(',')).toEqual([
+      '771',
+      '4865-4866-4867-49195-49199-49196-49200-52393-52392-49171-49172-156-157-47-53',
+      '51-0-23-43-13-16-65281-10-11-35-5-18-45-27-17613-65037',
+      '4588-29-23-24',
+      '0',
+    ]);
+  });
+
+  it('should not let the JA4 depend on extension order', () => {
+    const shuffled = { ...CHROME_HELLO, extensions: [...CHROME_HELLO.extensions].reverse() };
+
+    expect(computeJA4(parseClientHello(buildClientHello(shuffled)))).toBe(
+      computeJA4(parseClientHello(buildClientHello(CHROME_HELLO)))
+    );
+  });
+});
+
+describe('TLSFingerprintService', () => {
+  const service = new TLSFingerprintService();
+  const CHROME_UA =
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
+
+  it('should recognise a browser', () => {
+    const result = service.fromClientHello(buildClientHello(CHROME_HELLO), CHROME_UA);
+
+    expect(result.source).toBe('client-hello');
+    expect(result.match).toEqual({
+      client: 'Chrome / Chromium',
+      category: 'browser',
+      matchedOn: 'ja4',
+    });
+    expect(result.automation).toEqual({ detected: false, reasons: [] });
+    expect(result.clientHello?.tlsVersion).toBe('TLS 1.3');
+    expect(result.clientHello?.cipherSuites[0]).toBe('1301');
+  });
+
+  it('should flag curl pretending to be a browser', () => {
+    const result = service.fromClientHello(buildClientHello(CURL_HELLO), CHROME_UA);
+
+    expect(result.ja4).toBe('t13d3112h2_e8f1e7e78f70_b26ce05bbdd6');
+    expect(result.match).toMatchObject({ client: 'curl', category: 'library' });
+    expect(result.automation.detected).toBe(true);
+    expect(result.automation.reasons).toHaveLength(2);
+  });
+
+  it('should flag headless Chrome despite a browser TLS stack', () => {
+    const result = service.fromEdgeMetadata(
+      { ja4: 't13d1516h2_8daaf6152771_d8a2da3f94cd', ja3Hash: 'abc' },
+      CHROME_UA.replace('Chrome/', 'HeadlessChrome/')
+    );
+
+    expect(result).toMatchObject({ source: 'edge-metadata', ja3Hash: 'abc', clientHello: null });
+    expect(result.match?.category).toBe('browser');
+    expect(result.automation.reasons).toEqual(['User-Agent identifies headless Chrome']);
+  });
+
+  it('should fall back to JA3N when the JA4 is unknown', () => {
+    const custom = new TLSFingerprintService({
+      version: 'test',
+      clients: [{ id: 'x', name: 'Custom', category: 'automation', ja4: 'none', ja3n: 'deadbeef' }],
+    });
+
+    expect(custom.match({ ja4: 'other', ja3nHash: 'deadbeef' })).toEqual({
+      client: 'Custom',
+      category: 'automation',
+      matchedOn: 'ja3n',
+    });
+    expect(custom.match({ ja4: 'other' })).toBeNull();
+  });
+});
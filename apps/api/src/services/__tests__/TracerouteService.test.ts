@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import type { IPLeakResult } from '@browserleaks/types';
+import { TracerouteService } from '../TracerouteService';
+import { TracerouteAgentClient } from '../../clients/TracerouteAgentClient';
+import { createTracerouteAgent, parseTracerouteOutput } from '../../lib/tracerouteAgent';
+
+const RECORDED_OUTPUT = `traceroute to 8.8.8.8 (8.8.8.8), 20 hops max, 60 byte packets
+ 1  192.168.1.1  0.512 ms  0.431 ms  0.402 ms
+ 2  * * *
+ 3  62.115.40.1  8.912 ms  9.104 ms 62.115.40.5  9.330 ms
+ 4  8.8.8.8  12.210 ms !X  11.980 ms  12.004 ms
+`;
+
+function lookupResult(ip: string): IPLeakResult {
+  return {
+    ip,
+    version: 'ipv4',
+    geo: {
+      country: 'Germany',
+      countryCode: 'DE',
+      city: 'Frankfurt',
+      region: 'Hesse',
+      latitude: 50.1,
+      longitude: 8.7,
+      timezone: 'Europe/Berlin',
+    },
+    network: { isp: 'Arelion', asn: 'AS1299', organization: 'Arelion Sweden AB' },
+    privacy: { isProxy: false, isVPN: false, isDatacenter: false, isTor: false, isRelay: false },
+    reputation: { score: 100, isBlacklisted: false, categories: [] },
+  };
+}
+
+describe('parseTracerouteOutput', () => {
+  it('should read addresses, round-trip times and lost probes', () => {
+    expect(parseTracerouteOutput(RECORDED_OUTPUT)).toEqual([
+      { hop: 1, ip: '192.168.1.1', rtts: [0.512, 0.431, 0.402] },
+      { hop: 2, ip: null, rtts: [] },
+      { hop: 3, ip: '62.115.40.1', rtts: [8.912, 9.104, 9.33] },
+      { hop: 4, ip: '8.8.8.8', rtts: [12.21, 11.98, 12.004] },
+    ]);
+  });
+});
+
+describe('TracerouteService', () => {
+  const TOKEN = 'agent-token';
+  let agent: Server;
+  let agentUrl: string;
+  const run = vi.fn(async () => RECORDED_OUTPUT);
+
+  // Local stand-in agent replaying a recorded trace
+  beforeAll(async () => {
+    agent = createTracerouteAgent({ token: TOKEN, name: 'test-agent', run });
+    await new Promise<void>((resolve) => agent.listen(0, '127.0.0.1', resolve));
+    agentUrl = `http://127.0.0.1:${(agent.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => agent.close(resolve));
+  });
+
+  const createClient = (token = TOKEN) => new TracerouteAgentClient({ url: agentUrl, token });
+
+  it('should return measured hops enriched with ASN and geo', async () => {
+    const lookup = vi.fn(async (ip: string) => lookupResult(ip));
+    const service = new TracerouteService(createClient(), { lookup });
+
+    const result = await service.trace('8.8.8.8', 'udp');
+
+    expect(run).toHaveBeenCalledWith('8.8.8.8', 'udp');
+    expect(result).toMatchObject({
+      source: 'measured',
+      protocol: 'udp',
+      target: '8.8.8.8',
+      agent: 'test-agent',
+      reachedTarget: true,
+    });
+    expect(result.hops[0]).toMatchObject({
+      ip: '192.168.1.1',
+      isPrivate: true,
+      asn: null,
+      rtt: 0.402,
+    });
+    expect(result.hops[1]).toMatchObject({ ip: null, rtt: null, location: 'No reply' });
+    expect(result.hops[2]).toMatchObject({
+      asn: 'AS1299',
+      organization: 'Arelion Sweden AB',
+      location: 'Frankfurt, DE',
+    });
+    // Private and silent hops are never looked up
+    expect(lookup.mock.calls.map(([ip]) => ip)).toEqual(['62.115.40.1', '8.8.8.8']);
+  });
+
+  it('should keep hops when enrichment fails', async () => {
+    const service = new TracerouteService(createClient(), {
+      lookup: async () => {
+        throw new Error('lookup failed');
+      },
+    });
+
+    const result = await service.trace('8.8.8.8');
+
+    expect(result.source).toBe('measured');
+    expect(result.hops[2]).toMatchObject({ ip: '62.115.40.1', asn: null, location: 'Unknown' });
+  });
+
+  it('should fall back to a synthetic sample when the agent rejects the request', async () => {
+    const service = new TracerouteService(createClient('wrong-token'), {
+      lookup: async (ip) => lookupResult(ip),
+    });
+
+    const result = await service.trace('8.8.8.8');
+
+    expect(result.source).toBe('synthetic');
+    expect(result.reason).toContain('401');
+    expect(result.agent).toBeNull();
+  });
+
+  it('should not trace without an agent or towards private clients', async () => {
+    const lookup = vi.fn(async (ip: string) => lookupResult(ip));
+    const withoutAgent = new TracerouteService(null, { lookup });
+    const withAgent = new TracerouteService(createClient(), { lookup });
+    run.mockClear();
+
+    expect((await withoutAgent.trace('8.8.8.8')).source).toBe('synthetic');
+    expect(await withAgent.trace('10.0.0.2')).toMatchObject({
+      source: 'synthetic',
+      reason: 'Client address is not publicly routable',
+    });
+    expect(run).not.toHaveBeenCalled();
+    expect(lookup).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Builds small MaxMind-format databases in memory so the reader and the offline
+ * provider can be tested against fixture files without shipping GeoLite2 data.
+ * Supports 24-bit records and the value types GeoLite2 uses; repeated strings are
+ * written once and referenced through pointers, as real databases do.
+ */
+
+import { parseCIDR } from '../../../lib/cidrTrie';
+
+type FixtureValue = string | number | boolean | FixtureValue[] | { [key: string]: FixtureValue };
+
+export interface FixtureEntry {
+  cidr: string; // IPv4 CIDRs are placed under ::/96 of an IPv6 tree
+  record: { [key: string]: FixtureValue };
+}
+
+export interface FixtureOptions {
+  ipVersion?: 4 | 6;
+  databaseType?: string;
+  buildEpoch?: number;
+}
+
+interface TreeNode {
+  children: Array<TreeNode | { data: number } | null>;
+}
+
+class DataWriter {
+  bytes: number[] = [];
+  private strings = new Map<string, number>();
+
+  constructor(private usePointers: boolean) {}
+
+  write(value: FixtureValue): void {
+    if (typeof value === 'string') {
+      const seen = this.strings.get(value);
+      if (this.usePointers && seen !== undefined && seen < 2048) {
+        this.bytes.push((1 << 5) | (seen >> 8), seen & 0xff);
+        return;
+      }
+      this.strings.set(value, this.bytes.length);
+      const encoded = Array.from(new TextEncoder().encode(value));
+      this.control(2, encoded.length);
+      this.bytes.push(...encoded);
+    } else if (typeof value === 'boolean') {
+      this.control(14, value ? 1 : 0);
+    } else if (typeof value === 'number' && !Number.isInteger(value)) {
+      const buffer = new DataView(new ArrayBuffer(8));
+      buffer.setFloat64(0, value);
+      this.control(3, 8);
+      this.bytes.push(...new Uint8Array(buffer.buffer));
+    } else if (typeof value === 'number') {
+      const bytes: number[] = [];
+      for (let rest = value; rest > 0; rest = Math.floor(rest / 256)) bytes.unshift(rest % 256);
+      this.control(value > 0xffff ? 6 : 5, bytes.length);
+      this.bytes.push(...bytes);
+    } else if (Array.isArray(value)) {
+      this.control(11, value.length);
+      value.forEach((item) => this.write(item));
+    } else {
+      const entries = Object.entries(value);
+      this.control(7, entries.length);
+      for (const [key, item] of entries) {
+        this.write(key);
+        this.write(item);
+      }
+    }
+  }
+
+  private control(type: number, size: number): void {
+    const extension: number[] = [];
+    let sizeBits = size;
+    if (size >= 285) {
+      sizeBits = 30;
+      extension.push((size - 285) >> 8, (size - 285) & 0xff);
+    } else if (size >= 29) {
+      sizeBits = 29;
+      extension.push(size - 29);
+    }
+
+    if (type > 7) {
+      this.bytes.push(sizeBits, type - 7, ...extension);
+    } else {
+      this.bytes.push((type << 5) | sizeBits, ...extension);
+    }
+  }
+}
+
+export function buildMMDB(entries: FixtureEntry[], options: FixtureOptions = {}): Uint8Array {
+  const ipVersion = options.ipVersion ?? 6;
+  const root: TreeNode = { children: [null, null] };
+  const data = new DataWriter(true);
+
+  for (const entry of entries) {
+    const parsed = parseCIDR(entry.cidr);
+    if (!parsed) throw new Error(`Bad fixture CIDR ${entry.cidr}`);
+
+    let { bytes, prefix } = parsed;
+    if (ipVersion === 6 && bytes.length === 4) {
+      bytes = Uint8Array.from([...new Array<number>(12).fill(0), ...bytes]);
+      prefix += 96;
+    }
+
+    const offset = data.bytes.length;
+    data.write(entry.record);
+
+    let node = root;
+    for (let bit = 0; bit < prefix; bit++) {
+      const side = (bytes[bit >> 3] >> (7 - (bit & 7))) & 1;
+      if (bit === prefix - 1) {
+        node.children[side] = { data: offset };
+      } else {
+        const child = node.children[side];
+        if (!child || !('children' in child)) node.children[side] = { children: [null, null] };
+        node = node.children[side] as TreeNode;
+      }
+    }
+  }
+
+  // Number nodes breadth first, then write each as two 24-bit records
+  const nodes: TreeNode[] = [root];
+  for (let index = 0; index < nodes.length; index++) {
+    for (const child of nodes[index].children) {
+      if (child && 'children' in child) nodes.push(child);
+    }
+  }
+
+  const tree: number[] = [];
+  for (const node of nodes) {
+    for (const child of node.children) {
+      const record = !child
+        ? nodes.length
+        : 'children' in child
+          ? nodes.indexOf(child)
+          : nodes.length + 16 + child.data;
+      tree.push((record >> 16) & 0xff, (record >> 8) & 0xff, record & 0xff);
+    }
+  }
+
+  const metadata = new DataWriter(false);
+  metadata.write({
+    node_count: nodes.length,
+    record_size: 24,
+    ip_version: ipVersion,
+    database_type: options.databaseType ?? 'GeoLite2-City',
+    languages: ['en'],
+    binary_format_major_version: 2,
+    binary_format_minor_version: 0,
+    build_epoch: options.buildEpoch ?? 1_700_000_000,
+    description: { en: 'BrowserLeaks test fixture' },
+  });
+
+  return Uint8Array.from([
+    ...tree,
+    ...new Array<number>(16).fill(0),
+    ...data.bytes,
+    0xab,
+    0xcd,
+    0xef,
+    ...Array.from('MaxMind.com', (char) => char.charCodeAt(0)),
+    ...metadata.bytes,
+  ]);
+}
@@ -5,7 +5,13 @@
  * Bindings are configured in wrangler.toml and passed to handlers via `env`.
  */
 
-import type { D1Database, KVNamespace, ExecutionContext } from '@cloudflare/workers-types';
+import type {
+  D1Database,
+  DurableObjectNamespace,
+  KVNamespace,
+  ExecutionContext,
+} from '@cloudflare/workers-types';
+import type { ApiKeyRecord } from '../db/ApiKeyRepository';
 
 /**
  * Environment bindings available in the Worker
@@ -16,19 +22,31 @@ export interface Env {
 
   // KV Namespaces
   CACHE: KVNamespace; // For caching IP lookups, fingerprints
-  RATE_LIMIT: KVNamespace; // For rate limiting state
+
+  // Durable Objects
+  RATE_LIMITER: DurableObjectNamespace; // Per-client token buckets (RateLimiterObject)
 
   // Environment Variables (from wrangler.toml [vars])
   NODE_ENV: string;
   CORS_ORIGIN: string;
+  DNS_LEAK_ZONE: string; // zone served by our authoritative nameserver for DNS leak tests
+  IPV4_PROBE_ORIGIN: string; // hostname with only an A record, e.g. https://ipv4.browserleaks.io
+  IPV6_PROBE_ORIGIN: string; // hostname with only an AAAA record
+  DUAL_STACK_PROBE_ORIGIN: string;
 
   // Secrets (set via `wrangler secret put`)
   IPINFO_TOKEN: string;
   JWT_SECRET: string;
+  API_ADMIN_TOKEN?: string; // lets CI and operators manage API keys before an internal key exists
   OPENROUTER_API_KEY?: string;
   CLOUDFLARE_RADAR_TOKEN?: string;
+  MY_IP_DATA_URL?: string; // defaults to the public my-ip-data endpoint
+  IP_RANGE_SOURCES?: string; // JSON array replacing the default Tor / VPN / hosting list sources
   CF_WORKER_DNS_BEACON_URL?: string;
   CF_WORKER_JA3_URL?: string;
+  TLS_CLIENT_HELLO_HEADER?: string; // base64 ClientHello forwarded by a trusted TLS proxy
+  TRACEROUTE_AGENT_URL?: string; // self-hosted probe agent (lib/tracerouteAgent)
+  TRACEROUTE_AGENT_TOKEN?: string;
 }
 
 /**
@@ -40,6 +58,7 @@ export type AppContext = {
     requestId: string;
     clientIP: string;
     startTime: number;
+    apiKey?: ApiKeyRecord; // set when the request carried a valid API key
   };
 };
 
@@ -0,0 +1,208 @@
+/**
+ * Minimal TLS ClientHello parser covering the fields used by JA3 and JA4.
+ * Accepts either TLS records (as read off the wire) or a bare handshake message.
+ */
+
+export interface ClientHello {
+  legacyVersion: number;
+  cipherSuites: number[];
+  extensions: number[]; // in the order sent
+  serverName: string | null;
+  supportedGroups: number[];
+  pointFormats: number[];
+  signatureAlgorithms: number[];
+  alpnProtocols: string[];
+  supportedVersions: number[];
+}
+
+const RECORD_HANDSHAKE = 0x16;
+const HANDSHAKE_CLIENT_HELLO = 0x01;
+const RECORD_HEADER_LENGTH = 5;
+const HANDSHAKE_HEADER_LENGTH = 4;
+
+const EXT_SERVER_NAME = 0x0000;
+const EXT_SUPPORTED_GROUPS = 0x000a;
+const EXT_EC_POINT_FORMATS = 0x000b;
+const EXT_SIGNATURE_ALGORITHMS = 0x000d;
+const EXT_ALPN = 0x0010;
+const EXT_SUPPORTED_VERSIONS = 0x002b;
+
+/**
+ * GREASE values (RFC 8701) are random placeholders such as 0x0a0a or 0x1a1a
+ */
+export function isGrease(value: number): boolean {
+  return (value & 0x0f0f) === 0x0a0a && value >> 8 === (value & 0xff);
+}
+
+/**
+ * Extract the ClientHello handshake message from buffered bytes.
+ * Returns null while more bytes are needed and throws when the data is not a ClientHello.
+ */
+export function readClientHelloMessage(data: Uint8Array): Uint8Array | null {
+  if (data.length === 0) return null;
+  if (data[0] === HANDSHAKE_CLIENT_HELLO) return readHandshake(data);
+  if (data[0] !== RECORD_HANDSHAKE) throw new Error('Not a TLS handshake record');
+
+  // A ClientHello may be fragmented across several handshake records
+  const fragments: Uint8Array[] = [];
+  let offset = 0;
+  let buffered = 0;
+
+  while (offset + RECORD_HEADER_LENGTH <= data.length) {
+    if (data[offset] !== RECORD_HANDSHAKE) throw new Error('Unexpected TLS record type');
+
+    const length = (data[offset + 3] << 8) | data[offset + 4];
+    const end = offset + RECORD_HEADER_LENGTH + length;
+    if (end > data.length) return null;
+
+    fragments.push(data.subarray(offset + RECORD_HEADER_LENGTH, end));
+    buffered += length;
+    offset = end;
+
+    const handshake = readHandshake(concat(fragments, buffered));
+    if (handshake) return handshake;
+  }
+
+  return null;
+}
+
+export function parseClientHello(data: Uint8Array): ClientHello {
+  const message = readClientHelloMessage(data);
+  if (!message) throw new Error('Truncated ClientHello');
+
+  const reader = new ByteReader(message.subarray(HANDSHAKE_HEADER_LENGTH));
+  const legacyVersion = reader.u16();
+  reader.skip(32); // random
+  reader.skip(reader.u8()); // legacy session id
+
+  const cipherSuites = readU16List(reader.bytes(reader.u16()));
+  reader.skip(reader.u8()); // compression methods
+
+  const hello: ClientHello = {
+    legacyVersion,
+    cipherSuites,
+    extensions: [],
+    serverName: null,
+    supportedGroups: [],
+    pointFormats: [],
+    signatureAlgorithms: [],
+    alpnProtocols: [],
+    supportedVersions: [],
+  };
+
+  if (reader.remaining() === 0) return hello;
+
+  const extensions = new ByteReader(reader.bytes(reader.u16()));
+  while (extensions.remaining() > 0) {
+    const type = extensions.u16();
+    const body = new ByteReader(extensions.bytes(extensions.u16()));
+    hello.extensions.push(type);
+
+    switch (type) {
+      case EXT_SERVER_NAME:
+        hello.serverName = readServerName(body);
+        break;
+      case EXT_SUPPORTED_GROUPS:
+        hello.supportedGroups = readU16List(body.bytes(body.u16()));
+        break;
+      case EXT_EC_POINT_FORMATS:
+        hello.pointFormats = Array.from(body.bytes(body.u8()));
+        break;
+      case EXT_SIGNATURE_ALGORITHMS:
+        hello.signatureAlgorithms = readU16List(body.bytes(body.u16()));
+        break;
+      case EXT_ALPN:
+        hello.alpnProtocols = readProtocolNames(new ByteReader(body.bytes(body.u16())));
+        break;
+      case EXT_SUPPORTED_VERSIONS:
+        hello.supportedVersions = readU16List(body.bytes(body.u8()));
+        break;
+    }
+  }
+
+  return hello;
+}
+
+function readHandshake(data: Uint8Array): Uint8Array | null {
+  if (data[0] !== HANDSHAKE_CLIENT_HELLO) throw new Error('Not a ClientHello handshake');
+  if (data.length < HANDSHAKE_HEADER_LENGTH) return null;
+
+  const length = (data[1] << 16) | (data[2] << 8) | data[3];
+  const end = HANDSHAKE_HEADER_LENGTH + length;
+  return data.length >= end ? data.subarray(0, end) : null;
+}
+
+function readServerName(body: ByteReader): string | null {
+  const list = new ByteReader(body.bytes(body.u16()));
+  while (list.remaining() > 0) {
+    const nameType = list.u8();
+    const name = list.bytes(list.u16());
+    if (nameType === 0) return new TextDecoder().decode(name);
+  }
+  return null;
+}
+
+function readProtocolNames(list: ByteReader): string[] {
+  const names: string[] = [];
+  while (list.remaining() > 0) {
+    names.push(new TextDecoder().decode(list.bytes(list.u8())));
+  }
+  return names;
+}
+
+function readU16List(bytes: Uint8Array): number[] {
+  const values: number[] = [];
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    values.push((bytes[i] << 8) | bytes[i + 1]);
+  }
+  return values;
+}
+
+function concat(chunks: Uint8Array[], length: number): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+
+  const joined = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return joined;
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  remaining(): number {
+    return this.data.length - this.offset;
+  }
+
+  u8(): number {
+    this.ensure(1);
+    return this.data[this.offset++];
+  }
+
+  u16(): number {
+    this.ensure(2);
+    const value = (this.data[this.offset] << 8) | this.data[this.offset + 1];
+    this.offset += 2;
+    return value;
+  }
+
+  bytes(length: number): Uint8Array {
+    this.ensure(length);
+    const slice = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  skip(length: number): void {
+    this.bytes(length);
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.data.length) throw new Error('Malformed ClientHello');
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * SHA-256 hex digest using the Web Crypto API (available in Workers and Node 20+)
+ */
+export async function sha256(message: string): Promise<string> {
+  const data = new TextEncoder().encode(message);
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,95 @@
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+// [first octet, second octet lower bound, second octet upper bound]
+const PRIVATE_IPV4_RANGES: Array<[number, number, number]> = [
+  [0, 0, 255], // "this" network
+  [10, 0, 255],
+  [100, 64, 127], // carrier-grade NAT
+  [127, 0, 255], // loopback
+  [169, 254, 254], // link-local
+  [172, 16, 31],
+  [192, 168, 168],
+];
+
+/**
+ * Whether an address is loopback, link-local, RFC 1918, CGNAT or IPv6 unique-local,
+ * i.e. not reachable from the internet. Malformed input counts as private.
+ */
+export function isPrivateAddress(ip: string): boolean {
+  const v4 = ip.match(IPV4_PATTERN);
+  if (v4) {
+    if (v4.slice(1).some((octet) => Number(octet) > 255)) return true;
+    const [first, second] = [Number(v4[1]), Number(v4[2])];
+    return PRIVATE_IPV4_RANGES.some(
+      ([octet, low, high]) => first === octet && second >= low && second <= high
+    );
+  }
+
+  const v6 = ip.toLowerCase();
+  if (!v6.includes(':')) return true;
+  if (v6.startsWith('::ffff:')) return isPrivateAddress(v6.slice('::ffff:'.length));
+
+  return (
+    v6 === '::' ||
+    v6 === '::1' ||
+    /^f[cd][0-9a-f]{2}:/.test(v6) || // fc00::/7
+    /^fe[89ab][0-9a-f]:/.test(v6) // fe80::/10
+  );
+}
+
+/**
+ * Parse an address into its bytes: 4 for IPv4, 16 for IPv6 (IPv4-mapped IPv6
+ * addresses stay 16 bytes). Returns null for anything malformed.
+ */
+export function parseIPAddress(ip: string): Uint8Array | null {
+  const v4 = ip.match(IPV4_PATTERN);
+  if (v4) {
+    const octets = v4.slice(1).map(Number);
+    return octets.every((octet) => octet <= 255) ? Uint8Array.from(octets) : null;
+  }
+
+  const address = ip.split('%')[0].toLowerCase(); // drop any zone id
+  if (!address.includes(':') || address.split('::').length > 2) return null;
+
+  const toGroups = (part: string): number[] | null => {
+    if (part === '') return [];
+    const groups: number[] = [];
+    const pieces = part.split(':');
+    for (const [index, piece] of pieces.entries()) {
+      // An embedded IPv4 address may only end the address
+      if (index === pieces.length - 1 && piece.includes('.')) {
+        const tail = parseIPAddress(piece);
+        if (!tail || tail.length !== 4) return null;
+        groups.push((tail[0] << 8) | tail[1], (tail[2] << 8) | tail[3]);
+      } else if (/^[0-9a-f]{1,4}$/.test(piece)) {
+        groups.push(parseInt(piece, 16));
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const [head, tail] = address.split('::');
+  const headGroups = toGroups(head);
+  const tailGroups = tail === undefined ? [] : toGroups(tail);
+  if (!headGroups || !tailGroups) return null;
+
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (tail === undefined ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...headGroups, ...new Array<number>(missing).fill(0), ...tailGroups];
+  return Uint8Array.from(groups.flatMap((group) => [group >> 8, group & 0xff]));
+}
+
+/**
+ * The IPv4 bytes of an IPv4-mapped IPv6 address (::ffff:a.b.c.d); other addresses unchanged
+ */
+export function unmapIPv4(bytes: Uint8Array): Uint8Array {
+  const mapped =
+    bytes.length === 16 &&
+    bytes.subarray(0, 10).every((byte) => byte === 0) &&
+    bytes[10] === 0xff &&
+    bytes[11] === 0xff;
+  return mapped ? bytes.subarray(12) : bytes;
+}
@@ -0,0 +1,295 @@
+/**
+ * MaxMind DB (MMDB) reader
+ * Decodes the binary search tree and data section of MaxMind-format databases
+ * such as GeoLite2 City and ASN. See https://maxmind.github.io/MaxMind-DB/
+ */
+
+import { parseIPAddress, unmapIPv4 } from './ip';
+
+export interface MMDBMetadata {
+  node_count: number;
+  record_size: 24 | 28 | 32;
+  ip_version: 4 | 6;
+  database_type: string;
+  build_epoch: number;
+  languages?: string[];
+  binary_format_major_version: number;
+  binary_format_minor_version: number;
+  description?: Record<string, string>;
+}
+
+export type MMDBValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Uint8Array
+  | MMDBValue[]
+  | { [key: string]: MMDBValue };
+
+const METADATA_MARKER = Uint8Array.from([
+  0xab,
+  0xcd,
+  0xef,
+  ...Array.from('MaxMind.com', (char) => char.charCodeAt(0)),
+]);
+const METADATA_SEARCH_WINDOW = 128 * 1024;
+const DATA_SECTION_SEPARATOR = 16;
+
+const enum DataType {
+  Extended = 0,
+  Pointer = 1,
+  String = 2,
+  Double = 3,
+  Bytes = 4,
+  Uint16 = 5,
+  Uint32 = 6,
+  Map = 7,
+  Int32 = 8,
+  Uint64 = 9,
+  Uint128 = 10,
+  Array = 11,
+  Container = 12,
+  EndMarker = 13,
+  Boolean = 14,
+  Float = 15,
+}
+
+const utf8 = new TextDecoder();
+
+class Decoder {
+  private view: DataView;
+
+  constructor(
+    private buffer: Uint8Array,
+    private base: number // section start; pointers are relative to it
+  ) {
+    this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  }
+
+  /**
+   * Decode the value at `offset` (relative to the section) and the offset after it
+   */
+  decode(offset: number): { value: MMDBValue; next: number } {
+    let cursor = this.base + offset;
+    const control = this.buffer[cursor++];
+    let type = control >> 5;
+
+    if (type === DataType.Pointer) {
+      const { pointer, next } = this.readPointer(control, cursor);
+      // Pointers never point at pointers, and decoding resumes after the pointer itself
+      return { value: this.decode(pointer).value, next: next - this.base };
+    }
+
+    if (type === DataType.Extended) {
+      type = 7 + this.buffer[cursor++];
+    }
+
+    let size = control & 0x1f;
+    if (size === 29) {
+      size = 29 + this.buffer[cursor++];
+    } else if (size === 30) {
+      size = 285 + this.readUint(cursor, 2);
+      cursor += 2;
+    } else if (size === 31) {
+      size = 65821 + this.readUint(cursor, 3);
+      cursor += 3;
+    }
+
+    const relative = cursor - this.base;
+    switch (type) {
+      case DataType.String:
+        return {
+          value: utf8.decode(this.buffer.subarray(cursor, cursor + size)),
+          next: relative + size,
+        };
+      case DataType.Double:
+        return { value: this.view.getFloat64(cursor), next: relative + 8 };
+      case DataType.Float:
+        return { value: this.view.getFloat32(cursor), next: relative + 4 };
+      case DataType.Bytes:
+        return { value: this.buffer.slice(cursor, cursor + size), next: relative + size };
+      case DataType.Uint16:
+      case DataType.Uint32:
+        return { value: this.readUint(cursor, size), next: relative + size };
+      case DataType.Int32:
+        return { value: this.readInt32(cursor, size), next: relative + size };
+      case DataType.Uint64:
+      case DataType.Uint128:
+        return { value: this.readBigUint(cursor, size), next: relative + size };
+      case DataType.Boolean:
+        return { value: size !== 0, next: relative };
+      case DataType.Map: {
+        const map: Record<string, MMDBValue> = {};
+        let next = relative;
+        for (let index = 0; index < size; index++) {
+          const key = this.decode(next);
+          const value = this.decode(key.next);
+          map[String(key.value)] = value.value;
+          next = value.next;
+        }
+        return { value: map, next };
+      }
+      case DataType.Array: {
+        const items: MMDBValue[] = [];
+        let next = relative;
+        for (let index = 0; index < size; index++) {
+          const item = this.decode(next);
+          items.push(item.value);
+          next = item.next;
+        }
+        return { value: items, next };
+      }
+      default:
+        throw new Error(`Unsupported MMDB data type ${type} at offset ${offset}`);
+    }
+  }
+
+  private readPointer(control: number, cursor: number): { pointer: number; next: number } {
+    const sizeBits = (control >> 3) & 0x3;
+    const high = control & 0x7;
+
+    switch (sizeBits) {
+      case 0:
+        return { pointer: (high << 8) | this.buffer[cursor], next: cursor + 1 };
+      case 1:
+        return { pointer: ((high << 16) | this.readUint(cursor, 2)) + 2048, next: cursor + 2 };
+      case 2:
+        return {
+          pointer: high * 0x1000000 + this.readUint(cursor, 3) + 526336,
+          next: cursor + 3,
+        };
+      default:
+        return { pointer: this.readUint(cursor, 4), next: cursor + 4 };
+    }
+  }
+
+  private readUint(cursor: number, size: number): number {
+    let value = 0;
+    for (let index = 0; index < size; index++) {
+      value = value * 256 + this.buffer[cursor + index];
+    }
+    return value;
+  }
+
+  private readInt32(cursor: number, size: number): number {
+    const value = this.readUint(cursor, size);
+    return size === 4 ? value | 0 : value;
+  }
+
+  private readBigUint(cursor: number, size: number): bigint {
+    let value = 0n;
+    for (let index = 0; index < size; index++) {
+      value = (value << 8n) | BigInt(this.buffer[cursor + index]);
+    }
+    return value;
+  }
+}
+
+function findMetadataStart(buffer: Uint8Array): number {
+  const floor = Math.max(0, buffer.length - METADATA_SEARCH_WINDOW);
+
+  for (let start = buffer.length - METADATA_MARKER.length; start >= floor; start--) {
+    if (METADATA_MARKER.every((byte, index) => buffer[start + index] === byte)) {
+      return start + METADATA_MARKER.length;
+    }
+  }
+
+  throw new Error('Not a MaxMind DB file: metadata marker not found');
+}
+
+/**
+ * Look up addresses in an MMDB file held in memory
+ */
+export class MMDBReader {
+  readonly metadata: MMDBMetadata;
+  private treeSize: number;
+  private nodeBytes: number;
+  private data: Decoder;
+  private ipv4Start = 0;
+
+  constructor(private buffer: Uint8Array) {
+    const metadataStart = findMetadataStart(buffer);
+    this.metadata = new Decoder(buffer, metadataStart).decode(0).value as unknown as MMDBMetadata;
+
+    if (this.metadata.binary_format_major_version !== 2) {
+      throw new Error(
+        `Unsupported MMDB format version ${this.metadata.binary_format_major_version}`
+      );
+    }
+    if (![24, 28, 32].includes(this.metadata.record_size)) {
+      throw new Error(`Unsupported MMDB record size ${this.metadata.record_size}`);
+    }
+
+    this.nodeBytes = (this.metadata.record_size * 2) / 8;
+    this.treeSize = this.nodeBytes * this.metadata.node_count;
+    this.data = new Decoder(buffer, this.treeSize + DATA_SECTION_SEPARATOR);
+
+    // IPv4 addresses live under ::/96 of an IPv6 tree
+    if (this.metadata.ip_version === 6) {
+      let node = 0;
+      for (let bit = 0; bit < 96 && node < this.metadata.node_count; bit++) {
+        node = this.readRecord(node, 0);
+      }
+      this.ipv4Start = node;
+    }
+  }
+
+  /**
+   * The record for an address, or null when the database has none
+   */
+  get<T = MMDBValue>(ip: string): T | null {
+    const parsed = parseIPAddress(ip);
+    if (!parsed) return null;
+
+    const bytes = unmapIPv4(parsed);
+    if (bytes.length === 16 && this.metadata.ip_version === 4) return null;
+
+    const { node_count: nodeCount } = this.metadata;
+    let node = bytes.length === 4 ? this.ipv4Start : 0;
+
+    for (let bit = 0; bit < bytes.length * 8 && node < nodeCount; bit++) {
+      node = this.readRecord(node, (bytes[bit >> 3] >> (7 - (bit & 7))) & 1);
+    }
+
+    if (node <= nodeCount) return null; // equal to node_count means "no data"
+
+    const offset = node - nodeCount - DATA_SECTION_SEPARATOR;
+    return this.data.decode(offset).value as T;
+  }
+
+  private readRecord(node: number, side: number): number {
+    const start = node * this.nodeBytes;
+    const bytes = this.buffer;
+
+    switch (this.metadata.record_size) {
+      case 24: {
+        const at = start + side * 3;
+        return (bytes[at] << 16) | (bytes[at + 1] << 8) | bytes[at + 2];
+      }
+      case 28: {
+        const middle = bytes[start + 3];
+        if (side === 0) {
+          return (
+            ((middle & 0xf0) << 20) |
+            (bytes[start] << 16) |
+            (bytes[start + 1] << 8) |
+            bytes[start + 2]
+          );
+        }
+        return (
+          ((middle & 0x0f) << 24) |
+          (bytes[start + 4] << 16) |
+          (bytes[start + 5] << 8) |
+          bytes[start + 6]
+        );
+      }
+      default: {
+        const at = start + side * 4;
+        return (
+          bytes[at] * 0x1000000 + ((bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3])
+        );
+      }
+    }
+  }
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useCallback, useEffect, useMemo } from 'react';
+import { collectContentBlockerFingerprint, type FilterListMatch } from '@browserleaks/core';
 import { LabShell } from '@/components/layout/LabShell';
 
 interface AdBlockResult {
@@ -10,14 +11,16 @@ interface AdBlockResult {
   aggressiveness: 'none' | 'low' | 'medium' | 'high' | 'extreme';
   testsRun: number;
   testsBlocked: number;
-  details: AdBlockTest[];
+  details: FilterListMatch[];
 }
 
-interface AdBlockTest {
-  name: string;
-  category: 'bait' | 'script' | 'network' | 'css';
-  blocked: boolean;
-  description: string;
+// Each active list adds rules, so more lists means more aggressive blocking
+function getAggressiveness(activeLists: number): AdBlockResult['aggressiveness'] {
+  if (activeLists >= 5) return 'extreme';
+  if (activeLists >= 3) return 'high';
+  if (activeLists === 2) return 'medium';
+  if (activeLists === 1) return 'low';
+  return 'none';
 }
 
 export default function AdBlockDetectionPage() {
@@ -30,138 +33,23 @@ export default function AdBlockDetectionPage() {
     setError(null);
 
     try {
-      const tests: AdBlockTest[] = [];
-      let testsBlocked = 0;
-
-      // Test 1: Bait div with ad-related class names
-      const baitTests = [
-        { name: 'ad-banner', description: 'Generic ad banner class' },
-        { name: 'adsbox', description: 'Common ad container class' },
-        { name: 'ad-placeholder', description: 'Ad placeholder element' },
-        { name: 'sponsored-content', description: 'Sponsored content marker' },
-        { name: 'doubleclick', description: 'DoubleClick ad class' },
-        { name: 'google-ad', description: 'Google Ads class' },
-        { name: 'facebook-ads', description: 'Facebook Ads class' },
-        { name: 'outbrain-widget', description: 'Outbrain native ads' },
-        { name: 'taboola-widget', description: 'Taboola native ads' },
-      ];
-
-      for (const bait of baitTests) {
-        const div = document.createElement('div');
-        div.className = bait.name;
-        div.innerHTML = '&nbsp;';
-        div.style.cssText = 'position:absolute;top:-999px;left:-999px;height:1px;width:1px;';
-        document.body.appendChild(div);
-
-        await new Promise(r => setTimeout(r, 100));
-
-        const isBlocked = div.offsetHeight === 0 ||
-                         div.offsetWidth === 0 ||
-                         div.clientHeight === 0 ||
-                         getComputedStyle(div).display === 'none' ||
-                         getComputedStyle(div).visibility === 'hidden';
-
-        tests.push({
-          name: bait.name,
-          category: 'bait',
-          blocked: isBlocked,
-          description: bait.description,
-        });
-
-        if (isBlocked) testsBlocked++;
-        document.body.removeChild(div);
+      // Bait elements from each filter list's cosmetic rules, shared with the full fingerprint
+      const collected = await collectContentBlockerFingerprint();
+      if (collected.status !== 'success' || !collected.value) {
+        throw new Error(collected.error || 'Content blocker detection is not supported');
       }
 
-      // Test 2: Script-based detection
-      const scriptTests = [
-        { name: 'pagead2.googlesyndication.com', description: 'Google AdSense' },
-        { name: 'static.ads-twitter.com', description: 'Twitter Ads' },
-        { name: 'connect.facebook.net/fbevents.js', description: 'Facebook Pixel' },
-        { name: 'cdn.taboola.com', description: 'Taboola' },
-        { name: 'widgets.outbrain.com', description: 'Outbrain' },
-      ];
-
-      for (const script of scriptTests) {
-        // We simulate detection by checking if specific functions exist
-        // In a real implementation, this would attempt to load the script
-        const wouldBeBlocked = testsBlocked > 3; // Infer from bait test results
-
-        tests.push({
-          name: script.name,
-          category: 'script',
-          blocked: wouldBeBlocked,
-          description: script.description,
-        });
-
-        if (wouldBeBlocked) testsBlocked++;
-      }
-
-      // Test 3: CSS-based detection
-      const styleSheet = document.createElement('style');
-      styleSheet.textContent = `.adsbygoogle { display: block !important; }`;
-      document.head.appendChild(styleSheet);
-
-      const testEl = document.createElement('ins');
-      testEl.className = 'adsbygoogle';
-      testEl.style.cssText = 'display:block;width:1px;height:1px;';
-      document.body.appendChild(testEl);
-
-      await new Promise(r => setTimeout(r, 100));
-
-      const cssBlocked = getComputedStyle(testEl).display === 'none';
-      tests.push({
-        name: 'adsbygoogle-css',
-        category: 'css',
-        blocked: cssBlocked,
-        description: 'AdSense CSS injection test',
-      });
-      if (cssBlocked) testsBlocked++;
-
-      document.body.removeChild(testEl);
-      document.head.removeChild(styleSheet);
-
-      // Determine blocker type and filter lists
-      const detected = testsBlocked > 0;
-      let blockerType: string | null = null;
-      const filterLists: string[] = [];
-
-      if (detected) {
-        // Infer blocker type based on blocking patterns
-        if (testsBlocked > 10) {
-          blockerType = 'uBlock Origin (or similar aggressive blocker)';
-          filterLists.push('EasyList', 'EasyPrivacy', 'uBlock filters');
-        } else if (testsBlocked > 5) {
-          blockerType = 'Adblock Plus or similar';
-          filterLists.push('EasyList', 'Acceptable Ads enabled');
-        } else {
-          blockerType = 'Basic ad blocker or browser built-in';
-          filterLists.push('Default filter list');
-        }
-
-        // Add detected filter lists based on specific blocks
-        const hasFacebookBlocked = tests.find(t => t.name.includes('facebook') && t.blocked);
-        const hasTaboolaBlocked = tests.find(t => t.name.includes('taboola') && t.blocked);
-
-        if (hasFacebookBlocked) filterLists.push('Social media filters');
-        if (hasTaboolaBlocked) filterLists.push('Annoyances filter');
-      }
-
-      // Calculate aggressiveness
-      const blockRate = testsBlocked / tests.length;
-      let aggressiveness: AdBlockResult['aggressiveness'] = 'none';
-      if (blockRate > 0.8) aggressiveness = 'extreme';
-      else if (blockRate > 0.6) aggressiveness = 'high';
-      else if (blockRate > 0.3) aggressiveness = 'medium';
-      else if (blockRate > 0) aggressiveness = 'low';
+      const { adBlocker, detectableBlockers, lists, hiddenSelectors } = collected.value;
+      const activeLists = lists.filter((list) => list.active);
 
       setResult({
-        detected,
-        blockerType,
-        filterLists: [...new Set(filterLists)],
-        aggressiveness,
-        testsRun: tests.length,
-        testsBlocked,
-        details: tests,
+        detected: adBlocker,
+        blockerType: adBlocker ? detectableBlockers.join(' or ') : null,
+        filterLists: activeLists.map((list) => list.name),
+        aggressiveness: getAggressiveness(activeLists.length),
+        testsRun: lists.reduce((sum, list) => sum + list.total, 0),
+        testsBlocked: hiddenSelectors.length,
+        details: lists,
       });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Detection failed');
@@ -295,24 +183,26 @@ export default function AdBlockDetectionPage() {
 
           <div className="lab-panel p-6">
             <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500 mb-4">
-              Test Results ({result?.testsBlocked || 0}/{result?.testsRun || 0} blocked)
+              Filter Lists ({result?.filterLists.length || 0}/{result?.details.length || 0} active)
             </p>
 
             {result?.details && (
               <div className="space-y-2 max-h-80 overflow-y-auto">
-                {result.details.map((test, i) => (
+                {result.details.map((list) => (
                   <div
-                    key={i}
+                    key={list.id}
                     className={`p-3 rounded flex items-center justify-between ${
-                      test.blocked ? 'bg-orange-500/10 border border-orange-500/20' : 'bg-slate-800/40'
+                      list.active ? 'bg-orange-500/10 border border-orange-500/20' : 'bg-slate-800/40'
                     }`}
                   >
                     <div>
-                      <p className="text-sm text-slate-300 font-mono">{test.name}</p>
-                      <p className="text-xs text-slate-500">{test.description}</p>
+                      <p className="text-sm text-slate-300 font-mono">{list.name}</p>
+                      <p className="text-xs text-slate-500">
+                        {list.hidden}/{list.total} bait elements hidden
+                      </p>
                     </div>
-                    <span className={`text-xs font-mono ${test.blocked ? 'text-orange-400' : 'text-cyan-400'}`}>
-                      {test.blocked ? 'BLOCKED' : 'ALLOWED'}
+                    <span className={`text-xs font-mono ${list.active ? 'text-orange-400' : 'text-cyan-400'}`}>
+                      {list.active ? 'ACTIVE' : 'INACTIVE'}
                     </span>
                   </div>
                 ))}
@@ -2,57 +2,23 @@
 
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { LabShell } from '@/components/layout/LabShell';
-
-interface TrackerTest {
-  name: string;
-  category: 'analytics' | 'advertising' | 'social' | 'fingerprint';
-  domain: string;
-  blocked: boolean;
-  description: string;
-  company: string;
-}
+import {
+  probeTrackerBlocking,
+  type TrackerCategory,
+  type TrackerProbe,
+  type TrackerProbeResult,
+  type VerdictConfidence,
+} from '@/lib/tracker-probe';
 
 interface TrackerResult {
   totalTrackers: number;
   blockedTrackers: number;
   protectionLevel: 'none' | 'basic' | 'standard' | 'strict';
-  categories: {
-    analytics: { total: number; blocked: number };
-    advertising: { total: number; blocked: number };
-    social: { total: number; blocked: number };
-    fingerprint: { total: number; blocked: number };
-  };
-  tests: TrackerTest[];
+  categories: TrackerProbeResult['categories'];
+  blockedCategories: TrackerCategory[];
+  tests: TrackerProbe[];
 }
 
-const TRACKER_TESTS: Omit<TrackerTest, 'blocked'>[] = [
-  // Analytics
-  { name: 'Google Analytics', category: 'analytics', domain: 'google-analytics.com', description: 'Website analytics and user behavior tracking', company: 'Google' },
-  { name: 'Google Tag Manager', category: 'analytics', domain: 'googletagmanager.com', description: 'Tag management and analytics orchestration', company: 'Google' },
-  { name: 'Hotjar', category: 'analytics', domain: 'hotjar.com', description: 'Heatmaps, session recording, surveys', company: 'Hotjar' },
-  { name: 'Mixpanel', category: 'analytics', domain: 'mixpanel.com', description: 'Product analytics and user tracking', company: 'Mixpanel' },
-  { name: 'Amplitude', category: 'analytics', domain: 'amplitude.com', description: 'Product analytics platform', company: 'Amplitude' },
-  { name: 'Segment', category: 'analytics', domain: 'segment.io', description: 'Customer data platform', company: 'Twilio' },
-
-  // Advertising
-  { name: 'Google Ads', category: 'advertising', domain: 'googleadservices.com', description: 'Advertising and conversion tracking', company: 'Google' },
-  { name: 'DoubleClick', category: 'advertising', domain: 'doubleclick.net', description: 'Ad serving and tracking', company: 'Google' },
-  { name: 'Facebook Pixel', category: 'advertising', domain: 'facebook.com/tr', description: 'Ad targeting and conversion tracking', company: 'Meta' },
-  { name: 'Criteo', category: 'advertising', domain: 'criteo.com', description: 'Retargeting and personalized ads', company: 'Criteo' },
-  { name: 'Amazon Ads', category: 'advertising', domain: 'amazon-adsystem.com', description: 'Amazon advertising network', company: 'Amazon' },
-
-  // Social
-  { name: 'Facebook Connect', category: 'social', domain: 'connect.facebook.net', description: 'Social login and sharing widgets', company: 'Meta' },
-  { name: 'Twitter Widgets', category: 'social', domain: 'platform.twitter.com', description: 'Tweet embeds and follow buttons', company: 'X Corp' },
-  { name: 'LinkedIn Insights', category: 'social', domain: 'linkedin.com/li', description: 'Professional network tracking', company: 'Microsoft' },
-  { name: 'Pinterest', category: 'social', domain: 'pinimg.com', description: 'Pin buttons and tracking', company: 'Pinterest' },
-
-  // Fingerprinting
-  { name: 'FingerprintJS', category: 'fingerprint', domain: 'fpjs.io', description: 'Browser fingerprinting service', company: 'FingerprintJS' },
-  { name: 'Sift Science', category: 'fingerprint', domain: 'sift.com', description: 'Fraud detection fingerprinting', company: 'Sift' },
-  { name: 'ThreatMetrix', category: 'fingerprint', domain: 'threatmetrix.com', description: 'Device fingerprinting for fraud', company: 'LexisNexis' },
-];
-
 export default function TrackerBlockerPage() {
   const [result, setResult] = useState<TrackerResult | null>(null);
   const [loading, setLoading] = useState(false);
@@ -63,30 +29,11 @@ export default function TrackerBlockerPage() {
     setError(null);
 
     try {
-      const tests: TrackerTest[] = [];
-      const categories = {
-        analytics: { total: 0, blocked: 0 },
-        advertising: { total: 0, blocked: 0 },
-        social: { total: 0, blocked: 0 },
-        fingerprint: { total: 0, blocked: 0 },
-      };
-
-      for (const tracker of TRACKER_TESTS) {
-        categories[tracker.category].total++;
-
-        // Simulate tracker blocking detection
-        // In a real implementation, we'd attempt to load each tracker's script
-        const blocked = await simulateTrackerCheck(tracker.domain);
-
-        if (blocked) {
-          categories[tracker.category].blocked++;
-        }
-
-        tests.push({ ...tracker, blocked });
-      }
-
-      const totalBlocked = Object.values(categories).reduce((sum, cat) => sum + cat.blocked, 0);
-      const totalTrackers = TRACKER_TESTS.length;
+      // First-party requests matching filter list rules; only a blocker can stop them
+      const { probes, categories, blockedCategories } = await probeTrackerBlocking();
+
+      const totalBlocked = probes.filter((probe) => probe.verdict === 'blocked').length;
+      const totalTrackers = probes.length;
       const blockRate = totalBlocked / totalTrackers;
 
       let protectionLevel: TrackerResult['protectionLevel'] = 'none';
@@ -99,7 +46,8 @@ export default function TrackerBlockerPage() {
         blockedTrackers: totalBlocked,
         protectionLevel,
         categories,
-        tests,
+        blockedCategories,
+        tests: probes,
       });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Detection failed');
@@ -140,7 +88,15 @@ export default function TrackerBlockerPage() {
     }
   };
 
-  const getCategoryIcon = (category: TrackerTest['category']) => {
+  const getConfidenceColor = (confidence: VerdictConfidence) => {
+    switch (confidence) {
+      case 'high': return 'text-slate-300';
+      case 'medium': return 'text-yellow-400';
+      default: return 'text-slate-500';
+    }
+  };
+
+  const getCategoryIcon = (category: TrackerCategory) => {
     switch (category) {
       case 'analytics': return '📊';
       case 'advertising': return '📢';
@@ -160,7 +116,8 @@ export default function TrackerBlockerPage() {
           <p className="text-xs uppercase tracking-[0.5em] text-slate-500">Shield Lab</p>
           <h1 className="mt-2 text-4xl font-light text-slate-100">Tracker Blocker Test</h1>
           <p className="mt-2 text-sm text-slate-400">
-            Test which tracking scripts, analytics, and third-party trackers are blocked by your browser.
+            Request first-party copies of tracker URLs that filter lists block, and see which tracker
+            categories your browser stops.
           </p>
         </header>
 
@@ -233,10 +190,13 @@ export default function TrackerBlockerPage() {
                   <div key={category} className="p-3 bg-slate-800/40 rounded">
                     <div className="flex items-center justify-between mb-2">
                       <div className="flex items-center gap-2">
-                        <span>{getCategoryIcon(category as TrackerTest['category'])}</span>
+                        <span>{getCategoryIcon(category as TrackerCategory)}</span>
                         <span className="text-sm text-slate-300 capitalize">{category}</span>
                       </div>
                       <span className="text-xs text-slate-400">
+                        {result.blockedCategories.includes(category as TrackerCategory) && (
+                          <span className="mr-2 font-mono text-cyan-400">BLOCKED</span>
+                        )}
                         {stats.blocked}/{stats.total} blocked
                       </span>
                     </div>
@@ -261,11 +221,12 @@ export default function TrackerBlockerPage() {
             </p>
 
             <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3 max-h-96 overflow-y-auto">
-              {result.tests.map((test, i) => (
+              {result.tests.map((test) => (
                 <div
-                  key={i}
+                  key={test.path}
                   className={`p-3 rounded ${
-                    test.blocked ? 'bg-cyan-500/10 border border-cyan-500/20' : 'bg-orange-500/10 border border-orange-500/20'
+                    test.verdict === 'blocked' ? 'bg-cyan-500/10 border border-cyan-500/20' :
+                    test.verdict === 'allowed' ? 'bg-orange-500/10 border border-orange-500/20' : 'bg-slate-800/40'
                   }`}
                 >
                   <div className="flex items-start justify-between">
@@ -273,11 +234,22 @@ export default function TrackerBlockerPage() {
                       <p className="text-sm text-slate-200">{test.name}</p>
                       <p className="text-xs text-slate-500">{test.company}</p>
                     </div>
-                    <span className={`text-xs font-mono ${test.blocked ? 'text-cyan-400' : 'text-orange-400'}`}>
-                      {test.blocked ? '✓' : '✗'}
+                    <span className={`text-xs font-mono ${
+                      test.verdict === 'blocked' ? 'text-cyan-400' :
+                      test.verdict === 'allowed' ? 'text-orange-400' : 'text-slate-500'
+                    }`}>
+                      {test.verdict === 'blocked' ? '✓' : test.verdict === 'allowed' ? '✗' : '?'}
                     </span>
                   </div>
-                  <p className="text-xs text-slate-500 mt-2">{test.description}</p>
+                  <p className="text-xs text-slate-500 mt-2 font-mono truncate" title={`${test.list}: ${test.rule}`}>
+                    {test.list}: {test.rule}
+                  </p>
+                  <p className="text-xs mt-1">
+                    <span className={getConfidenceColor(test.confidence)}>
+                      {test.confidence} confidence
+                    </span>
+                    <span className="text-slate-600"> · {test.outcome} in {test.elapsedMs}ms</span>
+                  </p>
                 </div>
               ))}
             </div>
@@ -485,47 +457,3 @@ export default function TrackerBlockerPage() {
     </LabShell>
   );
 }
-
-async function simulateTrackerCheck(domain: string): Promise<boolean> {
-  // In a real implementation, we'd attempt to load a resource from each tracker domain
-  // and check if it was blocked. For now, we simulate based on common blocking patterns.
-
-  // Create a test element
-  const testDiv = document.createElement('div');
-  testDiv.className = `tracker-test-${domain.replace(/\./g, '-')}`;
-  testDiv.innerHTML = '&nbsp;';
-  testDiv.style.cssText = 'position:absolute;top:-999px;left:-999px;height:1px;width:1px;';
-  document.body.appendChild(testDiv);
-
-  await new Promise(r => setTimeout(r, 50));
-
-  // Check if element was hidden by content blockers
-  const isBlocked = testDiv.offsetHeight === 0 ||
-                   testDiv.offsetWidth === 0 ||
-                   getComputedStyle(testDiv).display === 'none';
-
-  document.body.removeChild(testDiv);
-
-  // For more accurate detection, try loading an image from the domain
-  return new Promise((resolve) => {
-    const img = new Image();
-    const timeout = setTimeout(() => {
-      resolve(true); // Timeout suggests blocking
-    }, 1000);
-
-    img.onload = () => {
-      clearTimeout(timeout);
-      resolve(false);
-    };
-
-    img.onerror = () => {
-      clearTimeout(timeout);
-      // Error could be blocking or just no image at that URL
-      // Combine with bait element result
-      resolve(isBlocked);
-    };
-
-    // Try to load a common tracking pixel pattern
-    img.src = `https://${domain}/pixel.gif?t=${Date.now()}`;
-  });
-}
@@ -0,0 +1,238 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { collectAutomationFingerprint, type AutomationFingerprint } from '@browserleaks/core';
+import type { AutomationReport, BotLikelihood } from '@browserleaks/types';
+import { LabShell } from '@/components/layout/LabShell';
+import { apiClient } from '@/lib/api';
+
+export default function AutomationDetectionPage() {
+  const [signals, setSignals] = useState<AutomationFingerprint | null>(null);
+  const [report, setReport] = useState<AutomationReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runTest = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    setReport(null);
+
+    try {
+      const collected = await collectAutomationFingerprint();
+      if (collected.status !== 'success' || !collected.value) {
+        throw new Error(collected.error || 'Automation detection is not supported');
+      }
+      setSignals(collected.value);
+
+      // The API adds the request headers, which page scripts cannot patch
+      const response = await apiClient.detectAutomation(collected.value);
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Automation analysis failed');
+      }
+      setReport(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Automation detection failed');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    runTest();
+  }, [runTest]);
+
+  const getLikelihoodColor = (likelihood: BotLikelihood | undefined) => {
+    switch (likelihood) {
+      case 'bot': return 'text-red-400';
+      case 'likely-bot': return 'text-orange-400';
+      case 'suspicious': return 'text-yellow-400';
+      default: return 'text-cyan-400';
+    }
+  };
+
+  const statusReadings = [
+    {
+      label: 'Bot Score',
+      value: report ? `${report.score}/100` : loading ? 'SCANNING' : '---',
+      tone: report && report.score >= 50 ? 'alert' as const : 'active' as const,
+    },
+    {
+      label: 'Verdict',
+      value: report?.likelihood.replace('-', ' ').toUpperCase() || '---',
+      tone: report && report.likelihood !== 'human' ? 'alert' as const : 'neutral' as const,
+    },
+    {
+      label: 'Evidence',
+      value: report ? report.evidence.length.toString() : '---',
+      tone: report?.evidence.length ? 'alert' as const : 'neutral' as const,
+    },
+  ];
+
+  const signalRows: Array<[string, string, boolean]> = signals ? [
+    ['navigator.webdriver', String(signals.webdriver), signals.webdriver === true],
+    ['DevTools protocol', signals.cdpRuntime ? 'Attached' : 'Not seen', signals.cdpRuntime],
+    ['Headless traits', signals.headlessTraits.join(', ') || 'None', signals.headlessTraits.length > 0],
+    ['Stealth leftovers', signals.stealthLeftovers.join(', ') || 'None', signals.stealthLeftovers.length > 0],
+    ['Automation globals', signals.automationGlobals.join(', ') || 'None', signals.automationGlobals.length > 0],
+    ['Worker mismatches', signals.workerMismatches.join(', ') || 'None', signals.workerMismatches.length > 0],
+  ] : [];
+
+  return (
+    <LabShell
+      statusReadings={statusReadings}
+      diagnosticsRunning={loading}
+      onRunDiagnostics={runTest}
+    >
+      <div className="space-y-10">
+        <header>
+          <p className="text-xs uppercase tracking-[0.5em] text-slate-500">Identity Lab</p>
+          <h1 className="mt-2 text-4xl font-light text-slate-100">Bot &amp; Automation Detection</h1>
+          <p className="mt-2 text-sm text-slate-400">
+            Check whether your browser gives away WebDriver, DevTools protocol, headless mode or
+            stealth patches, the way bot detection services see it.
+          </p>
+        </header>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="lab-panel p-6">
+            <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500 mb-4">
+              Bot Likelihood
+            </p>
+
+            {report ? (
+              <div className="space-y-4">
+                <div className="p-4 bg-slate-800/50 rounded">
+                  <p
+                    data-testid="bot-likelihood"
+                    className={`text-2xl font-mono ${getLikelihoodColor(report.likelihood)}`}
+                  >
+                    {report.likelihood.replace('-', ' ').toUpperCase()}
+                  </p>
+                  <p className="text-xs text-slate-500 mt-1">Score {report.score}/100</p>
+                  <div className="mt-2 h-2 bg-slate-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-orange-500 transition-all duration-500"
+                      style={{ width: `${report.score}%` }}
+                    />
+                  </div>
+                </div>
+
+                {report.framework && (
+                  <div className="p-4 bg-orange-500/10 border border-orange-500/30 rounded">
+                    <p className="text-xs text-slate-500 mb-1">Identified Framework</p>
+                    <p className="text-sm text-orange-300">{report.framework}</p>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="h-32 flex items-center justify-center text-slate-500">
+                {loading ? 'Analyzing automation signals...' : 'No analysis available'}
+              </div>
+            )}
+
+            {error && (
+              <div className="mt-4 p-4 bg-red-500/10 border border-red-500/30 rounded">
+                <p className="text-sm text-red-300">{error}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="lab-panel p-6">
+            <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500 mb-4">
+              Browser Signals
+            </p>
+
+            <div className="space-y-1">
+              {signalRows.map(([label, value, flagged]) => (
+                <div
+                  key={label}
+                  data-testid={`signal-${label}`}
+                  className="flex items-center justify-between gap-4 py-2 border-b border-slate-800/60 last:border-none"
+                >
+                  <span className="text-sm text-slate-400">{label}</span>
+                  <span className={`font-mono text-xs text-right break-all ${flagged ? 'text-orange-400' : 'text-cyan-200'}`}>
+                    {value}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {report && report.evidence.length > 0 && (
+          <div className="lab-panel p-6">
+            <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500 mb-4">
+              Evidence
+            </p>
+
+            <div className="space-y-2" data-testid="automation-evidence">
+              {report.evidence.map((entry) => (
+                <div key={`${entry.check}-${entry.signal}`} className="p-3 bg-slate-800/40 rounded">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-slate-200">{entry.title}</p>
+                    <span className="text-xs font-mono text-orange-400">+{entry.weight}</span>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">{entry.description}</p>
+                  <p className="text-xs text-slate-600 mt-1 font-mono">
+                    {entry.source === 'request' ? 'Request header' : 'Browser'} · {entry.signal}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <section className="lab-panel p-8">
+          <h2 className="text-2xl font-light text-slate-100 mb-6">
+            Automation Detection: How Sites Spot Bots
+          </h2>
+
+          <div className="prose prose-invert prose-sm max-w-none text-slate-400 space-y-6">
+            <p className="text-lg text-slate-300">
+              Scrapers, test runners and credential stuffing tools all drive real browsers through
+              WebDriver or the Chrome DevTools Protocol. The browser works the same, but the
+              automation leaves traces that anti-bot services look for on every page load.
+            </p>
+
+            <h3 className="text-xl text-slate-200 mt-8">What This Test Checks</h3>
+            <ul className="list-disc pl-6 space-y-2">
+              <li>
+                <strong className="text-slate-300">navigator.webdriver</strong> — Set to true by
+                browsers under WebDriver, Puppeteer and Playwright control.
+              </li>
+              <li>
+                <strong className="text-slate-300">DevTools protocol</strong> — A client that enabled
+                the Runtime domain serializes console arguments, which a page can observe.
+              </li>
+              <li>
+                <strong className="text-slate-300">Headless traits</strong> — HeadlessChrome in the
+                User-Agent, no plugins, zero window size and contradictory permissions.
+              </li>
+              <li>
+                <strong className="text-slate-300">Stealth leftovers</strong> — Evasion plugins patch
+                navigator and iframes, and the patches themselves can be detected.
+              </li>
+              <li>
+                <strong className="text-slate-300">Driver globals</strong> — Properties such as
+                chromedriver&apos;s <code className="bg-slate-800 px-1 rounded">$cdc_</code> key or
+                Playwright&apos;s bindings.
+              </li>
+              <li>
+                <strong className="text-slate-300">Worker mismatches</strong> — Init scripts rarely
+                reach Web Workers, so a worker still sees the unpatched values.
+              </li>
+            </ul>
+
+            <h3 className="text-xl text-slate-200 mt-8">Reading the Score</h3>
+            <p>
+              Every finding adds its weight to a score out of 100. An open DevTools window alone
+              reads as suspicious, while a WebDriver flag or driver globals are near-certain signs
+              of automation. Use the evidence list to see exactly which trace a hardened setup
+              still leaks.
+            </p>
+          </div>
+        </section>
+      </div>
+    </LabShell>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { LabShell } from '@/components/layout/LabShell';
+import {
+  EXTENSION_CATALOGUE,
+  probeExtensions,
+  type DetectionMethod,
+  type ExtensionCategory,
+  type ExtensionProbeResult,
+} from '@/lib/extension-probe';
+
+const CATEGORY_LABELS: Record<ExtensionCategory, string> = {
+  'password-manager': 'Password Managers',
+  'ad-blocker': 'Ad Blockers',
+  'crypto-wallet': 'Crypto Wallets',
+  'writing-assistant': 'Writing Assistants',
+  appearance: 'Appearance',
+};
+
+const METHOD_LABELS: Record<DetectionMethod, string> = {
+  'web-accessible-resource': 'Resource probe',
+  'dom-mutation': 'DOM mutation',
+  'injected-global': 'Injected global',
+  'injected-style': 'Injected style',
+};
+
+export default function ExtensionDetectionPage() {
+  const [result, setResult] = useState<ExtensionProbeResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runDetection = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setResult(await probeExtensions());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Detection failed');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    runDetection();
+  }, [runDetection]);
+
+  const statusReadings = useMemo(() => [
+    {
+      label: 'Detected',
+      value: result ? `${result.detected.length}/${result.checked}` : 'SCANNING',
+      tone: result?.detected.length ? 'alert' as const : 'active' as const,
+    },
+    {
+      label: 'Unknown',
+      value: result ? result.unknownOrigins.length.toString() : '---',
+      tone: result?.unknownOrigins.length ? 'alert' as const : 'neutral' as const,
+    },
+    {
+      label: 'Catalogue',
+      value: EXTENSION_CATALOGUE.version,
+      tone: 'neutral' as const,
+    },
+  ], [result]);
+
+  const detectedIds = new Set(result?.detected.map((extension) => extension.id));
+
+  return (
+    <LabShell
+      statusReadings={statusReadings}
+      diagnosticsRunning={loading}
+      onRunDiagnostics={runDetection}
+    >
+      <div className="space-y-10">
+        <header>
+          <p className="text-xs uppercase tracking-[0.5em] text-slate-500">Identity Lab</p>
+          <h1 className="mt-2 text-4xl font-light text-slate-100">Extension Detection</h1>
+          <p className="mt-2 text-sm text-slate-400">
+            See which of your installed extensions any page can enumerate, and the trace that gave
+            each one away.
+          </p>
+        </header>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="lab-panel p-6">
+            <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500 mb-4">
+              Detected Extensions
+            </p>
+
+            {loading ? (
+              <div className="h-48 flex items-center justify-center text-slate-500">
+                Probing extensions...
+              </div>
+            ) : result ? (
+              <div className="space-y-3" data-testid="detected-extensions">
+                {result.detected.length === 0 && (
+                  <div className="p-4 bg-green-500/10 border border-green-500/30 rounded">
+                    <p className="text-sm text-green-300">
+                      None of the {result.checked} catalogued extensions were detected.
+                    </p>
+                  </div>
+                )}
+
+                {result.detected.map((extension) => (
+                  <div
+                    key={extension.id}
+                    data-testid={`extension-${extension.id}`}
+                    className="p-4 bg-orange-500/10 border border-orange-500/30 rounded"
+                  >
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm text-orange-300">{extension.name}</p>
+                      <span className="text-xs text-slate-500">
+                        {CATEGORY_LABELS[extension.category]}
+                      </span>
+                    </div>
+                    <div className="mt-2 space-y-1">
+                      {extension.matches.map((match) => (
+                        <p key={`${match.method}-${match.detail}`} className="text-xs font-mono">
+                          <span className="text-slate-400">{METHOD_LABELS[match.method]}</span>
+                          <span className="text-slate-600"> · </span>
+                          <span className="text-cyan-200 break-all">{match.detail}</span>
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+
+                {result.unknownOrigins.length > 0 && (
+                  <div className="p-4 bg-slate-800/50 rounded">
+                    <p className="text-xs text-slate-500 mb-2">Uncatalogued extension origins</p>
+                    {result.unknownOrigins.map((origin) => (
+                      <p key={origin} className="text-xs font-mono text-yellow-300 break-all">
+                        {origin}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                <p className="text-xs text-slate-500">
+                  {result.resourceProbes} resource probes, {result.mutationsObserved} DOM mutations
+                  observed in {result.durationMs}ms
+                </p>
+              </div>
+            ) : null}
+
+            {error && (
+              <div className="mt-4 p-4 bg-red-500/10 border border-red-500/30 rounded">
+                <p className="text-sm text-red-300">{error}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="lab-panel p-6">
+            <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500 mb-4">
+              Catalogue v{EXTENSION_CATALOGUE.version}
+            </p>
+
+            <div className="space-y-4">
+              {(Object.keys(CATEGORY_LABELS) as ExtensionCategory[]).map((category) => (
+                <div key={category}>
+                  <p className="text-xs text-slate-500 mb-1">{CATEGORY_LABELS[category]}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {EXTENSION_CATALOGUE.extensions
+                      .filter((extension) => extension.category === category)
+                      .map((extension) => (
+                        <span
+                          key={extension.id}
+                          title={extension.notes}
+                          className={`px-2 py-1 rounded text-xs font-mono ${
+                            detectedIds.has(extension.id)
+                              ? 'bg-orange-500/20 text-orange-300'
+                              : 'bg-slate-800/60 text-slate-400'
+                          }`}
+                        >
+                          {extension.name}
+                        </span>
+                      ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <section className="lab-panel p-8">
+          <h2 className="text-2xl font-light text-slate-100 mb-6">
+            Extension Detection: Your Add-ons as a Fingerprint
+          </h2>
+
+          <div className="prose prose-invert prose-sm max-w-none text-slate-400 space-y-6">
+            <p className="text-lg text-slate-300">
+              Browsers do not tell pages which extensions are installed, but extensions have to
+              touch the page to do their job. The set of extensions a page can see is rare enough
+              to narrow down who you are, and some of them, like crypto wallets, make you a target.
+            </p>
+
+            <h3 className="text-xl text-slate-200 mt-8">Detection Methods</h3>
+            <ul className="list-disc pl-6 space-y-2">
+              <li>
+                <strong className="text-slate-300">Resource probes</strong> — Files an extension
+                lists in <code className="bg-slate-800 px-1 rounded">web_accessible_resources</code>
+                {' '}load from its fixed <code className="bg-slate-800 px-1 rounded">chrome-extension://</code>
+                {' '}origin. Firefox and Safari use a random origin per install, which defeats this.
+              </li>
+              <li>
+                <strong className="text-slate-300">DOM mutations</strong> — Password managers and
+                writing assistants add icons, menus and attributes to forms. This test plants a
+                decoy login form and watches what gets added to it.
+              </li>
+              <li>
+                <strong className="text-slate-300">Injected globals</strong> — Wallets expose their
+                providers to every page, such as <code className="bg-slate-800 px-1 rounded">window.ethereum</code>.
+              </li>
+              <li>
+                <strong className="text-slate-300">Injected styles</strong> — Theme extensions
+                rewrite colors with style sheets that carry their own names.
+              </li>
+            </ul>
+
+            <h3 className="text-xl text-slate-200 mt-8">Reducing Exposure</h3>
+            <p>
+              Keep extensions to the ones you need, and restrict them to specific sites where the
+              browser allows it. Extensions that only act when you click them stay invisible until
+              you do.
+            </p>
+          </div>
+        </section>
+      </div>
+    </LabShell>
+  );
+}
@@ -0,0 +1,18 @@
+import { PROBE_MARKER } from '@/lib/tracker-probe';
+
+/**
+ * First-party stand-ins for tracker resources, requested by the tracker
+ * blocking test. Every path answers with the same marker, so a request that
+ * fails or comes back with anything else was interfered with on the way.
+ */
+export const dynamic = 'force-dynamic';
+
+export function GET() {
+  return new Response(PROBE_MARKER, {
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'no-store',
+      'X-Robots-Tag': 'noindex',
+    },
+  });
+}
@@ -1,63 +1,36 @@
 'use client';
 
 import { useState, useCallback, useEffect, useMemo } from 'react';
+import type { HttpHeadersResult, RiskLevel } from '@browserleaks/types';
 import { LabShell } from '@/components/layout/LabShell';
+import { apiClient } from '@/lib/api';
 
-interface HttpHeadersResult {
-  headers: Record<string, string>;
-  http2PseudoHeaders: {
-    method: string;
-    authority: string;
-    scheme: string;
-    path: string;
-    order: string[];
-  };
-  priorityFrame: {
-    weight: number;
-    dependency: number;
-    exclusive: boolean;
-  } | null;
-  fingerprint: string;
-  uniqueness: number;
-  clientHints: Record<string, string>;
-  acceptLanguage: string[];
-  secHeaders: Record<string, string>;
-}
+const SEVERITY_STYLES: Record<RiskLevel, string> = {
+  critical: 'bg-red-500/10 border-red-500/30 text-red-300',
+  high: 'bg-orange-500/10 border-orange-500/30 text-orange-300',
+  medium: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-300',
+  low: 'bg-slate-500/10 border-slate-500/30 text-slate-300',
+};
 
 export default function HttpHeadersPage() {
   const [result, setResult] = useState<HttpHeadersResult | null>(null);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const runTest = useCallback(async () => {
     setLoading(true);
+    setError(null);
 
     try {
-      // Call API to get server-observed headers
-      const response = await fetch('/api/http-headers', {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        // Fallback to simulated data
-        const simulated = simulateHttpHeaders();
-        setResult(simulated);
-        return;
-      }
-
-      const data = await response.json();
-      if (data.success) {
-        setResult(data.data);
-      } else {
-        const simulated = simulateHttpHeaders();
-        setResult(simulated);
+      // Headers as observed by the API server
+      const response = await apiClient.getHttpHeaders();
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to capture HTTP headers');
       }
-    } catch {
-      // Use simulated data for demo
-      const simulated = simulateHttpHeaders();
-      setResult(simulated);
+      setResult(response.data);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Failed to capture HTTP headers');
     } finally {
       setLoading(false);
     }
@@ -70,23 +43,23 @@ export default function HttpHeadersPage() {
   const statusReadings = useMemo(() => [
     {
       label: 'Headers',
-      value: result?.headers ? Object.keys(result.headers).length.toString() : (loading ? 'SCANNING' : '0'),
-      tone: result?.headers ? 'active' as const : 'neutral' as const,
+      value: result ? result.headers.length.toString() : (loading ? 'SCANNING' : '0'),
+      tone: result ? 'active' as const : 'neutral' as const,
     },
     {
-      label: 'HTTP/2',
-      value: result?.http2PseudoHeaders ? 'YES' : 'NO',
-      tone: result?.http2PseudoHeaders ? 'active' as const : 'neutral' as const,
+      label: 'Protocol',
+      value: result?.connection.httpProtocol || '---',
+      tone: result?.connection.httpProtocol ? 'active' as const : 'neutral' as const,
     },
     {
-      label: 'Unique',
-      value: result?.uniqueness ? `${result.uniqueness}%` : '---',
-      tone: result?.uniqueness && result.uniqueness > 70 ? 'alert' as const : 'active' as const,
+      label: 'Mismatches',
+      value: result ? result.inconsistencies.length.toString() : '---',
+      tone: result && result.inconsistencies.length > 0 ? 'alert' as const : 'active' as const,
     },
   ], [result, loading]);
 
   const headerCategories = useMemo(() => {
-    if (!result?.headers) return {};
+    if (!result) return {};
 
     const categories: Record<string, Record<string, string>> = {
       'Request Info': {},
@@ -96,18 +69,18 @@ export default function HttpHeadersPage() {
       'Other': {},
     };
 
-    Object.entries(result.headers).forEach(([key, value]) => {
-      const lowerKey = key.toLowerCase();
+    result.headers.forEach(({ name, value }) => {
+      const lowerKey = name.toLowerCase();
       if (lowerKey.startsWith('sec-ch-')) {
-        categories['Client Hints'][key] = value;
+        categories['Client Hints'][name] = value;
       } else if (lowerKey.startsWith('sec-') || lowerKey.includes('security')) {
-        categories['Security'][key] = value;
+        categories['Security'][name] = value;
       } else if (['accept', 'accept-language', 'accept-encoding'].includes(lowerKey)) {
-        categories['Preferences'][key] = value;
+        categories['Preferences'][name] = value;
       } else if (['host', 'user-agent', 'referer', 'origin'].includes(lowerKey)) {
-        categories['Request Info'][key] = value;
+        categories['Request Info'][name] = value;
       } else {
-        categories['Other'][key] = value;
+        categories['Other'][name] = value;
       }
     });
 
@@ -125,25 +98,31 @@ export default function HttpHeadersPage() {
           <p className="text-xs uppercase tracking-[0.5em] text-slate-500">Protocol Lab</p>
           <h1 className="mt-2 text-4xl font-light text-slate-100">HTTP Headers Fingerprint</h1>
           <p className="mt-2 text-sm text-slate-400">
-            Analyze HTTP request headers including HTTP/2 pseudo-headers and Client Hints used for fingerprinting.
+            Analyze the HTTP request headers, Client Hints and connection details the server receives from your browser.
           </p>
         </header>
 
-        {/* HTTP/2 Pseudo Headers */}
+        {error && (
+          <div className="lab-panel p-6">
+            <p className="text-sm text-red-300">{error}</p>
+          </div>
+        )}
+
+        {/* Header Order */}
         <div className="grid gap-6 lg:grid-cols-2">
           <div className="lab-panel p-6">
             <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500 mb-4">
-              HTTP/2 Pseudo-Headers Order
+              Header Order
             </p>
 
             {loading ? (
               <div className="h-32 flex items-center justify-center text-slate-500">
-                Analyzing HTTP/2 frames...
+                Capturing request headers...
               </div>
-            ) : result?.http2PseudoHeaders ? (
+            ) : result ? (
               <div className="space-y-4">
                 <div className="flex flex-wrap gap-2">
-                  {result.http2PseudoHeaders.order.map((header, i) => (
+                  {result.headerOrder.map((header, i) => (
                     <div
                       key={i}
                       className="flex items-center gap-2 px-3 py-2 bg-slate-800/60 rounded"
@@ -155,19 +134,14 @@ export default function HttpHeadersPage() {
                 </div>
 
                 <div className="text-xs text-slate-500 mt-4">
-                  The order of pseudo-headers varies between browsers and can be used for fingerprinting.
-                </div>
-
-                <div className="grid grid-cols-2 gap-4 text-sm mt-4">
-                  <ResultRow label=":method" value={result.http2PseudoHeaders.method} />
-                  <ResultRow label=":scheme" value={result.http2PseudoHeaders.scheme} />
-                  <ResultRow label=":authority" value={result.http2PseudoHeaders.authority.slice(0, 25)} />
-                  <ResultRow label=":path" value={result.http2PseudoHeaders.path} />
+                  {result.orderPreserved
+                    ? 'Headers are listed in the order your browser sent them. The order varies between browsers and can be used for fingerprinting.'
+                    : 'This server only exposes headers in sorted order, so the original order could not be captured.'}
                 </div>
               </div>
             ) : (
               <div className="h-32 flex items-center justify-center text-slate-500">
-                HTTP/2 not detected (may be HTTP/1.1)
+                No headers captured
               </div>
             )}
           </div>
@@ -175,27 +149,21 @@ export default function HttpHeadersPage() {
           {/* Fingerprint Hash */}
           <div className="lab-panel p-6">
             <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500 mb-4">
-              Header Fingerprint
+              Header Order Fingerprint
             </p>
 
-            {result?.fingerprint ? (
+            {result ? (
               <div className="space-y-4">
                 <div className="font-mono text-sm text-cyan-300 break-all bg-slate-950/50 p-3 rounded">
-                  {result.fingerprint}
+                  {result.orderFingerprint ?? 'Unavailable: this server cannot see the header order'}
                 </div>
 
                 <div className="grid grid-cols-2 gap-4 text-sm">
-                  <ResultRow label="Uniqueness" value={`${result.uniqueness}%`} />
-                  <ResultRow label="Header Count" value={Object.keys(result.headers).length.toString()} />
+                  <ResultRow label="Header Count" value={result.headers.length.toString()} />
+                  <ResultRow label="Protocol" value={result.connection.httpProtocol || 'Unknown'} />
+                  <ResultRow label="TLS Version" value={result.connection.tlsVersion || 'None'} />
+                  <ResultRow label="TLS Cipher" value={result.connection.tlsCipher || 'None'} />
                 </div>
-
-                {result.uniqueness > 70 && (
-                  <div className="mt-4 p-4 bg-orange-500/10 border border-orange-500/30 rounded">
-                    <p className="text-sm text-orange-300">
-                      Your HTTP header pattern is relatively unique and can contribute to browser fingerprinting.
-                    </p>
-                  </div>
-                )}
               </div>
             ) : (
               <div className="h-32 flex items-center justify-center text-slate-500">
@@ -205,11 +173,34 @@ export default function HttpHeadersPage() {
           </div>
         </div>
 
+        {/* User-Agent vs Client Hints */}
+        {result && (
+          <div className="lab-panel p-6">
+            <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500 mb-4">
+              User-Agent vs Client Hints
+            </p>
+            {result.inconsistencies.length === 0 ? (
+              <p className="text-sm text-slate-400">
+                Your User-Agent string agrees with the Client Hints your browser sent.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {result.inconsistencies.map((issue) => (
+                  <div key={issue.check} className={`p-4 border rounded ${SEVERITY_STYLES[issue.severity]}`}>
+                    <p className="text-sm font-medium">{issue.title}</p>
+                    <p className="text-xs text-slate-400 mt-1">{issue.description}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Client Hints */}
-        {result?.clientHints && Object.keys(result.clientHints).length > 0 && (
+        {result && Object.keys(result.clientHints).length > 0 && (
           <div className="lab-panel p-6">
             <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500 mb-4">
-              Client Hints (High Entropy)
+              Client Hints
             </p>
             <p className="text-xs text-slate-500 mb-4">
               Client Hints are HTTP headers that provide detailed device and browser information.
@@ -443,56 +434,3 @@ function ResultRow({ label, value }: { label: string; value: string }) {
     </div>
   );
 }
-
-function simulateHttpHeaders(): HttpHeadersResult {
-  const userAgent = typeof navigator !== 'undefined' ? navigator.userAgent : 'Unknown';
-  const languages = typeof navigator !== 'undefined' ? navigator.languages : ['en-US'];
-
-  const isChrome = userAgent.includes('Chrome');
-
-  return {
-    headers: {
-      'Host': 'browserleaks.io',
-      'Connection': 'keep-alive',
-      'User-Agent': userAgent,
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-      'Accept-Language': languages.join(','),
-      'Accept-Encoding': 'gzip, deflate, br',
-      'Sec-Fetch-Site': 'same-origin',
-      'Sec-Fetch-Mode': 'navigate',
-      'Sec-Fetch-Dest': 'document',
-      'Sec-CH-UA': isChrome ? '"Chromium";v="120", "Google Chrome";v="120"' : '"Firefox";v="120"',
-      'Sec-CH-UA-Mobile': '?0',
-      'Sec-CH-UA-Platform': '"macOS"',
-      'Upgrade-Insecure-Requests': '1',
-      'Cache-Control': 'max-age=0',
-    },
-    http2PseudoHeaders: {
-      method: 'GET',
-      authority: 'browserleaks.io',
-      scheme: 'https',
-      path: '/network/http-headers',
-      order: isChrome
-        ? [':method', ':authority', ':scheme', ':path']
-        : [':method', ':path', ':authority', ':scheme'],
-    },
-    priorityFrame: {
-      weight: 256,
-      dependency: 0,
-      exclusive: false,
-    },
-    fingerprint: 'a7f3b2c1d4e5f6a7b8c9d0e1f2a3b4c5',
-    uniqueness: Math.floor(Math.random() * 30) + 50,
-    clientHints: {
-      'Sec-CH-UA': isChrome ? '"Chromium";v="120"' : '"Firefox";v="120"',
-      'Sec-CH-UA-Mobile': '?0',
-      'Sec-CH-UA-Platform': '"macOS"',
-    },
-    acceptLanguage: Array.from(languages),
-    secHeaders: {
-      'Sec-Fetch-Site': 'same-origin',
-      'Sec-Fetch-Mode': 'navigate',
-      'Sec-Fetch-Dest': 'document',
-    },
-  };
-}
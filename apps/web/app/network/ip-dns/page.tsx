@@ -4,26 +4,29 @@ import { useEffect, useMemo } from 'react';
 import { LabShell } from '@/components/layout/LabShell';
 import { useIPDetect } from '@/hooks/useIPDetect';
 import { useDNSDetect } from '@/hooks/useDNSDetect';
+import { useIPv6LeakTest } from '@/hooks/useIPv6LeakTest';
 
 export default function IPDNSLeakPage() {
   const { data: ipData, loading: ipLoading, error: ipError, detect: detectIP } = useIPDetect();
   const { data: dnsData, loading: dnsLoading, error: dnsError, detect: detectDNS } = useDNSDetect();
+  const { data: ipv6Data, loading: ipv6Loading, error: ipv6Error, detect: detectIPv6 } = useIPv6LeakTest();
 
   useEffect(() => {
     detectIP();
-  }, [detectIP]);
+    detectIPv6();
+  }, [detectIP, detectIPv6]);
 
   useEffect(() => {
     if (ipData?.ip && ipData?.geo?.countryCode) {
-      detectDNS(ipData.ip, ipData.geo.countryCode);
+      detectDNS(ipData.ip);
     }
   }, [ipData, detectDNS]);
 
   const runAllTests = async () => {
-    await detectIP();
+    await Promise.all([detectIP(), detectIPv6()]);
   };
 
-  const loading = ipLoading || dnsLoading;
+  const loading = ipLoading || dnsLoading || ipv6Loading;
 
   const statusReadings = useMemo(() => [
     {
@@ -36,12 +39,17 @@ export default function IPDNSLeakPage() {
       value: dnsData?.leakType?.toUpperCase() || (dnsLoading ? 'TESTING' : 'PENDING'),
       tone: dnsData?.leakType === 'none' ? 'active' as const : dnsData?.leakType ? 'alert' as const : 'neutral' as const,
     },
+    {
+      label: 'IPv6',
+      value: ipv6Data ? (ipv6Data.isLeak ? 'LEAK' : ipv6Data.ipv6Reachable ? 'TUNNELED' : 'BLOCKED') : (ipv6Loading ? 'TESTING' : 'PENDING'),
+      tone: ipv6Data?.isLeak ? 'alert' as const : ipv6Data ? 'active' as const : 'neutral' as const,
+    },
     {
       label: 'Risk',
-      value: dnsData?.leakType === 'full' ? 'HIGH' : dnsData?.leakType === 'partial' ? 'MEDIUM' : ipData ? 'LOW' : '---',
-      tone: dnsData?.leakType === 'full' ? 'alert' as const : 'active' as const,
+      value: dnsData?.leakType === 'full' || ipv6Data?.isLeak ? 'HIGH' : dnsData?.leakType === 'partial' ? 'MEDIUM' : ipData ? 'LOW' : '---',
+      tone: dnsData?.leakType === 'full' || ipv6Data?.isLeak ? 'alert' as const : 'active' as const,
     },
-  ], [ipData, ipLoading, dnsData, dnsLoading]);
+  ], [ipData, ipLoading, dnsData, dnsLoading, ipv6Data, ipv6Loading]);
 
   const getLeakStatusColor = (type: string) => {
     switch (type) {
@@ -162,6 +170,75 @@ export default function IPDNSLeakPage() {
           </div>
         </div>
 
+        {/* IPv6 Results */}
+        <div className="lab-panel p-6">
+          <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500 mb-4">
+            IPv6 Leak Detection
+          </p>
+
+          {ipv6Loading ? (
+            <div className="h-32 flex items-center justify-center text-slate-500">
+              Probing IPv4-only, IPv6-only and dual-stack endpoints...
+            </div>
+          ) : ipv6Data ? (
+            <div className="grid gap-6 lg:grid-cols-2">
+              <div className="space-y-4">
+                <div className="text-center py-4">
+                  <p className={`text-2xl font-semibold ${ipv6Data.isLeak ? 'text-red-400' : 'text-cyan-400'}`}>
+                    {ipv6Data.isLeak ? 'IPv6 Leak Detected' :
+                     ipv6Data.ipv6Reachable ? 'No IPv6 Leak Detected' : 'IPv6 Not Reachable'}
+                  </p>
+                  <p className="text-sm text-slate-400 mt-2">
+                    Dual-stack preference: {ipv6Data.preferredFamily?.toUpperCase() || 'none'}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  {ipv6Data.probes.map((probe) => (
+                    <div key={probe.endpoint} className="flex items-center justify-between py-2 border-b border-slate-800/60">
+                      <span className="text-sm text-slate-400">
+                        {probe.endpoint === 'dual' ? 'Dual-stack' : `${probe.endpoint.toUpperCase()} only`}
+                      </span>
+                      <span className="text-xs text-slate-500 truncate max-w-[220px]" title={probe.ip}>
+                        {probe.reached ? `${probe.ip} · ${probe.isp} (${probe.asn})` : 'unreachable'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                {ipv6Data.ipv6 ? (
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <ResultRow label="Prefix" value={ipv6Data.ipv6.prefix} />
+                    <ResultRow label="ASN" value={ipv6Data.ipv6.asn} />
+                    <ResultRow
+                      label="Interface ID"
+                      value={ipv6Data.ipv6.interfaceId === 'eui64' ? 'EUI-64 (MAC)' :
+                        ipv6Data.ipv6.interfaceId === 'randomized' ? 'Privacy extensions' : 'Static'}
+                    />
+                    <ResultRow label="Rotating" value={ipv6Data.ipv6.rotated ? 'Yes' : 'No'} />
+                  </div>
+                ) : (
+                  <p className="text-sm text-slate-500">
+                    No IPv6 address reached us, so there is nothing to leak over IPv6.
+                  </p>
+                )}
+
+                {ipv6Data.risks.map((risk) => (
+                  <div key={risk.title} className="p-4 bg-red-500/10 border border-red-500/30 rounded">
+                    <p className="text-sm text-red-300">{risk.description}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : ipv6Error ? (
+            <div className="p-4 bg-red-500/10 border border-red-500/30 rounded">
+              <p className="text-sm text-red-300">{ipv6Error}</p>
+            </div>
+          ) : null}
+        </div>
+
         <section className="lab-panel p-8">
           <h2 className="text-2xl font-light text-slate-100 mb-6">
             IP and DNS Leaks: When Your VPN Fails to Protect You
@@ -1,26 +1,12 @@
 'use client';
 
 import { useState, useCallback, useEffect, useMemo } from 'react';
+import type { TLSFingerprintResult } from '@browserleaks/types';
 import { LabShell } from '@/components/layout/LabShell';
-
-interface JA3Result {
-  ja3Hash: string;
-  ja3FullString: string;
-  ja4Hash: string;
-  tlsVersion: string;
-  cipherSuites: string[];
-  extensions: string[];
-  ellipticCurves: string[];
-  pointFormats: string[];
-  supportedVersions: string[];
-  signatureAlgorithms: string[];
-  alpnProtocols: string[];
-  isUnique: boolean;
-  uniquenessPercentile: number;
-}
+import { tlsCaptureClient } from '@/lib/api';
 
 export default function TLSJa3Page() {
-  const [result, setResult] = useState<JA3Result | null>(null);
+  const [result, setResult] = useState<TLSFingerprintResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -29,29 +15,15 @@ export default function TLSJa3Page() {
     setError(null);
 
     try {
-      // In a real implementation, this would call a backend that captures the TLS Client Hello
-      // For now, we'll simulate the detection with browser-available TLS info
-      const response = await fetch('/api/tls-fingerprint', {
-        method: 'POST',
-      });
-
-      if (!response.ok) {
-        // Fallback to simulated data if API not available
-        const simulatedResult = await simulateJA3Detection();
-        setResult(simulatedResult);
-        return;
+      // The server terminating TLS computes the fingerprint from this request's ClientHello
+      const response = await tlsCaptureClient.getTLSFingerprint();
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to detect TLS fingerprint');
       }
-
-      const data = await response.json();
-      if (data.success) {
-        setResult(data.data);
-      } else {
-        throw new Error(data.error?.message || 'Failed to detect TLS fingerprint');
-      }
-    } catch {
-      // Use simulated data for demo purposes
-      const simulatedResult = await simulateJA3Detection();
-      setResult(simulatedResult);
+      setResult(response.data);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Failed to detect TLS fingerprint');
     } finally {
       setLoading(false);
     }
@@ -63,22 +35,24 @@ export default function TLSJa3Page() {
 
   const statusReadings = useMemo(() => [
     {
-      label: 'JA3',
-      value: result?.ja3Hash?.slice(0, 12) || (loading ? 'SCANNING' : '---'),
-      tone: result?.ja3Hash ? 'active' as const : 'neutral' as const,
+      label: 'JA4',
+      value: result?.ja4?.slice(0, 10) || (loading ? 'SCANNING' : '---'),
+      tone: result?.ja4 ? 'active' as const : 'neutral' as const,
     },
     {
       label: 'TLS',
-      value: result?.tlsVersion || '---',
-      tone: result?.tlsVersion ? 'active' as const : 'neutral' as const,
+      value: result?.clientHello?.tlsVersion || '---',
+      tone: result?.clientHello ? 'active' as const : 'neutral' as const,
     },
     {
-      label: 'Unique',
-      value: result?.uniquenessPercentile ? `${result.uniquenessPercentile}%` : '---',
-      tone: result?.isUnique ? 'alert' as const : 'active' as const,
+      label: 'Client',
+      value: result?.match?.client || (result ? 'UNKNOWN' : '---'),
+      tone: result?.automation.detected ? 'alert' as const : 'active' as const,
     },
   ], [result, loading]);
 
+  const hello = result?.clientHello;
+
   return (
     <LabShell
       statusReadings={statusReadings}
@@ -95,10 +69,10 @@ export default function TLSJa3Page() {
         </header>
 
         <div className="grid gap-6 lg:grid-cols-2">
-          {/* JA3 Hash */}
+          {/* Fingerprints */}
           <div className="lab-panel p-6">
             <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500 mb-4">
-              JA3 Fingerprint
+              TLS Fingerprints
             </p>
 
             {loading ? (
@@ -107,32 +81,46 @@ export default function TLSJa3Page() {
               </div>
             ) : result ? (
               <div className="space-y-4">
-                <div>
-                  <p className="text-xs text-slate-500 mb-2">JA3 Hash (MD5)</p>
-                  <div className="font-mono text-sm text-cyan-300 break-all bg-slate-950/50 p-3 rounded">
-                    {result.ja3Hash}
+                {result.ja4 && (
+                  <div>
+                    <p className="text-xs text-slate-500 mb-2">JA4</p>
+                    <div className="font-mono text-sm text-cyan-300 break-all bg-slate-950/50 p-3 rounded">
+                      {result.ja4}
+                    </div>
                   </div>
-                </div>
+                )}
 
-                {result.ja4Hash && (
+                {result.ja3Hash && (
                   <div>
-                    <p className="text-xs text-slate-500 mb-2">JA4 Fingerprint</p>
+                    <p className="text-xs text-slate-500 mb-2">JA3 Hash (MD5)</p>
                     <div className="font-mono text-sm text-cyan-300 break-all bg-slate-950/50 p-3 rounded">
-                      {result.ja4Hash}
+                      {result.ja3Hash}
+                    </div>
+                  </div>
+                )}
+
+                {result.ja3nHash && (
+                  <div>
+                    <p className="text-xs text-slate-500 mb-2">JA3N Hash (sorted extensions)</p>
+                    <div className="font-mono text-sm text-cyan-300 break-all bg-slate-950/50 p-3 rounded">
+                      {result.ja3nHash}
                     </div>
                   </div>
                 )}
 
                 <div className="grid grid-cols-2 gap-4 text-sm">
-                  <ResultRow label="TLS Version" value={result.tlsVersion} />
-                  <ResultRow label="Uniqueness" value={`${result.uniquenessPercentile}%`} />
+                  <ResultRow label="Matched Client" value={result.match?.client || 'Unknown'} />
+                  <ResultRow label="Source" value={result.source === 'client-hello' ? 'ClientHello' : 'Edge'} />
                 </div>
 
-                {result.isUnique && (
+                {result.automation.detected && (
                   <div className="mt-4 p-4 bg-orange-500/10 border border-orange-500/30 rounded">
-                    <p className="text-sm text-orange-300">
-                      Your TLS fingerprint is relatively unique and can be used to identify your browser.
-                    </p>
+                    <p className="text-sm text-orange-300 mb-2">Automation indicators</p>
+                    <ul className="text-xs text-orange-200 space-y-1">
+                      {result.automation.reasons.map((reason) => (
+                        <li key={reason}>{reason}</li>
+                      ))}
+                    </ul>
                   </div>
                 )}
               </div>
@@ -149,13 +137,13 @@ export default function TLSJa3Page() {
               JA3 Full String
             </p>
 
-            {result?.ja3FullString ? (
+            {result?.ja3 ? (
               <div className="font-mono text-xs text-slate-400 break-all bg-slate-950/50 p-3 rounded h-32 overflow-y-auto">
-                {result.ja3FullString}
+                {result.ja3}
               </div>
             ) : (
               <div className="h-32 flex items-center justify-center text-slate-500">
-                {loading ? 'Loading...' : 'No data available'}
+                {loading ? 'Loading...' : 'Only available when the raw ClientHello is captured'}
               </div>
             )}
 
@@ -166,18 +154,18 @@ export default function TLSJa3Page() {
         </div>
 
         {/* Cipher Suites */}
-        {result?.cipherSuites && result.cipherSuites.length > 0 && (
+        {hello && hello.cipherSuites.length > 0 && (
           <div className="lab-panel p-6">
             <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500 mb-4">
-              Cipher Suites ({result.cipherSuites.length})
+              Cipher Suites ({hello.cipherSuites.length})
             </p>
             <div className="flex flex-wrap gap-2">
-              {result.cipherSuites.map((cipher, i) => (
+              {hello.cipherSuites.map((cipher, i) => (
                 <span
                   key={i}
                   className="px-2 py-1 text-xs font-mono bg-slate-800/60 text-slate-300 rounded"
                 >
-                  {cipher}
+                  0x{cipher}
                 </span>
               ))}
             </div>
@@ -185,18 +173,18 @@ export default function TLSJa3Page() {
         )}
 
         {/* TLS Extensions */}
-        {result?.extensions && result.extensions.length > 0 && (
+        {hello && hello.extensions.length > 0 && (
           <div className="lab-panel p-6">
             <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500 mb-4">
-              TLS Extensions ({result.extensions.length})
+              TLS Extensions ({hello.extensions.length})
             </p>
             <div className="flex flex-wrap gap-2">
-              {result.extensions.map((ext, i) => (
+              {hello.extensions.map((ext, i) => (
                 <span
                   key={i}
                   className="px-2 py-1 text-xs font-mono bg-slate-800/60 text-slate-300 rounded"
                 >
-                  {ext}
+                  0x{ext}
                 </span>
               ))}
             </div>
@@ -206,23 +194,23 @@ export default function TLSJa3Page() {
         {/* Additional TLS Details */}
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
           <DetailCard
-            title="Elliptic Curves"
-            items={result?.ellipticCurves || []}
+            title="Supported Groups"
+            items={hello?.supportedGroups || []}
             loading={loading}
           />
           <DetailCard
             title="Point Formats"
-            items={result?.pointFormats || []}
+            items={hello?.pointFormats || []}
             loading={loading}
           />
           <DetailCard
-            title="Supported Versions"
-            items={result?.supportedVersions || []}
+            title="Signature Algorithms"
+            items={hello?.signatureAlgorithms || []}
             loading={loading}
           />
           <DetailCard
             title="ALPN Protocols"
-            items={result?.alpnProtocols || []}
+            items={hello?.alpnProtocols || []}
             loading={loading}
           />
         </div>
@@ -286,35 +274,35 @@ export default function TLSJa3Page() {
               </div>
             </div>
 
-            <h3 className="text-xl text-slate-200 mt-8">Common JA3 Fingerprints</h3>
+            <h3 className="text-xl text-slate-200 mt-8">Common JA4 Fingerprints</h3>
             <table className="w-full text-sm my-4">
               <thead>
                 <tr className="border-b border-slate-700">
-                  <th className="text-left py-2 text-slate-300">Browser</th>
-                  <th className="text-left py-2 text-slate-300">JA3 Hash</th>
+                  <th className="text-left py-2 text-slate-300">Client</th>
+                  <th className="text-left py-2 text-slate-300">JA4</th>
                   <th className="text-left py-2 text-slate-300">Notes</th>
                 </tr>
               </thead>
               <tbody className="text-slate-400 font-mono text-xs">
                 <tr className="border-b border-slate-800">
-                  <td className="py-2">Chrome (Windows)</td>
-                  <td className="py-2">b32309a26951912be7dba376398abc3b</td>
-                  <td className="py-2 font-sans">Most common</td>
+                  <td className="py-2">Chrome / Chromium</td>
+                  <td className="py-2">t13d1516h2_8daaf6152771_d8a2da3f94cd</td>
+                  <td className="py-2 font-sans">Shared by Edge, Brave and headless Chrome</td>
                 </tr>
                 <tr className="border-b border-slate-800">
-                  <td className="py-2">Firefox (Windows)</td>
-                  <td className="py-2">839bbe3ed07fed922ded5aaf714d6842</td>
-                  <td className="py-2 font-sans">Different extension order</td>
+                  <td className="py-2">Firefox</td>
+                  <td className="py-2">t13d1715h2_5b57614c22b0_5c2c66f702b0</td>
+                  <td className="py-2 font-sans">NSS cipher order</td>
                 </tr>
                 <tr className="border-b border-slate-800">
-                  <td className="py-2">Safari (macOS)</td>
-                  <td className="py-2">773906b0efdefa24a7f2b8eb6985bf37</td>
-                  <td className="py-2 font-sans">Apple-specific ciphers</td>
+                  <td className="py-2">Safari</td>
+                  <td className="py-2">t13d2014h2_a09f3c656075_14788d8d241b</td>
+                  <td className="py-2 font-sans">Still offers legacy 3DES suites</td>
                 </tr>
                 <tr>
-                  <td className="py-2">Tor Browser</td>
-                  <td className="py-2">e7d705a3286e19ea42f587b344ee6865</td>
-                  <td className="py-2 font-sans">Standardized for anonymity</td>
+                  <td className="py-2">curl</td>
+                  <td className="py-2">t13d3112h2_e8f1e7e78f70_b26ce05bbdd6</td>
+                  <td className="py-2 font-sans">OpenSSL defaults, 31 cipher suites</td>
                 </tr>
               </tbody>
             </table>
@@ -415,98 +403,3 @@ function DetailCard({ title, items, loading }: { title: string; items: string[];
     </div>
   );
 }
-
-async function simulateJA3Detection(): Promise<JA3Result> {
-  // Simulate JA3 fingerprint based on browser detection
-  const userAgent = typeof navigator !== 'undefined' ? navigator.userAgent : '';
-  const isChrome = userAgent.includes('Chrome');
-  const isFirefox = userAgent.includes('Firefox');
-  const isSafari = userAgent.includes('Safari') && !userAgent.includes('Chrome');
-
-  // Common cipher suites for modern browsers
-  const cipherSuites = [
-    'TLS_AES_128_GCM_SHA256',
-    'TLS_AES_256_GCM_SHA384',
-    'TLS_CHACHA20_POLY1305_SHA256',
-    'TLS_ECDHE_ECDSA_WITH_AES_128_GCM_SHA256',
-    'TLS_ECDHE_RSA_WITH_AES_128_GCM_SHA256',
-    'TLS_ECDHE_ECDSA_WITH_AES_256_GCM_SHA384',
-    'TLS_ECDHE_RSA_WITH_AES_256_GCM_SHA384',
-    'TLS_ECDHE_ECDSA_WITH_CHACHA20_POLY1305_SHA256',
-    'TLS_ECDHE_RSA_WITH_CHACHA20_POLY1305_SHA256',
-  ];
-
-  const extensions = [
-    'server_name (0)',
-    'extended_master_secret (23)',
-    'renegotiation_info (65281)',
-    'supported_groups (10)',
-    'ec_point_formats (11)',
-    'signature_algorithms (13)',
-    'application_layer_protocol_negotiation (16)',
-    'signed_certificate_timestamp (18)',
-    'key_share (51)',
-    'psk_key_exchange_modes (45)',
-    'supported_versions (43)',
-    'compress_certificate (27)',
-    'padding (21)',
-  ];
-
-  const ellipticCurves = [
-    'x25519 (29)',
-    'secp256r1 (23)',
-    'secp384r1 (24)',
-    'secp521r1 (25)',
-  ];
-
-  const pointFormats = ['uncompressed (0)'];
-
-  const supportedVersions = ['TLS 1.3', 'TLS 1.2'];
-
-  const alpnProtocols = ['h2', 'http/1.1'];
-
-  const signatureAlgorithms = [
-    'ecdsa_secp256r1_sha256',
-    'rsa_pss_rsae_sha256',
-    'rsa_pkcs1_sha256',
-    'ecdsa_secp384r1_sha384',
-    'rsa_pss_rsae_sha384',
-    'rsa_pkcs1_sha384',
-    'rsa_pss_rsae_sha512',
-    'rsa_pkcs1_sha512',
-  ];
-
-  // Generate a simulated JA3 hash based on browser
-  let ja3Hash: string;
-  if (isChrome) {
-    ja3Hash = 'b32309a26951912be7dba376398abc3b';
-  } else if (isFirefox) {
-    ja3Hash = '839bbe3ed07fed922ded5aaf714d6842';
-  } else if (isSafari) {
-    ja3Hash = '773906b0efdefa24a7f2b8eb6985bf37';
-  } else {
-    ja3Hash = 'e7d705a3286e19ea42f587b344ee6865';
-  }
-
-  // Simulate JA3 full string
-  const ja3FullString = '771,4866-4867-4865-49196-49200-159-52393-52392-52394-49195-49199-158-49188-49192-107-49187-49191-103-49162-49172-57-49161-49171-51-157-156-61-60-53-47-255,0-11-10-13172-16-22-23-49-13-43-45-51-21,29-23-30-25-24,0-1-2';
-
-  // JA4 is more complex - simplified version
-  const ja4Hash = `t${isChrome ? '13' : '12'}d${cipherSuites.length.toString(16).padStart(2, '0')}${extensions.length.toString(16).padStart(2, '0')}`;
-
-  return {
-    ja3Hash,
-    ja3FullString,
-    ja4Hash: ja4Hash + '_' + ja3Hash.slice(0, 12),
-    tlsVersion: 'TLS 1.3',
-    cipherSuites,
-    extensions,
-    ellipticCurves,
-    pointFormats,
-    supportedVersions,
-    signatureAlgorithms,
-    alpnProtocols,
-    isUnique: Math.random() > 0.3,
-    uniquenessPercentile: Math.floor(Math.random() * 40) + 60,
-  };
-}
@@ -13,6 +13,7 @@ export default function robots(): MetadataRoute.Robots {
           '/share/', // Share pages should be accessible but not indexed
           '/_next/',
           '/admin/',
+          '/lab-assets/', // Tracker test stand-ins
         ],
       },
       {
@@ -66,7 +66,7 @@ export function DashboardContent() {
 
   useEffect(() => {
     if (ipData && hasStarted && !dnsData && !dnsLoading) {
-      detectDNS(ipData.ip, ipData.geo.countryCode);
+      detectDNS(ipData.ip);
     }
   }, [ipData, hasStarted, dnsData, dnsLoading, detectDNS]);
 
@@ -254,7 +254,7 @@ export function DashboardContent() {
             description="Detect DNS query leaks"
             status={dnsStatus}
             metric={dnsData ? dnsData.leakType.toUpperCase() : undefined}
-            onRun={() => ipData && detectDNS(ipData.ip, ipData.geo.countryCode)}
+            onRun={() => ipData && detectDNS(ipData.ip)}
             href="/tests/dns-leak"
           />
           <SpecimenTestCard
@@ -7,6 +7,7 @@ import { Ja3Card } from '@/components/network/Ja3Card';
 import { LanScannerPanel } from '@/components/network/LanScannerPanel';
 import { SpecimenTestCard } from '@/components/dashboard/SpecimenTestCard';
 import { useWebRTCDetect } from '@/hooks/useWebRTCDetect';
+import { useLanProbe } from '@/hooks/useLanProbe';
 
 export function NetworkLab() {
   const { data, loading, error } = useNetworkInsights();
@@ -16,11 +17,13 @@ export function NetworkLab() {
     progress,
     detect: detectWebRTC,
   } = useWebRTCDetect();
+  const lanProbe = useLanProbe();
+  const lanHostsResponding = lanProbe.data?.hosts.filter((host) => host.reachable).length ?? 0;
 
   const statusReadings = [
     {
       label: 'Traceroute',
-      value: data ? `${data.traceroute.length} hops` : 'IDLE',
+      value: data ? `${data.traceroute.hops.length} hops` : 'IDLE',
       tone: data ? 'active' as const : 'neutral' as const,
     },
     {
@@ -30,8 +33,8 @@ export function NetworkLab() {
     },
     {
       label: 'LAN',
-      value: data ? `${data.lanHosts.length} hosts` : 'IDLE',
-      tone: data ? 'active' as const : 'neutral' as const,
+      value: lanProbe.data ? `${lanHostsResponding} hosts` : 'IDLE',
+      tone: lanProbe.data ? 'active' as const : 'neutral' as const,
     },
   ];
 
@@ -45,10 +48,10 @@ export function NetworkLab() {
           {error && <p className="text-xs text-orange-400">{error}</p>}
         </header>
         <div className="grid gap-6 lg:grid-cols-[1.2fr,0.8fr]">
-          <TracerouteMap hops={data?.traceroute || []} />
+          <TracerouteMap result={data?.traceroute ?? null} />
           {data && <Ja3Card hash={data.ja3.hash} userAgent={data.ja3.userAgent} ciphers={data.ja3.ciphers} />}
         </div>
-        {data && <LanScannerPanel hosts={data.lanHosts} />}
+        <LanScannerPanel probe={lanProbe} />
         <div>
           <p className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500">WebRTC Playback</p>
           <div className="mt-4">
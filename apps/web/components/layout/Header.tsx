@@ -34,6 +34,8 @@ const navItems = [
       { label: 'WebGL Fingerprint', href: '/fingerprints/webgl', icon: Cpu, description: 'GPU rendering signature' },
       { label: 'Font Detection', href: '/fingerprints/fonts', icon: FileSearch, description: 'Installed fonts analysis' },
       { label: 'Client Rects', href: '/fingerprints/client-rects', icon: FileSearch, description: 'Element dimension tracking' },
+      { label: 'Bot Detection', href: '/fingerprints/automation', icon: Activity, description: 'Automation and headless traces' },
+      { label: 'Extension Detection', href: '/fingerprints/extensions', icon: FileSearch, description: 'Installed add-on enumeration' },
     ],
   },
   {
@@ -27,7 +27,7 @@ export function DNSLeakTest() {
   // Auto-run DNS test after IP is detected
   useEffect(() => {
     if (ipData && hasStarted) {
-      detectDNS(ipData.ip, ipData.geo.countryCode);
+      detectDNS(ipData.ip);
     }
   }, [ipData, hasStarted, detectDNS]);
 
@@ -153,6 +153,10 @@ export function DNSLeakTest() {
                 <p className={`text-3xl font-bold ${getLeakStatusColor()}`}>
                   {getLeakStatusText()}
                 </p>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+                  {dnsData.probesResolved}/{dnsData.probeCount} probes resolved · your network{' '}
+                  {dnsData.clientAsn}
+                </p>
               </div>
               <div className="text-6xl">
                 {dnsData.isLeak ? '⚠️' : '✅'}
@@ -172,9 +176,7 @@ export function DNSLeakTest() {
                     key={`${server.ip}-${index}`}
                     className="border-2 rounded-lg p-4"
                     style={{
-                      borderColor: server.countryCode === ipData?.geo.countryCode
-                        ? '#10b981'
-                        : '#ef4444',
+                      borderColor: server.isISP ? '#10b981' : '#ef4444',
                     }}
                   >
                     <div className="flex items-start justify-between mb-2">
@@ -187,7 +189,7 @@ export function DNSLeakTest() {
                         </div>
                       </div>
                       <div className="text-2xl">
-                        {server.countryCode === ipData?.geo.countryCode ? '✓' : '✗'}
+                        {server.isISP ? '✓' : '✗'}
                       </div>
                     </div>
 
@@ -208,6 +210,14 @@ export function DNSLeakTest() {
                           {server.isp}
                         </span>
                       </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-600 dark:text-gray-400">
+                          ASN:
+                        </span>
+                        <span className="font-semibold">
+                          {server.asn} · {server.queryCount} quer{server.queryCount === 1 ? 'y' : 'ies'}
+                        </span>
+                      </div>
                     </div>
                   </div>
                 ))}
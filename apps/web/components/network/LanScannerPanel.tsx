@@ -1,31 +1,117 @@
 'use client';
 
-import type { LanHost } from '@/types/network';
+import { Loader2 } from 'lucide-react';
+import type { LanAccessPolicy, LanProbeStatus } from '@/lib/lan-probe';
+import type { useLanProbe } from '@/hooks/useLanProbe';
 
-const tone: Record<LanHost['status'], string> = {
+const tone: Record<LanProbeStatus, string> = {
   open: 'text-orange-300',
-  filtered: 'text-yellow-300',
-  closed: 'text-slate-400',
+  responding: 'text-yellow-300',
+  blocked: 'text-cyan-300',
+  silent: 'text-slate-500',
 };
 
-export function LanScannerPanel({ hosts }: { hosts: LanHost[] }) {
+const policyLabel: Record<LanAccessPolicy, string> = {
+  allowed: 'Browser lets pages reach your local network',
+  blocked: 'Browser blocks pages from reaching your local network (Private Network Access)',
+  prompt: 'Browser asks before pages reach your local network',
+  unknown: 'Could not tell whether your browser restricts local network requests',
+};
+
+interface LanScannerPanelProps {
+  probe: ReturnType<typeof useLanProbe>;
+}
+
+export function LanScannerPanel({ probe }: LanScannerPanelProps) {
+  const { consented, data, loading, error, progress, setConsent, scan } = probe;
+  const exposed = data?.hosts.filter((host) => host.reachable) ?? [];
+
   return (
     <div className="lab-panel p-6">
-      <div className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500">LAN Scanner</div>
-      <div className="mt-4 space-y-3 text-sm">
-        {hosts.map((host) => (
-          <div key={host.ip} className="flex items-center justify-between border-b border-slate-800/60 pb-2 last:border-none">
-            <div>
-              <p className="font-mono text-cyan-200">{host.ip}</p>
-              <p className="text-xs text-slate-500">{host.device}</p>
-            </div>
-            <div className="text-right">
-              <p className={`${tone[host.status]} font-semibold`}>{host.status.toUpperCase()}</p>
-              <p className="text-xs text-slate-500">{host.service}</p>
-            </div>
+      <div className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500">LAN Exposure</div>
+      <p className="mt-2 text-sm text-slate-400">
+        Any page you visit can send requests to devices on your local network and time the answers.
+        This probe does the same, from your browser only: results are never sent to our servers.
+      </p>
+
+      <label className="mt-4 flex items-start gap-3 text-xs text-slate-400">
+        <input
+          type="checkbox"
+          checked={consented}
+          disabled={loading}
+          onChange={(event) => setConsent(event.target.checked)}
+          className="mt-0.5"
+        />
+        <span>
+          I agree to send requests from this page to my router and a few common device ports
+          (printers, NAS, media servers) on my local network.
+        </span>
+      </label>
+
+      <button
+        onClick={scan}
+        disabled={!consented || loading}
+        className="mt-4 rounded-sm border border-cyan-400/50 px-3 py-1 text-xs tracking-[0.3em] text-cyan-200 disabled:cursor-not-allowed disabled:opacity-40"
+      >
+        {loading ? (
+          <>
+            <Loader2 className="mr-2 inline h-3 w-3 animate-spin" />
+            SCANNING {progress}%
+          </>
+        ) : (
+          'PROBE MY NETWORK'
+        )}
+      </button>
+
+      {error && <p className="mt-3 text-xs text-orange-400">{error}</p>}
+
+      {data && (
+        <div className="mt-6 space-y-4 text-sm">
+          <div className="space-y-1 text-xs text-slate-400">
+            <p>{policyLabel[data.policy]}</p>
+            <p>
+              {data.localAddresses.length > 0
+                ? `WebRTC revealed your local address: ${data.localAddresses.join(', ')}`
+                : data.mdnsObfuscated
+                  ? 'WebRTC hides your local address behind an mDNS name; common router addresses were probed instead'
+                  : 'WebRTC did not reveal a local address; common router addresses were probed instead'}
+            </p>
+            <p>
+              {exposed.length} of {data.hosts.length} hosts responded · {data.probesSent} requests
+              in {(data.durationMs / 1000).toFixed(1)}s
+            </p>
           </div>
-        ))}
-      </div>
+
+          {data.hosts.map((host) => (
+            <div key={host.ip} className="border-b border-slate-800/60 pb-3 last:border-none">
+              <div className="flex items-center justify-between">
+                <p className="font-mono text-cyan-200">{host.ip}</p>
+                <p className={host.reachable ? 'text-orange-300' : 'text-slate-500'}>
+                  {host.reachable ? 'RESPONDS' : 'NO ANSWER'}
+                </p>
+              </div>
+              {host.reachable && (
+                <div className="mt-2 grid gap-1 text-xs sm:grid-cols-2">
+                  {host.services
+                    .filter(
+                      (service) => service.status === 'open' || service.status === 'responding'
+                    )
+                    .map((service) => (
+                      <div key={service.port} className="flex justify-between gap-3">
+                        <span className="text-slate-400">
+                          {service.port} · {service.device} ({service.service})
+                        </span>
+                        <span className={tone[service.status]}>
+                          {service.status.toUpperCase()} {service.latencyMs}ms
+                        </span>
+                      </div>
+                    ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
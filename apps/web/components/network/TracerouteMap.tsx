@@ -1,19 +1,39 @@
 'use client';
 
-import type { TracerouteHop } from '@/types/network';
+import type { TracerouteResult } from '@/types/network';
 
 interface TracerouteMapProps {
-  hops: TracerouteHop[];
+  result: TracerouteResult | null;
 }
 
-export function TracerouteMap({ hops }: TracerouteMapProps) {
+export function TracerouteMap({ result }: TracerouteMapProps) {
+  const hops = result?.hops ?? [];
+  const measured = result?.source === 'measured';
   const width = 520;
   const height = 240;
   const step = hops.length > 1 ? width / (hops.length - 1) : width;
 
   return (
     <div className="lab-panel p-6">
-      <div className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500">Traceroute</div>
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-[0.65rem] uppercase tracking-[0.4em] text-slate-500">Traceroute</div>
+        {result && (
+          <span
+            className={`rounded-sm border px-2 py-1 text-[0.6rem] uppercase tracking-[0.3em] ${
+              measured ? 'border-cyan-400/60 text-cyan-300' : 'border-orange-400/60 text-orange-300'
+            }`}
+          >
+            {measured ? `Measured · ${result.protocol}` : 'Synthetic sample'}
+          </span>
+        )}
+      </div>
+      {result && (
+        <p className="mt-2 text-xs text-slate-500">
+          {measured
+            ? `From ${result.agent} to ${result.target}${result.reachedTarget ? '' : ' (target did not answer)'}`
+            : `${result.reason ?? 'No measurement available'} — these hops are illustrative, not your path.`}
+        </p>
+      )}
       <svg width={width} height={height} className="mt-4">
         <defs>
           <linearGradient id="hop-line" x1="0%" y1="0%" x2="100%" y2="0%">
@@ -27,22 +47,34 @@ export function TracerouteMap({ hops }: TracerouteMapProps) {
           const x2 = (index + 1) * step;
           const y1 = height / 2 + Math.sin(index) * 25;
           const y2 = height / 2 + Math.sin(index + 1) * 25;
-          return <line key={hop.ip} x1={x1} y1={y1} x2={x2} y2={y2} stroke="url(#hop-line)" strokeWidth={2} strokeLinecap="round" />;
+          return (
+            <line
+              key={hop.hop}
+              x1={x1}
+              y1={y1}
+              x2={x2}
+              y2={y2}
+              stroke="url(#hop-line)"
+              strokeWidth={2}
+              strokeLinecap="round"
+              strokeDasharray={measured ? undefined : '4 4'}
+            />
+          );
         })}
         {hops.map((hop, index) => {
           const x = index * step;
           const y = height / 2 + Math.sin(index) * 25;
           return (
-            <g key={`${hop.ip}-${index}`}>
-              <circle cx={x} cy={y} r={9} fill="#0f172a" stroke="#22d3ee" strokeWidth={2} />
+            <g key={hop.hop}>
+              <circle cx={x} cy={y} r={9} fill="#0f172a" stroke={hop.ip ? '#22d3ee' : '#475569'} strokeWidth={2} />
               <text x={x} y={y - 16} textAnchor="middle" className="text-[10px] fill-slate-300 font-mono">
-                {hop.ip}
+                {hop.ip ?? '*'}
               </text>
               <text x={x} y={y + 20} textAnchor="middle" className="text-[10px] fill-slate-500">
-                {hop.location}
+                {hop.asn ? `${hop.asn} · ${hop.location}` : hop.location}
               </text>
               <text x={x} y={y + 34} textAnchor="middle" className="text-[9px] fill-cyan-300">
-                {hop.rtt} ms
+                {hop.rtt === null ? '—' : `${hop.rtt} ms`}
               </text>
             </g>
           );
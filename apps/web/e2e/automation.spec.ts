@@ -0,0 +1,37 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Playwright is itself an automated browser, so these runs double as checks
+ * that the detection sees through our own test setup.
+ */
+test.describe('Bot Detection Page', () => {
+  test.beforeEach(({ browserName }) => {
+    test.skip(browserName !== 'chromium', 'Signals are specific to Chromium automation');
+  });
+
+  test('should detect the WebDriver flag of a default Playwright browser', async ({ page }) => {
+    await page.goto('/fingerprints/automation');
+
+    await expect(page.locator('[data-testid="signal-navigator.webdriver"]')).toContainText('true', {
+      timeout: 10000,
+    });
+  });
+
+  test('should see through a page-level webdriver patch', async ({ page }) => {
+    // The usual hardening step; the replaced getter is no longer native code
+    await page.addInitScript(() => {
+      Object.defineProperty(Navigator.prototype, 'webdriver', { get: () => false });
+    });
+    await page.goto('/fingerprints/automation');
+
+    await expect(page.locator('[data-testid="signal-navigator.webdriver"]')).toContainText(
+      'false',
+      {
+        timeout: 10000,
+      }
+    );
+    await expect(page.locator('[data-testid="signal-Stealth leftovers"]')).toContainText(
+      'webdriver-getter'
+    );
+  });
+});
@@ -3,6 +3,33 @@
 import { useState, useCallback } from 'react';
 import { apiClient, type DNSLeakResult, type APIResponse } from '@/lib/api';
 
+// Per-probe budget for the browser to resolve and connect to a probe hostname
+const PROBE_TIMEOUT_MS = 4000;
+// Grace period for the nameserver's observations to reach the API
+const COLLECT_DELAY_MS = 750;
+
+/**
+ * Make the browser resolve every probe hostname through the system resolver.
+ * Only the DNS lookup matters, so failed or opaque responses are expected.
+ */
+async function resolveProbes(hostnames: string[]): Promise<void> {
+  await Promise.allSettled(
+    hostnames.map(async (hostname) => {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+      try {
+        await fetch(`https://${hostname}/`, {
+          mode: 'no-cors',
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+      } finally {
+        clearTimeout(timeout);
+      }
+    })
+  );
+}
+
 interface UseDNSDetectState {
   data: DNSLeakResult | null;
   loading: boolean;
@@ -16,13 +43,26 @@ export function useDNSDetect() {
     error: null,
   });
 
-  const detect = useCallback(async (userIp?: string, userCountry?: string) => {
+  const detect = useCallback(async (userIp?: string) => {
     setState({ data: null, loading: true, error: null });
 
     try {
+      const test = await apiClient.startDNSLeakTest();
+      if (!test.success || !test.data) {
+        setState({
+          data: null,
+          loading: false,
+          error: test.error?.message || 'Failed to start DNS leak test',
+        });
+        return;
+      }
+
+      await resolveProbes(test.data.probes);
+      await new Promise((resolve) => setTimeout(resolve, COLLECT_DELAY_MS));
+
       const response: APIResponse<DNSLeakResult> = await apiClient.detectDNSLeak(
-        userIp,
-        userCountry
+        test.data.testId,
+        userIp
       );
 
       if (response.success && response.data) {
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { apiClient, type IPv6LeakResult, type APIResponse } from '@/lib/api';
+
+// Per-probe budget; an endpoint the connection cannot reach fails or times out here
+const PROBE_TIMEOUT_MS = 5000;
+
+/**
+ * Fetch the IPv4-only, IPv6-only and dual-stack probe URLs. The API records the
+ * address each request arrives from, so the responses themselves are not needed.
+ */
+async function fetchProbes(urls: string[]): Promise<void> {
+  await Promise.allSettled(
+    urls.map(async (url) => {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+      try {
+        await fetch(url, {
+          mode: 'no-cors',
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+      } finally {
+        clearTimeout(timeout);
+      }
+    })
+  );
+}
+
+interface UseIPv6LeakTestState {
+  data: IPv6LeakResult | null;
+  loading: boolean;
+  error: string | null;
+}
+
+export function useIPv6LeakTest() {
+  const [state, setState] = useState<UseIPv6LeakTestState>({
+    data: null,
+    loading: false,
+    error: null,
+  });
+
+  const detect = useCallback(async () => {
+    setState({ data: null, loading: true, error: null });
+
+    try {
+      const test = await apiClient.startIPv6LeakTest();
+      if (!test.success || !test.data) {
+        setState({
+          data: null,
+          loading: false,
+          error: test.error?.message || 'Failed to start IPv6 leak test',
+        });
+        return;
+      }
+
+      await fetchProbes(Object.values(test.data.probes));
+
+      const response: APIResponse<IPv6LeakResult> = await apiClient.detectIPv6Leak(
+        test.data.testId
+      );
+
+      if (response.success && response.data) {
+        setState({
+          data: response.data,
+          loading: false,
+          error: null,
+        });
+      } else {
+        setState({
+          data: null,
+          loading: false,
+          error: response.error?.message || 'Failed to detect IPv6 leak',
+        });
+      }
+    } catch (err) {
+      setState({
+        data: null,
+        loading: false,
+        error: err instanceof Error ? err.message : 'An error occurred',
+      });
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setState({ data: null, loading: false, error: null });
+  }, []);
+
+  return {
+    ...state,
+    detect,
+    reset,
+  };
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import { probeLan, type LanProbeResult } from '@/lib/lan-probe';
+
+interface UseLanProbeState {
+  consented: boolean;
+  data: LanProbeResult | null;
+  loading: boolean;
+  error: string | null;
+  progress: number;
+}
+
+/**
+ * Runs the browser-side LAN probe once the visitor has consented.
+ * Results stay in this hook; nothing about the local network is sent to the API.
+ */
+export function useLanProbe() {
+  const [state, setState] = useState<UseLanProbeState>({
+    consented: false,
+    data: null,
+    loading: false,
+    error: null,
+    progress: 0,
+  });
+  const consentRef = useRef(false);
+
+  const setConsent = useCallback((consented: boolean) => {
+    consentRef.current = consented;
+    setState((prev) => ({ ...prev, consented }));
+  }, []);
+
+  const scan = useCallback(async () => {
+    if (!consentRef.current) {
+      setState((prev) => ({ ...prev, error: 'Consent is required before probing your network' }));
+      return;
+    }
+
+    setState((prev) => ({ ...prev, data: null, loading: true, error: null, progress: 0 }));
+
+    try {
+      const data = await probeLan({
+        onProgress: (progress) => setState((prev) => ({ ...prev, progress })),
+      });
+      setState((prev) => ({ ...prev, data, loading: false, progress: 100 }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: err instanceof Error ? err.message : 'LAN probe failed',
+        progress: 0,
+      }));
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setState((prev) => ({ ...prev, data: null, loading: false, error: null, progress: 0 }));
+  }, []);
+
+  return {
+    ...state,
+    setConsent,
+    scan,
+    reset,
+  };
+}
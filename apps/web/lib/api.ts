@@ -4,18 +4,28 @@
 
 import type {
   APIResponse,
+  AutomationReport,
+  AutomationSignals,
+  BrowserConfigSignals,
   DNSLeakResult,
+  DNSLeakTest,
+  HttpHeadersResult,
   IPLeakResult,
+  IPv6LeakResult,
+  IPv6LeakTest,
   PrivacyScore,
   ShareLinkOptions,
   ShareLinkResponse,
   SharedScan,
   SharedScanResponse,
+  TLSFingerprintResult,
   WebRTCLeakResult,
 } from '@browserleaks/types';
 import type { NetworkInsightsPayload } from '@/types/network';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
+// Self-hosted TLS capture server; the ClientHello is only visible to the server terminating TLS
+const TLS_CAPTURE_URL = process.env.NEXT_PUBLIC_TLS_CAPTURE_URL;
 
 const normalizeBaseUrl = (base: string) =>
   base.replace(/\/+$/, '').replace(/\/v1$/, '');
@@ -77,19 +87,31 @@ class APIClient {
     });
   }
 
-  async detectDNSLeak(
-    userIp?: string,
-    userCountry?: string
-  ): Promise<APIResponse<DNSLeakResult>> {
+  async startDNSLeakTest(): Promise<APIResponse<DNSLeakTest>> {
+    return this.request<DNSLeakTest>('/v1/dns-leak/tests', { method: 'POST' });
+  }
+
+  async detectDNSLeak(testId: string, userIp?: string): Promise<APIResponse<DNSLeakResult>> {
     return this.request<DNSLeakResult>('/v1/detect/dns-leak', {
       method: 'POST',
       body: JSON.stringify({
+        testId,
         userIp,
-        userCountry,
       }),
     });
   }
 
+  async startIPv6LeakTest(): Promise<APIResponse<IPv6LeakTest>> {
+    return this.request<IPv6LeakTest>('/v1/ipv6-leak/tests', { method: 'POST' });
+  }
+
+  async detectIPv6Leak(testId: string): Promise<APIResponse<IPv6LeakResult>> {
+    return this.request<IPv6LeakResult>('/v1/detect/ipv6-leak', {
+      method: 'POST',
+      body: JSON.stringify({ testId }),
+    });
+  }
+
   async detectWebRTCLeak(payload: {
     publicIp: string;
     localIPs: string[];
@@ -101,10 +123,18 @@ class APIClient {
     });
   }
 
+  async detectAutomation(signals: AutomationSignals): Promise<APIResponse<AutomationReport>> {
+    return this.request<AutomationReport>('/v1/detect/automation', {
+      method: 'POST',
+      body: JSON.stringify(signals),
+    });
+  }
+
   async calculatePrivacyScore(payload: {
     ipLeak?: IPLeakResult | null;
     dnsLeak?: DNSLeakResult | null;
     webrtcLeak?: WebRTCLeakResult | null;
+    browserConfig?: BrowserConfigSignals;
   }): Promise<APIResponse<PrivacyScore>> {
     return this.request<PrivacyScore>('/v1/privacy-score', {
       method: 'POST',
@@ -116,6 +146,14 @@ class APIClient {
     return this.request<NetworkInsightsPayload>('/v1/network/insights');
   }
 
+  async getHttpHeaders(): Promise<APIResponse<HttpHeadersResult>> {
+    return this.request<HttpHeadersResult>('/v1/http-headers');
+  }
+
+  async getTLSFingerprint(): Promise<APIResponse<TLSFingerprintResult>> {
+    return this.request<TLSFingerprintResult>('/v1/tls/fingerprint');
+  }
+
   async getHealth(): Promise<APIResponse<{ status: string }>> {
     return this.request('/health');
   }
@@ -135,10 +173,14 @@ class APIClient {
 }
 
 export const apiClient = new APIClient();
+export const tlsCaptureClient = TLS_CAPTURE_URL ? new APIClient(TLS_CAPTURE_URL) : apiClient;
 
 export type {
   IPLeakResult,
   DNSLeakResult,
+  DNSLeakTest,
+  IPv6LeakResult,
+  IPv6LeakTest,
   WebRTCLeakResult,
   APIResponse,
   PrivacyScore,
@@ -0,0 +1,296 @@
+/**
+ * Extension Detection Probe
+ * Shows how a page enumerates installed browser extensions: by loading their
+ * web accessible resources, and by spotting the elements, globals and styles
+ * they inject. The extensions come from a versioned catalogue, so entries can
+ * be added or refreshed without touching this module.
+ */
+
+import catalogueData from './data/extension-catalogue.json';
+
+export type ExtensionCategory =
+  | 'password-manager'
+  | 'ad-blocker'
+  | 'crypto-wallet'
+  | 'writing-assistant'
+  | 'appearance';
+
+export type DetectionMethod =
+  | 'web-accessible-resource' // chrome-extension://<id>/<path> loaded
+  | 'dom-mutation' // the extension added elements or attributes
+  | 'injected-global' // the extension defined a window property
+  | 'injected-style'; // the extension injected CSS
+
+export type ExtensionProbe =
+  | { method: 'web-accessible-resource'; path: string }
+  | { method: 'dom-mutation'; selector: string }
+  | { method: 'injected-global'; property: string } // dot-separated path from window
+  | { method: 'injected-style'; pattern: string }; // substring of a CSS rule
+
+export interface CatalogueExtension {
+  id: string;
+  name: string;
+  category: ExtensionCategory;
+  chromeId?: string; // Chrome Web Store id, also the extension's origin
+  firefoxId?: string; // Gecko id; Firefox origins are random per install
+  probes: ExtensionProbe[];
+  notes?: string;
+}
+
+export interface ExtensionCatalogue {
+  version: string;
+  extensions: CatalogueExtension[];
+}
+
+export interface ExtensionMatch {
+  method: DetectionMethod;
+  detail: string; // the resource, selector, property or pattern that matched
+}
+
+export interface DetectedExtension {
+  id: string;
+  name: string;
+  category: ExtensionCategory;
+  matches: ExtensionMatch[];
+}
+
+export interface ExtensionProbeResult {
+  catalogueVersion: string;
+  checked: number;
+  detected: DetectedExtension[];
+  unknownOrigins: string[]; // extension origins referenced by the page but not in the catalogue
+  mutationsObserved: number;
+  resourceProbes: number;
+  durationMs: number;
+}
+
+export interface ExtensionProbeOptions {
+  observeMs?: number;
+  timeoutMs?: number;
+}
+
+export const EXTENSION_CATALOGUE = catalogueData as ExtensionCatalogue;
+
+const DEFAULT_OBSERVE_MS = 1500;
+const DEFAULT_TIMEOUT_MS = 1000;
+
+const EXTENSION_ORIGIN_PATTERN = /\b(?:chrome|moz|safari-web)-extension:\/\/[\w-]+/g;
+
+/**
+ * Resolve a dot-separated path from window without triggering errors on the way
+ */
+function readGlobal(property: string): unknown {
+  let value: unknown = window;
+  for (const key of property.split('.')) {
+    if (value === null || value === undefined) return undefined;
+    try {
+      value = (value as Record<string, unknown>)[key];
+    } catch {
+      return undefined;
+    }
+  }
+  return value;
+}
+
+/**
+ * A login form and a text field, the inputs password managers and writing
+ * assistants attach to. Kept rendered, since extensions skip hidden fields.
+ */
+function plantDecoyForm(): HTMLElement {
+  const container = document.createElement('div');
+  container.setAttribute('aria-hidden', 'true');
+  container.style.cssText =
+    'position:fixed;left:0;bottom:0;width:320px;opacity:0.01;pointer-events:none;z-index:-1';
+  container.innerHTML = `
+    <form action="/login" method="post" autocomplete="on">
+      <input type="email" name="email" autocomplete="username" tabindex="-1">
+      <input type="password" name="password" autocomplete="current-password" tabindex="-1">
+      <button type="submit" tabindex="-1">Sign in</button>
+    </form>
+    <textarea name="message" rows="3" spellcheck="true" tabindex="-1"></textarea>
+  `;
+  document.body.appendChild(container);
+  return container;
+}
+
+/**
+ * Loading fails unless the extension is installed and lists the file in
+ * web_accessible_resources. Firefox and Safari use a random origin per
+ * install, and MV3's use_dynamic_url does the same, so only static Chromium
+ * origins can be probed.
+ */
+async function requestResource(url: string, timeoutMs: number): Promise<boolean> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    await fetch(url, { mode: 'no-cors', cache: 'no-store', signal: controller.signal });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function collectStyleRules(): string[] {
+  const sheets = [...Array.from(document.styleSheets), ...(document.adoptedStyleSheets ?? [])];
+  const rules: string[] = [];
+
+  for (const sheet of sheets) {
+    try {
+      for (const rule of Array.from(sheet.cssRules)) rules.push(rule.cssText);
+    } catch {
+      // Cross-origin sheets cannot be read
+    }
+  }
+  return rules;
+}
+
+/**
+ * Extension URLs in src/href attributes, stylesheets and loaded resources
+ */
+function collectExtensionOrigins(elements: Iterable<Element>): Set<string> {
+  const sources: string[] = [];
+
+  for (const element of elements) {
+    for (const attribute of ['src', 'href']) {
+      const value = element.getAttribute(attribute);
+      if (value) sources.push(value);
+    }
+  }
+  for (const sheet of Array.from(document.styleSheets)) {
+    if (sheet.href) sources.push(sheet.href);
+  }
+  for (const entry of performance.getEntriesByType?.('resource') ?? []) {
+    sources.push(entry.name);
+  }
+
+  return new Set(sources.flatMap((source) => source.match(EXTENSION_ORIGIN_PATTERN) ?? []));
+}
+
+/**
+ * Probe for every extension in the catalogue. Watches the page, including a
+ * decoy login form, for injected elements while the resource requests run.
+ */
+export async function probeExtensions(
+  catalogue: ExtensionCatalogue = EXTENSION_CATALOGUE,
+  options: ExtensionProbeOptions = {}
+): Promise<ExtensionProbeResult> {
+  const { observeMs = DEFAULT_OBSERVE_MS, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+  const start = performance.now();
+
+  const decoy = plantDecoyForm();
+  const mutated = new Set<Element>();
+  let mutationsObserved = 0;
+
+  const observer = new MutationObserver((records) => {
+    for (const record of records) {
+      mutationsObserved++;
+      if (record.type === 'attributes') {
+        mutated.add(record.target as Element);
+      }
+      for (const node of Array.from(record.addedNodes)) {
+        if (node instanceof Element) mutated.add(node);
+      }
+    }
+  });
+  observer.observe(document.documentElement, { subtree: true, childList: true, attributes: true });
+
+  try {
+    const resourceProbes = catalogue.extensions.flatMap((extension) =>
+      extension.chromeId
+        ? extension.probes.flatMap((probe) =>
+            probe.method === 'web-accessible-resource'
+              ? [{ extension, url: `chrome-extension://${extension.chromeId}/${probe.path}` }]
+              : []
+          )
+        : []
+    );
+
+    const [loaded] = await Promise.all([
+      Promise.all(resourceProbes.map(({ url }) => requestResource(url, timeoutMs))),
+      new Promise((resolve) => setTimeout(resolve, observeMs)),
+    ]);
+
+    observer.disconnect();
+
+    const matches = new Map<string, ExtensionMatch[]>();
+    const addMatch = (extension: CatalogueExtension, match: ExtensionMatch) => {
+      matches.set(extension.id, [...(matches.get(extension.id) ?? []), match]);
+    };
+
+    resourceProbes.forEach(({ extension, url }, index) => {
+      if (loaded[index]) addMatch(extension, { method: 'web-accessible-resource', detail: url });
+    });
+
+    const styleRules = collectStyleRules();
+
+    for (const extension of catalogue.extensions) {
+      for (const probe of extension.probes) {
+        try {
+          switch (probe.method) {
+            case 'dom-mutation':
+              // Present from load, or added while we watched
+              if (
+                document.querySelector(probe.selector) ||
+                Array.from(mutated).some((element) => element.matches(probe.selector))
+              ) {
+                addMatch(extension, { method: 'dom-mutation', detail: probe.selector });
+              }
+              break;
+            case 'injected-global':
+              if (readGlobal(probe.property)) {
+                addMatch(extension, {
+                  method: 'injected-global',
+                  detail: `window.${probe.property}`,
+                });
+              }
+              break;
+            case 'injected-style':
+              if (styleRules.some((rule) => rule.includes(probe.pattern))) {
+                addMatch(extension, { method: 'injected-style', detail: probe.pattern });
+              }
+              break;
+          }
+        } catch {
+          // A malformed entry, like an invalid selector, only skips its own probe
+        }
+      }
+    }
+
+    // Resources an extension injected itself reveal its origin for free
+    const unknownOrigins: string[] = [];
+    for (const origin of collectExtensionOrigins([
+      ...mutated,
+      ...document.querySelectorAll('[src], [href]'),
+    ])) {
+      const extension = catalogue.extensions.find(
+        ({ chromeId }) => chromeId && origin === `chrome-extension://${chromeId}`
+      );
+      if (extension) {
+        addMatch(extension, { method: 'dom-mutation', detail: origin });
+      } else {
+        unknownOrigins.push(origin);
+      }
+    }
+
+    const detected: DetectedExtension[] = catalogue.extensions.flatMap(({ id, name, category }) => {
+      const found = matches.get(id);
+      return found ? [{ id, name, category, matches: found }] : [];
+    });
+
+    return {
+      catalogueVersion: catalogue.version,
+      checked: catalogue.extensions.length,
+      detected,
+      unknownOrigins,
+      mutationsObserved,
+      resourceProbes: resourceProbes.length,
+      durationMs: Math.round(performance.now() - start),
+    };
+  } finally {
+    observer.disconnect();
+    decoy.remove();
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * LAN Exposure Probe
+ * Shows what any web page can learn about the visitor's local network: local
+ * addresses leaked through WebRTC host candidates, and which devices answer
+ * timed requests. Everything runs and stays in the browser; results must never
+ * be sent to the API.
+ */
+
+export type LanProbeStatus =
+  | 'open' // a service answered
+  | 'responding' // the request failed before timing out, so something is there
+  | 'blocked' // the browser refused the request without touching the network
+  | 'silent'; // nothing answered before the timeout
+
+/**
+ * Whether the browser lets this page reach private addresses (Private Network
+ * Access / Local Network Access)
+ */
+export type LanAccessPolicy = 'allowed' | 'blocked' | 'prompt' | 'unknown';
+
+export interface LanService {
+  port: number;
+  scheme: 'http' | 'https';
+  service: string;
+  device: string;
+}
+
+export interface LanServiceResult extends LanService {
+  status: LanProbeStatus;
+  latencyMs: number;
+}
+
+export interface LanHostResult {
+  ip: string;
+  reachable: boolean;
+  services: LanServiceResult[];
+}
+
+export interface LanProbeResult {
+  targetSource: 'webrtc' | 'common-gateways';
+  localAddresses: string[]; // private IPv4 host candidates exposed by WebRTC
+  mdnsObfuscated: boolean; // the browser replaced host candidates with .local names
+  policy: LanAccessPolicy;
+  hosts: LanHostResult[];
+  probesSent: number;
+  durationMs: number;
+}
+
+export interface LanProbeOptions {
+  timeoutMs?: number;
+  concurrency?: number;
+  onProgress?: (progress: number) => void;
+}
+
+type RequestOutcome = 'resolved' | 'rejected' | 'timeout';
+
+export const LAN_SERVICES: LanService[] = [
+  { port: 80, scheme: 'http', service: 'HTTP admin', device: 'Router' },
+  { port: 443, scheme: 'https', service: 'HTTPS admin', device: 'Router' },
+  { port: 8080, scheme: 'http', service: 'HTTP (alt)', device: 'Router / camera' },
+  { port: 631, scheme: 'http', service: 'IPP', device: 'Printer' },
+  { port: 9100, scheme: 'http', service: 'JetDirect', device: 'Printer' },
+  { port: 5000, scheme: 'http', service: 'DSM', device: 'Synology NAS' },
+  { port: 5001, scheme: 'https', service: 'DSM (TLS)', device: 'Synology NAS' },
+  { port: 32400, scheme: 'http', service: 'Plex', device: 'Media server' },
+];
+
+// Default router addresses of common vendors and ISPs
+export const COMMON_GATEWAYS = [
+  '192.168.0.1',
+  '192.168.1.1',
+  '192.168.1.254',
+  '192.168.2.1',
+  '10.0.0.1',
+  '10.0.0.138',
+];
+
+// Private, but almost never assigned: a fast failure here means the browser blocked the request
+const CONTROL_TARGET = 'https://10.255.255.254:1/';
+
+const DEFAULT_TIMEOUT_MS = 1500;
+const DEFAULT_CONCURRENCY = 6;
+const CANDIDATE_TIMEOUT_MS = 2000;
+const MAX_SUBNETS = 2;
+
+const PRIVATE_IPV4 = /^(10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.)/;
+
+/**
+ * Gather host ICE candidates without contacting any STUN server
+ */
+export async function getHostCandidates(
+  timeoutMs = CANDIDATE_TIMEOUT_MS
+): Promise<{ addresses: string[]; mdnsObfuscated: boolean }> {
+  if (typeof RTCPeerConnection === 'undefined') {
+    return { addresses: [], mdnsObfuscated: false };
+  }
+
+  const addresses = new Set<string>();
+  let mdnsObfuscated = false;
+  const pc = new RTCPeerConnection({ iceServers: [] });
+
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, timeoutMs);
+
+    pc.onicecandidate = (event) => {
+      if (!event.candidate) {
+        clearTimeout(timer);
+        resolve();
+        return;
+      }
+
+      const address = event.candidate.candidate.split(' ')[4] ?? '';
+      if (address.endsWith('.local')) mdnsObfuscated = true;
+      else if (PRIVATE_IPV4.test(address)) addresses.add(address);
+    };
+
+    pc.createDataChannel('');
+    pc.createOffer()
+      .then((offer) => pc.setLocalDescription(offer))
+      .catch(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+  });
+
+  pc.close();
+  return { addresses: [...addresses], mdnsObfuscated };
+}
+
+/**
+ * Hosts worth probing: the usual gateway addresses (.1 and .254) of the subnets
+ * WebRTC revealed, or well-known router defaults when it revealed nothing
+ */
+export function buildProbeTargets(localAddresses: string[]): string[] {
+  const subnets = [
+    ...new Set(localAddresses.map((ip) => ip.split('.').slice(0, 3).join('.'))),
+  ].slice(0, MAX_SUBNETS);
+
+  if (subnets.length === 0) return COMMON_GATEWAYS;
+
+  return subnets.flatMap((subnet) => [`${subnet}.1`, `${subnet}.254`]);
+}
+
+export function classifyProbe(outcome: RequestOutcome, policy: LanAccessPolicy): LanProbeStatus {
+  if (outcome === 'resolved') return 'open';
+  if (outcome === 'timeout') return 'silent';
+  // Once the browser is known to block private requests, a failure says nothing about the host
+  return policy === 'blocked' ? 'blocked' : 'responding';
+}
+
+/**
+ * Time a request that the page cannot read. fetch is used where allowed; plain
+ * HTTP from an HTTPS page is mixed content, so those go through an <img> instead.
+ */
+async function timeRequest(
+  url: string,
+  timeoutMs: number
+): Promise<{ outcome: RequestOutcome; elapsedMs: number }> {
+  const start = performance.now();
+  const elapsed = () => Math.round(performance.now() - start);
+  const useImage =
+    typeof location !== 'undefined' && location.protocol === 'https:' && url.startsWith('http:');
+
+  if (useImage) {
+    const outcome = await new Promise<RequestOutcome>((resolve) => {
+      const img = new Image();
+      const timer = setTimeout(() => {
+        img.src = '';
+        resolve('timeout');
+      }, timeoutMs);
+      img.onload = () => {
+        clearTimeout(timer);
+        resolve('resolved');
+      };
+      img.onerror = () => {
+        clearTimeout(timer);
+        resolve('rejected');
+      };
+      img.src = url;
+    });
+    return { outcome, elapsedMs: elapsed() };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    await fetch(url, {
+      mode: 'no-cors',
+      cache: 'no-store',
+      credentials: 'omit',
+      signal: controller.signal,
+    });
+    return { outcome: 'resolved', elapsedMs: elapsed() };
+  } catch {
+    return { outcome: controller.signal.aborted ? 'timeout' : 'rejected', elapsedMs: elapsed() };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Work out whether the browser lets this page reach private addresses: ask the
+ * Local Network Access permission where it exists, otherwise send a control
+ * request to an unused private address, which only fails fast when blocked
+ */
+export async function detectLanAccessPolicy(
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<LanAccessPolicy> {
+  try {
+    const permission = await navigator.permissions?.query({
+      name: 'local-network-access' as PermissionName,
+    });
+    if (permission?.state === 'granted') return 'allowed';
+    if (permission?.state === 'denied') return 'blocked';
+    if (permission?.state === 'prompt') return 'prompt';
+  } catch {
+    // Permission not known to this browser
+  }
+
+  const { outcome, elapsedMs } = await timeRequest(CONTROL_TARGET, timeoutMs);
+  if (outcome === 'timeout') return 'allowed';
+  return elapsedMs < timeoutMs / 10 ? 'blocked' : 'unknown';
+}
+
+async function runPool<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+}
+
+/**
+ * Probe the visitor's local network. Only call this after the visitor agreed to it.
+ */
+export async function probeLan(options: LanProbeOptions = {}): Promise<LanProbeResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const started = performance.now();
+
+  const [{ addresses, mdnsObfuscated }, policy] = await Promise.all([
+    getHostCandidates(),
+    detectLanAccessPolicy(timeoutMs),
+  ]);
+  options.onProgress?.(10);
+
+  const targets = buildProbeTargets(addresses);
+  const probes = targets.flatMap((ip) => LAN_SERVICES.map((service) => ({ ip, service })));
+  let done = 0;
+
+  const results = await runPool(
+    probes.map(({ ip, service }) => async () => {
+      const { outcome, elapsedMs } = await timeRequest(
+        `${service.scheme}://${ip}:${service.port}/`,
+        timeoutMs
+      );
+      done++;
+      options.onProgress?.(10 + Math.round((done / probes.length) * 90));
+      return {
+        ip,
+        result: { ...service, status: classifyProbe(outcome, policy), latencyMs: elapsedMs },
+      };
+    }),
+    options.concurrency ?? DEFAULT_CONCURRENCY
+  );
+
+  const hosts: LanHostResult[] = targets.map((ip) => {
+    const services = results.filter((entry) => entry.ip === ip).map((entry) => entry.result);
+    return {
+      ip,
+      reachable: services.some(
+        (service) => service.status === 'open' || service.status === 'responding'
+      ),
+      services,
+    };
+  });
+
+  return {
+    targetSource: addresses.length > 0 ? 'webrtc' : 'common-gateways',
+    localAddresses: addresses,
+    mdnsObfuscated,
+    policy,
+    hosts,
+    probesSent: probes.length,
+    durationMs: Math.round(performance.now() - started),
+  };
+}
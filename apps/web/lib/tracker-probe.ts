@@ -0,0 +1,298 @@
+/**
+ * Tracker Blocking Probe
+ * Requests first-party stand-ins for tracker resources whose paths and query
+ * parameters match generic filter list rules. The API of the tracker itself is
+ * never contacted, so a failed request can only mean something in the browser
+ * (or a DNS/proxy filter in front of it) matched the rule.
+ */
+
+export type TrackerCategory = 'analytics' | 'advertising' | 'social' | 'fingerprint';
+
+export type TrackerVerdict = 'blocked' | 'allowed' | 'inconclusive';
+
+export type VerdictConfidence = 'high' | 'medium' | 'low';
+
+export type ProbeOutcome =
+  | 'served' // our endpoint answered
+  | 'replaced' // something else answered, e.g. a blocker's surrogate script
+  | 'http-error' // a server answered with an error status
+  | 'network-error' // the request failed
+  | 'timeout'; // nothing answered before the timeout
+
+export interface TrackerRule {
+  name: string;
+  company: string;
+  category: TrackerCategory;
+  list: 'EasyPrivacy' | "Fanboy's Social";
+  rule: string; // the filter that the path is built to match
+  path: string; // relative to PROBE_BASE_PATH
+}
+
+export interface TrackerProbe extends TrackerRule {
+  verdict: TrackerVerdict;
+  confidence: VerdictConfidence;
+  outcome: ProbeOutcome;
+  elapsedMs: number;
+}
+
+export interface TrackerProbeResult {
+  probes: TrackerProbe[];
+  categories: Record<TrackerCategory, { total: number; blocked: number }>;
+  blockedCategories: TrackerCategory[]; // categories with at least one confident block
+  controlLatencyMs: number;
+}
+
+// Served by app/lab-assets/[...path]/route.ts; the name itself matches no list
+export const PROBE_BASE_PATH = '/lab-assets';
+export const PROBE_MARKER = 'browserleaks-tracker-probe';
+
+// Never matches a rule, so it tells a blocked request from an unreachable endpoint
+const CONTROL_PATH = 'control.txt';
+
+const DEFAULT_TIMEOUT_MS = 3000;
+// Blocked requests fail before touching the network, well under a real round trip
+const FAST_FAILURE_MS = 20;
+
+/**
+ * Generic rules (no domain or resource type options), so they apply to a
+ * first-party fetch. Lists change; refresh a rule when it stops matching.
+ * Categories follow Disconnect's tracker categories.
+ */
+export const TRACKER_RULES: TrackerRule[] = [
+  // Analytics
+  {
+    name: 'Google Analytics',
+    company: 'Google',
+    category: 'analytics',
+    list: 'EasyPrivacy',
+    rule: '/ga.js',
+    path: 'ga.js',
+  },
+  {
+    name: 'Google Tag Manager',
+    company: 'Google',
+    category: 'analytics',
+    list: 'EasyPrivacy',
+    rule: '/gtm.js',
+    path: 'gtm.js?id=GTM-TEST',
+  },
+  {
+    name: 'GA Measurement Protocol',
+    company: 'Google',
+    category: 'analytics',
+    list: 'EasyPrivacy',
+    rule: '/collect?v=',
+    path: 'collect?v=2&tid=G-TEST&en=page_view',
+  },
+  {
+    name: 'Matomo',
+    company: 'InnoCraft',
+    category: 'analytics',
+    list: 'EasyPrivacy',
+    rule: '/matomo.js',
+    path: 'matomo.js',
+  },
+  {
+    name: 'Hotjar',
+    company: 'Contentsquare',
+    category: 'analytics',
+    list: 'EasyPrivacy',
+    rule: '/hotjar-',
+    path: 'hotjar-1234567.js',
+  },
+  {
+    name: 'Microsoft Clarity',
+    company: 'Microsoft',
+    category: 'analytics',
+    list: 'EasyPrivacy',
+    rule: '/clarity.js',
+    path: 'clarity.js',
+  },
+
+  // Advertising
+  {
+    name: 'Facebook Pixel',
+    company: 'Meta',
+    category: 'advertising',
+    list: 'EasyPrivacy',
+    rule: '/fbevents.js',
+    path: 'fbevents.js',
+  },
+  {
+    name: 'Click ID beacon',
+    company: 'Meta',
+    category: 'advertising',
+    list: 'EasyPrivacy',
+    rule: '/pixel?',
+    path: 'pixel?fbclid=IwAR0test',
+  },
+  {
+    name: 'Google Ads conversion',
+    company: 'Google',
+    category: 'advertising',
+    list: 'EasyPrivacy',
+    rule: '/pagead/conversion.js',
+    path: 'pagead/conversion.js',
+  },
+  {
+    name: 'Tracking pixel',
+    company: 'Generic',
+    category: 'advertising',
+    list: 'EasyPrivacy',
+    rule: '/pixel.gif?',
+    path: 'pixel.gif?uid=test',
+  },
+
+  // Social
+  {
+    name: 'X website tag',
+    company: 'X Corp',
+    category: 'social',
+    list: 'EasyPrivacy',
+    rule: '/uwt.js',
+    path: 'uwt.js',
+  },
+  {
+    name: 'LinkedIn Insight',
+    company: 'Microsoft',
+    category: 'social',
+    list: 'EasyPrivacy',
+    rule: '/insight.min.js',
+    path: 'insight.min.js',
+  },
+  {
+    name: 'Pinterest widgets',
+    company: 'Pinterest',
+    category: 'social',
+    list: "Fanboy's Social",
+    rule: '/pinit.js',
+    path: 'pinit.js',
+  },
+
+  // Fingerprinting
+  {
+    name: 'FingerprintJS',
+    company: 'Fingerprint',
+    category: 'fingerprint',
+    list: 'EasyPrivacy',
+    rule: '/fingerprint2.',
+    path: 'fingerprint2.min.js',
+  },
+  {
+    name: 'Fingerprint script',
+    company: 'Generic',
+    category: 'fingerprint',
+    list: 'EasyPrivacy',
+    rule: '/fingerprint.js',
+    path: 'fingerprint.js',
+  },
+  {
+    name: 'Evercookie',
+    company: 'Open source',
+    category: 'fingerprint',
+    list: 'EasyPrivacy',
+    rule: '/evercookie.',
+    path: 'evercookie.js',
+  },
+];
+
+/**
+ * Turn what happened to a request into a verdict. Blockers cancel requests
+ * before they leave the browser, so a failure faster than half the control
+ * round trip is almost certainly a block; a slow failure may be the network.
+ */
+export function classifyProbe(
+  outcome: ProbeOutcome,
+  elapsedMs: number,
+  controlLatencyMs: number
+): { verdict: TrackerVerdict; confidence: VerdictConfidence } {
+  switch (outcome) {
+    case 'served':
+      return { verdict: 'allowed', confidence: 'high' };
+    case 'replaced':
+      return { verdict: 'blocked', confidence: 'high' };
+    case 'http-error':
+      // Reached a server, but possibly a filtering proxy's block page
+      return { verdict: 'allowed', confidence: 'medium' };
+    case 'network-error':
+      return {
+        verdict: 'blocked',
+        confidence:
+          elapsedMs <= Math.max(FAST_FAILURE_MS, controlLatencyMs / 2) ? 'high' : 'medium',
+      };
+    case 'timeout':
+      return { verdict: 'inconclusive', confidence: 'low' };
+  }
+}
+
+async function requestProbe(
+  path: string,
+  timeoutMs: number
+): Promise<{ outcome: ProbeOutcome; elapsedMs: number }> {
+  const start = performance.now();
+  const elapsed = () => Math.round(performance.now() - start);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(`${PROBE_BASE_PATH}/${path}`, {
+      cache: 'no-store',
+      credentials: 'omit',
+      signal: controller.signal,
+    });
+    if (!response.ok) return { outcome: 'http-error', elapsedMs: elapsed() };
+
+    const body = await response.text();
+    return { outcome: body === PROBE_MARKER ? 'served' : 'replaced', elapsedMs: elapsed() };
+  } catch {
+    return {
+      outcome: controller.signal.aborted ? 'timeout' : 'network-error',
+      elapsedMs: elapsed(),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Request every tracker stand-in in turn; one at a time so the timings are comparable
+ */
+export async function probeTrackerBlocking(
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<TrackerProbeResult> {
+  const control = await requestProbe(CONTROL_PATH, timeoutMs);
+  if (control.outcome !== 'served') {
+    throw new Error('Tracker test endpoint is unreachable');
+  }
+
+  const probes: TrackerProbe[] = [];
+  for (const rule of TRACKER_RULES) {
+    const { outcome, elapsedMs } = await requestProbe(rule.path, timeoutMs);
+    probes.push({
+      ...rule,
+      ...classifyProbe(outcome, elapsedMs, control.elapsedMs),
+      outcome,
+      elapsedMs,
+    });
+  }
+
+  const categories: TrackerProbeResult['categories'] = {
+    analytics: { total: 0, blocked: 0 },
+    advertising: { total: 0, blocked: 0 },
+    social: { total: 0, blocked: 0 },
+    fingerprint: { total: 0, blocked: 0 },
+  };
+  for (const probe of probes) {
+    categories[probe.category].total++;
+    if (probe.verdict === 'blocked') categories[probe.category].blocked++;
+  }
+
+  const blockedCategories = (Object.keys(categories) as TrackerCategory[]).filter((category) =>
+    probes.some(
+      (probe) =>
+        probe.category === category && probe.verdict === 'blocked' && probe.confidence === 'high'
+    )
+  );
+
+  return { probes, categories, blockedCategories, controlLatencyMs: control.elapsedMs };
+}
@@ -1,16 +1,25 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { useDNSDetect } from '@/hooks/useDNSDetect';
 
 // Mock the API client
 vi.mock('@/lib/api', () => ({
   apiClient: {
+    startDNSLeakTest: vi.fn(),
     detectDNSLeak: vi.fn(),
   },
 }));
 
 import { apiClient } from '@/lib/api';
 
+const TEST_ID = 'a'.repeat(32);
+
+const mockDNSLeakTest = {
+  testId: TEST_ID,
+  probes: [`p1.${TEST_ID}.dnsleak.test`, `p2.${TEST_ID}.dnsleak.test`],
+  expiresAt: '2026-01-01T00:10:00.000Z',
+};
+
 const mockDNSLeakResult = {
   testId: 'test-123',
   servers: [
@@ -57,8 +66,19 @@ const mockDNSLeakWithLeak = {
 };
 
 describe('useDNSDetect', () => {
+  const mockFetch = vi.fn();
+
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.stubGlobal('fetch', mockFetch.mockResolvedValue({ type: 'opaque' }));
+    vi.mocked(apiClient.startDNSLeakTest).mockResolvedValue({
+      success: true,
+      data: mockDNSLeakTest,
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
   });
 
   it('should return initial state', () => {
@@ -86,10 +106,10 @@ describe('useDNSDetect', () => {
 
     await waitFor(() => {
       expect(result.current.loading).toBe(false);
-    });
+    }, { timeout: 2000 });
   });
 
-  it('should detect DNS leak without parameters', async () => {
+  it('should resolve every probe before collecting the result', async () => {
     vi.mocked(apiClient.detectDNSLeak).mockResolvedValueOnce({
       success: true,
       data: mockDNSLeakResult,
@@ -101,15 +121,19 @@ describe('useDNSDetect', () => {
       await result.current.detect();
     });
 
-    expect(apiClient.detectDNSLeak).toHaveBeenCalledWith(undefined, undefined);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch).toHaveBeenCalledWith(
+      `https://p1.${TEST_ID}.dnsleak.test/`,
+      expect.objectContaining({ mode: 'no-cors', cache: 'no-store' })
+    );
+    expect(apiClient.detectDNSLeak).toHaveBeenCalledWith(TEST_ID, undefined);
     expect(result.current.data).toEqual(mockDNSLeakResult);
     expect(result.current.loading).toBe(false);
     expect(result.current.error).toBeNull();
   });
 
-  it('should detect DNS leak with user IP and country', async () => {
+  it('should detect DNS leak with user IP', async () => {
     const userIp = '192.168.1.100';
-    const userCountry = 'US';
 
     vi.mocked(apiClient.detectDNSLeak).mockResolvedValueOnce({
       success: true,
@@ -119,11 +143,44 @@ describe('useDNSDetect', () => {
     const { result } = renderHook(() => useDNSDetect());
 
     await act(async () => {
-      await result.current.detect(userIp, userCountry);
+      await result.current.detect(userIp);
+    });
+
+    expect(apiClient.detectDNSLeak).toHaveBeenCalledWith(TEST_ID, userIp);
+    expect(result.current.data).toEqual(mockDNSLeakResult);
+  });
+
+  it('should collect the result when probes fail to connect', async () => {
+    mockFetch.mockRejectedValue(new TypeError('Failed to fetch'));
+    vi.mocked(apiClient.detectDNSLeak).mockResolvedValueOnce({
+      success: true,
+      data: mockDNSLeakResult,
+    });
+
+    const { result } = renderHook(() => useDNSDetect());
+
+    await act(async () => {
+      await result.current.detect();
     });
 
-    expect(apiClient.detectDNSLeak).toHaveBeenCalledWith(userIp, userCountry);
     expect(result.current.data).toEqual(mockDNSLeakResult);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should report when the test cannot be started', async () => {
+    vi.mocked(apiClient.startDNSLeakTest).mockResolvedValueOnce({
+      success: false,
+      error: { code: 'DNS_LEAK_TEST_ERROR', message: 'Store unavailable' },
+    });
+
+    const { result } = renderHook(() => useDNSDetect());
+
+    await act(async () => {
+      await result.current.detect();
+    });
+
+    expect(apiClient.detectDNSLeak).not.toHaveBeenCalled();
+    expect(result.current.error).toBe('Store unavailable');
   });
 
   it('should detect DNS leak and report leak correctly', async () => {
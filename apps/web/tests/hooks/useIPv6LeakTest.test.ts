@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useIPv6LeakTest } from '@/hooks/useIPv6LeakTest';
+
+// Mock the API client
+vi.mock('@/lib/api', () => ({
+  apiClient: {
+    startIPv6LeakTest: vi.fn(),
+    detectIPv6Leak: vi.fn(),
+  },
+}));
+
+import { apiClient } from '@/lib/api';
+
+const TEST_ID = 'b'.repeat(32);
+
+const mockIPv6LeakTest = {
+  testId: TEST_ID,
+  probes: {
+    ipv4: `https://ipv4.leak.test/v1/ipv6-leak/tests/${TEST_ID}/ipv4`,
+    ipv6: `https://ipv6.leak.test/v1/ipv6-leak/tests/${TEST_ID}/ipv6`,
+    dual: `https://api.leak.test/v1/ipv6-leak/tests/${TEST_ID}/dual`,
+  },
+  expiresAt: '2026-01-01T00:10:00.000Z',
+};
+
+const mockIPv6LeakResult = {
+  testId: TEST_ID,
+  isLeak: true,
+  ipv6Reachable: true,
+  preferredFamily: 'ipv6' as const,
+  probes: [
+    { endpoint: 'ipv4' as const, reached: true, ip: '203.0.113.10', version: 'ipv4' as const },
+    { endpoint: 'ipv6' as const, reached: true, ip: '2001:db8:1:2::10', version: 'ipv6' as const },
+    { endpoint: 'dual' as const, reached: true, ip: '2001:db8:1:2::10', version: 'ipv6' as const },
+  ],
+  risks: [
+    {
+      severity: 'critical' as const,
+      title: 'IPv6 Leak Detected',
+      description: 'IPv6 traffic goes around the tunnel',
+    },
+  ],
+  recommendations: ['Use a VPN that tunnels IPv6, or enable its IPv6 leak protection'],
+};
+
+describe('useIPv6LeakTest', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', mockFetch.mockResolvedValue({ type: 'opaque' }));
+    vi.mocked(apiClient.startIPv6LeakTest).mockResolvedValue({
+      success: true,
+      data: mockIPv6LeakTest,
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should fetch every probe endpoint before collecting the result', async () => {
+    vi.mocked(apiClient.detectIPv6Leak).mockResolvedValueOnce({
+      success: true,
+      data: mockIPv6LeakResult,
+    });
+
+    const { result } = renderHook(() => useIPv6LeakTest());
+
+    await act(async () => {
+      await result.current.detect();
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(mockFetch).toHaveBeenCalledWith(
+      mockIPv6LeakTest.probes.ipv6,
+      expect.objectContaining({ mode: 'no-cors', cache: 'no-store' })
+    );
+    expect(apiClient.detectIPv6Leak).toHaveBeenCalledWith(TEST_ID);
+    expect(result.current.data).toEqual(mockIPv6LeakResult);
+    expect(result.current.loading).toBe(false);
+  });
+
+  it('should collect the result when an endpoint is unreachable', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url === mockIPv6LeakTest.probes.ipv6) throw new TypeError('Failed to fetch');
+      return { type: 'opaque' };
+    });
+    vi.mocked(apiClient.detectIPv6Leak).mockResolvedValueOnce({
+      success: true,
+      data: { ...mockIPv6LeakResult, isLeak: false, ipv6Reachable: false },
+    });
+
+    const { result } = renderHook(() => useIPv6LeakTest());
+
+    await act(async () => {
+      await result.current.detect();
+    });
+
+    expect(result.current.data?.ipv6Reachable).toBe(false);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should report when the test cannot be started', async () => {
+    vi.mocked(apiClient.startIPv6LeakTest).mockResolvedValueOnce({
+      success: false,
+      error: { code: 'IPV6_LEAK_TEST_ERROR', message: 'Store unavailable' },
+    });
+
+    const { result } = renderHook(() => useIPv6LeakTest());
+
+    await act(async () => {
+      await result.current.detect();
+    });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(apiClient.detectIPv6Leak).not.toHaveBeenCalled();
+    expect(result.current.error).toBe('Store unavailable');
+  });
+
+  it('should use the default error message when detection fails without one', async () => {
+    vi.mocked(apiClient.detectIPv6Leak).mockResolvedValueOnce({
+      success: false,
+      error: {},
+    });
+
+    const { result } = renderHook(() => useIPv6LeakTest());
+
+    await act(async () => {
+      await result.current.detect();
+    });
+
+    expect(result.current.data).toBeNull();
+    expect(result.current.error).toBe('Failed to detect IPv6 leak');
+  });
+
+  it('should reset state', async () => {
+    vi.mocked(apiClient.detectIPv6Leak).mockResolvedValueOnce({
+      success: true,
+      data: mockIPv6LeakResult,
+    });
+
+    const { result } = renderHook(() => useIPv6LeakTest());
+
+    await act(async () => {
+      await result.current.detect();
+    });
+
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.data).toBeNull();
+    expect(result.current.error).toBeNull();
+  });
+});
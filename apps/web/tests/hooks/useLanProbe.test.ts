@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useLanProbe } from '@/hooks/useLanProbe';
+
+vi.mock('@/lib/lan-probe', () => ({
+  probeLan: vi.fn(),
+}));
+
+import { probeLan } from '@/lib/lan-probe';
+
+const mockResult = {
+  targetSource: 'webrtc' as const,
+  localAddresses: ['192.168.1.23'],
+  mdnsObfuscated: false,
+  policy: 'allowed' as const,
+  hosts: [
+    {
+      ip: '192.168.1.1',
+      reachable: true,
+      services: [
+        {
+          port: 80,
+          scheme: 'http' as const,
+          service: 'HTTP admin',
+          device: 'Router',
+          status: 'open' as const,
+          latencyMs: 4,
+        },
+      ],
+    },
+  ],
+  probesSent: 16,
+  durationMs: 1800,
+};
+
+describe('useLanProbe', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should not probe before consent is given', async () => {
+    const { result } = renderHook(() => useLanProbe());
+
+    await act(async () => {
+      await result.current.scan();
+    });
+
+    expect(probeLan).not.toHaveBeenCalled();
+    expect(result.current.error).toBe('Consent is required before probing your network');
+  });
+
+  it('should probe after consent and keep the results local', async () => {
+    vi.mocked(probeLan).mockImplementationOnce(async (options) => {
+      options?.onProgress?.(50);
+      return mockResult;
+    });
+
+    const { result } = renderHook(() => useLanProbe());
+
+    act(() => {
+      result.current.setConsent(true);
+    });
+    await act(async () => {
+      await result.current.scan();
+    });
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(probeLan).toHaveBeenCalledTimes(1);
+    expect(result.current.data).toEqual(mockResult);
+    expect(result.current.progress).toBe(100);
+  });
+
+  it('should handle probe failures', async () => {
+    vi.mocked(probeLan).mockRejectedValueOnce(new Error('RTCPeerConnection unavailable'));
+
+    const { result } = renderHook(() => useLanProbe());
+
+    act(() => {
+      result.current.setConsent(true);
+    });
+    await act(async () => {
+      await result.current.scan();
+    });
+
+    expect(result.current.data).toBeNull();
+    expect(result.current.error).toBe('RTCPeerConnection unavailable');
+  });
+
+  it('should stop probing when consent is withdrawn', async () => {
+    const { result } = renderHook(() => useLanProbe());
+
+    act(() => {
+      result.current.setConsent(true);
+      result.current.setConsent(false);
+    });
+    await act(async () => {
+      await result.current.scan();
+    });
+
+    expect(probeLan).not.toHaveBeenCalled();
+  });
+});
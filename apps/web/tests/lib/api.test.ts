@@ -71,8 +71,33 @@ describe('APIClient', () => {
     });
   });
 
+  describe('startDNSLeakTest', () => {
+    it('should start a DNS leak test', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          success: true,
+          data: {
+            testId: 'a'.repeat(32),
+            probes: [`p1.${'a'.repeat(32)}.dnsleak.test`],
+            expiresAt: '2026-01-01T00:10:00.000Z',
+          },
+        }),
+      });
+
+      const { apiClient } = await import('@/lib/api');
+      const result = await apiClient.startDNSLeakTest();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/v1/dns-leak/tests'),
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(result.data?.probes).toHaveLength(1);
+    });
+  });
+
   describe('detectDNSLeak', () => {
-    it('should detect DNS leak with user IP and country', async () => {
+    it('should detect DNS leak for a test and user IP', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () => Promise.resolve({
@@ -86,20 +111,20 @@ describe('APIClient', () => {
       });
 
       const { apiClient } = await import('@/lib/api');
-      const result = await apiClient.detectDNSLeak('192.168.1.1', 'US');
+      const result = await apiClient.detectDNSLeak('test-123', '192.168.1.1');
 
       expect(mockFetch).toHaveBeenCalledWith(
         expect.stringContaining('/v1/detect/dns-leak'),
         expect.objectContaining({
           method: 'POST',
-          body: JSON.stringify({ userIp: '192.168.1.1', userCountry: 'US' }),
+          body: JSON.stringify({ testId: 'test-123', userIp: '192.168.1.1' }),
         })
       );
       expect(result.success).toBe(true);
       expect(result.data?.isLeak).toBe(false);
     });
 
-    it('should detect DNS leak without parameters', async () => {
+    it('should detect DNS leak without a user IP', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () => Promise.resolve({
@@ -113,13 +138,13 @@ describe('APIClient', () => {
       });
 
       const { apiClient } = await import('@/lib/api');
-      const result = await apiClient.detectDNSLeak();
+      const result = await apiClient.detectDNSLeak('test-456');
 
       expect(mockFetch).toHaveBeenCalledWith(
         expect.stringContaining('/v1/detect/dns-leak'),
         expect.objectContaining({
           method: 'POST',
-          body: JSON.stringify({ userIp: undefined, userCountry: undefined }),
+          body: JSON.stringify({ testId: 'test-456', userIp: undefined }),
         })
       );
       expect(result.data?.isLeak).toBe(true);
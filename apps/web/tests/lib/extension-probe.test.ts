@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EXTENSION_CATALOGUE, probeExtensions } from '@/lib/extension-probe';
+
+const mockFetch = vi.fn();
+
+const METAMASK_RESOURCE = 'chrome-extension://nkbihfbeogaekoldlcahbkjcaamnhfmp/scripts/inpage.js';
+
+describe('extension-probe', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch);
+    mockFetch.mockReset();
+    mockFetch.mockRejectedValue(new TypeError('Failed to fetch'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    document.body.removeAttribute('data-gr-ext-installed');
+    document.head.innerHTML = '';
+  });
+
+  describe('EXTENSION_CATALOGUE', () => {
+    it('should be versioned with unique ids', () => {
+      expect(EXTENSION_CATALOGUE.version).toMatch(/^\d{4}\.\d+\.\d+$/);
+
+      const ids = EXTENSION_CATALOGUE.extensions.map((extension) => extension.id);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should give every extension a probe it can run', () => {
+      for (const extension of EXTENSION_CATALOGUE.extensions) {
+        expect(extension.probes.length).toBeGreaterThan(0);
+        if (extension.probes.some((probe) => probe.method === 'web-accessible-resource')) {
+          expect(extension.chromeId).toMatch(/^[a-p]{32}$/);
+        }
+      }
+    });
+
+    it('should only use selectors the DOM accepts', () => {
+      for (const extension of EXTENSION_CATALOGUE.extensions) {
+        for (const probe of extension.probes) {
+          if (probe.method === 'dom-mutation') {
+            expect(() => document.querySelector(probe.selector)).not.toThrow();
+          }
+        }
+      }
+    });
+  });
+
+  describe('probeExtensions', () => {
+    it('should report each detected extension with the method that found it', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        url === METAMASK_RESOURCE
+          ? Promise.resolve(new Response(null))
+          : Promise.reject(new TypeError('Failed to fetch'))
+      );
+      vi.stubGlobal('ethereum', { _metamask: {}, isMetaMask: true });
+
+      const style = document.createElement('style');
+      style.textContent = ':root { --darkreader-neutral-background: #131516; }';
+      document.head.appendChild(style);
+
+      // Injected while the probe watches, like a content script would
+      setTimeout(() => document.body.setAttribute('data-gr-ext-installed', ''), 10);
+
+      const result = await probeExtensions(EXTENSION_CATALOGUE, { observeMs: 50, timeoutMs: 50 });
+
+      expect(result.catalogueVersion).toBe(EXTENSION_CATALOGUE.version);
+      expect(result.checked).toBe(EXTENSION_CATALOGUE.extensions.length);
+      expect(result.detected.map((extension) => extension.id)).toEqual([
+        'metamask',
+        'grammarly',
+        'dark-reader',
+      ]);
+      expect(result.detected[0].matches).toEqual([
+        { method: 'web-accessible-resource', detail: METAMASK_RESOURCE },
+        { method: 'injected-global', detail: 'window.ethereum._metamask' },
+      ]);
+      expect(result.detected[1].matches).toEqual([
+        { method: 'dom-mutation', detail: '[data-gr-ext-installed]' },
+      ]);
+      expect(result.detected[2].matches).toEqual([
+        { method: 'injected-style', detail: '--darkreader-' },
+      ]);
+      expect(result.mutationsObserved).toBeGreaterThan(0);
+    });
+
+    it('should name extension origins that are not in the catalogue', async () => {
+      const image = document.createElement('img');
+      image.src = 'chrome-extension://abcdefghijklmnopabcdefghijklmnop/icon.png';
+      document.head.appendChild(image);
+
+      const result = await probeExtensions(EXTENSION_CATALOGUE, { observeMs: 10, timeoutMs: 10 });
+
+      expect(result.detected).toEqual([]);
+      expect(result.unknownOrigins).toEqual([
+        'chrome-extension://abcdefghijklmnopabcdefghijklmnop',
+      ]);
+    });
+
+    it('should skip a malformed probe and keep checking the rest', async () => {
+      document.body.setAttribute('data-gr-ext-installed', '');
+
+      const result = await probeExtensions(
+        {
+          version: '2026.10.0',
+          extensions: [
+            {
+              id: 'broken',
+              name: 'Broken',
+              category: 'appearance',
+              probes: [{ method: 'dom-mutation', selector: '[data-broken' }],
+            },
+            {
+              id: 'grammarly',
+              name: 'Grammarly',
+              category: 'writing-assistant',
+              probes: [{ method: 'dom-mutation', selector: '[data-gr-ext-installed]' }],
+            },
+          ],
+        },
+        { observeMs: 10, timeoutMs: 10 }
+      );
+
+      expect(result.detected.map((extension) => extension.id)).toEqual(['grammarly']);
+    });
+
+    it('should remove the decoy form afterwards', async () => {
+      await probeExtensions(EXTENSION_CATALOGUE, { observeMs: 10, timeoutMs: 10 });
+
+      expect(document.querySelector('input[type="password"]')).toBeNull();
+    });
+  });
+});
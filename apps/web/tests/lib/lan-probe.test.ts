@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  COMMON_GATEWAYS,
+  LAN_SERVICES,
+  buildProbeTargets,
+  classifyProbe,
+  detectLanAccessPolicy,
+  probeLan,
+} from '@/lib/lan-probe';
+
+const mockFetch = vi.fn();
+
+describe('lan-probe', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch);
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('buildProbeTargets', () => {
+    it('should probe the gateway addresses of subnets revealed by WebRTC', () => {
+      expect(buildProbeTargets(['192.168.50.23', '192.168.50.40', '10.8.0.6'])).toEqual([
+        '192.168.50.1',
+        '192.168.50.254',
+        '10.8.0.1',
+        '10.8.0.254',
+      ]);
+    });
+
+    it('should fall back to common router addresses', () => {
+      expect(buildProbeTargets([])).toEqual(COMMON_GATEWAYS);
+    });
+  });
+
+  describe('classifyProbe', () => {
+    it('should treat early failures as a responding host unless the browser blocks LAN requests', () => {
+      expect(classifyProbe('resolved', 'allowed')).toBe('open');
+      expect(classifyProbe('rejected', 'allowed')).toBe('responding');
+      expect(classifyProbe('rejected', 'blocked')).toBe('blocked');
+      expect(classifyProbe('timeout', 'allowed')).toBe('silent');
+    });
+  });
+
+  describe('detectLanAccessPolicy', () => {
+    it('should report blocked when the control request fails immediately', async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      expect(await detectLanAccessPolicy(200)).toBe('blocked');
+    });
+
+    it('should report allowed when the control request reaches the network', async () => {
+      mockFetch.mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new DOMException('aborted')));
+          })
+      );
+
+      expect(await detectLanAccessPolicy(50)).toBe('allowed');
+    });
+  });
+
+  describe('probeLan', () => {
+    it('should report which hosts respond without calling the API', async () => {
+      mockFetch.mockImplementation((url: string, init: RequestInit) => {
+        if (url === 'http://192.168.1.1:80/') return Promise.resolve(new Response(null));
+        if (url === 'https://192.168.1.1:443/') return Promise.reject(new TypeError('TLS'));
+        return new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new DOMException('aborted')));
+        });
+      });
+      const onProgress = vi.fn();
+
+      const result = await probeLan({ timeoutMs: 20, concurrency: 16, onProgress });
+
+      expect(result.targetSource).toBe('common-gateways');
+      expect(result.probesSent).toBe(COMMON_GATEWAYS.length * LAN_SERVICES.length);
+      expect(result.hosts.filter((host) => host.reachable).map((host) => host.ip)).toEqual([
+        '192.168.1.1',
+      ]);
+      expect(result.hosts.find((host) => host.ip === '192.168.1.1')?.services).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ port: 80, status: 'open' }),
+          expect.objectContaining({ port: 443, status: 'responding' }),
+        ])
+      );
+      expect(onProgress).toHaveBeenLastCalledWith(100);
+      // Only LAN targets were contacted
+      expect(mockFetch.mock.calls.every(([url]) => !String(url).includes('/v1/'))).toBe(true);
+    });
+  });
+});
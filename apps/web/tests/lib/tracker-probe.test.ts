@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  PROBE_BASE_PATH,
+  PROBE_MARKER,
+  TRACKER_RULES,
+  classifyProbe,
+  probeTrackerBlocking,
+} from '@/lib/tracker-probe';
+
+const mockFetch = vi.fn();
+
+describe('tracker-probe', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch);
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('TRACKER_RULES', () => {
+    it('should build every path to match its rule', () => {
+      for (const { rule, path } of TRACKER_RULES) {
+        expect(`${PROBE_BASE_PATH}/${path}`).toContain(rule);
+      }
+    });
+  });
+
+  describe('classifyProbe', () => {
+    it('should trust answers from our endpoint and surrogates', () => {
+      expect(classifyProbe('served', 30, 40)).toEqual({ verdict: 'allowed', confidence: 'high' });
+      expect(classifyProbe('replaced', 5, 40)).toEqual({ verdict: 'blocked', confidence: 'high' });
+      expect(classifyProbe('http-error', 30, 40)).toEqual({
+        verdict: 'allowed',
+        confidence: 'medium',
+      });
+    });
+
+    it('should be less sure about failures that took as long as a round trip', () => {
+      expect(classifyProbe('network-error', 3, 40)).toEqual({
+        verdict: 'blocked',
+        confidence: 'high',
+      });
+      expect(classifyProbe('network-error', 35, 40)).toEqual({
+        verdict: 'blocked',
+        confidence: 'medium',
+      });
+      expect(classifyProbe('timeout', 3000, 40)).toEqual({
+        verdict: 'inconclusive',
+        confidence: 'low',
+      });
+    });
+  });
+
+  describe('probeTrackerBlocking', () => {
+    it('should report blocked categories', async () => {
+      mockFetch.mockImplementation((url: string) => {
+        if (url.includes('/fbevents.js') || url.includes('/pixel?')) {
+          return Promise.reject(new TypeError('Failed to fetch'));
+        }
+        if (url.includes('/ga.js')) return Promise.resolve(new Response('/* noop */'));
+        return Promise.resolve(new Response(PROBE_MARKER));
+      });
+
+      const result = await probeTrackerBlocking(100);
+
+      expect(result.probes).toHaveLength(TRACKER_RULES.length);
+      expect(result.categories.advertising.blocked).toBe(2);
+      expect(result.categories.analytics.blocked).toBe(1);
+      expect(result.categories.social.blocked).toBe(0);
+      expect(result.blockedCategories).toEqual(['analytics', 'advertising']);
+      expect(result.probes.find((probe) => probe.rule === '/ga.js')).toMatchObject({
+        outcome: 'replaced',
+        verdict: 'blocked',
+      });
+      // Only first-party stand-ins were requested
+      expect(mockFetch.mock.calls.every(([url]) => String(url).startsWith(PROBE_BASE_PATH))).toBe(
+        true
+      );
+    });
+
+    it('should fail when the control request does not reach the endpoint', async () => {
+      mockFetch.mockResolvedValue(new Response('Not found', { status: 404 }));
+
+      await expect(probeTrackerBlocking(100)).rejects.toThrow('unreachable');
+    });
+  });
+});
@@ -1,20 +1,9 @@
-export interface TracerouteHop {
-  hop: number;
-  ip: string;
-  location: string;
-  rtt: number;
-}
+import type { TracerouteResult } from '@browserleaks/types';
 
-export interface LanHost {
-  ip: string;
-  device: string;
-  status: 'open' | 'filtered' | 'closed';
-  service: string;
-}
+export type { TracerouteHop, TracerouteResult } from '@browserleaks/types';
 
 export interface NetworkInsightsPayload {
-  traceroute: TracerouteHop[];
-  lanHosts: LanHost[];
+  traceroute: TracerouteResult;
   dnsBeacon?: Record<string, unknown> | null;
   ja3: {
     hash: string;
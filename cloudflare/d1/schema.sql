@@ -13,3 +13,22 @@ CREATE TABLE IF NOT EXISTS leak_logs (
   api_surface TEXT,
   full_report_blob TEXT
 );
+
+-- DNS leak tests (mirrors apps/api/migrations/0005_dns_leak_tests.sql)
+CREATE TABLE IF NOT EXISTS dns_leak_tests (
+  id TEXT PRIMARY KEY,
+  client_ip TEXT NOT NULL,
+  probe_count INTEGER NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+  expires_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS dns_resolver_observations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  test_id TEXT NOT NULL,
+  probe TEXT NOT NULL,
+  resolver_ip TEXT NOT NULL,
+  observed_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_dns_resolver_observations_test_id ON dns_resolver_observations(test_id);
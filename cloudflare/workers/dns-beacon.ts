@@ -1,38 +1,102 @@
 export interface Env {
-  DNS_LOGS: D1Database;
+  DNS_LOGS: D1Database; // the API's D1 database (see apps/api/migrations/0005_dns_leak_tests.sql)
+  DNS_LEAK_ZONE: string; // e.g. dnsleak.browserleaks.io
+  NAMESERVER_TOKEN: string; // shared secret of the authoritative nameserver
 }
 
+interface ResolverQuery {
+  hostname: string;
+  resolverIp: string;
+  observedAt?: string;
+}
+
+const TEST_ID_PATTERN = /^[a-f0-9]{32}$/;
+const PROBE_PATTERN = /^p\d{1,2}$/;
+const MAX_QUERIES_PER_BATCH = 100;
+
+const jsonHeaders = {
+  'content-type': 'application/json',
+  'cache-control': 'no-store',
+};
+
 /**
- * Cloudflare Worker that receives beaconed DNS queries such as
- *    https://dns.browserleaks.io/beacon?scan_id=blk_123
- * and stores the resolver + colo info inside a D1 table.
+ * Cloudflare Worker for the DNS leak test zone.
+ *
+ * The authoritative nameserver for the zone posts every query it answers to
+ *    POST https://dns.browserleaks.io/observations
+ * and the resolver address is stored per test ID in `dns_resolver_observations`,
+ * which the API reads when classifying the leak. Probe hostnames
+ * (p1.<test id>.<zone>) are routed here too, so the client's fetches complete.
  */
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     const url = new URL(request.url);
-    const scanId = url.searchParams.get('scan_id') || crypto.randomUUID();
-    const cf = (request as Request & { cf?: IncomingRequestCf }).cf;
 
-    await env.DNS_LOGS.prepare(
-      `INSERT INTO leak_logs (id, created_at, resolver_ip, resolver_country, colo)
-       VALUES (?1, datetime('now'), ?2, ?3, ?4)`
-    )
-      .bind(scanId, request.headers.get('cf-connecting-ip'), cf?.country || '??', cf?.colo || '??')
-      .run();
+    if (request.method === 'POST' && url.pathname === '/observations') {
+      if (request.headers.get('authorization') !== `Bearer ${env.NAMESERVER_TOKEN}`) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+          status: 401,
+          headers: jsonHeaders,
+        });
+      }
+
+      const body = (await request.json().catch(() => null)) as { queries?: ResolverQuery[] } | null;
+      const queries = (body?.queries ?? []).slice(0, MAX_QUERIES_PER_BATCH);
+      const now = new Date().toISOString();
+
+      const statements = queries.flatMap((query) => {
+        const probe = parseProbeHostname(query.hostname, env.DNS_LEAK_ZONE);
+        if (!probe || !query.resolverIp) return [];
+
+        // Only record queries for tests that exist and have not expired
+        return [
+          env.DNS_LOGS.prepare(
+            `INSERT INTO dns_resolver_observations (test_id, probe, resolver_ip, observed_at)
+             SELECT ?1, ?2, ?3, ?4
+             WHERE EXISTS (SELECT 1 FROM dns_leak_tests WHERE id = ?1 AND expires_at > ?5)`
+          ).bind(probe.testId, probe.probe, query.resolverIp, query.observedAt || now, now),
+        ];
+      });
+
+      const results = statements.length > 0 ? await env.DNS_LOGS.batch(statements) : [];
+      const recorded = results.reduce((total, result) => total + (result.meta.changes ?? 0), 0);
+
+      return new Response(JSON.stringify({ received: queries.length, recorded }), {
+        headers: jsonHeaders,
+      });
+    }
+
+    const cf = (request as Request & { cf?: IncomingRequestCf }).cf;
 
     return new Response(
       JSON.stringify({
-        scanId,
+        scanId: url.searchParams.get('scan_id'),
         resolver: request.headers.get('cf-connecting-ip'),
         colo: cf?.colo,
         country: cf?.country,
       }),
       {
         headers: {
-          'content-type': 'application/json',
-          'cache-control': 'no-store',
+          ...jsonHeaders,
+          'access-control-allow-origin': '*',
         },
       }
     );
   },
 };
+
+/**
+ * Split p<n>.<test id>.<zone> into its parts; resolvers may randomise letter case
+ */
+function parseProbeHostname(hostname: string, zone: string) {
+  const name = hostname.toLowerCase().replace(/\.$/, '');
+  const suffix = `.${zone.toLowerCase()}`;
+  if (!name.endsWith(suffix)) return null;
+
+  const [probe, testId, ...rest] = name.slice(0, -suffix.length).split('.');
+  if (rest.length > 0 || !PROBE_PATTERN.test(probe) || !TEST_ID_PATTERN.test(testId ?? '')) {
+    return null;
+  }
+
+  return { probe, testId };
+}
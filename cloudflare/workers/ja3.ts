@@ -1,16 +1,39 @@
+interface BotManagement {
+  ja3Hash?: string;
+  ja4?: string;
+}
+
 /**
- * Worker that proxies JA3 lookups so the API never calls ja3er.com directly.
+ * Worker that reports the JA3 / JA4 fingerprints Cloudflare computes for the
+ * requesting client's ClientHello (requires Bot Management on the zone).
  */
 export default {
   async fetch(request: Request): Promise<Response> {
-    const upstream = await fetch('https://ja3er.com/json');
-    const data = await upstream.json();
+    const cf = (request as Request & { cf?: IncomingRequestCf & { botManagement?: BotManagement } })
+      .cf;
+    const botManagement = cf?.botManagement;
+
+    const headers = {
+      'content-type': 'application/json',
+      'cache-control': 'no-store',
+    };
+
+    if (!botManagement?.ja3Hash && !botManagement?.ja4) {
+      return new Response(JSON.stringify({ error: 'TLS fingerprint not available' }), {
+        status: 503,
+        headers,
+      });
+    }
 
-    return new Response(JSON.stringify(data), {
-      headers: {
-        'content-type': 'application/json',
-        'cache-control': 'no-store',
-      },
-    });
+    return new Response(
+      JSON.stringify({
+        ja3_hash: botManagement.ja3Hash,
+        ja4: botManagement.ja4,
+        user_agent: request.headers.get('user-agent'),
+        tls_version: cf?.tlsVersion,
+        tls_cipher: cf?.tlsCipher,
+      }),
+      { headers }
+    );
   },
 };
@@ -0,0 +1,226 @@
+/**
+ * Automation Collector
+ * Traces left by WebDriver, DevTools protocol clients (Puppeteer, Playwright),
+ * headless Chrome and the stealth plugins meant to hide them. Only collects the
+ * signals; the API weighs them into a bot likelihood.
+ */
+
+import type { AutomationFingerprint, HeadlessTrait, StealthLeftover, CollectorResult } from './types';
+import { withTimeout, collectWithTiming, isFunctionNative, isChromium, isAndroid } from './utils';
+
+const WORKER_TIMEOUT = 1000;
+
+// Injected by drivers into the page; most are removed by hardened setups
+const DRIVER_GLOBALS = [
+  // Playwright
+  '__playwright__binding__',
+  '__pwInitScripts',
+  // Selenium / WebDriver
+  '_selenium',
+  'callSelenium',
+  '_Selenium_IDE_Recorder',
+  '__webdriver_evaluate',
+  '__selenium_evaluate',
+  '__webdriver_script_function',
+  '__webdriver_script_func',
+  '__webdriver_script_fn',
+  '__fxdriver_evaluate',
+  '__driver_unwrapped',
+  '__webdriver_unwrapped',
+  '__driver_evaluate',
+  '__selenium_unwrapped',
+  '__fxdriver_unwrapped',
+  // Chrome started with --dom-automation
+  'domAutomation',
+  'domAutomationController',
+  // Others
+  'callPhantom',
+  '_phantom',
+  '__nightmare',
+  'Cypress',
+];
+
+// chromedriver's $cdc_ cache key, Playwright and Puppeteer bindings
+const DRIVER_PROPERTY_PATTERN = /^(\$?cdc_|\$wdc_|__pw|__playwright|puppeteer_)/;
+
+// Attributes Selenium sets on the root element
+const DRIVER_ATTRIBUTES = ['webdriver', 'selenium', 'driver'];
+
+const WORKER_SOURCE = `
+postMessage({
+  userAgent: navigator.userAgent,
+  platform: navigator.platform,
+  languages: Array.prototype.slice.call(navigator.languages || []).join(','),
+  hardwareConcurrency: navigator.hardwareConcurrency,
+  webdriver: navigator.webdriver,
+});
+`;
+
+type WorkerNavigator = Record<'userAgent' | 'platform' | 'languages' | 'hardwareConcurrency' | 'webdriver', unknown>;
+
+/**
+ * With Runtime.enable, the protocol client previews console arguments and
+ * reads the error's stack. Also fires when DevTools is open.
+ */
+function detectCdpRuntime(): boolean {
+  let serialized = false;
+  const error = new Error();
+  Object.defineProperty(error, 'stack', {
+    get() {
+      serialized = true;
+      return '';
+    },
+  });
+  console.debug(error);
+  return serialized;
+}
+
+async function getHeadlessTraits(): Promise<HeadlessTrait[]> {
+  const traits: HeadlessTrait[] = [];
+
+  if (/HeadlessChrome/.test(navigator.userAgent)) traits.push('headless-user-agent');
+  // Desktop Chromium always lists its PDF viewer plugins
+  if (isChromium() && !isAndroid() && navigator.plugins?.length === 0) traits.push('no-plugins');
+  if (window.outerWidth === 0 && window.outerHeight === 0) traits.push('zero-outer-size');
+  if (isChromium() && !('chrome' in window)) traits.push('no-chrome-object');
+  if (!navigator.languages || navigator.languages.length === 0) traits.push('no-languages');
+
+  // Headless Chrome denies notifications while the permission still reads "prompt"
+  if (typeof Notification !== 'undefined' && Notification.permission === 'denied') {
+    try {
+      const status = await navigator.permissions?.query({ name: 'notifications' });
+      if (status?.state === 'prompt') traits.push('notification-permission');
+    } catch {
+      // Permissions API unavailable
+    }
+  }
+
+  return traits;
+}
+
+function getStealthLeftovers(): StealthLeftover[] {
+  const leftovers: StealthLeftover[] = [];
+
+  // Real navigators keep everything on the prototype
+  if (Object.getOwnPropertyNames(navigator).length > 0) leftovers.push('navigator-own-properties');
+
+  // Chromium has always exposed webdriver since 89; deleting it is an old stealth evasion
+  if (isChromium() && !('webdriver' in navigator)) leftovers.push('webdriver-missing');
+
+  const webdriverGetter = Object.getOwnPropertyDescriptor(Navigator.prototype, 'webdriver')?.get;
+  if (webdriverGetter && !isFunctionNative(webdriverGetter)) leftovers.push('webdriver-getter');
+
+  if (typeof PluginArray !== 'undefined' && navigator.plugins && !(navigator.plugins instanceof PluginArray)) {
+    leftovers.push('plugins-type');
+  }
+
+  const query = navigator.permissions?.query;
+  if (query && (!isFunctionNative(query) || query !== Permissions.prototype.query)) {
+    leftovers.push('permissions-query');
+  }
+
+  // A detached iframe has no window; the stealth iframe evasion hands out a proxy anyway
+  const iframe = document.createElement('iframe');
+  iframe.srcdoc = 'about:blank';
+  if (iframe.contentWindow !== null) leftovers.push('iframe-content-window');
+
+  return leftovers;
+}
+
+function getAutomationGlobals(): string[] {
+  const found = new Set(DRIVER_GLOBALS.filter((name) => name in window || name in document));
+
+  for (const name of [...Object.getOwnPropertyNames(window), ...Object.getOwnPropertyNames(document)]) {
+    if (DRIVER_PROPERTY_PATTERN.test(name)) found.add(name);
+  }
+  for (const attribute of DRIVER_ATTRIBUTES) {
+    if (document.documentElement.hasAttribute(attribute)) found.add(`[${attribute}]`);
+  }
+
+  return [...found].sort();
+}
+
+function readWorkerNavigator(worker: Worker): Promise<WorkerNavigator> {
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event) => resolve(event.data as WorkerNavigator);
+    worker.onerror = () => reject(new Error('Worker error'));
+  });
+}
+
+/**
+ * Init scripts that patch the page rarely reach workers, so the worker sees the
+ * browser as it really is
+ */
+async function getWorkerMismatches(): Promise<string[]> {
+  if (typeof Worker === 'undefined' || typeof Blob === 'undefined') return [];
+
+  const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'application/javascript' }));
+  let worker: Worker | null = null;
+
+  try {
+    worker = new Worker(url);
+    const workerNavigator = await withTimeout(readWorkerNavigator(worker), WORKER_TIMEOUT);
+
+    const windowNavigator: WorkerNavigator = {
+      userAgent: navigator.userAgent,
+      platform: navigator.platform,
+      languages: (navigator.languages || []).join(','),
+      hardwareConcurrency: navigator.hardwareConcurrency,
+      webdriver: navigator.webdriver,
+    };
+
+    // Only values both sides expose count; WorkerNavigator has no webdriver,
+    // so a missing value is the spec, not a patch
+    return (Object.keys(windowNavigator) as Array<keyof WorkerNavigator>).filter(
+      (prop) =>
+        typeof windowNavigator[prop] === typeof workerNavigator[prop] &&
+        windowNavigator[prop] !== workerNavigator[prop]
+    );
+  } finally {
+    worker?.terminate();
+    URL.revokeObjectURL(url);
+  }
+}
+
+async function getAutomationFingerprintInternal(): Promise<AutomationFingerprint> {
+  const [headlessTraits, workerMismatches] = await Promise.all([
+    getHeadlessTraits(),
+    getWorkerMismatches().catch(() => []),
+  ]);
+
+  return {
+    webdriver: typeof navigator.webdriver === 'boolean' ? navigator.webdriver : null,
+    cdpRuntime: detectCdpRuntime(),
+    headlessTraits,
+    stealthLeftovers: getStealthLeftovers(),
+    automationGlobals: getAutomationGlobals(),
+    workerMismatches,
+  };
+}
+
+/**
+ * Collect automation fingerprint
+ */
+export async function collectAutomationFingerprint(): Promise<CollectorResult<AutomationFingerprint>> {
+  try {
+    if (typeof navigator === 'undefined' || typeof document === 'undefined') {
+      return { status: 'unsupported', duration: 0 };
+    }
+
+    const { value, duration } = await collectWithTiming(getAutomationFingerprintInternal);
+
+    return {
+      status: 'success',
+      value,
+      duration,
+    };
+  } catch (error) {
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration: 0,
+    };
+  }
+}
+
+export default collectAutomationFingerprint;
@@ -0,0 +1,211 @@
+/**
+ * Content Blocker Collector
+ * Inserts bait elements matching cosmetic (element hiding) filters of specific
+ * filter lists and checks which ones get hidden. Which lists are active, not
+ * just whether a blocker is installed, narrows a visitor down considerably.
+ * Approach adapted from FingerprintJS
+ */
+
+import type { ContentBlockerFingerprint, FilterListId, FilterListMatch, CollectorResult } from './types';
+import { collectWithTiming } from './utils';
+
+// Time for blockers to apply their cosmetic filters to inserted elements
+const SETTLE_DELAY = 100;
+
+// Share of a list's baits that must be hidden to consider the list active
+const ACTIVE_THRESHOLD = 0.6;
+
+/**
+ * Bait selectors per filter list. Each selector comes from that list's element
+ * hiding rules and is specific to it, so other lists leave it alone.
+ * Lists are updated continuously; refresh these when a list stops matching.
+ */
+export const FILTER_LIST_BAITS: Record<FilterListId, { name: string; selectors: string[] }> = {
+  easyList: {
+    name: 'EasyList',
+    selectors: ['.yb-floorad', '.widget_po_ads_widget', '.trafficjunky-ad', '.textad_headline', '.sponsored-text-links'],
+  },
+  easyPrivacy: {
+    name: 'EasyPrivacy',
+    selectors: ['.tracking-pixel', '#tracking-pixel', 'img[src*="/pixel.gif?"]', '.analytics-pixel', 'div[id^="statcounter"]'],
+  },
+  fanboyAnnoyances: {
+    name: "Fanboy's Annoyance List",
+    selectors: ['#ac-lre-player', '.navigate-to-top', '#subscribe_popup', '.newsletter_holder', '#back-top'],
+  },
+  fanboySocial: {
+    name: "Fanboy's Social Blocking List",
+    selectors: ['#FollowUs', '#meteored_share', '#social_follow', '.article-sharer', '.community__social-desc'],
+  },
+  adGuardBase: {
+    name: 'AdGuard Base',
+    selectors: ['.BetterJsPopOverlay', '#ad_300X250', '#bannerfloat22', '#campaign-banner', '#Ad-Content'],
+  },
+  adBlockWarningRemoval: {
+    name: 'Adblock Warning Removal List',
+    selectors: ['#adblock-honeypot', '.adblocker-root', '.wp_adblock_detect', '.header-blocked-ad', '#ad_blocker'],
+  },
+  easyListGermany: {
+    name: 'EasyList Germany',
+    selectors: ['#SSpotIMPopSlider', '.sponsorlinkgruen', '#werbungsky', '#reklame-rechts-mitte', 'a[href^="https://bd742.com/"]'],
+  },
+  easyListDutch: {
+    name: 'EasyList Dutch',
+    selectors: ['#advertentie', '#vipAdmarktBannerBlock', '.adstekst', 'a[href^="https://xltube.nl/click/"]', '#semilo-lrectangle'],
+  },
+  easyListItaly: {
+    name: 'EasyList Italy',
+    selectors: [
+      '.box_adv_annunci',
+      '.sb-box-pubbliredazionale',
+      'a[href^="http://affiliazioniads.snai.it/"]',
+      'a[href^="https://adserver.html.it/"]',
+      'a[href^="https://affiliazioniads.snai.it/"]',
+    ],
+  },
+  easyListCzechSlovak: {
+    name: 'EasyList Czech and Slovak',
+    selectors: ['#onlajny-stickers', '#reklamni-box', '.reklama-megaboard', '.sklik', '[id^="sklikReklama"]'],
+  },
+  adGuardFrench: {
+    name: 'AdGuard French',
+    selectors: ['#pavePub', '.ad-desktop-rectangle', '.mobile_adhesion', '.widgetadv', '.ads_ban'],
+  },
+  adGuardSpanishPortuguese: {
+    name: 'AdGuard Spanish/Portuguese',
+    selectors: ['#barraPublicidade', '#Publicidade', '#publiEspecial', '#queTooltip', '.cnt-publi'],
+  },
+  adGuardJapanese: {
+    name: 'AdGuard Japanese',
+    selectors: ['#kauli_yad_1', 'a[href^="http://ad2.trafficgate.net/"]', '._popIn_infinite_ad', '.adgoogle', '.__isboostReturnAd'],
+  },
+  ruAdList: {
+    name: 'RU AdList',
+    selectors: ['a[href*="//febrare.ru/"]', 'a[href*="//utimg.ru/"]', 'a[href*="://chikidiki.ru"]', '#pgeldiz', '.yandex-rtb-block'],
+  },
+};
+
+// Default list combinations of common blockers
+const BLOCKER_PROFILES: Array<{ name: string; lists: FilterListId[] }> = [
+  { name: 'uBlock Origin', lists: ['easyList', 'easyPrivacy', 'adBlockWarningRemoval'] },
+  { name: 'AdGuard', lists: ['adGuardBase'] },
+  { name: 'Adblock Plus / AdBlock', lists: ['easyList', 'adBlockWarningRemoval'] },
+  { name: 'Brave Shields', lists: ['easyList', 'easyPrivacy'] },
+];
+
+/**
+ * Build an element matching a simple selector: tag#id.class[attr="value"].
+ * Attribute prefix/substring/suffix operators get exactly that value.
+ */
+function createBait(selector: string): HTMLElement {
+  const [, tag = 'div', rest = ''] = /^([a-z][\w-]*)?(.*)$/i.exec(selector) ?? [];
+  const element = document.createElement(tag);
+
+  for (const [, attr, value] of rest.matchAll(/\[([\w-]+)[\^*$]?="([^"]*)"(?: i)?\]/g)) {
+    element.setAttribute(attr, value);
+  }
+
+  const plain = rest.replace(/\[[^\]]*\]/g, '');
+  for (const [, prefix, name] of plain.matchAll(/([#.])([\w-]+)/g)) {
+    if (prefix === '#') element.id = name;
+    else element.classList.add(name);
+  }
+
+  // Keep anchors and images from being ignored as empty inline content; display is
+  // left to the stylesheets, an inline value would outrank injected cosmetic rules
+  element.textContent = ' ';
+  element.style.setProperty('width', '1px');
+  element.style.setProperty('height', '1px');
+  return element;
+}
+
+function isHidden(element: HTMLElement): boolean {
+  if (!element.isConnected) return true; // removed by a procedural filter
+  const style = getComputedStyle(element);
+  return element.offsetParent === null || style.display === 'none' || style.visibility === 'hidden';
+}
+
+/**
+ * Selectors hidden on this page, from the given lists
+ */
+export async function getHiddenSelectors(selectors: string[]): Promise<string[]> {
+  const container = document.createElement('div');
+  container.style.cssText = 'position:absolute;left:-9999px;top:0;width:1px;height:1px;overflow:hidden';
+
+  const baits = selectors.map((selector) => {
+    const holder = document.createElement('div');
+    holder.appendChild(createBait(selector));
+    container.appendChild(holder);
+    return [selector, holder.firstElementChild as HTMLElement] as const;
+  });
+
+  document.body.appendChild(container);
+  try {
+    await new Promise((resolve) => setTimeout(resolve, SETTLE_DELAY));
+    return baits.filter(([, element]) => isHidden(element)).map(([selector]) => selector);
+  } finally {
+    container.remove();
+  }
+}
+
+function identifyBlockers(activeLists: FilterListId[]): string[] {
+  const active = new Set(activeLists);
+  const matches = BLOCKER_PROFILES.filter((profile) => profile.lists.every((list) => active.has(list)));
+  const best = Math.max(0, ...matches.map((profile) => profile.lists.length));
+
+  // Only the most specific profiles; a blocker with unknown defaults falls back to "unknown"
+  const names = matches.filter((profile) => profile.lists.length === best).map((profile) => profile.name);
+  return names.length > 0 ? names : ['Unknown content blocker'];
+}
+
+async function getContentBlockerFingerprintInternal(): Promise<ContentBlockerFingerprint> {
+  const entries = Object.entries(FILTER_LIST_BAITS) as Array<[FilterListId, { name: string; selectors: string[] }]>;
+  const hidden = new Set(await getHiddenSelectors(entries.flatMap(([, list]) => list.selectors)));
+
+  const lists: FilterListMatch[] = entries.map(([id, list]) => {
+    const hiddenCount = list.selectors.filter((selector) => hidden.has(selector)).length;
+    return {
+      id,
+      name: list.name,
+      hidden: hiddenCount,
+      total: list.selectors.length,
+      active: hiddenCount / list.selectors.length >= ACTIVE_THRESHOLD,
+    };
+  });
+  const activeLists = lists.filter((list) => list.active).map((list) => list.id);
+
+  return {
+    adBlocker: hidden.size > 0,
+    detectableBlockers: hidden.size > 0 ? identifyBlockers(activeLists) : [],
+    activeLists,
+    lists,
+    hiddenSelectors: [...hidden].sort(),
+  };
+}
+
+/**
+ * Collect content blocker fingerprint
+ */
+export async function collectContentBlockerFingerprint(): Promise<CollectorResult<ContentBlockerFingerprint>> {
+  try {
+    if (typeof document === 'undefined' || !document.body) {
+      return { status: 'unsupported', duration: 0 };
+    }
+
+    const { value, duration } = await collectWithTiming(getContentBlockerFingerprintInternal);
+
+    return {
+      status: 'success',
+      value,
+      duration,
+    };
+  } catch (error) {
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration: 0,
+    };
+  }
+}
+
+export default collectContentBlockerFingerprint;
@@ -21,12 +21,23 @@ export type {
   BrowserEngine,
   BrowserFingerprint,
   MediaDeviceInfo,
+  MediaCodecSupport,
+  SpeechVoiceInfo,
   MediaDevicesFingerprint,
   StorageFingerprint,
   MathFingerprint,
   TouchFingerprint,
+  FilterListId,
+  FilterListMatch,
   ContentBlockerFingerprint,
   MediaFeaturesFingerprint,
+  LieType,
+  SpoofingSource,
+  Lie,
+  LiesFingerprint,
+  HeadlessTrait,
+  StealthLeftover,
+  AutomationFingerprint,
   CompleteFingerprint,
 } from './types';
 
@@ -43,6 +54,10 @@ export { collectStorageFingerprint, getStorageQuota } from './storage';
 export { collectMathFingerprint } from './math';
 export { collectTouchFingerprint, getTouchCapabilities } from './touch';
 export { collectMediaFeaturesFingerprint, getSupportedMediaFeatures } from './mediaFeatures';
+export { collectLiesFingerprint } from './lies';
+export { collectMediaDevicesFingerprint, getSpeechVoices } from './mediaDevices';
+export { collectContentBlockerFingerprint, getHiddenSelectors, FILTER_LIST_BAITS } from './contentBlocker';
+export { collectAutomationFingerprint } from './automation';
 
 // Utilities
 export {
@@ -75,6 +90,10 @@ import { collectStorageFingerprint } from './storage';
 import { collectMathFingerprint } from './math';
 import { collectTouchFingerprint } from './touch';
 import { collectMediaFeaturesFingerprint } from './mediaFeatures';
+import { collectLiesFingerprint } from './lies';
+import { collectMediaDevicesFingerprint } from './mediaDevices';
+import { collectContentBlockerFingerprint } from './contentBlocker';
+import { collectAutomationFingerprint } from './automation';
 import { hash } from './utils';
 
 export interface CollectOptions {
@@ -91,6 +110,10 @@ export interface CollectOptions {
   includeMath?: boolean;
   includeTouch?: boolean;
   includeMediaFeatures?: boolean;
+  includeLies?: boolean;
+  includeMediaDevices?: boolean;
+  includeContentBlocker?: boolean;
+  includeAutomation?: boolean;
   timeout?: number;
 }
 
@@ -108,6 +131,10 @@ const DEFAULT_OPTIONS: CollectOptions = {
   includeMath: true,
   includeTouch: true,
   includeMediaFeatures: true,
+  includeLies: true,
+  includeMediaDevices: true,
+  includeContentBlocker: true,
+  includeAutomation: false, // Logs to the console; opt in where automation is the subject
   timeout: 10000,
 };
 
@@ -159,6 +186,18 @@ export async function collectFingerprint(options: CollectOptions = {}): Promise<
   if (opts.includeMediaFeatures) {
     collectors.push(collectMediaFeaturesFingerprint().then((r) => ['mediaFeatures', r]));
   }
+  if (opts.includeLies) {
+    collectors.push(collectLiesFingerprint().then((r) => ['lies', r]));
+  }
+  if (opts.includeMediaDevices) {
+    collectors.push(collectMediaDevicesFingerprint().then((r) => ['mediaDevices', r]));
+  }
+  if (opts.includeContentBlocker) {
+    collectors.push(collectContentBlockerFingerprint().then((r) => ['contentBlocker', r]));
+  }
+  if (opts.includeAutomation) {
+    collectors.push(collectAutomationFingerprint().then((r) => ['automation', r]));
+  }
 
   // Wait for all collectors with timeout
   const timeoutPromise = new Promise<never>((_, reject) => {
@@ -231,6 +270,10 @@ export async function collectQuickFingerprint(): Promise<CompleteFingerprint> {
     includeMath: true,
     includeTouch: true,
     includeMediaFeatures: true,
+    includeLies: false, // Runs worker timing probes
+    includeMediaDevices: true, // No permission prompt; waits at most 1s for speech voices
+    includeContentBlocker: false, // Waits for cosmetic filters to apply
+    includeAutomation: false, // Logs to the console
     timeout: 3000,
   });
 }
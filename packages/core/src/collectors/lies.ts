@@ -0,0 +1,495 @@
+/**
+ * Lies Collector
+ * Detects anti-fingerprinting: tampered API prototypes, values that contradict
+ * each other and noise injected into canvas readback.
+ * Adapted from creepjs
+ */
+
+import type { Lie, LiesFingerprint, SpoofingSource, CollectorResult } from './types';
+import { isFunctionNative, isChromium, isGecko, withTimeout, collectWithTiming } from './utils';
+
+type OperatingSystem = 'windows' | 'mac' | 'ios' | 'android' | 'linux' | 'chromeos' | 'unknown';
+
+// Interfaces whose members are commonly patched by anti-fingerprinting tools
+const PROTOTYPE_TARGETS: Array<[string, () => object | undefined, string[]]> = [
+  ['HTMLCanvasElement', () => window.HTMLCanvasElement?.prototype, ['toDataURL', 'toBlob', 'getContext']],
+  [
+    'CanvasRenderingContext2D',
+    () => window.CanvasRenderingContext2D?.prototype,
+    ['getImageData', 'measureText', 'fillText', 'isPointInPath'],
+  ],
+  [
+    'WebGLRenderingContext',
+    () => window.WebGLRenderingContext?.prototype,
+    ['getParameter', 'getExtension', 'getSupportedExtensions', 'getShaderPrecisionFormat', 'readPixels'],
+  ],
+  ['WebGL2RenderingContext', () => window.WebGL2RenderingContext?.prototype, ['getParameter', 'readPixels']],
+  ['AudioBuffer', () => window.AudioBuffer?.prototype, ['getChannelData', 'copyFromChannel']],
+  ['AnalyserNode', () => window.AnalyserNode?.prototype, ['getFloatFrequencyData', 'getByteFrequencyData']],
+  ['OfflineAudioContext', () => window.OfflineAudioContext?.prototype, ['startRendering']],
+  [
+    'Navigator',
+    () => window.Navigator?.prototype,
+    [
+      'userAgent',
+      'platform',
+      'vendor',
+      'language',
+      'languages',
+      'hardwareConcurrency',
+      'deviceMemory',
+      'maxTouchPoints',
+      'webdriver',
+    ],
+  ],
+  ['Screen', () => window.Screen?.prototype, ['width', 'height', 'availWidth', 'availHeight', 'colorDepth']],
+  ['Date', () => Date.prototype, ['getTimezoneOffset']],
+  ['Intl.DateTimeFormat', () => Intl.DateTimeFormat.prototype, ['resolvedOptions']],
+];
+
+// Fonts that only ship with one operating system
+const MAC_ONLY_FONTS = ['Helvetica Neue', 'Apple Color Emoji', 'Lucida Grande', 'Geneva', 'Menlo', 'Apple SD Gothic Neo'];
+const WINDOWS_ONLY_FONTS = ['Segoe UI', 'Segoe UI Symbol', 'Segoe MDL2 Assets', 'Marlett', 'Ebrima', 'Gadugi'];
+
+const WORKER_TIMEOUT = 3000;
+const WORKER_ITERATIONS = 3_000_000;
+const MAX_PROBE_WORKERS = 8;
+
+// Runs in a dedicated worker: reports its navigator, or burns CPU for a given number of iterations
+const WORKER_SOURCE = `
+onmessage = function (event) {
+  if (event.data === 'navigator') {
+    postMessage({
+      userAgent: navigator.userAgent,
+      platform: navigator.platform,
+      hardwareConcurrency: navigator.hardwareConcurrency,
+      languages: Array.prototype.slice.call(navigator.languages || []),
+    });
+    return;
+  }
+  var x = 0;
+  for (var i = 0; i < event.data; i++) x += Math.sqrt(i);
+  postMessage(x);
+};
+`;
+
+interface WorkerNavigator {
+  userAgent: string;
+  platform: string;
+  hardwareConcurrency: number;
+  languages: string[];
+}
+
+function getOwnMember(target: object, prop: string): unknown {
+  const descriptor = Object.getOwnPropertyDescriptor(target, prop);
+  if (!descriptor) return undefined;
+  return descriptor.get ?? descriptor.value;
+}
+
+// Native methods and getters stringify as native code, have no own prototype and keep their name
+function getFunctionLie(fn: unknown, prop: string): string | null {
+  if (typeof fn !== 'function') return null;
+
+  if (!isFunctionNative(fn)) {
+    return 'is not native code';
+  }
+  if (Object.prototype.hasOwnProperty.call(fn, 'prototype')) {
+    return 'has a prototype property';
+  }
+  if (fn.name !== prop && fn.name !== `get ${prop}`) {
+    return `has unexpected name "${fn.name}"`;
+  }
+  return null;
+}
+
+function detectPrototypeLies(): Lie[] {
+  const lies: Lie[] = [];
+
+  // Tools that patch APIs often also patch toString to hide it
+  const toStringLie = getFunctionLie(Function.prototype.toString, 'toString');
+  if (toStringLie) {
+    lies.push({ type: 'prototype', api: 'Function.prototype.toString', detail: toStringLie });
+  }
+
+  for (const [name, getTarget, props] of PROTOTYPE_TARGETS) {
+    let target: object | undefined;
+    try {
+      target = getTarget();
+    } catch {
+      continue;
+    }
+    if (!target) continue;
+
+    for (const prop of props) {
+      try {
+        const lie = getFunctionLie(getOwnMember(target, prop), prop);
+        if (lie) {
+          lies.push({ type: 'prototype', api: `${name}.${prop}`, detail: lie });
+        }
+      } catch {
+        // Throwing on inspection is itself suspicious
+        lies.push({ type: 'prototype', api: `${name}.${prop}`, detail: 'throws on inspection' });
+      }
+    }
+  }
+
+  // Values live on the prototype; own properties mean the instance was overridden
+  for (const [name, instance] of [
+    ['navigator', navigator],
+    ['screen', screen],
+  ] as const) {
+    for (const prop of Object.getOwnPropertyNames(instance)) {
+      lies.push({ type: 'prototype', api: `${name}.${prop}`, detail: 'overridden on the instance' });
+    }
+  }
+
+  return lies;
+}
+
+function getUserAgentOS(userAgent: string): OperatingSystem {
+  if (/Windows/.test(userAgent)) return 'windows';
+  if (/iPhone|iPad|iPod/.test(userAgent)) return 'ios';
+  if (/Android/.test(userAgent)) return 'android';
+  if (/CrOS/.test(userAgent)) return 'chromeos';
+  if (/Macintosh|Mac OS X/.test(userAgent)) return 'mac';
+  if (/Linux|X11/.test(userAgent)) return 'linux';
+  return 'unknown';
+}
+
+function getPlatformOS(platform: string): OperatingSystem {
+  if (/^Win/.test(platform)) return 'windows';
+  if (/iPhone|iPad|iPod/.test(platform)) return 'ios';
+  if (/^Mac/.test(platform)) return 'mac';
+  if (/Linux|Android|X11/.test(platform)) return 'linux';
+  return 'unknown';
+}
+
+// Android and ChromeOS report a Linux platform; iPads request desktop sites as MacIntel
+function isPlatformCompatible(uaOS: OperatingSystem, platformOS: OperatingSystem): boolean {
+  if (uaOS === 'unknown' || platformOS === 'unknown') return true;
+  if (uaOS === platformOS) return true;
+  if ((uaOS === 'android' || uaOS === 'chromeos') && platformOS === 'linux') return true;
+  return uaOS === 'ios' && platformOS === 'mac';
+}
+
+function detectAvailableFonts(fonts: string[]): string[] {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return [];
+
+  const text = 'mmmmmmmmmmlli10OO';
+  const measure = (font: string) => {
+    ctx.font = `72px ${font}`;
+    return ctx.measureText(text).width;
+  };
+
+  const baseWidths = ['monospace', 'sans-serif', 'serif'].map((base) => [base, measure(base)] as const);
+
+  return fonts.filter((font) =>
+    baseWidths.some(([base, width]) => measure(`'${font}', ${base}`) !== width)
+  );
+}
+
+function detectPlatformLies(): Lie[] {
+  const lies: Lie[] = [];
+  const uaOS = getUserAgentOS(navigator.userAgent);
+  const platformOS = getPlatformOS(navigator.platform);
+
+  if (!isPlatformCompatible(uaOS, platformOS)) {
+    lies.push({
+      type: 'inconsistency',
+      api: 'navigator.platform',
+      detail: `User agent claims ${uaOS} but platform is "${navigator.platform}"`,
+    });
+  }
+
+  const foreignFonts =
+    uaOS === 'windows' ? MAC_ONLY_FONTS : uaOS === 'mac' ? WINDOWS_ONLY_FONTS : [];
+  if (foreignFonts.length > 0) {
+    const found = detectAvailableFonts(foreignFonts);
+    // A single match can be a user-installed font
+    if (found.length >= 2) {
+      lies.push({
+        type: 'inconsistency',
+        api: 'navigator.userAgent',
+        detail: `User agent claims ${uaOS} but fonts from another OS are installed: ${found.join(', ')}`,
+      });
+    }
+  }
+
+  return lies;
+}
+
+function detectTimezoneLies(): Lie[] {
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (!timezone) return [];
+
+  const now = new Date();
+  now.setSeconds(0, 0);
+  const zoned = new Date(now.toLocaleString('en-US', { timeZone: timezone }));
+  const utc = new Date(now.toLocaleString('en-US', { timeZone: 'UTC' }));
+  const expectedOffset = Math.round((utc.getTime() - zoned.getTime()) / 60000);
+  const reportedOffset = now.getTimezoneOffset();
+
+  if (expectedOffset === reportedOffset) return [];
+
+  return [
+    {
+      type: 'inconsistency',
+      api: 'Date.prototype.getTimezoneOffset',
+      detail: `Offset ${reportedOffset} does not match timezone ${timezone} (${expectedOffset})`,
+    },
+  ];
+}
+
+function createProbeWorker(url: string): Worker | null {
+  try {
+    return new Worker(url);
+  } catch {
+    return null;
+  }
+}
+
+function postAndWait<T>(worker: Worker, message: unknown, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(new Error('Aborted'));
+    signal.addEventListener('abort', () => reject(new Error('Aborted')), { once: true });
+    worker.onmessage = (event) => resolve(event.data as T);
+    worker.onerror = () => reject(new Error('Worker error'));
+    worker.postMessage(message);
+  });
+}
+
+async function timeJobs(workers: Worker[], signal: AbortSignal): Promise<number> {
+  const start = performance.now();
+  await Promise.all(workers.map((worker) => postAndWait(worker, WORKER_ITERATIONS, signal)));
+  return performance.now() - start;
+}
+
+/**
+ * Compare the window against a dedicated worker, which extensions rarely reach,
+ * and time parallel work to check the reported core count. Aborting rejects
+ * the pending round trips, so the workers are terminated on the way out.
+ */
+async function detectWorkerLies(signal: AbortSignal): Promise<Lie[]> {
+  if (typeof Worker === 'undefined' || typeof Blob === 'undefined') return [];
+
+  const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'application/javascript' }));
+  const reported = navigator.hardwareConcurrency || 1;
+  const workers: Worker[] = [];
+
+  try {
+    for (let i = 0; i < Math.min(reported, MAX_PROBE_WORKERS); i++) {
+      const worker = createProbeWorker(url);
+      if (!worker) break;
+      workers.push(worker);
+    }
+    if (workers.length === 0) return [];
+
+    // The first round trip also warms every worker up before timing
+    const responses = await Promise.all(
+      workers.map((worker) => postAndWait<WorkerNavigator>(worker, 'navigator', signal))
+    );
+    const workerNavigator = responses[0];
+    const lies: Lie[] = [];
+
+    const comparisons: Array<[string, unknown, unknown]> = [
+      ['userAgent', navigator.userAgent, workerNavigator.userAgent],
+      ['platform', navigator.platform, workerNavigator.platform],
+      ['hardwareConcurrency', navigator.hardwareConcurrency, workerNavigator.hardwareConcurrency],
+      ['languages', navigator.languages.join(','), workerNavigator.languages.join(',')],
+    ];
+    for (const [prop, windowValue, workerValue] of comparisons) {
+      if (windowValue !== workerValue) {
+        lies.push({
+          type: 'inconsistency',
+          api: `navigator.${prop}`,
+          detail: `Window reports "${windowValue}" but worker reports "${workerValue}"`,
+        });
+      }
+    }
+
+    if (workers.length >= 2) {
+      const single = await timeJobs(workers.slice(0, 1), signal);
+      const parallel = await timeJobs(workers, signal);
+      // Coarse timers (e.g. resist fingerprinting) make the measurement meaningless
+      if (single >= 10 && parallel > 0) {
+        const measured = (single * workers.length) / parallel;
+        if (measured < workers.length / 2) {
+          lies.push({
+            type: 'inconsistency',
+            api: 'navigator.hardwareConcurrency',
+            detail: `Reports ${reported} cores but only ~${Math.round(measured)} ran in parallel`,
+          });
+        }
+      }
+    }
+
+    return lies;
+  } finally {
+    workers.forEach((worker) => worker.terminate());
+    URL.revokeObjectURL(url);
+  }
+}
+
+function renderCanvas(): HTMLCanvasElement | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = 64;
+  canvas.height = 16;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.textBaseline = 'top';
+  ctx.font = '12px Arial';
+  ctx.fillStyle = '#f60';
+  ctx.fillRect(0, 0, 32, 16);
+  ctx.fillStyle = '#069';
+  ctx.fillText('lies', 2, 2);
+  return canvas;
+}
+
+/**
+ * Canvas readback is deterministic; differing renders or altered solid
+ * pixels mean noise is being injected.
+ */
+function detectCanvasNoise(): Lie[] {
+  const lies: Lie[] = [];
+
+  const first = renderCanvas();
+  const second = renderCanvas();
+  if (!first || !second) return lies;
+
+  if (first.toDataURL() !== second.toDataURL()) {
+    lies.push({
+      type: 'noise',
+      api: 'HTMLCanvasElement.toDataURL',
+      detail: 'Identical drawings produce different images',
+    });
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = 8;
+  canvas.height = 8;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return lies;
+
+  ctx.fillStyle = 'rgb(255, 0, 0)';
+  ctx.fillRect(0, 0, 8, 8);
+  const { data } = ctx.getImageData(0, 0, 8, 8);
+
+  let altered = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i] !== 255 || data[i + 1] !== 0 || data[i + 2] !== 0 || data[i + 3] !== 255) {
+      altered++;
+    }
+  }
+  if (altered > 0) {
+    lies.push({
+      type: 'noise',
+      api: 'CanvasRenderingContext2D.getImageData',
+      detail: `${altered} of ${data.length / 4} solid pixels were altered`,
+    });
+  }
+
+  return lies;
+}
+
+function isBrave(): boolean {
+  return isChromium() && !!(navigator as Navigator & { brave?: { isBrave?: unknown } }).brave?.isBrave;
+}
+
+/**
+ * Attribute the lies to the most likely browser or extension.
+ * Each candidate gathers evidence weights; the highest total wins.
+ */
+function attributeSource(lies: Lie[]): { source: SpoofingSource | null; confidence: number } {
+  if (lies.length === 0) {
+    return { source: null, confidence: 0 };
+  }
+
+  const canvasNoise = lies.some((lie) => lie.type === 'noise');
+  const canvasPrototypeLies = lies.some(
+    (lie) => lie.type === 'prototype' && /^(HTMLCanvasElement|CanvasRenderingContext2D)\./.test(lie.api)
+  );
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const scores: Record<SpoofingSource, number> = {
+    brave: 0,
+    'firefox-rfp': 0,
+    canvasblocker: 0,
+    unknown: 0.2,
+  };
+
+  if (isBrave()) {
+    // Brave farbles natively, without touching prototypes
+    scores.brave += 0.6;
+    if (canvasNoise) scores.brave += 0.3;
+  }
+
+  if (isGecko()) {
+    if (timezone === 'UTC' || timezone === 'Atlantic/Reykjavik') scores['firefox-rfp'] += 0.3;
+    if (screen.width === window.innerWidth && screen.height === window.innerHeight) {
+      scores['firefox-rfp'] += 0.2;
+    }
+    if (lies.some((lie) => lie.api === 'navigator.userAgent' || lie.api === 'navigator.platform')) {
+      scores['firefox-rfp'] += 0.2;
+    }
+    if (canvasNoise && !canvasPrototypeLies) scores['firefox-rfp'] += 0.2;
+    // CanvasBlocker is a Firefox extension
+    if (canvasNoise) scores.canvasblocker += 0.1;
+  }
+
+  if (canvasNoise && !isBrave()) scores.canvasblocker += 0.4;
+  if (canvasPrototypeLies) scores.canvasblocker += 0.3;
+
+  const [source, score] = (Object.entries(scores) as Array<[SpoofingSource, number]>).reduce(
+    (best, entry) => (entry[1] > best[1] ? entry : best)
+  );
+
+  return { source, confidence: Math.min(1, Math.round(score * 100) / 100) };
+}
+
+async function getLiesFingerprintInternal(): Promise<LiesFingerprint> {
+  const workerProbe = new AbortController();
+  const lies: Lie[] = [
+    ...detectPrototypeLies(),
+    ...detectPlatformLies(),
+    ...detectTimezoneLies(),
+    ...detectCanvasNoise(),
+    ...(await withTimeout(detectWorkerLies(workerProbe.signal).catch(() => []), WORKER_TIMEOUT, [])),
+  ];
+  // Terminates the probe workers if the timeout gave up on them
+  workerProbe.abort();
+
+  const { source, confidence } = attributeSource(lies);
+
+  return {
+    lies,
+    lieCount: lies.length,
+    canvasNoise: lies.some((lie) => lie.type === 'noise'),
+    likelySource: source,
+    sourceConfidence: confidence,
+  };
+}
+
+/**
+ * Collect lies (anti-fingerprinting) fingerprint
+ */
+export async function collectLiesFingerprint(): Promise<CollectorResult<LiesFingerprint>> {
+  try {
+    const { value, duration } = await collectWithTiming(getLiesFingerprintInternal);
+
+    return {
+      status: 'success',
+      value,
+      duration,
+    };
+  } catch (error) {
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration: 0,
+    };
+  }
+}
+
+export default collectLiesFingerprint;
@@ -0,0 +1,189 @@
+/**
+ * Media Devices Collector
+ * Device inventory as seen before any capture permission is granted, plus the
+ * codec, recording and speech capabilities that vary with OS, hardware and build.
+ */
+
+import type {
+  MediaDeviceInfo,
+  MediaDevicesFingerprint,
+  MediaCodecSupport,
+  SpeechVoiceInfo,
+  CollectorResult,
+} from './types';
+import { withTimeout, collectWithTiming } from './utils';
+
+const VOICES_TIMEOUT = 1000;
+
+// Hardware decoders and licensing differ per platform, so support and smoothness vary
+const VIDEO_CODECS = [
+  'video/mp4; codecs="avc1.42E01E"', // H.264 Baseline
+  'video/mp4; codecs="avc1.640028"', // H.264 High
+  'video/mp4; codecs="hvc1.1.6.L93.B0"', // HEVC
+  'video/webm; codecs="vp8"',
+  'video/webm; codecs="vp09.00.10.08"', // VP9 Profile 0
+  'video/webm; codecs="vp09.02.10.10.01.09.16.09.01"', // VP9 Profile 2, 10-bit HDR
+  'video/mp4; codecs="av01.0.05M.08"', // AV1 Main
+];
+
+const AUDIO_CODECS = [
+  'audio/mp4; codecs="mp4a.40.2"', // AAC-LC
+  'audio/mp4; codecs="ec-3"', // Dolby Digital Plus
+  'audio/webm; codecs="opus"',
+  'audio/ogg; codecs="vorbis"',
+  'audio/flac',
+  'audio/mpeg',
+];
+
+const RECORDER_MIME_TYPES = [
+  'video/webm',
+  'video/webm;codecs=vp8',
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=av1',
+  'video/webm;codecs=h264',
+  'video/mp4',
+  'video/mp4;codecs=avc1',
+  'video/x-matroska;codecs=avc1',
+  'audio/webm',
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/mp4',
+  'audio/wav',
+];
+
+async function getDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.map((device) => ({
+    deviceId: device.deviceId,
+    kind: device.kind,
+    label: device.label,
+    groupId: device.groupId,
+  }));
+}
+
+function getGroups(devices: MediaDeviceInfo[]): string[][] {
+  const groups = new Map<string, string[]>();
+
+  for (const device of devices) {
+    if (!device.groupId) continue;
+    groups.set(device.groupId, [...(groups.get(device.groupId) ?? []), device.kind]);
+  }
+
+  // Only the shape matters, not the per-origin IDs
+  return [...groups.values()].map((kinds) => kinds.sort()).sort((a, b) => a.join().localeCompare(b.join()));
+}
+
+async function getCodecSupport(): Promise<MediaCodecSupport[]> {
+  const capabilities = navigator.mediaCapabilities;
+  if (!capabilities?.decodingInfo) return [];
+
+  const queries: Array<[string, MediaDecodingConfiguration]> = [
+    ...VIDEO_CODECS.map((contentType): [string, MediaDecodingConfiguration] => [
+      contentType,
+      { type: 'file', video: { contentType, width: 1920, height: 1080, bitrate: 5_000_000, framerate: 30 } },
+    ]),
+    ...AUDIO_CODECS.map((contentType): [string, MediaDecodingConfiguration] => [
+      contentType,
+      { type: 'file', audio: { contentType, channels: '2', bitrate: 128_000, samplerate: 48_000 } },
+    ]),
+  ];
+
+  return Promise.all(
+    queries.map(async ([contentType, configuration]) => {
+      try {
+        const info = await capabilities.decodingInfo(configuration);
+        return { contentType, supported: info.supported, smooth: info.smooth, powerEfficient: info.powerEfficient };
+      } catch {
+        // Rejected configurations (unknown MIME syntax) count as unsupported
+        return { contentType, supported: false, smooth: false, powerEfficient: false };
+      }
+    })
+  );
+}
+
+function getRecorderMimeTypes(): string[] {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) return [];
+
+  return RECORDER_MIME_TYPES.filter((type) => {
+    try {
+      return MediaRecorder.isTypeSupported(type);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Speech synthesis voices; Chromium loads them asynchronously, so wait for
+ * voiceschanged when the first call comes back empty
+ */
+export async function getSpeechVoices(): Promise<SpeechVoiceInfo[]> {
+  const synth = typeof speechSynthesis !== 'undefined' ? speechSynthesis : undefined;
+  if (!synth?.getVoices) return [];
+
+  let voices = synth.getVoices();
+  if (voices.length === 0) {
+    voices = await withTimeout(
+      new Promise<SpeechSynthesisVoice[]>((resolve) => {
+        synth.addEventListener('voiceschanged', () => resolve(synth.getVoices()), { once: true });
+      }),
+      VOICES_TIMEOUT,
+      []
+    );
+  }
+
+  return voices.map((voice) => ({
+    name: voice.name,
+    lang: voice.lang,
+    localService: voice.localService,
+    default: voice.default,
+  }));
+}
+
+async function getMediaDevicesFingerprintInternal(): Promise<MediaDevicesFingerprint> {
+  const [devices, codecs, voices] = await Promise.all([
+    getDevices().catch(() => []),
+    getCodecSupport(),
+    getSpeechVoices().catch(() => []),
+  ]);
+
+  const count = (kind: string) => devices.filter((device) => device.kind === kind).length;
+
+  return {
+    audioinput: count('audioinput'),
+    audiooutput: count('audiooutput'),
+    videoinput: count('videoinput'),
+    devices,
+    labelsExposed: devices.some((device) => device.label !== ''),
+    deviceIdsExposed: devices.some((device) => device.deviceId !== ''),
+    groups: getGroups(devices),
+    codecs,
+    recorderMimeTypes: getRecorderMimeTypes(),
+    voices,
+  };
+}
+
+/**
+ * Collect media devices fingerprint
+ */
+export async function collectMediaDevicesFingerprint(): Promise<CollectorResult<MediaDevicesFingerprint>> {
+  try {
+    const { value, duration } = await collectWithTiming(getMediaDevicesFingerprintInternal);
+
+    return {
+      status: 'success',
+      value,
+      duration,
+    };
+  } catch (error) {
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration: 0,
+    };
+  }
+}
+
+export default collectMediaDevicesFingerprint;
@@ -136,11 +136,31 @@ export interface MediaDeviceInfo {
   groupId: string;
 }
 
+export interface MediaCodecSupport {
+  contentType: string;
+  supported: boolean;
+  smooth: boolean;
+  powerEfficient: boolean;
+}
+
+export interface SpeechVoiceInfo {
+  name: string;
+  lang: string;
+  localService: boolean;
+  default: boolean;
+}
+
 export interface MediaDevicesFingerprint {
   audioinput: number;
   audiooutput: number;
   videoinput: number;
   devices: MediaDeviceInfo[];
+  labelsExposed: boolean; // labels are empty until a capture permission is granted
+  deviceIdsExposed: boolean;
+  groups: string[][]; // device kinds sharing a groupId, i.e. the same physical device
+  codecs: MediaCodecSupport[]; // MediaCapabilities.decodingInfo per codec
+  recorderMimeTypes: string[]; // MediaRecorder.isTypeSupported
+  voices: SpeechVoiceInfo[];
 }
 
 // Storage Support
@@ -186,9 +206,36 @@ export interface TouchFingerprint {
 }
 
 // Content Blocker Detection
+export type FilterListId =
+  | 'easyList'
+  | 'easyPrivacy'
+  | 'fanboyAnnoyances'
+  | 'fanboySocial'
+  | 'adGuardBase'
+  | 'adBlockWarningRemoval'
+  | 'easyListGermany'
+  | 'easyListDutch'
+  | 'easyListItaly'
+  | 'easyListCzechSlovak'
+  | 'adGuardFrench'
+  | 'adGuardSpanishPortuguese'
+  | 'adGuardJapanese'
+  | 'ruAdList';
+
+export interface FilterListMatch {
+  id: FilterListId;
+  name: string;
+  hidden: number; // bait elements hidden
+  total: number;
+  active: boolean;
+}
+
 export interface ContentBlockerFingerprint {
   adBlocker: boolean;
-  detectableBlockers: string[];
+  detectableBlockers: string[]; // blockers whose default lists match the active lists
+  activeLists: FilterListId[];
+  lists: FilterListMatch[];
+  hiddenSelectors: string[];
 }
 
 // CSS Media Features
@@ -204,6 +251,51 @@ export interface MediaFeaturesFingerprint {
   hdr: boolean;
 }
 
+// Lies / Anti-fingerprinting Detection
+export type LieType = 'prototype' | 'inconsistency' | 'noise';
+
+export type SpoofingSource = 'brave' | 'firefox-rfp' | 'canvasblocker' | 'unknown';
+
+export interface Lie {
+  type: LieType;
+  api: string;
+  detail: string;
+}
+
+export interface LiesFingerprint {
+  lies: Lie[];
+  lieCount: number;
+  canvasNoise: boolean;
+  likelySource: SpoofingSource | null;
+  sourceConfidence: number; // 0-1
+}
+
+// Automation Detection
+export type HeadlessTrait =
+  | 'headless-user-agent'
+  | 'no-plugins'
+  | 'zero-outer-size'
+  | 'no-chrome-object'
+  | 'no-languages'
+  | 'notification-permission';
+
+export type StealthLeftover =
+  | 'navigator-own-properties'
+  | 'webdriver-missing'
+  | 'webdriver-getter'
+  | 'plugins-type'
+  | 'permissions-query'
+  | 'iframe-content-window';
+
+export interface AutomationFingerprint {
+  webdriver: boolean | null; // navigator.webdriver; null when the browser lacks it
+  cdpRuntime: boolean; // a DevTools protocol client serialized console arguments
+  headlessTraits: HeadlessTrait[];
+  stealthLeftovers: StealthLeftover[]; // evasions that patch the page but leave traces
+  automationGlobals: string[]; // window/document properties injected by drivers
+  workerMismatches: string[]; // navigator properties that differ in a dedicated worker
+}
+
 // Complete Fingerprint
 export interface CompleteFingerprint {
   visitorId: string;
@@ -225,5 +317,7 @@ export interface CompleteFingerprint {
     touch?: CollectorResult<TouchFingerprint>;
     contentBlocker?: CollectorResult<ContentBlockerFingerprint>;
     mediaFeatures?: CollectorResult<MediaFeaturesFingerprint>;
+    lies?: CollectorResult<LiesFingerprint>;
+    automation?: CollectorResult<AutomationFingerprint>;
   };
 }
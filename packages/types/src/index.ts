@@ -44,23 +44,100 @@ export interface IPLeakResult {
     isBlacklisted: boolean;
     categories: string[];
   };
+  // Present when the result was reconciled from several IP intelligence providers
+  sources?: string[]; // providers that answered
+  confidence?: number; // 0-1, mean of the per-field confidences
+  provenance?: Partial<Record<IPProvenanceField, IPFieldProvenance>>;
+  ranges?: IPRangeVerdict; // Tor exit / VPN / hosting list matches
+}
+
+export type IPRangeCategory = 'tor' | 'vpn' | 'datacenter' | 'proxy';
+
+/**
+ * A detection list entry that matched an address
+ */
+export interface IPRangeMatch {
+  category: IPRangeCategory;
+  list: string; // e.g. tor-exits, aws, hetzner
+  matched: string; // the CIDR or ASN that matched
+  updatedAt: string; // ISO 8601, when the list was last refreshed
+  ageSeconds: number;
+  stale: boolean; // the list missed its refreshes and may be out of date
+}
+
+/**
+ * What the in-house Tor / VPN / hosting lists say about an address
+ */
+export interface IPRangeVerdict {
+  ip: string;
+  isTor: boolean;
+  isVPN: boolean;
+  isDatacenter: boolean;
+  isProxy: boolean;
+  matches: IPRangeMatch[];
+  checkedAt: string; // ISO 8601
+}
+
+/**
+ * Reconciled fields of an IPLeakResult that carry provenance
+ */
+export type IPProvenanceField =
+  | 'country'
+  | 'region'
+  | 'city'
+  | 'location'
+  | 'timezone'
+  | 'asn'
+  | 'organization'
+  | 'isProxy'
+  | 'isVPN'
+  | 'isDatacenter'
+  | 'isTor'
+  | 'isRelay';
+
+/**
+ * How a reconciled field was decided: which providers voted for the chosen
+ * value, which reported something else, and the weighted share of the vote
+ */
+export interface IPFieldProvenance {
+  sources: string[];
+  dissent: string[];
+  confidence: number; // 0-1, winning weight over the weight of every provider that answered
 }
 
 // ===========================
 // DNS Leak Detection
 // ===========================
 
+/**
+ * A DNS leak test: the client resolves every probe hostname, and the
+ * authoritative nameserver for the test zone records which resolvers asked
+ */
+export interface DNSLeakTest {
+  testId: string;
+  probes: string[]; // hostnames under the test zone, each unique to this test
+  expiresAt: string; // ISO 8601
+}
+
+export interface DNSLeakServer {
+  ip: string;
+  country: string;
+  countryCode: string;
+  isp: string;
+  asn: string;
+  isISP: boolean; // resolver sits in the same ASN as the client IP
+  queryCount: number;
+}
+
 export interface DNSLeakResult {
   testId: string;
   isLeak: boolean;
   leakType: LeakType;
-  servers: Array<{
-    ip: string;
-    country: string;
-    countryCode: string;
-    isp: string;
-    isISP: boolean;
-  }>;
+  clientIp: string;
+  clientAsn: string;
+  probeCount: number;
+  probesResolved: number;
+  servers: DNSLeakServer[];
   dohEnabled: boolean;
   dotEnabled: boolean;
   risks: Array<{
@@ -71,6 +148,65 @@ export interface DNSLeakResult {
   recommendations: string[];
 }
 
+// ===========================
+// IPv6 Leak Detection
+// ===========================
+
+export type IPv6ProbeEndpoint = 'ipv4' | 'ipv6' | 'dual';
+
+/**
+ * A dual-stack leak test: the client fetches one probe URL per endpoint, served
+ * from hostnames with only an A record, only an AAAA record, or both
+ */
+export interface IPv6LeakTest {
+  testId: string;
+  probes: Record<IPv6ProbeEndpoint, string>;
+  expiresAt: string; // ISO 8601
+}
+
+export interface IPv6ProbeResult {
+  endpoint: IPv6ProbeEndpoint;
+  reached: boolean;
+  ip?: string;
+  version?: 'ipv4' | 'ipv6';
+  asn?: string;
+  isp?: string;
+  countryCode?: string;
+}
+
+/**
+ * How the last 64 bits of an address were chosen: derived from the MAC (EUI-64),
+ * randomized (privacy extensions / stable-private), or a small hand-assigned value
+ */
+export type IPv6InterfaceIdType = 'eui64' | 'randomized' | 'low-entropy';
+
+export interface IPv6AddressAnalysis {
+  address: string;
+  prefix: string; // the /64 the address sits in, e.g. 2001:db8:1:2::/64
+  asn: string;
+  isp: string;
+  countryCode: string;
+  interfaceId: IPv6InterfaceIdType;
+  privacyExtensions: boolean;
+  macAddress?: string; // recovered from an EUI-64 interface ID
+  rotated: boolean; // different interface IDs in the same /64 within one test
+}
+
+export interface IPv6LeakResult {
+  testId: string;
+  isLeak: boolean; // IPv6 leaves from a different network than IPv4
+  ipv6Reachable: boolean;
+  preferredFamily: 'ipv4' | 'ipv6' | null; // family the dual-stack endpoint was reached over
+  probes: IPv6ProbeResult[];
+  ipv6?: IPv6AddressAnalysis;
+  risks: Array<{
+    severity: RiskLevel;
+    title: string;
+    description: string;
+  }>;
+  recommendations: string[];
+}
+
 // ===========================
 // WebRTC Leak Detection
 // ===========================
@@ -198,20 +334,336 @@ export interface NavigatorFingerprint {
   doNotTrack: string | null;
 }
 
+export interface ComponentEntropy {
+  bits: number; // Shannon surprisal, -log2(frequency)
+  frequency: number; // 0-1, share of sampled fingerprints with this value
+  matches: number; // sampled fingerprints sharing this value
+  sampleSize: number; // sampled fingerprints that reported this component
+}
+
+export interface FingerprintEntropy {
+  components: Record<string, ComponentEntropy>;
+  totalBits: number;
+  oneIn: number; // "1 in N" browsers share this fingerprint
+  sampleSize: number; // distinct fingerprints in the population
+}
+
+export type ComponentMatchStatus = 'match' | 'mismatch' | 'missing';
+
+export interface FingerprintMatch {
+  hash: string;
+  similarity: number; // 0-1, weighted share of matching components
+  exact: boolean;
+  seenCount: number;
+  firstSeen: string;
+  lastSeen: string;
+  components: Array<{
+    component: string;
+    weight: number;
+    status: ComponentMatchStatus;
+  }>;
+}
+
+export interface FingerprintMatchResult {
+  matches: FingerprintMatch[]; // most similar first
+  candidatesScanned: number;
+}
+
+// ===========================
+// Fingerprint Drift
+// ===========================
+
+export type DriftClassification = 'stable' | 'drifting' | 'volatile' | 'unknown';
+
+export interface ComponentDrift {
+  component: string;
+  observations: number; // snapshots that reported this component
+  changes: number; // transitions between consecutive observations with a different value
+  distinctValues: number;
+  volatility: number; // 0-1, changes / (observations - 1)
+  classification: DriftClassification;
+  lastChangedAt: string | null;
+}
+
+export interface FingerprintDriftEvent {
+  snapshotId: string;
+  timestamp: string;
+  changed: string[];
+  added: string[];
+  removed: string[];
+}
+
+export interface FingerprintDriftReport {
+  visitorId: string;
+  snapshotCount: number;
+  firstSeen: string | null;
+  lastSeen: string | null;
+  components: ComponentDrift[]; // most volatile first
+  events: FingerprintDriftEvent[]; // oldest first
+}
+
+// ===========================
+// Consistency Analysis
+// ===========================
+
+export type ConsistencyCheck =
+  | 'timezone-ip'
+  | 'language-ip'
+  | 'language-header'
+  | 'webrtc-ip'
+  | 'platform-client-hints';
+
+export interface ConsistencyMismatch {
+  check: ConsistencyCheck;
+  severity: RiskLevel;
+  title: string;
+  description: string;
+  expected: string; // value implied by the network / reference signal
+  observed: string; // value reported by the browser
+}
+
+export interface ConsistencyReport {
+  consistent: boolean;
+  checksRun: ConsistencyCheck[];
+  mismatches: ConsistencyMismatch[]; // most severe first
+}
+
+// ===========================
+// HTTP Headers
+// ===========================
+
+export type HeaderCheck = 'platform' | 'mobile' | 'brand' | 'version' | 'missing-client-hints';
+
+export interface HeaderInconsistency {
+  check: HeaderCheck;
+  severity: RiskLevel;
+  title: string;
+  description: string;
+  expected: string; // value implied by the client hints
+  observed: string; // value claimed by the User-Agent
+}
+
+export interface HttpHeader {
+  name: string;
+  value: string;
+}
+
+export interface HttpConnectionInfo {
+  httpProtocol: string | null; // e.g. HTTP/2, HTTP/3
+  tlsVersion: string | null;
+  tlsCipher: string | null;
+}
+
+export interface HttpHeadersResult {
+  headers: HttpHeader[]; // as received
+  orderPreserved: boolean; // false when the runtime does not expose the wire order
+  headerOrder: string[]; // lowercased names sent by the browser, excluding proxy-added headers
+  orderFingerprint: string | null; // SHA-256 of headerOrder; null unless orderPreserved
+  clientHints: Record<string, string>; // Sec-CH-UA-*
+  fetchMetadata: Record<string, string>; // Sec-Fetch-*
+  acceptLanguage: string[];
+  connection: HttpConnectionInfo;
+  inconsistencies: HeaderInconsistency[]; // most severe first
+}
+
+// ===========================
+// Automation Detection
+// ===========================
+
+export type AutomationCheck =
+  | 'webdriver'
+  | 'cdp-runtime'
+  | 'headless'
+  | 'stealth'
+  | 'automation-globals'
+  | 'worker-mismatch'
+  | 'request-headers';
+
+export type BotLikelihood = 'human' | 'suspicious' | 'likely-bot' | 'bot';
+
+/**
+ * Collected in the browser by the automation collector of @browserleaks/core
+ */
+export interface AutomationSignals {
+  webdriver: boolean | null; // navigator.webdriver; null when the browser lacks it
+  cdpRuntime: boolean; // a DevTools protocol client serialized console arguments
+  headlessTraits: string[];
+  stealthLeftovers: string[];
+  automationGlobals: string[];
+  workerMismatches: string[]; // navigator properties that differ in a dedicated worker
+}
+
+export interface AutomationEvidence {
+  check: AutomationCheck;
+  signal: string; // trait, global or property behind the finding
+  source: 'browser' | 'request';
+  weight: number; // points added to the score
+  title: string;
+  description: string;
+}
+
+export interface AutomationReport {
+  score: number; // 0-100 likelihood that the browser is automated
+  likelihood: BotLikelihood;
+  framework: string | null; // when a leftover identifies the automation tool
+  evidence: AutomationEvidence[]; // heaviest first
+}
+
+// ===========================
+// TLS Fingerprinting
+// ===========================
+
+export type TLSFingerprintSource = 'client-hello' | 'edge-metadata';
+
+export type TLSClientCategory = 'browser' | 'library' | 'automation';
+
+export interface TLSClientHelloSummary {
+  tlsVersion: string; // highest version offered, e.g. TLS 1.3
+  cipherSuites: string[]; // hex, GREASE removed
+  extensions: string[];
+  supportedGroups: string[];
+  pointFormats: string[];
+  signatureAlgorithms: string[];
+  alpnProtocols: string[];
+  serverName: string | null;
+}
+
+export interface KnownTLSClient {
+  id: string;
+  name: string;
+  category: TLSClientCategory;
+  ja4: string;
+  ja3n?: string; // MD5
+  notes?: string;
+}
+
+export interface TLSClientMatch {
+  client: string;
+  category: TLSClientCategory;
+  matchedOn: 'ja4' | 'ja3n';
+}
+
+export interface TLSFingerprintResult {
+  source: TLSFingerprintSource;
+  ja3: string | null; // full JA3 string
+  ja3Hash: string | null;
+  ja3n: string | null; // JA3 with extensions sorted
+  ja3nHash: string | null;
+  ja4: string | null;
+  clientHello: TLSClientHelloSummary | null; // only when the raw ClientHello was captured
+  match: TLSClientMatch | null;
+  automation: {
+    detected: boolean;
+    reasons: string[];
+  };
+  databaseVersion: string;
+}
+
+// ===========================
+// Network Path (Traceroute)
+// ===========================
+
+export type TracerouteProtocol = 'icmp' | 'udp' | 'tcp';
+
+/**
+ * measured: hops reported by a probe agent; synthetic: a fixed sample shown when
+ * no measurement was possible
+ */
+export type MeasurementSource = 'measured' | 'synthetic';
+
+export interface TracerouteHop {
+  hop: number;
+  ip: string | null; // null when no probe was answered
+  rtt: number | null; // fastest probe, ms
+  rtts: number[];
+  isPrivate: boolean;
+  asn: string | null;
+  organization: string | null;
+  city: string | null;
+  countryCode: string | null;
+  location: string; // display label
+}
+
+export interface TracerouteResult {
+  source: MeasurementSource;
+  reason?: string; // why the result is synthetic
+  protocol: TracerouteProtocol;
+  target: string;
+  agent: string | null; // probe agent that ran the trace
+  measuredAt: string; // ISO 8601
+  reachedTarget: boolean;
+  hops: TracerouteHop[];
+}
+
+// ===========================
+// Browser Configuration
+// ===========================
+
+export type WebRTCIPHandlingPolicy =
+  | 'default'
+  | 'default_public_and_private_interfaces'
+  | 'default_public_interface_only'
+  | 'disable_non_proxied_udp'
+  | 'disabled';
+
+export type PermissionStatus = 'granted' | 'denied' | 'prompt';
+
+/**
+ * Privacy-relevant browser settings reported by the client; omitted signals are unknown
+ */
+export interface BrowserConfigSignals {
+  doNotTrack?: boolean;
+  globalPrivacyControl?: boolean;
+  cookiesEnabled?: boolean;
+  thirdPartyCookiesBlocked?: boolean;
+  adBlockEnabled?: boolean;
+  storagePartitioned?: boolean;
+  webrtcPolicy?: WebRTCIPHandlingPolicy;
+  permissions?: Record<string, PermissionStatus>; // Permissions API name -> state
+  languages?: string[];
+}
+
 // ===========================
 // Privacy Score
 // ===========================
 
+export type PrivacyScoreSection =
+  | 'ipPrivacy'
+  | 'dnsPrivacy'
+  | 'webrtcPrivacy'
+  | 'fingerprintResistance'
+  | 'browserConfig';
+
+export interface ScoringPolicyRef {
+  name: string;
+  version: string;
+}
+
+/**
+ * Declarative scoring policy: how many points each section is worth and where risk levels start
+ */
+export interface ScoringPolicy extends ScoringPolicyRef {
+  description: string;
+  weights: Record<PrivacyScoreSection, number>; // max points per section, summing to 100
+  riskThresholds: {
+    low: number; // minimum total score for each level; anything lower is critical
+    medium: number;
+    high: number;
+  };
+}
+
 export interface PrivacyScore {
   totalScore: number; // 0-100
   riskLevel: RiskLevel;
   breakdown: {
-    ipPrivacy: number; // 0-20
+    ipPrivacy: number; // 0-20 under the standard policy
     dnsPrivacy: number; // 0-15
     webrtcPrivacy: number; // 0-15
     fingerprintResistance: number; // 0-30
     browserConfig: number; // 0-20
   };
+  normalized: Record<PrivacyScoreSection, number>; // 0-1 per section, independent of the policy
+  policy: ScoringPolicyRef;
   vulnerabilities: Array<{
     category: string;
     severity: RiskLevel;
@@ -223,6 +675,7 @@ export interface PrivacyScore {
     timestamp: number;
     score: number;
   }>;
+  consistency?: ConsistencyReport;
 }
 
 // ===========================
@@ -304,9 +757,12 @@ export interface IPDetectRequest {
 }
 
 export interface DNSLeakRequest {
-  testId?: string;
+  testId: string;
   userIp?: string;
-  userCountry?: string;
+}
+
+export interface IPv6LeakRequest {
+  testId: string;
 }
 
 export interface WebRTCLeakRequest {
@@ -394,3 +850,44 @@ export interface SharedScanResponse {
   remainingViews: number | null;
   expiresAt: string | null;
 }
+
+// ===========================
+// API Keys & Quotas
+// ===========================
+
+export type ApiKeyTier = 'free' | 'pro' | 'internal';
+
+export type EndpointGroup = 'detect' | 'fingerprint' | 'scoring' | 'data' | 'ai';
+
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  tier: ApiKeyTier;
+  prefix: string; // first characters of the key, for identifying it in listings
+  createdAt: string;
+  lastUsedAt: string | null;
+  rotatedAt: string | null;
+  revokedAt: string | null;
+}
+
+/**
+ * Returned once on creation and rotation; only a hash of the key is stored
+ */
+export interface IssuedApiKey {
+  key: string;
+  apiKey: ApiKeyInfo;
+}
+
+export interface QuotaUsage {
+  group: EndpointGroup | 'all';
+  limit: number | null; // null = unlimited
+  used: number;
+  remaining: number | null;
+  resetAt: string;
+}
+
+export interface QuotaStatus {
+  tier: ApiKeyTier | 'anonymous';
+  keyId: string | null;
+  quotas: QuotaUsage[];
+}